@@ -0,0 +1,17 @@
+-- Migration 012: Segment Evaluation
+-- Engagement columns and indexes used when compiling lead_segments.conditions into lead queries
+
+-- Engagement timestamps maintained by the email webhooks
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS last_opened_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS last_clicked_at TIMESTAMP WITH TIME ZONE;
+
+-- Track when a segment's lead_count was last recomputed
+ALTER TABLE lead_segments
+ADD COLUMN IF NOT EXISTS last_evaluated_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes for the engagement filters segments compile to
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_last_activity ON leads(workspace_id, last_activity_at);
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_last_opened ON leads(workspace_id, last_opened_at);
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_last_clicked ON leads(workspace_id, last_clicked_at);
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_source ON leads(workspace_id, source);
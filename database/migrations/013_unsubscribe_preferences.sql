@@ -0,0 +1,58 @@
+-- Migration 013: Unsubscribe and Preference Center
+-- Subscription topics, per-lead topic preferences and campaign topics
+
+-- Topics a workspace sends about (newsletter, product updates, offers...)
+CREATE TABLE IF NOT EXISTS subscription_topics (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    -- Leads without an explicit preference are subscribed when true (opt-out topic)
+    is_default BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(workspace_id, name)
+);
+
+-- Explicit choices made in the preference center
+CREATE TABLE IF NOT EXISTS lead_topic_preferences (
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    topic_id UUID NOT NULL REFERENCES subscription_topics(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    subscribed BOOLEAN NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (lead_id, topic_id)
+);
+
+-- Campaigns may be tagged with the topic they belong to
+ALTER TABLE campaigns
+ADD COLUMN IF NOT EXISTS topic_id UUID REFERENCES subscription_topics(id) ON DELETE SET NULL;
+
+-- Recipients dropped at send time because they opted out
+ALTER TABLE campaign_send_batches
+ADD COLUMN IF NOT EXISTS skipped_count INTEGER DEFAULT 0;
+
+-- Indexes for send-time preference checks
+CREATE INDEX IF NOT EXISTS idx_subscription_topics_workspace ON subscription_topics(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_lead_topic_preferences_topic ON lead_topic_preferences(topic_id, subscribed);
+CREATE INDEX IF NOT EXISTS idx_email_sends_campaign_lead ON email_sends(campaign_id, lead_id);
+
+-- Enable RLS
+ALTER TABLE subscription_topics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_topic_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage subscription topics in their workspace" ON subscription_topics
+    FOR ALL USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users can view topic preferences in their workspace" ON lead_topic_preferences
+    FOR SELECT USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
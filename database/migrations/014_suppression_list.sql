@@ -0,0 +1,30 @@
+-- Migration 014: Suppression List
+-- Workspace-level list of addresses and domains that must never be emailed
+
+CREATE TABLE IF NOT EXISTS suppression_list (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    -- 'email' entries match a full address, 'domain' entries match everything after the @
+    entry_type VARCHAR(20) NOT NULL DEFAULT 'email' CHECK (entry_type IN ('email', 'domain')),
+    value VARCHAR(255) NOT NULL,
+    reason VARCHAR(50) NOT NULL CHECK (reason IN ('hard_bounce', 'complaint', 'manual', 'import')),
+    source VARCHAR(50),
+    metadata JSONB DEFAULT '{}',
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(workspace_id, entry_type, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppression_list_workspace_created ON suppression_list(workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_suppression_list_workspace_reason ON suppression_list(workspace_id, reason);
+
+-- Enable RLS
+ALTER TABLE suppression_list ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage suppression list in their workspace" ON suppression_list
+    FOR ALL USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
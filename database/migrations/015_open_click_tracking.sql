@@ -0,0 +1,58 @@
+-- Migration 015: Open and Click Tracking
+-- Self-hosted tracking pixel and link redirects, with machine opens/clicks flagged separately
+
+-- Per-send engagement counters and machine open flag
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS open_count INTEGER DEFAULT 0;
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS click_count INTEGER DEFAULT 0;
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS machine_opened_at TIMESTAMP WITH TIME ZONE;
+
+-- Machine opens (Apple MPP, scanners) are kept out of `opened`
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS machine_opened INTEGER DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS machine_clicked INTEGER DEFAULT 0;
+
+-- Machine-classified clicks are stored for auditing but excluded from link counters
+ALTER TABLE link_clicks ADD COLUMN IF NOT EXISTS email_send_id UUID REFERENCES email_sends(id) ON DELETE CASCADE;
+ALTER TABLE link_clicks ADD COLUMN IF NOT EXISTS is_machine BOOLEAN DEFAULT false;
+ALTER TABLE link_clicks ADD COLUMN IF NOT EXISTS machine_reason VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_email_links_campaign_position ON email_links(campaign_id, position);
+CREATE INDEX IF NOT EXISTS idx_link_clicks_link_lead ON link_clicks(link_id, lead_id) WHERE is_machine = false;
+CREATE INDEX IF NOT EXISTS idx_link_clicks_email_send_id ON link_clicks(email_send_id);
+
+CREATE OR REPLACE FUNCTION increment_campaign_machine_opened(campaign_id UUID)
+RETURNS void AS $$
+BEGIN
+    UPDATE campaigns
+    SET machine_opened = machine_opened + 1
+    WHERE id = campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION increment_campaign_machine_clicked(campaign_id UUID)
+RETURNS void AS $$
+BEGIN
+    UPDATE campaigns
+    SET machine_clicked = machine_clicked + 1
+    WHERE id = campaign_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION increment_link_clicks(p_link_id UUID, p_unique BOOLEAN)
+RETURNS void AS $$
+BEGIN
+    UPDATE email_links
+    SET click_count = click_count + 1,
+        unique_click_count = unique_click_count + CASE WHEN p_unique THEN 1 ELSE 0 END
+    WHERE id = p_link_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION increment_email_send_engagement(p_send_id UUID, p_opens INTEGER, p_clicks INTEGER)
+RETURNS void AS $$
+BEGIN
+    UPDATE email_sends
+    SET open_count = COALESCE(open_count, 0) + p_opens,
+        click_count = COALESCE(click_count, 0) + p_clicks
+    WHERE id = p_send_id;
+END;
+$$ LANGUAGE plpgsql;
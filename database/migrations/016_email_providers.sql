@@ -0,0 +1,35 @@
+-- Migration 016: Email Providers
+-- Per-workspace sending providers (Resend, SMTP, Amazon SES, sink) tried in priority order
+
+CREATE TABLE IF NOT EXISTS workspace_email_providers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    provider_type VARCHAR(20) NOT NULL CHECK (provider_type IN ('resend', 'smtp', 'ses', 'sink')),
+    name VARCHAR(255) NOT NULL,
+    -- Provider credentials and settings; shape depends on provider_type
+    config JSONB NOT NULL DEFAULT '{}',
+    -- Lower priority is tried first; the next active provider is used when one is throttled or unavailable
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_email_providers_workspace_priority ON workspace_email_providers(workspace_id, is_active, priority);
+
+-- Provider that accepted each send; resend_id holds that provider's message id
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS provider VARCHAR(20) DEFAULT 'resend';
+
+COMMENT ON COLUMN email_sends.resend_id IS 'Message id returned by the sending provider (see provider column)';
+
+-- Enable RLS
+ALTER TABLE workspace_email_providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage email providers in their workspace" ON workspace_email_providers
+    FOR ALL USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
@@ -0,0 +1,126 @@
+-- Migration 017: Template Versions
+-- Every change to a template's content creates an immutable version; campaigns pin the version they were sent with
+
+-- The WYSIWYG editor saves its block tree alongside the generated HTML
+ALTER TYPE template_type ADD VALUE IF NOT EXISTS 'wysiwyg';
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS wysiwyg_data JSONB;
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 0;
+-- Author for saves made without a user session (public API)
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id);
+-- Set by a restore; cleared automatically by the next save
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS restored_from_version_id UUID;
+
+CREATE TABLE IF NOT EXISTS email_template_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    template_id UUID NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    subject VARCHAR(500) NOT NULL,
+    html_content TEXT,
+    text_content TEXT,
+    wysiwyg_data JSONB,
+    variables TEXT[] DEFAULT '{}',
+    created_by UUID REFERENCES auth.users(id),
+    restored_from_version_id UUID REFERENCES email_template_versions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_template_versions_template ON email_template_versions(template_id, version_number DESC);
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS template_version_id UUID REFERENCES email_template_versions(id);
+
+-- Bumps current_version when content changes and drops a stale restore marker
+CREATE OR REPLACE FUNCTION prepare_email_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.current_version := 1;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.subject IS DISTINCT FROM OLD.subject
+        OR NEW.html_content IS DISTINCT FROM OLD.html_content
+        OR NEW.text_content IS DISTINCT FROM OLD.text_content
+        OR NEW.wysiwyg_data IS DISTINCT FROM OLD.wysiwyg_data THEN
+        NEW.current_version := OLD.current_version + 1;
+
+        IF NEW.restored_from_version_id IS NOT DISTINCT FROM OLD.restored_from_version_id THEN
+            NEW.restored_from_version_id := NULL;
+        END IF;
+    ELSE
+        NEW.current_version := OLD.current_version;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as owner so versions are written regardless of the caller's RLS policies
+CREATE OR REPLACE FUNCTION record_email_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.current_version = OLD.current_version THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO email_template_versions (
+        template_id, workspace_id, version_number, name, subject, html_content, text_content,
+        wysiwyg_data, variables, created_by, restored_from_version_id
+    ) VALUES (
+        NEW.id, NEW.workspace_id, NEW.current_version, NEW.name, NEW.subject, NEW.html_content, NEW.text_content,
+        NEW.wysiwyg_data, COALESCE(NEW.variables, '{}'), COALESCE(auth.uid(), NEW.updated_by, NEW.created_by),
+        NEW.restored_from_version_id
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION prevent_email_template_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Template versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prepare_email_template_version_trigger ON email_templates;
+CREATE TRIGGER prepare_email_template_version_trigger
+    BEFORE INSERT OR UPDATE ON email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION prepare_email_template_version();
+
+DROP TRIGGER IF EXISTS record_email_template_version_trigger ON email_templates;
+CREATE TRIGGER record_email_template_version_trigger
+    AFTER INSERT OR UPDATE ON email_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION record_email_template_version();
+
+DROP TRIGGER IF EXISTS prevent_email_template_version_update_trigger ON email_template_versions;
+CREATE TRIGGER prevent_email_template_version_update_trigger
+    BEFORE UPDATE ON email_template_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_email_template_version_update();
+
+-- Version 1 for templates created before versioning
+INSERT INTO email_template_versions (
+    template_id, workspace_id, version_number, name, subject, html_content, text_content, wysiwyg_data, variables, created_by, created_at
+)
+SELECT id, workspace_id, 1, name, subject, html_content, text_content, wysiwyg_data, COALESCE(variables, '{}'), created_by, COALESCE(updated_at, created_at)
+FROM email_templates
+WHERE current_version = 0 AND workspace_id IS NOT NULL
+ON CONFLICT (template_id, version_number) DO NOTHING;
+
+UPDATE email_templates SET current_version = 1 WHERE current_version = 0;
+
+-- Enable RLS; versions are read-only for users and only written by the trigger above
+ALTER TABLE email_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view template versions in their workspace" ON email_template_versions
+    FOR SELECT USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
@@ -0,0 +1,37 @@
+-- Migration 018: Content Blocks
+-- Workspace-level saved sections for the visual editor; synced blocks are referenced by templates instead of copied
+
+CREATE TABLE IF NOT EXISTS content_blocks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(50) NOT NULL DEFAULT 'custom' CHECK (category IN ('header', 'footer', 'product_card', 'social_links', 'custom')),
+    description TEXT,
+    -- Editor components, same shape as email_templates.wysiwyg_data->components
+    components JSONB NOT NULL DEFAULT '[]',
+    -- Synced blocks are inserted as references; editing one re-renders every template using it
+    is_synced BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID REFERENCES auth.users(id),
+    updated_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_blocks_workspace_category ON content_blocks(workspace_id, category);
+
+-- Finds templates referencing a synced block (wysiwyg_data @> '{"components":[{"content":{"blockId":...}}]}')
+CREATE INDEX IF NOT EXISTS idx_email_templates_wysiwyg_data ON email_templates USING GIN (wysiwyg_data jsonb_path_ops);
+
+DROP TRIGGER IF EXISTS update_content_blocks_updated_at ON content_blocks;
+CREATE TRIGGER update_content_blocks_updated_at BEFORE UPDATE ON content_blocks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE content_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage content blocks in their workspace" ON content_blocks
+    FOR ALL USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
@@ -0,0 +1,15 @@
+-- Migration 019: Template Assets
+-- Public storage bucket for images uploaded with imported template bundles.
+-- Objects live under <workspace_id>/<import_id>/ and are written by the server with the service role;
+-- email clients load them anonymously, so the bucket is public and has no per-row read policy.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'template-assets',
+    'template-assets',
+    TRUE,
+    5242880,
+    ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
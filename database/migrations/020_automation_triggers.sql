@@ -0,0 +1,143 @@
+-- Migration 020: Automation Triggers
+-- Event-driven triggers: lead changes and email events are queued here and dispatched to matching automation flows
+
+-- Per-automation secret for the inbound webhook trigger URL
+ALTER TABLE automation_flows ADD COLUMN IF NOT EXISTS trigger_secret TEXT DEFAULT encode(gen_random_bytes(24), 'hex');
+UPDATE automation_flows SET trigger_secret = encode(gen_random_bytes(24), 'hex') WHERE trigger_secret IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_flows_trigger_secret ON automation_flows(trigger_secret);
+CREATE INDEX IF NOT EXISTS idx_automation_flows_active_trigger ON automation_flows(workspace_id, trigger_type) WHERE status = 'active';
+
+-- Outbox of trigger events waiting to be matched against active flows
+CREATE TABLE IF NOT EXISTS automation_trigger_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    runs_started INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_trigger_events_pending ON automation_trigger_events(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_automation_trigger_events_lead ON automation_trigger_events(lead_id, created_at DESC);
+
+-- Date triggers fire once per lead and occurrence (e.g. the 2025 birthday)
+CREATE TABLE IF NOT EXISTS automation_trigger_occurrences (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    automation_id UUID NOT NULL REFERENCES automation_flows(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    occurrence_key VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (automation_id, lead_id, occurrence_key)
+);
+
+-- Queue tag and field changes on leads, whichever path (API, import, UI, automation action) wrote them
+CREATE OR REPLACE FUNCTION enqueue_lead_trigger_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed_tag TEXT;
+    field_name TEXT;
+    old_lead JSONB;
+    new_lead JSONB;
+BEGIN
+    -- Skip the work entirely for workspaces without flows listening to lead changes
+    IF NOT EXISTS (
+        SELECT 1 FROM automation_flows
+        WHERE workspace_id = NEW.workspace_id
+          AND status = 'active'
+          AND trigger_type IN ('tag_added', 'tag_removed', 'lead_field_changed')
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        FOREACH changed_tag IN ARRAY COALESCE(NEW.tags, '{}') LOOP
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+        END LOOP;
+        RETURN NEW;
+    END IF;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(NEW.tags, '{}')) EXCEPT SELECT unnest(COALESCE(OLD.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(OLD.tags, '{}')) EXCEPT SELECT unnest(COALESCE(NEW.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_removed', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    old_lead := to_jsonb(OLD);
+    new_lead := to_jsonb(NEW);
+
+    FOREACH field_name IN ARRAY ARRAY['name', 'phone', 'company', 'position', 'source', 'status'] LOOP
+        IF (old_lead -> field_name) IS DISTINCT FROM (new_lead -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', field_name,
+                'old_value', old_lead -> field_name,
+                'new_value', new_lead -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    FOR field_name IN
+        SELECT jsonb_object_keys(COALESCE(OLD.custom_fields, '{}') || COALESCE(NEW.custom_fields, '{}'))
+    LOOP
+        IF (OLD.custom_fields -> field_name) IS DISTINCT FROM (NEW.custom_fields -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', 'custom_fields.' || field_name,
+                'old_value', OLD.custom_fields -> field_name,
+                'new_value', NEW.custom_fields -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enqueue_lead_trigger_events_on_insert ON leads;
+CREATE TRIGGER enqueue_lead_trigger_events_on_insert
+    AFTER INSERT ON leads
+    FOR EACH ROW
+    WHEN (cardinality(NEW.tags) > 0)
+    EXECUTE FUNCTION enqueue_lead_trigger_events();
+
+DROP TRIGGER IF EXISTS enqueue_lead_trigger_events_on_update ON leads;
+CREATE TRIGGER enqueue_lead_trigger_events_on_update
+    AFTER UPDATE OF tags, name, phone, company, position, source, status, custom_fields ON leads
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_lead_trigger_events();
+
+-- Enable RLS; events and occurrences are written by the service role only
+ALTER TABLE automation_trigger_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_trigger_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view automation trigger events in their workspace" ON automation_trigger_events
+    FOR SELECT USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users can view automation trigger occurrences in their workspace" ON automation_trigger_occurrences
+    FOR SELECT USING (
+        automation_id IN (
+            SELECT id FROM automation_flows WHERE workspace_id IN (
+                SELECT workspace_id FROM workspace_members
+                WHERE user_id = auth.uid() AND status = 'active'
+            )
+        )
+    );
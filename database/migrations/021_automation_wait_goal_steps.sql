@@ -0,0 +1,91 @@
+-- Migration 021: Automation Wait and Goal Steps
+-- Runs can park on a wait step until an email event or a time window, and goal steps pull leads out of a flow
+
+-- Wait step state (awaited events, timeout, matched event) for runs parked on a wait step
+ALTER TABLE automation_runs ADD COLUMN IF NOT EXISTS wait_state JSONB;
+
+-- Finds the parked runs of a lead when one of its events arrives
+CREATE INDEX IF NOT EXISTS idx_automation_runs_lead_waiting ON automation_runs(lead_id) WHERE status = 'pending' AND next_execution_at IS NOT NULL;
+
+-- IANA timezone for time window steps; custom_fields.timezone is used when empty
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+-- Automation emails are recorded like campaign sends so opens and clicks reach wait steps
+ALTER TABLE email_sends ADD COLUMN IF NOT EXISTS automation_run_id UUID REFERENCES automation_runs(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_email_sends_automation_run ON email_sends(automation_run_id) WHERE automation_run_id IS NOT NULL;
+
+-- Flows with goal steps also need tag and field changes queued
+CREATE OR REPLACE FUNCTION enqueue_lead_trigger_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed_tag TEXT;
+    field_name TEXT;
+    old_lead JSONB;
+    new_lead JSONB;
+BEGIN
+    -- Skip the work entirely for workspaces without flows listening to lead changes;
+    -- goal steps listen too, so a lead that converts leaves its flows right away
+    IF NOT EXISTS (
+        SELECT 1 FROM automation_flows
+        WHERE workspace_id = NEW.workspace_id
+          AND status = 'active'
+          AND (
+              trigger_type IN ('tag_added', 'tag_removed', 'lead_field_changed')
+              OR flow_definition -> 'steps' @> '[{"type": "goal"}]'
+          )
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        FOREACH changed_tag IN ARRAY COALESCE(NEW.tags, '{}') LOOP
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+        END LOOP;
+        RETURN NEW;
+    END IF;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(NEW.tags, '{}')) EXCEPT SELECT unnest(COALESCE(OLD.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(OLD.tags, '{}')) EXCEPT SELECT unnest(COALESCE(NEW.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_removed', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    old_lead := to_jsonb(OLD);
+    new_lead := to_jsonb(NEW);
+
+    FOREACH field_name IN ARRAY ARRAY['name', 'phone', 'company', 'position', 'source', 'status'] LOOP
+        IF (old_lead -> field_name) IS DISTINCT FROM (new_lead -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', field_name,
+                'old_value', old_lead -> field_name,
+                'new_value', new_lead -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    FOR field_name IN
+        SELECT jsonb_object_keys(COALESCE(OLD.custom_fields, '{}') || COALESCE(NEW.custom_fields, '{}'))
+    LOOP
+        IF (OLD.custom_fields -> field_name) IS DISTINCT FROM (NEW.custom_fields -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', 'custom_fields.' || field_name,
+                'old_value', OLD.custom_fields -> field_name,
+                'new_value', NEW.custom_fields -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,8 @@
+-- Migration 022: Automation Delivery Policies
+-- Per-flow re-entry and concurrency rules, plus the workspace frequency cap and quiet hours (workspaces.settings.delivery)
+
+-- {"reentry": "never" | "after_completion" | "after_days" | "always", "reentry_days": 30, "max_concurrent_runs": 1}
+ALTER TABLE automation_flows ADD COLUMN IF NOT EXISTS entry_policy JSONB NOT NULL DEFAULT '{"reentry": "after_completion", "max_concurrent_runs": 1}';
+
+-- Entry checks look up the previous runs of a lead in a flow
+CREATE INDEX IF NOT EXISTS idx_automation_runs_automation_lead ON automation_runs(automation_id, lead_id, started_at DESC);
@@ -0,0 +1,15 @@
+-- Migration 023: Automation Step Queue
+-- Run steps are delivered by the automation-steps queue; runs are claimed under a lease and steps are logged once per visit
+
+-- Worker lease; running runs with an expired lease are put back to pending by the recovery sweep
+ALTER TABLE automation_runs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Incremented each time a run moves to a step, so revisiting a step gets a new idempotency key
+ALTER TABLE automation_runs ADD COLUMN IF NOT EXISTS step_sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_due ON automation_runs(next_execution_at) WHERE status = 'pending' AND next_execution_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_automation_runs_lease ON automation_runs(locked_until) WHERE status = 'running';
+
+-- "<run id>:<step index>:<step sequence>"; a completed step is never executed again for the same key
+ALTER TABLE automation_step_executions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_step_executions_idempotency ON automation_step_executions(idempotency_key) WHERE idempotency_key IS NOT NULL;
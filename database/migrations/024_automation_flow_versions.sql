@@ -0,0 +1,85 @@
+-- Migration 024: Automation Flow Versions
+-- Edits go to a draft; publishing freezes the steps as a numbered version and runs stay on the version they started on
+
+CREATE TABLE IF NOT EXISTS automation_flow_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    automation_id UUID NOT NULL REFERENCES automation_flows(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    flow_definition JSONB NOT NULL DEFAULT '{}',
+    trigger_type VARCHAR(50) NOT NULL,
+    trigger_config JSONB DEFAULT '{}',
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (automation_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_flow_versions_automation ON automation_flow_versions(automation_id, version_number DESC);
+
+-- flow_definition keeps mirroring the published version; draft_definition holds unpublished edits
+ALTER TABLE automation_flows ADD COLUMN IF NOT EXISTS draft_definition JSONB;
+ALTER TABLE automation_flows ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES automation_flow_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE automation_runs ADD COLUMN IF NOT EXISTS flow_version_id UUID REFERENCES automation_flow_versions(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_automation_runs_flow_version ON automation_runs(flow_version_id, status);
+
+-- Every new flow starts with version 1, whichever path (builder, AI generator, seed data) created it
+CREATE OR REPLACE FUNCTION create_initial_automation_flow_version()
+RETURNS TRIGGER AS $$
+DECLARE
+    version_id UUID;
+BEGIN
+    INSERT INTO automation_flow_versions (automation_id, workspace_id, version_number, flow_definition, trigger_type, trigger_config)
+    VALUES (
+        NEW.id,
+        NEW.workspace_id,
+        1,
+        jsonb_set(COALESCE(NEW.flow_definition, '{}'), '{version}', '"1"'),
+        NEW.trigger_type,
+        COALESCE(NEW.trigger_config, '{}')
+    )
+    RETURNING id INTO version_id;
+
+    UPDATE automation_flows
+    SET current_version_id = version_id,
+        flow_definition = jsonb_set(COALESCE(flow_definition, '{}'), '{version}', '"1"')
+    WHERE id = NEW.id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS create_initial_automation_flow_version_on_insert ON automation_flows;
+CREATE TRIGGER create_initial_automation_flow_version_on_insert
+    AFTER INSERT ON automation_flows
+    FOR EACH ROW
+    EXECUTE FUNCTION create_initial_automation_flow_version();
+
+-- Existing flows become version 1 and their runs are pinned to it
+INSERT INTO automation_flow_versions (automation_id, workspace_id, version_number, flow_definition, trigger_type, trigger_config)
+SELECT id, workspace_id, 1, jsonb_set(COALESCE(flow_definition, '{}'), '{version}', '"1"'), trigger_type, COALESCE(trigger_config, '{}')
+FROM automation_flows
+WHERE current_version_id IS NULL
+ON CONFLICT (automation_id, version_number) DO NOTHING;
+
+UPDATE automation_flows f
+SET current_version_id = v.id,
+    flow_definition = v.flow_definition
+FROM automation_flow_versions v
+WHERE v.automation_id = f.id AND v.version_number = 1 AND f.current_version_id IS NULL;
+
+UPDATE automation_runs r
+SET flow_version_id = f.current_version_id
+FROM automation_flows f
+WHERE r.automation_id = f.id AND r.flow_version_id IS NULL;
+
+-- Enable RLS; versions are published by the service role through the API
+ALTER TABLE automation_flow_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view automation flow versions in their workspace" ON automation_flow_versions
+    FOR SELECT USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
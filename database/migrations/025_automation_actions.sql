@@ -0,0 +1,16 @@
+-- Migration 025: Automation Actions
+-- Atomic lead score increments for the increment-score action
+
+CREATE OR REPLACE FUNCTION increment_lead_score(p_lead_id UUID, p_amount INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    new_score INTEGER;
+BEGIN
+    UPDATE leads
+    SET score = COALESCE(score, 0) + p_amount
+    WHERE id = p_lead_id
+    RETURNING score INTO new_score;
+
+    RETURN new_score;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,181 @@
+-- Migration 026: Lead Scoring
+-- Workspace rules award points to leads as email events and lead activities arrive; a decay rule takes points back from inactive leads
+
+CREATE TABLE IF NOT EXISTS lead_scoring_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    -- Same event names as automation triggers; 'decay' rules run from the cron instead
+    event_type VARCHAR(50) NOT NULL CHECK (event_type IN (
+        'email_opened', 'email_clicked', 'form_submitted', 'tag_added', 'tag_removed', 'lead_field_changed', 'decay'
+    )),
+    -- Filters shaped like the matching trigger config (tag_name, field/to_value, campaign_id, url_contains, form_id);
+    -- decay rules hold interval_days
+    config JSONB NOT NULL DEFAULT '{}',
+    points INTEGER NOT NULL CHECK (points <> 0 AND points BETWEEN -1000 AND 1000),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (event_type <> 'decay' OR points < 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_scoring_rules_active ON lead_scoring_rules(workspace_id, event_type) WHERE status = 'active';
+-- Decay rules share leads.score_updated_at, so a workspace keeps a single active one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_scoring_rules_decay ON lead_scoring_rules(workspace_id) WHERE event_type = 'decay' AND status = 'active';
+
+CREATE TRIGGER update_lead_scoring_rules_updated_at BEFORE UPDATE ON lead_scoring_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Points each rule gave a lead; the trigger event id keeps a retried outbox event from scoring twice
+CREATE TABLE IF NOT EXISTS lead_score_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    rule_id UUID REFERENCES lead_scoring_rules(id) ON DELETE SET NULL,
+    trigger_event_id UUID REFERENCES automation_trigger_events(id) ON DELETE SET NULL,
+    event_type VARCHAR(50) NOT NULL,
+    points INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (rule_id, trigger_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_score_events_lead ON lead_score_events(lead_id, created_at DESC);
+
+-- Last time the score changed; decay counts inactivity from here
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_score ON leads(workspace_id, score DESC);
+
+-- Scoring rules and the increment-score action both go through here
+CREATE OR REPLACE FUNCTION increment_lead_score(p_lead_id UUID, p_amount INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    new_score INTEGER;
+BEGIN
+    UPDATE leads
+    SET score = COALESCE(score, 0) + p_amount,
+        score_updated_at = NOW()
+    WHERE id = p_lead_id
+    RETURNING score INTO new_score;
+
+    RETURN new_score;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply a decay rule: leads whose score has not changed for p_interval_days lose points, never going below zero
+CREATE OR REPLACE FUNCTION decay_lead_scores(p_workspace_id UUID, p_points INTEGER, p_interval_days INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    decayed INTEGER;
+BEGIN
+    UPDATE leads
+    SET score = GREATEST(score + p_points, 0),
+        score_updated_at = NOW()
+    WHERE workspace_id = p_workspace_id
+      AND score > 0
+      AND COALESCE(score_updated_at, created_at) <= NOW() - make_interval(days => p_interval_days);
+
+    GET DIAGNOSTICS decayed = ROW_COUNT;
+    RETURN decayed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tag and field scoring rules need lead changes queued even without flows listening
+CREATE OR REPLACE FUNCTION enqueue_lead_trigger_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    changed_tag TEXT;
+    field_name TEXT;
+    old_lead JSONB;
+    new_lead JSONB;
+BEGIN
+    -- Skip the work entirely for workspaces without flows or scoring rules listening to lead changes;
+    -- goal steps listen too, so a lead that converts leaves its flows right away
+    IF NOT EXISTS (
+        SELECT 1 FROM automation_flows
+        WHERE workspace_id = NEW.workspace_id
+          AND status = 'active'
+          AND (
+              trigger_type IN ('tag_added', 'tag_removed', 'lead_field_changed')
+              OR flow_definition -> 'steps' @> '[{"type": "goal"}]'
+          )
+    ) AND NOT EXISTS (
+        SELECT 1 FROM lead_scoring_rules
+        WHERE workspace_id = NEW.workspace_id
+          AND status = 'active'
+          AND event_type IN ('tag_added', 'tag_removed', 'lead_field_changed')
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        FOREACH changed_tag IN ARRAY COALESCE(NEW.tags, '{}') LOOP
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+        END LOOP;
+        RETURN NEW;
+    END IF;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(NEW.tags, '{}')) EXCEPT SELECT unnest(COALESCE(OLD.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_added', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    FOR changed_tag IN
+        SELECT unnest(COALESCE(OLD.tags, '{}')) EXCEPT SELECT unnest(COALESCE(NEW.tags, '{}'))
+    LOOP
+        INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+        VALUES (NEW.workspace_id, NEW.id, 'tag_removed', jsonb_build_object('tag', changed_tag));
+    END LOOP;
+
+    old_lead := to_jsonb(OLD);
+    new_lead := to_jsonb(NEW);
+
+    FOREACH field_name IN ARRAY ARRAY['name', 'phone', 'company', 'position', 'source', 'status'] LOOP
+        IF (old_lead -> field_name) IS DISTINCT FROM (new_lead -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', field_name,
+                'old_value', old_lead -> field_name,
+                'new_value', new_lead -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    FOR field_name IN
+        SELECT jsonb_object_keys(COALESCE(OLD.custom_fields, '{}') || COALESCE(NEW.custom_fields, '{}'))
+    LOOP
+        IF (OLD.custom_fields -> field_name) IS DISTINCT FROM (NEW.custom_fields -> field_name) THEN
+            INSERT INTO automation_trigger_events (workspace_id, lead_id, event_type, payload)
+            VALUES (NEW.workspace_id, NEW.id, 'lead_field_changed', jsonb_build_object(
+                'field', 'custom_fields.' || field_name,
+                'old_value', OLD.custom_fields -> field_name,
+                'new_value', NEW.custom_fields -> field_name
+            ));
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_score_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage scoring rules in their workspace" ON lead_scoring_rules
+    FOR ALL USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
+
+CREATE POLICY "Users can view score events in their workspace" ON lead_score_events
+    FOR SELECT USING (
+        workspace_id IN (
+            SELECT workspace_id FROM workspace_members
+            WHERE user_id = auth.uid() AND status = 'active'
+        )
+    );
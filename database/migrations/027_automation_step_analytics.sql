@@ -0,0 +1,92 @@
+-- Migration 027: Automation Step Analytics
+-- Per-step funnel of an automation: leads that entered, are waiting at or left each step, its branches, emails and conversions
+
+-- Latest execution of a step per run; the analytics read one row per run and step
+CREATE INDEX IF NOT EXISTS idx_automation_step_executions_run_step ON automation_step_executions(automation_run_id, step_id, executed_at DESC);
+
+-- Aggregate the step executions of an automation, optionally for a single flow version.
+-- Emails are matched through the email_id each send step logs, so sends made before this migration count too
+CREATE OR REPLACE FUNCTION get_automation_step_analytics(p_automation_id UUID, p_flow_version_id UUID DEFAULT NULL)
+RETURNS TABLE(
+    step_id VARCHAR(255),
+    entered BIGINT,
+    completed BIGINT,
+    failed BIGINT,
+    skipped BIGINT,
+    waiting BIGINT,
+    exited BIGINT,
+    conversions BIGINT,
+    emails_sent BIGINT,
+    emails_opened BIGINT,
+    emails_clicked BIGINT,
+    branches JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH runs AS (
+        SELECT r.id, r.status, (r.execution_data ? 'goal_reached') AS converted
+        FROM automation_runs r
+        WHERE r.automation_id = p_automation_id
+          AND (p_flow_version_id IS NULL OR r.flow_version_id = p_flow_version_id)
+    ),
+    -- Waits and retries run the same step again; the last execution holds its outcome
+    visits AS (
+        SELECT DISTINCT ON (e.automation_run_id, e.step_id)
+            e.automation_run_id,
+            e.step_id,
+            e.status,
+            e.result_data -> 'data' ->> 'branch_taken' AS branch_taken
+        FROM automation_step_executions e
+        JOIN runs ON runs.id = e.automation_run_id
+        ORDER BY e.automation_run_id, e.step_id, e.executed_at DESC
+    ),
+    -- Step each run executed last: where pending runs are parked and finished runs left the flow
+    last_steps AS (
+        SELECT DISTINCT ON (e.automation_run_id) e.automation_run_id, e.step_id
+        FROM automation_step_executions e
+        JOIN runs ON runs.id = e.automation_run_id
+        ORDER BY e.automation_run_id, e.executed_at DESC
+    ),
+    emails AS (
+        SELECT
+            e.step_id,
+            COUNT(DISTINCT s.id) AS sent,
+            COUNT(DISTINCT s.id) FILTER (WHERE s.opened_at IS NOT NULL) AS opened,
+            COUNT(DISTINCT s.id) FILTER (WHERE s.clicked_at IS NOT NULL) AS clicked
+        FROM automation_step_executions e
+        JOIN runs ON runs.id = e.automation_run_id
+        JOIN email_sends s ON s.automation_run_id = e.automation_run_id
+            AND s.resend_id = e.result_data -> 'data' ->> 'email_id'
+        GROUP BY e.step_id
+    ),
+    branch_counts AS (
+        SELECT b.step_id, jsonb_object_agg(b.branch_taken, b.total) AS taken
+        FROM (
+            SELECT v.step_id, v.branch_taken, COUNT(*) AS total
+            FROM visits v
+            WHERE v.branch_taken IS NOT NULL
+            GROUP BY v.step_id, v.branch_taken
+        ) b
+        GROUP BY b.step_id
+    )
+    SELECT
+        v.step_id,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE v.status = 'completed'),
+        COUNT(*) FILTER (WHERE v.status = 'failed'),
+        COUNT(*) FILTER (WHERE v.status = 'skipped'),
+        COUNT(*) FILTER (WHERE runs.status = 'pending' AND ls.automation_run_id IS NOT NULL),
+        COUNT(*) FILTER (WHERE runs.status IN ('completed', 'failed', 'cancelled') AND ls.automation_run_id IS NOT NULL),
+        COUNT(*) FILTER (WHERE runs.converted),
+        COALESCE(MAX(em.sent), 0),
+        COALESCE(MAX(em.opened), 0),
+        COALESCE(MAX(em.clicked), 0),
+        COALESCE((ARRAY_AGG(bc.taken))[1], '{}'::JSONB)
+    FROM visits v
+    JOIN runs ON runs.id = v.automation_run_id
+    LEFT JOIN last_steps ls ON ls.automation_run_id = v.automation_run_id AND ls.step_id = v.step_id
+    LEFT JOIN emails em ON em.step_id = v.step_id
+    LEFT JOIN branch_counts bc ON bc.step_id = v.step_id
+    GROUP BY v.step_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,11 @@
+-- Migration 028: Automation Bulk Enrollment
+-- Segments, lists, CSVs or lead selections are enrolled into a flow, or have their runs cancelled, in queued batches
+
+-- Bulk operations report their progress like lead imports
+ALTER TABLE progress_tracking DROP CONSTRAINT IF EXISTS progress_tracking_type_check;
+ALTER TABLE progress_tracking ADD CONSTRAINT progress_tracking_type_check CHECK (type IN (
+    'leads-import', 'email-sending', 'campaign-processing', 'automation-enrollment'
+));
+
+-- Cancelling every active run of a flow looks up its pending runs
+CREATE INDEX IF NOT EXISTS idx_automation_runs_automation_pending ON automation_runs(automation_id, lead_id) WHERE status = 'pending';
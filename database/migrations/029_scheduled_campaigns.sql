@@ -0,0 +1,11 @@
+-- Migration 029: Scheduled Campaigns
+-- A cron job claims scheduled campaigns once send_at passes and hands their recipients to the email-sending queue
+
+-- Why the last dispatch attempt failed; the campaign goes back to draft so it is not retried every minute
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS dispatch_error TEXT;
+
+-- The dispatcher only looks at scheduled campaigns that are due
+CREATE INDEX IF NOT EXISTS idx_campaigns_scheduled_send_at ON campaigns(send_at) WHERE status = 'scheduled';
+
+-- Finishing a send counts the batches that are done
+CREATE INDEX IF NOT EXISTS idx_campaign_send_batches_send_status ON campaign_send_batches(send_id, status);
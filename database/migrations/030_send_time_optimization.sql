@@ -0,0 +1,45 @@
+-- Migration 030: Send Time Optimization
+-- Optimized campaigns spread delivery over 24 hours so each lead gets the email at the local hour they usually open
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS send_mode VARCHAR(20) NOT NULL DEFAULT 'immediate';
+ALTER TABLE campaigns DROP CONSTRAINT IF EXISTS campaigns_send_mode_check;
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_send_mode_check CHECK (send_mode IN ('immediate', 'optimized'));
+
+CREATE INDEX IF NOT EXISTS idx_email_sends_workspace_lead_opened ON email_sends(workspace_id, lead_id, opened_at) WHERE opened_at IS NOT NULL;
+
+-- Human opens by local day of week (0 = Sunday) and hour. Opens are read in the lead's timezone column, then its
+-- timezone custom field, then p_default_timezone. Per lead for p_lead_ids; the whole workspace (lead_id NULL) without it
+CREATE OR REPLACE FUNCTION get_open_time_histogram(
+    p_workspace_id UUID,
+    p_lead_ids UUID[] DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NOW() - INTERVAL '180 days',
+    p_default_timezone TEXT DEFAULT 'America/Sao_Paulo'
+)
+RETURNS TABLE(
+    lead_id UUID,
+    day_of_week INTEGER,
+    hour INTEGER,
+    opens BIGINT
+) AS $$
+    WITH local_opens AS (
+        SELECT
+            CASE WHEN p_lead_ids IS NULL THEN NULL ELSE s.lead_id END AS lead_id,
+            -- Unknown timezone names would make AT TIME ZONE fail, so only names Postgres knows are used
+            s.opened_at AT TIME ZONE COALESCE(lead_tz.name, field_tz.name, p_default_timezone) AS opened_local
+        FROM email_sends s
+        JOIN leads l ON l.id = s.lead_id
+        LEFT JOIN pg_timezone_names lead_tz ON lead_tz.name = l.timezone
+        LEFT JOIN pg_timezone_names field_tz ON field_tz.name = l.custom_fields->>'timezone'
+        WHERE s.workspace_id = p_workspace_id
+          AND s.opened_at IS NOT NULL
+          AND s.opened_at >= p_since
+          AND (p_lead_ids IS NULL OR s.lead_id = ANY(p_lead_ids))
+    )
+    SELECT
+        lo.lead_id,
+        EXTRACT(DOW FROM lo.opened_local)::INTEGER,
+        EXTRACT(HOUR FROM lo.opened_local)::INTEGER,
+        COUNT(*)
+    FROM local_opens lo
+    GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE;
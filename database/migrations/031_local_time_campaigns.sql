@@ -0,0 +1,12 @@
+-- Migration 031: Local Time Campaigns
+-- Local-time campaigns reach every timezone at the same wall-clock time, e.g. 09:00 wherever the lead is
+
+-- Timezone the lead's clicks were geolocated to; used when leads.timezone is not set
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS detected_timezone VARCHAR(64);
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS local_send_time VARCHAR(5);
+ALTER TABLE campaigns DROP CONSTRAINT IF EXISTS campaigns_local_send_time_check;
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_local_send_time_check CHECK (local_send_time IS NULL OR local_send_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+
+ALTER TABLE campaigns DROP CONSTRAINT IF EXISTS campaigns_send_mode_check;
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_send_mode_check CHECK (send_mode IN ('immediate', 'optimized', 'local_time'));
@@ -0,0 +1,56 @@
+-- Migration 032: A/B Test Execution
+-- A/B tests send their variants to a sample of a campaign's audience, pick a winner at decision_at and send it to everyone else
+
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+
+-- Share of the audience that takes part in the test; the rest gets the winner
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS test_percentage INTEGER NOT NULL DEFAULT 20;
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_test_percentage_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_test_percentage_check CHECK (test_percentage BETWEEN 1 AND 100);
+
+-- Time between the last variant going out and the decision; test_duration_days is used when it is not set
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS test_duration_hours INTEGER;
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_test_duration_hours_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_test_duration_hours_check CHECK (test_duration_hours IS NULL OR test_duration_hours BETWEEN 1 AND 720);
+
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS decision_at TIMESTAMPTZ;
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ;
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS test_send_id VARCHAR(100);
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS rollout_send_id VARCHAR(100);
+-- Why starting the test or rolling out the winner failed
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS execution_error TEXT;
+
+-- The decision cron only looks at running tests that are due
+CREATE INDEX IF NOT EXISTS idx_ab_tests_decision_at ON ab_tests(decision_at) WHERE status = 'running' AND decided_at IS NULL;
+
+-- Per-variant engagement of the test's participants with the test campaign. Counts are distinct leads, so retried
+-- sends are counted once; a click proves an open, and an open proves delivery even when a late bounce was recorded
+CREATE OR REPLACE FUNCTION get_ab_test_variant_metrics(p_ab_test_id UUID)
+RETURNS TABLE(
+    variant_id UUID,
+    recipients BIGINT,
+    sent BIGINT,
+    delivered BIGINT,
+    opened BIGINT,
+    clicked BIGINT,
+    bounced BIGINT,
+    unsubscribed BIGINT
+) AS $$
+    SELECT
+        p.variant_id,
+        COUNT(DISTINCT p.lead_id),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND (s.bounced_at IS NULL OR s.opened_at IS NOT NULL OR s.clicked_at IS NOT NULL)),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND (s.opened_at IS NOT NULL OR s.clicked_at IS NOT NULL)),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND s.clicked_at IS NOT NULL),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.bounced_at IS NOT NULL AND s.opened_at IS NULL AND s.clicked_at IS NULL),
+        COUNT(DISTINCT s.lead_id) FILTER (WHERE s.unsubscribed_at IS NOT NULL)
+    FROM ab_test_participants p
+    JOIN ab_tests t ON t.id = p.ab_test_id
+    LEFT JOIN email_sends s
+        ON s.lead_id = p.lead_id
+       AND s.campaign_id = t.campaign_id
+       AND s.created_at >= t.start_date
+    WHERE p.ab_test_id = p_ab_test_id
+    GROUP BY p.variant_id;
+$$ LANGUAGE sql STABLE;
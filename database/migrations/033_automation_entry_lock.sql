@@ -0,0 +1,10 @@
+-- Migration 033: Automation Entry Lock
+-- Two triggers for the same lead can pass the entry policy check at the same time; for flows that allow one active
+-- run per lead the database now turns the second insert away
+
+-- Set on runs whose flow allowed a single active run per lead when they started
+ALTER TABLE automation_runs ADD COLUMN IF NOT EXISTS single_active_run BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_runs_single_active
+    ON automation_runs(automation_id, lead_id)
+    WHERE single_active_run AND status IN ('pending', 'running');
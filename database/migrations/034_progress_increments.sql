@@ -0,0 +1,51 @@
+-- Migration 034: Progress Increments
+-- Workers processing batches of the same operation in parallel read and rewrote the whole progress record, so
+-- one batch's counts could overwrite another's; batches now add their results in a single statement
+
+-- Adds to the item counters and to numeric metadata fields, appends errors up to p_max_errors and completes the
+-- operation once every item is accounted for. A cancelled operation keeps its status
+CREATE OR REPLACE FUNCTION increment_progress(
+    p_id VARCHAR,
+    p_processed INTEGER,
+    p_failed INTEGER,
+    p_metadata_counters JSONB DEFAULT '{}'::jsonb,
+    p_errors TEXT[] DEFAULT '{}',
+    p_max_errors INTEGER DEFAULT 50,
+    p_message TEXT DEFAULT NULL,
+    p_done_message TEXT DEFAULT NULL
+)
+RETURNS SETOF progress_tracking AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE progress_tracking
+    SET processed_items = processed_items + p_processed,
+        failed_items = failed_items + p_failed,
+        progress = CASE
+            WHEN total_items > 0
+                THEN LEAST(100, ROUND((processed_items + p_processed + failed_items + p_failed) * 100.0 / total_items))::INTEGER
+            ELSE progress
+        END,
+        status = CASE
+            WHEN status = 'cancelled' THEN status
+            WHEN processed_items + p_processed + failed_items + p_failed >= total_items THEN 'completed'
+            ELSE 'processing'
+        END,
+        end_time = CASE
+            WHEN status <> 'cancelled' AND processed_items + p_processed + failed_items + p_failed >= total_items
+                THEN NOW()
+            ELSE end_time
+        END,
+        message = CASE
+            WHEN status <> 'cancelled' AND processed_items + p_processed + failed_items + p_failed >= total_items
+                THEN COALESCE(p_done_message, p_message, message)
+            ELSE COALESCE(p_message, message)
+        END,
+        metadata = COALESCE(metadata, '{}'::jsonb) || COALESCE((
+            SELECT jsonb_object_agg(counter.key, COALESCE((metadata->>counter.key)::NUMERIC, 0) + counter.value::NUMERIC)
+            FROM jsonb_each_text(p_metadata_counters) AS counter
+        ), '{}'::jsonb),
+        errors = (COALESCE(errors, '{}') || COALESCE(p_errors, '{}'))[1:p_max_errors]
+    WHERE id = p_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
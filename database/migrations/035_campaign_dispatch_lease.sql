@@ -0,0 +1,10 @@
+-- Migration 035: Campaign Dispatch Lease
+-- A worker that dies between claiming a campaign and queueing its emails left it in 'sending' for good; the claim
+-- now expires, and the campaign cron returns expired claims that queued nothing to draft
+
+-- Set when the dispatcher claims a campaign and cleared once its emails are queued
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS dispatch_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- The cron only looks at claims that are still open
+CREATE INDEX IF NOT EXISTS idx_campaigns_dispatch_locked_until ON campaigns(dispatch_locked_until)
+    WHERE status = 'sending' AND dispatch_locked_until IS NOT NULL;
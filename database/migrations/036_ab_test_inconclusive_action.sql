@@ -0,0 +1,8 @@
+-- Migration 036: A/B Test Inconclusive Action
+-- A test without a significant winner used to send the control to the rest of the audience; it now pauses unless
+-- the test was created to send the control
+
+-- 'pause' leaves the rest of the audience unsent, with the reason in execution_error; 'send_control' sends them the control
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS inconclusive_action VARCHAR(20) NOT NULL DEFAULT 'pause';
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_inconclusive_action_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_inconclusive_action_check CHECK (inconclusive_action IN ('pause', 'send_control'));
@@ -0,0 +1,86 @@
+-- Migration 037: A/B Test Revenue
+-- Tests can pick their winner by revenue per recipient. Revenue is recorded per participant, and each variant keeps
+-- its sum and sum of squares so the analysis can run a t-test on it
+
+-- The metric a challenger has to beat the control on
+ALTER TABLE ab_tests ADD COLUMN IF NOT EXISTS winning_metric VARCHAR(20) NOT NULL DEFAULT 'open_rate';
+ALTER TABLE ab_tests DROP CONSTRAINT IF EXISTS ab_tests_winning_metric_check;
+ALTER TABLE ab_tests ADD CONSTRAINT ab_tests_winning_metric_check CHECK (winning_metric IN ('open_rate', 'click_rate', 'conversion_rate', 'revenue'));
+
+-- Revenue attributed to the participant while the test ran
+ALTER TABLE ab_test_participants ADD COLUMN IF NOT EXISTS revenue NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE ab_test_variants ADD COLUMN IF NOT EXISTS revenue_sum_squares NUMERIC NOT NULL DEFAULT 0;
+
+-- Adds to a participant's revenue; returns false when the lead is not part of the test
+CREATE OR REPLACE FUNCTION record_ab_test_revenue(p_ab_test_id UUID, p_lead_id UUID, p_amount NUMERIC)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE ab_test_participants
+    SET revenue = revenue + p_amount
+    WHERE ab_test_id = p_ab_test_id
+      AND lead_id = p_lead_id;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The result columns change, so the function is dropped first. Revenue is summed per participant before the
+-- join with email_sends, which can have several rows per lead
+DROP FUNCTION IF EXISTS get_ab_test_variant_metrics(UUID);
+
+CREATE OR REPLACE FUNCTION get_ab_test_variant_metrics(p_ab_test_id UUID)
+RETURNS TABLE(
+    variant_id UUID,
+    recipients BIGINT,
+    sent BIGINT,
+    delivered BIGINT,
+    opened BIGINT,
+    clicked BIGINT,
+    bounced BIGINT,
+    unsubscribed BIGINT,
+    revenue NUMERIC,
+    revenue_sum_squares NUMERIC
+) AS $$
+    WITH engagement AS (
+        SELECT
+            p.variant_id,
+            COUNT(DISTINCT p.lead_id) AS recipients,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL) AS sent,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND (s.bounced_at IS NULL OR s.opened_at IS NOT NULL OR s.clicked_at IS NOT NULL)) AS delivered,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND (s.opened_at IS NOT NULL OR s.clicked_at IS NOT NULL)) AS opened,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.sent_at IS NOT NULL AND s.clicked_at IS NOT NULL) AS clicked,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.bounced_at IS NOT NULL AND s.opened_at IS NULL AND s.clicked_at IS NULL) AS bounced,
+            COUNT(DISTINCT s.lead_id) FILTER (WHERE s.unsubscribed_at IS NOT NULL) AS unsubscribed
+        FROM ab_test_participants p
+        JOIN ab_tests t ON t.id = p.ab_test_id
+        LEFT JOIN email_sends s
+            ON s.lead_id = p.lead_id
+           AND s.campaign_id = t.campaign_id
+           AND s.created_at >= t.start_date
+        WHERE p.ab_test_id = p_ab_test_id
+        GROUP BY p.variant_id
+    ),
+    participant_revenue AS (
+        SELECT
+            p.variant_id,
+            SUM(p.revenue) AS revenue,
+            SUM(p.revenue * p.revenue) AS revenue_sum_squares
+        FROM ab_test_participants p
+        WHERE p.ab_test_id = p_ab_test_id
+        GROUP BY p.variant_id
+    )
+    SELECT
+        e.variant_id,
+        e.recipients,
+        e.sent,
+        e.delivered,
+        e.opened,
+        e.clicked,
+        e.bounced,
+        e.unsubscribed,
+        COALESCE(r.revenue, 0),
+        COALESCE(r.revenue_sum_squares, 0)
+    FROM engagement e
+    LEFT JOIN participant_revenue r ON r.variant_id = e.variant_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,13 @@
+-- Migration 038: Trigger Event Claims
+-- A worker that died after claiming a trigger event left it in 'processing' for good; claims are now timestamped
+-- so the dispatcher can return stale ones to 'pending', or fail them once they are out of attempts
+
+-- Set when the dispatcher claims an event
+ALTER TABLE automation_trigger_events ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE;
+
+-- Events claimed before this migration have no timestamp; start their clock now so the sweep picks them up
+UPDATE automation_trigger_events SET claimed_at = NOW() WHERE status = 'processing' AND claimed_at IS NULL;
+
+-- The sweep only looks at claimed events
+CREATE INDEX IF NOT EXISTS idx_automation_trigger_events_processing ON automation_trigger_events(claimed_at)
+    WHERE status = 'processing';
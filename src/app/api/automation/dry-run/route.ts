@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createSupabaseClient } from '@/lib/supabase'
+import { automationDryRunService } from '@/lib/automation/dry-run'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Simulate a flow against real leads without sending emails, writing tags or calling webhooks
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { automation_id, start_at, ...options } = automationSchemas.dryRun.parse(await request.json())
+
+    // Get user's workspace
+    const { data: member, error: memberError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (memberError || !member) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const report = await automationDryRunService.simulate(member.workspace_id, automation_id, {
+      ...options,
+      start_at: start_at ? new Date(start_at) : undefined
+    })
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error('Error simulating automation:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const message = error instanceof Error ? error.message : ''
+    if (message === 'Automation not found' || message === 'Lead not found' || message.startsWith('Segment not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    if (message === 'Automation has no steps to simulate') {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to simulate automation' },
+      { status: 500 }
+    )
+  }
+}
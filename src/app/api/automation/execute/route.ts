@@ -76,7 +76,9 @@ export async function POST(request: NextRequest) {
       run: {
         id: run.id,
         status: run.status,
-        started_at: run.started_at
+        started_at: run.started_at,
+        // Set when the flow's entry policy turned the lead away
+        skip_reason: run.execution_data?.skip_reason
       }
     })
   } catch (error) {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createSupabaseClient } from '@/lib/supabase'
+import { automationStepAnalyticsService } from '@/lib/automation/step-analytics'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Per-step funnel of an automation: entered, waiting, exited, branches, emails and conversions
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const supabase = createSupabaseClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (memberError || !member) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const { version_id } = automationSchemas.stepAnalytics.parse({
+      version_id: request.nextUrl.searchParams.get('version_id') || undefined
+    })
+
+    const analytics = await automationStepAnalyticsService.getStepAnalytics(member.workspace_id, id, {
+      flowVersionId: version_id
+    })
+
+    return NextResponse.json({ analytics })
+  } catch (error) {
+    console.error('Error loading automation step analytics:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    const message = error instanceof Error ? error.message : ''
+    if (message === 'Automation not found' || message === 'Automation version not found') {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to load automation analytics' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createSupabaseClient } from '@/lib/supabase'
+import { automationEnrollmentService } from '@/lib/queue/jobs/automation-enrollment'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Resolve the signed-in user and their workspace
+async function getWorkspaceAccess() {
+  const supabase = createSupabaseClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: member, error: memberError } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', user.id)
+    .eq('status', 'active')
+    .single()
+
+  if (memberError || !member) {
+    return { error: NextResponse.json({ error: 'Workspace not found' }, { status: 404 }) }
+  }
+
+  return { error: null, user, workspaceId: member.workspace_id as string }
+}
+
+function handleEnrollmentError(error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request data', details: error.errors },
+      { status: 400 }
+    )
+  }
+
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  const message = error instanceof Error ? error.message : ''
+  if (message === 'Automation not found' || message === 'List not found' || message.startsWith('Segment not found')) {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  if (message === 'Automation is not active') {
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+// Progress of a bulk operation started on this flow
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const access = await getWorkspaceAccess()
+
+    if (access.error) {
+      return access.error
+    }
+
+    const operationId = request.nextUrl.searchParams.get('operation_id')
+    if (!operationId) {
+      return NextResponse.json({ error: 'operation_id is required' }, { status: 400 })
+    }
+
+    const progress = await automationEnrollmentService.getOperation(access.workspaceId, operationId)
+    if (!progress || progress.metadata?.automation_id !== id) {
+      return NextResponse.json({ error: 'Operation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ progress })
+  } catch (error) {
+    console.error('Error loading enrollment progress:', error)
+    return NextResponse.json(
+      { error: 'Failed to load enrollment progress' },
+      { status: 500 }
+    )
+  }
+}
+
+// Enroll a segment, list, CSV of emails or lead selection into the flow
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const access = await getWorkspaceAccess()
+
+    if (access.error) {
+      return access.error
+    }
+
+    const { source, trigger_data } = automationSchemas.bulkEnroll.parse(await request.json())
+
+    const operation = await automationEnrollmentService.startOperation({
+      userId: access.user.id,
+      workspaceId: access.workspaceId,
+      automationId: id,
+      action: 'enroll',
+      source,
+      triggerData: trigger_data
+    })
+
+    return NextResponse.json({
+      success: true,
+      operation_id: operation.operationId,
+      total_leads: operation.totalLeads,
+      not_found: operation.notFound
+    }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting bulk enrollment:', error)
+    return handleEnrollmentError(error, 'Failed to start bulk enrollment')
+  }
+}
+
+// Cancel the active runs of the given leads, or of every lead when no source is sent
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const access = await getWorkspaceAccess()
+
+    if (access.error) {
+      return access.error
+    }
+
+    const { source } = automationSchemas.bulkCancel.parse(await request.json())
+
+    const operation = await automationEnrollmentService.startOperation({
+      userId: access.user.id,
+      workspaceId: access.workspaceId,
+      automationId: id,
+      action: 'cancel',
+      source
+    })
+
+    return NextResponse.json({
+      success: true,
+      operation_id: operation.operationId,
+      total_leads: operation.totalLeads,
+      not_found: operation.notFound
+    }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting bulk cancellation:', error)
+    return handleEnrollmentError(error, 'Failed to start bulk cancellation')
+  }
+}
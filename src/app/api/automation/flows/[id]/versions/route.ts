@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createSupabaseClient } from '@/lib/supabase'
+import { automationFlowVersionService } from '@/lib/automation/flow-versions'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Resolve the signed-in user and check the automation belongs to their workspace
+async function getAutomationAccess(automationId: string) {
+  const supabase = createSupabaseClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: member, error: memberError } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', user.id)
+    .eq('status', 'active')
+    .single()
+
+  if (memberError || !member) {
+    return { error: NextResponse.json({ error: 'Workspace not found' }, { status: 404 }) }
+  }
+
+  const { data: automation, error: automationError } = await supabase
+    .from('automation_flows')
+    .select('id')
+    .eq('id', automationId)
+    .eq('workspace_id', member.workspace_id)
+    .single()
+
+  if (automationError || !automation) {
+    return { error: NextResponse.json({ error: 'Automation not found' }, { status: 404 }) }
+  }
+
+  return { error: null, user, workspaceId: member.workspace_id as string }
+}
+
+// List published versions with the number of runs still on each
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const access = await getAutomationAccess(id)
+
+    if (access.error) {
+      return access.error
+    }
+
+    const versions = await automationFlowVersionService.listVersions(access.workspaceId, id)
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error listing automation versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to list automation versions' },
+      { status: 500 }
+    )
+  }
+}
+
+// Publish the draft as a new version, optionally moving runs of older versions onto it
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const access = await getAutomationAccess(id)
+
+    if (access.error) {
+      return access.error
+    }
+
+    const { migrations } = automationSchemas.publishFlow.parse(await request.json())
+
+    const result = await automationFlowVersionService.publish(access.workspaceId, id, {
+      userId: access.user.id,
+      migrations
+    })
+
+    return NextResponse.json({
+      success: true,
+      version: {
+        id: result.version.id,
+        version_number: result.version.version_number,
+        published_at: result.version.published_at
+      },
+      migrated_runs: result.migrated_runs,
+      kept_runs: result.kept_runs
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error publishing automation version:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const message = error instanceof Error ? error.message : ''
+    if (message === 'Automation has no steps to publish' ||
+        message.startsWith('Unknown step in mapping') ||
+        message.startsWith('Invalid flow definition') ||
+        message.startsWith('Invalid source version')) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to publish automation version' },
+      { status: 500 }
+    )
+  }
+}
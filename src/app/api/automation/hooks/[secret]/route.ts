@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { automationTriggerDispatcher } from '@/lib/automation/trigger-dispatcher'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Inbound webhook trigger; the secret in the URL identifies the automation, so no API key is needed
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ secret: string }> }
+) {
+  try {
+    const rateLimitInfo = await RateLimitHelper.checkPublicAPILimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    const { secret } = await context.params
+    const { data, ...lead } = automationSchemas.inboundWebhook.parse(await request.json())
+
+    const result = await automationTriggerDispatcher.handleInboundWebhook(secret, lead, data)
+
+    if (!result) {
+      return NextResponse.json({ error: 'Automation not found or inactive' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...result }, { status: 202 })
+  } catch (error) {
+    console.error('Error processing automation webhook:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 })
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase'
-import { sendEmail, replaceEmailVariables } from '@/lib/resend'
 import { logger } from '@/lib/logger'
 import { emailWorkerManager } from '@/lib/email-workers'
+import { segmentEngine } from '@/lib/segments/segment-engine'
+import { subscriptionService } from '@/lib/subscriptions/subscription-service'
+import { validateEmailTemplate, formatTemplateErrors } from '@/lib/templates/email-template'
+import { templateVersionService } from '@/lib/templates/template-versions'
+import { campaignScheduler } from '@/lib/campaigns/campaign-scheduler'
 
 export async function POST(request: NextRequest) {
   const context = logger.createRequestContext(request)
@@ -36,9 +40,6 @@ export async function POST(request: NextRequest) {
           html_content,
           text_content,
           variables
-        ),
-        lead_segments (
-          conditions
         )
       `)
       .eq('id', campaignId)
@@ -63,20 +64,74 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get leads for the campaign
-    const leadsQuery = supabase
-      .from('leads')
-      .select('*')
-      .eq('workspace_id', campaign.workspace_id)
-      .eq('status', 'active')
-
-    // Apply segment filtering if specified
-    if (campaign.segment_id && campaign.lead_segments?.conditions) {
-      // Here you would apply the segment conditions
-      // For now, we'll just get all active leads
+    // Optimized and local-time campaigns go through the dispatcher, which queues them as delayed waves
+    if (campaign.send_mode === 'optimized' || campaign.send_mode === 'local_time') {
+      const delivery = campaign.send_mode === 'optimized' ? 'optimized' : 'local-time'
+
+      try {
+        const dispatch = await campaignScheduler.dispatchCampaign(campaign.workspace_id, campaignId)
+
+        logger.info(`Campaign queued for ${delivery} delivery`, {
+          ...context,
+          metadata: { campaignId, sendId: dispatch.send_id, waves: dispatch.waves }
+        })
+
+        return NextResponse.json({
+          success: true,
+          message: `Campaign queued for ${delivery} delivery`,
+          send_id: dispatch.send_id,
+          stats: {
+            totalRecipients: dispatch.total_recipients,
+            queued: true,
+            waves: dispatch.waves
+          }
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to dispatch campaign'
+        logger.warn('Timed campaign dispatch failed', { ...context, metadata: { campaignId, error: message } })
+        return NextResponse.json(
+          { error: message },
+          { status: message === 'Campaign has already been dispatched' ? 409 : 400 }
+        )
+      }
     }
 
-    const { data: leads, error: leadsError } = await leadsQuery
+    // Pin the exact template version so reports can be reproduced after later edits
+    const templateVersion = await templateVersionService.resolveCampaignVersion(campaign)
+    const template = templateVersion || campaign.email_templates
+
+    // Reject templates that would fail to render for every recipient
+    const templateValidation = validateEmailTemplate({
+      subject: template?.subject || campaign.subject,
+      html: template?.html_content || '',
+      text: template?.text_content
+    })
+
+    if (!templateValidation.valid) {
+      logger.warn('Campaign template has syntax errors', {
+        ...context,
+        metadata: { campaignId, errors: templateValidation.errors }
+      })
+      return NextResponse.json(
+        { error: `Invalid template: ${formatTemplateErrors(templateValidation)}` },
+        { status: 400 }
+      )
+    }
+
+    // Resolve recipients, applying the campaign segment when one is set
+    let leads: any[] = []
+    let leadsError: unknown = null
+
+    try {
+      leads = await segmentEngine.resolveSegmentRecipients(campaign.workspace_id, campaign.segment_id)
+      leads = await subscriptionService.filterRecipients(campaign.workspace_id, leads, campaign.topic_id)
+    } catch (error) {
+      leadsError = error
+      logger.error('Failed to resolve campaign recipients', {
+        ...context,
+        metadata: { campaignId, segmentId: campaign.segment_id }
+      }, error as Error)
+    }
 
     if (leadsError || !leads || leads.length === 0) {
       logger.warn('No leads found for campaign', { 
@@ -95,19 +150,33 @@ export async function POST(request: NextRequest) {
       metadata: { campaignId, recipientCount: leads.length } 
     })
     
-    await supabase
+    // Claim the campaign so the scheduled dispatcher doesn't send it a second time
+    const { data: claimed } = await supabase
       .from('campaigns')
       .update({
         status: 'sending',
         total_recipients: leads.length,
-        sent_at: new Date().toISOString()
+        sent_at: new Date().toISOString(),
+        template_version_id: templateVersion?.id || null
       })
       .eq('id', campaignId)
+      .in('status', ['draft', 'scheduled'])
+      .select('id')
+
+    if (!claimed || claimed.length === 0) {
+      logger.warn('Campaign was claimed by another send', { ...context, metadata: { campaignId } })
+      return NextResponse.json(
+        { error: 'Campaign is already being sent' },
+        { status: 409 }
+      )
+    }
 
     // Create job payload for worker system
     const jobPayload = {
       campaign_id: campaignId,
+      workspace_id: campaign.workspace_id,
       template_id: campaign.template_id,
+      template_version_id: templateVersion?.id || null,
       leads: leads.map(lead => ({
         id: lead.id,
         email: lead.email,
@@ -118,10 +187,10 @@ export async function POST(request: NextRequest) {
         custom_fields: lead.custom_fields
       })),
       template_data: {
-        subject: campaign.email_templates?.subject || campaign.subject,
-        html_content: campaign.email_templates?.html_content || '',
-        text_content: campaign.email_templates?.text_content,
-        variables: campaign.email_templates?.variables || {}
+        subject: template?.subject || campaign.subject,
+        html_content: template?.html_content || '',
+        text_content: template?.text_content,
+        variables: template?.variables || {}
       },
       sender_info: {
         from: 'noreply@yourapp.com', // Configure with your domain
@@ -129,8 +198,11 @@ export async function POST(request: NextRequest) {
       },
       tracking_config: {
         campaign_id: campaignId,
-        workspace_id: campaign.workspace_id
-      }
+        workspace_id: campaign.workspace_id,
+        track_opens: campaign.track_opens !== false,
+        track_clicks: campaign.track_clicks !== false
+      },
+      topic_id: campaign.topic_id || null
     }
 
     // Create job using worker manager
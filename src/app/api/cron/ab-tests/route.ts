@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { abTestRunner } from '@/lib/campaigns/ab-test-runner'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify this is a cron job request
+    const authHeader = request.headers.get('authorization')
+    const userAgent = request.headers.get('user-agent')
+    const cronSecret = process.env.CRON_SECRET
+
+    // Check for Vercel Cron or manual cron authentication
+    if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+      // Valid cron secret
+    } else if (userAgent?.includes('Vercel-Cron')) {
+      // Vercel cron job
+    } else {
+      console.log('Unauthorized cron request:', { authHeader, userAgent })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Pick the winners of A/B tests whose decision time has passed and send them to the rest of the audience
+    const result = await abTestRunner.decideDueTests()
+
+    return NextResponse.json({
+      success: true,
+      message: 'A/B test cron job completed',
+      decided: result.decided,
+      failed: result.failed,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error in A/B test cron job:', error)
+    return NextResponse.json(
+      {
+        error: 'Cron job failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Allow both GET and POST for different cron services
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { automationEngine } from '@/lib/automation/automation-engine'
+import { automationTriggerDispatcher } from '@/lib/automation/trigger-dispatcher'
+import { leadScoringEngine } from '@/lib/scoring/lead-scoring'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,11 +25,21 @@ export async function GET(request: NextRequest) {
     // Process scheduled automation runs
     await automationEngine.processScheduledRuns()
 
+    // Start runs for queued trigger events and date triggers that are due
+    const triggerEvents = await automationTriggerDispatcher.processPendingEvents()
+    const dateRunsStarted = await automationTriggerDispatcher.processDateTriggers()
+
+    // Take points back from leads whose score has been idle past their workspace's decay interval
+    const scoresDecayed = await leadScoringEngine.applyDecay()
+
     console.log('Automation cron job completed successfully')
 
     return NextResponse.json({ 
       success: true, 
       message: 'Automation cron job completed',
+      trigger_events: triggerEvents,
+      date_runs_started: dateRunsStarted,
+      scores_decayed: scoresDecayed,
       timestamp: new Date().toISOString()
     })
   } catch (error) {
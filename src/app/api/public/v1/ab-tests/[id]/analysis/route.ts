@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient } from '@/lib/supabase'
-import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError, rateLimiter } from '@/lib/api-auth'
+import { NextRequest } from 'next/server'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
 import { abTestAnalyzer } from '@/lib/ab-testing'
+import { abTestRunner, analyzeTest, toAnalyzerVariant } from '@/lib/campaigns/ab-test-runner'
 
 export async function GET(
   request: NextRequest,
@@ -12,8 +13,9 @@ export async function GET(
     const user = await authenticateAPIRequest(request)
 
     // Check rate limiting
-    if (!rateLimiter.checkLimit(user.api_key_id)) {
-      return createAPIError('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED')
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
     }
 
     // Check permissions
@@ -26,69 +28,34 @@ export async function GET(
     const include_recommendations = searchParams.get('include_recommendations') === 'true'
     const include_confidence_intervals = searchParams.get('include_confidence_intervals') === 'true'
 
-    const supabase = createSupabaseServerClient()
-
-    // For demo, return mock analysis data
-    // In production, this would fetch the test from database
-    const mockTest = {
-      id: testId,
-      workspace_id: user.workspace_id,
-      name: 'Subject Line Test - Newsletter',
-      test_type: 'subject_line',
-      status: 'completed',
-      variants: [
-        {
-          id: 'control',
-          name: 'Control - Direct',
-          type: 'subject_line' as const,
-          content: 'Weekly Newsletter - Company Updates',
-          recipients: 1000,
-          sent: 1000,
-          delivered: 985,
-          opened: 245,
-          clicked: 47,
-          unsubscribed: 2,
-          bounced: 15
-        },
-        {
-          id: 'variant_1',
-          name: 'Variant - Curious',
-          type: 'subject_line' as const,
-          content: 'You won\'t believe what happened this week...',
-          recipients: 1000,
-          sent: 1000,
-          delivered: 992,
-          opened: 287,
-          clicked: 61,
-          unsubscribed: 3,
-          bounced: 8
-        }
-      ],
-      control_variant_id: 'control',
-      test_duration_days: 7,
-      confidence_level: 95
-    }
+    const test = await abTestRunner.getTest(user.workspace_id, testId)
 
-    if (!mockTest || mockTest.workspace_id !== user.workspace_id) {
-      return createAPIError('A/B test not found', 404, 'NOT_FOUND')
-    }
-
-    if (mockTest.variants.length < 2) {
+    if (test.ab_test_variants.length < 2) {
       return createAPIError('Test must have at least 2 variants for analysis', 400, 'INSUFFICIENT_DATA')
     }
 
-    // Perform statistical analysis
-    const analysis = abTestAnalyzer.analyzeABTest(
-      mockTest.variants[0],
-      mockTest.variants[1],
-      mockTest.test_duration_days
+    // Running tests are analyzed on live counts; decided ones on the counts stored at the decision
+    const storedVariants = test.status === 'running' && !test.decided_at
+      ? await abTestRunner.refreshVariantMetrics(test.id, test.ab_test_variants)
+      : test.ab_test_variants
+    const variants = storedVariants.map((variant: any) => toAnalyzerVariant(test.test_type, variant))
+
+    // Perform statistical analysis of every variant, reporting the control against the winner or leading challenger
+    const { result: analysis, control, challenger, multivariate, outcome } = analyzeTest(
+      test,
+      variants,
+      test.end_date ? new Date(test.end_date) : new Date()
     )
 
     const response: any = {
       test_id: testId,
-      test_name: mockTest.name,
-      test_type: mockTest.test_type,
-      status: mockTest.status,
+      test_name: test.name,
+      test_type: test.test_type,
+      status: test.status,
+      control_variant_id: control.id,
+      challenger_variant_id: challenger.id,
+      winner_variant_id: test.winner_variant_id || null,
+      decision_at: test.decision_at || null,
       analysis: {
         metrics: {
           open_rate: {
@@ -111,11 +78,14 @@ export async function GET(
           }
         },
         statistical_significance: {
-          overall_winner: analysis.statistical_analysis.winner,
+          overall_winner: outcome,
           confidence_level: analysis.statistical_analysis.confidence_level,
-          sample_size_adequate: analysis.statistical_analysis.sample_size_adequate,
+          sample_size_adequate: multivariate.sample_size_adequate,
+          minimum_sample_size: multivariate.minimum_sample_size,
           test_duration_days: analysis.statistical_analysis.test_duration_days,
-          recommendation: analysis.statistical_analysis.recommendation,
+          recommendation: multivariate.recommendation,
+          correction: multivariate.correction,
+          omnibus: multivariate.omnibus,
           metrics: {
             open_rate: {
               p_value: analysis.statistical_analysis.open_rate_significance.p_value,
@@ -134,11 +104,39 @@ export async function GET(
               z_score: analysis.statistical_analysis.conversion_significance.z_score,
               is_significant: analysis.statistical_analysis.conversion_significance.is_significant,
               power: analysis.statistical_analysis.conversion_significance.power
+            },
+            revenue_per_recipient: {
+              p_value: analysis.statistical_analysis.revenue_significance.p_value,
+              t_score: analysis.statistical_analysis.revenue_significance.z_score,
+              is_significant: analysis.statistical_analysis.revenue_significance.is_significant,
+              power: analysis.statistical_analysis.revenue_significance.power
             }
-          }
+          },
+          // Every challenger against the control, with corrected p-values
+          comparisons: multivariate.comparisons.map(comparison => ({
+            variant_id: comparison.variant_id,
+            open_rate: {
+              p_value: comparison.open_rate_significance.p_value,
+              adjusted_p_value: comparison.open_rate_significance.adjusted_p_value,
+              improvement_percentage: comparison.open_rate_significance.improvement_percentage,
+              is_significant: comparison.open_rate_significance.is_significant
+            },
+            click_rate: {
+              p_value: comparison.click_rate_significance.p_value,
+              adjusted_p_value: comparison.click_rate_significance.adjusted_p_value,
+              improvement_percentage: comparison.click_rate_significance.improvement_percentage,
+              is_significant: comparison.click_rate_significance.is_significant
+            },
+            revenue_per_recipient: {
+              p_value: comparison.revenue_significance.p_value,
+              adjusted_p_value: comparison.revenue_significance.adjusted_p_value,
+              improvement_percentage: comparison.revenue_significance.improvement_percentage,
+              is_significant: comparison.revenue_significance.is_significant
+            }
+          }))
         }
       },
-      variants: mockTest.variants.map(variant => ({
+      variants: variants.map((variant: any) => ({
         id: variant.id,
         name: variant.name,
         content: variant.content,
@@ -150,6 +148,8 @@ export async function GET(
           clicked: variant.clicked,
           unsubscribed: variant.unsubscribed,
           bounced: variant.bounced,
+          revenue: variant.revenue,
+          revenue_per_recipient: variant.delivered > 0 ? ((variant.revenue || 0) / variant.delivered) : 0,
           open_rate: variant.delivered > 0 ? (variant.opened / variant.delivered) : 0,
           click_rate: variant.opened > 0 ? (variant.clicked / variant.opened) : 0,
           delivery_rate: variant.sent > 0 ? (variant.delivered / variant.sent) : 0,
@@ -169,14 +169,16 @@ export async function GET(
 
     // Add recommendations if requested
     if (include_recommendations) {
+      const delivered = variants.reduce((sum: number, variant: any) => sum + variant.delivered, 0)
+      const unsubscribed = variants.reduce((sum: number, variant: any) => sum + variant.unsubscribed, 0)
       const historicalData = {
         avgOpenRate: (analysis.metrics.open_rate_a + analysis.metrics.open_rate_b) / 2,
         avgClickRate: (analysis.metrics.click_rate_a + analysis.metrics.click_rate_b) / 2,
-        avgUnsubscribeRate: 0.005 // Mock value
+        avgUnsubscribeRate: delivered > 0 ? unsubscribed / delivered : 0
       }
 
       response.recommendations = {
-        implementation: analysis.statistical_analysis.recommendation,
+        implementation: multivariate.recommendation,
         future_tests: abTestAnalyzer.generateTestRecommendations(historicalData),
         statistical_notes: [
           `This test achieved ${analysis.statistical_analysis.open_rate_significance.power * 100}% statistical power`,
@@ -195,6 +197,9 @@ export async function GET(
       if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
         return createAPIError(error.message, 401, 'UNAUTHORIZED')
       }
+      if (error.message === 'A/B test not found') {
+        return createAPIError(error.message, 404, 'NOT_FOUND')
+      }
       return createAPIError(error.message, 400, 'BAD_REQUEST')
     }
 
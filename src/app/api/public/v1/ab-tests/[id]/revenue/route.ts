@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { abTestRunner } from '@/lib/campaigns/ab-test-runner'
+
+// Attribute revenue to a test participant, e.g. from an order placed after the test email
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('ab_tests:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { id: testId } = await context.params
+    const { lead_id, amount } = await request.json()
+
+    if (!lead_id || typeof amount !== 'number' || !Number.isFinite(amount)) {
+      return createAPIError('lead_id and a numeric amount are required', 400, 'VALIDATION_ERROR')
+    }
+
+    const recorded = await abTestRunner.recordRevenue(user.workspace_id, testId, lead_id, amount)
+    if (!recorded) {
+      return createAPIError('Lead is not a participant of this A/B test', 404, 'NOT_FOUND')
+    }
+
+    return createAPIResponse({ test_id: testId, lead_id, amount })
+
+  } catch (error) {
+    console.error('Public API error:', error)
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+        return createAPIError(error.message, 401, 'UNAUTHORIZED')
+      }
+      if (error.message === 'A/B test not found') {
+        return createAPIError(error.message, 404, 'NOT_FOUND')
+      }
+      return createAPIError(error.message, 400, 'BAD_REQUEST')
+    }
+
+    return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { abTestRunner } from '@/lib/campaigns/ab-test-runner'
+
+// Send the variants to a sample of the campaign's audience; the winner goes to the rest at decision_at
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('ab_tests:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { id: testId } = await context.params
+    const start = await abTestRunner.startTest(user.workspace_id, testId)
+
+    return createAPIResponse(start)
+
+  } catch (error) {
+    console.error('Public API error:', error)
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+        return createAPIError(error.message, 401, 'UNAUTHORIZED')
+      }
+      if (error.message === 'A/B test not found' || error.message === 'Campaign not found') {
+        return createAPIError(error.message, 404, 'NOT_FOUND')
+      }
+      if (error.message === 'A/B test has already started' || error.message === 'Campaign has already been dispatched') {
+        return createAPIError(error.message, 409, 'INVALID_STATUS')
+      }
+      return createAPIError(error.message, 400, 'BAD_REQUEST')
+    }
+
+    return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase'
-import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError, rateLimiter } from '@/lib/api-auth'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
 import { abTestAnalyzer } from '@/lib/ab-testing'
+import { segmentEngine } from '@/lib/segments/segment-engine'
+import { ABTestVariantRecord, analyzeTest, sortVariants, toAnalyzerVariant } from '@/lib/campaigns/ab-test-runner'
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,8 +12,9 @@ export async function GET(request: NextRequest) {
     const user = await authenticateAPIRequest(request)
 
     // Check rate limiting
-    if (!rateLimiter.checkLimit(user.api_key_id)) {
-      return createAPIError('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED')
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
     }
 
     // Check permissions
@@ -28,111 +32,63 @@ export async function GET(request: NextRequest) {
 
     const supabase = createSupabaseServerClient()
 
-    // For demo, return mock data with structure
-    // In production, this would query the ab_tests table
-    const mockTests = [
-      {
-        id: 'test_001',
-        workspace_id: user.workspace_id,
-        name: 'Subject Line Test - Newsletter',
-        description: 'Testing direct vs curious subject lines',
-        hypothesis: 'Direct subject lines will have higher open rates',
-        test_type: 'subject_line',
-        status: 'completed',
-        variants: [
-          {
-            id: 'control',
-            name: 'Control - Direct',
-            type: 'subject_line' as const,
-            content: 'Weekly Newsletter - Company Updates',
-            recipients: 1000,
-            sent: 1000,
-            delivered: 985,
-            opened: 245,
-            clicked: 47,
-            unsubscribed: 2,
-            bounced: 15
-          },
-          {
-            id: 'variant_1',
-            name: 'Variant - Curious',
-            type: 'subject_line' as const,
-            content: 'You won\'t believe what happened this week...',
-            recipients: 1000,
-            sent: 1000,
-            delivered: 992,
-            opened: 287,
-            clicked: 61,
-            unsubscribed: 3,
-            bounced: 8
-          }
-        ],
-        control_variant_id: 'control',
-        winner_variant_id: 'variant_1',
-        confidence_level: 95,
-        minimum_sample_size: 1000,
-        test_duration_days: 7,
-        start_date: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
-        end_date: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
-        total_audience_size: 2000,
-        statistical_significance: {
-          p_value: 0.03,
-          confidence_level: 95,
-          is_significant: true,
-          winner_lift: 17.1
-        },
-        created_at: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-        updated_at: new Date().toISOString()
-      }
-    ]
+    let query = supabase
+      .from('ab_tests')
+      .select('*, ab_test_variants(*)', { count: 'exact' })
+      .eq('workspace_id', user.workspace_id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
 
-    // Apply filters
-    let filteredTests = mockTests
     if (status) {
-      filteredTests = filteredTests.filter(test => test.status === status)
+      query = query.eq('status', status)
     }
     if (test_type) {
-      filteredTests = filteredTests.filter(test => test.test_type === test_type)
-    }
-
-    // Add analysis if requested
-    let responseTests = filteredTests
-    if (include_analysis) {
-      responseTests = filteredTests.map(test => {
-        if (test.variants.length >= 2) {
-          const analysis = abTestAnalyzer.analyzeABTest(
-            test.variants[0],
-            test.variants[1],
-            test.test_duration_days
-          )
-          return {
-            ...test,
-            analysis: {
-              statistical_significance: analysis.statistical_analysis,
-              metrics: analysis.metrics,
-              recommendation: analysis.statistical_analysis.recommendation
-            }
-          }
-        }
-        return test
-      })
+      query = query.eq('test_type', test_type)
+    }
+
+    const { data: tests, error, count } = await query
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
     }
 
-    const totalPages = Math.ceil(filteredTests.length / limit)
-    const paginatedTests = responseTests.slice(offset, offset + limit)
+    const responseTests = (tests || []).map(({ ab_test_variants, ...test }: any) => {
+      const variants = sortVariants<ABTestVariantRecord>(ab_test_variants || []).map(variant => toAnalyzerVariant(test.test_type, variant))
+
+      // Add analysis if requested
+      if (!include_analysis || variants.length < 2) {
+        return { ...test, variants }
+      }
+
+      const { result, multivariate, outcome } = analyzeTest(test, variants, test.end_date ? new Date(test.end_date) : new Date())
+      return {
+        ...test,
+        variants,
+        analysis: {
+          outcome,
+          statistical_significance: result.statistical_analysis,
+          metrics: result.metrics,
+          comparisons: multivariate.comparisons,
+          omnibus: multivariate.omnibus,
+          recommendation: multivariate.recommendation
+        }
+      }
+    })
+
+    const total = count || 0
+    const totalPages = Math.ceil(total / limit)
 
     return createAPIResponse({
-      ab_tests: paginatedTests,
+      ab_tests: responseTests,
       pagination: {
         page,
         limit,
-        total: filteredTests.length,
+        total,
         totalPages,
         hasNext: page < totalPages,
         hasPrev: page > 1
       }
     })
-
   } catch (error) {
     console.error('Public API error:', error)
 
@@ -153,8 +109,9 @@ export async function POST(request: NextRequest) {
     const user = await authenticateAPIRequest(request)
 
     // Check rate limiting
-    if (!rateLimiter.checkLimit(user.api_key_id)) {
-      return createAPIError('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED')
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
     }
 
     // Check permissions
@@ -171,8 +128,13 @@ export async function POST(request: NextRequest) {
       variants,
       confidence_level = 95,
       test_duration_days = 7,
+      test_duration_hours,
+      test_percentage = 20,
+      inconclusive_action = 'pause',
+      winning_metric = 'open_rate',
       total_audience_size,
-      segment_id
+      segment_id,
+      campaign_id
     } = body
 
     // Validate required fields
@@ -191,43 +153,123 @@ export async function POST(request: NextRequest) {
       return createAPIError('All variants must have name and content', 400, 'VALIDATION_ERROR')
     }
 
+    if (variants.some((v: any) => v.traffic_allocation !== undefined && !(v.traffic_allocation >= 1 && v.traffic_allocation <= 100))) {
+      return createAPIError('traffic_allocation must be between 1 and 100', 400, 'VALIDATION_ERROR')
+    }
+
+    if (!(test_percentage >= 1 && test_percentage <= 100)) {
+      return createAPIError('test_percentage must be between 1 and 100', 400, 'VALIDATION_ERROR')
+    }
+
+    if (test_duration_hours !== undefined && !(test_duration_hours >= 1 && test_duration_hours <= 720)) {
+      return createAPIError('test_duration_hours must be between 1 and 720', 400, 'VALIDATION_ERROR')
+    }
+
+    const validMetrics = ['open_rate', 'click_rate', 'conversion_rate', 'revenue']
+    if (!validMetrics.includes(winning_metric)) {
+      return createAPIError('Invalid winning_metric. Valid metrics: ' + validMetrics.join(', '), 400, 'VALIDATION_ERROR')
+    }
+
+    if (!['pause', 'send_control'].includes(inconclusive_action)) {
+      return createAPIError('inconclusive_action must be pause or send_control', 400, 'VALIDATION_ERROR')
+    }
+
     // Calculate minimum sample size
-    const minSampleSize = abTestAnalyzer.calculateMinimumSampleSize(0.20, 0.02)
+    const minSampleSize = abTestAnalyzer.calculateMinimumSampleSize(0.20, 0.02, 0.8, 1 - confidence_level / 100)
 
     const supabase = createSupabaseServerClient()
 
-    // In production, this would create records in the database
-    const testId = `test_${Date.now()}`
+    // The campaign provides the audience, template and sender; its variants go out when the test starts
+    let campaign: any = null
+    if (campaign_id) {
+      const { data } = await supabase
+        .from('campaigns')
+        .select('id, status, segment_id')
+        .eq('id', campaign_id)
+        .eq('workspace_id', user.workspace_id)
+        .maybeSingle()
+
+      if (!data) {
+        return createAPIError('Campaign not found', 404, 'CAMPAIGN_NOT_FOUND')
+      }
+      if (data.status !== 'draft' && data.status !== 'scheduled') {
+        return createAPIError('Campaign has already been dispatched', 409, 'INVALID_STATUS')
+      }
+      campaign = data
+    }
 
-    const testData = {
-      id: testId,
-      workspace_id: user.workspace_id,
-      name,
-      description: description || '',
-      hypothesis: hypothesis || '',
-      test_type,
-      status: 'draft',
-      variants: variants.map((v: any, index: number) => ({
-        id: `variant_${index}`,
+    // Size the audience from the segment so it reflects who would actually receive the test
+    let audienceSize = total_audience_size || 0
+    const audienceSegmentId = segment_id || campaign?.segment_id
+    if (audienceSegmentId) {
+      try {
+        const definition = await segmentEngine.loadSegment(user.workspace_id, audienceSegmentId)
+        audienceSize = await segmentEngine.countLeads(user.workspace_id, definition)
+      } catch (error) {
+        console.error('Error sizing A/B test segment:', error)
+        return createAPIError('Segment not found', 404, 'SEGMENT_NOT_FOUND')
+      }
+    }
+
+    const { data: test, error: testError } = await supabase
+      .from('ab_tests')
+      .insert({
+        workspace_id: user.workspace_id,
+        name,
+        description: description || '',
+        hypothesis: hypothesis || '',
+        test_type,
+        status: 'draft',
+        confidence_level,
+        minimum_sample_size: minSampleSize,
+        test_duration_days,
+        test_duration_hours: test_duration_hours || null,
+        test_percentage,
+        inconclusive_action,
+        winning_metric,
+        total_audience_size: audienceSize,
+        segment_id: audienceSegmentId || null,
+        campaign_id: campaign_id || null
+      })
+      .select()
+      .single()
+
+    if (testError || !test) {
+      if (testError?.code === '23505') {
+        return createAPIError('An A/B test with this name already exists', 409, 'DUPLICATE_NAME')
+      }
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    // Variants without an allocation split the sample evenly
+    const { data: createdVariants, error: variantsError } = await supabase
+      .from('ab_test_variants')
+      .insert(variants.map((v: any) => ({
+        ab_test_id: test.id,
         name: v.name,
-        type: test_type,
         content: v.content,
-        recipients: 0,
-        sent: 0,
-        delivered: 0,
-        opened: 0,
-        clicked: 0,
-        unsubscribed: 0,
-        bounced: 0
-      })),
-      control_variant_id: 'variant_0',
-      confidence_level,
-      minimum_sample_size: minSampleSize,
-      test_duration_days,
-      total_audience_size: total_audience_size || 0,
-      segment_id: segment_id || null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+        traffic_allocation: v.traffic_allocation || Math.max(1, Math.floor(100 / variants.length))
+      })))
+      .select()
+
+    if (variantsError || !createdVariants) {
+      await supabase.from('ab_tests').delete().eq('id', test.id)
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    // The first variant is the control
+    const testVariants = sortVariants(createdVariants)
+    const controlVariantId = testVariants.find((variant: any) => variant.name === variants[0].name)?.id || testVariants[0].id
+
+    await supabase
+      .from('ab_tests')
+      .update({ control_variant_id: controlVariantId })
+      .eq('id', test.id)
+
+    const testData = {
+      ...test,
+      control_variant_id: controlVariantId,
+      variants: testVariants.map(variant => toAnalyzerVariant(test_type, variant))
     }
 
     return createAPIResponse(testData, 201)
@@ -252,8 +294,9 @@ export async function PUT(request: NextRequest) {
     const user = await authenticateAPIRequest(request)
 
     // Check rate limiting
-    if (!rateLimiter.checkLimit(user.api_key_id)) {
-      return createAPIError('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED')
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
     }
 
     // Check permissions
@@ -317,8 +360,9 @@ export async function DELETE(request: NextRequest) {
     const user = await authenticateAPIRequest(request)
 
     // Check rate limiting
-    if (!rateLimiter.checkLimit(user.api_key_id)) {
-      return createAPIError('Rate limit exceeded', 429, 'RATE_LIMIT_EXCEEDED')
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
     }
 
     // Check permissions
@@ -0,0 +1,188 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { authenticateAPIRequest, APIPermission, APIUser, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { automationEnrollmentService } from '@/lib/queue/jobs/automation-enrollment'
+import { automationSchemas } from '@/lib/validation/automations'
+
+// Progress records belong to a user: the key's creator, or the workspace owner for keys without one
+async function getOperationOwner(user: APIUser): Promise<string | null> {
+  const supabase = createSupabaseServerClient()
+
+  const { data: apiKey } = await supabase
+    .from('api_keys')
+    .select('created_by')
+    .eq('id', user.api_key_id)
+    .maybeSingle()
+
+  if (apiKey?.created_by) {
+    return apiKey.created_by
+  }
+
+  const { data: owner } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', user.workspace_id)
+    .eq('role', 'owner')
+    .limit(1)
+    .maybeSingle()
+
+  return owner?.user_id || null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('automations:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const operationId = searchParams.get('operation_id')
+
+    if (!operationId) {
+      return createAPIError('operation_id is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const progress = await automationEnrollmentService.getOperation(user.workspace_id, operationId)
+    if (!progress) {
+      return createAPIError('Operation not found', 404, 'NOT_FOUND')
+    }
+
+    return createAPIResponse({
+      operation_id: progress.id,
+      automation_id: progress.metadata?.automation_id,
+      action: progress.metadata?.action,
+      status: progress.status,
+      progress: progress.progress,
+      total_leads: progress.totalItems,
+      processed: progress.processedItems,
+      failed: progress.failedItems,
+      succeeded: progress.metadata?.succeeded || 0,
+      skipped: progress.metadata?.skipped || 0,
+      not_found: progress.metadata?.not_found || 0,
+      errors: progress.errors || []
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEnrollmentError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('automations:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = automationSchemas.publicBulkEnroll.parse(await request.json())
+
+    const ownerId = await getOperationOwner(user)
+    if (!ownerId) {
+      return createAPIError('Workspace has no owner to file the operation under', 400, 'BAD_REQUEST')
+    }
+
+    const operation = await automationEnrollmentService.startOperation({
+      userId: ownerId,
+      workspaceId: user.workspace_id,
+      automationId: body.automation_id,
+      action: 'enroll',
+      source: body.source,
+      triggerData: body.trigger_data
+    })
+
+    return createAPIResponse({
+      operation_id: operation.operationId,
+      total_leads: operation.totalLeads,
+      not_found: operation.notFound
+    }, 202, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEnrollmentError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('automations:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = automationSchemas.publicBulkCancel.parse(await request.json())
+
+    const ownerId = await getOperationOwner(user)
+    if (!ownerId) {
+      return createAPIError('Workspace has no owner to file the operation under', 400, 'BAD_REQUEST')
+    }
+
+    const operation = await automationEnrollmentService.startOperation({
+      userId: ownerId,
+      workspaceId: user.workspace_id,
+      automationId: body.automation_id,
+      action: 'cancel',
+      source: body.source
+    })
+
+    return createAPIResponse({
+      operation_id: operation.operationId,
+      total_leads: operation.totalLeads,
+      not_found: operation.notFound
+    }, 202, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEnrollmentError(error)
+  }
+}
+
+function handleEnrollmentError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    if (error.message === 'Automation not found' || error.message === 'List not found' || error.message.startsWith('Segment not found')) {
+      return createAPIError(error.message, 404, 'NOT_FOUND')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { trackingService } from '@/lib/tracking/tracking-service'
+
+// Per-link click report for a campaign (heatmap data)
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const campaignId = searchParams.get('id')
+
+    if (!campaignId) {
+      return createAPIError('Campaign ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .select('id, name, total_recipients, opened, clicked, machine_opened, machine_clicked')
+      .eq('id', campaignId)
+      .eq('workspace_id', user.workspace_id)
+      .single()
+
+    if (error || !campaign) {
+      return createAPIError('Campaign not found', 404, 'NOT_FOUND')
+    }
+
+    const links = await trackingService.getLinkReport(campaign.id)
+
+    return createAPIResponse({
+      campaign_id: campaign.id,
+      totals: {
+        recipients: campaign.total_recipients || 0,
+        opened: campaign.opened || 0,
+        clicked: campaign.clicked || 0,
+        machine_opened: campaign.machine_opened || 0,
+        machine_clicked: campaign.machine_clicked || 0
+      },
+      links
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    console.error('Public API error:', error)
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+        return createAPIError(error.message, 401, 'UNAUTHORIZED')
+      }
+      return createAPIError(error.message, 400, 'BAD_REQUEST')
+    }
+
+    return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+  }
+}
@@ -3,6 +3,7 @@ import { createSupabaseServerClient } from '@/lib/supabase'
 import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
 import { RateLimitHelper } from '@/lib/rate-limit-helpers'
 import { campaignSchemas } from '@/lib/validation'
+import { campaignSendModeEnum, localSendTimeSchema } from '@/lib/validation/campaigns'
 import { createValidatedHandler } from '@/lib/validation/middleware'
 
 export const GET = createValidatedHandler(
@@ -117,9 +118,12 @@ export const POST = createValidatedHandler(
         subject,
         template_id,
         segment_id,
+        topic_id,
         send_at,
         content,
-        status = 'draft'
+        status = 'draft',
+        send_mode = 'immediate',
+        local_send_time
       } = body
 
       const supabase = createSupabaseServerClient()
@@ -152,14 +156,31 @@ export const POST = createValidatedHandler(
         }
       }
 
+      // Verify subscription topic exists if provided
+      if (topic_id) {
+        const { data: topic, error: topicError } = await supabase
+          .from('subscription_topics')
+          .select('id')
+          .eq('id', topic_id)
+          .eq('workspace_id', user.workspace_id)
+          .single()
+
+        if (topicError || !topic) {
+          return createAPIError('Topic not found', 404, 'TOPIC_NOT_FOUND')
+        }
+      }
+
       const campaignData = {
         workspace_id: user.workspace_id,
         name,
         subject,
         template_id: template_id || null,
         segment_id: segment_id || null,
+        topic_id: topic_id || null,
         send_at: send_at ? new Date(send_at).toISOString() : null,
         status,
+        send_mode,
+        local_send_time: local_send_time || null,
         total_recipients: 0,
         delivered: 0,
         opened: 0,
@@ -221,7 +242,7 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, subject, template_id, segment_id, send_at, content, status } = body
+    const { name, subject, template_id, segment_id, topic_id, send_at, content, status, send_mode, local_send_time } = body
 
     const supabase = createSupabaseServerClient()
 
@@ -250,9 +271,24 @@ export async function PUT(request: NextRequest) {
     if (subject !== undefined) updateData.subject = subject
     if (template_id !== undefined) updateData.template_id = template_id
     if (segment_id !== undefined) updateData.segment_id = segment_id
+    if (topic_id !== undefined) updateData.topic_id = topic_id
     if (content !== undefined) updateData.content = content
     if (status !== undefined) updateData.status = status
 
+    if (send_mode !== undefined) {
+      if (!campaignSendModeEnum.safeParse(send_mode).success) {
+        return createAPIError('send_mode must be immediate, optimized or local_time', 400, 'VALIDATION_ERROR')
+      }
+      updateData.send_mode = send_mode
+    }
+
+    if (local_send_time !== undefined) {
+      if (local_send_time !== null && !localSendTimeSchema.safeParse(local_send_time).success) {
+        return createAPIError('local_send_time must be HH:MM', 400, 'VALIDATION_ERROR')
+      }
+      updateData.local_send_time = local_send_time
+    }
+
     if (send_at !== undefined) {
       if (send_at) {
         const sendDate = new Date(send_at)
@@ -265,18 +301,24 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // The scheduler may have claimed the campaign since the check above
     const { data: campaign, error } = await supabase
       .from('campaigns')
       .update(updateData)
       .eq('id', campaignId)
       .eq('workspace_id', user.workspace_id)
+      .not('status', 'in', '(sending,sent)')
       .select()
-      .single()
+      .maybeSingle()
 
     if (error) {
       return createAPIError('Database error', 500, 'DATABASE_ERROR')
     }
 
+    if (!campaign) {
+      return createAPIError('Cannot modify campaign that has been sent or is being sent', 400, 'INVALID_STATUS')
+    }
+
     return createAPIResponse(campaign, 200, rateLimitInfo.headers)
 
   } catch (error) {
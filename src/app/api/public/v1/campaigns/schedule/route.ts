@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { campaignScheduler } from '@/lib/campaigns/campaign-scheduler'
+import { campaignSchemas } from '@/lib/validation/campaigns'
+
+// Schedule or reschedule a campaign; allowed until the dispatcher claims it
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:send' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { campaign_id, send_at } = campaignSchemas.scheduleCampaign.parse(await request.json())
+
+    const campaign = await campaignScheduler.schedule(user.workspace_id, campaign_id, new Date(send_at))
+
+    return createAPIResponse({
+      campaign_id: campaign.id,
+      status: campaign.status,
+      scheduled_for: campaign.send_at
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleScheduleError(error)
+  }
+}
+
+// Cancel a scheduled campaign before it is dispatched
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:send' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const campaignId = searchParams.get('campaign_id')
+
+    if (!campaignId) {
+      return createAPIError('campaign_id is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const campaign = await campaignScheduler.cancel(user.workspace_id, campaignId)
+
+    return createAPIResponse({
+      campaign_id: campaign.id,
+      status: campaign.status
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleScheduleError(error)
+  }
+}
+
+function handleScheduleError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    if (error.message === 'Campaign not found') {
+      return createAPIError(error.message, 404, 'CAMPAIGN_NOT_FOUND')
+    }
+    if (error.message === 'Campaign has already been dispatched' || error.message === 'Campaign is not scheduled') {
+      return createAPIError(error.message, 409, 'INVALID_STATUS')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase'
 import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
 import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { segmentEngine } from '@/lib/segments/segment-engine'
+import { subscriptionService } from '@/lib/subscriptions/subscription-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -38,9 +40,6 @@ export async function POST(request: NextRequest) {
           html_content,
           text_content,
           variables
-        ),
-        lead_segments (
-          conditions
         )
       `)
       .eq('id', campaign_id)
@@ -68,22 +67,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Get target leads
-    const leadsQuery = supabase
-      .from('leads')
-      .select('*')
-      .eq('workspace_id', user.workspace_id)
-      .eq('status', 'active')
-
-    // Apply segment filtering if specified
-    if (campaign.segment_id && campaign.lead_segments?.conditions) {
-      // Here you would apply the segment conditions
-      // For now, we'll just get all active leads
-    }
-
-    const { data: leads, error: leadsError } = await leadsQuery
-
-    if (leadsError) {
+    // Get target leads, applying the campaign segment when one is set
+    let leads: any[]
+    try {
+      leads = await segmentEngine.resolveSegmentRecipients(user.workspace_id, campaign.segment_id)
+      leads = await subscriptionService.filterRecipients(user.workspace_id, leads, campaign.topic_id)
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Segment not found')) {
+        return createAPIError('Campaign segment not found', 400, 'SEGMENT_NOT_FOUND')
+      }
       return createAPIError('Error fetching leads', 500, 'DATABASE_ERROR')
     }
 
@@ -0,0 +1,171 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { emailProviderService } from '@/lib/email-providers/provider-service'
+import { emailProviderSchemas } from '@/lib/validation/email-providers'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const providers = await emailProviderService.listWorkspaceProviders(user.workspace_id)
+
+    return createAPIResponse({ providers }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEmailProviderError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:send' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = emailProviderSchemas.create.parse(await request.json())
+
+    const provider = await emailProviderService.createWorkspaceProvider(user.workspace_id, body)
+
+    return createAPIResponse({ provider }, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEmailProviderError(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:send' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const providerId = searchParams.get('id')
+
+    if (!providerId) {
+      return createAPIError('Provider ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const updates = emailProviderSchemas.update.parse(await request.json())
+
+    const existing = await emailProviderService.getWorkspaceProvider(user.workspace_id, providerId)
+    if (!existing) {
+      return createAPIError('Email provider not found', 404, 'NOT_FOUND')
+    }
+
+    // Merge partial config so secrets don't have to be resent, then validate the result as a whole
+    const merged = emailProviderSchemas.create.parse({
+      provider_type: existing.provider_type,
+      name: updates.name ?? existing.name,
+      priority: updates.priority ?? existing.priority,
+      is_active: updates.is_active ?? existing.is_active,
+      config: { ...existing.config, ...updates.config }
+    })
+
+    const provider = await emailProviderService.updateWorkspaceProvider(user.workspace_id, providerId, {
+      name: merged.name,
+      priority: merged.priority,
+      is_active: merged.is_active,
+      config: merged.config
+    })
+
+    if (!provider) {
+      return createAPIError('Email provider not found', 404, 'NOT_FOUND')
+    }
+
+    return createAPIResponse({ provider }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEmailProviderError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('campaigns:send' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const providerId = searchParams.get('id')
+
+    if (!providerId) {
+      return createAPIError('Provider ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const removed = await emailProviderService.deleteWorkspaceProvider(user.workspace_id, providerId)
+
+    if (!removed) {
+      return createAPIError('Email provider not found', 404, 'NOT_FOUND')
+    }
+
+    return createAPIResponse({ message: 'Email provider deleted successfully' }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleEmailProviderError(error)
+  }
+}
+
+function handleEmailProviderError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
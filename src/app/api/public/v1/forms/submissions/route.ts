@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { automationTriggerDispatcher } from '@/lib/automation/trigger-dispatcher'
+import { automationSchemas } from '@/lib/validation/automations'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { form_id, fields, source_url, referrer, ...lead } = automationSchemas.formSubmission.parse(await request.json())
+
+    const result = await automationTriggerDispatcher.submitForm(user.workspace_id, {
+      form_id,
+      lead,
+      fields,
+      source_url,
+      referrer,
+      user_agent: request.headers.get('user-agent') || undefined,
+      ip_address: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined
+    })
+
+    return createAPIResponse(result, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleFormSubmissionError(error)
+  }
+}
+
+function handleFormSubmissionError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
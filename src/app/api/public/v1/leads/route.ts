@@ -3,6 +3,7 @@ import { createSupabaseServerClient } from '@/lib/supabase'
 import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
 import { RateLimitHelper } from '@/lib/rate-limit-helpers'
 import { automationEngine } from '@/lib/automation/automation-engine'
+import { isValidTimezone } from '@/lib/automation/wait-steps'
 
 export async function GET(request: NextRequest) {
   try {
@@ -96,7 +97,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { email, name, phone, tags, custom_fields, status = 'active' } = body
+    const { email, name, phone, tags, custom_fields, timezone, status = 'active' } = body
 
     // Validate required fields
     if (!email) {
@@ -109,6 +110,10 @@ export async function POST(request: NextRequest) {
       return createAPIError('Invalid email format', 400, 'VALIDATION_ERROR')
     }
 
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return createAPIError('Invalid timezone', 400, 'VALIDATION_ERROR')
+    }
+
     const supabase = createSupabaseServerClient()
 
     // Check if lead already exists
@@ -130,6 +135,7 @@ export async function POST(request: NextRequest) {
       phone: phone || null,
       tags: tags || [],
       custom_fields: custom_fields || {},
+      timezone: timezone || null,
       status,
       source: 'api'
     }
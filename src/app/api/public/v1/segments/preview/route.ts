@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { segmentSchemas } from '@/lib/validation/segments'
+import { segmentEngine } from '@/lib/segments/segment-engine'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { segment_id, conditions, sample_size, sendable_only } = segmentSchemas.previewSegment.parse(await request.json())
+
+    // Unsaved conditions take precedence so the builder can preview edits
+    const definition = conditions
+      ? segmentEngine.normalizeDefinition(conditions)
+      : await segmentEngine.loadSegment(user.workspace_id, segment_id!)
+
+    const definitionErrors = segmentEngine.validateDefinition(definition)
+    if (definitionErrors.length > 0) {
+      return createAPIError(definitionErrors.join('; '), 400, 'INVALID_SEGMENT')
+    }
+
+    const [total, sendable, sample] = await Promise.all([
+      segmentEngine.countLeads(user.workspace_id, definition, { sendableOnly: false }),
+      segmentEngine.countLeads(user.workspace_id, definition, { sendableOnly: true }),
+      sample_size > 0
+        ? segmentEngine.previewLeads(user.workspace_id, definition, sample_size, { sendableOnly: sendable_only })
+        : Promise.resolve([])
+    ])
+
+    return createAPIResponse({
+      segment_id: segment_id || null,
+      total_leads: total,
+      sendable_leads: sendable,
+      sample
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    console.error('Public API error:', error)
+
+    if (error instanceof ZodError) {
+      const message = error.errors
+        .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+        .join(', ')
+      return createAPIError(message, 400, 'VALIDATION_ERROR')
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+        return createAPIError(error.message, 401, 'UNAUTHORIZED')
+      }
+      if (error.message.startsWith('Segment not found')) {
+        return createAPIError('Segment not found', 404, 'SEGMENT_NOT_FOUND')
+      }
+      return createAPIError(error.message, 400, 'BAD_REQUEST')
+    }
+
+    return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+  }
+}
@@ -0,0 +1,270 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { segmentSchemas } from '@/lib/validation/segments'
+import { segmentEngine } from '@/lib/segments/segment-engine'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { page, limit, refresh_counts } = segmentSchemas.getSegments.parse(Object.fromEntries(searchParams.entries()))
+    const offset = (page - 1) * limit
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: segments, error, count } = await supabase
+      .from('lead_segments')
+      .select('*', { count: 'exact' })
+      .eq('workspace_id', user.workspace_id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    let responseData = segments || []
+
+    // Recompute lead counts for segments that keep themselves up to date
+    if (refresh_counts) {
+      responseData = await Promise.all(responseData.map(async segment => {
+        if (!segment.auto_update) return segment
+        const leadCount = await segmentEngine.refreshSegmentCount(user.workspace_id, segment.id)
+        return { ...segment, lead_count: leadCount }
+      }))
+    }
+
+    const totalPages = Math.ceil((count || 0) / limit)
+
+    return createAPIResponse({
+      segments: responseData,
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSegmentError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = segmentSchemas.createSegment.parse(await request.json())
+
+    // Make sure the conditions compile before persisting them
+    const definitionErrors = segmentEngine.validateDefinition(body.conditions)
+    if (definitionErrors.length > 0) {
+      return createAPIError(definitionErrors.join('; '), 400, 'INVALID_SEGMENT')
+    }
+
+    const leadCount = await segmentEngine.countLeads(user.workspace_id, body.conditions, { sendableOnly: false })
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: segment, error } = await supabase
+      .from('lead_segments')
+      .insert({
+        workspace_id: user.workspace_id,
+        name: body.name,
+        description: body.description || null,
+        conditions: body.conditions,
+        auto_update: body.auto_update,
+        lead_count: leadCount,
+        last_evaluated_at: new Date().toISOString()
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse(segment, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSegmentError(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const segmentId = searchParams.get('id')
+
+    if (!segmentId) {
+      return createAPIError('Segment ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const body = segmentSchemas.updateSegment.parse(await request.json())
+
+    const updateData: any = {
+      updated_at: new Date().toISOString()
+    }
+
+    if (body.name !== undefined) updateData.name = body.name
+    if (body.description !== undefined) updateData.description = body.description
+    if (body.auto_update !== undefined) updateData.auto_update = body.auto_update
+
+    if (body.conditions !== undefined) {
+      const definitionErrors = segmentEngine.validateDefinition(body.conditions)
+      if (definitionErrors.length > 0) {
+        return createAPIError(definitionErrors.join('; '), 400, 'INVALID_SEGMENT')
+      }
+
+      updateData.conditions = body.conditions
+      updateData.lead_count = await segmentEngine.countLeads(user.workspace_id, body.conditions, { sendableOnly: false })
+      updateData.last_evaluated_at = new Date().toISOString()
+    }
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: segment, error } = await supabase
+      .from('lead_segments')
+      .update(updateData)
+      .eq('id', segmentId)
+      .eq('workspace_id', user.workspace_id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return createAPIError('Segment not found', 404, 'NOT_FOUND')
+      }
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse(segment, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSegmentError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const segmentId = searchParams.get('id')
+
+    if (!segmentId) {
+      return createAPIError('Segment ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const supabase = createSupabaseServerClient()
+
+    // Segments referenced by campaigns that have not gone out yet cannot be removed
+    const { data: campaigns, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id')
+      .eq('segment_id', segmentId)
+      .eq('workspace_id', user.workspace_id)
+      .in('status', ['draft', 'scheduled', 'sending'])
+      .limit(1)
+
+    if (campaignError) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    if (campaigns && campaigns.length > 0) {
+      return createAPIError('Cannot delete segment that is being used by campaigns', 400, 'SEGMENT_IN_USE')
+    }
+
+    const { error } = await supabase
+      .from('lead_segments')
+      .delete()
+      .eq('id', segmentId)
+      .eq('workspace_id', user.workspace_id)
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse({ message: 'Segment deleted successfully' }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSegmentError(error)
+  }
+}
+
+function handleSegmentError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
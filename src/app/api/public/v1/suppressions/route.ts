@@ -0,0 +1,133 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { suppressionList, NewSuppressionEntry } from '@/lib/suppression/suppression-list'
+import { suppressionSchemas } from '@/lib/validation/suppressions'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = suppressionSchemas.listQuery.parse(Object.fromEntries(searchParams.entries()))
+
+    const { entries, total } = await suppressionList.list(user.workspace_id, query)
+
+    return createAPIResponse({
+      suppressions: entries,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        pages: Math.ceil(total / query.limit)
+      }
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSuppressionError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = suppressionSchemas.addEntries.parse(await request.json())
+
+    const entries: NewSuppressionEntry[] = [
+      ...body.emails.map(email => ({ entry_type: 'email' as const, value: email, reason: body.reason, source: 'api' })),
+      ...body.domains.map(domain => ({ entry_type: 'domain' as const, value: domain, reason: body.reason, source: 'api' }))
+    ]
+
+    const added = await suppressionList.add(user.workspace_id, entries)
+
+    return createAPIResponse({
+      added,
+      duplicates: entries.length - added
+    }, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSuppressionError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entryId = searchParams.get('id')
+
+    if (!entryId) {
+      return createAPIError('Suppression ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const removed = await suppressionList.remove(user.workspace_id, entryId)
+
+    if (!removed) {
+      return createAPIError('Suppression entry not found', 404, 'NOT_FOUND')
+    }
+
+    return createAPIResponse({ message: 'Suppression entry removed successfully' }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleSuppressionError(error)
+  }
+}
+
+function handleSuppressionError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
@@ -0,0 +1,169 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { contentBlockService } from '@/lib/templates/content-blocks'
+import { EmailComponent } from '@/lib/templates/editor-html'
+import { contentBlockSchemas } from '@/lib/validation/content-blocks'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = contentBlockSchemas.listQuery.parse(Object.fromEntries(searchParams))
+
+    const blocks = await contentBlockService.list(user.workspace_id, query.category)
+
+    return createAPIResponse({ blocks }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleContentBlockError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const input = contentBlockSchemas.create.parse(await request.json())
+
+    const block = await contentBlockService.create(user.workspace_id, {
+      ...input,
+      components: input.components as EmailComponent[]
+    })
+
+    return createAPIResponse({ block }, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleContentBlockError(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const blockId = searchParams.get('id')
+
+    if (!blockId) {
+      return createAPIError('Block ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const changes = contentBlockSchemas.update.parse(await request.json())
+
+    const existing = await contentBlockService.get(user.workspace_id, blockId)
+    if (!existing) {
+      return createAPIError('Content block not found', 404, 'NOT_FOUND')
+    }
+
+    // Synced blocks re-render every template using them; the count is returned
+    const result = await contentBlockService.update(user.workspace_id, blockId, {
+      ...changes,
+      components: changes.components as EmailComponent[] | undefined
+    })
+
+    return createAPIResponse({
+      block: result.block,
+      templates_updated: result.templatesUpdated
+    }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleContentBlockError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const blockId = searchParams.get('id')
+
+    if (!blockId) {
+      return createAPIError('Block ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const existing = await contentBlockService.get(user.workspace_id, blockId)
+    if (!existing) {
+      return createAPIError('Content block not found', 404, 'NOT_FOUND')
+    }
+
+    // Synced blocks still referenced by templates are rejected with 400
+    await contentBlockService.delete(user.workspace_id, blockId)
+
+    return createAPIResponse({ message: 'Content block deleted successfully' }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleContentBlockError(error)
+  }
+}
+
+function handleContentBlockError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
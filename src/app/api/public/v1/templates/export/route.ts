@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { templateTransferService } from '@/lib/templates/template-transfer'
+import { templateSchemas } from '@/lib/validation/templates'
+
+// Responds with the file itself rather than the JSON envelope
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = templateSchemas.exportTemplate.parse(Object.fromEntries(searchParams))
+
+    const file = await templateTransferService.exportTemplate(
+      user.workspace_id,
+      query.template_id,
+      query.format,
+      query.include_assets
+    )
+
+    return new NextResponse(file.data, {
+      headers: {
+        ...rateLimitInfo.headers,
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    console.error('Public API error:', error)
+
+    if (error instanceof ZodError) {
+      const message = error.errors
+        .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+        .join(', ')
+      return createAPIError(message, 400, 'VALIDATION_ERROR')
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+        return createAPIError(error.message, 401, 'UNAUTHORIZED')
+      }
+      if (error.message === 'Template not found') {
+        return createAPIError(error.message, 404, 'NOT_FOUND')
+      }
+      return createAPIError(error.message, 400, 'BAD_REQUEST')
+    }
+
+    return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+  }
+}
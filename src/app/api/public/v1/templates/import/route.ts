@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { templateTransferService } from '@/lib/templates/template-transfer'
+import { templateSchemas } from '@/lib/validation/templates'
+
+// multipart/form-data: file (.html, .mjml or .zip) plus optional name, subject, format and overwrite_existing
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return createAPIError('A file field is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const fields = Object.fromEntries(
+      Array.from(formData.entries()).filter(([key, value]) => key !== 'file' && typeof value === 'string')
+    )
+    const options = templateSchemas.importTemplate.parse(fields)
+
+    const result = await templateTransferService.importTemplate(
+      user.workspace_id,
+      { name: file.name, data: Buffer.from(await file.arrayBuffer()) },
+      options
+    )
+
+    return createAPIResponse(result, result.overwritten ? 200 : 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTemplateTransferError(error)
+  }
+}
+
+function handleTemplateTransferError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase'
 import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError, rateLimiter } from '@/lib/api-auth'
+import { validateEmailTemplate, formatTemplateErrors } from '@/lib/templates/email-template'
 
 export async function GET(request: NextRequest) {
   try {
@@ -101,23 +102,14 @@ export async function POST(request: NextRequest) {
       return createAPIError('Name, subject, and html_content are required', 400, 'VALIDATION_ERROR')
     }
 
-    // Extract variables from content if not provided
-    let extractedVariables = variables || []
-    if (!variables) {
-      const regex = /\{\{([^}]+)\}\}/g
-      const foundVariables: string[] = []
-      let match
-
-      const fullContent = `${subject} ${html_content} ${text_content || ''}`
-      while ((match = regex.exec(fullContent)) !== null) {
-        const variable = match[1].trim()
-        if (!foundVariables.includes(variable)) {
-          foundVariables.push(variable)
-        }
-      }
-      extractedVariables = foundVariables
+    const validation = validateEmailTemplate({ subject, html: html_content, text: text_content })
+    if (!validation.valid) {
+      return createAPIError(`Invalid template: ${formatTemplateErrors(validation)}`, 400, 'VALIDATION_ERROR')
     }
 
+    // Extract variables from content if not provided
+    const extractedVariables = variables || validation.variables
+
     const supabase = createSupabaseServerClient()
 
     const templateData = {
@@ -181,6 +173,11 @@ export async function PUT(request: NextRequest) {
     const body = await request.json()
     const { name, subject, html_content, text_content, template_type, variables } = body
 
+    const validation = validateEmailTemplate({ subject, html: html_content, text: text_content })
+    if (!validation.valid) {
+      return createAPIError(`Invalid template: ${formatTemplateErrors(validation)}`, 400, 'VALIDATION_ERROR')
+    }
+
     const supabase = createSupabaseServerClient()
 
     const updateData: any = {
@@ -198,18 +195,7 @@ export async function PUT(request: NextRequest) {
       updateData.variables = variables
     } else if (html_content !== undefined || subject !== undefined) {
       // Re-extract variables from updated content
-      const regex = /\{\{([^}]+)\}\}/g
-      const foundVariables: string[] = []
-      let match
-
-      const fullContent = `${subject || ''} ${html_content || ''} ${text_content || ''}`
-      while ((match = regex.exec(fullContent)) !== null) {
-        const variable = match[1].trim()
-        if (!foundVariables.includes(variable)) {
-          foundVariables.push(variable)
-        }
-      }
-      updateData.variables = foundVariables
+      updateData.variables = validation.variables
     }
 
     const { data: template, error } = await supabase
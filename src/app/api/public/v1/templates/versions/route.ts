@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { templateVersionService } from '@/lib/templates/template-versions'
+import { templateSchemas } from '@/lib/validation/templates'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = templateSchemas.getTemplateVersions.parse(Object.fromEntries(searchParams))
+
+    if (!query.id) {
+      const versions = await templateVersionService.listVersions(user.workspace_id, query.template_id!)
+      return createAPIResponse({ versions }, 200, rateLimitInfo.headers)
+    }
+
+    const version = await templateVersionService.getVersion(user.workspace_id, query.id)
+    if (!version) {
+      return createAPIError('Template version not found', 404, 'NOT_FOUND')
+    }
+
+    // Diff is from the compared version to the requested one
+    const diff = query.compare_to
+      ? await templateVersionService.compareVersions(user.workspace_id, query.compare_to, version.id)
+      : undefined
+
+    return createAPIResponse({ version, diff }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTemplateVersionError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('templates:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = templateSchemas.restoreTemplateVersion.parse(await request.json())
+
+    const version = await templateVersionService.getVersion(user.workspace_id, body.version_id)
+    if (!version || version.template_id !== body.template_id) {
+      return createAPIError('Template version not found', 404, 'NOT_FOUND')
+    }
+
+    const restored = await templateVersionService.restoreVersion(user.workspace_id, version.id)
+
+    return createAPIResponse(restored, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTemplateVersionError(error)
+  }
+}
+
+function handleTemplateVersionError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
@@ -0,0 +1,206 @@
+import { NextRequest } from 'next/server'
+import { ZodError } from 'zod'
+import { createSupabaseServerClient } from '@/lib/supabase'
+import { authenticateAPIRequest, APIPermission, createAPIResponse, createAPIError } from '@/lib/api-auth'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { subscriptionSchemas } from '@/lib/validation/subscriptions'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIWithBurstLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:read' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: topics, error } = await supabase
+      .from('subscription_topics')
+      .select('*')
+      .eq('workspace_id', user.workspace_id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse({ topics: topics || [] }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTopicError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const body = subscriptionSchemas.createTopic.parse(await request.json())
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: topic, error } = await supabase
+      .from('subscription_topics')
+      .insert({
+        workspace_id: user.workspace_id,
+        name: body.name,
+        description: body.description || null,
+        is_default: body.is_default
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return createAPIError('A topic with this name already exists', 409, 'DUPLICATE_TOPIC')
+      }
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse(topic, 201, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTopicError(error)
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const topicId = searchParams.get('id')
+
+    if (!topicId) {
+      return createAPIError('Topic ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const body = subscriptionSchemas.updateTopic.parse(await request.json())
+
+    const updateData: any = {
+      updated_at: new Date().toISOString()
+    }
+
+    if (body.name !== undefined) updateData.name = body.name
+    if (body.description !== undefined) updateData.description = body.description
+    if (body.is_default !== undefined) updateData.is_default = body.is_default
+
+    const supabase = createSupabaseServerClient()
+
+    const { data: topic, error } = await supabase
+      .from('subscription_topics')
+      .update(updateData)
+      .eq('id', topicId)
+      .eq('workspace_id', user.workspace_id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return createAPIError('Topic not found', 404, 'NOT_FOUND')
+      }
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse(topic, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTopicError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Authenticate API request
+    const user = await authenticateAPIRequest(request)
+
+    // Check rate limiting
+    const rateLimitInfo = await RateLimitHelper.checkAPIRateLimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    // Check permissions
+    if (!user.permissions.includes('leads:write' as APIPermission)) {
+      return createAPIError('Insufficient permissions', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    const { searchParams } = new URL(request.url)
+    const topicId = searchParams.get('id')
+
+    if (!topicId) {
+      return createAPIError('Topic ID is required', 400, 'VALIDATION_ERROR')
+    }
+
+    const supabase = createSupabaseServerClient()
+
+    // Campaigns keep sending without a topic (topic_id is set to null)
+    const { error } = await supabase
+      .from('subscription_topics')
+      .delete()
+      .eq('id', topicId)
+      .eq('workspace_id', user.workspace_id)
+
+    if (error) {
+      return createAPIError('Database error', 500, 'DATABASE_ERROR')
+    }
+
+    return createAPIResponse({ message: 'Topic deleted successfully' }, 200, rateLimitInfo.headers)
+
+  } catch (error) {
+    return handleTopicError(error)
+  }
+}
+
+function handleTopicError(error: unknown) {
+  console.error('Public API error:', error)
+
+  if (error instanceof ZodError) {
+    const message = error.errors
+      .map(err => `${err.path.length > 0 ? `${err.path.join('.')}: ` : ''}${err.message}`)
+      .join(', ')
+    return createAPIError(message, 400, 'VALIDATION_ERROR')
+  }
+
+  if (error instanceof Error) {
+    if (error.message.includes('Token de autorização') || error.message.includes('API key')) {
+      return createAPIError(error.message, 401, 'UNAUTHORIZED')
+    }
+    return createAPIError(error.message, 400, 'BAD_REQUEST')
+  }
+
+  return createAPIError('Internal server error', 500, 'INTERNAL_ERROR')
+}
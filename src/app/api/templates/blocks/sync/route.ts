@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { contentBlockService } from '@/lib/templates/content-blocks'
+import { logger } from '@/lib/logger'
+
+const syncBlockSchema = z.object({
+  block_id: z.string().uuid()
+})
+
+// Called by the visual editor after a synced block is saved
+export async function POST(request: NextRequest) {
+  try {
+    const { block_id } = syncBlockSchema.parse(await request.json())
+
+    // Get authenticated user
+    const supabaseClient = createServerComponentClient({ cookies })
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabaseClient
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const block = await contentBlockService.get(member.workspace_id, block_id)
+    if (!block) {
+      return NextResponse.json({ error: 'Content block not found' }, { status: 404 })
+    }
+
+    if (!block.is_synced) {
+      return NextResponse.json({ templates_updated: 0 })
+    }
+
+    const templatesUpdated = await contentBlockService.syncBlock(member.workspace_id, block_id, user.id)
+
+    logger.info('Synced content block', {
+      metadata: { blockId: block_id, workspaceId: member.workspace_id, templatesUpdated }
+    })
+
+    return NextResponse.json({ templates_updated: templatesUpdated })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+
+    logger.error('Error syncing content block', {}, error as Error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
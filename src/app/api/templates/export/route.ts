@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { templateTransferService } from '@/lib/templates/template-transfer'
+import { templateSchemas } from '@/lib/validation/templates'
+import { logger } from '@/lib/logger'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = templateSchemas.exportTemplate.parse(Object.fromEntries(searchParams))
+
+    // Get authenticated user
+    const supabaseClient = createServerComponentClient({ cookies })
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabaseClient
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const file = await templateTransferService.exportTemplate(
+      member.workspace_id,
+      query.template_id,
+      query.format,
+      query.include_assets
+    )
+
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+
+    if (error instanceof Error && error.message === 'Template not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    logger.error('Error exporting template', {}, error as Error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createServerComponentClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { templateTransferService } from '@/lib/templates/template-transfer'
+import { templateSchemas } from '@/lib/validation/templates'
+import { logger } from '@/lib/logger'
+
+// Used by the templates dashboard; the dashboard sends one file per request when importing in bulk
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const supabaseClient = createServerComponentClient({ cookies })
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: member } = await supabaseClient
+      .from('workspace_members')
+      .select('workspace_id')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .single()
+
+    if (!member) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file field is required' }, { status: 400 })
+    }
+
+    const fields = Object.fromEntries(
+      Array.from(formData.entries()).filter(([key, value]) => key !== 'file' && typeof value === 'string')
+    )
+    const options = templateSchemas.importTemplate.parse(fields)
+
+    const result = await templateTransferService.importTemplate(
+      member.workspace_id,
+      { name: file.name, data: Buffer.from(await file.arrayBuffer()) },
+      { ...options, userId: user.id }
+    )
+
+    logger.info('Imported template', {
+      metadata: {
+        workspaceId: member.workspace_id,
+        templateId: result.template.id,
+        format: result.format,
+        assetsUploaded: result.assets_uploaded
+      }
+    })
+
+    return NextResponse.json(result, { status: result.overwritten ? 200 : 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: error.errors }, { status: 400 })
+    }
+
+    // Parsing and template validation errors are reported back to the user
+    if (error instanceof Error) {
+      logger.warn('Template import rejected', { metadata: { reason: error.message } })
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Error importing template', {}, error as Error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
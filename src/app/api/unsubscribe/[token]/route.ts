@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { RateLimitHelper } from '@/lib/rate-limit-helpers'
+import { verifyUnsubscribeToken } from '@/lib/subscriptions/unsubscribe-tokens'
+import { subscriptionService } from '@/lib/subscriptions/subscription-service'
+import { subscriptionSchemas } from '@/lib/validation/subscriptions'
+
+const PreferenceActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('unsubscribe') }),
+  z.object({ action: z.literal('resubscribe') }),
+  z.object({
+    action: z.literal('update_preferences'),
+    topic_ids: subscriptionSchemas.topicIds
+  })
+])
+
+// Preference center data for the hosted /u/[token] pages
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitInfo = await RateLimitHelper.checkPublicAPILimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    const { token } = await context.params
+    const payload = verifyUnsubscribeToken(token)
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Link inválido ou expirado' }, { status: 404 })
+    }
+
+    const preferences = await subscriptionService.getPreferenceCenter(payload)
+
+    if (!preferences) {
+      return NextResponse.json({ error: 'Contato não encontrado' }, { status: 404 })
+    }
+
+    return NextResponse.json({ preferences })
+  } catch (error) {
+    console.error('Error loading preference center:', error)
+    return NextResponse.json({ error: 'Failed to load preferences' }, { status: 500 })
+  }
+}
+
+// Handles both RFC 8058 one-click posts from mailbox providers and actions from the hosted pages
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitInfo = await RateLimitHelper.checkPublicAPILimit(request)
+    if (!rateLimitInfo.allowed) {
+      return RateLimitHelper.createRateLimitError(rateLimitInfo)
+    }
+
+    const { token } = await context.params
+    const payload = verifyUnsubscribeToken(token)
+
+    if (!payload) {
+      return NextResponse.json({ error: 'Link inválido ou expirado' }, { status: 404 })
+    }
+
+    const contentType = request.headers.get('content-type') || ''
+
+    // One-click requests arrive as form posts with List-Unsubscribe=One-Click
+    if (!contentType.includes('application/json')) {
+      // Mail clients may post an empty or text/plain body, which formData() rejects
+      const form = await request.formData().catch(() => null)
+
+      if (form?.get('List-Unsubscribe') !== 'One-Click') {
+        return NextResponse.json({ error: 'Unsupported unsubscribe request' }, { status: 400 })
+      }
+
+      await subscriptionService.unsubscribe(payload, 'one_click')
+      return new NextResponse(null, { status: 200 })
+    }
+
+    const body = PreferenceActionSchema.parse(await request.json())
+
+    switch (body.action) {
+      case 'unsubscribe':
+        await subscriptionService.unsubscribe(payload, 'link')
+        break
+      case 'resubscribe':
+        await subscriptionService.resubscribe(payload)
+        break
+      case 'update_preferences':
+        await subscriptionService.updatePreferences(payload, body.topic_ids)
+        break
+    }
+
+    const preferences = await subscriptionService.getPreferenceCenter(payload)
+
+    return NextResponse.json({ success: true, preferences })
+  } catch (error) {
+    console.error('Error updating subscription:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 })
+  }
+}
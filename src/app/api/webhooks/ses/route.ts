@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { parseSesNotification, verifySnsMessage } from '@/lib/email-providers/ses-provider'
+import { emailEventProcessor } from '@/lib/email-providers/email-events'
+
+// Amazon SES events delivered through an SNS topic subscription
+export async function POST(request: NextRequest) {
+  const context = logger.createRequestContext(request)
+
+  // Without a pinned topic any signed SNS message, including subscription requests, would be accepted
+  const topicArn = process.env.AWS_SES_SNS_TOPIC_ARN
+  if (!topicArn) {
+    logger.error('AWS_SES_SNS_TOPIC_ARN is not configured', context)
+    return NextResponse.json(
+      { error: 'Webhook not configured' },
+      { status: 503 }
+    )
+  }
+
+  try {
+    // SNS posts JSON with a text/plain content type
+    const message = JSON.parse(await request.text())
+
+    if (!(await verifySnsMessage(message))) {
+      logger.security('Invalid SNS signature', context)
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
+
+    // Checked before SubscribeURL is fetched, so subscriptions to other topics are never confirmed
+    if (message.TopicArn !== topicArn) {
+      logger.security('SNS message from unexpected topic', { ...context, metadata: { topicArn: message.TopicArn } })
+      return NextResponse.json(
+        { error: 'Unexpected topic' },
+        { status: 403 }
+      )
+    }
+
+    if (message.Type === 'SubscriptionConfirmation') {
+      const response = await fetch(message.SubscribeURL)
+      logger.webhook('Confirmed SNS subscription', { topic: message.TopicArn, status: response.status }, context)
+      return NextResponse.json({ success: response.ok })
+    }
+
+    if (message.Type !== 'Notification') {
+      return NextResponse.json({ success: true })
+    }
+
+    const notification = JSON.parse(message.Message)
+
+    logger.webhook('Received SES webhook', { type: notification.eventType || notification.notificationType, email_id: notification.mail?.messageId }, context)
+
+    const normalized = parseSesNotification(notification)
+    if (normalized) {
+      await emailEventProcessor.process(normalized)
+    } else {
+      logger.warn('Unhandled webhook event type', { ...context, metadata: { eventType: notification.eventType || notification.notificationType } })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    logger.error('Error processing webhook', context, error as Error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
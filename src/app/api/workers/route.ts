@@ -163,6 +163,7 @@ export async function POST(request: NextRequest) {
           job_type,
           payload: {
             campaign_id,
+            workspace_id,
             leads,
             template_data,
             sender_info,
@@ -154,18 +154,34 @@ export default function NewABTestPage() {
   }
 
   const loadSegments = async (workspaceId: string) => {
-    // Mock segments for now
+    const [{ data }, { count: activeCount }] = await Promise.all([
+      supabase
+        .from('lead_segments')
+        .select('id, name, lead_count')
+        .eq('workspace_id', workspaceId)
+        .order('name', { ascending: true }),
+      supabase
+        .from('leads')
+        .select('id', { count: 'exact', head: true })
+        .eq('workspace_id', workspaceId)
+        .eq('status', 'active')
+    ])
+
     setSegments([
-      { id: 'all', name: 'Todos os leads', count: availableLeads.length },
-      { id: 'new', name: 'Leads novos (últimos 30 dias)', count: Math.floor(availableLeads.length * 0.3) },
-      { id: 'engaged', name: 'Leads engajados', count: Math.floor(availableLeads.length * 0.6) }
+      { id: 'all', name: 'Todos os leads', count: activeCount || 0 },
+      ...(data || []).map(segment => ({
+        id: segment.id,
+        name: segment.name,
+        count: segment.lead_count || 0
+      }))
     ])
   }
 
   const calculateSampleSize = () => {
     const baselineRate = 0.22 // 22% open rate baseline
     const minimumEffect = 0.02 // 2% improvement
-    return abTestAnalyzer.calculateMinimumSampleSize(baselineRate, minimumEffect)
+    // The analyzer sizes each variant; the test has two
+    return abTestAnalyzer.calculateMinimumSampleSize(baselineRate, minimumEffect, 0.8, 1 - testConfig.confidence_level / 100) * 2
   }
 
   const getTestSuggestions = () => {
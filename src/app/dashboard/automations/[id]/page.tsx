@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   ArrowLeft, 
   Play, 
@@ -24,12 +25,17 @@ import {
   Tag,
   Filter,
   Eye,
-  Activity
+  Activity,
+  Copy
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { formatDistanceToNow } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
 import AutomationTester from '@/components/automation/AutomationTester'
+import AutomationVersionsPanel from '@/components/automation/AutomationVersionsPanel'
+import AutomationFunnelChart from '@/components/automation/AutomationFunnelChart'
+import BulkEnrollmentDialog from '@/components/automation/BulkEnrollmentDialog'
+import type { StepAnalytics } from '@/lib/automation/step-analytics'
 
 interface AutomationFlow {
   id: string
@@ -37,6 +43,7 @@ interface AutomationFlow {
   description: string
   trigger_type: string
   trigger_config: any
+  trigger_secret?: string
   flow_definition: {
     steps: any[]
     version: string
@@ -45,6 +52,11 @@ interface AutomationFlow {
   created_at: string
   updated_at: string
   workspace_id: string
+  current_version_id?: string | null
+  draft_definition?: {
+    steps: any[]
+    version: string
+  } | null
 }
 
 interface AutomationStats {
@@ -56,6 +68,14 @@ interface AutomationStats {
   last_run_at?: string
 }
 
+interface FlowVersionOption {
+  id: string
+  version_number: number
+}
+
+// Select value for analytics merged across every version
+const ALL_VERSIONS = 'all'
+
 interface AutomationDetailPageProps {
   params: {
     id: string
@@ -70,6 +90,10 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
   const [loading, setLoading] = useState(true)
   const [updating, setUpdating] = useState(false)
   const [workspaceId, setWorkspaceId] = useState<string | null>(null)
+  const [stepAnalytics, setStepAnalytics] = useState<StepAnalytics[]>([])
+  const [analyticsVersion, setAnalyticsVersion] = useState(ALL_VERSIONS)
+  const [versionOptions, setVersionOptions] = useState<FlowVersionOption[]>([])
+  const [isEnrollDialogOpen, setIsEnrollDialogOpen] = useState(false)
   
   const router = useRouter()
   const supabase = createSupabaseClient()
@@ -79,6 +103,11 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
     loadLeads()
   }, [params.id])
 
+  useEffect(() => {
+    loadStepAnalytics(analyticsVersion)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id, analyticsVersion])
+
   const loadAutomationDetails = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser()
@@ -116,6 +145,8 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
       // Load recent runs
       await loadRecentRuns(params.id)
 
+      await loadVersionOptions(params.id)
+
     } catch (error) {
       console.error('Error loading automation details:', error)
       toast.error('Erro inesperado ao carregar automação')
@@ -173,7 +204,8 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
         .from('automation_runs')
         .select(`
           *,
-          leads (name, email)
+          leads (name, email),
+          automation_flow_versions (version_number)
         `)
         .eq('automation_id', automationId)
         .order('started_at', { ascending: false })
@@ -190,6 +222,39 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
     }
   }
 
+  const loadVersionOptions = async (automationId: string) => {
+    const { data, error } = await supabase
+      .from('automation_flow_versions')
+      .select('id, version_number')
+      .eq('automation_id', automationId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('Error loading automation versions:', error)
+      return
+    }
+
+    setVersionOptions(data || [])
+  }
+
+  const loadStepAnalytics = async (versionId: string) => {
+    try {
+      const query = versionId === ALL_VERSIONS ? '' : `?version_id=${versionId}`
+      const response = await fetch(`/api/automation/flows/${params.id}/analytics${query}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Erro ao carregar análise das etapas')
+        return
+      }
+
+      setStepAnalytics(result.analytics?.steps || [])
+    } catch (error) {
+      console.error('Error loading step analytics:', error)
+      toast.error('Erro ao carregar análise das etapas')
+    }
+  }
+
   const loadLeads = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser()
@@ -312,6 +377,49 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
     }
   }
 
+  // Per-step counters shown on top of the flow steps
+  const renderStepAnalytics = (stepId: string) => {
+    const analytics = stepAnalytics.find(step => step.step_id === stepId)
+    if (!analytics || analytics.entered === 0) {
+      return null
+    }
+
+    const firstEntered = stepAnalytics[0]?.entered || 0
+    const reach = firstEntered > 0 ? (analytics.entered / firstEntered) * 100 : 0
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        <Badge variant="secondary">
+          <Users className="mr-1 h-3 w-3" />
+          {analytics.entered} entraram ({reach.toFixed(0)}%)
+        </Badge>
+        {analytics.waiting > 0 && (
+          <Badge variant="outline">{analytics.waiting} aguardando</Badge>
+        )}
+        {analytics.exited > 0 && (
+          <Badge variant="outline">{analytics.exited} saíram aqui</Badge>
+        )}
+        {analytics.failed > 0 && (
+          <Badge variant="destructive">{analytics.failed} falharam</Badge>
+        )}
+        {analytics.emails_sent > 0 && (
+          <Badge variant="outline">
+            <Mail className="mr-1 h-3 w-3" />
+            {analytics.emails_sent} enviados · {analytics.emails_opened} aberturas · {analytics.emails_clicked} cliques
+          </Badge>
+        )}
+        {analytics.conversions > 0 && (
+          <Badge variant="outline">{analytics.conversions} conversões</Badge>
+        )}
+        {analytics.branches.map(branch => (
+          <Badge key={branch.branch_id} variant="outline">
+            {branch.name}: {branch.entered}
+          </Badge>
+        ))}
+      </div>
+    )
+  }
+
   const getRunStatusBadge = (status: string) => {
     const variants: { [key: string]: 'default' | 'secondary' | 'destructive' } = {
       pending: 'secondary',
@@ -403,6 +511,10 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
                 </>
               )}
             </Button>
+            <Button variant="outline" onClick={() => setIsEnrollDialogOpen(true)}>
+              <Users className="mr-2 h-4 w-4" />
+              Inscrever leads
+            </Button>
             <Button 
               variant="outline"
               onClick={() => router.push(`/dashboard/automations/builder?edit=${automation.id}`)}
@@ -485,9 +597,10 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
 
         {/* Tabs */}
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Visão Geral</TabsTrigger>
             <TabsTrigger value="runs">Execuções</TabsTrigger>
+            <TabsTrigger value="versions">Versões</TabsTrigger>
             <TabsTrigger value="test">Testar</TabsTrigger>
             <TabsTrigger value="settings">Configurações</TabsTrigger>
           </TabsList>
@@ -496,7 +609,15 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
             {/* Flow Steps */}
             <Card>
               <CardHeader>
-                <CardTitle>Fluxo da Automação</CardTitle>
+                <div className="flex items-center gap-2">
+                  <CardTitle>Fluxo da Automação</CardTitle>
+                  {automation.flow_definition?.version && (
+                    <Badge variant="outline">v{automation.flow_definition.version}</Badge>
+                  )}
+                  {automation.draft_definition && (
+                    <Badge variant="secondary">Rascunho não publicado</Badge>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -511,6 +632,7 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
                           <Badge variant="outline">{step.type}</Badge>
                         </div>
                         <p className="text-sm text-gray-600">{step.description}</p>
+                        {renderStepAnalytics(step.id)}
                       </div>
                       <div className="text-sm text-gray-500">
                         Etapa {index + 1}
@@ -521,6 +643,37 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
               </CardContent>
             </Card>
 
+            {/* Step Funnel */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Funil por Etapa</CardTitle>
+                  <Select value={analyticsVersion} onValueChange={setAnalyticsVersion}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_VERSIONS}>Todas as versões</SelectItem>
+                      {versionOptions.map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Versão {version.version_number}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {stepAnalytics.every(step => step.entered === 0) ? (
+                  <div className="text-center py-8 text-gray-500">
+                    Nenhum lead passou por este fluxo ainda
+                  </div>
+                ) : (
+                  <AutomationFunnelChart steps={stepAnalytics} />
+                )}
+              </CardContent>
+            </Card>
+
             {/* Trigger Configuration */}
             <Card>
               <CardHeader>
@@ -534,6 +687,29 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
                       {automation.trigger_type}
                     </Badge>
                   </div>
+                  {automation.trigger_type === 'webhook' && automation.trigger_secret && (
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">URL do webhook:</span>
+                      <div className="mt-2 flex items-center gap-2">
+                        <code className="flex-1 text-xs bg-gray-50 p-3 rounded overflow-x-auto">
+                          {`${window.location.origin}/api/automation/hooks/${automation.trigger_secret}`}
+                        </code>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            navigator.clipboard.writeText(`${window.location.origin}/api/automation/hooks/${automation.trigger_secret}`)
+                            toast.success('URL copiada')
+                          }}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Mantenha esta URL em segredo: qualquer POST com um email válido inicia o fluxo
+                      </p>
+                    </div>
+                  )}
                   {automation.trigger_config && Object.keys(automation.trigger_config).length > 0 && (
                     <div>
                       <span className="text-sm font-medium text-gray-700">Configurações:</span>
@@ -575,6 +751,11 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
                           </div>
                         </div>
                         <div className="flex items-center gap-3">
+                          <Badge variant="outline">
+                            {run.automation_flow_versions
+                              ? `v${run.automation_flow_versions.version_number}`
+                              : 'Sem versão'}
+                          </Badge>
                           {getRunStatusBadge(run.status)}
                           <Button 
                             variant="outline" 
@@ -592,6 +773,15 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
             </Card>
           </TabsContent>
 
+          <TabsContent value="versions" className="space-y-6">
+            <AutomationVersionsPanel
+              automationId={automation.id}
+              currentVersionId={automation.current_version_id}
+              draftSteps={automation.draft_definition?.steps || null}
+              onPublished={loadAutomationDetails}
+            />
+          </TabsContent>
+
           <TabsContent value="test" className="space-y-6">
             <AutomationTester
               automationId={automation.id}
@@ -642,6 +832,17 @@ export default function AutomationDetailPage({ params }: AutomationDetailPagePro
             </Card>
           </TabsContent>
         </Tabs>
+
+        <BulkEnrollmentDialog
+          open={isEnrollDialogOpen}
+          onOpenChange={setIsEnrollDialogOpen}
+          automationId={automation.id}
+          onFinished={() => {
+            loadAutomationStats(automation.id)
+            loadRecentRuns(automation.id)
+            loadStepAnalytics(analyticsVersion)
+          }}
+        />
       </div>
     </DashboardLayout>
   )
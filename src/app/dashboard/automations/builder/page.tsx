@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import DashboardLayout from '@/components/layout/DashboardLayout'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
@@ -66,9 +66,31 @@ import {
   ArrowLeft,
   Sparkles,
   GitBranch,
+  MailOpen,
+  MousePointerClick,
+  AlertTriangle,
+  Send,
+  FileText,
+  UserCog,
+  Hourglass,
+  CalendarClock,
+  Target,
+  Tags,
+  PenLine,
+  UserCheck,
+  ListPlus,
+  ListMinus,
+  PlayCircle,
+  LogOut,
+  BellRing,
+  TrendingUp,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import AIFlowGenerator from '@/components/ai/AIFlowGenerator'
+import AdvancedConditionBuilder from '@/components/automation/AdvancedConditionBuilder'
+import { getStepTemplateId, getTriggerTypeForStep } from '@/lib/automation/triggers'
+import { DEFAULT_ENTRY_POLICY, EntryPolicy, ReentryMode } from '@/lib/automation/delivery-policies'
+import { LEAD_STATUSES, LEAD_UPDATABLE_FIELDS, validateFlowDefinition } from '@/lib/automation/actions'
 
 interface StepConfig {
   // Email configuration
@@ -102,7 +124,7 @@ interface StepConfig {
 
 interface AutomationStep {
   id: string
-  type: 'trigger' | 'condition' | 'action' | 'delay' | 'branching'
+  type: 'trigger' | 'condition' | 'action' | 'delay' | 'branching' | 'goal'
   name: string
   description: string
   config: StepConfig
@@ -119,6 +141,7 @@ interface FlowData {
   description: string
   steps: AutomationStep[]
   isActive: boolean
+  entryPolicy: EntryPolicy
 }
 
 const availableSteps: AutomationStep[] = [
@@ -132,21 +155,93 @@ const availableSteps: AutomationStep[] = [
     icon: Users,
     color: 'bg-green-500'
   },
+  {
+    id: 'trigger-tag-added',
+    type: 'trigger',
+    name: 'Tag Adicionada',
+    description: 'Quando o lead recebe uma tag',
+    config: { tag_name: '' },
+    icon: Tag,
+    color: 'bg-green-600'
+  },
+  {
+    id: 'trigger-tag-removed',
+    type: 'trigger',
+    name: 'Tag Removida',
+    description: 'Quando uma tag é removida do lead',
+    config: { tag_name: '' },
+    icon: Tag,
+    color: 'bg-rose-500'
+  },
+  {
+    id: 'trigger-field-changed',
+    type: 'trigger',
+    name: 'Campo Alterado',
+    description: 'Quando um campo do lead muda',
+    config: { field: '', to_value: '' },
+    icon: UserCog,
+    color: 'bg-teal-500'
+  },
+  {
+    id: 'trigger-email-opened',
+    type: 'trigger',
+    name: 'Email Aberto',
+    description: 'Quando o lead abre um email',
+    config: { campaign_id: '' },
+    icon: MailOpen,
+    color: 'bg-sky-500'
+  },
+  {
+    id: 'trigger-email-clicked',
+    type: 'trigger',
+    name: 'Link Clicado',
+    description: 'Quando o lead clica em um link',
+    config: { campaign_id: '', url_contains: '' },
+    icon: MousePointerClick,
+    color: 'bg-blue-600'
+  },
+  {
+    id: 'trigger-email-bounced',
+    type: 'trigger',
+    name: 'Email com Bounce',
+    description: 'Quando um email para o lead retorna',
+    config: { campaign_id: '', bounce_type: 'any' },
+    icon: AlertTriangle,
+    color: 'bg-red-600'
+  },
+  {
+    id: 'trigger-campaign-received',
+    type: 'trigger',
+    name: 'Campanha Recebida',
+    description: 'Quando uma campanha é entregue ao lead',
+    config: { campaign_id: '' },
+    icon: Send,
+    color: 'bg-indigo-600'
+  },
+  {
+    id: 'trigger-form-submitted',
+    type: 'trigger',
+    name: 'Formulário Enviado',
+    description: 'Quando o lead envia um formulário',
+    config: { form_id: '' },
+    icon: FileText,
+    color: 'bg-amber-500'
+  },
   {
     id: 'trigger-webhook',
     type: 'trigger',
     name: 'Webhook',
     description: 'Quando receber dados via webhook',
-    config: { url: '', method: 'POST' },
+    config: {},
     icon: Webhook,
     color: 'bg-blue-500'
   },
   {
     id: 'trigger-date',
     type: 'trigger',
-    name: 'Data Específica',
-    description: 'Em uma data e hora específica',
-    config: { date: '', time: '' },
+    name: 'Data',
+    description: 'Aniversários, N dias após uma data ou data específica',
+    config: { mode: 'anniversary', field: 'birthday', offset_days: 0, time: '09:00' },
     icon: Calendar,
     color: 'bg-purple-500'
   },
@@ -211,16 +306,97 @@ const availableSteps: AutomationStep[] = [
     type: 'action',
     name: 'Adicionar Tag',
     description: 'Adicionar tag ao lead',
-    config: { tag: '' },
+    config: { tag_name: '' },
     icon: Tag,
     color: 'bg-indigo-500'
   },
+  {
+    id: 'action-remove-tag',
+    type: 'action',
+    name: 'Remover Tag',
+    description: 'Remover tag do lead',
+    config: { tag_name: '' },
+    icon: Tags,
+    color: 'bg-indigo-400'
+  },
+  {
+    id: 'action-update-field',
+    type: 'action',
+    name: 'Atualizar Campo',
+    description: 'Alterar um campo ou campo personalizado do lead',
+    config: { field: 'company', value: '' },
+    icon: PenLine,
+    color: 'bg-violet-500'
+  },
+  {
+    id: 'action-change-status',
+    type: 'action',
+    name: 'Alterar Status',
+    description: 'Mudar o status do lead',
+    config: { status: 'unsubscribed' },
+    icon: UserCheck,
+    color: 'bg-rose-500'
+  },
+  {
+    id: 'action-add-to-list',
+    type: 'action',
+    name: 'Adicionar à Lista',
+    description: 'Incluir o lead em uma lista',
+    config: { list_id: '' },
+    icon: ListPlus,
+    color: 'bg-teal-500'
+  },
+  {
+    id: 'action-remove-from-list',
+    type: 'action',
+    name: 'Remover da Lista',
+    description: 'Tirar o lead de uma lista',
+    config: { list_id: '' },
+    icon: ListMinus,
+    color: 'bg-teal-600'
+  },
+  {
+    id: 'action-start-automation',
+    type: 'action',
+    name: 'Iniciar Automação',
+    description: 'Colocar o lead em outra automação',
+    config: { automation_id: '' },
+    icon: PlayCircle,
+    color: 'bg-green-600'
+  },
+  {
+    id: 'action-exit-automations',
+    type: 'action',
+    name: 'Sair das Automações',
+    description: 'Encerrar as outras automações do lead',
+    config: { stop_current: false },
+    icon: LogOut,
+    color: 'bg-stone-500'
+  },
+  {
+    id: 'action-notify-member',
+    type: 'action',
+    name: 'Notificar Membro',
+    description: 'Enviar email para alguém da equipe',
+    config: { member_user_id: '', subject: '', message: '' },
+    icon: BellRing,
+    color: 'bg-amber-500'
+  },
+  {
+    id: 'action-increment-score',
+    type: 'action',
+    name: 'Alterar Pontuação',
+    description: 'Somar ou subtrair pontos do lead',
+    config: { amount: 10 },
+    icon: TrendingUp,
+    color: 'bg-lime-600'
+  },
   {
     id: 'action-webhook',
     type: 'action',
     name: 'Chamar Webhook',
     description: 'Enviar dados para URL externa',
-    config: { url: '', method: 'POST', payload: {} },
+    config: { webhook_url: '', webhook_method: 'POST' },
     icon: Zap,
     color: 'bg-cyan-500'
   },
@@ -234,6 +410,35 @@ const availableSteps: AutomationStep[] = [
     config: { amount: 1, unit: 'hours' },
     icon: Clock,
     color: 'bg-gray-500'
+  },
+  {
+    id: 'delay-wait-event',
+    type: 'delay',
+    name: 'Aguardar Evento',
+    description: 'Esperar uma abertura ou clique por um tempo máximo',
+    config: { events: ['email_opened', 'email_clicked'], timeout_amount: 3, timeout_unit: 'days', scope: 'last_email' },
+    icon: Hourglass,
+    color: 'bg-slate-600'
+  },
+  {
+    id: 'delay-time-window',
+    type: 'delay',
+    name: 'Aguardar Janela de Horário',
+    description: 'Continuar só em dias e horários definidos, no fuso do lead',
+    config: { days: [1, 2, 3, 4, 5], start_time: '09:00', end_time: '11:00' },
+    icon: CalendarClock,
+    color: 'bg-slate-500'
+  },
+
+  // Goals
+  {
+    id: 'goal-condition',
+    type: 'goal',
+    name: 'Objetivo',
+    description: 'Tirar o lead do fluxo ou pular etapas quando a condição for atingida',
+    config: { conditions: [], on_reached: 'exit' },
+    icon: Target,
+    color: 'bg-emerald-600'
   }
 ]
 
@@ -352,7 +557,8 @@ export default function AutomationBuilderPage() {
     name: '',
     description: '',
     steps: [],
-    isActive: false
+    isActive: false,
+    entryPolicy: DEFAULT_ENTRY_POLICY
   })
   const [activeId, setActiveId] = useState<string | null>(null)
   const [editingStep, setEditingStep] = useState<AutomationStep | null>(null)
@@ -360,6 +566,11 @@ export default function AutomationBuilderPage() {
   const [isSaving, setIsSaving] = useState(false)
   const [workspaceId, setWorkspaceId] = useState<string | null>(null)
   const [showAIGenerator, setShowAIGenerator] = useState(false)
+  // Set when editing a published automation; saving then only updates its draft
+  const [editingAutomationId, setEditingAutomationId] = useState<string | null>(null)
+  const [lists, setLists] = useState<{ id: string; name: string }[]>([])
+  const [automations, setAutomations] = useState<{ id: string; name: string }[]>([])
+  const [members, setMembers] = useState<{ id: string; email: string; name: string | null }[]>([])
 
   const router = useRouter()
   const supabase = createClientComponentClient()
@@ -387,7 +598,8 @@ export default function AutomationBuilderPage() {
         color: getStepColor(step.type),
         description: getStepDescription(step.type, step.config)
       })),
-      isActive: false
+      isActive: false,
+      entryPolicy: DEFAULT_ENTRY_POLICY
     })
     setShowAIGenerator(false)
     toast.success('Fluxo gerado pela IA carregado com sucesso!')
@@ -400,6 +612,7 @@ export default function AutomationBuilderPage() {
       case 'email': return Mail
       case 'delay': return Clock
       case 'condition': return Filter
+      case 'goal': return Target
       default: return Zap
     }
   }
@@ -410,6 +623,7 @@ export default function AutomationBuilderPage() {
       case 'email': return 'bg-blue-500'
       case 'delay': return 'bg-orange-500'
       case 'condition': return 'bg-purple-500'
+      case 'goal': return 'bg-emerald-600'
       default: return 'bg-gray-500'
     }
   }
@@ -444,6 +658,79 @@ export default function AutomationBuilderPage() {
     initializeWorkspace()
   })
 
+  // Editing an existing automation: /dashboard/automations/builder?edit=<automation id>
+  useEffect(() => {
+    const automationId = new URLSearchParams(window.location.search).get('edit')
+    if (!automationId || !workspaceId) return
+
+    const loadAutomation = async () => {
+      const { data, error } = await supabase
+        .from('automation_flows')
+        .select('id, name, description, status, flow_definition, draft_definition, entry_policy')
+        .eq('id', automationId)
+        .eq('workspace_id', workspaceId)
+        .single()
+
+      if (error || !data) {
+        toast.error('Automação não encontrada')
+        return
+      }
+
+      const definition = data.draft_definition || data.flow_definition
+
+      setEditingAutomationId(data.id)
+      setFlowData({
+        name: data.name,
+        description: data.description || '',
+        steps: (definition?.steps || []).map(restoreStep),
+        isActive: data.status === 'active',
+        entryPolicy: data.entry_policy || DEFAULT_ENTRY_POLICY
+      })
+
+      if (data.draft_definition) {
+        toast.info('Editando o rascunho não publicado desta automação')
+      }
+    }
+    loadAutomation()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId])
+
+  // Options for the list, automation and member selects of the action forms
+  useEffect(() => {
+    if (!workspaceId) return
+
+    const loadActionOptions = async () => {
+      const [listsResult, automationsResult, membersResult] = await Promise.all([
+        supabase.from('lists').select('id, name').eq('workspace_id', workspaceId).order('name'),
+        supabase.from('automation_flows').select('id, name').eq('workspace_id', workspaceId).order('name'),
+        supabase.from('workspace_members').select('user_id').eq('workspace_id', workspaceId).eq('status', 'active')
+      ])
+
+      setLists(listsResult.data || [])
+      setAutomations(automationsResult.data || [])
+
+      const userIds = (membersResult.data || []).map(member => member.user_id)
+      if (userIds.length > 0) {
+        const { data: users } = await supabase.from('users').select('id, email, name').in('id', userIds)
+        setMembers(users || [])
+      }
+    }
+    loadActionOptions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId])
+
+  // Icons don't survive being stored as JSON; take them back from the step templates
+  const restoreStep = (step: any): AutomationStep => {
+    const template = availableSteps.find(t => t.id === getStepTemplateId(step.id))
+
+    return {
+      ...step,
+      config: step.config || {},
+      icon: template?.icon || getStepIcon(step.type),
+      color: template?.color || getStepColor(step.type)
+    }
+  }
+
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string)
   }
@@ -467,7 +754,8 @@ export default function AutomationBuilderPage() {
   const addStep = (stepTemplate: AutomationStep) => {
     const newStep: AutomationStep = {
       ...stepTemplate,
-      id: `${stepTemplate.type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      // Keep the template id as prefix; the engine and config forms look steps up by it
+      id: `${stepTemplate.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     }
 
     setFlowData(prev => ({
@@ -508,7 +796,7 @@ export default function AutomationBuilderPage() {
     toast.success('Etapa removida do fluxo')
   }
 
-  const saveAutomation = async () => {
+  const saveAutomation = async (publish = false) => {
     if (!workspaceId) {
       toast.error('Workspace não encontrado')
       return
@@ -530,19 +818,32 @@ export default function AutomationBuilderPage() {
       return
     }
 
+    const issues = validateFlowDefinition(flowData.steps, { automationId: editingAutomationId || undefined })
+    if (issues.length > 0) {
+      const [first] = issues
+      toast.error(`Corrija a etapa "${first.step_name || first.step_id}": ${first.message}`)
+      return
+    }
+
     setIsSaving(true)
 
     try {
+      if (editingAutomationId) {
+        await saveDraft(editingAutomationId, publish)
+        return
+      }
+
       const automationData = {
         workspace_id: workspaceId,
         name: flowData.name,
         description: flowData.description,
-        trigger_type: flowData.steps[0]?.type || 'manual',
+        trigger_type: getTriggerTypeForStep(flowData.steps[0].id) || 'manual',
         trigger_config: flowData.steps[0]?.config || {},
         flow_definition: {
           steps: flowData.steps,
           version: '1.0'
         },
+        entry_policy: flowData.entryPolicy,
         status: flowData.isActive ? 'active' : 'draft'
       }
 
@@ -567,6 +868,51 @@ export default function AutomationBuilderPage() {
     }
   }
 
+  // Running leads stay on the published version; the draft only takes effect once published
+  const saveDraft = async (automationId: string, publish: boolean) => {
+    const { error } = await supabase
+      .from('automation_flows')
+      .update({
+        name: flowData.name,
+        description: flowData.description,
+        draft_definition: {
+          steps: flowData.steps,
+          version: 'draft'
+        },
+        entry_policy: flowData.entryPolicy,
+        status: flowData.isActive ? 'active' : 'draft',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', automationId)
+      .eq('workspace_id', workspaceId)
+
+    if (error) {
+      console.error('Error saving automation draft:', error)
+      toast.error('Erro ao salvar rascunho')
+      return
+    }
+
+    if (publish) {
+      const response = await fetch(`/api/automation/flows/${automationId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ migrations: [] })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Erro ao publicar versão')
+        return
+      }
+
+      toast.success(`Versão ${result.version.version_number} publicada`)
+    } else {
+      toast.success('Rascunho salvo. Publique para que novas execuções usem estas etapas')
+    }
+
+    router.push(`/dashboard/automations/${automationId}`)
+  }
+
   const previewFlow = () => {
     if (flowData.steps.length === 0) {
       toast.error('Adicione etapas ao fluxo primeiro')
@@ -592,7 +938,11 @@ export default function AutomationBuilderPage() {
               </Button>
               <div>
                 <h1 className="text-xl font-bold text-gray-900">Builder de Automações</h1>
-                <p className="text-sm text-gray-600">Crie fluxos automatizados com drag-and-drop</p>
+                <p className="text-sm text-gray-600">
+                  {editingAutomationId
+                    ? 'Alterações ficam em rascunho até serem publicadas'
+                    : 'Crie fluxos automatizados com drag-and-drop'}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -604,10 +954,23 @@ export default function AutomationBuilderPage() {
                 <Eye className="mr-2 h-4 w-4" />
                 Preview
               </Button>
-              <Button onClick={saveAutomation} disabled={isSaving}>
-                <Save className="mr-2 h-4 w-4" />
-                {isSaving ? 'Salvando...' : 'Salvar Automação'}
-              </Button>
+              {editingAutomationId ? (
+                <>
+                  <Button variant="outline" onClick={() => saveAutomation()} disabled={isSaving}>
+                    <Save className="mr-2 h-4 w-4" />
+                    {isSaving ? 'Salvando...' : 'Salvar Rascunho'}
+                  </Button>
+                  <Button onClick={() => saveAutomation(true)} disabled={isSaving}>
+                    <Send className="mr-2 h-4 w-4" />
+                    Publicar
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={() => saveAutomation()} disabled={isSaving}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {isSaving ? 'Salvando...' : 'Salvar Automação'}
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -726,6 +1089,33 @@ export default function AutomationBuilderPage() {
                     })}
                   </div>
                 </div>
+
+                {/* Goals */}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">🎯 Objetivos</h4>
+                  <div className="space-y-2">
+                    {availableSteps.filter(step => step.type === 'goal').map(step => {
+                      const Icon = step.icon
+                      return (
+                        <div
+                          key={step.id}
+                          className="bg-white border border-gray-200 rounded-lg p-3 cursor-pointer hover:border-gray-300 transition-colors"
+                          onClick={() => addStep(step)}
+                        >
+                          <div className="flex items-center gap-2">
+                            <div className={`w-8 h-8 rounded ${step.color} flex items-center justify-center text-white`}>
+                              <Icon className="h-4 w-4" />
+                            </div>
+                            <div>
+                              <div className="font-medium text-sm">{step.name}</div>
+                              <div className="text-xs text-gray-500">{step.description}</div>
+                            </div>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -766,6 +1156,57 @@ export default function AutomationBuilderPage() {
                   </div>
                 </div>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                <div>
+                  <Label>Reentrada do lead</Label>
+                  <Select
+                    value={flowData.entryPolicy.reentry || 'after_completion'}
+                    onValueChange={(value) => setFlowData(prev => ({
+                      ...prev,
+                      entryPolicy: { ...prev.entryPolicy, reentry: value as ReentryMode }
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Nunca (entra uma única vez)</SelectItem>
+                      <SelectItem value="after_completion">Após concluir a execução anterior</SelectItem>
+                      <SelectItem value="after_days">Após um número de dias</SelectItem>
+                      <SelectItem value="always">Sempre</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {flowData.entryPolicy.reentry === 'after_days' && (
+                  <div>
+                    <Label htmlFor="flow-reentry-days">Dias desde a última entrada</Label>
+                    <Input
+                      id="flow-reentry-days"
+                      type="number"
+                      min="1"
+                      value={flowData.entryPolicy.reentry_days || 30}
+                      onChange={(e) => setFlowData(prev => ({
+                        ...prev,
+                        entryPolicy: { ...prev.entryPolicy, reentry_days: parseInt(e.target.value) || 1 }
+                      }))}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="flow-max-concurrent">Execuções simultâneas por lead</Label>
+                  <Input
+                    id="flow-max-concurrent"
+                    type="number"
+                    min="0"
+                    value={flowData.entryPolicy.max_concurrent_runs ?? 0}
+                    onChange={(e) => setFlowData(prev => ({
+                      ...prev,
+                      entryPolicy: { ...prev.entryPolicy, max_concurrent_runs: parseInt(e.target.value) || null }
+                    }))}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">0 = sem limite</p>
+                </div>
+              </div>
             </div>
 
             {/* Flow Canvas */}
@@ -859,6 +1300,188 @@ export default function AutomationBuilderPage() {
             </DialogHeader>
             {editingStep && (
               <div className="space-y-4">
+                {/* Configuração para Triggers de Tag */}
+                {editingStep.type === 'trigger' && ['trigger-tag-added', 'trigger-tag-removed'].includes(getStepTemplateId(editingStep.id)) && (
+                  <div>
+                    <Label>Tag</Label>
+                    <Input
+                      value={stepConfig.tag_name || ''}
+                      onChange={(e) => updateStepConfig('tag_name', e.target.value)}
+                      placeholder="Ex: cliente-vip (vazio = qualquer tag)"
+                    />
+                  </div>
+                )}
+
+                {/* Configuração para Campo Alterado */}
+                {editingStep.type === 'trigger' && getStepTemplateId(editingStep.id) === 'trigger-field-changed' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Campo</Label>
+                      <Input
+                        value={stepConfig.field || ''}
+                        onChange={(e) => updateStepConfig('field', e.target.value)}
+                        placeholder="Ex: status ou custom_fields.plano"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Campos do lead: name, phone, company, position, source, status. Campos personalizados: custom_fields.nome
+                      </p>
+                    </div>
+                    <div>
+                      <Label>Novo valor (opcional)</Label>
+                      <Input
+                        value={stepConfig.to_value || ''}
+                        onChange={(e) => updateStepConfig('to_value', e.target.value)}
+                        placeholder="Dispara só quando o campo mudar para este valor"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Configuração para Triggers de Email */}
+                {editingStep.type === 'trigger' && ['trigger-email-opened', 'trigger-email-clicked', 'trigger-email-bounced', 'trigger-campaign-received'].includes(getStepTemplateId(editingStep.id)) && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>ID da campanha (opcional)</Label>
+                      <Input
+                        value={stepConfig.campaign_id || ''}
+                        onChange={(e) => updateStepConfig('campaign_id', e.target.value)}
+                        placeholder="Vazio = qualquer campanha"
+                      />
+                    </div>
+                    {getStepTemplateId(editingStep.id) === 'trigger-email-clicked' && (
+                      <div>
+                        <Label>URL contém (opcional)</Label>
+                        <Input
+                          value={stepConfig.url_contains || ''}
+                          onChange={(e) => updateStepConfig('url_contains', e.target.value)}
+                          placeholder="Ex: /checkout"
+                        />
+                      </div>
+                    )}
+                    {getStepTemplateId(editingStep.id) === 'trigger-email-bounced' && (
+                      <div>
+                        <Label>Tipo de bounce</Label>
+                        <Select
+                          value={stepConfig.bounce_type || 'any'}
+                          onValueChange={(value) => updateStepConfig('bounce_type', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Qualquer</SelectItem>
+                            <SelectItem value="hard">Permanente (hard)</SelectItem>
+                            <SelectItem value="soft">Temporário (soft)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Configuração para Formulário */}
+                {editingStep.type === 'trigger' && getStepTemplateId(editingStep.id) === 'trigger-form-submitted' && (
+                  <div>
+                    <Label>ID do formulário</Label>
+                    <Input
+                      value={stepConfig.form_id || ''}
+                      onChange={(e) => updateStepConfig('form_id', e.target.value)}
+                      placeholder="Ex: newsletter-rodape (vazio = qualquer formulário)"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Envie o form_id em POST /api/public/v1/forms/submissions
+                    </p>
+                  </div>
+                )}
+
+                {/* Configuração para Webhook de entrada */}
+                {editingStep.type === 'trigger' && getStepTemplateId(editingStep.id) === 'trigger-webhook' && (
+                  <p className="text-sm text-gray-600">
+                    Após salvar, a página da automação mostra uma URL secreta. Envie um POST com o email do lead
+                    (e opcionalmente name, tags, custom_fields e data) para iniciar o fluxo.
+                  </p>
+                )}
+
+                {/* Configuração para Trigger de Data */}
+                {editingStep.type === 'trigger' && getStepTemplateId(editingStep.id) === 'trigger-date' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Tipo</Label>
+                      <Select
+                        value={stepConfig.mode || 'anniversary'}
+                        onValueChange={(value) => updateStepConfig('mode', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="anniversary">Aniversário anual (ex: data de nascimento)</SelectItem>
+                          <SelectItem value="relative">Dias antes/depois de um campo de data</SelectItem>
+                          <SelectItem value="specific_date">Data específica</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {(stepConfig.mode || 'anniversary') === 'specific_date' ? (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label>Data</Label>
+                          <Input
+                            type="date"
+                            value={stepConfig.date || ''}
+                            onChange={(e) => updateStepConfig('date', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label>Tag (opcional)</Label>
+                          <Input
+                            value={stepConfig.tag_name || ''}
+                            onChange={(e) => updateStepConfig('tag_name', e.target.value)}
+                            placeholder="Vazio = todos os leads"
+                          />
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label>Campo personalizado</Label>
+                          <Input
+                            value={stepConfig.field || ''}
+                            onChange={(e) => updateStepConfig('field', e.target.value)}
+                            placeholder="Ex: birthday"
+                          />
+                        </div>
+                        <div>
+                          <Label>Dias de diferença</Label>
+                          <Input
+                            type="number"
+                            value={stepConfig.offset_days ?? 0}
+                            onChange={(e) => updateStepConfig('offset_days', parseInt(e.target.value) || 0)}
+                          />
+                          <p className="text-xs text-gray-500 mt-1">Negativo = antes da data</p>
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Horário</Label>
+                        <Input
+                          type="time"
+                          value={stepConfig.time || ''}
+                          onChange={(e) => updateStepConfig('time', e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Fuso horário</Label>
+                        <Input
+                          value={stepConfig.timezone || ''}
+                          onChange={(e) => updateStepConfig('timezone', e.target.value)}
+                          placeholder="America/Sao_Paulo"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Configuração para Enviar Email */}
                 {editingStep.type === 'action' && editingStep.id.includes('send-email') && (
                   <div className="space-y-4">
@@ -928,7 +1551,7 @@ export default function AutomationBuilderPage() {
                 )}
 
                 {/* Configuração para Delay */}
-                {editingStep.type === 'delay' && (
+                {editingStep.type === 'delay' && getStepTemplateId(editingStep.id) === 'delay-time' && (
                   <div className="space-y-4">
                     <div className="grid grid-cols-2 gap-2">
                       <div>
@@ -969,6 +1592,210 @@ export default function AutomationBuilderPage() {
                   </div>
                 )}
 
+                {/* Configuração para Aguardar Evento */}
+                {editingStep.type === 'delay' && getStepTemplateId(editingStep.id) === 'delay-wait-event' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Evento esperado</Label>
+                      <Select
+                        value={(stepConfig.events || []).join(',') || 'email_opened,email_clicked'}
+                        onValueChange={(value) => updateStepConfig('events', value.split(','))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="email_opened,email_clicked">Abertura ou clique</SelectItem>
+                          <SelectItem value="email_opened">Abertura</SelectItem>
+                          <SelectItem value="email_clicked">Clique</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Email</Label>
+                      <Select
+                        value={stepConfig.scope || 'last_email'}
+                        onValueChange={(value) => updateStepConfig('scope', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="last_email">Último email enviado pela automação</SelectItem>
+                          <SelectItem value="any_email">Qualquer email</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Esperar até</Label>
+                        <Input
+                          type="number"
+                          value={stepConfig.timeout_amount || 3}
+                          onChange={(e) => updateStepConfig('timeout_amount', parseInt(e.target.value) || 1)}
+                          min="1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Unidade</Label>
+                        <Select
+                          value={stepConfig.timeout_unit || 'days'}
+                          onValueChange={(value) => updateStepConfig('timeout_unit', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="minutes">Minutos</SelectItem>
+                            <SelectItem value="hours">Horas</SelectItem>
+                            <SelectItem value="days">Dias</SelectItem>
+                            <SelectItem value="weeks">Semanas</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Se o evento acontecer, ir para</Label>
+                      <Select
+                        value={stepConfig.event_next_step || 'next'}
+                        onValueChange={(value) => updateStepConfig('event_next_step', value === 'next' ? undefined : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="next">Próximo passo</SelectItem>
+                          {flowData.steps.filter(step => step.id !== editingStep.id).map(step => (
+                            <SelectItem key={step.id} value={step.id}>{step.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Se o tempo esgotar, ir para</Label>
+                      <Select
+                        value={stepConfig.timeout_next_step || 'next'}
+                        onValueChange={(value) => updateStepConfig('timeout_next_step', value === 'next' ? undefined : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="next">Próximo passo</SelectItem>
+                          {flowData.steps.filter(step => step.id !== editingStep.id).map(step => (
+                            <SelectItem key={step.id} value={step.id}>{step.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                {/* Configuração para Janela de Horário */}
+                {editingStep.type === 'delay' && getStepTemplateId(editingStep.id) === 'delay-time-window' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Dias permitidos</Label>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'].map((label, day) => {
+                          const days: number[] = stepConfig.days || [1, 2, 3, 4, 5]
+                          const selected = days.includes(day)
+                          return (
+                            <Button
+                              key={label}
+                              type="button"
+                              size="sm"
+                              variant={selected ? 'default' : 'outline'}
+                              onClick={() => updateStepConfig('days', selected ? days.filter(d => d !== day) : [...days, day].sort())}
+                            >
+                              {label}
+                            </Button>
+                          )
+                        })}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <Label>Início</Label>
+                        <Input
+                          type="time"
+                          value={stepConfig.start_time || '09:00'}
+                          onChange={(e) => updateStepConfig('start_time', e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label>Fim</Label>
+                        <Input
+                          type="time"
+                          value={stepConfig.end_time || '11:00'}
+                          onChange={(e) => updateStepConfig('end_time', e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label>Fuso horário padrão</Label>
+                      <Input
+                        value={stepConfig.timezone || ''}
+                        onChange={(e) => updateStepConfig('timezone', e.target.value)}
+                        placeholder="America/Sao_Paulo"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Usado quando o lead não tem fuso horário cadastrado
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {/* Configuração para Objetivo */}
+                {editingStep.type === 'goal' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Condição do objetivo</Label>
+                      <AdvancedConditionBuilder
+                        conditions={stepConfig.conditions || []}
+                        onChange={(conditions) => updateStepConfig('conditions', conditions)}
+                      />
+                    </div>
+                    <div>
+                      <Label>Quando atingido</Label>
+                      <Select
+                        value={stepConfig.on_reached || 'exit'}
+                        onValueChange={(value) => updateStepConfig('on_reached', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="exit">Remover o lead da automação</SelectItem>
+                          <SelectItem value="jump">Pular para um passo</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {stepConfig.on_reached === 'jump' && (
+                      <div>
+                        <Label>Pular para</Label>
+                        <Select
+                          value={stepConfig.jump_to_step || 'next'}
+                          onValueChange={(value) => updateStepConfig('jump_to_step', value === 'next' ? undefined : value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="next">Passo logo após o objetivo</SelectItem>
+                            {flowData.steps.filter(step => step.id !== editingStep.id).map(step => (
+                              <SelectItem key={step.id} value={step.id}>{step.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      O objetivo é verificado antes de cada passo e quando o lead abre ou clica em um email
+                    </p>
+                  </div>
+                )}
+
                 {/* Configuração para Adicionar Tag */}
                 {editingStep.type === 'action' && editingStep.id.includes('add-tag') && (
                   <div className="space-y-4">
@@ -1031,6 +1858,184 @@ export default function AutomationBuilderPage() {
                   </div>
                 )}
 
+                {/* Configuração para Remover Tag */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-remove-tag' && (
+                  <div>
+                    <Label>Tag para remover</Label>
+                    <Input
+                      value={stepConfig.tag_name || ''}
+                      onChange={(e) => updateStepConfig('tag_name', e.target.value)}
+                      placeholder="Ex: lead-frio"
+                    />
+                  </div>
+                )}
+
+                {/* Configuração para Atualizar Campo */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-update-field' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Campo</Label>
+                      <Input
+                        value={stepConfig.field || ''}
+                        onChange={(e) => updateStepConfig('field', e.target.value)}
+                        placeholder="Ex: company ou custom_fields.plano"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Campos do lead: {LEAD_UPDATABLE_FIELDS.join(', ')}. Para campos personalizados use custom_fields.nome
+                      </p>
+                    </div>
+                    <div>
+                      <Label>Novo valor</Label>
+                      <Input
+                        value={stepConfig.value ?? ''}
+                        onChange={(e) => updateStepConfig('value', e.target.value)}
+                        placeholder="Ex: Premium"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Configuração para Alterar Status */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-change-status' && (
+                  <div>
+                    <Label>Novo status</Label>
+                    <Select
+                      value={stepConfig.status || ''}
+                      onValueChange={(value) => updateStepConfig('status', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecionar status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEAD_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>
+                            {{ active: 'Ativo', unsubscribed: 'Descadastrado', bounced: 'Bounce', complained: 'Reclamação' }[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {/* Configuração para Listas */}
+                {editingStep.type === 'action' && ['action-add-to-list', 'action-remove-from-list'].includes(getStepTemplateId(editingStep.id)) && (
+                  <div>
+                    <Label>Lista</Label>
+                    <Select
+                      value={stepConfig.list_id || ''}
+                      onValueChange={(value) => updateStepConfig('list_id', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder={lists.length > 0 ? 'Selecionar lista' : 'Nenhuma lista criada'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {lists.map(list => (
+                          <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {/* Configuração para Iniciar Automação */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-start-automation' && (
+                  <div>
+                    <Label>Automação</Label>
+                    <Select
+                      value={stepConfig.automation_id || ''}
+                      onValueChange={(value) => updateStepConfig('automation_id', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecionar automação" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {automations
+                          .filter(automation => automation.id !== editingAutomationId)
+                          .map(automation => (
+                            <SelectItem key={automation.id} value={automation.id}>{automation.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      A automação escolhida precisa estar ativa e aplica suas próprias regras de entrada
+                    </p>
+                  </div>
+                )}
+
+                {/* Configuração para Sair das Automações */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-exit-automations' && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        id="stop_current"
+                        type="checkbox"
+                        checked={!!stepConfig.stop_current}
+                        onChange={(e) => updateStepConfig('stop_current', e.target.checked)}
+                      />
+                      <Label htmlFor="stop_current">Encerrar também esta automação</Label>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Cancela as execuções pendentes do lead em todas as outras automações
+                    </p>
+                  </div>
+                )}
+
+                {/* Configuração para Notificar Membro */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-notify-member' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>Membro da equipe</Label>
+                      <Select
+                        value={stepConfig.member_user_id || ''}
+                        onValueChange={(value) => updateStepConfig('member_user_id', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecionar membro" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members.map(member => (
+                            <SelectItem key={member.id} value={member.id}>{member.name || member.email}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Assunto</Label>
+                      <Input
+                        value={stepConfig.subject || ''}
+                        onChange={(e) => updateStepConfig('subject', e.target.value)}
+                        placeholder="Ex: {{name}} pediu uma demonstração"
+                      />
+                    </div>
+                    <div>
+                      <Label>Mensagem</Label>
+                      <Textarea
+                        value={stepConfig.message || ''}
+                        onChange={(e) => updateStepConfig('message', e.target.value)}
+                        placeholder="Ex: Entre em contato com {{email}} ({{company}})"
+                        rows={3}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Configuração para Alterar Pontuação */}
+                {editingStep.type === 'action' && getStepTemplateId(editingStep.id) === 'action-increment-score' && (
+                  <div>
+                    <Label>Pontos</Label>
+                    <Input
+                      type="number"
+                      min={-1000}
+                      max={1000}
+                      value={stepConfig.amount ?? ''}
+                      onChange={(e) => updateStepConfig('amount', e.target.value === '' ? undefined : parseInt(e.target.value))}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Use valores negativos para subtrair pontos
+                    </p>
+                  </div>
+                )}
+
                 {/* Configuração para Notificação */}
                 {editingStep.type === 'action' && editingStep.id.includes('notification') && (
                   <div className="space-y-4">
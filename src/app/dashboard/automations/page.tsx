@@ -38,6 +38,7 @@ import {
   Mail,
   Clock,
 } from 'lucide-react'
+import DeliverySettingsDialog from '@/components/automation/DeliverySettingsDialog'
 import Link from 'next/link'
 import { toast } from 'sonner'
 import { formatDistanceToNow } from 'date-fns'
@@ -233,6 +234,7 @@ export default function AutomationsPage() {
             <p className="text-gray-600">Crie fluxos automatizados para seus leads</p>
           </div>
           <div className="flex gap-3">
+            <DeliverySettingsDialog workspaceId={workspaceId} />
             <Button asChild>
               <Link href="/dashboard/automations/builder">
                 <Plus className="mr-2 h-4 w-4" />
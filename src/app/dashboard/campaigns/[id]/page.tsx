@@ -0,0 +1,258 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import { createSupabaseClient } from '@/lib/supabase'
+import { buildLinkReport, LinkReportEntry } from '@/lib/tracking/link-report'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft, Users, Eye, MousePointer, Bot, Link2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+
+interface CampaignReport {
+  id: string
+  name: string
+  subject: string
+  status: string
+  sent_at: string | null
+  total_recipients: number | null
+  delivered: number | null
+  opened: number | null
+  clicked: number | null
+  machine_opened: number | null
+  machine_clicked: number | null
+  // Template version pinned when the campaign was sent
+  template_version: { template_id: string; version_number: number } | null
+}
+
+function formatRate(value: number, total: number): string {
+  if (!total) return '0%'
+  return `${((value / total) * 100).toFixed(1)}%`
+}
+
+// Heat color scales with the link's share of clicks
+function heatColor(share: number, maxShare: number): string {
+  const ratio = maxShare > 0 ? share / maxShare : 0
+  if (ratio >= 0.75) return 'bg-red-500'
+  if (ratio >= 0.5) return 'bg-orange-400'
+  if (ratio >= 0.25) return 'bg-yellow-400'
+  return 'bg-blue-300'
+}
+
+export default function CampaignReportPage() {
+  const params = useParams<{ id: string }>()
+  const [campaign, setCampaign] = useState<CampaignReport | null>(null)
+  const [links, setLinks] = useState<LinkReportEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const supabase = createSupabaseClient()
+
+  useEffect(() => {
+    if (params?.id) {
+      loadReport(params.id)
+    }
+  }, [params?.id])
+
+  const loadReport = async (campaignId: string) => {
+    try {
+      setLoading(true)
+
+      const [{ data: campaignData, error: campaignError }, { data: linkData, error: linkError }] = await Promise.all([
+        supabase
+          .from('campaigns')
+          .select('id, name, subject, status, sent_at, total_recipients, delivered, opened, clicked, machine_opened, machine_clicked, template_version:email_template_versions(template_id, version_number)')
+          .eq('id', campaignId)
+          .single(),
+        supabase
+          .from('email_links')
+          .select('id, position, original_url, click_count, unique_click_count')
+          .eq('campaign_id', campaignId)
+          .order('position', { ascending: true })
+      ])
+
+      if (campaignError) throw campaignError
+      if (linkError) throw linkError
+
+      // The untyped client reads the many-to-one embed as an array
+      setCampaign(campaignData as unknown as CampaignReport)
+      setLinks(buildLinkReport(linkData || []))
+    } catch (error) {
+      console.error('Error loading campaign report:', error)
+      toast.error('Erro ao carregar relatório da campanha')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-6">
+            <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-24 bg-gray-200 rounded-lg"></div>
+              ))}
+            </div>
+            <div className="h-64 bg-gray-200 rounded-lg"></div>
+          </div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!campaign) {
+    return (
+      <DashboardLayout>
+        <div className="p-6">
+          <div className="text-center py-8">
+            <p className="text-red-600">Campanha não encontrada</p>
+            <Button asChild className="mt-4">
+              <Link href="/dashboard/campaigns">Voltar para campanhas</Link>
+            </Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const recipients = campaign.total_recipients || 0
+  const maxShare = Math.max(0, ...links.map(link => link.click_share))
+
+  const stats = [
+    { title: 'Destinatários', value: recipients, detail: `${campaign.delivered || 0} entregues`, icon: Users, color: 'text-blue-600' },
+    { title: 'Aberturas', value: campaign.opened || 0, detail: formatRate(campaign.opened || 0, recipients), icon: Eye, color: 'text-green-600' },
+    { title: 'Cliques', value: campaign.clicked || 0, detail: formatRate(campaign.clicked || 0, recipients), icon: MousePointer, color: 'text-purple-600' },
+    {
+      title: 'Aberturas automáticas',
+      value: campaign.machine_opened || 0,
+      detail: `${campaign.machine_clicked || 0} cliques de scanners`,
+      icon: Bot,
+      color: 'text-gray-600'
+    },
+  ]
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/dashboard/campaigns">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{campaign.name}</h1>
+              <p className="text-gray-600">
+                {campaign.subject}
+                {campaign.sent_at && ` · enviada em ${format(new Date(campaign.sent_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`}
+                {campaign.template_version && (
+                  <>
+                    {' · '}
+                    <Link
+                      href={`/dashboard/templates/editor?id=${campaign.template_version.template_id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      template versão {campaign.template_version.version_number}
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+          <Badge variant="outline">{campaign.status}</Badge>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <Card key={stat.title}>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">{stat.title}</p>
+                    <p className="text-2xl font-bold">{stat.value.toLocaleString('pt-BR')}</p>
+                    <p className="text-xs text-gray-500">{stat.detail}</p>
+                  </div>
+                  <stat.icon className={`h-8 w-8 ${stat.color}`} />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Link heatmap */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Mapa de cliques por link
+            </CardTitle>
+            <CardDescription>
+              Cliques humanos por link, na ordem em que aparecem no email. Cliques de scanners de segurança não são contados.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {links.length === 0 ? (
+              <div className="text-center py-12">
+                <Link2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500">Nenhum link rastreado nesta campanha</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Link</TableHead>
+                    <TableHead className="w-64">Participação</TableHead>
+                    <TableHead className="text-right">Cliques</TableHead>
+                    <TableHead className="text-right">Únicos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {links.map(link => (
+                    <TableRow key={link.id}>
+                      <TableCell className="text-gray-500">{link.position}</TableCell>
+                      <TableCell className="max-w-md truncate" title={link.original_url}>
+                        {link.original_url}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-gray-100 rounded">
+                            <div
+                              className={`h-2 rounded ${heatColor(link.click_share, maxShare)}`}
+                              style={{ width: `${link.click_share}%` }}
+                            />
+                          </div>
+                          <span className="text-sm text-gray-600 w-12 text-right">{link.click_share}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{link.click_count.toLocaleString('pt-BR')}</TableCell>
+                      <TableCell className="text-right">{link.unique_click_count.toLocaleString('pt-BR')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
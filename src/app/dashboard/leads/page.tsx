@@ -1,6 +1,6 @@
 'use client'
 
-import { memo, useMemo, useState } from 'react'
+import { memo, useCallback, useMemo, useState } from 'react'
 import Link from 'next/link'
 import DashboardLayout from '@/components/layout/DashboardLayout'
 import { Button } from '@/components/ui/button'
@@ -33,6 +33,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Select,
   SelectContent,
@@ -53,10 +54,13 @@ import {
   Tag,
   Edit,
   Trash2,
+  TrendingUp,
+  Workflow,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { formatDistanceToNow } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
+import BulkEnrollmentDialog from '@/components/automation/BulkEnrollmentDialog'
 
 // Optimized hooks
 import { useSupabaseAuth } from '@/lib/hooks/useSupabaseAuth'
@@ -90,12 +94,18 @@ const LeadStatsCard = memo(({ icon: Icon, title, value, color }: {
 
 LeadStatsCard.displayName = 'LeadStatsCard'
 
+type LeadSortOrder = 'created_desc' | 'score_desc' | 'score_asc'
+
 const LeadRow = memo(({ 
   lead, 
+  selected,
+  onSelect,
   onEdit, 
   onDelete 
 }: {
   lead: Lead
+  selected: boolean
+  onSelect: (id: string, selected: boolean) => void
   onEdit: (lead: Lead) => void
   onDelete: (id: string) => void
 }) => {
@@ -123,10 +133,17 @@ const LeadRow = memo(({
 
   return (
     <TableRow>
+      <TableCell>
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelect(lead.id, checked === true)}
+        />
+      </TableCell>
       <TableCell className="font-medium">{lead.email}</TableCell>
       <TableCell>{lead.name || '-'}</TableCell>
       <TableCell>{lead.company || '-'}</TableCell>
       <TableCell>{getStatusBadge(lead.status)}</TableCell>
+      <TableCell className="font-medium">{lead.score ?? 0}</TableCell>
       <TableCell>
         <div className="flex flex-wrap gap-1">
           {lead.tags.slice(0, 2).map((tag, index) => (
@@ -181,12 +198,16 @@ const LeadFilters = memo(({
   searchTerm, 
   onSearchChange, 
   statusFilter, 
-  onStatusChange 
+  onStatusChange,
+  sortOrder,
+  onSortChange
 }: {
   searchTerm: string
   onSearchChange: (value: string) => void
   statusFilter: string
   onStatusChange: (value: string) => void
+  sortOrder: LeadSortOrder
+  onSortChange: (value: LeadSortOrder) => void
 }) => (
   <Card>
     <CardContent className="p-4">
@@ -212,6 +233,16 @@ const LeadFilters = memo(({
             <SelectItem value="complained">Reclamação</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={sortOrder} onValueChange={(value) => onSortChange(value as LeadSortOrder)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Ordenar" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="created_desc">Mais recentes</SelectItem>
+            <SelectItem value="score_desc">Maior pontuação</SelectItem>
+            <SelectItem value="score_asc">Menor pontuação</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
     </CardContent>
   </Card>
@@ -358,8 +389,11 @@ export default function LeadsPage() {
   
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
+  const [sortOrder, setSortOrder] = useState<LeadSortOrder>('created_desc')
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [editingLead, setEditingLead] = useState<Lead | null>(null)
+  const [selectedLeadIds, setSelectedLeadIds] = useState<string[]>([])
+  const [isEnrollDialogOpen, setIsEnrollDialogOpen] = useState(false)
 
   // Form states
   const [formData, setFormData] = useState({
@@ -388,8 +422,14 @@ export default function LeadsPage() {
       filtered = filtered.filter(lead => lead.status === statusFilter)
     }
 
+    // Leads arrive newest first; score orders keep that as the tie-breaker
+    if (sortOrder !== 'created_desc') {
+      const direction = sortOrder === 'score_desc' ? -1 : 1
+      filtered = [...filtered].sort((a, b) => direction * ((a.score ?? 0) - (b.score ?? 0)))
+    }
+
     return filtered
-  }, [leads, searchTerm, statusFilter])
+  }, [leads, searchTerm, statusFilter, sortOrder])
 
   // Memoized stats calculation
   const stats = useMemo(() => {
@@ -463,6 +503,19 @@ export default function LeadsPage() {
     }
   }
 
+  const handleSelect = useCallback((leadId: string, selected: boolean) => {
+    setSelectedLeadIds(current =>
+      selected ? [...current, leadId] : current.filter(id => id !== leadId)
+    )
+  }, [])
+
+  // Selecting all picks the leads the filters currently show
+  const allFilteredSelected = filteredLeads.length > 0 && filteredLeads.every(lead => selectedLeadIds.includes(lead.id))
+
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedLeadIds(selected ? filteredLeads.map(lead => lead.id) : [])
+  }
+
   const handleOpenAddDialog = () => {
     resetForm()
     setIsAddDialogOpen(true)
@@ -511,6 +564,18 @@ export default function LeadsPage() {
             <p className="text-gray-600">Gerencie seus contatos e prospects</p>
           </div>
           <div className="flex gap-3">
+            {selectedLeadIds.length > 0 && (
+              <Button variant="outline" onClick={() => setIsEnrollDialogOpen(true)}>
+                <Workflow className="mr-2 h-4 w-4" />
+                Automação ({selectedLeadIds.length})
+              </Button>
+            )}
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/leads/scoring">
+                <TrendingUp className="mr-2 h-4 w-4" />
+                Pontuação
+              </Link>
+            </Button>
             <Button variant="outline" asChild>
               <Link href="/dashboard/leads/import">
                 <Upload className="mr-2 h-4 w-4" />
@@ -562,6 +627,8 @@ export default function LeadsPage() {
           onSearchChange={setSearchTerm}
           statusFilter={statusFilter}
           onStatusChange={setStatusFilter}
+          sortOrder={sortOrder}
+          onSortChange={setSortOrder}
         />
 
         {/* Leads Table */}
@@ -576,10 +643,17 @@ export default function LeadsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={allFilteredSelected}
+                      onCheckedChange={(checked) => handleSelectAll(checked === true)}
+                    />
+                  </TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Nome</TableHead>
                   <TableHead>Empresa</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Pontuação</TableHead>
                   <TableHead>Tags</TableHead>
                   <TableHead>Criado</TableHead>
                   <TableHead className="w-[70px]">Ações</TableHead>
@@ -590,6 +664,8 @@ export default function LeadsPage() {
                   <LeadRow
                     key={lead.id}
                     lead={lead}
+                    selected={selectedLeadIds.includes(lead.id)}
+                    onSelect={handleSelect}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                   />
@@ -616,6 +692,12 @@ export default function LeadsPage() {
           isOpen={isAddDialogOpen}
           onClose={() => setIsAddDialogOpen(false)}
         />
+
+        <BulkEnrollmentDialog
+          open={isEnrollDialogOpen}
+          onOpenChange={setIsEnrollDialogOpen}
+          leadIds={selectedLeadIds}
+        />
       </div>
     </DashboardLayout>
   )
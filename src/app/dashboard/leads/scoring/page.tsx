@@ -0,0 +1,523 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import { createSupabaseClient } from '@/lib/supabase'
+import {
+  getScoringRuleError,
+  LeadScoringRule,
+  NewLeadScoringRule,
+  ScoringRuleType,
+} from '@/lib/scoring/lead-scoring'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowLeft, Edit, Plus, Trash2, TrendingUp } from 'lucide-react'
+import { toast } from 'sonner'
+
+const RULE_TYPE_LABELS: Record<ScoringRuleType, string> = {
+  email_opened: 'Abriu email',
+  email_clicked: 'Clicou em email',
+  form_submitted: 'Enviou formulário',
+  tag_added: 'Tag adicionada',
+  tag_removed: 'Tag removida',
+  lead_field_changed: 'Campo alterado',
+  decay: 'Decaimento por inatividade',
+}
+
+const ANY_CAMPAIGN = 'any'
+
+const EMPTY_RULE: NewLeadScoringRule = {
+  name: '',
+  event_type: 'email_opened',
+  config: {},
+  points: 5,
+}
+
+// Human readable summary of a rule's filters
+function describeRule(rule: LeadScoringRule, campaigns: { id: string; name: string }[]): string {
+  const { config } = rule
+
+  switch (rule.event_type) {
+    case 'email_opened':
+    case 'email_clicked': {
+      const campaign = campaigns.find(c => c.id === config.campaign_id)
+      const parts = [campaign ? `Campanha: ${campaign.name}` : 'Qualquer campanha']
+      if (config.url_contains) parts.push(`URL contém "${config.url_contains}"`)
+      return parts.join(' · ')
+    }
+    case 'form_submitted':
+      return config.form_id ? `Formulário: ${config.form_id}` : 'Qualquer formulário'
+    case 'tag_added':
+    case 'tag_removed':
+      return config.tag_name ? `Tag: ${config.tag_name}` : 'Qualquer tag'
+    case 'lead_field_changed':
+      return [
+        config.field ? `Campo: ${config.field}` : 'Qualquer campo',
+        config.to_value ? `novo valor "${config.to_value}"` : null,
+      ].filter(Boolean).join(' · ')
+    case 'decay':
+      return `A cada ${config.interval_days} dias sem mudança na pontuação`
+  }
+}
+
+export default function LeadScoringPage() {
+  const [rules, setRules] = useState<LeadScoringRule[]>([])
+  const [campaigns, setCampaigns] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [form, setForm] = useState<NewLeadScoringRule>(EMPTY_RULE)
+  const [saving, setSaving] = useState(false)
+
+  const supabase = createSupabaseClient()
+
+  useEffect(() => {
+    loadWorkspace()
+  }, [])
+
+  useEffect(() => {
+    if (workspaceId) {
+      loadRules(workspaceId)
+    }
+  }, [workspaceId])
+
+  const loadWorkspace = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data: member } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .single()
+
+      if (!member) return
+
+      setWorkspaceId(member.workspace_id)
+    } catch (error) {
+      console.error('Error loading workspace:', error)
+      toast.error('Erro ao carregar workspace')
+      setLoading(false)
+    }
+  }
+
+  const loadRules = async (currentWorkspaceId: string) => {
+    try {
+      setLoading(true)
+
+      const [rulesResult, campaignsResult] = await Promise.all([
+        supabase
+          .from('lead_scoring_rules')
+          .select('*')
+          .eq('workspace_id', currentWorkspaceId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('campaigns')
+          .select('id, name')
+          .eq('workspace_id', currentWorkspaceId)
+          .order('created_at', { ascending: false })
+          .limit(100),
+      ])
+
+      if (rulesResult.error) throw rulesResult.error
+
+      setRules(rulesResult.data || [])
+      setCampaigns(campaignsResult.data || [])
+    } catch (error) {
+      console.error('Error loading scoring rules:', error)
+      toast.error('Erro ao carregar regras de pontuação')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openDialog = (rule?: LeadScoringRule) => {
+    setEditingRuleId(rule?.id || null)
+    setForm(rule
+      ? { name: rule.name, event_type: rule.event_type, config: rule.config || {}, points: rule.points }
+      : EMPTY_RULE)
+    setDialogOpen(true)
+  }
+
+  const updateConfig = (key: string, value: any) => {
+    setForm(prev => ({ ...prev, config: { ...prev.config, [key]: value } }))
+  }
+
+  const handleSave = async () => {
+    if (!workspaceId) return
+
+    // Empty filters match anything, so they are not stored
+    const config = Object.fromEntries(
+      Object.entries(form.config || {}).filter(([, value]) => value !== '' && value !== undefined && value !== null)
+    )
+    const rule = { ...form, name: form.name.trim(), config }
+
+    const validationError = getScoringRuleError(rule)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+
+      if (editingRuleId) {
+        const { error } = await supabase
+          .from('lead_scoring_rules')
+          .update({ name: rule.name, event_type: rule.event_type, config: rule.config, points: rule.points })
+          .eq('id', editingRuleId)
+          .eq('workspace_id', workspaceId)
+
+        if (error) throw error
+      } else {
+        const { data: { user } } = await supabase.auth.getUser()
+
+        const { error } = await supabase
+          .from('lead_scoring_rules')
+          .insert({ ...rule, workspace_id: workspaceId, created_by: user?.id || null })
+
+        if (error) throw error
+      }
+
+      toast.success(editingRuleId ? 'Regra atualizada' : 'Regra criada')
+      setDialogOpen(false)
+      loadRules(workspaceId)
+    } catch (error: any) {
+      console.error('Error saving scoring rule:', error)
+      // idx_lead_scoring_rules_decay allows one active decay rule per workspace
+      toast.error(error?.code === '23505' ? 'Já existe uma regra de decaimento ativa' : 'Erro ao salvar regra')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: LeadScoringRule, active: boolean) => {
+    if (!workspaceId) return
+
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .update({ status: active ? 'active' : 'inactive' })
+      .eq('id', rule.id)
+      .eq('workspace_id', workspaceId)
+
+    if (error) {
+      console.error('Error updating scoring rule:', error)
+      toast.error(error.code === '23505' ? 'Já existe uma regra de decaimento ativa' : 'Erro ao atualizar regra')
+      return
+    }
+
+    loadRules(workspaceId)
+  }
+
+  const handleDelete = async (rule: LeadScoringRule) => {
+    if (!workspaceId) return
+
+    if (!confirm(`Excluir a regra "${rule.name}"? Os pontos já dados aos leads são mantidos.`)) {
+      return
+    }
+
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .delete()
+      .eq('id', rule.id)
+      .eq('workspace_id', workspaceId)
+
+    if (error) {
+      console.error('Error deleting scoring rule:', error)
+      toast.error('Erro ao excluir regra')
+      return
+    }
+
+    toast.success('Regra excluída')
+    loadRules(workspaceId)
+  }
+
+  const config = form.config || {}
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/dashboard/leads">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Pontuação de Leads</h1>
+              <p className="text-gray-600">
+                Regras que somam ou tiram pontos conforme o engajamento de cada lead
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Regra
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Regras ({rules.length})
+            </CardTitle>
+            <CardDescription>
+              Os pontos são aplicados quando o evento acontece; a pontuação pode ser usada em segmentos e condições de automação
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-pulse space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="h-10 bg-gray-200 rounded"></div>
+                ))}
+              </div>
+            ) : rules.length === 0 ? (
+              <div className="text-center py-12">
+                <TrendingUp className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500">Nenhuma regra de pontuação</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Regra</TableHead>
+                    <TableHead>Evento</TableHead>
+                    <TableHead>Filtros</TableHead>
+                    <TableHead>Pontos</TableHead>
+                    <TableHead>Ativa</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(rule => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{RULE_TYPE_LABELS[rule.event_type]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{describeRule(rule, campaigns)}</TableCell>
+                      <TableCell className={rule.points > 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                        {rule.points > 0 ? `+${rule.points}` : rule.points}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.status === 'active'}
+                          onCheckedChange={(checked) => handleToggle(rule, checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Rule dialog */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingRuleId ? 'Editar regra' : 'Nova regra de pontuação'}</DialogTitle>
+              <DialogDescription>
+                Filtros vazios valem para qualquer campanha, tag, campo ou formulário
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Nome</Label>
+                <Input
+                  id="rule-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Ex: Clique na página de preços"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Evento</Label>
+                <Select
+                  value={form.event_type}
+                  onValueChange={(value) => setForm(prev => ({
+                    ...prev,
+                    event_type: value as ScoringRuleType,
+                    config: value === 'decay' ? { interval_days: 30 } : {},
+                    points: value === 'decay' ? -Math.abs(prev.points) : prev.points,
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {['email_opened', 'email_clicked'].includes(form.event_type) && (
+                <div className="space-y-2">
+                  <Label>Campanha</Label>
+                  <Select
+                    value={config.campaign_id || ANY_CAMPAIGN}
+                    onValueChange={(value) => updateConfig('campaign_id', value === ANY_CAMPAIGN ? undefined : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_CAMPAIGN}>Qualquer campanha</SelectItem>
+                      {campaigns.map(campaign => (
+                        <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {form.event_type === 'email_clicked' && (
+                <div className="space-y-2">
+                  <Label>URL contém</Label>
+                  <Input
+                    value={config.url_contains || ''}
+                    onChange={(e) => updateConfig('url_contains', e.target.value)}
+                    placeholder="Ex: /precos"
+                  />
+                </div>
+              )}
+
+              {form.event_type === 'form_submitted' && (
+                <div className="space-y-2">
+                  <Label>ID do formulário</Label>
+                  <Input
+                    value={config.form_id || ''}
+                    onChange={(e) => updateConfig('form_id', e.target.value)}
+                    placeholder="Ex: pedido-demo"
+                  />
+                </div>
+              )}
+
+              {['tag_added', 'tag_removed'].includes(form.event_type) && (
+                <div className="space-y-2">
+                  <Label>Tag</Label>
+                  <Input
+                    value={config.tag_name || ''}
+                    onChange={(e) => updateConfig('tag_name', e.target.value)}
+                    placeholder="Ex: cliente-vip"
+                  />
+                </div>
+              )}
+
+              {form.event_type === 'lead_field_changed' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Campo</Label>
+                    <Input
+                      value={config.field || ''}
+                      onChange={(e) => updateConfig('field', e.target.value)}
+                      placeholder="Ex: custom_fields.plano"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Novo valor</Label>
+                    <Input
+                      value={config.to_value || ''}
+                      onChange={(e) => updateConfig('to_value', e.target.value)}
+                      placeholder="Ex: pro"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {form.event_type === 'decay' && (
+                <div className="space-y-2">
+                  <Label>Intervalo (dias)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={config.interval_days ?? ''}
+                    onChange={(e) => updateConfig('interval_days', e.target.value === '' ? undefined : parseInt(e.target.value))}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Leads cuja pontuação não muda por este período perdem os pontos abaixo, sem ficar negativos
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-points">Pontos</Label>
+                <Input
+                  id="rule-points"
+                  type="number"
+                  min={-1000}
+                  max={1000}
+                  value={Number.isNaN(form.points) ? '' : form.points}
+                  onChange={(e) => setForm(prev => ({ ...prev, points: parseInt(e.target.value) }))}
+                />
+                <p className="text-xs text-gray-500">
+                  Use valores negativos para tirar pontos
+                </p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,413 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import { createSupabaseClient } from '@/lib/supabase'
+import { parseSuppressionInput, SuppressionEntry, SuppressionReason } from '@/lib/suppression/suppression-list'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Search, Trash2, ShieldOff, Globe, Mail, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+
+const REASON_LABELS: Record<SuppressionReason, string> = {
+  hard_bounce: 'Hard bounce',
+  complaint: 'Reclamação de spam',
+  manual: 'Manual',
+  import: 'Importação',
+}
+
+const REASON_COLORS: Record<SuppressionReason, string> = {
+  hard_bounce: 'bg-red-100 text-red-800',
+  complaint: 'bg-orange-100 text-orange-800',
+  manual: 'bg-gray-100 text-gray-800',
+  import: 'bg-blue-100 text-blue-800',
+}
+
+const PAGE_SIZE = 50
+
+export default function SuppressionsPage() {
+  const [entries, setEntries] = useState<SuppressionEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [loading, setLoading] = useState(true)
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [reasonFilter, setReasonFilter] = useState('all')
+  const [addDialogOpen, setAddDialogOpen] = useState(false)
+  const [importText, setImportText] = useState('')
+  const [importReason, setImportReason] = useState<'manual' | 'import'>('manual')
+  const [saving, setSaving] = useState(false)
+
+  const supabase = createSupabaseClient()
+
+  useEffect(() => {
+    loadWorkspace()
+  }, [])
+
+  useEffect(() => {
+    if (workspaceId) {
+      loadEntries(workspaceId)
+    }
+  }, [workspaceId, page, searchTerm, reasonFilter])
+
+  const loadWorkspace = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const { data: member } = await supabase
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .single()
+
+      if (!member) return
+
+      setWorkspaceId(member.workspace_id)
+    } catch (error) {
+      console.error('Error loading workspace:', error)
+      toast.error('Erro ao carregar workspace')
+      setLoading(false)
+    }
+  }
+
+  const loadEntries = async (currentWorkspaceId: string) => {
+    try {
+      setLoading(true)
+      const offset = (page - 1) * PAGE_SIZE
+
+      let query = supabase
+        .from('suppression_list')
+        .select('*', { count: 'exact' })
+        .eq('workspace_id', currentWorkspaceId)
+
+      if (reasonFilter !== 'all') {
+        query = query.eq('reason', reasonFilter)
+      }
+
+      if (searchTerm) {
+        query = query.ilike('value', `%${searchTerm.toLowerCase()}%`)
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) throw error
+
+      setEntries(data || [])
+      setTotal(count || 0)
+    } catch (error) {
+      console.error('Error loading suppression list:', error)
+      toast.error('Erro ao carregar lista de supressão')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const parsedInput = parseSuppressionInput(importText)
+
+  const handleAdd = async () => {
+    if (!workspaceId) return
+
+    if (parsedInput.emails.length + parsedInput.domains.length === 0) {
+      toast.error('Informe ao menos um email ou domínio válido')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { data: { user } } = await supabase.auth.getUser()
+
+      const rows = [
+        ...parsedInput.emails.map(value => ({ entry_type: 'email', value })),
+        ...parsedInput.domains.map(value => ({ entry_type: 'domain', value })),
+      ].map(row => ({
+        ...row,
+        workspace_id: workspaceId,
+        reason: importReason,
+        source: 'dashboard',
+        created_by: user?.id || null,
+      }))
+
+      const { data, error } = await supabase
+        .from('suppression_list')
+        .upsert(rows, { onConflict: 'workspace_id,entry_type,value', ignoreDuplicates: true })
+        .select('id')
+
+      if (error) throw error
+
+      const added = data?.length || 0
+      toast.success(`${added} ${added === 1 ? 'entrada adicionada' : 'entradas adicionadas'} à lista de supressão`)
+
+      setImportText('')
+      setAddDialogOpen(false)
+      setPage(1)
+      loadEntries(workspaceId)
+    } catch (error) {
+      console.error('Error adding suppression entries:', error)
+      toast.error('Erro ao adicionar entradas')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (entry: SuppressionEntry) => {
+    if (!workspaceId) return
+
+    if (!confirm(`Remover ${entry.value} da lista de supressão? Novos envios voltarão a ser permitidos.`)) {
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('suppression_list')
+        .delete()
+        .eq('id', entry.id)
+        .eq('workspace_id', workspaceId)
+
+      if (error) throw error
+
+      toast.success('Entrada removida')
+      loadEntries(workspaceId)
+    } catch (error) {
+      console.error('Error removing suppression entry:', error)
+      toast.error('Erro ao remover entrada')
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Lista de Supressão</h1>
+            <p className="text-gray-600">
+              Emails e domínios que nunca recebem envios deste workspace
+            </p>
+          </div>
+          <Button onClick={() => setAddDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Buscar email ou domínio..."
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value)
+                    setPage(1)
+                  }}
+                  className="pl-10"
+                />
+              </div>
+              <Select
+                value={reasonFilter}
+                onValueChange={(value) => {
+                  setReasonFilter(value)
+                  setPage(1)
+                }}
+              >
+                <SelectTrigger className="w-full md:w-56">
+                  <SelectValue placeholder="Motivo" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os motivos</SelectItem>
+                  {Object.entries(REASON_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldOff className="h-5 w-5" />
+              Entradas ({total.toLocaleString('pt-BR')})
+            </CardTitle>
+            <CardDescription>
+              Hard bounces e reclamações de spam são adicionados automaticamente
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="animate-pulse space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-10 bg-gray-200 rounded"></div>
+                ))}
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-12">
+                <ShieldOff className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <p className="text-gray-500">Nenhuma entrada na lista de supressão</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email / Domínio</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead>Origem</TableHead>
+                    <TableHead>Adicionado</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.entry_type === 'domain' ? (
+                            <Globe className="h-4 w-4 text-gray-400" />
+                          ) : (
+                            <Mail className="h-4 w-4 text-gray-400" />
+                          )}
+                          <span className="font-medium">
+                            {entry.entry_type === 'domain' ? `*@${entry.value}` : entry.value}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={REASON_COLORS[entry.reason]}>
+                          {REASON_LABELS[entry.reason]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-gray-600">{entry.source || '-'}</TableCell>
+                      <TableCell className="text-gray-600">
+                        {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true, locale: ptBR })}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemove(entry)}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-gray-600">
+                  Página {page} de {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Anterior
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                    Próxima
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Add / import dialog */}
+        <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Adicionar à lista de supressão</DialogTitle>
+              <DialogDescription>
+                Cole emails ou domínios, um por linha ou separados por vírgula.
+                Domínios bloqueiam todos os endereços daquele domínio.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="suppression-input">Emails e domínios</Label>
+                <Textarea
+                  id="suppression-input"
+                  rows={8}
+                  placeholder={'joao@exemplo.com\nconcorrente.com.br'}
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                />
+                {importText.trim() && (
+                  <p className="text-sm text-gray-600">
+                    {parsedInput.emails.length} emails, {parsedInput.domains.length} domínios
+                  </p>
+                )}
+                {parsedInput.invalid.length > 0 && (
+                  <p className="text-sm text-orange-600 flex items-center gap-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    {parsedInput.invalid.length} {parsedInput.invalid.length === 1 ? 'entrada inválida será ignorada' : 'entradas inválidas serão ignoradas'}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Motivo</Label>
+                <Select value={importReason} onValueChange={(value) => setImportReason(value as 'manual' | 'import')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">{REASON_LABELS.manual}</SelectItem>
+                    <SelectItem value="import">{REASON_LABELS.import}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleAdd} disabled={saving}>
+                {saving ? 'Adicionando...' : 'Adicionar'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,7 @@
+import { redirect } from 'next/navigation'
+
+// Templates are edited (and their version history browsed) in the visual editor
+export default async function EditTemplatePage(context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params
+  redirect(`/dashboard/templates/editor?id=${encodeURIComponent(id)}`)
+}
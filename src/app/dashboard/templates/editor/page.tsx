@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import DashboardLayout from '@/components/layout/DashboardLayout'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
@@ -66,43 +66,43 @@ import {
   Download,
   Upload,
   Sparkles,
+  History,
+  Blocks,
+  BookmarkPlus,
+  Link2,
+  Unlink,
+  AlertTriangle,
 } from 'lucide-react'
 import { toast } from 'sonner'
-import { sanitizeHtml, validateHtmlSafety } from '@/lib/sanitize'
-
-interface EmailComponent {
-  id: string
-  type: 'text' | 'heading' | 'image' | 'button' | 'divider' | 'spacer' | 'columns'
-  content: {
-    text?: string
-    fontSize?: number
-    fontWeight?: string
-    color?: string
-    textAlign?: string
-    backgroundColor?: string
-    padding?: string
-    margin?: string
-    borderRadius?: string
-    href?: string
-    src?: string
-    alt?: string
-    width?: string
-    height?: string
-    columnCount?: number
-    columns?: EmailComponent[][]
-  }
-}
+import { validateHtmlSafety } from '@/lib/sanitize'
+import { SanitizedTemplateHtml } from '@/components/ui/sanitized-html'
+import { renderTemplatePreview, validateEmailTemplate, formatTemplateErrors } from '@/lib/templates/email-template'
+import TemplateVersionHistory from '@/components/templates/TemplateVersionHistory'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import {
+  EmailComponent,
+  EmailDesignSettings,
+  SyncedBlockMap,
+  DEFAULT_DESIGN_SETTINGS,
+  cloneComponents,
+  createComponentId,
+} from '@/lib/templates/editor-html'
+import { compileEmail, formatBytes, EmailCompileWarning, GMAIL_CLIP_LIMIT_BYTES } from '@/lib/templates/email-compiler'
+import {
+  ContentBlock,
+  ContentBlockCategory,
+  CONTENT_BLOCK_CATEGORIES,
+  createSyncedBlockComponent,
+} from '@/lib/templates/content-blocks'
 
 interface EmailTemplate {
   id?: string
+  current_version?: number
   name: string
   subject: string
   components: EmailComponent[]
-  settings: {
-    backgroundColor: string
-    maxWidth: string
-    fontFamily: string
-  }
+  settings: EmailDesignSettings
 }
 
 const COMPONENT_TYPES = [
@@ -209,124 +209,147 @@ const COMPONENT_TYPES = [
   }
 ]
 
-interface SortableComponentProps {
+interface ComponentPreviewProps {
   component: EmailComponent
-  onEdit: (component: EmailComponent) => void
-  onDelete: (componentId: string) => void
-  onDuplicate: (component: EmailComponent) => void
+  blocks: SyncedBlockMap
 }
 
-function SortableComponent({ component, onEdit, onDelete, onDuplicate }: SortableComponentProps) {
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id: component.id })
+function ComponentPreview({ component, blocks }: ComponentPreviewProps) {
+  switch (component.type) {
+    case 'heading':
+    case 'text':
+      return (
+        <div
+          style={{
+            fontSize: component.content.fontSize,
+            fontWeight: component.content.fontWeight,
+            color: component.content.color,
+            textAlign: component.content.textAlign as any,
+            padding: component.content.padding,
+            margin: component.content.margin,
+            backgroundColor: component.content.backgroundColor
+          }}
+        >
+          {component.content.text}
+        </div>
+      )
 
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.5 : 1,
-  }
+    case 'image':
+      return (
+        <div style={{ padding: component.content.padding, margin: component.content.margin }}>
+          <img
+            src={component.content.src}
+            alt={component.content.alt}
+            style={{
+              width: component.content.width,
+              height: component.content.height,
+              maxWidth: '100%'
+            }}
+          />
+        </div>
+      )
 
-  const renderComponent = () => {
-    switch (component.type) {
-      case 'heading':
-      case 'text':
-        return (
+    case 'button':
+      return (
+        <div style={{ textAlign: component.content.textAlign as any, margin: component.content.margin }}>
           <div
             style={{
+              display: 'inline-block',
+              backgroundColor: component.content.backgroundColor,
+              color: component.content.color,
               fontSize: component.content.fontSize,
               fontWeight: component.content.fontWeight,
-              color: component.content.color,
-              textAlign: component.content.textAlign as any,
               padding: component.content.padding,
-              margin: component.content.margin,
-              backgroundColor: component.content.backgroundColor
+              borderRadius: component.content.borderRadius,
+              textDecoration: 'none',
+              cursor: 'pointer'
             }}
           >
             {component.content.text}
           </div>
-        )
-
-      case 'image':
-        return (
-          <div style={{ padding: component.content.padding, margin: component.content.margin }}>
-            <img
-              src={component.content.src}
-              alt={component.content.alt}
-              style={{
-                width: component.content.width,
-                height: component.content.height,
-                maxWidth: '100%'
-              }}
-            />
-          </div>
-        )
-
-      case 'button':
-        return (
-          <div style={{ textAlign: component.content.textAlign as any, margin: component.content.margin }}>
-            <div
-              style={{
-                display: 'inline-block',
-                backgroundColor: component.content.backgroundColor,
-                color: component.content.color,
-                fontSize: component.content.fontSize,
-                fontWeight: component.content.fontWeight,
-                padding: component.content.padding,
-                borderRadius: component.content.borderRadius,
-                textDecoration: 'none',
-                cursor: 'pointer'
-              }}
-            >
-              {component.content.text}
-            </div>
-          </div>
-        )
+        </div>
+      )
 
-      case 'divider':
-        return (
-          <div
-            style={{
-              height: component.content.height,
-              backgroundColor: component.content.backgroundColor,
-              margin: component.content.margin
-            }}
-          />
-        )
+    case 'divider':
+      return (
+        <div
+          style={{
+            height: component.content.height,
+            backgroundColor: component.content.backgroundColor,
+            margin: component.content.margin
+          }}
+        />
+      )
 
-      case 'spacer':
-        return (
-          <div
-            style={{
-              height: component.content.height,
-              backgroundColor: component.content.backgroundColor
-            }}
-          />
-        )
-
-      case 'columns':
-        return (
-          <div style={{ padding: component.content.padding }}>
-            <div style={{ display: 'flex', gap: '16px' }}>
-              {component.content.columns?.map((column, index) => (
-                <div key={index} style={{ flex: 1, minHeight: '100px', border: '1px dashed #ccc' }}>
-                  <div className="p-2 text-xs text-gray-500 text-center">
-                    Coluna {index + 1}
-                  </div>
+    case 'spacer':
+      return (
+        <div
+          style={{
+            height: component.content.height,
+            backgroundColor: component.content.backgroundColor
+          }}
+        />
+      )
+
+    case 'columns':
+      return (
+        <div style={{ padding: component.content.padding }}>
+          <div style={{ display: 'flex', gap: '16px' }}>
+            {component.content.columns?.map((column, index) => (
+              <div key={index} style={{ flex: 1, minHeight: '100px', border: '1px dashed #ccc' }}>
+                <div className="p-2 text-xs text-gray-500 text-center">
+                  Coluna {index + 1}
                 </div>
-              ))}
-            </div>
+              </div>
+            ))}
           </div>
-        )
+        </div>
+      )
 
-      default:
-        return <div>Componente desconhecido</div>
+    case 'synced_block': {
+      const master = blocks[component.content.blockId || '']
+      return (
+        <div className="border border-dashed border-purple-300 rounded">
+          <div className="flex items-center gap-1 px-2 py-1 text-xs text-purple-700 bg-purple-50">
+            <Link2 className="h-3 w-3" />
+            Bloco sincronizado: {component.content.blockName || 'sem nome'}
+          </div>
+          {master ? (
+            master.map(child => <ComponentPreview key={child.id} component={child} blocks={{}} />)
+          ) : (
+            <div className="p-3 text-xs text-gray-500">Bloco não encontrado</div>
+          )}
+        </div>
+      )
     }
+
+    default:
+      return <div>Componente desconhecido</div>
+  }
+}
+
+interface SortableComponentProps {
+  component: EmailComponent
+  blocks: SyncedBlockMap
+  onEdit: (component: EmailComponent) => void
+  onDelete: (componentId: string) => void
+  onDuplicate: (component: EmailComponent) => void
+}
+
+function SortableComponent({ component, blocks, onEdit, onDelete, onDuplicate }: SortableComponentProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: component.id })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
   }
 
   return (
@@ -346,7 +369,7 @@ function SortableComponent({ component, onEdit, onDelete, onDuplicate }: Sortabl
 
       {/* Component Content */}
       <div className="min-h-[40px] relative">
-        {renderComponent()}
+        <ComponentPreview component={component} blocks={blocks} />
         {/* Visual indicator when hovering */}
         <div className="absolute inset-0 bg-blue-50 opacity-0 group-hover:opacity-20 rounded transition-opacity pointer-events-none"></div>
       </div>
@@ -394,22 +417,39 @@ function SortableComponent({ component, onEdit, onDelete, onDuplicate }: Sortabl
   )
 }
 
+function formatCompileWarning(warning: EmailCompileWarning, size: number): string {
+  if (warning.code === 'gmail_clipping') {
+    return `HTML com ${formatBytes(size)}: o Gmail corta mensagens acima de ${formatBytes(GMAIL_CLIP_LIMIT_BYTES)}`
+  }
+  return `HTML com ${formatBytes(size)}: personalização e rastreamento podem ultrapassar o limite de ${formatBytes(GMAIL_CLIP_LIMIT_BYTES)} do Gmail`
+}
+
 export default function EmailEditorPage() {
   const [template, setTemplate] = useState<EmailTemplate>({
     name: '',
     subject: '',
     components: [],
-    settings: {
-      backgroundColor: '#f8fafc',
-      maxWidth: '600px',
-      fontFamily: 'Arial, sans-serif'
-    }
+    settings: { ...DEFAULT_DESIGN_SETTINGS }
   })
   const [activeId, setActiveId] = useState<string | null>(null)
   const [editingComponent, setEditingComponent] = useState<EmailComponent | null>(null)
   const [previewMode, setPreviewMode] = useState<'desktop' | 'tablet' | 'mobile'>('desktop')
   const [isSaving, setIsSaving] = useState(false)
+  const [preview, setPreview] = useState<ReturnType<typeof renderTemplatePreview> | null>(null)
   const [workspaceId, setWorkspaceId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  // Templates created outside the visual editor have no block tree to edit
+  const [isReadOnly, setIsReadOnly] = useState(false)
+  const [contentBlocks, setContentBlocks] = useState<ContentBlock[]>([])
+  // Set when editing a saved block (?block=<id>) instead of a template
+  const [editingBlock, setEditingBlock] = useState<ContentBlock | null>(null)
+  const [saveBlockDialog, setSaveBlockDialog] = useState<{
+    name: string
+    category: ContentBlockCategory
+    isSynced: boolean
+    componentIds: string[]
+  } | null>(null)
+  const [syncedBlockAction, setSyncedBlockAction] = useState<EmailComponent | null>(null)
 
   const router = useRouter()
   const supabase = createClientComponentClient()
@@ -441,6 +481,90 @@ export default function EmailEditorPage() {
     initializeWorkspace()
   })
 
+  const applySavedTemplate = (saved: any) => {
+    setIsReadOnly(!saved.wysiwyg_data?.components)
+    setTemplate(prev => ({
+      id: saved.id,
+      current_version: saved.current_version,
+      name: saved.name,
+      subject: saved.subject,
+      components: saved.wysiwyg_data?.components || [],
+      settings: saved.wysiwyg_data?.settings || prev.settings
+    }))
+  }
+
+  const loadContentBlocks = async (currentWorkspaceId: string) => {
+    const { data, error } = await supabase
+      .from('content_blocks')
+      .select('*')
+      .eq('workspace_id', currentWorkspaceId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error loading content blocks:', error)
+      return
+    }
+
+    setContentBlocks(data || [])
+  }
+
+  useEffect(() => {
+    if (workspaceId) loadContentBlocks(workspaceId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId])
+
+  // Editing a saved block: /dashboard/templates/editor?block=<block id>
+  useEffect(() => {
+    const blockId = new URLSearchParams(window.location.search).get('block')
+    if (!blockId || !workspaceId) return
+
+    const loadBlock = async () => {
+      const { data, error } = await supabase
+        .from('content_blocks')
+        .select('*')
+        .eq('id', blockId)
+        .eq('workspace_id', workspaceId)
+        .single()
+
+      if (error || !data) {
+        toast.error('Bloco não encontrado')
+        return
+      }
+
+      setEditingBlock(data)
+      setTemplate(prev => ({ ...prev, name: data.name, components: data.components || [] }))
+    }
+    loadBlock()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId])
+
+  // Editing an existing template: /dashboard/templates/editor?id=<template id>
+  useEffect(() => {
+    const templateId = new URLSearchParams(window.location.search).get('id')
+    if (!templateId || !workspaceId) return
+
+    const loadTemplate = async () => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .eq('id', templateId)
+        .eq('workspace_id', workspaceId)
+        .single()
+
+      if (error || !data) {
+        toast.error('Template não encontrado')
+        return
+      }
+
+      applySavedTemplate(data)
+      if (!data.wysiwyg_data?.components) {
+        toast.info('Este template não foi criado no editor visual. O histórico de versões continua disponível.')
+      }
+    }
+    loadTemplate()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId])
+
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string)
   }
@@ -460,7 +584,7 @@ export default function EmailEditorPage() {
 
       if (componentTemplate) {
         const newComponent: EmailComponent = {
-          id: `${componentType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: createComponentId(componentType),
           type: componentType as any,
           content: { ...componentTemplate.defaultContent }
         }
@@ -493,7 +617,7 @@ export default function EmailEditorPage() {
 
     if (componentTemplate) {
       const newComponent: EmailComponent = {
-        id: `${componentType}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: createComponentId(componentType),
         type: componentType as any,
         content: { ...componentTemplate.defaultContent }
       }
@@ -508,9 +632,174 @@ export default function EmailEditorPage() {
   }
 
   const editComponent = (component: EmailComponent) => {
+    if (component.type === 'synced_block') {
+      setSyncedBlockAction(component)
+      return
+    }
     setEditingComponent(component)
   }
 
+  const syncedBlocks: SyncedBlockMap = useMemo(() => Object.fromEntries(
+    contentBlocks.filter(block => block.is_synced).map(block => [block.id, block.components])
+  ), [contentBlocks])
+
+  // Table-based HTML and plain text sent to providers; recompiled on every design change
+  const compiled = useMemo(() => compileEmail(
+    { components: template.components, settings: template.settings },
+    template.subject,
+    syncedBlocks
+  ), [template.components, template.settings, template.subject, syncedBlocks])
+
+  // Synced blocks are inserted as a reference to the master; other blocks as editable copies
+  const insertContentBlock = (block: ContentBlock) => {
+    const inserted = block.is_synced ? [createSyncedBlockComponent(block)] : cloneComponents(block.components)
+
+    setTemplate(prev => ({
+      ...prev,
+      components: [...prev.components, ...inserted]
+    }))
+
+    toast.success(`Bloco "${block.name}" adicionado`)
+  }
+
+  const detachSyncedBlock = (component: EmailComponent) => {
+    const master = syncedBlocks[component.content.blockId || ''] || []
+
+    setTemplate(prev => ({
+      ...prev,
+      components: prev.components.flatMap(c => c.id === component.id ? cloneComponents(master) : [c])
+    }))
+    setSyncedBlockAction(null)
+    toast.success('Bloco desvinculado; o conteúdo agora é editável neste template')
+  }
+
+  const openSaveBlockDialog = () => {
+    const selectable = template.components.filter(c => c.type !== 'synced_block')
+    if (selectable.length === 0) {
+      toast.error('Adicione componentes antes de salvar um bloco')
+      return
+    }
+
+    setSaveBlockDialog({
+      name: '',
+      category: 'custom',
+      isSynced: false,
+      componentIds: selectable.map(c => c.id)
+    })
+  }
+
+  const saveContentBlock = async () => {
+    if (!workspaceId || !saveBlockDialog) return
+
+    if (!saveBlockDialog.name.trim()) {
+      toast.error('Nome do bloco é obrigatório')
+      return
+    }
+
+    const selected = template.components.filter(c => saveBlockDialog.componentIds.includes(c.id))
+    if (selected.length === 0) {
+      toast.error('Selecione ao menos um componente')
+      return
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { data: block, error } = await supabase
+      .from('content_blocks')
+      .insert({
+        workspace_id: workspaceId,
+        name: saveBlockDialog.name.trim(),
+        category: saveBlockDialog.category,
+        components: selected,
+        is_synced: saveBlockDialog.isSynced,
+        created_by: user?.id,
+        updated_by: user?.id
+      })
+      .select()
+      .single()
+
+    if (error || !block) {
+      console.error('Error saving content block:', error)
+      toast.error('Erro ao salvar bloco')
+      return
+    }
+
+    // A synced block replaces the selected components with a reference, so this template follows the master
+    if (block.is_synced) {
+      const firstIndex = template.components.findIndex(c => saveBlockDialog.componentIds.includes(c.id))
+      setTemplate(prev => {
+        const remaining = prev.components.filter(c => !saveBlockDialog.componentIds.includes(c.id))
+        remaining.splice(firstIndex, 0, createSyncedBlockComponent(block))
+        return { ...prev, components: remaining }
+      })
+    }
+
+    setContentBlocks(prev => [...prev, block].sort((a, b) => a.name.localeCompare(b.name)))
+    setSaveBlockDialog(null)
+    toast.success('Bloco salvo na biblioteca')
+  }
+
+  const saveEditingBlock = async () => {
+    if (!workspaceId || !editingBlock) return
+
+    if (!template.name.trim()) {
+      toast.error('Nome do bloco é obrigatório')
+      return
+    }
+
+    if (template.components.length === 0) {
+      toast.error('O bloco precisa de ao menos um componente')
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+
+      const { error } = await supabase
+        .from('content_blocks')
+        .update({
+          name: template.name.trim(),
+          components: template.components,
+          updated_by: user?.id
+        })
+        .eq('id', editingBlock.id)
+        .eq('workspace_id', workspaceId)
+
+      if (error) {
+        console.error('Error saving content block:', error)
+        toast.error('Erro ao salvar bloco')
+        return
+      }
+
+      if (!editingBlock.is_synced) {
+        toast.success('Bloco salvo')
+        return
+      }
+
+      // Re-render every template that uses this block
+      const response = await fetch('/api/templates/blocks/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ block_id: editingBlock.id })
+      })
+
+      if (!response.ok) {
+        toast.error('Bloco salvo, mas os templates não foram atualizados')
+        return
+      }
+
+      const { templates_updated } = await response.json()
+      toast.success(`Bloco salvo; ${templates_updated} template(s) atualizado(s)`)
+    } catch (error) {
+      console.error('Error saving content block:', error)
+      toast.error('Erro inesperado ao salvar bloco')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   const updateComponent = (updatedComponent: EmailComponent) => {
     setTemplate(prev => ({
       ...prev,
@@ -533,7 +822,7 @@ export default function EmailEditorPage() {
   const duplicateComponent = (component: EmailComponent) => {
     const newComponent: EmailComponent = {
       ...component,
-      id: `${component.type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      id: createComponentId(component.type)
     }
 
     const componentIndex = template.components.findIndex(c => c.id === component.id)
@@ -559,25 +848,58 @@ export default function EmailEditorPage() {
       return
     }
 
+    const validation = validateEmailTemplate({ subject: template.subject, html: compiled.text })
+    if (!validation.valid) {
+      toast.error(`Erro no template: ${formatTemplateErrors(validation)}`)
+      return
+    }
+
+    // Clipped emails still send, so the warning does not block saving
+    const clipping = compiled.warnings.find(warning => warning.code === 'gmail_clipping')
+    if (clipping) {
+      toast.warning(formatCompileWarning(clipping, compiled.size))
+    }
+
     setIsSaving(true)
 
     try {
       const templateData = {
-        workspace_id: workspaceId,
         name: template.name,
         subject: template.subject,
         html_content: generateHTML(),
+        text_content: compiled.text,
         template_type: 'wysiwyg',
-        variables: extractVariables(),
+        variables: validation.variables,
         wysiwyg_data: {
           components: template.components,
           settings: template.settings
         }
       }
 
+      // Each save of an existing template is recorded as a new version by the database
+      if (template.id) {
+        const { data: saved, error } = await supabase
+          .from('email_templates')
+          .update({ ...templateData, updated_at: new Date().toISOString() })
+          .eq('id', template.id)
+          .eq('workspace_id', workspaceId)
+          .select()
+          .single()
+
+        if (error) {
+          console.error('Error saving template:', error)
+          toast.error('Erro ao salvar template')
+          return
+        }
+
+        setTemplate(prev => ({ ...prev, current_version: saved.current_version }))
+        toast.success(`Template salvo (versão ${saved.current_version})`)
+        return
+      }
+
       const { error } = await supabase
         .from('email_templates')
-        .insert(templateData)
+        .insert({ ...templateData, workspace_id: workspaceId })
 
       if (error) {
         console.error('Error saving template:', error)
@@ -597,104 +919,18 @@ export default function EmailEditorPage() {
   }
 
   const generateHTML = (): string => {
-    const componentHtml = template.components.map(component => generateComponentHTML(component)).join('')
-    
-    // Sanitize the generated HTML
-    const sanitizedComponentHtml = sanitizeHtml(componentHtml)
-    
+    const { html } = compiled
+
     // Validate for security issues
-    const securityIssues = validateHtmlSafety(sanitizedComponentHtml)
+    const securityIssues = validateHtmlSafety(html)
     if (securityIssues.length > 0) {
       console.warn('Security issues found in generated HTML:', securityIssues)
       toast.error('Problemas de segurança detectados no HTML gerado')
     }
-    
-    const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${template.subject.replace(/[<>]/g, '')}</title>
-  <style>
-    body { margin: 0; padding: 0; font-family: ${template.settings.fontFamily}; background-color: ${template.settings.backgroundColor}; }
-    .email-container { max-width: ${template.settings.maxWidth}; margin: 0 auto; background-color: #ffffff; }
-    .responsive-image { max-width: 100%; height: auto; }
-    @media only screen and (max-width: 600px) {
-      .email-container { max-width: 100% !important; }
-      .mobile-padding { padding: 10px !important; }
-    }
-  </style>
-</head>
-<body>
-  <div class="email-container">
-    ${sanitizedComponentHtml}
-  </div>
-</body>
-</html>`
-    return html
-  }
-
-  const generateComponentHTML = (component: EmailComponent): string => {
-    // Helper function to sanitize text content
-    const sanitizeTextContent = (text: string | undefined): string => {
-      if (!text) return ''
-      return text.replace(/[<>]/g, '').trim()
-    }
-    
-    // Helper function to sanitize URLs
-    const sanitizeUrl = (url: string | undefined): string => {
-      if (!url) return '#'
-      try {
-        const urlObj = new URL(url)
-        if (['http:', 'https:', 'mailto:', 'tel:'].includes(urlObj.protocol)) {
-          return url
-        }
-      } catch {
-        // If not a valid URL, return safe placeholder
-      }
-      return '#'
-    }
-    
-    switch (component.type) {
-      case 'heading':
-      case 'text':
-        return `<div style="font-size: ${component.content.fontSize}px; font-weight: ${component.content.fontWeight}; color: ${component.content.color}; text-align: ${component.content.textAlign}; padding: ${component.content.padding}; margin: ${component.content.margin}; background-color: ${component.content.backgroundColor || 'transparent'};">${sanitizeTextContent(component.content.text)}</div>`
 
-      case 'image':
-        return `<div style="padding: ${component.content.padding}; margin: ${component.content.margin};"><img src="${sanitizeUrl(component.content.src)}" alt="${sanitizeTextContent(component.content.alt)}" class="responsive-image" style="width: ${component.content.width}; height: ${component.content.height};" /></div>`
-
-      case 'button':
-        return `<div style="text-align: ${component.content.textAlign}; margin: ${component.content.margin};"><a href="${sanitizeUrl(component.content.href)}" style="display: inline-block; background-color: ${component.content.backgroundColor}; color: ${component.content.color}; font-size: ${component.content.fontSize}px; font-weight: ${component.content.fontWeight}; padding: ${component.content.padding}; border-radius: ${component.content.borderRadius}; text-decoration: none;">${sanitizeTextContent(component.content.text)}</a></div>`
-
-      case 'divider':
-        return `<div style="height: ${component.content.height}; background-color: ${component.content.backgroundColor}; margin: ${component.content.margin};"></div>`
-
-      case 'spacer':
-        return `<div style="height: ${component.content.height}; background-color: ${component.content.backgroundColor || 'transparent'};"></div>`
-
-      default:
-        return ''
-    }
+    return html
   }
 
-  const extractVariables = () => {
-    const variables: string[] = []
-    template.components.forEach(component => {
-      if (component.content.text) {
-        const matches = component.content.text.match(/\{\{([^}]+)\}\}/g)
-        if (matches) {
-          matches.forEach(match => {
-            const variable = match.replace(/\{\{|\}\}/g, '').trim()
-            if (!variables.includes(variable)) {
-              variables.push(variable)
-            }
-          })
-        }
-      }
-    })
-    return variables
-  }
 
   const getPreviewWidth = () => {
     switch (previewMode) {
@@ -718,8 +954,14 @@ export default function EmailEditorPage() {
                 Voltar
               </Button>
               <div>
-                <h1 className="text-xl font-bold text-gray-900">Editor WYSIWYG</h1>
-                <p className="text-sm text-gray-600">Crie templates visuais com drag-and-drop</p>
+                <h1 className="text-xl font-bold text-gray-900">
+                  {editingBlock ? `Bloco: ${editingBlock.name}` : 'Editor WYSIWYG'}
+                </h1>
+                <p className="text-sm text-gray-600">
+                  {editingBlock?.is_synced
+                    ? 'Bloco sincronizado: ao salvar, todos os templates que o usam são atualizados'
+                    : 'Crie templates visuais com drag-and-drop'}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -746,13 +988,36 @@ export default function EmailEditorPage() {
                   <Smartphone className="h-4 w-4" />
                 </Button>
               </div>
-              <Button variant="outline">
+              {!editingBlock && (
+                <Badge
+                  variant="outline"
+                  className={compiled.warnings.length > 0 ? 'text-amber-700 border-amber-300' : 'text-gray-600'}
+                  title={compiled.warnings.map(warning => formatCompileWarning(warning, compiled.size)).join('\n') || 'Tamanho do HTML'}
+                >
+                  {compiled.warnings.length > 0 && <AlertTriangle className="mr-1 h-3 w-3" />}
+                  {formatBytes(compiled.size)}
+                </Badge>
+              )}
+              <Button variant="outline" onClick={() => setPreview(renderTemplatePreview({ subject: template.subject, html: generateHTML(), text: compiled.text }))}>
                 <Eye className="mr-2 h-4 w-4" />
                 Preview
               </Button>
-              <Button onClick={saveTemplate} disabled={isSaving}>
+              {!editingBlock && !isReadOnly && (
+                <Button variant="outline" onClick={openSaveBlockDialog}>
+                  <BookmarkPlus className="mr-2 h-4 w-4" />
+                  Salvar como bloco
+                </Button>
+              )}
+              {template.id && (
+                <Button variant="outline" onClick={() => setShowHistory(true)}>
+                  <History className="mr-2 h-4 w-4" />
+                  Histórico
+                  {template.current_version ? ` (v${template.current_version})` : ''}
+                </Button>
+              )}
+              <Button onClick={editingBlock ? saveEditingBlock : saveTemplate} disabled={isSaving || isReadOnly}>
                 <Save className="mr-2 h-4 w-4" />
-                {isSaving ? 'Salvando...' : 'Salvar Template'}
+                {isSaving ? 'Salvando...' : editingBlock ? 'Salvar Bloco' : 'Salvar Template'}
               </Button>
             </div>
           </div>
@@ -763,8 +1028,9 @@ export default function EmailEditorPage() {
           <div className="w-80 bg-gray-50 border-r border-gray-200 overflow-y-auto">
             <div className="p-4">
               <Tabs defaultValue="components" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className="grid w-full grid-cols-3">
                   <TabsTrigger value="components">Componentes</TabsTrigger>
+                  <TabsTrigger value="blocks" disabled={!!editingBlock}>Blocos</TabsTrigger>
                   <TabsTrigger value="settings">Configurações</TabsTrigger>
                 </TabsList>
 
@@ -800,6 +1066,60 @@ export default function EmailEditorPage() {
                   </div>
                 </TabsContent>
 
+                <TabsContent value="blocks" className="space-y-4">
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-1">Blocos Salvos</h3>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Blocos sincronizados são inseridos como referência e atualizados em todos os templates
+                    </p>
+                    {contentBlocks.length === 0 ? (
+                      <div className="text-center py-6 text-sm text-gray-500">
+                        <Blocks className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                        Nenhum bloco salvo. Use &quot;Salvar como bloco&quot; para criar um.
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {contentBlocks.map(block => (
+                          <div
+                            key={block.id}
+                            className="bg-white border border-gray-200 rounded-lg p-3 hover:border-gray-300 transition-colors"
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <button
+                                type="button"
+                                className="text-left flex-1 min-w-0"
+                                onClick={() => insertContentBlock(block)}
+                              >
+                                <div className="font-medium text-sm truncate">{block.name}</div>
+                                <div className="flex items-center gap-1 mt-1">
+                                  <Badge variant="outline" className="text-xs">
+                                    {CONTENT_BLOCK_CATEGORIES[block.category] || block.category}
+                                  </Badge>
+                                  {block.is_synced && (
+                                    <Badge variant="secondary" className="text-xs">
+                                      <Link2 className="h-3 w-3 mr-1" />
+                                      Sincronizado
+                                    </Badge>
+                                  )}
+                                </div>
+                              </button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 w-7 p-0"
+                                title="Editar bloco"
+                                onClick={() => window.open(`/dashboard/templates/editor?block=${block.id}`, '_blank')}
+                              >
+                                <Settings className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </TabsContent>
+
                 <TabsContent value="settings" className="space-y-4">
                   <div className="space-y-4">
                     <div>
@@ -934,6 +1254,7 @@ export default function EmailEditorPage() {
                           <SortableComponent
                             key={component.id}
                             component={component}
+                            blocks={syncedBlocks}
                             onEdit={editComponent}
                             onDelete={deleteComponent}
                             onDuplicate={duplicateComponent}
@@ -964,6 +1285,202 @@ export default function EmailEditorPage() {
           </div>
         </div>
 
+        {/* Rendered Preview Dialog */}
+        <Dialog open={!!preview} onOpenChange={() => setPreview(null)}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Preview com dados de exemplo</DialogTitle>
+              <DialogDescription>
+                Variáveis, condições e filtros renderizados para um lead de exemplo
+              </DialogDescription>
+            </DialogHeader>
+            {preview && (
+              <div className="space-y-4">
+                {compiled.warnings.map(warning => (
+                  <div key={warning.code} className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 p-3 rounded">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    {formatCompileWarning(warning, compiled.size)}
+                  </div>
+                ))}
+                {preview.validation.errors.length > 0 && (
+                  <div className="text-sm text-red-700 bg-red-50 p-3 rounded">
+                    {preview.validation.errors.map(error => (
+                      <p key={`${error.field}-${error.line}`}>{error.message}</p>
+                    ))}
+                  </div>
+                )}
+                {preview.validation.unknownVariables.length > 0 && (
+                  <div>
+                    <Label className="text-sm font-medium">Variáveis desconhecidas:</Label>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {preview.validation.unknownVariables.map(variable => (
+                        <Badge key={variable} variant="outline" className="text-amber-700 border-amber-300">
+                          {variable}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Ficarão vazias a menos que o lead tenha um campo personalizado com esse nome
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <Label className="text-sm font-medium">Assunto:</Label>
+                  <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded">
+                    {preview.content.subject}
+                  </p>
+                </div>
+                <SanitizedTemplateHtml
+                  html={preview.content.html}
+                  className="border rounded-lg bg-white min-h-[400px] overflow-auto"
+                />
+                {preview.content.text && (
+                  <div>
+                    <Label className="text-sm font-medium">Versão em texto simples:</Label>
+                    <pre className="text-sm text-gray-700 bg-gray-50 p-3 rounded whitespace-pre-wrap font-sans">
+                      {preview.content.text}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Save As Block Dialog */}
+        <Dialog open={!!saveBlockDialog} onOpenChange={() => setSaveBlockDialog(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Salvar como bloco</DialogTitle>
+              <DialogDescription>
+                Reutilize cabeçalhos, rodapés, cards de produto e redes sociais em qualquer template
+              </DialogDescription>
+            </DialogHeader>
+            {saveBlockDialog && (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="block-name">Nome do bloco</Label>
+                  <Input
+                    id="block-name"
+                    value={saveBlockDialog.name}
+                    onChange={(e) => setSaveBlockDialog({ ...saveBlockDialog, name: e.target.value })}
+                    placeholder="Ex: Rodapé da marca"
+                  />
+                </div>
+                <div>
+                  <Label>Categoria</Label>
+                  <Select
+                    value={saveBlockDialog.category}
+                    onValueChange={(value) => setSaveBlockDialog({ ...saveBlockDialog, category: value as ContentBlockCategory })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONTENT_BLOCK_CATEGORIES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Componentes</Label>
+                  <div className="space-y-2 mt-2 max-h-48 overflow-y-auto border rounded p-2">
+                    {template.components.filter(c => c.type !== 'synced_block').map(component => (
+                      <label key={component.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={saveBlockDialog.componentIds.includes(component.id)}
+                          onCheckedChange={(checked) => setSaveBlockDialog({
+                            ...saveBlockDialog,
+                            componentIds: checked
+                              ? [...saveBlockDialog.componentIds, component.id]
+                              : saveBlockDialog.componentIds.filter(id => id !== component.id)
+                          })}
+                        />
+                        <span className="truncate">
+                          {COMPONENT_TYPES.find(type => type.id === component.type)?.name || component.type}
+                          {component.content.text ? `: ${component.content.text}` : ''}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <Label htmlFor="block-synced">Bloco sincronizado</Label>
+                    <p className="text-xs text-gray-500">
+                      Editar o bloco atualiza todos os templates que o usam. Os componentes selecionados passam a referenciar o bloco.
+                    </p>
+                  </div>
+                  <Switch
+                    id="block-synced"
+                    checked={saveBlockDialog.isSynced}
+                    onCheckedChange={(checked) => setSaveBlockDialog({ ...saveBlockDialog, isSynced: checked })}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSaveBlockDialog(null)}>
+                Cancelar
+              </Button>
+              <Button onClick={saveContentBlock}>
+                Salvar bloco
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Synced Block Dialog */}
+        <Dialog open={!!syncedBlockAction} onOpenChange={() => setSyncedBlockAction(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Bloco sincronizado</DialogTitle>
+              <DialogDescription>
+                &quot;{syncedBlockAction?.content.blockName}&quot; é compartilhado entre templates. Edite o bloco original para
+                atualizar todos, ou desvincule para editar apenas neste template.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => syncedBlockAction && detachSyncedBlock(syncedBlockAction)}
+              >
+                <Unlink className="mr-2 h-4 w-4" />
+                Desvincular
+              </Button>
+              <Button
+                onClick={() => {
+                  window.open(`/dashboard/templates/editor?block=${syncedBlockAction?.content.blockId}`, '_blank')
+                  setSyncedBlockAction(null)
+                }}
+              >
+                <Link2 className="mr-2 h-4 w-4" />
+                Editar bloco original
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Version History Dialog */}
+        <Dialog open={showHistory} onOpenChange={setShowHistory}>
+          <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Histórico de versões</DialogTitle>
+              <DialogDescription>
+                Cada salvamento gera uma versão imutável. Compare versões e restaure qualquer uma delas.
+              </DialogDescription>
+            </DialogHeader>
+            {template.id && (
+              <TemplateVersionHistory
+                templateId={template.id}
+                currentVersion={template.current_version}
+                onRestored={applySavedTemplate}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Component Edit Dialog */}
         <Dialog open={!!editingComponent} onOpenChange={() => setEditingComponent(null)}>
           <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -1021,7 +1538,7 @@ function ComponentEditor({ component, onUpdate, onCancel }: ComponentEditorProps
               placeholder="Digite seu texto aqui..."
             />
             <p className="text-xs text-gray-500 mt-1">
-              Use {'{{variavel}}'} para personalização dinâmica
+              Use {'{{ variavel }}'}, {'{{ variavel | default: "valor" }}'} ou {'{% if variavel %}...{% endif %}'} para personalização dinâmica
             </p>
           </div>
           <div className="grid grid-cols-2 gap-4">
@@ -39,13 +39,23 @@ import {
   Palette,
   Code,
   Send,
+  Upload,
+  Download,
 } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import Link from 'next/link'
 import { toast } from 'sonner'
 import { formatDistanceToNow } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
 import AIEmailGenerator from '@/components/ai/AIEmailGenerator'
+import TemplateImportDialog from '@/components/templates/TemplateImportDialog'
 import { SanitizedTemplateHtml } from '@/components/ui/sanitized-html'
+import { renderTemplatePreview } from '@/lib/templates/email-template'
 import { validateAndSanitize, emailTemplateSchema } from '@/lib/validation'
 
 interface EmailTemplate {
@@ -173,6 +183,7 @@ export default function TemplatesPage() {
   const [workspaceId, setWorkspaceId] = useState<string | null>(null)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [previewTemplate, setPreviewTemplate] = useState<EmailTemplate | null>(null)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
 
   // Form states
   const [formData, setFormData] = useState({
@@ -381,6 +392,11 @@ export default function TemplatesPage() {
     }
   }
 
+  // The export route answers with the file, so a plain navigation triggers the download
+  const handleExportTemplate = (templateId: string, format: 'html' | 'mjml' | 'zip') => {
+    window.location.href = `/api/templates/export?template_id=${templateId}&format=${format}`
+  }
+
   const resetForm = () => {
     setFormData({
       name: '',
@@ -406,6 +422,7 @@ export default function TemplatesPage() {
       case 'campaign': return 'Campanha'
       case 'transactional': return 'Transacional'
       case 'automation': return 'Automação'
+      case 'wysiwyg': return 'Visual'
       default: return type
     }
   }
@@ -427,6 +444,11 @@ export default function TemplatesPage() {
     )
   }
 
+  // Rendered for a sample lead so conditions and filters show their output
+  const preview = previewTemplate
+    ? renderTemplatePreview({ subject: previewTemplate.subject, html: previewTemplate.html_content })
+    : null
+
   return (
     <DashboardLayout>
       <div className="p-6 space-y-6">
@@ -448,6 +470,10 @@ export default function TemplatesPage() {
                 setIsCreateDialogOpen(true)
               }}
             />
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Importar
+            </Button>
             <Button asChild className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600">
               <Link href="/dashboard/templates/editor">
                 <Layout className="mr-2 h-4 w-4" />
@@ -660,6 +686,24 @@ export default function TemplatesPage() {
                         >
                           <Edit className="h-3 w-3" />
                         </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button size="sm" variant="outline" title="Exportar">
+                              <Download className="h-3 w-3" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleExportTemplate(template.id, 'html')}>
+                              HTML
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleExportTemplate(template.id, 'mjml')}>
+                              MJML
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleExportTemplate(template.id, 'zip')}>
+                              ZIP (HTML + imagens)
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                         <Button
                           size="sm"
                           variant="outline"
@@ -700,6 +744,12 @@ export default function TemplatesPage() {
           </Card>
         )}
 
+        <TemplateImportDialog
+          open={isImportDialogOpen}
+          onOpenChange={setIsImportDialogOpen}
+          onImported={loadTemplates}
+        />
+
         {/* Preview Dialog */}
         <Dialog open={!!previewTemplate} onOpenChange={() => setPreviewTemplate(null)}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -709,12 +759,20 @@ export default function TemplatesPage() {
                 Visualização do template de email
               </DialogDescription>
             </DialogHeader>
-            {previewTemplate && (
+            {previewTemplate && preview && (
               <div className="space-y-4">
+                {preview.validation.errors.length > 0 && (
+                  <div className="text-sm text-red-700 bg-red-50 p-3 rounded">
+                    {preview.validation.errors.map(error => (
+                      <p key={`${error.field}-${error.line}`}>{error.message}</p>
+                    ))}
+                  </div>
+                )}
+
                 <div>
                   <Label className="text-sm font-medium">Assunto:</Label>
                   <p className="text-sm text-gray-700 bg-gray-50 p-2 rounded">
-                    {previewTemplate.subject}
+                    {preview.content.subject}
                   </p>
                 </div>
 
@@ -732,7 +790,7 @@ export default function TemplatesPage() {
                 <div>
                   <Label className="text-sm font-medium">Preview HTML:</Label>
                   <SanitizedTemplateHtml
-                    html={previewTemplate.html_content}
+                    html={preview.content.html}
                     className="border rounded-lg p-4 bg-white min-h-[400px] overflow-auto"
                   />
                 </div>
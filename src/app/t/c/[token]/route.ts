@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { verifyClickToken } from '@/lib/tracking/tracking-tokens'
+import { trackingService } from '@/lib/tracking/tracking-service'
+import { getClientIp, getClientTimezone } from '@/lib/tracking/machine-detection'
+
+// Click redirect: records the click, then sends the recipient to the signed destination
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  const { token } = await context.params
+  const payload = verifyClickToken(token)
+
+  if (!payload) {
+    return NextResponse.json({ error: 'Link inválido ou expirado' }, { status: 404 })
+  }
+
+  try {
+    await trackingService.recordClick(payload, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIp(request.headers),
+      referer: request.headers.get('referer'),
+      timezone: getClientTimezone(request.headers)
+    })
+  } catch (error) {
+    logger.error('Error recording link click', {
+      metadata: { sendId: payload.sendId, position: payload.position }
+    }, error as Error)
+  }
+
+  return NextResponse.redirect(payload.url, {
+    status: 302,
+    headers: {
+      'Cache-Control': 'no-store, private',
+      'Referrer-Policy': 'no-referrer'
+    }
+  })
+}
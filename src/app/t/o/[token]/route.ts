@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { verifyOpenToken } from '@/lib/tracking/tracking-tokens'
+import { trackingService } from '@/lib/tracking/tracking-service'
+import { getClientIp } from '@/lib/tracking/machine-detection'
+
+// Tracking pixel: always answers with the GIF so broken tokens never show as a broken image
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  const { token } = await context.params
+  const payload = verifyOpenToken(token)
+
+  if (payload) {
+    try {
+      await trackingService.recordOpen(payload, {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: getClientIp(request.headers)
+      })
+    } catch (error) {
+      logger.error('Error recording email open', { metadata: { sendId: payload.sendId } }, error as Error)
+    }
+  }
+
+  return new NextResponse(new Uint8Array(trackingService.getPixel()), {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    }
+  })
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { MailX, MailCheck, Settings, AlertCircle } from 'lucide-react'
+
+interface PreferenceCenter {
+  workspace_name: string
+  email: string
+  status: string
+}
+
+export default function UnsubscribePage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [preferences, setPreferences] = useState<PreferenceCenter | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadPreferences()
+  }, [token])
+
+  const loadPreferences = async () => {
+    try {
+      const response = await fetch(`/api/unsubscribe/${encodeURIComponent(token)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Não foi possível carregar suas preferências')
+        return
+      }
+
+      setPreferences(data.preferences)
+    } catch (err) {
+      console.error('Error loading preferences:', err)
+      setError('Não foi possível carregar suas preferências')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateSubscription = async (action: 'unsubscribe' | 'resubscribe') => {
+    setSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/unsubscribe/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Não foi possível atualizar sua inscrição')
+        return
+      }
+
+      setPreferences(data.preferences)
+    } catch (err) {
+      console.error('Error updating subscription:', err)
+      setError('Não foi possível atualizar sua inscrição')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    )
+  }
+
+  const isUnsubscribed = preferences?.status === 'unsubscribed'
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        {error || !preferences ? (
+          <CardHeader className="text-center">
+            <AlertCircle className="mx-auto h-10 w-10 text-red-500 mb-2" />
+            <CardTitle>Link inválido</CardTitle>
+            <CardDescription>{error || 'Este link de descadastro não é válido.'}</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              {isUnsubscribed ? (
+                <MailCheck className="mx-auto h-10 w-10 text-green-500 mb-2" />
+              ) : (
+                <MailX className="mx-auto h-10 w-10 text-purple-600 mb-2" />
+              )}
+              <CardTitle>
+                {isUnsubscribed ? 'Descadastro confirmado' : 'Cancelar inscrição'}
+              </CardTitle>
+              <CardDescription>
+                {isUnsubscribed
+                  ? `${preferences.email} não receberá mais emails de ${preferences.workspace_name || 'nossa lista'}.`
+                  : `Deseja parar de receber emails de ${preferences.workspace_name || 'nossa lista'} em ${preferences.email}?`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isUnsubscribed ? (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={submitting}
+                  onClick={() => updateSubscription('resubscribe')}
+                >
+                  Cancelei por engano, quero continuar recebendo
+                </Button>
+              ) : (
+                <Button
+                  className="w-full"
+                  disabled={submitting}
+                  onClick={() => updateSubscription('unsubscribe')}
+                >
+                  {submitting ? 'Processando...' : 'Confirmar descadastro'}
+                </Button>
+              )}
+              <Link href={`/u/${encodeURIComponent(token)}/preferences`} className="block">
+                <Button variant="ghost" className="w-full">
+                  <Settings className="mr-2 h-4 w-4" />
+                  Escolher quais assuntos receber
+                </Button>
+              </Link>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
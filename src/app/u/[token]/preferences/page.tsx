@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { AlertCircle, CheckCircle } from 'lucide-react'
+
+interface PreferenceTopic {
+  id: string
+  name: string
+  description: string | null
+  subscribed: boolean
+}
+
+interface PreferenceCenter {
+  workspace_name: string
+  email: string
+  status: string
+  topics: PreferenceTopic[]
+}
+
+export default function PreferencesPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [preferences, setPreferences] = useState<PreferenceCenter | null>(null)
+  const [selectedTopics, setSelectedTopics] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadPreferences()
+  }, [token])
+
+  const applyPreferences = (data: PreferenceCenter) => {
+    setPreferences(data)
+    setSelectedTopics(new Set(data.topics.filter(topic => topic.subscribed).map(topic => topic.id)))
+  }
+
+  const loadPreferences = async () => {
+    try {
+      const response = await fetch(`/api/unsubscribe/${encodeURIComponent(token)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Não foi possível carregar suas preferências')
+        return
+      }
+
+      applyPreferences(data.preferences)
+    } catch (err) {
+      console.error('Error loading preferences:', err)
+      setError('Não foi possível carregar suas preferências')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleTopic = (topicId: string, checked: boolean) => {
+    setSaved(false)
+    setSelectedTopics(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(topicId)
+      } else {
+        next.delete(topicId)
+      }
+      return next
+    })
+  }
+
+  const postAction = async (body: Record<string, any>) => {
+    setSaving(true)
+    setSaved(false)
+
+    try {
+      const response = await fetch(`/api/unsubscribe/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Não foi possível salvar suas preferências')
+        return
+      }
+
+      applyPreferences(data.preferences)
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving preferences:', err)
+      setError('Não foi possível salvar suas preferências')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    )
+  }
+
+  if (error || !preferences) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <AlertCircle className="mx-auto h-10 w-10 text-red-500 mb-2" />
+            <CardTitle>Link inválido</CardTitle>
+            <CardDescription>{error || 'Este link de preferências não é válido.'}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  const isUnsubscribed = preferences.status === 'unsubscribed'
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Preferências de email</CardTitle>
+          <CardDescription>
+            Escolha quais emails de {preferences.workspace_name || 'nossa lista'} você quer receber em {preferences.email}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isUnsubscribed ? (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+              Você está descadastrado de todos os emails.
+              <Button
+                variant="link"
+                className="px-1 h-auto"
+                disabled={saving}
+                onClick={() => postAction({ action: 'resubscribe' })}
+              >
+                Reativar inscrição
+              </Button>
+            </div>
+          ) : preferences.topics.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Não há assuntos configurados. Você pode cancelar todos os emails abaixo.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {preferences.topics.map(topic => (
+                <div key={topic.id} className="flex items-start space-x-3">
+                  <Checkbox
+                    id={`topic-${topic.id}`}
+                    checked={selectedTopics.has(topic.id)}
+                    onCheckedChange={(checked) => toggleTopic(topic.id, checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={`topic-${topic.id}`} className="font-medium">
+                      {topic.name}
+                    </Label>
+                    {topic.description && (
+                      <p className="text-sm text-gray-500">{topic.description}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {saved && (
+            <div className="flex items-center text-sm text-green-600">
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Preferências salvas
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            {!isUnsubscribed && preferences.topics.length > 0 && (
+              <Button
+                disabled={saving}
+                onClick={() => postAction({ action: 'update_preferences', topic_ids: Array.from(selectedTopics) })}
+              >
+                {saving ? 'Salvando...' : 'Salvar preferências'}
+              </Button>
+            )}
+            {!isUnsubscribed && (
+              <Button
+                variant="outline"
+                disabled={saving}
+                onClick={() => postAction({ action: 'unsubscribe' })}
+              >
+                Cancelar todos os emails
+              </Button>
+            )}
+            <Link href={`/u/${encodeURIComponent(token)}`} className="text-center text-sm text-gray-500 hover:underline">
+              Voltar
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import type { StepAnalytics } from '@/lib/automation/step-analytics'
+
+interface AutomationFunnelChartProps {
+  steps: StepAnalytics[]
+}
+
+export default function AutomationFunnelChart({ steps }: AutomationFunnelChartProps) {
+  // Leads that went past a step are the ones that entered it minus those still there or that left there
+  const data = steps.map((step, index) => ({
+    step: `${index + 1}. ${step.name}`,
+    advanced: Math.max(step.entered - step.waiting - step.exited, 0),
+    waiting: step.waiting,
+    exited: step.exited,
+    entered: step.entered,
+    conversions: step.conversions
+  }))
+
+  const formatTooltipValue = (value: number, name: string) => {
+    const labels: { [key: string]: string } = {
+      advanced: 'Avançaram',
+      waiting: 'Aguardando',
+      exited: 'Saíram aqui'
+    }
+    return [value.toLocaleString(), labels[name] || name]
+  }
+
+  const formatTooltipLabel = (label: string) => {
+    const step = data.find(d => d.step === label)
+    return `${label} (${step?.entered.toLocaleString()} entraram, ${step?.conversions.toLocaleString()} conversões)`
+  }
+
+  const formatLegend = (value: string) => {
+    const labels: { [key: string]: string } = {
+      advanced: 'Avançaram',
+      waiting: 'Aguardando',
+      exited: 'Saíram aqui'
+    }
+    return labels[value] || value
+  }
+
+  return (
+    <div style={{ height: Math.max(steps.length * 48, 160) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={data}
+          layout="vertical"
+          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            type="number"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fontSize: 12 }}
+            allowDecimals={false}
+          />
+          <YAxis
+            type="category"
+            dataKey="step"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fontSize: 12 }}
+            width={180}
+          />
+          <Tooltip
+            formatter={formatTooltipValue}
+            labelFormatter={formatTooltipLabel}
+            contentStyle={{
+              backgroundColor: 'white',
+              border: '1px solid #e2e8f0',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+          <Legend formatter={formatLegend} />
+          <Bar dataKey="advanced" stackId="funnel" fill="#3b82f6" />
+          <Bar dataKey="waiting" stackId="funnel" fill="#f59e0b" />
+          <Bar dataKey="exited" stackId="funnel" fill="#ef4444" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -42,7 +42,7 @@ interface StepExecution {
   id: string
   step_id: string
   step_type: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'waiting' | 'skipped'
   executed_at: string
   completed_at?: string
   result_data: any
@@ -105,6 +105,10 @@ export default function AutomationRunStatus({ runId, onRefresh }: AutomationRunS
         return <XCircle className="h-4 w-4 text-red-500" />
       case 'cancelled':
         return <Pause className="h-4 w-4 text-gray-500" />
+      case 'waiting':
+        return <Clock className="h-4 w-4 text-blue-500" />
+      case 'skipped':
+        return <AlertCircle className="h-4 w-4 text-yellow-500" />
       default:
         return <AlertCircle className="h-4 w-4 text-gray-500" />
     }
@@ -116,7 +120,9 @@ export default function AutomationRunStatus({ runId, onRefresh }: AutomationRunS
       running: 'default',
       completed: 'default',
       failed: 'destructive',
-      cancelled: 'secondary'
+      cancelled: 'secondary',
+      waiting: 'secondary',
+      skipped: 'secondary'
     }
 
     const labels: { [key: string]: string } = {
@@ -124,7 +130,9 @@ export default function AutomationRunStatus({ runId, onRefresh }: AutomationRunS
       running: 'Executando',
       completed: 'Concluída',
       failed: 'Falhou',
-      cancelled: 'Cancelada'
+      cancelled: 'Cancelada',
+      waiting: 'Em espera',
+      skipped: 'Ignorada'
     }
 
     return (
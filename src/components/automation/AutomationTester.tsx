@@ -17,10 +17,12 @@ import {
   AlertCircle,
   Users,
   Mail,
-  Eye
+  Eye,
+  FlaskConical
 } from 'lucide-react'
 import { toast } from 'sonner'
 import AutomationRunStatus from './AutomationRunStatus'
+import type { DryRunLeadResult, DryRunWaitOutcome } from '@/lib/automation/dry-run'
 
 interface AutomationTesterProps {
   automationId: string
@@ -43,6 +45,59 @@ export default function AutomationTester({ automationId, automationName, leads =
     error?: string
   } | null>(null)
   const [showRunStatus, setShowRunStatus] = useState(false)
+  const [simulating, setSimulating] = useState(false)
+  const [waitOutcome, setWaitOutcome] = useState<DryRunWaitOutcome>('timeout')
+  const [simulation, setSimulation] = useState<DryRunLeadResult | null>(null)
+
+  const parseTriggerData = () => {
+    if (!customTriggerData.trim()) {
+      return {}
+    }
+
+    try {
+      return JSON.parse(customTriggerData)
+    } catch (error) {
+      throw new Error('Dados de trigger inválidos (JSON)')
+    }
+  }
+
+  // Runs the draft (or the published flow) without sending anything
+  const simulateTest = async () => {
+    if (!selectedLeadId) {
+      toast.error('Selecione um lead para simular')
+      return
+    }
+
+    setSimulating(true)
+    setSimulation(null)
+
+    try {
+      const response = await fetch('/api/automation/dry-run', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          automation_id: automationId,
+          lead_id: selectedLeadId,
+          wait_outcome: waitOutcome,
+          trigger_data: parseTriggerData()
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Erro ao simular automação')
+      }
+
+      setSimulation(result.leads[0] || null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Erro desconhecido')
+    } finally {
+      setSimulating(false)
+    }
+  }
 
   const executeTest = async () => {
     if (!selectedLeadId) {
@@ -54,15 +109,7 @@ export default function AutomationTester({ automationId, automationName, leads =
     setTestResult(null)
 
     try {
-      // Parse trigger data
-      let triggerData = {}
-      if (customTriggerData.trim()) {
-        try {
-          triggerData = JSON.parse(customTriggerData)
-        } catch (error) {
-          throw new Error('Dados de trigger inválidos (JSON)')
-        }
-      }
+      const triggerData = parseTriggerData()
 
       const response = await fetch('/api/automation/execute', {
         method: 'POST',
@@ -172,24 +219,56 @@ export default function AutomationTester({ automationId, automationName, leads =
             </p>
           </div>
 
-          {/* Test Button */}
-          <Button 
-            onClick={executeTest}
-            disabled={testing || !selectedLeadId}
-            className="w-full"
-          >
-            {testing ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Executando Teste...
-              </>
-            ) : (
-              <>
-                <Play className="h-4 w-4 mr-2" />
-                Executar Teste
-              </>
-            )}
-          </Button>
+          {/* Simulated waits */}
+          <div className="space-y-3">
+            <Label>Na simulação, esperas por abertura ou clique</Label>
+            <Select value={waitOutcome} onValueChange={(value) => setWaitOutcome(value as DryRunWaitOutcome)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="timeout">Expiram sem interação</SelectItem>
+                <SelectItem value="event">Recebem a interação na hora</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Test Buttons */}
+          <div className="grid grid-cols-2 gap-3">
+            <Button
+              variant="outline"
+              onClick={simulateTest}
+              disabled={simulating || !selectedLeadId}
+            >
+              {simulating ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Simulando...
+                </>
+              ) : (
+                <>
+                  <FlaskConical className="h-4 w-4 mr-2" />
+                  Simular sem Enviar
+                </>
+              )}
+            </Button>
+            <Button 
+              onClick={executeTest}
+              disabled={testing || !selectedLeadId}
+            >
+              {testing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Executando Teste...
+                </>
+              ) : (
+                <>
+                  <Play className="h-4 w-4 mr-2" />
+                  Executar Teste
+                </>
+              )}
+            </Button>
+          </div>
 
           {/* Test Result */}
           {testResult && (
@@ -235,6 +314,59 @@ export default function AutomationTester({ automationId, automationName, leads =
         </CardContent>
       </Card>
 
+      {/* Simulation */}
+      {simulation && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5 text-purple-500" />
+              Caminho Simulado
+              <Badge variant="outline">{simulation.outcome}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {simulation.error && (
+              <p className="text-sm text-red-600">{simulation.error}</p>
+            )}
+            <div className="space-y-2">
+              {simulation.path.map((entry, index) => (
+                <div key={`${entry.step_id}-${index}`} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium">{entry.step_index + 1}. {entry.step_name}</div>
+                    <div className="text-gray-500">
+                      {new Date(entry.at).toLocaleString('pt-BR')}
+                      {entry.wait_until && ` → aguarda até ${new Date(entry.wait_until).toLocaleString('pt-BR')}`}
+                    </div>
+                  </div>
+                  <Badge variant={entry.status === 'failed' ? 'destructive' : 'secondary'}>{entry.status}</Badge>
+                </div>
+              ))}
+            </div>
+
+            {simulation.emails.length > 0 && (
+              <div className="space-y-2">
+                <Label>Emails que seriam enviados</Label>
+                {simulation.emails.map((email, index) => (
+                  <details key={`${email.step_id}-${index}`} className="border rounded-lg p-3 text-sm">
+                    <summary className="cursor-pointer flex items-center gap-2">
+                      <Mail className="h-4 w-4" />
+                      {email.subject}
+                      <span className="text-gray-500">· {new Date(email.at).toLocaleString('pt-BR')}</span>
+                    </summary>
+                    <iframe
+                      title={email.subject}
+                      srcDoc={email.html}
+                      sandbox=""
+                      className="mt-3 w-full h-96 border rounded"
+                    />
+                  </details>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Run Status */}
       {showRunStatus && testResult?.success && testResult.run && (
         <AutomationRunStatus 
@@ -279,7 +411,7 @@ export default function AutomationTester({ automationId, automationName, leads =
             <div className="flex items-start gap-2">
               <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
               <div>
-                <strong>Emails:</strong> Emails de teste são enviados normalmente - use leads internos
+                <strong>Emails:</strong> Emails de teste são enviados normalmente - use leads internos ou a simulação, que não envia nada
               </div>
             </div>
           </div>
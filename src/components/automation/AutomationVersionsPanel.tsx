@@ -0,0 +1,287 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createSupabaseClient } from '@/lib/supabase'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { GitCommit, Send } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatDistanceToNow } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+
+interface VersionSummary {
+  id: string
+  version_number: number
+  published_at: string
+  step_count: number
+  active_runs: number
+}
+
+interface FlowStep {
+  id: string
+  name: string
+  type: string
+}
+
+// Migration choices for one older version with runs in flight
+interface MigrationDraft {
+  enabled: boolean
+  steps: FlowStep[]
+  step_mapping: Record<string, string>
+}
+
+interface AutomationVersionsPanelProps {
+  automationId: string
+  currentVersionId?: string | null
+  // Steps of the unpublished draft, if there is one
+  draftSteps?: FlowStep[] | null
+  onPublished: () => void
+}
+
+// Select value for steps whose runs stay on their version
+const KEEP_ON_VERSION = 'keep'
+
+export default function AutomationVersionsPanel({
+  automationId,
+  currentVersionId,
+  draftSteps,
+  onPublished
+}: AutomationVersionsPanelProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [publishOpen, setPublishOpen] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [migrations, setMigrations] = useState<Record<string, MigrationDraft>>({})
+  const supabase = createSupabaseClient()
+
+  const loadVersions = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/automation/flows/${automationId}/versions`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Erro ao carregar versões')
+        return
+      }
+
+      setVersions(result.versions || [])
+    } catch (error) {
+      console.error('Error loading automation versions:', error)
+      toast.error('Erro ao carregar versões')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [automationId, currentVersionId])
+
+  // Steps keep their id across versions, so each step maps onto itself when it still exists
+  const openPublishDialog = async () => {
+    const withRuns = versions.filter(version => version.active_runs > 0)
+    const next: Record<string, MigrationDraft> = {}
+
+    if (withRuns.length > 0) {
+      const { data, error } = await supabase
+        .from('automation_flow_versions')
+        .select('id, flow_definition')
+        .in('id', withRuns.map(version => version.id))
+
+      if (error) {
+        toast.error('Erro ao carregar etapas das versões')
+        return
+      }
+
+      for (const version of data || []) {
+        const steps: FlowStep[] = version.flow_definition?.steps || []
+        next[version.id] = {
+          enabled: false,
+          steps,
+          step_mapping: Object.fromEntries(
+            steps
+              .filter(step => draftSteps?.some(target => target.id === step.id))
+              .map(step => [step.id, step.id])
+          )
+        }
+      }
+    }
+
+    setMigrations(next)
+    setPublishOpen(true)
+  }
+
+  const updateMapping = (versionId: string, stepId: string, targetId: string) => {
+    setMigrations(prev => {
+      const mapping = { ...prev[versionId].step_mapping }
+      if (targetId === KEEP_ON_VERSION) {
+        delete mapping[stepId]
+      } else {
+        mapping[stepId] = targetId
+      }
+      return { ...prev, [versionId]: { ...prev[versionId], step_mapping: mapping } }
+    })
+  }
+
+  const handlePublish = async () => {
+    setPublishing(true)
+    try {
+      const response = await fetch(`/api/automation/flows/${automationId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          migrations: Object.entries(migrations)
+            .filter(([, migration]) => migration.enabled)
+            .map(([versionId, migration]) => ({
+              from_version_id: versionId,
+              step_mapping: migration.step_mapping
+            }))
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Erro ao publicar versão')
+        return
+      }
+
+      toast.success(
+        result.migrated_runs > 0
+          ? `Versão ${result.version.version_number} publicada, ${result.migrated_runs} execuções migradas`
+          : `Versão ${result.version.version_number} publicada`
+      )
+      setPublishOpen(false)
+      onPublished()
+    } catch (error) {
+      console.error('Error publishing automation version:', error)
+      toast.error('Erro inesperado ao publicar versão')
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const versionNumber = (id: string) => versions.find(version => version.id === id)?.version_number
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Versões</CardTitle>
+          <Button onClick={openPublishDialog} disabled={!draftSteps || loading}>
+            <Send className="mr-2 h-4 w-4" />
+            Publicar Rascunho
+          </Button>
+        </div>
+        <p className="text-sm text-gray-600">
+          {draftSteps
+            ? `Há um rascunho não publicado com ${draftSteps.length} etapas`
+            : 'Edite a automação para criar um rascunho'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">Carregando versões...</div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">Nenhuma versão publicada</div>
+        ) : (
+          <div className="space-y-3">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <GitCommit className="h-4 w-4 text-gray-500" />
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Versão {version.version_number}</span>
+                      {version.id === currentVersionId && <Badge>Atual</Badge>}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {version.step_count} etapas · publicada{' '}
+                      {formatDistanceToNow(new Date(version.published_at), { addSuffix: true, locale: ptBR })}
+                    </div>
+                  </div>
+                </div>
+                <Badge variant="outline">{version.active_runs} em andamento</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={publishOpen} onOpenChange={setPublishOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Publicar rascunho</DialogTitle>
+            <DialogDescription>
+              Novas execuções usam a nova versão. Execuções em andamento continuam na versão em que começaram,
+              a menos que você as migre abaixo.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+            {Object.keys(migrations).length === 0 && (
+              <p className="text-sm text-gray-500">Nenhuma execução em andamento para migrar</p>
+            )}
+            {Object.entries(migrations).map(([versionId, migration]) => (
+              <div key={versionId} className="space-y-3 border rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <Label>Migrar execuções da versão {versionNumber(versionId)}</Label>
+                  <Switch
+                    checked={migration.enabled}
+                    onCheckedChange={(enabled) => setMigrations(prev => ({
+                      ...prev,
+                      [versionId]: { ...prev[versionId], enabled }
+                    }))}
+                  />
+                </div>
+                {migration.enabled && migration.steps.map(step => (
+                  <div key={step.id} className="grid grid-cols-2 gap-2 items-center">
+                    <span className="text-sm">{step.name}</span>
+                    <Select
+                      value={migration.step_mapping[step.id] || KEEP_ON_VERSION}
+                      onValueChange={(value) => updateMapping(versionId, step.id, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={KEEP_ON_VERSION}>Manter na versão {versionNumber(versionId)}</SelectItem>
+                        {draftSteps?.map((target, index) => (
+                          <SelectItem key={target.id} value={target.id}>
+                            {index + 1}. {target.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPublishOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handlePublish} disabled={publishing}>
+              {publishing ? 'Publicando...' : 'Publicar'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,339 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createSupabaseClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { toast } from 'sonner'
+
+type EnrollmentAction = 'enroll' | 'cancel'
+// 'all' only applies to cancelling: every active run of the flow
+type SourceType = 'segment' | 'list' | 'csv' | 'all'
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface OperationProgress {
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  progress: number
+  totalItems: number
+  processedItems: number
+  failedItems: number
+  metadata?: {
+    succeeded?: number
+    skipped?: number
+    not_found?: number
+  }
+}
+
+interface BulkEnrollmentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Flow of the automation page; otherwise the user picks one
+  automationId?: string
+  // Leads selected on the leads page; otherwise a segment, list or CSV is used
+  leadIds?: string[]
+  onFinished?: () => void
+}
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled']
+const POLL_INTERVAL_MS = 2000
+
+export default function BulkEnrollmentDialog({
+  open,
+  onOpenChange,
+  automationId,
+  leadIds,
+  onFinished
+}: BulkEnrollmentDialogProps) {
+  const [action, setAction] = useState<EnrollmentAction>('enroll')
+  const [sourceType, setSourceType] = useState<SourceType>('segment')
+  const [selectedAutomation, setSelectedAutomation] = useState(automationId || '')
+  const [segmentId, setSegmentId] = useState('')
+  const [listId, setListId] = useState('')
+  const [csv, setCsv] = useState('')
+  const [automations, setAutomations] = useState<Option[]>([])
+  const [segments, setSegments] = useState<Option[]>([])
+  const [lists, setLists] = useState<Option[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [operationId, setOperationId] = useState<string | null>(null)
+  const [operation, setOperation] = useState<OperationProgress | null>(null)
+  const supabase = createSupabaseClient()
+
+  const hasSelection = !!leadIds && leadIds.length > 0
+  const targetAutomation = automationId || selectedAutomation
+
+  useEffect(() => {
+    if (!open) return
+
+    setOperationId(null)
+    setOperation(null)
+    setSelectedAutomation(automationId || '')
+    loadOptions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open])
+
+  // Poll the operation until its batches are done
+  useEffect(() => {
+    if (!operationId || !targetAutomation) return
+
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/automation/flows/${targetAutomation}/enrollments?operation_id=${operationId}`)
+        const result = await response.json()
+
+        if (!response.ok) {
+          clearInterval(interval)
+          toast.error(result.error || 'Erro ao acompanhar operação')
+          return
+        }
+
+        setOperation(result.progress)
+
+        if (FINISHED_STATUSES.includes(result.progress.status)) {
+          clearInterval(interval)
+          onFinished?.()
+        }
+      } catch (error) {
+        console.error('Error polling enrollment progress:', error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [operationId, targetAutomation])
+
+  const loadOptions = async () => {
+    const [automationsResult, segmentsResult, listsResult] = await Promise.all([
+      automationId
+        ? Promise.resolve({ data: [], error: null })
+        : supabase.from('automation_flows').select('id, name').eq('status', 'active').order('name'),
+      supabase.from('lead_segments').select('id, name').order('name'),
+      supabase.from('lists').select('id, name').order('name')
+    ])
+
+    if (automationsResult.error || segmentsResult.error || listsResult.error) {
+      toast.error('Erro ao carregar opções')
+      return
+    }
+
+    setAutomations(automationsResult.data || [])
+    setSegments(segmentsResult.data || [])
+    setLists(listsResult.data || [])
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setCsv(await file.text())
+  }
+
+  const buildSource = () => {
+    if (hasSelection) return { type: 'leads', lead_ids: leadIds }
+
+    switch (sourceType) {
+      case 'segment':
+        return segmentId ? { type: 'segment', segment_id: segmentId } : null
+      case 'list':
+        return listId ? { type: 'list', list_id: listId } : null
+      case 'csv':
+        return csv.trim() ? { type: 'csv', csv } : null
+      default:
+        return undefined
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!targetAutomation) {
+      toast.error('Selecione uma automação')
+      return
+    }
+
+    const source = buildSource()
+    if (source === null || (action === 'enroll' && !source)) {
+      toast.error('Escolha os leads')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/automation/flows/${targetAutomation}/enrollments`, {
+        method: action === 'enroll' ? 'POST' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Erro ao iniciar operação')
+        return
+      }
+
+      if (result.not_found > 0) {
+        toast.warning(`${result.not_found} leads não foram encontrados`)
+      }
+
+      toast.success(`${result.total_leads} leads enviados para processamento`)
+      setOperationId(result.operation_id)
+    } catch (error) {
+      console.error('Error starting bulk enrollment:', error)
+      toast.error('Erro inesperado ao iniciar operação')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const succeeded = operation?.metadata?.succeeded || 0
+  const skipped = operation?.metadata?.skipped || 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Inscrição em massa</DialogTitle>
+          <DialogDescription>
+            {hasSelection
+              ? `${leadIds!.length} leads selecionados`
+              : 'Inscreva leads no fluxo ou cancele suas execuções ativas'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {operationId ? (
+          <div className="space-y-3">
+            <Progress value={operation?.progress || 0} />
+            <p className="text-sm text-gray-600">
+              {operation
+                ? `${operation.processedItems + operation.failedItems} de ${operation.totalItems} leads processados`
+                : 'Aguardando o início do processamento...'}
+            </p>
+            {operation && (
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>{action === 'enroll' ? 'Inscritos' : 'Execuções canceladas'}: {succeeded}</p>
+                <p>{action === 'enroll' ? 'Barrados pela política de entrada' : 'Sem execução ativa'}: {skipped}</p>
+                {operation.failedItems > 0 && <p className="text-red-600">Falhas: {operation.failedItems}</p>}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!automationId && (
+              <div className="space-y-2">
+                <Label>Automação</Label>
+                <Select value={selectedAutomation} onValueChange={setSelectedAutomation}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma automação ativa" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {automations.map(automation => (
+                      <SelectItem key={automation.id} value={automation.id}>{automation.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Operação</Label>
+              <Select
+                value={action}
+                onValueChange={(value) => {
+                  setAction(value as EnrollmentAction)
+                  if (value === 'enroll' && sourceType === 'all') setSourceType('segment')
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="enroll">Inscrever no fluxo</SelectItem>
+                  <SelectItem value="cancel">Cancelar execuções ativas</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!hasSelection && (
+              <div className="space-y-2">
+                <Label>Leads</Label>
+                <Select value={sourceType} onValueChange={(value) => setSourceType(value as SourceType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="segment">Segmento</SelectItem>
+                    <SelectItem value="list">Lista</SelectItem>
+                    <SelectItem value="csv">CSV de emails</SelectItem>
+                    {action === 'cancel' && <SelectItem value="all">Todos com execução ativa</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {!hasSelection && sourceType === 'segment' && (
+              <Select value={segmentId} onValueChange={setSegmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione um segmento" />
+                </SelectTrigger>
+                <SelectContent>
+                  {segments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {!hasSelection && sourceType === 'list' && (
+              <Select value={listId} onValueChange={setListId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione uma lista" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lists.map(list => (
+                    <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {!hasSelection && sourceType === 'csv' && (
+              <div className="space-y-1">
+                <Input type="file" accept=".csv,.txt" onChange={handleFileChange} />
+                <p className="text-xs text-gray-500">
+                  Qualquer coluna com emails serve; leads que não existem no workspace são ignorados
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {operationId ? 'Fechar' : 'Cancelar'}
+          </Button>
+          {!operationId && (
+            <Button
+              onClick={handleSubmit}
+              disabled={submitting}
+              variant={action === 'cancel' ? 'destructive' : 'default'}
+            >
+              {action === 'enroll' ? 'Inscrever' : 'Cancelar execuções'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
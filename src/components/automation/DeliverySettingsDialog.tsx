@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import { createSupabaseClient } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { DeliverySettings, getDeliverySettings } from '@/lib/automation/delivery-policies'
+import { isValidTimezone } from '@/lib/automation/wait-steps'
+
+interface DeliverySettingsDialogProps {
+  workspaceId: string | null
+}
+
+export default function DeliverySettingsDialog({ workspaceId }: DeliverySettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [workspaceSettings, setWorkspaceSettings] = useState<any>({})
+  const [capEnabled, setCapEnabled] = useState(false)
+  const [maxEmails, setMaxEmails] = useState(3)
+  const [periodHours, setPeriodHours] = useState(24)
+  const [quietEnabled, setQuietEnabled] = useState(false)
+  const [quietStart, setQuietStart] = useState('22:00')
+  const [quietEnd, setQuietEnd] = useState('08:00')
+  const [quietTimezone, setQuietTimezone] = useState('')
+  const [workspaceTimezone, setWorkspaceTimezone] = useState('')
+  const supabase = createSupabaseClient()
+
+  const loadSettings = async () => {
+    if (!workspaceId) return
+
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .single()
+
+    if (error) {
+      toast.error('Erro ao carregar limites de envio')
+      return
+    }
+
+    const settings = data?.settings || {}
+    const delivery = getDeliverySettings(settings)
+
+    setWorkspaceSettings(settings)
+    setCapEnabled(!!delivery.frequency_cap)
+    setMaxEmails(delivery.frequency_cap?.max_emails || 3)
+    setPeriodHours(delivery.frequency_cap?.period_hours || 24)
+    setQuietEnabled(!!delivery.quiet_hours)
+    setQuietStart(delivery.quiet_hours?.start || '22:00')
+    setQuietEnd(delivery.quiet_hours?.end || '08:00')
+    setQuietTimezone(delivery.quiet_hours?.timezone || '')
+    setWorkspaceTimezone(settings.timezone || '')
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (value) {
+      loadSettings()
+    }
+  }
+
+  const handleSave = async () => {
+    if (!workspaceId) return
+
+    if (workspaceTimezone && !isValidTimezone(workspaceTimezone)) {
+      toast.error('Fuso horário do workspace inválido')
+      return
+    }
+
+    const delivery: DeliverySettings = {
+      frequency_cap: capEnabled ? { max_emails: maxEmails, period_hours: periodHours } : null,
+      quiet_hours: quietEnabled
+        ? { start: quietStart, end: quietEnd, ...(quietTimezone ? { timezone: quietTimezone } : {}) }
+        : null
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('workspaces')
+        .update({ settings: { ...workspaceSettings, delivery, timezone: workspaceTimezone || null } })
+        .eq('id', workspaceId)
+
+      if (error) {
+        toast.error('Erro ao salvar limites de envio')
+        return
+      }
+
+      toast.success('Limites de envio atualizados')
+      setOpen(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!workspaceId}>
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          Limites de Envio
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Limites de Envio</DialogTitle>
+          <DialogDescription>
+            Valem para todas as automações do workspace
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Limite de frequência</Label>
+                <p className="text-xs text-gray-500">Conta emails de campanhas e automações</p>
+              </div>
+              <Switch checked={capEnabled} onCheckedChange={setCapEnabled} />
+            </div>
+            {capEnabled && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="cap-max-emails">Máximo de emails</Label>
+                  <Input
+                    id="cap-max-emails"
+                    type="number"
+                    min="1"
+                    value={maxEmails}
+                    onChange={(e) => setMaxEmails(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="cap-period">A cada (horas)</Label>
+                  <Input
+                    id="cap-period"
+                    type="number"
+                    min="1"
+                    value={periodHours}
+                    onChange={(e) => setPeriodHours(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Horário de silêncio</Label>
+                <p className="text-xs text-gray-500">Emails de automação ficam para o fim do período, no fuso do lead</p>
+              </div>
+              <Switch checked={quietEnabled} onCheckedChange={setQuietEnabled} />
+            </div>
+            {quietEnabled && (
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label htmlFor="quiet-start">Início</Label>
+                  <Input id="quiet-start" type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="quiet-end">Fim</Label>
+                  <Input id="quiet-end" type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="quiet-timezone">Fuso padrão</Label>
+                  <Input
+                    id="quiet-timezone"
+                    value={quietTimezone}
+                    onChange={(e) => setQuietTimezone(e.target.value)}
+                    placeholder="America/Sao_Paulo"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div>
+              <Label htmlFor="workspace-timezone">Fuso horário do workspace</Label>
+              <p className="text-xs text-gray-500">
+                Campanhas por horário local usam este fuso para leads sem fuso, cliques ou telefone com DDI
+              </p>
+            </div>
+            <Input
+              id="workspace-timezone"
+              value={workspaceTimezone}
+              onChange={(e) => setWorkspaceTimezone(e.target.value)}
+              placeholder="America/Sao_Paulo"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -26,6 +26,7 @@ import {
   X,
   Layout,
   TrendingUp,
+  ShieldOff,
 } from 'lucide-react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
@@ -58,6 +59,7 @@ const navigation = [
   { name: 'Templates', href: '/dashboard/templates', icon: Layout },
   { name: 'Automações', href: '/dashboard/automations', icon: Workflow },
   { name: 'Testes A/B', href: '/dashboard/ab-tests', icon: TrendingUp },
+  { name: 'Supressões', href: '/dashboard/suppressions', icon: ShieldOff },
   { name: 'Webhooks', href: '/dashboard/webhooks', icon: Webhook },
   { name: 'Relatórios', href: '/dashboard/reports', icon: BarChart3 },
   { name: 'API Keys', href: '/dashboard/settings/api', icon: Settings },
@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Progress } from '@/components/ui/progress'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CheckCircle, XCircle, AlertTriangle, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface TemplateImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+interface ImportOutcome {
+  fileName: string
+  status: 'imported' | 'overwritten' | 'failed'
+  message?: string
+  warnings: string[]
+}
+
+const ACCEPTED_FILES = '.html,.htm,.mjml,.zip'
+
+// Files are sent one at a time so a single bad file does not fail the whole batch
+export default function TemplateImportDialog({ open, onOpenChange, onImported }: TemplateImportDialogProps) {
+  const [files, setFiles] = useState<File[]>([])
+  const [overwriteExisting, setOverwriteExisting] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([])
+
+  const reset = () => {
+    setFiles([])
+    setOutcomes([])
+    setOverwriteExisting(false)
+  }
+
+  const importFiles = async () => {
+    setIsImporting(true)
+    setOutcomes([])
+    const results: ImportOutcome[] = []
+
+    for (const file of files) {
+      const body = new FormData()
+      body.append('file', file)
+      body.append('overwrite_existing', String(overwriteExisting))
+
+      try {
+        const response = await fetch('/api/templates/import', { method: 'POST', body })
+        const data = await response.json()
+
+        results.push(response.ok
+          ? { fileName: file.name, status: data.overwritten ? 'overwritten' : 'imported', warnings: data.warnings || [] }
+          : { fileName: file.name, status: 'failed', message: data.error || 'Erro ao importar', warnings: [] })
+      } catch {
+        results.push({ fileName: file.name, status: 'failed', message: 'Erro de conexão', warnings: [] })
+      }
+
+      setOutcomes([...results])
+    }
+
+    setIsImporting(false)
+
+    const failed = results.filter(result => result.status === 'failed').length
+    if (failed < results.length) {
+      onImported()
+    }
+    if (failed === 0) {
+      toast.success(`${results.length} template(s) importado(s)`)
+    } else {
+      toast.error(`${failed} de ${results.length} arquivo(s) não foram importados`)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (isImporting) return
+        if (!value) reset()
+        onOpenChange(value)
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar templates</DialogTitle>
+          <DialogDescription>
+            Arquivos HTML, MJML ou ZIP com HTML e imagens. As imagens do ZIP são enviadas para o armazenamento e os links são reescritos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="template-import-files">Arquivos</Label>
+            <Input
+              id="template-import-files"
+              type="file"
+              multiple
+              accept={ACCEPTED_FILES}
+              disabled={isImporting}
+              onChange={(e) => {
+                setFiles(Array.from(e.target.files || []))
+                setOutcomes([])
+              }}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              O nome do arquivo vira o nome do template; o assunto vem do &lt;title&gt; ou &lt;mj-title&gt;
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="template-import-overwrite">Substituir templates com o mesmo nome</Label>
+              <p className="text-xs text-gray-500">O conteúdo anterior continua no histórico de versões</p>
+            </div>
+            <Switch
+              id="template-import-overwrite"
+              checked={overwriteExisting}
+              onCheckedChange={setOverwriteExisting}
+              disabled={isImporting}
+            />
+          </div>
+
+          {(isImporting || outcomes.length > 0) && (
+            <Progress value={(outcomes.length / Math.max(files.length, 1)) * 100} />
+          )}
+
+          {outcomes.length > 0 && (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {outcomes.map((outcome, index) => (
+                <div key={`${index}-${outcome.fileName}`} className="text-sm border rounded p-2">
+                  <div className="flex items-center gap-2">
+                    {outcome.status === 'failed'
+                      ? <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+                      : <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />}
+                    <span className="font-medium truncate">{outcome.fileName}</span>
+                    <span className="text-gray-500 ml-auto">
+                      {outcome.status === 'imported' && 'Importado'}
+                      {outcome.status === 'overwritten' && 'Substituído'}
+                      {outcome.status === 'failed' && 'Falhou'}
+                    </span>
+                  </div>
+                  {outcome.message && <p className="text-red-700 mt-1">{outcome.message}</p>}
+                  {outcome.warnings.map(warning => (
+                    <p key={warning} className="flex items-start gap-1 text-amber-700 mt-1">
+                      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={isImporting}
+            onClick={() => {
+              reset()
+              onOpenChange(false)
+            }}
+          >
+            Fechar
+          </Button>
+          <Button onClick={importFiles} disabled={files.length === 0 || isImporting}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isImporting
+              ? `Importando ${outcomes.length + 1} de ${files.length}...`
+              : `Importar ${files.length || ''} arquivo(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
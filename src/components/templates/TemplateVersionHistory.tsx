@@ -0,0 +1,286 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SanitizedTemplateHtml } from '@/components/ui/sanitized-html'
+import { History, RotateCcw, RefreshCw } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { toast } from 'sonner'
+import { TemplateVersion, buildTemplateRestoreUpdate } from '@/lib/templates/template-versions'
+import { diffTemplateVersions, DiffLine } from '@/lib/templates/template-diff'
+
+interface TemplateVersionHistoryProps {
+  templateId: string
+  currentVersion?: number
+  onRestored?: (template: any) => void
+}
+
+const DIFF_LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through'
+}
+
+const DIFF_LINE_PREFIX: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  added: '+',
+  removed: '-'
+}
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  if (lines.length === 0) {
+    return <p className="text-sm text-gray-500 p-3">Sem conteúdo</p>
+  }
+
+  return (
+    <pre className="text-xs font-mono border rounded-lg overflow-auto max-h-[50vh]">
+      {lines.map((line, index) => (
+        <div key={index} className={`px-3 py-0.5 whitespace-pre-wrap break-all ${DIFF_LINE_STYLES[line.type]}`}>
+          {DIFF_LINE_PREFIX[line.type]} {line.value}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+export default function TemplateVersionHistory({ templateId, currentVersion, onRestored }: TemplateVersionHistoryProps) {
+  const [versions, setVersions] = useState<TemplateVersion[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoring, setRestoring] = useState(false)
+
+  const supabase = createClientComponentClient()
+
+  const loadVersions = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('email_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version_number', { ascending: false })
+
+      if (error) throw error
+
+      const loaded = (data || []) as TemplateVersion[]
+      setVersions(loaded)
+      // Default to the latest version compared against the one before it
+      setSelectedId(loaded[0]?.id || null)
+      setCompareId(loaded[1]?.id || null)
+    } catch (error) {
+      console.error('Error loading template versions:', error)
+      toast.error('Erro ao carregar histórico de versões')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [templateId, currentVersion])
+
+  const selected = versions.find(version => version.id === selectedId) || null
+  const compared = versions.find(version => version.id === compareId) || null
+
+  const diff = useMemo(
+    () => (selected && compared ? diffTemplateVersions(compared, selected) : null),
+    [selected, compared]
+  )
+
+  const selectVersion = (version: TemplateVersion) => {
+    setSelectedId(version.id)
+    const previous = versions.find(candidate => candidate.version_number < version.version_number)
+    setCompareId(previous?.id || null)
+  }
+
+  const restoreVersion = async (version: TemplateVersion) => {
+    if (!confirm(`Restaurar a versão ${version.version_number}? Uma nova versão será criada com este conteúdo.`)) return
+
+    setRestoring(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+
+      const { data: template, error } = await supabase
+        .from('email_templates')
+        .update(buildTemplateRestoreUpdate(version, user?.id))
+        .eq('id', templateId)
+        .select()
+        .single()
+
+      if (error) throw error
+
+      toast.success(`Versão ${version.version_number} restaurada`)
+      onRestored?.(template)
+      await loadVersions()
+    } catch (error) {
+      console.error('Error restoring template version:', error)
+      toast.error('Erro ao restaurar versão')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+        Carregando versões...
+      </div>
+    )
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-12 text-sm text-gray-500">
+        <History className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+        Nenhuma versão registrada
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Version list */}
+      <div className="space-y-2 max-h-[65vh] overflow-y-auto pr-1">
+        {versions.map(version => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => selectVersion(version)}
+            className={`w-full text-left border rounded-lg p-3 transition-colors ${
+              version.id === selectedId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-sm">Versão {version.version_number}</span>
+              {version.version_number === (currentVersion ?? versions[0].version_number) && (
+                <Badge variant="default">Atual</Badge>
+              )}
+            </div>
+            <p className="text-xs text-gray-600 truncate mt-1">{version.subject}</p>
+            <div className="flex items-center justify-between mt-1">
+              <span className="text-xs text-gray-500">
+                {formatDistanceToNow(new Date(version.created_at), { addSuffix: true, locale: ptBR })}
+              </span>
+              {version.restored_from_version_id && (
+                <Badge variant="outline" className="text-xs">
+                  Restaurada
+                </Badge>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {/* Selected version and diff */}
+      <div className="md:col-span-2 space-y-4">
+        {selected && (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">Comparar com</span>
+                <Select value={compareId || 'none'} onValueChange={(value) => setCompareId(value === 'none' ? null : value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nenhuma</SelectItem>
+                    {versions
+                      .filter(version => version.id !== selected.id)
+                      .map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Versão {version.version_number}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => restoreVersion(selected)}
+                disabled={restoring || selected.id === versions[0].id}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {restoring ? 'Restaurando...' : 'Restaurar esta versão'}
+              </Button>
+            </div>
+
+            {diff && (
+              <div className="flex items-center gap-2 text-xs">
+                {diff.subject.changed && <Badge variant="secondary">Assunto alterado</Badge>}
+                <span className="text-green-700">+{diff.summary.added}</span>
+                <span className="text-red-700">-{diff.summary.removed}</span>
+                <span className="text-gray-500">linhas</span>
+              </div>
+            )}
+
+            <Tabs defaultValue="visual">
+              <TabsList>
+                <TabsTrigger value="visual">Visual</TabsTrigger>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="visual">
+                <div className={`grid gap-3 ${compared ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                  {compared && (
+                    <div>
+                      <p className="text-xs font-medium text-gray-600 mb-1">Versão {compared.version_number}</p>
+                      <p className="text-xs text-gray-500 mb-2 truncate">Assunto: {compared.subject}</p>
+                      <SanitizedTemplateHtml
+                        html={compared.html_content}
+                        className="border rounded-lg overflow-auto max-h-[50vh] bg-white"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs font-medium text-gray-600 mb-1">Versão {selected.version_number}</p>
+                    <p className="text-xs text-gray-500 mb-2 truncate">Assunto: {selected.subject}</p>
+                    <SanitizedTemplateHtml
+                      html={selected.html_content}
+                      className="border rounded-lg overflow-auto max-h-[50vh] bg-white"
+                    />
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="html">
+                {diff ? (
+                  <div className="space-y-3">
+                    {diff.subject.changed && (
+                      <DiffView
+                        lines={[
+                          { type: 'removed', value: diff.subject.old },
+                          { type: 'added', value: diff.subject.new }
+                        ]}
+                      />
+                    )}
+                    <DiffView lines={diff.html} />
+                    {diff.text.some(line => line.type !== 'equal') && <DiffView lines={diff.text} />}
+                  </div>
+                ) : (
+                  <pre className="text-xs font-mono border rounded-lg p-3 overflow-auto max-h-[50vh] whitespace-pre-wrap break-all">
+                    {selected.html_content}
+                  </pre>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+// Testes da análise estatística de testes A/B com duas ou mais variantes
+
+import { ABTestAnalyzer, ABTestVariant, adjustPValues } from '../ab-testing'
+
+function variant(id: string, delivered: number, opened: number, clicked: number, extra: Partial<ABTestVariant> = {}): ABTestVariant {
+  return {
+    id,
+    name: id,
+    type: 'subject_line',
+    content: id,
+    recipients: delivered,
+    sent: delivered,
+    delivered,
+    opened,
+    clicked,
+    unsubscribed: 0,
+    bounced: 0,
+    ...extra
+  }
+}
+
+describe('adjustPValues', () => {
+  it('deve aplicar a correção de Holm mantendo a ordem original', () => {
+    const adjusted = adjustPValues([0.01, 0.04, 0.03], 'holm')
+
+    expect(adjusted[0]).toBeCloseTo(0.03, 10)
+    expect(adjusted[1]).toBeCloseTo(0.06, 10)
+    expect(adjusted[2]).toBeCloseTo(0.06, 10)
+  })
+
+  it('deve aplicar a correção de Bonferroni limitada a 1', () => {
+    const adjusted = adjustPValues([0.01, 0.04, 0.5], 'bonferroni')
+
+    expect(adjusted[0]).toBeCloseTo(0.03, 10)
+    expect(adjusted[1]).toBeCloseTo(0.12, 10)
+    expect(adjusted[2]).toBe(1)
+  })
+})
+
+describe('ABTestAnalyzer', () => {
+  const analyzer = new ABTestAnalyzer(0.95)
+
+  it('deve calcular o tamanho mínimo por variante respeitando poder e alfa', () => {
+    expect(analyzer.calculateMinimumSampleSize(0.20, 0.02)).toBe(6510)
+    expect(analyzer.calculateMinimumSampleSize(0.20, 0.02, 0.9)).toBe(8714)
+    expect(analyzer.calculateMinimumSampleSize(0.20, 0.02, 0.8, 0.025)).toBe(7884)
+    expect(() => analyzer.calculateMinimumSampleSize(0.20, 0.02, 1.2)).toThrow('Power and alpha')
+  })
+
+  it('deve calcular o p-valor bicaudal exato do teste z', () => {
+    const result = analyzer.analyzeMetric('Open Rate', { successes: 200, trials: 1000 }, { successes: 236, trials: 1000 })
+
+    // z = 0.036 / sqrt(0.218 * 0.782 * 2 / 1000)
+    expect(result.z_score).toBeCloseTo(1.9496, 3)
+    expect(result.p_value).toBeCloseTo(0.0512, 3)
+    expect(result.is_significant).toBe(false)
+  })
+
+  it('deve coincidir o qui-quadrado com o teste z quando há duas variantes', () => {
+    const pair = analyzer.analyzeMetric('Open Rate', { successes: 300, trials: 1500 }, { successes: 360, trials: 1500 })
+    const omnibus = analyzer.chiSquareTest('Open Rate', [{ successes: 300, trials: 1500 }, { successes: 360, trials: 1500 }])
+
+    expect(omnibus.degrees_of_freedom).toBe(1)
+    expect(omnibus.chi_square).toBeCloseTo(pair.z_score ** 2, 6)
+    expect(omnibus.p_value).toBeCloseTo(pair.p_value, 5)
+  })
+
+  it('deve testar a receita por destinatário com o teste t de Welch', () => {
+    // Médias 1 e 2, variância 1 e 10 destinatários em cada variante: t = √5 com 18 graus de liberdade
+    const result = analyzer.analyzeRevenue(
+      'Revenue per Recipient',
+      { sum: 10, sumSquares: 19, trials: 10 },
+      { sum: 20, sumSquares: 49, trials: 10 }
+    )
+
+    expect(result.z_score).toBeCloseTo(Math.sqrt(5), 6)
+    expect(result.p_value).toBeCloseTo(0.03825, 4)
+    expect(result.is_significant).toBe(true)
+    expect(result.improvement_percentage).toBeCloseTo(100, 6)
+  })
+
+  it('deve ignorar a receita quando falta a soma dos quadrados', () => {
+    const result = analyzer.analyzeRevenue('Revenue per Recipient', { sum: 10, trials: 10 }, { sum: 20, trials: 10 })
+
+    expect(result.p_value).toBe(1)
+    expect(result.is_significant).toBe(false)
+  })
+
+  it('deve escolher o melhor desafiante entre várias variantes após a correção', () => {
+    const result = analyzer.analyzeMultiVariantTest([
+      variant('control', 10000, 2000, 400),
+      variant('b', 10000, 2050, 410),
+      variant('c', 10000, 2400, 480),
+      variant('d', 10000, 2300, 460)
+    ], 7)
+
+    expect(result.omnibus.open_rate.degrees_of_freedom).toBe(3)
+    expect(result.omnibus.open_rate.is_significant).toBe(true)
+    expect(result.comparisons.map(comparison => comparison.variant_id)).toEqual(['b', 'c', 'd'])
+    expect(result.comparisons[0].open_rate_significance.is_significant).toBe(false)
+    expect(result.winner).toBe('challenger')
+    expect(result.winner_variant_id).toBe('c')
+  })
+
+  it('deve descartar um desafiante que só é significativo sem correção', () => {
+    // p ≈ 0.03 isolado, mas acima de 0.05 depois de corrigir por quatro comparações
+    const variants = [
+      variant('control', 12000, 2400, 480),
+      variant('b', 12000, 2536, 480),
+      variant('c', 12000, 2400, 480),
+      variant('d', 12000, 2412, 480),
+      variant('e', 12000, 2388, 480)
+    ]
+    const result = analyzer.analyzeMultiVariantTest(variants, 7, { correction: 'bonferroni' })
+    const challenger = result.comparisons.find(comparison => comparison.variant_id === 'b')!
+
+    expect(challenger.open_rate_significance.p_value).toBeLessThan(0.05)
+    expect(challenger.open_rate_significance.adjusted_p_value).toBeCloseTo(challenger.open_rate_significance.p_value * 4, 10)
+    expect(challenger.open_rate_significance.adjusted_p_value).toBeGreaterThan(0.05)
+    expect(result.sample_size_adequate).toBe(true)
+    expect(result.winner).toBe('inconclusive')
+  })
+
+  it('deve exigir o tamanho mínimo em cada variante e usar a métrica principal escolhida', () => {
+    const small = analyzer.analyzeMultiVariantTest([
+      variant('control', 3000, 600, 60),
+      variant('b', 3000, 900, 90)
+    ], 7)
+
+    expect(small.sample_size_adequate).toBe(false)
+    expect(small.winner).toBe('inconclusive')
+    expect(small.recommendation).toContain('required per variant: 6510')
+
+    const byRevenue = analyzer.analyzeMultiVariantTest([
+      variant('control', 7000, 1400, 140, { revenue: 7000, revenue_sum_squares: 7000 * 5 }),
+      variant('b', 7000, 1400, 140, { revenue: 8400, revenue_sum_squares: 8400 * 5 })
+    ], 7, { primaryMetric: 'revenue' })
+
+    expect(byRevenue.omnibus.open_rate.is_significant).toBe(false)
+    expect(byRevenue.metrics[1].revenue_per_recipient).toBeCloseTo(1.2, 6)
+    expect(byRevenue.winner).toBe('challenger')
+    expect(byRevenue.winner_variant_id).toBe('b')
+  })
+})
@@ -14,6 +14,8 @@ export interface ABTestVariant {
   unsubscribed: number
   bounced: number
   revenue?: number
+  // Sum of each recipient's squared revenue; without it revenue per recipient has no variance to test
+  revenue_sum_squares?: number
 }
 
 export interface ABTest {
@@ -83,11 +85,14 @@ export interface ABTestResult {
     click_rate_b: number
     conversion_rate_a: number
     conversion_rate_b: number
+    revenue_per_recipient_a: number
+    revenue_per_recipient_b: number
   }
   statistical_analysis: {
     open_rate_significance: StatisticalSignificance
     click_rate_significance: StatisticalSignificance
     conversion_significance: StatisticalSignificance
+    revenue_significance: StatisticalSignificance
     confidence_level: number
     sample_size_adequate: boolean
     test_duration_days: number
@@ -103,12 +108,238 @@ export interface StatisticalSignificance {
   improvement: number
   improvement_percentage: number
   p_value: number
+  // p_value corrected for the number of comparisons in a multi-variant test
+  adjusted_p_value?: number
   confidence_interval: [number, number]
   is_significant: boolean
+  // t statistic for revenue per recipient
   z_score: number
   power: number
 }
 
+export type MultipleComparisonCorrection = 'holm' | 'bonferroni'
+
+export type ABTestPrimaryMetric = 'open_rate' | 'click_rate' | 'conversion_rate' | 'revenue'
+
+export interface ChiSquareResult {
+  metric_name: string
+  chi_square: number
+  degrees_of_freedom: number
+  p_value: number
+  is_significant: boolean
+}
+
+export interface VariantComparison {
+  variant_id: string
+  open_rate_significance: StatisticalSignificance
+  click_rate_significance: StatisticalSignificance
+  conversion_significance: StatisticalSignificance
+  revenue_significance: StatisticalSignificance
+}
+
+export interface MultiVariantTestOptions {
+  // Defaults to the first variant
+  controlId?: string
+  correction?: MultipleComparisonCorrection
+  primaryMetric?: ABTestPrimaryMetric
+  // How long the test must run before a winner is picked; defaults to 3 days
+  minimumDurationDays?: number
+}
+
+export interface MultiVariantTestResult {
+  control_variant_id: string
+  primary_metric: ABTestPrimaryMetric
+  correction: MultipleComparisonCorrection
+  metrics: Array<{
+    variant_id: string
+    open_rate: number
+    click_rate: number
+    conversion_rate: number
+    revenue_per_recipient: number
+  }>
+  // Whether any variant differs at all, before looking at pairs
+  omnibus: {
+    open_rate: ChiSquareResult
+    click_rate: ChiSquareResult
+    conversion_rate: ChiSquareResult
+  }
+  // Each challenger against the control, with p-values corrected across challengers
+  comparisons: VariantComparison[]
+  confidence_level: number
+  // Delivered emails each variant needs
+  minimum_sample_size: number
+  sample_size_adequate: boolean
+  test_duration_days: number
+  winner: 'control' | 'challenger' | 'inconclusive'
+  winner_variant_id?: string
+  recommendation: string
+}
+
+// Where each primary metric's result is kept on a comparison
+export const SIGNIFICANCE_KEYS: Record<ABTestPrimaryMetric, Exclude<keyof VariantComparison, 'variant_id'>> = {
+  open_rate: 'open_rate_significance',
+  click_rate: 'click_rate_significance',
+  conversion_rate: 'conversion_significance',
+  revenue: 'revenue_significance'
+}
+
+// Standard normal CDF via the complementary error function (fractional error below 1.2e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.5 * x)
+  const erfc = t * Math.exp(-x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))))
+  return z >= 0 ? 1 - erfc / 2 : erfc / 2
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const low = 0.02425
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p))
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p)
+  }
+
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5]
+  let series = 1.000000000190015
+  for (let i = 0; i < coefficients.length; i++) {
+    series += coefficients[i] / (x + 1 + i)
+  }
+  const t = x + 5.5
+  return (x + 0.5) * Math.log(t) - t + Math.log(2.5066282746310005 * series / x)
+}
+
+// Regularized upper incomplete gamma Q(a, x)
+function upperGamma(a: number, x: number): number {
+  if (x <= 0) return 1
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n)
+      sum += term
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a))
+  }
+
+  // Continued fraction (modified Lentz)
+  let b = x + 1 - a
+  let c = 1 / 1e-300
+  let d = 1 / b
+  let h = d
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    c = b + an / c
+    if (Math.abs(c) < 1e-300) c = 1e-300
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-15) break
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h
+}
+
+function chiSquareSurvival(statistic: number, degreesOfFreedom: number): number {
+  return upperGamma(degreesOfFreedom / 2, statistic / 2)
+}
+
+// Regularized incomplete beta I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - incompleteBeta(1 - x, b, a)
+  }
+
+  // Continued fraction (modified Lentz)
+  let c = 1
+  let d = 1 - (a + b) * x / (a + 1)
+  if (Math.abs(d) < 1e-300) d = 1e-300
+  d = 1 / d
+  let h = d
+  for (let m = 1; m < 500; m++) {
+    const m2 = 2 * m
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2))
+    d = 1 + aa * d
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    c = 1 + aa / c
+    if (Math.abs(c) < 1e-300) c = 1e-300
+    d = 1 / d
+    h *= d * c
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1))
+    d = 1 + aa * d
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    c = 1 + aa / c
+    if (Math.abs(c) < 1e-300) c = 1e-300
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-15) break
+  }
+  return front * h / a
+}
+
+function studentTCdf(t: number, degreesOfFreedom: number): number {
+  const tail = incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5) / 2
+  return t >= 0 ? 1 - tail : tail
+}
+
+// Inverse of the t CDF for p > 0.5, by bisection
+function studentTQuantile(p: number, degreesOfFreedom: number): number {
+  let low = 0
+  let high = Math.max(10, normalQuantile(p) * 10)
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    if (studentTCdf(mid, degreesOfFreedom) < p) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+// Corrects p-values for testing several hypotheses at once; results keep the input order
+export function adjustPValues(pValues: number[], method: MultipleComparisonCorrection = 'holm'): number[] {
+  const m = pValues.length
+  if (method === 'bonferroni') {
+    return pValues.map(p => Math.min(1, p * m))
+  }
+
+  // Holm: step down from the smallest p-value, never letting an adjusted value drop below the previous one
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p)
+  const adjusted = new Array<number>(m)
+  let running = 0
+  order.forEach(({ p, index }, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * p))
+    adjusted[index] = running
+  })
+  return adjusted
+}
+
 export class ABTestAnalyzer {
   private confidenceLevel: number
 
@@ -136,17 +367,12 @@ export class ABTestAnalyzer {
 
   // Calculate p-value from Z-score (two-tailed test)
   private calculatePValue(zScore: number): number {
-    // Approximation for standard normal distribution
-    const absZ = Math.abs(zScore)
-
-    if (absZ > 6) return 0
-    if (absZ === 0) return 1
-
-    // Using error function approximation
-    const t = 1 / (1 + 0.3275911 * absZ)
-    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-absZ * absZ)
+    return Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore))))
+  }
 
-    return 2 * (1 - erf) / 2
+  // Critical value of the two-tailed test at the analyzer's confidence level
+  private criticalZ(): number {
+    return normalQuantile(1 - (1 - this.confidenceLevel) / 2)
   }
 
   // Calculate confidence interval for difference in proportions
@@ -157,28 +383,21 @@ export class ABTestAnalyzer {
     const se1 = Math.sqrt(p1 * (1 - p1) / n1)
     const se2 = Math.sqrt(p2 * (1 - p2) / n2)
     const seDiff = Math.sqrt(se1 * se1 + se2 * se2)
-
-    // Z-value for 95% confidence
-    const zValue = 1.96
-    const margin = zValue * seDiff
+    const margin = this.criticalZ() * seDiff
 
     return [diff - margin, diff + margin]
   }
 
-  // Calculate statistical power (simplified)
-  private calculatePower(effect_size: number, n1: number, n2: number): number {
+  // Probability of detecting the observed difference with these sample sizes
+  private calculatePower(p1: number, n1: number, p2: number, n2: number): number {
     if (n1 === 0 || n2 === 0) return 0
 
-    // Simplified power calculation
-    const totalN = n1 + n2
-    const effectSizeAbs = Math.abs(effect_size)
-
-    // Rule of thumb: power increases with sample size and effect size
-    const power = Math.min(0.99, Math.max(0.05,
-      1 - Math.exp(-0.5 * effectSizeAbs * Math.sqrt(totalN / 100))
-    ))
+    const pooledP = (p1 * n1 + p2 * n2) / (n1 + n2)
+    const pooledSE = Math.sqrt(pooledP * (1 - pooledP) * (1/n1 + 1/n2))
+    const unpooledSE = Math.sqrt(p1 * (1 - p1) / n1 + p2 * (1 - p2) / n2)
+    if (unpooledSE === 0) return 0
 
-    return power
+    return normalCdf((Math.abs(p1 - p2) - this.criticalZ() * pooledSE) / unpooledSE)
   }
 
   // Analyze significance for a specific metric
@@ -196,10 +415,10 @@ export class ABTestAnalyzer {
     const zScore = this.calculateZScore(rateB, variantB.trials, rateA, variantA.trials)
     const pValue = this.calculatePValue(zScore)
     const confidenceInterval = this.calculateConfidenceInterval(rateB, variantB.trials, rateA, variantA.trials)
-    const power = this.calculatePower(improvement, variantA.trials, variantB.trials)
+    const power = this.calculatePower(rateB, variantB.trials, rateA, variantA.trials)
 
     const significanceThreshold = 1 - this.confidenceLevel
-    const isSignificant = pValue < significanceThreshold && Math.abs(zScore) > 1.96
+    const isSignificant = pValue < significanceThreshold
 
     return {
       metric_name: metricName,
@@ -215,20 +434,110 @@ export class ABTestAnalyzer {
     }
   }
 
-  // Determine minimum sample size needed for a test
+  // Welch's t-test on revenue per recipient, from each variant's revenue sum and sum of squares
+  analyzeRevenue(
+    metricName: string,
+    variantA: { sum: number; sumSquares?: number; trials: number },
+    variantB: { sum: number; sumSquares?: number; trials: number }
+  ): StatisticalSignificance {
+    const meanA = variantA.trials > 0 ? variantA.sum / variantA.trials : 0
+    const meanB = variantB.trials > 0 ? variantB.sum / variantB.trials : 0
+    const improvement = meanB - meanA
+    const improvementPercentage = meanA > 0 ? (improvement / meanA) * 100 : 0
+
+    const variance = (v: typeof variantA, mean: number) =>
+      Math.max(0, ((v.sumSquares as number) - v.trials * mean * mean) / (v.trials - 1))
+    const testable = variantA.sumSquares !== undefined && variantB.sumSquares !== undefined &&
+      variantA.trials > 1 && variantB.trials > 1
+    const seA = testable ? variance(variantA, meanA) / variantA.trials : 0
+    const seB = testable ? variance(variantB, meanB) / variantB.trials : 0
+    const standardError = Math.sqrt(seA + seB)
+
+    if (standardError === 0) {
+      return {
+        metric_name: metricName,
+        variant_a_rate: meanA,
+        variant_b_rate: meanB,
+        improvement,
+        improvement_percentage: improvementPercentage,
+        p_value: 1,
+        confidence_interval: [improvement, improvement],
+        is_significant: false,
+        z_score: 0,
+        power: 0
+      }
+    }
+
+    // Welch–Satterthwaite degrees of freedom
+    const degreesOfFreedom = (seA + seB) ** 2 /
+      (seA ** 2 / (variantA.trials - 1) + seB ** 2 / (variantB.trials - 1))
+    const tScore = improvement / standardError
+    const pValue = Math.min(1, 2 * (1 - studentTCdf(Math.abs(tScore), degreesOfFreedom)))
+    const margin = studentTQuantile(1 - (1 - this.confidenceLevel) / 2, degreesOfFreedom) * standardError
+
+    return {
+      metric_name: metricName,
+      variant_a_rate: meanA,
+      variant_b_rate: meanB,
+      improvement,
+      improvement_percentage: improvementPercentage,
+      p_value: pValue,
+      confidence_interval: [improvement - margin, improvement + margin],
+      is_significant: pValue < 1 - this.confidenceLevel,
+      z_score: tScore,
+      power: normalCdf(Math.abs(tScore) - this.criticalZ())
+    }
+  }
+
+  // Pearson's chi-square test of whether a rate differs across any of the variants
+  chiSquareTest(metricName: string, variants: Array<{ successes: number; trials: number }>): ChiSquareResult {
+    const groups = variants.filter(variant => variant.trials > 0)
+    const degreesOfFreedom = Math.max(0, groups.length - 1)
+    const totalTrials = groups.reduce((sum, variant) => sum + variant.trials, 0)
+    const totalSuccesses = groups.reduce((sum, variant) => sum + variant.successes, 0)
+    const pooledRate = totalTrials > 0 ? totalSuccesses / totalTrials : 0
+
+    let chiSquare = 0
+    if (degreesOfFreedom > 0 && pooledRate > 0 && pooledRate < 1) {
+      for (const variant of groups) {
+        const expectedSuccesses = variant.trials * pooledRate
+        const expectedFailures = variant.trials - expectedSuccesses
+        chiSquare += (variant.successes - expectedSuccesses) ** 2 / expectedSuccesses
+        chiSquare += (variant.trials - variant.successes - expectedFailures) ** 2 / expectedFailures
+      }
+    }
+
+    const pValue = degreesOfFreedom > 0 ? chiSquareSurvival(chiSquare, degreesOfFreedom) : 1
+
+    return {
+      metric_name: metricName,
+      chi_square: chiSquare,
+      degrees_of_freedom: degreesOfFreedom,
+      p_value: pValue,
+      is_significant: pValue < 1 - this.confidenceLevel
+    }
+  }
+
+  // Delivered emails each variant needs for a two-sided two-proportion test to detect the effect
   calculateMinimumSampleSize(
     baselineRate: number,
     minimumDetectableEffect: number,
     power = 0.8,
     alpha = 0.05
   ): number {
-    // Simplified sample size calculation
-    const zAlpha = 1.96 // for alpha = 0.05 (two-tailed)
-    const zBeta = 0.84  // for power = 0.8
-
     const p1 = baselineRate
     const p2 = baselineRate + minimumDetectableEffect
 
+    if (!(p1 > 0 && p1 < 1) || !(p2 > 0 && p2 < 1) || minimumDetectableEffect === 0) {
+      throw new Error('Baseline rate and detectable effect must give rates between 0 and 1')
+    }
+    if (!(power > 0 && power < 1) || !(alpha > 0 && alpha < 1)) {
+      throw new Error('Power and alpha must be between 0 and 1')
+    }
+
+    const zAlpha = normalQuantile(1 - alpha / 2)
+    const zBeta = normalQuantile(power)
+
     const pooledP = (p1 + p2) / 2
     const numerator = (zAlpha * Math.sqrt(2 * pooledP * (1 - pooledP)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2))) ** 2
     const denominator = (p2 - p1) ** 2
@@ -236,33 +545,136 @@ export class ABTestAnalyzer {
     return Math.ceil(numerator / denominator)
   }
 
+  // Compare every variant to the control, correcting for the number of challengers
+  analyzeMultiVariantTest(
+    variants: ABTestVariant[],
+    testDurationDays: number,
+    options: MultiVariantTestOptions = {}
+  ): MultiVariantTestResult {
+    if (variants.length < 2) {
+      throw new Error('At least 2 variants are required')
+    }
+
+    const { correction = 'holm', primaryMetric = 'open_rate', minimumDurationDays = 3 } = options
+    const control = variants.find(variant => variant.id === options.controlId) || variants[0]
+    const challengers = variants.filter(variant => variant.id !== control.id)
+    const alpha = 1 - this.confidenceLevel
+
+    const comparisons: VariantComparison[] = challengers.map(challenger => ({
+      variant_id: challenger.id,
+      ...this.compareVariants(control, challenger)
+    }))
+
+    for (const key of Object.values(SIGNIFICANCE_KEYS)) {
+      const adjusted = adjustPValues(comparisons.map(comparison => comparison[key].p_value), correction)
+      comparisons.forEach((comparison, index) => {
+        comparison[key] = { ...comparison[key], adjusted_p_value: adjusted[index], is_significant: adjusted[index] < alpha }
+      })
+    }
+
+    const omnibus = {
+      open_rate: this.chiSquareTest('Open Rate', variants.map(v => ({ successes: v.opened, trials: v.delivered }))),
+      click_rate: this.chiSquareTest('Click Rate', variants.map(v => ({ successes: v.clicked, trials: v.delivered }))),
+      conversion_rate: this.chiSquareTest('Click-to-Open Rate', variants.map(v => ({ successes: v.clicked, trials: v.opened })))
+    }
+
+    // Sized for the Bonferroni-corrected alpha, which is what Holm uses for its smallest p-value
+    const minimumSampleSize = this.calculateMinimumSampleSize(0.20, 0.02, 0.8, alpha / challengers.length)
+    const smallestVariant = Math.min(...variants.map(variant => variant.delivered))
+    const sampleSizeAdequate = smallestVariant >= minimumSampleSize
+
+    const key = SIGNIFICANCE_KEYS[primaryMetric]
+    // Revenue has no omnibus test; its pairwise comparisons are already corrected
+    const differs = primaryMetric === 'revenue' || omnibus[primaryMetric].is_significant
+    const better = comparisons
+      .filter(comparison => comparison[key].is_significant && comparison[key].improvement > 0)
+      .sort((a, b) => b[key].improvement - a[key].improvement)
+    const controlBest = comparisons.every(comparison => comparison[key].is_significant && comparison[key].improvement < 0)
+
+    let winner: MultiVariantTestResult['winner'] = 'inconclusive'
+    let winnerVariantId: string | undefined
+    let recommendation = 'Continue testing - no clear winner yet.'
+
+    if (!sampleSizeAdequate) {
+      recommendation = `Need more data. Smallest variant: ${smallestVariant}, required per variant: ${minimumSampleSize}`
+    } else if (testDurationDays < minimumDurationDays) {
+      recommendation = `Continue testing. Current duration: ${testDurationDays} days, minimum: ${minimumDurationDays} days`
+    } else if (differs && better.length > 0) {
+      winner = 'challenger'
+      winnerVariantId = better[0].variant_id
+      const name = challengers.find(variant => variant.id === winnerVariantId)?.name
+      recommendation = `Variant ${name} is the clear winner. Deploy this version to all users.`
+    } else if (differs && controlBest) {
+      winner = 'control'
+      winnerVariantId = control.id
+      recommendation = `Variant ${control.name} is performing better. Continue with the original version.`
+    } else if (testDurationDays >= 14) {
+      recommendation = 'No significant difference found after 14 days. Consider this test inconclusive.'
+    }
+
+    return {
+      control_variant_id: control.id,
+      primary_metric: primaryMetric,
+      correction,
+      metrics: variants.map(variant => ({
+        variant_id: variant.id,
+        open_rate: variant.delivered > 0 ? variant.opened / variant.delivered : 0,
+        click_rate: variant.delivered > 0 ? variant.clicked / variant.delivered : 0,
+        conversion_rate: variant.opened > 0 ? variant.clicked / variant.opened : 0,
+        revenue_per_recipient: variant.delivered > 0 ? (variant.revenue || 0) / variant.delivered : 0
+      })),
+      omnibus,
+      comparisons,
+      confidence_level: this.confidenceLevel,
+      minimum_sample_size: minimumSampleSize,
+      sample_size_adequate: sampleSizeAdequate,
+      test_duration_days: testDurationDays,
+      winner,
+      winner_variant_id: winnerVariantId,
+      recommendation
+    }
+  }
+
+  private compareVariants(variantA: ABTestVariant, variantB: ABTestVariant): Omit<VariantComparison, 'variant_id'> {
+    return {
+      open_rate_significance: this.analyzeMetric(
+        'Open Rate',
+        { successes: variantA.opened, trials: variantA.delivered },
+        { successes: variantB.opened, trials: variantB.delivered }
+      ),
+      // Click rate is based on delivered emails
+      click_rate_significance: this.analyzeMetric(
+        'Click Rate',
+        { successes: variantA.clicked, trials: variantA.delivered },
+        { successes: variantB.clicked, trials: variantB.delivered }
+      ),
+      // Conversion is click-to-open
+      conversion_significance: this.analyzeMetric(
+        'Click-to-Open Rate',
+        { successes: variantA.clicked, trials: variantA.opened },
+        { successes: variantB.clicked, trials: variantB.opened }
+      ),
+      revenue_significance: this.analyzeRevenue(
+        'Revenue per Recipient',
+        { sum: variantA.revenue || 0, sumSquares: variantA.revenue_sum_squares, trials: variantA.delivered },
+        { sum: variantB.revenue || 0, sumSquares: variantB.revenue_sum_squares, trials: variantB.delivered }
+      )
+    }
+  }
+
   // Main analysis function
   analyzeABTest(variantA: ABTestVariant, variantB: ABTestVariant, testDurationDays: number): ABTestResult {
-    // Calculate open rates
-    const openRateAnalysis = this.analyzeMetric(
-      'Open Rate',
-      { successes: variantA.opened, trials: variantA.delivered },
-      { successes: variantB.opened, trials: variantB.delivered }
-    )
-
-    // Calculate click rates (based on delivered emails)
-    const clickRateAnalysis = this.analyzeMetric(
-      'Click Rate',
-      { successes: variantA.clicked, trials: variantA.delivered },
-      { successes: variantB.clicked, trials: variantB.delivered }
-    )
-
-    // Calculate conversion rates (click-to-open)
-    const conversionAnalysis = this.analyzeMetric(
-      'Click-to-Open Rate',
-      { successes: variantA.clicked, trials: variantA.opened },
-      { successes: variantB.clicked, trials: variantB.opened }
-    )
+    const {
+      open_rate_significance: openRateAnalysis,
+      click_rate_significance: clickRateAnalysis,
+      conversion_significance: conversionAnalysis,
+      revenue_significance: revenueAnalysis
+    } = this.compareVariants(variantA, variantB)
 
     // Determine if sample size is adequate
-    const totalDelivered = variantA.delivered + variantB.delivered
-    const minSampleSize = this.calculateMinimumSampleSize(0.20, 0.02) // 20% baseline, 2% improvement
-    const sampleSizeAdequate = totalDelivered >= minSampleSize
+    const smallestVariant = Math.min(variantA.delivered, variantB.delivered)
+    const minSampleSize = this.calculateMinimumSampleSize(0.20, 0.02, 0.8, 1 - this.confidenceLevel) // 20% baseline, 2% improvement
+    const sampleSizeAdequate = smallestVariant >= minSampleSize
 
     // Determine winner
     let winner: 'A' | 'B' | 'inconclusive' = 'inconclusive'
@@ -286,7 +698,7 @@ export class ABTestAnalyzer {
         recommendation = 'No significant difference found after 14 days. Consider this test inconclusive.'
       }
     } else if (!sampleSizeAdequate) {
-      recommendation = `Need more data. Current sample: ${totalDelivered}, required: ${minSampleSize}`
+      recommendation = `Need more data. Smallest variant: ${smallestVariant}, required per variant: ${minSampleSize}`
     } else {
       recommendation = `Continue testing. Current duration: ${testDurationDays} days, minimum: 3 days`
     }
@@ -300,12 +712,15 @@ export class ABTestAnalyzer {
         click_rate_a: clickRateAnalysis.variant_a_rate,
         click_rate_b: clickRateAnalysis.variant_b_rate,
         conversion_rate_a: conversionAnalysis.variant_a_rate,
-        conversion_rate_b: conversionAnalysis.variant_b_rate
+        conversion_rate_b: conversionAnalysis.variant_b_rate,
+        revenue_per_recipient_a: revenueAnalysis.variant_a_rate,
+        revenue_per_recipient_b: revenueAnalysis.variant_b_rate
       },
       statistical_analysis: {
         open_rate_significance: openRateAnalysis,
         click_rate_significance: clickRateAnalysis,
         conversion_significance: conversionAnalysis,
+        revenue_significance: revenueAnalysis,
         confidence_level: this.confidenceLevel,
         sample_size_adequate: sampleSizeAdequate,
         test_duration_days: testDurationDays,
@@ -0,0 +1,4 @@
+// Public base URL for links rendered into emails, without a trailing slash
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
@@ -0,0 +1,55 @@
+// Testes das ações de automação e da validação do fluxo
+
+import { buildLeadUpdate, getActionConfigError, validateFlowDefinition } from '../actions'
+
+const step = (id: string, type: string, config: any = {}) => ({ id, type, name: id, config })
+
+describe('actions', () => {
+  it('deve validar a configuração de cada ação', () => {
+    expect(getActionConfigError('action-remove-tag_1_a', { tag_name: 'vip' })).toBeNull()
+    expect(getActionConfigError('action-remove-tag_1_a', { tag_name: '  ' })).toBe('Tag is required')
+    expect(getActionConfigError('action-update-field_1_a', { field: 'custom_fields.plano', value: 'pro' })).toBeNull()
+    expect(getActionConfigError('action-update-field_1_a', { field: 'email', value: 'x@y.com' }))
+      .toBe('Field must be a lead field or custom_fields.<key>')
+    expect(getActionConfigError('action-change-status_1_a', { status: 'deleted' })).toBe('Invalid lead status')
+    expect(getActionConfigError('action-increment-score_1_a', { amount: 0 })).toBe('Amount must not be zero')
+    expect(getActionConfigError('action-increment-score_1_a', { amount: 2.5 })).toBe('Amount must be a whole number')
+    expect(getActionConfigError('action-notify-member_1_a', { member_user_id: 'user-1', subject: 'Oi' }))
+      .toBe('Message is required')
+    // Ações sem configuração obrigatória
+    expect(getActionConfigError('action-send-email_1_a', {})).toBeNull()
+    expect(getActionConfigError('action-exit-automations_1_a', undefined)).toBeNull()
+  })
+
+  it('deve apontar etapas inválidas, autoinício e saltos para etapas inexistentes', () => {
+    const steps = [
+      step('trigger-new-lead_1_a', 'trigger'),
+      step('action-add-to-list_1_b', 'action', { list_id: '' }),
+      step('action-start-automation_1_c', 'action', { automation_id: 'auto-1' }),
+      step('delay-wait-event_1_d', 'delay', { event_next_step: 'action-send-email_9_z' })
+    ]
+
+    expect(validateFlowDefinition(steps, { automationId: 'auto-1' })).toEqual([
+      { step_id: 'action-add-to-list_1_b', step_name: 'action-add-to-list_1_b', message: 'List is required' },
+      { step_id: 'action-start-automation_1_c', step_name: 'action-start-automation_1_c', message: 'An automation cannot start itself' },
+      { step_id: 'delay-wait-event_1_d', step_name: 'delay-wait-event_1_d', message: 'Unknown target step: action-send-email_9_z' }
+    ])
+    expect(validateFlowDefinition([step('action-add-tag_1_a', 'action', { tag_name: 'vip' })])[0].message)
+      .toBe('The first step must be a trigger')
+    expect(validateFlowDefinition([])).toEqual([{ message: 'Flow has no steps' }])
+  })
+
+  it('deve montar a atualização do lead e ignorar o que não muda', () => {
+    const lead = { tags: ['cliente'], company: 'Acme', status: 'active', custom_fields: { plano: 'free' } }
+    const now = new Date('2025-05-10T12:00:00Z')
+
+    expect(buildLeadUpdate('action-add-tag_1_a', { tag_name: 'vip' }, lead)).toEqual({ tags: ['cliente', 'vip'] })
+    expect(buildLeadUpdate('action-add-tag_1_a', { tag_name: 'cliente' }, lead)).toBeNull()
+    expect(buildLeadUpdate('action-remove-tag_1_a', { tag_name: 'cliente' }, lead)).toEqual({ tags: [] })
+    expect(buildLeadUpdate('action-update-field_1_a', { field: 'company', value: 'Acme' }, lead)).toBeNull()
+    expect(buildLeadUpdate('action-update-field_1_a', { field: 'custom_fields.plano', value: 'pro' }, lead))
+      .toEqual({ custom_fields: { plano: 'pro' } })
+    expect(buildLeadUpdate('action-change-status_1_a', { status: 'unsubscribed' }, lead, now))
+      .toEqual({ status: 'unsubscribed', unsubscribed_at: '2025-05-10T12:00:00.000Z' })
+  })
+})
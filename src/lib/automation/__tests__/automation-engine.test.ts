@@ -0,0 +1,531 @@
+// Testes do motor de automações: entrada de leads, posse das execuções e recuperação
+
+const mockFrom = jest.fn()
+const mockRpc = jest.fn()
+const mockSendEmail = jest.fn()
+const mockIsSuppressed = jest.fn()
+const mockScheduleStep = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  createSupabaseClient: () => ({
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }),
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+jest.mock('../../queue/jobs/automation-steps', () => ({
+  automationStepService: {
+    scheduleStep: (...args: any[]) => mockScheduleStep(...args)
+  }
+}))
+
+jest.mock('../../resend', () => ({
+  sendEmail: (...args: any[]) => mockSendEmail(...args)
+}))
+
+jest.mock('../../subscriptions/subscription-service', () => ({
+  subscriptionService: {
+    buildLinks: () => ({
+      unsubscribe_url: 'https://app.test/u/token',
+      preferences_url: 'https://app.test/u/token/preferences',
+      one_click_url: 'https://app.test/api/unsubscribe/token'
+    }),
+    ensureUnsubscribeLink: (html: string) => html
+  }
+}))
+
+jest.mock('../../suppression/suppression-list', () => ({
+  suppressionList: {
+    isSuppressed: (...args: any[]) => mockIsSuppressed(...args)
+  }
+}))
+
+jest.mock('../advanced-conditions', () => ({
+  advancedConditionEngine: {}
+}))
+
+import { AutomationEngine, automationEngine } from '../automation-engine'
+import { automationTriggerDispatcher } from '../trigger-dispatcher'
+import { verifyClickToken, verifyOpenToken } from '../../tracking/tracking-tokens'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'insert', 'update', 'upsert', 'delete', 'eq', 'neq', 'in', 'is', 'lt', 'lte', 'gte', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+// Hands out the queued queries of each table in call order
+function mockTables(tables: Record<string, any[]>) {
+  mockFrom.mockImplementation((table: string) => {
+    const query = tables[table]?.shift()
+    if (!query) {
+      throw new Error(`Unexpected query on ${table}`)
+    }
+    return query
+  })
+}
+
+const automation = {
+  id: 'auto-1',
+  workspace_id: 'ws-1',
+  status: 'active',
+  flow_definition: { steps: [], version: '1' },
+  entry_policy: null
+}
+
+describe('AutomationEngine', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockRpc.mockReset()
+    mockSendEmail.mockReset()
+    mockScheduleStep.mockReset()
+  })
+
+  describe('executeAutomation', () => {
+    it('deve enfileirar o primeiro passo das execuções iniciadas pelas rotas', async () => {
+      const runInsert = createQuery({ data: { id: 'run-1', status: 'pending' }, error: null })
+      mockTables({
+        automation_flows: [
+          createQuery({ data: { id: 'auto-1', workspace_id: 'ws-1' }, error: null }),
+          createQuery({ data: automation, error: null })
+        ],
+        leads: [
+          createQuery({ data: { id: 'lead-1', email: 'ana@example.com', tags: [], custom_fields: {} }, error: null }),
+          createQuery({ data: { id: 'lead-1', email: 'ana@example.com' }, error: null }),
+          createQuery({ data: { id: 'lead-1', email: 'ana@example.com' }, error: null })
+        ],
+        automation_runs: [createQuery({ data: [], error: null }), runInsert]
+      })
+
+      const processAutomationRun = jest.spyOn(automationEngine, 'processAutomationRun')
+
+      // O webhook de entrada usa o mesmo dispatcher e motor que as rotas da API
+      const result = await automationTriggerDispatcher.handleInboundWebhook('segredo', { email: 'ana@example.com' })
+
+      expect(result?.run_id).toBe('run-1')
+      expect(runInsert.insert.mock.calls[0][0].next_execution_at).toEqual(expect.any(String))
+      expect(mockScheduleStep).toHaveBeenCalledWith({ runId: 'run-1', stepIndex: 0, runAt: expect.any(Date) })
+      // Nenhum passo roda no processo da requisição
+      expect(processAutomationRun).not.toHaveBeenCalled()
+      processAutomationRun.mockRestore()
+    })
+
+    it('deve registrar a entrada como ignorada quando o banco recusa uma segunda execução ativa', async () => {
+      const runInsert = createQuery({ data: null, error: { code: '23505', message: 'duplicate key value' } })
+      const skippedInsert = createQuery({
+        data: { id: 'run-skipped', status: 'cancelled', execution_data: { skipped: true, skip_reason: 'reentry_active_run' } },
+        error: null
+      })
+      mockFrom
+        .mockReturnValueOnce(createQuery({ data: automation, error: null }))
+        .mockReturnValueOnce(createQuery({ data: { id: 'lead-1' }, error: null }))
+        .mockReturnValueOnce(createQuery({ data: [], error: null }))
+        .mockReturnValueOnce(runInsert)
+        .mockReturnValueOnce(skippedInsert)
+
+      const engine = new AutomationEngine()
+      engine.setStepScheduler({ scheduleStep: jest.fn() })
+
+      const run = await engine.executeAutomation('auto-1', 'lead-1', { source: 'form' })
+
+      expect(runInsert.insert.mock.calls[0][0]).toMatchObject({ status: 'pending', single_active_run: true })
+      expect(skippedInsert.insert.mock.calls[0][0]).toMatchObject({
+        status: 'cancelled',
+        execution_data: { source: 'form', skipped: true, skip_reason: 'reentry_active_run' }
+      })
+      expect(run.id).toBe('run-skipped')
+    })
+
+    it('não deve travar execuções simultâneas quando a política as permite', async () => {
+      const runInsert = createQuery({ data: { id: 'run-1' }, error: null })
+      const scheduleStep = jest.fn()
+      mockFrom
+        .mockReturnValueOnce(createQuery({ data: { ...automation, entry_policy: { reentry: 'always', max_concurrent_runs: 3 } }, error: null }))
+        .mockReturnValueOnce(createQuery({ data: { id: 'lead-1' }, error: null }))
+        .mockReturnValueOnce(createQuery({ data: [], error: null }))
+        .mockReturnValueOnce(runInsert)
+
+      const engine = new AutomationEngine()
+      engine.setStepScheduler({ scheduleStep })
+
+      await engine.executeAutomation('auto-1', 'lead-1')
+
+      expect(runInsert.insert.mock.calls[0][0].single_active_run).toBe(false)
+      expect(scheduleStep).toHaveBeenCalledWith(expect.objectContaining({ runId: 'run-1', stepIndex: 0 }))
+    })
+  })
+
+  describe('processAutomationRun', () => {
+    const action = { id: 'action-send-email_1', type: 'action', name: 'Boas-vindas', description: '', config: {} } as any
+
+    const runData = (overrides: Record<string, any> = {}) => ({
+      id: 'run-1',
+      status: 'running',
+      current_step_index: 0,
+      step_sequence: 0,
+      execution_data: {},
+      retry_count: 0,
+      max_retries: 3,
+      automation_flows: { ...automation, flow_definition: { steps: [action], version: '1' } },
+      automation_flow_versions: null,
+      leads: { id: 'lead-1', email: 'ana@example.com' },
+      ...overrides
+    })
+
+    it('deve ignorar jobs duplicados quando outra instância já assumiu a execução', async () => {
+      const claim = createQuery({ data: [], error: null })
+      mockTables({ automation_runs: [claim] })
+
+      const engine = new AutomationEngine()
+      const executeStep = jest.spyOn(engine, 'executeStep')
+
+      await engine.processAutomationRun('run-1', { stepIndex: 0, runAt: new Date('2025-05-10T12:00:00Z') })
+
+      expect(claim.eq).toHaveBeenCalledWith('status', 'pending')
+      expect(claim.eq).toHaveBeenCalledWith('current_step_index', 0)
+      expect(mockFrom).toHaveBeenCalledTimes(1)
+      expect(executeStep).not.toHaveBeenCalled()
+    })
+
+    it('deve reaproveitar o resultado de um passo já concluído sem repetir o envio', async () => {
+      const completed = createQuery({ data: null, error: null })
+      mockTables({
+        automation_runs: [
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          createQuery({ data: runData(), error: null }),
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          completed
+        ],
+        automation_step_executions: [
+          createQuery({ data: null, error: { code: '23505', message: 'duplicate key value' } }),
+          createQuery({ data: { id: 'exec-1', status: 'completed', result_data: { success: true } }, error: null })
+        ]
+      })
+
+      const engine = new AutomationEngine()
+      const executeStep = jest.spyOn(engine, 'executeStep')
+
+      await engine.processAutomationRun('run-1')
+
+      expect(executeStep).not.toHaveBeenCalled()
+      expect(mockSendEmail).not.toHaveBeenCalled()
+      expect(completed.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }))
+    })
+
+    it('deve reagendar o passo com falha enquanto houver tentativas', async () => {
+      const retry = createQuery({ data: null, error: null })
+      const scheduleStep = jest.fn()
+      mockTables({
+        automation_runs: [
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          createQuery({ data: runData({ retry_count: 1 }), error: null }),
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          retry
+        ],
+        automation_step_executions: [
+          createQuery({ data: { id: 'exec-1' }, error: null }),
+          createQuery({ data: null, error: null })
+        ]
+      })
+
+      const engine = new AutomationEngine()
+      engine.setStepScheduler({ scheduleStep })
+      jest.spyOn(engine, 'executeStep').mockRejectedValue(new Error('provider down'))
+
+      await engine.processAutomationRun('run-1')
+
+      expect(retry.update).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'pending',
+        retry_count: 2,
+        error_message: 'provider down',
+        locked_until: null
+      }))
+      expect(scheduleStep).toHaveBeenCalledWith(expect.objectContaining({ runId: 'run-1', stepIndex: 0 }))
+    })
+
+    it('deve falhar a execução quando as tentativas se esgotam', async () => {
+      const failed = createQuery({ data: null, error: null })
+      const scheduleStep = jest.fn()
+      mockTables({
+        automation_runs: [
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          createQuery({ data: runData({ retry_count: 3 }), error: null }),
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          failed,
+          createQuery({ data: null, error: null })
+        ],
+        automation_step_executions: [
+          createQuery({ data: { id: 'exec-1' }, error: null }),
+          createQuery({ data: null, error: null })
+        ]
+      })
+
+      const engine = new AutomationEngine()
+      engine.setStepScheduler({ scheduleStep })
+      jest.spyOn(engine, 'executeStep').mockRejectedValue(new Error('provider down'))
+
+      await expect(engine.processAutomationRun('run-1')).rejects.toThrow('provider down')
+
+      expect(failed.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', error_message: 'provider down' }))
+      expect(scheduleStep).not.toHaveBeenCalled()
+    })
+
+    it('deve tentar de novo um webhook que respondeu com erro e falhar a execução na última tentativa', async () => {
+      const webhook = { id: 'action-webhook_1', type: 'action', name: 'CRM', description: '', config: { webhook_url: 'https://hooks.example.com/lead' } }
+      const flow = { ...automation, flow_definition: { steps: [webhook], version: '1' } }
+      const originalFetch = global.fetch
+      const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' })
+      global.fetch = fetchMock as any
+      const scheduleStep = jest.fn()
+      const engine = new AutomationEngine()
+      engine.setStepScheduler({ scheduleStep })
+
+      try {
+        const retry = createQuery({ data: null, error: null })
+        const failedExecution = createQuery({ data: null, error: null })
+        mockTables({
+          automation_runs: [
+            createQuery({ data: [{ id: 'run-1' }], error: null }),
+            createQuery({ data: runData({ retry_count: 0, automation_flows: flow }), error: null }),
+            createQuery({ data: [{ id: 'run-1' }], error: null }),
+            retry
+          ],
+          automation_step_executions: [createQuery({ data: { id: 'exec-1' }, error: null }), failedExecution]
+        })
+
+        await engine.processAutomationRun('run-1')
+
+        expect(failedExecution.update).toHaveBeenCalledWith(expect.objectContaining({
+          status: 'failed',
+          error_message: 'Webhook failed: 500 Internal Server Error'
+        }))
+        expect(retry.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', retry_count: 1 }))
+        expect(scheduleStep).toHaveBeenCalledWith(expect.objectContaining({ runId: 'run-1', stepIndex: 0 }))
+
+        // Última tentativa: a execução do passo é retomada e a falha encerra a execução
+        const failed = createQuery({ data: null, error: null })
+        mockTables({
+          automation_runs: [
+            createQuery({ data: [{ id: 'run-1' }], error: null }),
+            createQuery({ data: runData({ retry_count: 3, automation_flows: flow }), error: null }),
+            createQuery({ data: [{ id: 'run-1' }], error: null }),
+            failed,
+            createQuery({ data: null, error: null })
+          ],
+          automation_step_executions: [
+            createQuery({ data: null, error: { code: '23505', message: 'duplicate key value' } }),
+            createQuery({ data: { id: 'exec-1', status: 'failed', result_data: null }, error: null }),
+            createQuery({ data: null, error: null }),
+            createQuery({ data: null, error: null })
+          ]
+        })
+
+        await expect(engine.processAutomationRun('run-1')).rejects.toThrow('Webhook failed: 500')
+
+        expect(fetchMock).toHaveBeenCalledTimes(2)
+        expect(failed.update).toHaveBeenCalledWith(expect.objectContaining({
+          status: 'failed',
+          error_message: 'Webhook failed: 500 Internal Server Error'
+        }))
+        expect(scheduleStep).toHaveBeenCalledTimes(1)
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
+
+    it('deve renovar o lease a cada passo e parar quando a execução foi devolvida à fila', async () => {
+      const lease = createQuery({ data: [], error: null })
+      mockTables({
+        automation_runs: [
+          createQuery({ data: [{ id: 'run-1' }], error: null }),
+          createQuery({ data: runData(), error: null }),
+          lease
+        ]
+      })
+
+      const engine = new AutomationEngine()
+      const executeStep = jest.spyOn(engine, 'executeStep')
+
+      await engine.processAutomationRun('run-1')
+
+      const update = lease.update.mock.calls[0][0]
+      expect(new Date(update.locked_until).getTime()).toBeGreaterThan(Date.now() + 5 * 60 * 1000)
+      expect(lease.eq).toHaveBeenCalledWith('status', 'running')
+      expect(executeStep).not.toHaveBeenCalled()
+      expect(mockFrom).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('recoverStalledRuns', () => {
+    it('deve devolver à fila as execuções com lease vencido', async () => {
+      const recovery = createQuery({ data: [{ id: 'run-1' }, { id: 'run-2' }], error: null })
+      mockTables({ automation_runs: [recovery] })
+
+      const recovered = await new AutomationEngine().recoverStalledRuns()
+
+      expect(recovered).toBe(2)
+      expect(recovery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', locked_until: null }))
+      expect(recovery.eq).toHaveBeenCalledWith('status', 'running')
+      expect(recovery.lt).toHaveBeenCalledWith('locked_until', expect.any(String))
+    })
+  })
+
+  describe('executeStep em simulação', () => {
+    const originalFetch = global.fetch
+    const fetchMock = jest.fn()
+    const queries: any[] = []
+
+    const step = (id: string, config: Record<string, any>) => ({ id, type: 'action', name: id, description: '', config }) as any
+
+    // Every read returns the given row; writes are asserted to never happen
+    function mockReads(rows: Record<string, any>) {
+      mockFrom.mockImplementation((table: string) => {
+        const query = createQuery({ data: rows[table] ?? null, error: null })
+        queries.push(query)
+        return query
+      })
+    }
+
+    function dryRunContext() {
+      return {
+        lead: { id: 'lead-1', email: 'ana@example.com', name: 'Ana', status: 'active', tags: ['cliente'], company: 'Antiga' },
+        automation: { ...automation, name: 'Boas-vindas' },
+        run: { id: 'dry-run', execution_data: {} },
+        variables: {},
+        workspace_id: 'ws-1',
+        dry_run: { now: new Date('2025-05-10T12:00:00Z') }
+      } as any
+    }
+
+    beforeEach(() => {
+      queries.length = 0
+      fetchMock.mockReset()
+      global.fetch = fetchMock as any
+      mockIsSuppressed.mockResolvedValue(false)
+      mockReads({
+        workspaces: { settings: {} },
+        email_templates: { subject: 'Olá {{name}}', html_content: '<p>Oi {{name}}</p>', text_content: 'Oi {{name}}' },
+        lists: { id: 'list-1' },
+        automation_flows: { id: 'auto-2', status: 'active' }
+      })
+    })
+
+    afterEach(() => {
+      global.fetch = originalFetch
+      for (const query of queries) {
+        for (const write of ['insert', 'update', 'upsert', 'delete']) {
+          expect(query[write]).not.toHaveBeenCalled()
+        }
+      }
+      expect(mockSendEmail).not.toHaveBeenCalled()
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('deve renderizar o email sem enviá-lo', async () => {
+      const result = await new AutomationEngine().executeStep(step('action-send-email_1', { template_id: 'tpl-1' }), dryRunContext())
+
+      expect(result.data.dry_run_email).toMatchObject({ to: 'ana@example.com', subject: 'Olá Ana', text: 'Oi Ana' })
+      expect(result.data.sent_at).toBe('2025-05-10T12:00:00.000Z')
+    })
+
+    it('deve alterar tags e campos apenas na memória', async () => {
+      const engine = new AutomationEngine()
+      const context = dryRunContext()
+
+      const tagged = await engine.executeStep(step('action-add-tag_1', { tag_name: 'vip' }), context)
+      const updated = await engine.executeStep(step('action-update-field_1', { field: 'company', value: 'Acme' }), context)
+
+      expect(tagged.data).toEqual({ tag_added: 'vip' })
+      expect(updated.data).toEqual({ field_updated: 'company' })
+      expect(context.lead.tags).toEqual(['cliente', 'vip'])
+      expect(context.lead.company).toBe('Acme')
+    })
+
+    it('deve simular a entrada e a saída de listas', async () => {
+      const engine = new AutomationEngine()
+
+      const added = await engine.executeStep(step('action-add-to-list_1', { list_id: 'list-1' }), dryRunContext())
+      const removed = await engine.executeStep(step('action-remove-from-list_1', { list_id: 'list-1' }), dryRunContext())
+
+      expect(added.data).toEqual({ list_added: 'list-1' })
+      expect(removed.data).toEqual({ list_removed: 'list-1' })
+    })
+
+    it('deve simular o início de outra automação sem criar execução', async () => {
+      const engine = new AutomationEngine()
+      const executeAutomation = jest.spyOn(engine, 'executeAutomation')
+
+      const result = await engine.executeStep(step('action-start-automation_1', { automation_id: 'auto-2' }), dryRunContext())
+
+      expect(result.data).toEqual({ automation_started: 'auto-2' })
+      expect(executeAutomation).not.toHaveBeenCalled()
+    })
+
+    it('deve pular o webhook', async () => {
+      const result = await new AutomationEngine().executeStep(
+        step('action-webhook_1', { webhook_url: 'https://hooks.example.com/lead' }),
+        dryRunContext()
+      )
+
+      expect(result.data).toEqual({ webhook_skipped: true, webhook_url: 'https://hooks.example.com/lead' })
+    })
+  })
+
+  describe('envio de email', () => {
+    beforeEach(() => {
+      process.env.TRACKING_TOKEN_SECRET = 'test-secret'
+      process.env.NEXT_PUBLIC_APP_URL = 'https://app.test'
+      mockIsSuppressed.mockResolvedValue(false)
+    })
+
+    afterEach(() => {
+      delete process.env.TRACKING_TOKEN_SECRET
+      delete process.env.NEXT_PUBLIC_APP_URL
+    })
+
+    it('deve rastrear aberturas e cliques do email da automação', async () => {
+      const sendInsert = createQuery({ data: null, error: null })
+      mockTables({
+        workspaces: [createQuery({ data: { settings: {} }, error: null })],
+        email_templates: [createQuery({
+          data: { subject: 'Olá', html_content: '<p><a href="https://loja.com/oferta">Ver oferta</a></p>', text_content: 'Oi' },
+          error: null
+        })],
+        email_sends: [sendInsert]
+      })
+      mockSendEmail.mockResolvedValue({ success: true, id: 'msg-1', provider: 'resend' })
+
+      const result = await new AutomationEngine().executeStep(
+        { id: 'action-send-email_1', type: 'action', name: 'Oferta', description: '', config: { template_id: 'tpl-1' } } as any,
+        {
+          lead: { id: 'lead-1', email: 'ana@example.com', name: 'Ana', status: 'active' },
+          automation: { ...automation, name: 'Oferta' },
+          run: { id: 'run-1', execution_data: {} },
+          variables: {},
+          workspace_id: 'ws-1'
+        } as any
+      )
+
+      expect(result.success).toBe(true)
+      const html: string = mockSendEmail.mock.calls[0][0].html
+      const openToken = decodeURIComponent(html.match(/https:\/\/app\.test\/t\/o\/([^"]+)/)![1])
+      const clickToken = decodeURIComponent(html.match(/https:\/\/app\.test\/t\/c\/([^"]+)/)![1])
+      const sendId = sendInsert.insert.mock.calls[0][0].id
+
+      // Os tokens apontam para a linha de email_sends gravada, sem campanha
+      expect(verifyOpenToken(openToken)).toEqual({ sendId, workspaceId: 'ws-1', leadId: 'lead-1' })
+      expect(verifyClickToken(clickToken)).toMatchObject({ sendId, position: 1, url: 'https://loja.com/oferta' })
+      expect(sendInsert.insert).toHaveBeenCalledWith(expect.objectContaining({ resend_id: 'msg-1', automation_run_id: 'run-1' }))
+    })
+  })
+})
@@ -0,0 +1,117 @@
+// Testes da inscrição e do cancelamento em massa de leads nas automações
+
+const mockFrom = jest.fn()
+const mockExecuteAutomation = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+jest.mock('../../segments/segment-engine', () => ({
+  segmentEngine: {
+    iterateSegmentRecipients: jest.fn()
+  }
+}))
+
+jest.mock('../automation-engine', () => ({
+  automationEngine: {
+    executeAutomation: (...args: any[]) => mockExecuteAutomation(...args)
+  }
+}))
+
+import { AutomationBulkEnrollmentService, parseEmailList } from '../bulk-enrollment'
+
+// Chainable query builder; awaiting it (or maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'update', 'eq', 'in', 'order', 'range']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+describe('bulk-enrollment', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockExecuteAutomation.mockReset()
+  })
+
+  it('deve extrair emails de qualquer coluna do CSV', () => {
+    const csv = 'nome,email\n"Ana","Ana@Exemplo.com"\nBruno;bruno@exemplo.com\nsem email\nana@exemplo.com'
+
+    expect(parseEmailList(csv)).toEqual(['ana@exemplo.com', 'bruno@exemplo.com'])
+  })
+
+  it('deve resolver o CSV para leads do workspace e contar os não encontrados', async () => {
+    const leadsQuery = createQuery({ data: [{ id: 'lead-1' }], error: null })
+    mockFrom.mockReturnValueOnce(leadsQuery)
+
+    const service = new AutomationBulkEnrollmentService()
+    const resolved = await service.resolveLeads('ws-1', { type: 'csv', csv: 'ana@exemplo.com\nzeca@exemplo.com' })
+
+    expect(resolved).toEqual({ lead_ids: ['lead-1'], not_found: 1 })
+    expect(leadsQuery.eq).toHaveBeenCalledWith('workspace_id', 'ws-1')
+    expect(leadsQuery.in).toHaveBeenCalledWith('email', ['ana@exemplo.com', 'zeca@exemplo.com'])
+  })
+
+  it('deve recusar inscrição em fluxos inativos mas permitir cancelar', async () => {
+    mockFrom.mockReturnValue(createQuery({ data: { id: 'auto-1', status: 'paused' }, error: null }))
+
+    const service = new AutomationBulkEnrollmentService()
+
+    await expect(service.checkAutomation('ws-1', 'auto-1', 'enroll')).rejects.toThrow('Automation is not active')
+    await expect(service.checkAutomation('ws-1', 'auto-1', 'cancel')).resolves.toBeUndefined()
+  })
+
+  it('deve contar inscritos, barrados pela política de entrada e falhas', async () => {
+    mockExecuteAutomation
+      .mockResolvedValueOnce({ id: 'run-1', status: 'pending', execution_data: {} })
+      .mockResolvedValueOnce({ id: 'run-2', status: 'cancelled', execution_data: { skip_reason: 'already_enrolled' } })
+      .mockRejectedValueOnce(new Error('Lead not found: lead-3'))
+    mockFrom.mockReturnValueOnce(createQuery({ data: [], error: null }))
+
+    const service = new AutomationBulkEnrollmentService()
+    const result = await service.enrollLeads('auto-1', ['lead-1', 'lead-2', 'lead-3'], { bulk_enrollment_id: 'op-1' })
+
+    expect(result).toEqual({ succeeded: 1, skipped: 1, failed: 1, errors: ['lead-3: Lead not found: lead-3'] })
+    expect(mockExecuteAutomation).toHaveBeenCalledWith('auto-1', 'lead-1', { bulk_enrollment_id: 'op-1' })
+  })
+
+  it('deve contar sem reinscrever os leads que uma tentativa anterior do lote já inscreveu', async () => {
+    const runsQuery = createQuery({
+      data: [
+        { lead_id: 'lead-1', execution_data: { bulk_enrollment_id: 'op-1' } },
+        { lead_id: 'lead-2', execution_data: { bulk_enrollment_id: 'op-1', skip_reason: 'reentry_never' } }
+      ],
+      error: null
+    })
+    mockFrom.mockReturnValueOnce(runsQuery)
+    mockExecuteAutomation.mockResolvedValueOnce({ id: 'run-3', status: 'pending', execution_data: {} })
+
+    const service = new AutomationBulkEnrollmentService()
+    const result = await service.enrollLeads('auto-1', ['lead-1', 'lead-2', 'lead-3'], { bulk_enrollment_id: 'op-1' })
+
+    expect(result).toEqual({ succeeded: 2, skipped: 1, failed: 0, errors: [] })
+    expect(mockExecuteAutomation).toHaveBeenCalledTimes(1)
+    expect(mockExecuteAutomation).toHaveBeenCalledWith('auto-1', 'lead-3', { bulk_enrollment_id: 'op-1' })
+    expect(runsQuery.eq).toHaveBeenCalledWith('execution_data->>bulk_enrollment_id', 'op-1')
+    expect(runsQuery.in).toHaveBeenCalledWith('lead_id', ['lead-1', 'lead-2', 'lead-3'])
+  })
+
+  it('deve cancelar apenas execuções pendentes do fluxo', async () => {
+    const runsQuery = createQuery({ data: [{ lead_id: 'lead-1' }], error: null })
+    mockFrom.mockReturnValueOnce(runsQuery)
+
+    const service = new AutomationBulkEnrollmentService()
+    const result = await service.cancelRuns('auto-1', ['lead-1', 'lead-2'], 'Cancelled by bulk operation op-1')
+
+    expect(result).toEqual({ succeeded: 1, skipped: 1, failed: 0, errors: [] })
+    expect(runsQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled', error_message: 'Cancelled by bulk operation op-1' }))
+    expect(runsQuery.eq).toHaveBeenCalledWith('status', 'pending')
+    expect(runsQuery.in).toHaveBeenCalledWith('lead_id', ['lead-1', 'lead-2'])
+  })
+})
@@ -0,0 +1,72 @@
+// Testes das políticas de entrada e dos limites de envio das automações
+
+import {
+  allowsSingleActiveRun,
+  getDeliverySettings,
+  getEntryBlockReason,
+  getQuietHoursEnd,
+  isInQuietHours
+} from '../delivery-policies'
+
+const now = new Date('2025-05-10T12:00:00Z')
+const completedRun = { status: 'completed', started_at: '2025-05-01T12:00:00Z' }
+const activeRun = { status: 'pending', started_at: '2025-05-09T12:00:00Z' }
+
+describe('delivery-policies', () => {
+  it('deve permitir a primeira entrada em qualquer política', () => {
+    expect(getEntryBlockReason({ reentry: 'never' }, [], now)).toBeNull()
+    expect(getEntryBlockReason(null, [], now)).toBeNull()
+  })
+
+  it('deve aplicar as regras de reentrada', () => {
+    expect(getEntryBlockReason({ reentry: 'never' }, [completedRun], now)).toBe('reentry_never')
+
+    // Padrão: só depois de concluir a execução anterior
+    expect(getEntryBlockReason(undefined, [completedRun], now)).toBeNull()
+    expect(getEntryBlockReason(undefined, [activeRun, completedRun], now)).toBe('reentry_active_run')
+
+    expect(getEntryBlockReason({ reentry: 'after_days', reentry_days: 7 }, [completedRun], now)).toBeNull()
+    expect(getEntryBlockReason({ reentry: 'after_days', reentry_days: 10 }, [completedRun], now)).toBe('reentry_too_soon')
+  })
+
+  it('deve limitar execuções simultâneas por lead', () => {
+    const policy = { reentry: 'always' as const, max_concurrent_runs: 2 }
+
+    expect(getEntryBlockReason(policy, [activeRun], now)).toBeNull()
+    expect(getEntryBlockReason(policy, [activeRun, activeRun], now)).toBe('max_concurrent_runs')
+    expect(getEntryBlockReason({ reentry: 'always', max_concurrent_runs: null }, [activeRun, activeRun, activeRun], now)).toBeNull()
+  })
+
+  it('deve indicar quando o banco pode travar uma execução ativa por lead', () => {
+    expect(allowsSingleActiveRun(undefined)).toBe(true)
+    expect(allowsSingleActiveRun({ reentry: 'never', max_concurrent_runs: null })).toBe(true)
+    expect(allowsSingleActiveRun({ reentry: 'always', max_concurrent_runs: 1 })).toBe(true)
+    expect(allowsSingleActiveRun({ reentry: 'always', max_concurrent_runs: 2 })).toBe(false)
+    expect(allowsSingleActiveRun({ reentry: 'after_days', max_concurrent_runs: null })).toBe(false)
+  })
+
+  it('deve ignorar limites incompletos nas configurações do workspace', () => {
+    expect(getDeliverySettings({})).toEqual({ frequency_cap: null, quiet_hours: null })
+    expect(getDeliverySettings({ delivery: { frequency_cap: { max_emails: 0, period_hours: 24 } } }).frequency_cap).toBeNull()
+    expect(getDeliverySettings({ delivery: { quiet_hours: { start: '22:00', end: '08:00' } } }).quiet_hours).toEqual({ start: '22:00', end: '08:00' })
+  })
+
+  it('deve reconhecer horários de silêncio que atravessam a meia-noite', () => {
+    const quiet = { start: '22:00', end: '08:00' }
+
+    expect(isInQuietHours('23:30', quiet)).toBe(true)
+    expect(isInQuietHours('07:59', quiet)).toBe(true)
+    expect(isInQuietHours('08:00', quiet)).toBe(false)
+    expect(isInQuietHours('13:00', { start: '12:00', end: '14:00' })).toBe(true)
+  })
+
+  it('deve adiar o envio até o fim do horário de silêncio no fuso do lead', () => {
+    const quiet = { start: '22:00', end: '08:00' }
+
+    // 23:00 em São Paulo -> 08:00 do dia seguinte
+    expect(getQuietHoursEnd(new Date('2025-05-11T02:00:00Z'), quiet, 'America/Sao_Paulo')?.toISOString()).toBe('2025-05-11T11:00:00.000Z')
+    // 06:00 em São Paulo -> 08:00 do mesmo dia
+    expect(getQuietHoursEnd(new Date('2025-05-11T09:00:00Z'), quiet, 'America/Sao_Paulo')?.toISOString()).toBe('2025-05-11T11:00:00.000Z')
+    expect(getQuietHoursEnd(new Date('2025-05-11T15:00:00Z'), quiet, 'America/Sao_Paulo')).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+// Testes da simulação (dry-run) de automações
+
+const mockFrom = jest.fn()
+const mockExecuteStep = jest.fn()
+const mockFindReachedGoal = jest.fn()
+const mockLoadSegment = jest.fn()
+const mockSampleLeads = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+jest.mock('../../segments/segment-engine', () => ({
+  segmentEngine: {
+    loadSegment: (...args: any[]) => mockLoadSegment(...args),
+    sampleLeads: (...args: any[]) => mockSampleLeads(...args)
+  }
+}))
+
+jest.mock('../automation-engine', () => ({
+  automationEngine: {
+    executeStep: (...args: any[]) => mockExecuteStep(...args),
+    findReachedGoal: (...args: any[]) => mockFindReachedGoal(...args)
+  }
+}))
+
+import { AutomationDryRunService } from '../dry-run'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'eq', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+const step = (id: string, type: string) => ({ id, type, name: id, description: '', config: {} }) as any
+
+const trigger = step('trigger-new-lead_1_a', 'trigger')
+const welcome = step('action-send-email_1_b', 'action')
+const wait = step('delay-time_1_c', 'delay')
+const waitOpen = step('delay-wait-event_1_d', 'delay')
+const reminder = step('action-send-email_1_e', 'action')
+const thanks = step('action-send-email_1_f', 'action')
+
+const automation = { id: 'auto-1', workspace_id: 'ws-1', trigger_type: 'new_lead' } as any
+const lead = { id: 'lead-1', email: 'ana@example.com', tags: ['cliente'] }
+const startAt = new Date('2025-05-10T12:00:00Z')
+
+const HOUR = 60 * 60 * 1000
+
+const email = (subject: string) => ({
+  success: true,
+  data: { dry_run_email: { to: lead.email, subject, html: `<p>${subject}</p>`, text: subject } }
+})
+
+describe('AutomationDryRunService', () => {
+  const service = new AutomationDryRunService()
+
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockExecuteStep.mockReset()
+    mockFindReachedGoal.mockReset()
+    mockFindReachedGoal.mockResolvedValue(null)
+  })
+
+  it('deve avançar o relógio simulado nos atrasos e coletar os emails renderizados', async () => {
+    mockExecuteStep.mockImplementation(async (current: any, context: any) => {
+      expect(context.dry_run).toBeDefined()
+      if (current === welcome) return email('Bem-vinda')
+      if (current === wait) return { success: true, delay: 24 * HOUR }
+      if (current === reminder) return email('Lembrete')
+      return { success: true }
+    })
+
+    const result = await service.simulateLead(automation, [trigger, welcome, wait, reminder], lead, { start_at: startAt })
+
+    expect(result.outcome).toBe('completed')
+    expect(result.path.map(entry => entry.step_id)).toEqual([trigger.id, welcome.id, wait.id, reminder.id])
+    expect(result.emails.map(sent => [sent.subject, sent.at])).toEqual([
+      ['Bem-vinda', '2025-05-10T12:00:00.000Z'],
+      ['Lembrete', '2025-05-11T12:00:00.000Z']
+    ])
+    // O HTML fica só na lista de emails, não no caminho
+    expect(result.path[1].data).toBeUndefined()
+  })
+
+  it('deve resolver esperas por evento conforme o resultado escolhido', async () => {
+    mockExecuteStep.mockImplementation(async (current: any, context: any) => {
+      if (current !== waitOpen) return { success: true }
+
+      const state = context.run.wait_state
+      if (!state) {
+        const until = new Date(context.dry_run.now.getTime() + 72 * HOUR)
+        return {
+          success: true,
+          waitUntil: until,
+          waitState: { step_id: waitOpen.id, kind: 'event', events: ['email_opened'], started_at: '', until: until.toISOString() }
+        }
+      }
+
+      return state.matched_event
+        ? { success: true, data: { wait_result: 'event' }, jumpTo: thanks.id }
+        : { success: true, data: { wait_result: 'timeout' }, jumpTo: reminder.id }
+    })
+
+    const steps = [trigger, waitOpen, reminder, thanks]
+
+    const onTimeout = await service.simulateLead(automation, steps, lead, { start_at: startAt, wait_outcome: 'timeout' })
+    expect(onTimeout.path.map(entry => entry.status)).toEqual(['completed', 'waiting', 'completed', 'completed', 'completed'])
+    expect(onTimeout.path[2].at).toBe('2025-05-13T12:00:00.000Z')
+
+    const onEvent = await service.simulateLead(automation, steps, lead, { start_at: startAt, wait_outcome: 'event' })
+    expect(onEvent.path.map(entry => entry.step_id)).toEqual([trigger.id, waitOpen.id, waitOpen.id, thanks.id])
+    expect(onEvent.finished_at).toBe('2025-05-10T12:00:00.000Z')
+  })
+
+  it('deve parar em condições não atendidas e sair quando um objetivo é atingido', async () => {
+    const condition = step('condition-tag_1_g', 'condition')
+    const goal = step('goal-condition_1_h', 'goal')
+
+    mockExecuteStep.mockImplementation(async (current: any) =>
+      current === condition ? { success: false, shouldStop: true } : { success: true }
+    )
+    const stopped = await service.simulateLead(automation, [trigger, condition, reminder], lead)
+    expect(stopped.outcome).toBe('stopped')
+    expect(stopped.path[1].status).toBe('stopped')
+
+    mockExecuteStep.mockResolvedValue({ success: true })
+    mockFindReachedGoal.mockImplementation(async (_steps: any, index: number) =>
+      index === 2 ? { step: goal, targetIndex: null } : null
+    )
+    const exited = await service.simulateLead(automation, [trigger, welcome, reminder, goal], lead)
+    expect(exited.outcome).toBe('exited')
+    expect(exited.path.map(entry => entry.status)).toEqual(['completed', 'completed', 'goal_reached'])
+  })
+
+  it('deve interromper fluxos em loop', async () => {
+    mockExecuteStep.mockImplementation(async (current: any) =>
+      current === reminder ? { success: true, jumpTo: welcome.id } : { success: true }
+    )
+
+    const result = await service.simulateLead(automation, [trigger, welcome, reminder], lead)
+
+    expect(result.outcome).toBe('step_limit')
+  })
+
+  it('deve simular o rascunho para uma amostra do segmento', async () => {
+    mockFrom.mockReturnValue(createQuery({
+      data: { ...automation, flow_definition: { steps: [trigger] }, draft_definition: { steps: [trigger, welcome] } },
+      error: null
+    }))
+    mockLoadSegment.mockResolvedValue({ operator: 'and', conditions: [] })
+    mockSampleLeads.mockResolvedValue([lead, { id: 'lead-2', email: 'bia@example.com' }])
+    mockExecuteStep.mockImplementation(async (current: any) => current === welcome ? email('Oi') : { success: true })
+
+    const report = await service.simulate('ws-1', 'auto-1', { segment_id: 'seg-1', sample_size: 500 })
+
+    expect(mockSampleLeads).toHaveBeenCalledWith('ws-1', { operator: 'and', conditions: [] }, 50)
+    expect(report.definition).toBe('draft')
+    expect(report.summary).toEqual({ leads: 2, emails: 2, outcomes: { completed: 2 } })
+  })
+})
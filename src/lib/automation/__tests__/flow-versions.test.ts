@@ -0,0 +1,145 @@
+// Testes do versionamento de fluxos e da migração de execuções
+
+const mockFrom = jest.fn()
+const mockRescheduleRun = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+jest.mock('../automation-engine', () => ({
+  automationEngine: {
+    rescheduleRun: (...args: any[]) => mockRescheduleRun(...args)
+  }
+}))
+
+import { AutomationFlowVersionService, mapRunPosition } from '../flow-versions'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'insert', 'update', 'eq', 'in', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+const step = (id: string, type = 'action') => ({ id, type, name: id, description: '', config: {} }) as any
+
+const trigger = step('trigger-new-lead_1_a', 'trigger')
+const welcome = step('action-send-email_1_b')
+const waitOpen = step('delay-wait-event_1_c', 'delay')
+const followUp = step('action-send-email_1_d')
+const offer = step('action-send-email_2_e')
+
+const v1Steps = [trigger, welcome, waitOpen, followUp]
+const v2Steps = [trigger, welcome, offer, waitOpen, followUp]
+
+describe('flow-versions', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockRescheduleRun.mockReset()
+  })
+
+  it('deve levar a execução para o passo mapeado na nova versão', () => {
+    const position = mapRunPosition({ current_step_index: 3, step_sequence: 4 }, v1Steps, v2Steps, {
+      [followUp.id]: followUp.id
+    })
+
+    expect(position).toEqual({ current_step_index: 4, wait_state: null, step_sequence: 5 })
+  })
+
+  it('deve manter a execução na versão antiga quando o passo não está mapeado', () => {
+    expect(mapRunPosition({ current_step_index: 1 }, v1Steps, v2Steps, { [followUp.id]: followUp.id })).toBeNull()
+    expect(mapRunPosition({ current_step_index: 1 }, v1Steps, v2Steps, { [welcome.id]: 'passo-removido' })).toBeNull()
+  })
+
+  it('deve preservar a espera por evento só quando o destino é o mesmo tipo de passo', () => {
+    const waitState = {
+      step_id: waitOpen.id,
+      kind: 'event' as const,
+      events: ['email_opened' as const],
+      started_at: '2025-05-01T12:00:00Z',
+      until: '2025-05-03T12:00:00Z'
+    }
+    const run = { current_step_index: 2, wait_state: waitState }
+
+    expect(mapRunPosition(run, v1Steps, v2Steps, { [waitOpen.id]: waitOpen.id })).toEqual({
+      current_step_index: 3,
+      wait_state: waitState,
+      step_sequence: 1
+    })
+    expect(mapRunPosition(run, v1Steps, v2Steps, { [waitOpen.id]: offer.id })?.wait_state).toBeNull()
+  })
+
+  it('deve publicar a versão seguinte e migrar só as execuções mapeadas', async () => {
+    const service = new AutomationFlowVersionService()
+    const runsUpdate = createQuery({ data: [{ id: 'run-1' }], error: null })
+    const flowUpdate = createQuery({ data: null, error: null })
+    const versionInsert = createQuery({
+      data: { id: 'v2', automation_id: 'auto-1', version_number: 2, flow_definition: { steps: v2Steps, version: '2' } },
+      error: null
+    })
+
+    const queries: Record<string, any[]> = {
+      automation_flows: [
+        createQuery({ data: { id: 'auto-1', draft_definition: { steps: v2Steps }, trigger_type: 'new_lead' }, error: null }),
+        flowUpdate
+      ],
+      automation_flow_versions: [
+        createQuery({ data: { version_number: 1 }, error: null }),
+        versionInsert,
+        createQuery({ data: { id: 'v1', automation_id: 'auto-1', flow_definition: { steps: v1Steps } }, error: null })
+      ],
+      automation_runs: [
+        createQuery({
+          data: [
+            { id: 'run-1', status: 'pending', current_step_index: 3, step_sequence: 2, next_execution_at: '2025-05-02T12:00:00Z' },
+            { id: 'run-2', status: 'pending', current_step_index: 1, step_sequence: 1, next_execution_at: null },
+            { id: 'run-3', status: 'running', current_step_index: 3, step_sequence: 1, next_execution_at: null }
+          ],
+          error: null
+        }),
+        runsUpdate
+      ]
+    }
+    mockFrom.mockImplementation((table: string) => queries[table].shift())
+
+    const result = await service.publish('ws-1', 'auto-1', {
+      userId: 'user-1',
+      migrations: [{ from_version_id: 'v1', step_mapping: { [followUp.id]: followUp.id } }]
+    })
+
+    expect(versionInsert.insert).toHaveBeenCalledWith(expect.objectContaining({
+      version_number: 2,
+      trigger_type: 'new_lead',
+      published_by: 'user-1'
+    }))
+    expect(flowUpdate.update).toHaveBeenCalledWith(expect.objectContaining({
+      current_version_id: 'v2',
+      draft_definition: null
+    }))
+    expect(runsUpdate.update).toHaveBeenCalledWith({
+      current_step_index: 4,
+      wait_state: null,
+      step_sequence: 3,
+      flow_version_id: 'v2'
+    })
+    expect(mockRescheduleRun).toHaveBeenCalledWith('run-1', 4, new Date('2025-05-02T12:00:00Z'))
+    expect(result).toMatchObject({ migrated_runs: 1, kept_runs: 2 })
+  })
+
+  it('deve recusar mapeamentos para passos que não existem no rascunho', async () => {
+    const service = new AutomationFlowVersionService()
+    mockFrom.mockReturnValue(createQuery({ data: { id: 'auto-1', draft_definition: { steps: v2Steps } }, error: null }))
+
+    await expect(service.publish('ws-1', 'auto-1', {
+      migrations: [{ from_version_id: 'v1', step_mapping: { [welcome.id]: 'passo-removido' } }]
+    })).rejects.toThrow('Unknown step in mapping: passo-removido')
+  })
+})
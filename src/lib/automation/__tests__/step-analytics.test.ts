@@ -0,0 +1,119 @@
+// Testes da análise por etapa das automações
+
+const mockFrom = jest.fn()
+const mockRpc = jest.fn()
+const mockGetVersion = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+jest.mock('../flow-versions', () => ({
+  automationFlowVersionService: {
+    getVersion: (...args: any[]) => mockGetVersion(...args)
+  }
+}))
+
+import { AutomationStepAnalyticsService, buildStepAnalytics, StepAnalyticsRow } from '../step-analytics'
+
+// Chainable query builder; maybeSingle resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'eq']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  return query
+}
+
+const step = (id: string, type = 'action', config: any = {}) => ({ id, type, name: id, description: '', config }) as any
+
+const trigger = step('trigger-new-lead_1_a', 'trigger')
+const welcome = step('action-send-email_1_b')
+const branch = step('branching-condition_1_c', 'branching', {
+  branches: [
+    { id: 'yes', name: 'Abriu', condition_result: true, next_steps: [] },
+    { id: 'no', name: 'Não abriu', condition_result: false, next_steps: [] }
+  ]
+})
+
+const row = (stepId: string, counts: Partial<StepAnalyticsRow> = {}): StepAnalyticsRow => ({
+  step_id: stepId,
+  entered: 0,
+  completed: 0,
+  failed: 0,
+  skipped: 0,
+  waiting: 0,
+  exited: 0,
+  conversions: 0,
+  emails_sent: 0,
+  emails_opened: 0,
+  emails_clicked: 0,
+  branches: {},
+  ...counts
+})
+
+describe('step-analytics', () => {
+  it('deve seguir a ordem do fluxo e nomear os ramos', () => {
+    const analytics = buildStepAnalytics([trigger, welcome, branch], [
+      row(branch.id, { entered: 60, completed: 60, branches: { yes: 25, removed: 5 } }),
+      row(trigger.id, { entered: 100, completed: 100 }),
+      row(welcome.id, { entered: '80' as any, waiting: 12, exited: 8, emails_sent: 80, emails_opened: 40, emails_clicked: 9 }),
+      row('action-add-tag_9_z', { entered: 3 })
+    ])
+
+    expect(analytics.map(step => [step.step_id, step.position, step.entered])).toEqual([
+      [trigger.id, 0, 100],
+      [welcome.id, 1, 80],
+      [branch.id, 2, 60]
+    ])
+    expect(analytics[1]).toMatchObject({ waiting: 12, exited: 8, emails_sent: 80, emails_opened: 40, emails_clicked: 9 })
+    // Ramos que saíram da definição continuam aparecendo enquanto tiverem execuções
+    expect(analytics[2].branches).toEqual([
+      { branch_id: 'yes', name: 'Abriu', entered: 25 },
+      { branch_id: 'no', name: 'Não abriu', entered: 0 },
+      { branch_id: 'removed', name: 'removed', entered: 5 }
+    ])
+    expect(analytics[0].branches).toEqual([])
+  })
+
+  describe('AutomationStepAnalyticsService', () => {
+    beforeEach(() => {
+      mockFrom.mockReset()
+      mockRpc.mockReset()
+      mockGetVersion.mockReset()
+    })
+
+    it('deve agregar as execuções de todas as versões pelo fluxo atual', async () => {
+      mockFrom.mockReturnValueOnce(createQuery({ data: { flow_definition: { steps: [trigger, welcome] } }, error: null }))
+      mockRpc.mockResolvedValue({ data: [row(trigger.id, { entered: 10 })], error: null })
+
+      const service = new AutomationStepAnalyticsService()
+      const result = await service.getStepAnalytics('ws-1', 'auto-1')
+
+      expect(mockRpc).toHaveBeenCalledWith('get_automation_step_analytics', { p_automation_id: 'auto-1', p_flow_version_id: null })
+      expect(result.flow_version_id).toBeNull()
+      expect(result.steps.map(step => step.entered)).toEqual([10, 0])
+    })
+
+    it('deve usar as etapas da versão filtrada e recusar versões de outra automação', async () => {
+      mockGetVersion
+        .mockResolvedValueOnce({ id: 'v-2', automation_id: 'auto-1', flow_definition: { steps: [trigger] } })
+        .mockResolvedValueOnce({ id: 'v-9', automation_id: 'auto-2', flow_definition: { steps: [trigger] } })
+      mockRpc.mockResolvedValue({ data: [], error: null })
+
+      const service = new AutomationStepAnalyticsService()
+      const result = await service.getStepAnalytics('ws-1', 'auto-1', { flowVersionId: 'v-2' })
+
+      expect(result.steps).toHaveLength(1)
+      expect(mockRpc).toHaveBeenCalledWith('get_automation_step_analytics', { p_automation_id: 'auto-1', p_flow_version_id: 'v-2' })
+      expect(mockFrom).not.toHaveBeenCalled()
+
+      await expect(service.getStepAnalytics('ws-1', 'auto-1', { flowVersionId: 'v-9' }))
+        .rejects.toThrow('Automation version not found')
+    })
+  })
+})
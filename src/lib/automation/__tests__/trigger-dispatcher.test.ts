@@ -0,0 +1,246 @@
+// Testes dos gatilhos de automação e do dispatcher
+
+const mockFrom = jest.fn()
+const mockExecuteAutomation = jest.fn()
+const mockTriggerForNewLead = jest.fn()
+const mockHandleLeadEvent = jest.fn()
+const mockApplyScoringEvent = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+jest.mock('../automation-engine', () => ({
+  automationEngine: {
+    executeAutomation: (...args: any[]) => mockExecuteAutomation(...args),
+    triggerForNewLead: (...args: any[]) => mockTriggerForNewLead(...args),
+    handleLeadEvent: (...args: any[]) => mockHandleLeadEvent(...args)
+  }
+}))
+
+jest.mock('../../scoring/lead-scoring', () => ({
+  leadScoringEngine: {
+    applyEvent: (...args: any[]) => mockApplyScoringEvent(...args)
+  }
+}))
+
+import { AutomationTriggerDispatcher } from '../trigger-dispatcher'
+import { getDateTriggerMatch, getStepTemplateId, getTriggerTypeForStep, matchesTriggerConfig } from '../triggers'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'insert', 'update', 'upsert', 'eq', 'lt', 'like', 'or', 'contains', 'order', 'limit', 'range']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+describe('triggers', () => {
+  it('deve mapear os passos do builder para tipos de gatilho', () => {
+    expect(getStepTemplateId('trigger-tag-added_1718000000000_abc123')).toBe('trigger-tag-added')
+    expect(getTriggerTypeForStep('trigger-date_1718000000000_abc123')).toBe('date')
+    expect(getTriggerTypeForStep('action-send-email_1718000000000_abc123')).toBeNull()
+  })
+
+  it('deve comparar tags sem diferenciar maiúsculas', () => {
+    expect(matchesTriggerConfig('tag_added', { tag_name: 'Cliente-VIP' }, { tag: 'cliente-vip' })).toBe(true)
+    expect(matchesTriggerConfig('tag_added', { tag_name: 'cliente-vip' }, { tag: 'lead-frio' })).toBe(false)
+    expect(matchesTriggerConfig('tag_removed', {}, { tag: 'qualquer' })).toBe(true)
+  })
+
+  it('deve filtrar mudanças de campo pelo campo e pelo novo valor', () => {
+    const payload = { field: 'custom_fields.plano', old_value: 'free', new_value: 'pro' }
+
+    expect(matchesTriggerConfig('lead_field_changed', { field: 'custom_fields.plano', to_value: 'pro' }, payload)).toBe(true)
+    expect(matchesTriggerConfig('lead_field_changed', { field: 'custom_fields.plano', to_value: 'enterprise' }, payload)).toBe(false)
+    expect(matchesTriggerConfig('lead_field_changed', { field: 'status' }, payload)).toBe(false)
+  })
+
+  it('deve filtrar eventos de email por campanha, URL e tipo de bounce', () => {
+    expect(matchesTriggerConfig('email_clicked', { url_contains: '/checkout' }, { url: 'https://loja.com/Checkout?x=1' })).toBe(true)
+    expect(matchesTriggerConfig('email_clicked', { campaign_id: 'c-1' }, { campaign_id: 'c-2', url: 'https://loja.com' })).toBe(false)
+    expect(matchesTriggerConfig('email_bounced', { bounce_type: 'hard' }, { bounce_type: 'soft' })).toBe(false)
+    expect(matchesTriggerConfig('email_bounced', { bounce_type: 'any' }, { bounce_type: 'soft' })).toBe(true)
+  })
+
+  it('deve esperar o horário configurado no fuso do gatilho', () => {
+    const config = { mode: 'anniversary' as const, field: 'birthday', time: '09:00' }
+
+    // 11:59 UTC = 08:59 em São Paulo
+    expect(getDateTriggerMatch(config, new Date('2025-05-01T11:59:00Z'))).toBeNull()
+    expect(getDateTriggerMatch(config, new Date('2025-05-01T12:00:00Z'))).toEqual({
+      pattern: '%-05-01%',
+      extra_pattern: undefined,
+      occurrence_key: 'anniversary:2025'
+    })
+  })
+
+  it('deve aplicar o deslocamento de dias antes e depois da data', () => {
+    const now = new Date('2025-04-28T15:00:00Z')
+
+    // 3 dias antes do aniversário em 01/05
+    expect(getDateTriggerMatch({ mode: 'anniversary', field: 'birthday', offset_days: -3 }, now)?.pattern).toBe('%-05-01%')
+    // 7 dias depois da data do campo
+    expect(getDateTriggerMatch({ mode: 'relative', field: 'trial_started', offset_days: 7 }, now)).toEqual({
+      pattern: '2025-04-21%',
+      occurrence_key: 'relative:2025-04-21'
+    })
+  })
+
+  it('deve incluir aniversários de 29/02 em anos não bissextos', () => {
+    const match = getDateTriggerMatch({ mode: 'anniversary', field: 'birthday' }, new Date('2025-02-28T15:00:00Z'))
+
+    expect(match?.extra_pattern).toBe('%-02-29%')
+    expect(getDateTriggerMatch({ mode: 'anniversary', field: 'birthday' }, new Date('2024-02-28T15:00:00Z'))?.extra_pattern).toBeUndefined()
+  })
+
+  it('deve disparar datas específicas apenas no dia configurado', () => {
+    expect(getDateTriggerMatch({ mode: 'specific_date', date: '2025-11-28' }, new Date('2025-11-28T15:00:00Z'))?.occurrence_key).toBe('date:2025-11-28')
+    expect(getDateTriggerMatch({ mode: 'specific_date', date: '2025-11-28' }, new Date('2025-11-29T15:00:00Z'))).toBeNull()
+  })
+})
+
+describe('AutomationTriggerDispatcher', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockExecuteAutomation.mockReset()
+    mockTriggerForNewLead.mockReset()
+    mockHandleLeadEvent.mockReset()
+    mockApplyScoringEvent.mockReset()
+    mockExecuteAutomation.mockResolvedValue({ id: 'run-1' })
+    mockHandleLeadEvent.mockResolvedValue(0)
+  })
+
+  it('deve iniciar apenas os fluxos cujo gatilho corresponde ao evento', async () => {
+    const flowsQuery = createQuery({
+      data: [
+        { id: 'flow-vip', trigger_config: { tag_name: 'vip' } },
+        { id: 'flow-frio', trigger_config: { tag_name: 'frio' } }
+      ],
+      error: null
+    })
+    mockFrom.mockReturnValueOnce(flowsQuery)
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const started = await dispatcher.dispatch({ workspace_id: 'ws-1', lead_id: 'lead-1', type: 'tag_added', payload: { tag: 'vip' } })
+
+    expect(started).toEqual(['flow-vip'])
+    expect(flowsQuery.eq).toHaveBeenCalledWith('trigger_type', 'tag_added')
+    expect(mockExecuteAutomation).toHaveBeenCalledWith('flow-vip', 'lead-1', expect.objectContaining({ trigger: 'tag_added', tag: 'vip' }))
+    // A pontuação é aplicada antes de iniciar os fluxos
+    expect(mockApplyScoringEvent.mock.invocationCallOrder[0]).toBeLessThan(mockExecuteAutomation.mock.invocationCallOrder[0])
+  })
+
+  it('deve iniciar os fluxos mesmo quando a pontuação falha', async () => {
+    mockApplyScoringEvent.mockRejectedValue(new Error('rpc down'))
+    mockFrom.mockReturnValueOnce(createQuery({ data: [{ id: 'flow-1', trigger_config: {} }], error: null }))
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const started = await dispatcher.dispatch({ workspace_id: 'ws-1', lead_id: 'lead-1', type: 'form_submitted', payload: { form_id: 'demo' } })
+
+    expect(started).toEqual(['flow-1'])
+  })
+
+  it('deve processar eventos pendentes e ignorar os já reivindicados', async () => {
+    const events = [
+      { id: 'evt-1', workspace_id: 'ws-1', lead_id: 'lead-1', event_type: 'email_opened', payload: { campaign_id: 'c-1' }, attempts: 0, created_at: '2025-05-01T10:00:00Z' },
+      { id: 'evt-2', workspace_id: 'ws-1', lead_id: 'lead-2', event_type: 'email_opened', payload: {}, attempts: 0, created_at: '2025-05-01T10:00:01Z' }
+    ]
+    const doneQuery = createQuery({ data: null, error: null })
+
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [], error: null }))
+      .mockReturnValueOnce(createQuery({ data: events, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'evt-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'flow-1', trigger_config: {} }], error: null }))
+      .mockReturnValueOnce(doneQuery)
+      .mockReturnValueOnce(createQuery({ data: [], error: null }))
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const result = await dispatcher.processPendingEvents()
+
+    expect(result).toEqual({ processed: 1, failed: 0, recovered: 0 })
+    // O id do evento evita pontuar duas vezes quando o evento é reprocessado
+    expect(mockApplyScoringEvent).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt-1', lead_id: 'lead-1' }))
+    expect(mockExecuteAutomation).toHaveBeenCalledTimes(1)
+    expect(doneQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processed', runs_started: 1 }))
+  })
+
+  it('deve devolver eventos travados em processamento para a fila até esgotar as tentativas', async () => {
+    const stalledQuery = createQuery({ data: [{ id: 'evt-1', attempts: 1 }, { id: 'evt-2', attempts: 3 }], error: null })
+    const retryQuery = createQuery({ data: [{ id: 'evt-1' }], error: null })
+    const failQuery = createQuery({ data: [{ id: 'evt-2' }], error: null })
+
+    mockFrom
+      .mockReturnValueOnce(stalledQuery)
+      .mockReturnValueOnce(retryQuery)
+      .mockReturnValueOnce(failQuery)
+      .mockReturnValueOnce(createQuery({ data: [], error: null }))
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const result = await dispatcher.processPendingEvents(200, new Date('2025-05-01T10:30:00Z'))
+
+    expect(result).toEqual({ processed: 0, failed: 0, recovered: 2 })
+    expect(stalledQuery.eq).toHaveBeenCalledWith('status', 'processing')
+    expect(stalledQuery.lt).toHaveBeenCalledWith('claimed_at', '2025-05-01T10:20:00.000Z')
+    expect(retryQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'pending', claimed_at: null }))
+    expect(retryQuery.eq).toHaveBeenCalledWith('status', 'processing')
+    expect(failQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }))
+  })
+
+  it('deve iniciar gatilhos de data uma única vez por ocorrência', async () => {
+    const leadsQuery = createQuery({ data: [{ id: 'lead-1' }, { id: 'lead-2' }], error: null })
+    const occurrencesQuery = createQuery({ data: [{ lead_id: 'lead-2' }], error: null })
+
+    mockFrom
+      .mockReturnValueOnce(createQuery({
+        data: [{ id: 'flow-bday', workspace_id: 'ws-1', trigger_config: { mode: 'anniversary', field: 'birthday', time: '09:00' } }],
+        error: null
+      }))
+      .mockReturnValueOnce(leadsQuery)
+      .mockReturnValueOnce(occurrencesQuery)
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const started = await dispatcher.processDateTriggers(new Date('2025-05-01T12:30:00Z'))
+
+    expect(started).toBe(1)
+    expect(leadsQuery.like).toHaveBeenCalledWith('custom_fields->>birthday', '%-05-01%')
+    expect(occurrencesQuery.upsert.mock.calls[0][0]).toEqual([
+      { automation_id: 'flow-bday', lead_id: 'lead-1', occurrence_key: 'anniversary:2025' },
+      { automation_id: 'flow-bday', lead_id: 'lead-2', occurrence_key: 'anniversary:2025' }
+    ])
+    expect(mockExecuteAutomation).toHaveBeenCalledWith('flow-bday', 'lead-2', expect.objectContaining({ trigger: 'date' }))
+  })
+
+  it('deve criar o lead do webhook de entrada e iniciar a automação do segredo', async () => {
+    const insertQuery = createQuery({ data: { id: 'lead-new' }, error: null })
+
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: { id: 'flow-hook', workspace_id: 'ws-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(insertQuery)
+
+    const dispatcher = new AutomationTriggerDispatcher()
+    const result = await dispatcher.handleInboundWebhook('s3cret', { email: ' Ana@Exemplo.com ', tags: ['webinar'] }, { plano: 'pro' })
+
+    expect(result).toEqual({ automation_id: 'flow-hook', lead_id: 'lead-new', lead_created: true, run_id: 'run-1' })
+    expect(insertQuery.insert).toHaveBeenCalledWith(expect.objectContaining({ email: 'ana@exemplo.com', tags: ['webinar'], source: 'webhook' }))
+    expect(mockTriggerForNewLead).toHaveBeenCalledWith('lead-new', 'ws-1')
+    expect(mockExecuteAutomation).toHaveBeenCalledWith('flow-hook', 'lead-new', expect.objectContaining({ trigger: 'webhook', data: { plano: 'pro' } }))
+  })
+
+  it('deve ignorar segredos desconhecidos', async () => {
+    mockFrom.mockReturnValueOnce(createQuery({ data: null, error: null }))
+
+    const dispatcher = new AutomationTriggerDispatcher()
+
+    await expect(dispatcher.handleInboundWebhook('nope', { email: 'a@b.com' })).resolves.toBeNull()
+    expect(mockExecuteAutomation).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,53 @@
+// Testes dos passos de espera e janelas de horário
+
+import {
+  durationToMs,
+  getNextTimeWindowStart,
+  isValidTimezone,
+  resolveLeadTimezone,
+  zonedTimeToUtc
+} from '../wait-steps'
+
+describe('wait-steps', () => {
+  it('deve converter duração em milissegundos', () => {
+    expect(durationToMs(3, 'days')).toBe(3 * 24 * 60 * 60 * 1000)
+    expect(durationToMs(30, 'minutes')).toBe(30 * 60 * 1000)
+    // Unidade desconhecida vira horas, como o delay original
+    expect(durationToMs(2, 'fortnights')).toBe(2 * 60 * 60 * 1000)
+  })
+
+  it('deve resolver o fuso do lead com fallback', () => {
+    expect(isValidTimezone('Europe/Lisbon')).toBe(true)
+    expect(isValidTimezone('Marte/Olympus')).toBe(false)
+
+    expect(resolveLeadTimezone({ timezone: 'America/Manaus' }, 'Europe/Lisbon')).toBe('America/Manaus')
+    expect(resolveLeadTimezone({ custom_fields: { timezone: 'Europe/Lisbon' } })).toBe('Europe/Lisbon')
+    expect(resolveLeadTimezone({ timezone: 'invalido' }, 'America/New_York')).toBe('America/New_York')
+    expect(resolveLeadTimezone({})).toBe('America/Sao_Paulo')
+  })
+
+  it('deve converter horário local para UTC, inclusive com horário de verão', () => {
+    expect(zonedTimeToUtc('2025-05-05', '09:00', 'America/Sao_Paulo').toISOString()).toBe('2025-05-05T12:00:00.000Z')
+    // Nova York: EST em janeiro, EDT em julho
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'America/New_York').toISOString()).toBe('2025-01-15T14:00:00.000Z')
+    expect(zonedTimeToUtc('2025-07-15', '09:00', 'America/New_York').toISOString()).toBe('2025-07-15T13:00:00.000Z')
+  })
+
+  it('deve continuar imediatamente dentro da janela', () => {
+    // Segunda-feira, 10:00 em São Paulo
+    const now = new Date('2025-05-05T13:00:00Z')
+
+    expect(getNextTimeWindowStart(now, { start_time: '09:00', end_time: '11:00' }, 'America/Sao_Paulo')).toBe(now)
+  })
+
+  it('deve aguardar o próximo dia útil às 9h no fuso do lead', () => {
+    const window = { days: [1, 2, 3, 4, 5], start_time: '09:00', end_time: '11:00' }
+
+    // Sexta-feira, 15:00 em São Paulo -> segunda às 09:00
+    expect(getNextTimeWindowStart(new Date('2025-05-02T18:00:00Z'), window, 'America/Sao_Paulo').toISOString())
+      .toBe('2025-05-05T12:00:00.000Z')
+    // Terça-feira, 07:00 em Lisboa -> mesmo dia às 09:00
+    expect(getNextTimeWindowStart(new Date('2025-05-06T06:00:00Z'), window, 'Europe/Lisbon').toISOString())
+      .toBe('2025-05-06T08:00:00.000Z')
+  })
+})
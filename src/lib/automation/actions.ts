@@ -0,0 +1,185 @@
+import { z } from 'zod'
+import { getStepTemplateId } from './triggers'
+
+// Lead columns an automation may overwrite; anything else goes through custom_fields.<key>
+export const LEAD_UPDATABLE_FIELDS = ['name', 'phone', 'company', 'position', 'source', 'timezone'] as const
+
+export const LEAD_STATUSES = ['active', 'unsubscribed', 'bounced', 'complained'] as const
+
+export type LeadStatus = typeof LEAD_STATUSES[number]
+
+const CUSTOM_FIELD_PATTERN = /^custom_fields\.[A-Za-z0-9_-]+$/
+
+const requiredId = (label: string) => z.string({ required_error: `${label} is required` }).min(1, `${label} is required`)
+
+// Config of each action step, keyed by builder template id
+export const ACTION_CONFIG_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  'action-add-tag': z.object({
+    tag_name: z.string({ required_error: 'Tag is required' }).trim().min(1, 'Tag is required').max(100, 'Tag too long'),
+  }),
+  'action-remove-tag': z.object({
+    tag_name: z.string({ required_error: 'Tag is required' }).trim().min(1, 'Tag is required').max(100, 'Tag too long'),
+  }),
+  'action-webhook': z.object({
+    webhook_url: z.string({ required_error: 'Webhook URL is required' }).url('Invalid webhook URL'),
+  }),
+  'action-update-field': z.object({
+    field: z.string({ required_error: 'Field is required' }).refine(
+      field => (LEAD_UPDATABLE_FIELDS as readonly string[]).includes(field) || CUSTOM_FIELD_PATTERN.test(field),
+      'Field must be a lead field or custom_fields.<key>'
+    ),
+    value: z.union([z.string().max(1000, 'Value too long'), z.number(), z.boolean(), z.null()]),
+  }),
+  'action-change-status': z.object({
+    status: z.enum(LEAD_STATUSES, { errorMap: () => ({ message: 'Invalid lead status' }) }),
+  }),
+  'action-add-to-list': z.object({
+    list_id: requiredId('List'),
+  }),
+  'action-remove-from-list': z.object({
+    list_id: requiredId('List'),
+  }),
+  'action-start-automation': z.object({
+    automation_id: requiredId('Automation'),
+  }),
+  'action-exit-automations': z.object({
+    // Also end the run executing this step
+    stop_current: z.boolean().optional(),
+  }),
+  'action-notify-member': z.object({
+    member_user_id: requiredId('Member'),
+    subject: z.string({ required_error: 'Subject is required' }).trim().min(1, 'Subject is required').max(255, 'Subject too long'),
+    message: z.string({ required_error: 'Message is required' }).trim().min(1, 'Message is required').max(5000, 'Message too long'),
+  }),
+  'action-increment-score': z.object({
+    amount: z.number({ required_error: 'Amount is required', invalid_type_error: 'Amount must be a number' })
+      .int('Amount must be a whole number')
+      .min(-1000, 'Amount must be at least -1000')
+      .max(1000, 'Amount must be at most 1000')
+      .refine(amount => amount !== 0, 'Amount must not be zero'),
+  }),
+}
+
+export interface FlowValidationIssue {
+  step_id?: string
+  step_name?: string
+  message: string
+}
+
+interface FlowStepLike {
+  id: string
+  type: string
+  name?: string
+  config?: any
+}
+
+// First problem with an action's config, or null when it is valid (or the action takes no config)
+export function getActionConfigError(stepId: string, config: any): string | null {
+  const schema = ACTION_CONFIG_SCHEMAS[getStepTemplateId(stepId)]
+  if (!schema) {
+    return null
+  }
+
+  const result = schema.safeParse(config || {})
+  return result.success ? null : result.error.errors[0].message
+}
+
+// Checked when a flow is saved and when it is published
+export function validateFlowDefinition(
+  steps: FlowStepLike[],
+  options: { automationId?: string } = {}
+): FlowValidationIssue[] {
+  const issues: FlowValidationIssue[] = []
+
+  if (steps.length === 0) {
+    return [{ message: 'Flow has no steps' }]
+  }
+
+  if (steps[0].type !== 'trigger') {
+    issues.push({ step_id: steps[0].id, step_name: steps[0].name, message: 'The first step must be a trigger' })
+  }
+
+  const ids = new Set<string>()
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      issues.push({ step_id: step.id, step_name: step.name, message: 'Duplicate step id' })
+    }
+    ids.add(step.id)
+  }
+
+  for (const step of steps) {
+    const issue = (message: string) => issues.push({ step_id: step.id, step_name: step.name, message })
+    const config = step.config || {}
+
+    if (step.type === 'action') {
+      const error = getActionConfigError(step.id, config)
+      if (error) {
+        issue(error)
+      }
+
+      if (getStepTemplateId(step.id) === 'action-start-automation' &&
+          options.automationId && config.automation_id === options.automationId) {
+        issue('An automation cannot start itself')
+      }
+    }
+
+    // Jumps must land on a step of this flow
+    const targets: string[] = [config.event_next_step, config.timeout_next_step, config.jump_to_step]
+      .filter(Boolean)
+
+    if (step.type === 'branching') {
+      for (const branch of config.branches || []) {
+        targets.push(...(branch.next_steps || []))
+      }
+    }
+
+    for (const target of targets) {
+      if (!ids.has(target)) {
+        issue(`Unknown target step: ${target}`)
+      }
+    }
+  }
+
+  return issues
+}
+
+// Row update an action makes on the lead, or null when the lead already matches
+export function buildLeadUpdate(stepId: string, config: any, lead: any, now: Date = new Date()): Record<string, any> | null {
+  const tags: string[] = lead.tags || []
+
+  switch (getStepTemplateId(stepId)) {
+    case 'action-add-tag':
+      return tags.includes(config.tag_name) ? null : { tags: [...tags, config.tag_name] }
+
+    case 'action-remove-tag':
+      return tags.includes(config.tag_name) ? { tags: tags.filter(tag => tag !== config.tag_name) } : null
+
+    case 'action-update-field': {
+      if (config.field.startsWith('custom_fields.')) {
+        const key = config.field.slice('custom_fields.'.length)
+        const customFields = lead.custom_fields || {}
+
+        return customFields[key] === config.value
+          ? null
+          : { custom_fields: { ...customFields, [key]: config.value } }
+      }
+
+      return lead[config.field] === config.value ? null : { [config.field]: config.value }
+    }
+
+    case 'action-change-status': {
+      if (lead.status === config.status) {
+        return null
+      }
+
+      return {
+        status: config.status,
+        ...(config.status === 'unsubscribed' ? { unsubscribed_at: now.toISOString() } : {}),
+        ...(config.status === 'bounced' ? { bounced_at: now.toISOString() } : {})
+      }
+    }
+
+    default:
+      return null
+  }
+}
@@ -136,6 +136,11 @@ export class AdvancedConditionEngine {
   private getFieldValue(field: string, context: ExecutionContext): any {
     const { lead, variables } = context
     
+    // Leads that never scored count as 0, so score comparisons still work for them
+    if (field === 'score' || field === 'lead.score') {
+      return lead?.score ?? 0
+    }
+
     // Support dot notation for nested fields
     const fieldParts = field.split('.')
     
@@ -245,6 +250,10 @@ export const AVAILABLE_FIELDS = [
   { value: 'lead.tags', label: 'Tags do Lead', type: 'array' },
   { value: 'lead.created_at', label: 'Data de Criação', type: 'date' },
   { value: 'lead.updated_at', label: 'Data de Atualização', type: 'date' },
+  { value: 'lead.score', label: 'Pontuação do Lead', type: 'number' },
+  { value: 'lead.last_activity_at', label: 'Última Atividade', type: 'date' },
+  { value: 'lead.last_opened_at', label: 'Última Abertura de Email', type: 'date' },
+  { value: 'lead.last_clicked_at', label: 'Último Clique em Email', type: 'date' },
   { value: 'variables.trigger', label: 'Trigger Type', type: 'string' },
   { value: 'variables.timestamp', label: 'Timestamp', type: 'date' },
 ]
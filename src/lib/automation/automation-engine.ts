@@ -1,7 +1,32 @@
-import { createSupabaseClient } from '@/lib/supabase'
-import { createResendClient } from '@/lib/resend'
+import { randomUUID } from 'crypto'
+import { createSupabaseClient } from '../supabase'
+import { sendEmail } from '../resend'
+import { subscriptionService } from '../subscriptions/subscription-service'
+import { suppressionList } from '../suppression/suppression-list'
+import { buildLeadTemplateContext, renderEmailContent } from '../templates/email-template'
+import { escapeHtml } from '../templates/template-renderer'
+import { applyTracking } from '../tracking/email-tracking'
 import { z } from 'zod'
 import { advancedConditionEngine, AdvancedCondition, BranchingStep } from './advanced-conditions'
+import { getStepTemplateId } from './triggers'
+import { buildLeadUpdate, getActionConfigError } from './actions'
+import {
+  EntryBlockReason,
+  EntryPolicy,
+  FrequencyCap,
+  allowsSingleActiveRun,
+  getDeliverySettings,
+  getEntryBlockReason,
+  getQuietHoursEnd,
+  resolveEntryPolicy
+} from './delivery-policies'
+import {
+  WaitEventType,
+  WaitState,
+  durationToMs,
+  getNextTimeWindowStart,
+  resolveLeadTimezone
+} from './wait-steps'
 
 // Types for automation execution
 export interface AutomationFlow {
@@ -16,11 +41,15 @@ export interface AutomationFlow {
   }
   status: 'draft' | 'active' | 'paused' | 'archived'
   workspace_id: string
+  entry_policy?: EntryPolicy | null
+  // Published version new runs start on; edits wait in draft_definition until published
+  current_version_id?: string | null
+  draft_definition?: AutomationFlow['flow_definition'] | null
 }
 
 export interface AutomationStep {
   id: string
-  type: 'trigger' | 'condition' | 'action' | 'delay' | 'branching'
+  type: 'trigger' | 'condition' | 'action' | 'delay' | 'branching' | 'goal'
   name: string
   description: string
   config: any
@@ -45,6 +74,13 @@ export interface AutomationRun {
   retry_count: number
   max_retries: number
   next_execution_at?: Date
+  wait_state?: WaitState | null
+  // Bumped every time the run moves to a step; part of the step idempotency key
+  step_sequence?: number
+  // Lease of the worker executing the run; expired leases are recovered by processScheduledRuns
+  locked_until?: Date | null
+  // Flow version the run executes; null for runs started before versioning
+  flow_version_id?: string | null
 }
 
 export interface ExecutionContext {
@@ -53,14 +89,74 @@ export interface ExecutionContext {
   run: AutomationRun
   variables: Record<string, any>
   workspace_id: string
+  // Set by the simulator; steps then skip their side effects
+  dry_run?: DryRunContext
+}
+
+// Simulated execution: emails are rendered instead of sent, tags change only in memory, webhooks are not called
+export interface DryRunContext {
+  // Simulated clock used by delays, time windows and quiet hours
+  now: Date
+}
+
+export interface StepExecutionResult {
+  success: boolean
+  data?: any
+  error?: string
+  delay?: number
+  shouldStop?: boolean
+  nextSteps?: string[]
+  // Park the run and execute this same step again at the given time
+  waitUntil?: Date
+  waitState?: WaitState
+  // Continue from this step instead of the next one
+  jumpTo?: string
+}
+
+// A run to continue at a step once runAt is reached
+export interface ScheduledStep {
+  runId: string
+  stepIndex: number
+  runAt: Date
+  // Set by the recovery sweep for runs whose job was lost
+  recovery?: boolean
+}
+
+// Delivers scheduled steps to workers; implemented by the automation-steps queue
+export interface AutomationStepScheduler {
+  scheduleStep(step: ScheduledStep): Promise<void>
+}
+
+const RUN_LEASE_MS = 10 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+// How executeStepsFromIndex left the run; released runs lost their lease to the stalled-run sweep
+type RunOutcome = 'completed' | 'stopped' | 'waiting' | 'exited' | 'released'
+
+// An automation_runs row loaded with its flow, the version it runs and its lead
+interface LoadedRun extends AutomationRun {
+  automation_flows: AutomationFlow
+  automation_flow_versions: Pick<AutomationFlow, 'flow_definition'> | null
+  leads: ExecutionContext['lead']
+}
+
+interface ReachedGoal {
+  step: AutomationStep
+  // Step to continue from, or null to leave the flow
+  targetIndex: number | null
 }
 
 export class AutomationEngine {
   private supabase = createSupabaseClient()
-  private resend = createResendClient()
+  // Without a scheduler, due runs are executed inline by processScheduledRuns
+  private stepScheduler: AutomationStepScheduler | null = null
+
+  setStepScheduler(scheduler: AutomationStepScheduler | null): void {
+    this.stepScheduler = scheduler
+  }
 
   // Main execution method
-  async executeAutomation(automationId: string, leadId: string, triggerData?: any): Promise<AutomationRun> {
+  async executeAutomation(automationId: string, leadId: string, triggerData?: Record<string, unknown>): Promise<AutomationRun> {
     try {
       // Get automation details
       const { data: automation, error: automationError } = await this.supabase
@@ -85,6 +181,13 @@ export class AutomationEngine {
         throw new Error(`Lead not found: ${leadId}`)
       }
 
+      const blockReason = await this.checkEntryPolicy(automation, leadId)
+      if (blockReason) {
+        return this.recordSkippedEntry(automation, leadId, triggerData, blockReason)
+      }
+
+      const now = new Date()
+
       // Create automation run
       const { data: run, error: runError } = await this.supabase
         .from('automation_runs')
@@ -94,19 +197,35 @@ export class AutomationEngine {
           status: 'pending',
           current_step_index: 0,
           execution_data: triggerData || {},
-          started_at: new Date().toISOString(),
+          flow_version_id: automation.current_version_id || null,
+          started_at: now.toISOString(),
+          next_execution_at: this.stepScheduler ? now.toISOString() : null,
           retry_count: 0,
-          max_retries: 3
+          max_retries: 3,
+          single_active_run: allowsSingleActiveRun(automation.entry_policy)
         })
         .select()
         .single()
 
+      // A concurrent trigger started the lead's run between the policy check and this insert
+      if (runError?.code === '23505') {
+        const reentry = resolveEntryPolicy(automation.entry_policy).reentry
+        const reason: EntryBlockReason = reentry === 'never'
+          ? 'reentry_never'
+          : reentry === 'after_completion' ? 'reentry_active_run' : 'max_concurrent_runs'
+        return this.recordSkippedEntry(automation, leadId, triggerData, reason)
+      }
+
       if (runError || !run) {
         throw new Error(`Failed to create automation run: ${runError?.message}`)
       }
 
-      // Start execution
-      await this.processAutomationRun(run.id)
+      // Start execution on a worker, or right here when no queue is available
+      if (this.stepScheduler) {
+        await this.scheduleStep(run.id, 0, now)
+      } else {
+        await this.processAutomationRun(run.id)
+      }
 
       return run
     } catch (error) {
@@ -115,8 +234,92 @@ export class AutomationEngine {
     }
   }
 
-  // Process automation run through its steps
-  async processAutomationRun(runId: string): Promise<void> {
+  // Re-entry and concurrency rules of the flow for this lead
+  private async checkEntryPolicy(automation: AutomationFlow, leadId: string): Promise<EntryBlockReason | null> {
+    // Cancelled runs include skipped entries, which never count as entering the flow
+    const { data: runs, error } = await this.supabase
+      .from('automation_runs')
+      .select('status, started_at')
+      .eq('automation_id', automation.id)
+      .eq('lead_id', leadId)
+      .neq('status', 'cancelled')
+      .order('started_at', { ascending: false })
+      .limit(100)
+
+    if (error) {
+      throw new Error(`Error loading automation runs: ${error.message}`)
+    }
+
+    return getEntryBlockReason(automation.entry_policy, runs || [])
+  }
+
+  // Keep a cancelled run so blocked entries show up in the run history
+  private async recordSkippedEntry(
+    automation: AutomationFlow,
+    leadId: string,
+    triggerData: Record<string, unknown> | undefined,
+    reason: EntryBlockReason
+  ): Promise<AutomationRun> {
+    const now = new Date().toISOString()
+
+    const { data: run, error } = await this.supabase
+      .from('automation_runs')
+      .insert({
+        automation_id: automation.id,
+        lead_id: leadId,
+        status: 'cancelled',
+        current_step_index: 0,
+        execution_data: { ...(triggerData || {}), skipped: true, skip_reason: reason },
+        flow_version_id: automation.current_version_id || null,
+        started_at: now,
+        completed_at: now,
+        retry_count: 0,
+        max_retries: 0
+      })
+      .select()
+      .single()
+
+    if (error || !run) {
+      throw new Error(`Failed to record skipped automation run: ${error?.message}`)
+    }
+
+    const firstStep = automation.flow_definition?.steps?.[0]
+    if (firstStep) {
+      await this.logStepExecution(run.id, firstStep, { success: true, data: { skipped: true, reason } })
+    }
+
+    return run
+  }
+
+  // Process automation run through its steps; scheduled jobs pass the step and time they were scheduled for
+  async processAutomationRun(runId: string, scheduled?: Pick<ScheduledStep, 'stepIndex' | 'runAt'>): Promise<void> {
+    // Only one worker may own a run; stale or duplicate jobs find nothing to claim
+    let claim = this.supabase
+      .from('automation_runs')
+      .update({
+        status: 'running',
+        next_execution_at: null,
+        locked_until: new Date(Date.now() + RUN_LEASE_MS).toISOString()
+      })
+      .eq('id', runId)
+      .eq('status', 'pending')
+
+    if (scheduled) {
+      claim = claim
+        .eq('current_step_index', scheduled.stepIndex)
+        .lte('next_execution_at', scheduled.runAt.toISOString())
+    }
+
+    const { data: claimed, error: claimError } = await claim.select('id')
+
+    if (claimError) {
+      throw new Error(`Error claiming automation run: ${claimError.message}`)
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return
+    }
+
     try {
       // Get run details with automation and lead
       const { data: runData, error: runError } = await this.supabase
@@ -124,6 +327,7 @@ export class AutomationEngine {
         .select(`
           *,
           automation_flows (*),
+          automation_flow_versions (*),
           leads (*)
         `)
         .eq('id', runId)
@@ -133,24 +337,26 @@ export class AutomationEngine {
         throw new Error(`Run not found: ${runId}`)
       }
 
-      const automation = runData.automation_flows as AutomationFlow
-      const lead = runData.leads
+      const run = runData as LoadedRun
+      const automation = this.getRunFlow(run)
+      const lead = run.leads
       const steps = automation.flow_definition?.steps || []
 
-      // Update run status to running
-      await this.supabase
-        .from('automation_runs')
-        .update({ status: 'running' })
-        .eq('id', runId)
+      // Execute steps - now supports branching, waits and goals
+      const outcome = await this.executeStepsFromIndex(runId, run, steps, lead, automation, run.current_step_index)
 
-      // Execute steps - now supports branching
-      await this.executeStepsFromIndex(runId, runData, steps, lead, automation, runData.current_step_index)
+      // Waiting runs are resumed by processScheduledRuns or handleLeadEvent; released runs belong to their next worker
+      if (outcome === 'waiting' || outcome === 'released') {
+        return
+      }
 
       // Mark as completed
       await this.supabase
         .from('automation_runs')
         .update({ 
           status: 'completed',
+          wait_state: null,
+          locked_until: null,
           completed_at: new Date().toISOString()
         })
         .eq('id', runId)
@@ -164,6 +370,7 @@ export class AutomationEngine {
         .update({ 
           status: 'failed',
           error_message: error instanceof Error ? error.message : String(error),
+          locked_until: null,
           completed_at: new Date().toISOString()
         })
         .eq('id', runId)
@@ -172,42 +379,147 @@ export class AutomationEngine {
     }
   }
 
-  // Execute steps from specific index with branching support
+  // Runs execute the version they started on, even after a newer one is published
+  private getRunFlow(runData: LoadedRun): AutomationFlow {
+    const automation = runData.automation_flows
+    const version = runData.automation_flow_versions
+
+    return version ? { ...automation, flow_definition: version.flow_definition } : automation
+  }
+
+  // Deliver a parked run again after its position changed, e.g. when migrated to another flow version
+  async rescheduleRun(runId: string, stepIndex: number, runAt: Date): Promise<void> {
+    await this.scheduleStep(runId, stepIndex, runAt)
+  }
+
+  // Hand the run to the queue; if that fails the recovery sweep still finds it by next_execution_at
+  private async scheduleStep(runId: string, stepIndex: number, runAt: Date): Promise<void> {
+    if (!this.stepScheduler) {
+      return
+    }
+
+    try {
+      await this.stepScheduler.scheduleStep({ runId, stepIndex, runAt })
+    } catch (error) {
+      console.error(`Error scheduling automation run ${runId}:`, error)
+    }
+  }
+
+  // Execute steps from specific index with branching, wait and goal support
   private async executeStepsFromIndex(
     runId: string,
-    runData: any,
+    runData: LoadedRun,
     steps: AutomationStep[],
-    lead: any,
+    lead: ExecutionContext['lead'],
     automation: AutomationFlow,
     startIndex: number
-  ): Promise<void> {
-    const stepsToExecute = this.getStepsToExecute(steps, startIndex)
-    
-    for (const stepIndex of stepsToExecute) {
+  ): Promise<RunOutcome> {
+    let stepIndex = startIndex
+
+    while (stepIndex < steps.length) {
       const step = steps[stepIndex]
-      
+      const context: ExecutionContext = {
+        lead,
+        automation,
+        run: runData,
+        variables: runData.execution_data || {},
+        workspace_id: automation.workspace_id
+      }
+
+      // Goals are checked before every step so leads that converted stop receiving the sequence
+      if (stepIndex > 0) {
+        const goal = await this.findReachedGoal(steps, stepIndex, context)
+
+        if (goal) {
+          await this.recordGoalReached(runId, runData, goal)
+
+          if (goal.targetIndex === null) {
+            return 'exited'
+          }
+
+          stepIndex = goal.targetIndex
+          continue
+        }
+      }
+
+      // Re-running the step the run is parked on (wait wake-up, retry, crash recovery) keeps its key
+      if (stepIndex !== runData.current_step_index) {
+        runData.current_step_index = stepIndex
+        runData.step_sequence = (runData.step_sequence || 0) + 1
+      }
+
+      let executionId: string | null = null
+      let executionFinished = false
+
       try {
-        // Update current step
-        await this.supabase
+        // Update current step and renew the lease, so the stalled-run sweep leaves long runs alone
+        const { data: leased } = await this.supabase
           .from('automation_runs')
-          .update({ current_step_index: stepIndex })
+          .update({
+            current_step_index: stepIndex,
+            step_sequence: runData.step_sequence || 0,
+            locked_until: new Date(Date.now() + RUN_LEASE_MS).toISOString()
+          })
           .eq('id', runId)
+          .eq('status', 'running')
+          .select('id')
 
-        // Execute step
-        const stepResult = await this.executeStep(step, {
-          lead,
-          automation,
-          run: runData,
-          variables: runData.execution_data || {},
-          workspace_id: automation.workspace_id
-        })
+        // The lease already expired and the sweep re-queued the run; if this update failed instead, the sweep will
+        if (!leased || leased.length === 0) {
+          return 'released'
+        }
+
+        const execution = await this.claimStepExecution(runId, step, `${runId}:${stepIndex}:${runData.step_sequence || 0}`)
+        executionId = execution.id
 
-        // Log step execution
-        await this.logStepExecution(runId, step, stepResult)
+        // A completed execution is replayed from its log instead of running side effects twice
+        const stepResult: StepExecutionResult = execution.completedResult || await this.executeStep(step, context)
+
+        if (!execution.completedResult) {
+          await this.finishStepExecution(executionId, runId, step, stepResult)
+          executionFinished = true
+        }
 
         // Handle step result
         if (stepResult.shouldStop) {
-          break
+          return 'stopped'
+        }
+
+        // Actions report failures (a rejected email, a webhook answering 500) as results; they are retried and
+        // fail the run the same way as thrown errors
+        if (stepResult.success === false) {
+          throw new Error(stepResult.error || `Step ${step.id} failed`)
+        }
+
+        // Update execution data with step results; later steps and waits read it
+        if (stepResult.data) {
+          runData.execution_data = {
+            ...runData.execution_data,
+            ...stepResult.data
+          }
+
+          await this.supabase
+            .from('automation_runs')
+            .update({ execution_data: runData.execution_data })
+            .eq('id', runId)
+        }
+
+        if (stepResult.waitUntil) {
+          // Park on this step; it runs again when woken or when the wait expires
+          const waitUntil = new Date(stepResult.waitUntil)
+          await this.supabase
+            .from('automation_runs')
+            .update({
+              status: 'pending',
+              next_execution_at: waitUntil.toISOString(),
+              current_step_index: stepIndex,
+              wait_state: stepResult.waitState || null,
+              locked_until: null
+            })
+            .eq('id', runId)
+
+          await this.scheduleStep(runId, stepIndex, waitUntil)
+          return 'waiting'
         }
 
         if (stepResult.delay) {
@@ -216,12 +528,33 @@ export class AutomationEngine {
           await this.supabase
             .from('automation_runs')
             .update({ 
+              status: 'pending',
               next_execution_at: nextExecutionAt.toISOString(),
-              current_step_index: stepIndex + 1
+              current_step_index: stepIndex + 1,
+              step_sequence: (runData.step_sequence || 0) + 1,
+              wait_state: null,
+              locked_until: null
             })
             .eq('id', runId)
           
-          return // Will be resumed later
+          await this.scheduleStep(runId, stepIndex + 1, nextExecutionAt)
+          return 'waiting' // Will be resumed later
+        }
+
+        if (runData.wait_state) {
+          runData.wait_state = null
+          await this.supabase
+            .from('automation_runs')
+            .update({ wait_state: null })
+            .eq('id', runId)
+        }
+
+        if (stepResult.jumpTo) {
+          const targetIndex = steps.findIndex(s => s.id === stepResult.jumpTo)
+          if (targetIndex !== -1) {
+            stepIndex = targetIndex
+            continue
+          }
         }
 
         // Handle branching
@@ -230,46 +563,44 @@ export class AutomationEngine {
           for (const nextStepId of stepResult.nextSteps) {
             const nextStepIndex = steps.findIndex(s => s.id === nextStepId)
             if (nextStepIndex !== -1) {
-              await this.executeStepsFromIndex(runId, runData, steps, lead, automation, nextStepIndex)
+              const outcome = await this.executeStepsFromIndex(runId, runData, steps, lead, automation, nextStepIndex)
+              if (outcome === 'waiting' || outcome === 'exited' || outcome === 'released') {
+                return outcome
+              }
             }
           }
-          break // Don't continue with sequential execution
+          return 'completed' // Don't continue with sequential execution
         }
 
-        // Update execution data with step results
-        if (stepResult.data) {
-          await this.supabase
-            .from('automation_runs')
-            .update({ 
-              execution_data: {
-                ...runData.execution_data,
-                ...stepResult.data
-              }
-            })
-            .eq('id', runId)
-        }
+        stepIndex++
 
       } catch (stepError) {
         console.error(`Error executing step ${stepIndex}:`, stepError)
+
+        if (executionId && !executionFinished) {
+          await this.finishStepExecution(executionId, runId, step, {
+            success: false,
+            error: stepError instanceof Error ? stepError.message : String(stepError)
+          })
+        }
         
         // Check if we should retry
         if (runData.retry_count < runData.max_retries) {
+          // Schedule retry with exponential backoff: 1, 2, 4... minutes
+          const retryAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** runData.retry_count)
           await this.supabase
             .from('automation_runs')
             .update({ 
+              status: 'pending',
               retry_count: runData.retry_count + 1,
-              error_message: stepError instanceof Error ? stepError.message : String(stepError)
+              error_message: stepError instanceof Error ? stepError.message : String(stepError),
+              next_execution_at: retryAt.toISOString(),
+              locked_until: null
             })
             .eq('id', runId)
           
-          // Schedule retry
-          const retryAt = new Date(Date.now() + (runData.retry_count + 1) * 60000) // Exponential backoff
-          await this.supabase
-            .from('automation_runs')
-            .update({ next_execution_at: retryAt.toISOString() })
-            .eq('id', runId)
-          
-          return
+          await this.scheduleStep(runId, stepIndex, retryAt)
+          return 'waiting'
         } else {
           // Mark as failed
           await this.supabase
@@ -285,27 +616,64 @@ export class AutomationEngine {
         }
       }
     }
+
+    return 'completed'
   }
 
-  // Get steps to execute based on current index
-  private getStepsToExecute(steps: AutomationStep[], startIndex: number): number[] {
-    const stepsToExecute: number[] = []
-    
-    for (let i = startIndex; i < steps.length; i++) {
-      stepsToExecute.push(i)
+  // First goal whose conditions hold; exit goals apply anywhere, jump goals only move the lead forward
+  async findReachedGoal(
+    steps: AutomationStep[],
+    currentIndex: number,
+    context: ExecutionContext
+  ): Promise<ReachedGoal | null> {
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index]
+      const conditions: AdvancedCondition[] = step.config?.conditions || step.advanced_conditions || []
+
+      if (step.type !== 'goal' || conditions.length === 0) {
+        continue
+      }
+
+      let targetIndex: number | null = null
+      if (step.config?.on_reached === 'jump') {
+        targetIndex = step.config.jump_to_step
+          ? steps.findIndex(s => s.id === step.config.jump_to_step)
+          : index + 1
+
+        if (targetIndex <= currentIndex) {
+          continue
+        }
+      }
+
+      if (await advancedConditionEngine.evaluateConditions(conditions, context)) {
+        return { step, targetIndex }
+      }
     }
-    
-    return stepsToExecute
+
+    return null
+  }
+
+  private async recordGoalReached(runId: string, runData: AutomationRun, goal: ReachedGoal): Promise<void> {
+    runData.wait_state = null
+    runData.execution_data = {
+      ...runData.execution_data,
+      goal_reached: goal.step.id,
+      ...(goal.targetIndex === null ? { exit_reason: 'goal' } : {})
+    }
+
+    await this.supabase
+      .from('automation_runs')
+      .update({ execution_data: runData.execution_data, wait_state: null })
+      .eq('id', runId)
+
+    await this.logStepExecution(runId, goal.step, {
+      success: true,
+      data: { goal_reached: true, on_reached: goal.targetIndex === null ? 'exit' : 'jump' }
+    })
   }
 
   // Execute individual step
-  async executeStep(step: AutomationStep, context: ExecutionContext): Promise<{
-    success: boolean
-    data?: any
-    delay?: number
-    shouldStop?: boolean
-    nextSteps?: string[]
-  }> {
+  async executeStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     switch (step.type) {
       case 'trigger':
         return this.executeTriggerStep(step, context)
@@ -321,6 +689,10 @@ export class AutomationEngine {
       
       case 'branching':
         return this.executeBranchingStep(step, context)
+
+      case 'goal':
+        // Goals are evaluated before every step; reaching one in sequence is a no-op
+        return { success: true }
       
       default:
         throw new Error(`Unknown step type: ${step.type}`)
@@ -328,13 +700,13 @@ export class AutomationEngine {
   }
 
   // Execute trigger step
-  private async executeTriggerStep(step: AutomationStep, context: ExecutionContext): Promise<any> {
+  private async executeTriggerStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     // Trigger steps are already processed when starting the automation
     return { success: true }
   }
 
   // Execute condition step
-  private async executeConditionStep(step: AutomationStep, context: ExecutionContext): Promise<any> {
+  private async executeConditionStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     const { config, advanced_conditions } = step
     const { lead } = context
 
@@ -350,7 +722,7 @@ export class AutomationEngine {
     }
 
     // Fallback to legacy condition logic
-    switch (step.id) {
+    switch (getStepTemplateId(step.id)) {
       case 'condition-tag':
         const hasTag = lead.tags?.includes(config.tag_name)
         const condition = config.condition || 'has_tag'
@@ -384,18 +756,47 @@ export class AutomationEngine {
   }
 
   // Execute action step
-  private async executeActionStep(step: AutomationStep, context: ExecutionContext): Promise<any> {
+  private async executeActionStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     const { config } = step
     const { lead, workspace_id } = context
+    const templateId = getStepTemplateId(step.id)
+
+    // Flows are validated when saved, but older definitions may still hold incomplete configs
+    const configError = getActionConfigError(step.id, config)
+    if (configError) {
+      return { success: false, error: configError }
+    }
 
-    switch (step.id) {
+    switch (templateId) {
       case 'action-send-email':
-        return this.sendEmail(config, lead, workspace_id)
+        return this.sendEmail(config, lead, workspace_id, context.run?.id, context.dry_run)
 
       case 'action-add-tag':
-        return this.addTagToLead(config, lead)
+      case 'action-remove-tag':
+      case 'action-update-field':
+      case 'action-change-status':
+        return this.updateLead(step, context)
+
+      case 'action-add-to-list':
+      case 'action-remove-from-list':
+        return this.updateListMembership(templateId === 'action-add-to-list', config, context)
+
+      case 'action-start-automation':
+        return this.startAutomation(config, context)
+
+      case 'action-exit-automations':
+        return this.exitAutomations(config, context)
+
+      case 'action-notify-member':
+        return this.notifyMember(config, context)
+
+      case 'action-increment-score':
+        return this.incrementScore(config, context)
 
       case 'action-webhook':
+        if (context.dry_run) {
+          return { success: true, data: { webhook_skipped: true, webhook_url: config.webhook_url } }
+        }
         return this.callWebhook(config, lead, context)
 
       default:
@@ -405,7 +806,7 @@ export class AutomationEngine {
   }
 
   // Execute branching step
-  private async executeBranchingStep(step: AutomationStep, context: ExecutionContext): Promise<any> {
+  private async executeBranchingStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     try {
       const branchingStep = step as BranchingStep
       const result = await advancedConditionEngine.executeBranchingStep(branchingStep, context)
@@ -430,35 +831,133 @@ export class AutomationEngine {
   }
 
   // Execute delay step
-  private async executeDelayStep(step: AutomationStep, context: ExecutionContext): Promise<any> {
+  private async executeDelayStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
     const { config } = step
-    const amount = config.wait_amount || 1
-    const unit = config.wait_unit || 'hours'
-
-    let delayMs = 0
-    switch (unit) {
-      case 'minutes':
-        delayMs = amount * 60 * 1000
-        break
-      case 'hours':
-        delayMs = amount * 60 * 60 * 1000
-        break
-      case 'days':
-        delayMs = amount * 24 * 60 * 60 * 1000
-        break
-      case 'weeks':
-        delayMs = amount * 7 * 24 * 60 * 60 * 1000
-        break
+
+    switch (getStepTemplateId(step.id)) {
+      case 'delay-wait-event':
+        return this.executeWaitForEventStep(step, context)
+
+      case 'delay-time-window': {
+        const now = this.getNow(context)
+        const timezone = resolveLeadTimezone(context.lead, config.timezone)
+        const windowStart = getNextTimeWindowStart(now, config, timezone)
+        const delayMs = windowStart.getTime() - now.getTime()
+
+        return delayMs > 0
+          ? { success: true, delay: delayMs, data: { time_window_timezone: timezone } }
+          : { success: true }
+      }
+
       default:
-        delayMs = amount * 60 * 60 * 1000 // Default to hours
+        return { success: true, delay: durationToMs(config.wait_amount || 1, config.wait_unit || 'hours') }
     }
+  }
 
-    return { success: true, delay: delayMs }
+  // Wait for an open or click up to a timeout, then continue on the event or timeout path
+  private async executeWaitForEventStep(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
+    const { config } = step
+    const state = context.run?.wait_state as WaitState | null | undefined
+    const now = this.getNow(context)
+
+    if (!state || state.step_id !== step.id) {
+      const events: WaitEventType[] = config.events?.length ? config.events : ['email_opened', 'email_clicked']
+      const until = new Date(now.getTime() + durationToMs(config.timeout_amount || 3, config.timeout_unit || 'days'))
+
+      return {
+        success: true,
+        waitUntil: until,
+        waitState: {
+          step_id: step.id,
+          kind: 'event',
+          events,
+          started_at: now.toISOString(),
+          until: until.toISOString(),
+          email_id: config.scope === 'any_email' ? undefined : context.variables.email_id
+        }
+      }
+    }
+
+    // Simulations decide the outcome up front through matched_event
+    const matchedEvent = state.matched_event ||
+      (context.dry_run ? null : await this.findWaitedEmailEvent(context.lead.id, state))
+
+    if (matchedEvent) {
+      return {
+        success: true,
+        data: { wait_result: 'event', waited_event: matchedEvent },
+        jumpTo: config.event_next_step || undefined
+      }
+    }
+
+    if (now >= new Date(state.until)) {
+      return {
+        success: true,
+        data: { wait_result: 'timeout', waited_event: null },
+        jumpTo: config.timeout_next_step || undefined
+      }
+    }
+
+    // Woken early without a match (e.g. by a goal check); keep waiting
+    return { success: true, waitUntil: new Date(state.until), waitState: state }
+  }
+
+  // Fallback for events that arrived while no worker was listening
+  private async findWaitedEmailEvent(leadId: string, state: WaitState): Promise<WaitEventType | null> {
+    for (const eventType of state.events) {
+      const column = eventType === 'email_opened' ? 'opened_at' : 'clicked_at'
+
+      let query = this.supabase
+        .from('email_sends')
+        .select('id')
+        .eq('lead_id', leadId)
+
+      query = state.email_id
+        ? query.eq('resend_id', state.email_id).not(column, 'is', null)
+        : query.gte(column, state.started_at)
+
+      const { data } = await query.limit(1)
+
+      if (data && data.length > 0) {
+        return eventType
+      }
+    }
+
+    return null
+  }
+
+  private getNow(context?: ExecutionContext): Date {
+    return context?.dry_run ? new Date(context.dry_run.now) : new Date()
   }
 
   // Send email action
-  private async sendEmail(config: any, lead: any, workspaceId: string): Promise<any> {
+  private async sendEmail(config: AutomationStep['config'], lead: ExecutionContext['lead'], workspaceId: string, runId?: string, dryRun?: DryRunContext): Promise<StepExecutionResult> {
     try {
+      // Unsubscribed, bounced or complained leads never receive automation email
+      if (lead.status && lead.status !== 'active') {
+        return { success: true, data: { skipped: true, reason: `lead_${lead.status}` } }
+      }
+
+      if (await suppressionList.isSuppressed(workspaceId, lead.email)) {
+        return { success: true, data: { skipped: true, reason: 'suppressed' } }
+      }
+
+      const delivery = getDeliverySettings(await this.getWorkspaceSettings(workspaceId))
+
+      // Quiet hours postpone the email; the step runs again once they end for the lead
+      if (delivery.quiet_hours) {
+        const timezone = resolveLeadTimezone(lead, delivery.quiet_hours.timezone)
+        const quietHoursEnd = getQuietHoursEnd(dryRun ? dryRun.now : new Date(), delivery.quiet_hours, timezone)
+
+        if (quietHoursEnd) {
+          return { success: true, waitUntil: quietHoursEnd, data: { deferred: true, reason: 'quiet_hours' } }
+        }
+      }
+
+      if (delivery.frequency_cap && await this.isOverFrequencyCap(lead.id, delivery.frequency_cap, dryRun?.now)) {
+        return { success: true, data: { skipped: true, reason: 'frequency_cap' } }
+      }
+
       // Get template if specified
       let htmlContent = ''
       let textContent = ''
@@ -479,31 +978,70 @@ export class AutomationEngine {
         }
       }
 
-      // Replace variables
-      const variables = {
-        name: lead.name || '',
-        email: lead.email || '',
-        company: lead.company || '',
-        ...config.variables
+      const links = subscriptionService.buildLinks({ workspaceId, leadId: lead.id })
+
+      // Render the template for this lead; step variables override lead fields
+      const rendered = renderEmailContent(
+        { subject, html: htmlContent, text: textContent },
+        buildLeadTemplateContext(lead, {
+          ...config.variables,
+          unsubscribe_url: links.unsubscribe_url,
+          preferences_url: links.preferences_url
+        })
+      )
+
+      subject = rendered.subject
+      htmlContent = subscriptionService.ensureUnsubscribeLink(rendered.html, links)
+      textContent = rendered.text || ''
+
+      if (dryRun) {
+        return {
+          success: true,
+          data: {
+            dry_run_email: { to: lead.email, subject, html: htmlContent, text: textContent },
+            sent_at: dryRun.now.toISOString()
+          }
+        }
       }
 
-      subject = this.replaceVariables(subject, variables)
-      htmlContent = this.replaceVariables(htmlContent, variables)
-      textContent = this.replaceVariables(textContent, variables)
+      // Same tracking as campaign emails; the email_sends id is generated up front so the tokens can reference it
+      const emailSendId = randomUUID()
+      const tracked = applyTracking(htmlContent, { sendId: emailSendId, workspaceId, leadId: lead.id })
 
       // Send email via Resend
-      const result = await this.resend.emails.send({
+      const result = await sendEmail({
         from: `${config.from_name || 'MailGenius'} <noreply@mailgenius.com>`,
-        to: lead.email,
+        to: [lead.email],
         subject,
-        html: htmlContent,
-        text: textContent
+        html: tracked.html,
+        text: textContent,
+        unsubscribeUrl: links.one_click_url,
+        workspaceId
       })
 
+      if (!result.success) {
+        return { success: false, error: result.error }
+      }
+
+      // Record the send so provider events (opens, clicks, bounces) reach this lead and its wait steps
+      await this.supabase
+        .from('email_sends')
+        .insert({
+          id: emailSendId,
+          workspace_id: workspaceId,
+          lead_id: lead.id,
+          email: lead.email,
+          resend_id: result.id,
+          provider: result.provider,
+          automation_run_id: runId || null,
+          status: 'sent',
+          sent_at: new Date().toISOString()
+        })
+
       return { 
         success: true, 
         data: { 
-          email_id: result.data?.id,
+          email_id: result.id,
           sent_at: new Date().toISOString()
         }
       }
@@ -513,34 +1051,269 @@ export class AutomationEngine {
     }
   }
 
-  // Add tag to lead
-  private async addTagToLead(config: any, lead: any): Promise<any> {
-    try {
-      const currentTags = lead.tags || []
-      const newTag = config.tag_name
+  private async getWorkspaceSettings(workspaceId: string): Promise<Record<string, unknown>> {
+    const { data, error } = await this.supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .single()
 
-      if (!currentTags.includes(newTag)) {
-        const updatedTags = [...currentTags, newTag]
-        
-        const { error } = await this.supabase
-          .from('leads')
-          .update({ tags: updatedTags })
-          .eq('id', lead.id)
+    if (error) {
+      throw new Error(`Error loading workspace settings: ${error.message}`)
+    }
 
-        if (error) {
-          throw error
-        }
+    return data?.settings || {}
+  }
+
+  // Counts every email the lead received in the period, from automations and campaigns alike
+  private async isOverFrequencyCap(leadId: string, cap: FrequencyCap, now: Date = new Date()): Promise<boolean> {
+    const since = new Date(now.getTime() - cap.period_hours * 60 * 60 * 1000)
+
+    const { count, error } = await this.supabase
+      .from('email_sends')
+      .select('id', { count: 'exact', head: true })
+      .eq('lead_id', leadId)
+      .gte('sent_at', since.toISOString())
+
+    if (error) {
+      throw new Error(`Error counting email sends: ${error.message}`)
+    }
+
+    return (count || 0) >= cap.max_emails
+  }
+
+  // Tag, field and status actions; the lead in the context changes too, so later steps see it
+  private async updateLead(step: AutomationStep, context: ExecutionContext): Promise<StepExecutionResult> {
+    const { config } = step
+    const { lead } = context
+    const update = buildLeadUpdate(step.id, config, lead, this.getNow(context))
+
+    const resultData: StepExecutionResult['data'] = {
+      'action-add-tag': { tag_added: config.tag_name },
+      'action-remove-tag': { tag_removed: config.tag_name },
+      'action-update-field': { field_updated: config.field },
+      'action-change-status': { status_changed: config.status }
+    }[getStepTemplateId(step.id)] || {}
+
+    if (update && !context.dry_run) {
+      const { error } = await this.supabase
+        .from('leads')
+        .update(update)
+        .eq('id', lead.id)
+
+      if (error) {
+        console.error('Error updating lead:', error)
+        return { success: false, error: error.message }
       }
+    }
 
-      return { success: true, data: { tag_added: newTag } }
-    } catch (error) {
-      console.error('Error adding tag to lead:', error)
-      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    if (update) {
+      Object.assign(lead, update)
+    }
+
+    return { success: true, data: { ...resultData, ...(update ? {} : { lead_unchanged: true }) } }
+  }
+
+  private async updateListMembership(add: boolean, config: AutomationStep['config'], context: ExecutionContext): Promise<StepExecutionResult> {
+    const { data: list, error } = await this.supabase
+      .from('lists')
+      .select('id')
+      .eq('id', config.list_id)
+      .eq('workspace_id', context.workspace_id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading list: ${error.message}`)
+    }
+
+    if (!list) {
+      return { success: false, error: `List not found: ${config.list_id}` }
+    }
+
+    if (!context.dry_run) {
+      const { error: writeError } = add
+        ? await this.supabase
+            .from('list_leads')
+            .upsert({ list_id: list.id, lead_id: context.lead.id }, { onConflict: 'list_id,lead_id', ignoreDuplicates: true })
+        : await this.supabase
+            .from('list_leads')
+            .delete()
+            .eq('list_id', list.id)
+            .eq('lead_id', context.lead.id)
+
+      if (writeError) {
+        return { success: false, error: writeError.message }
+      }
+    }
+
+    return { success: true, data: add ? { list_added: list.id } : { list_removed: list.id } }
+  }
+
+  // The other flow applies its own entry policy; a flow never starts itself
+  private async startAutomation(config: AutomationStep['config'], context: ExecutionContext): Promise<StepExecutionResult> {
+    if (config.automation_id === context.automation.id) {
+      return { success: false, error: 'An automation cannot start itself' }
+    }
+
+    const { data: target, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, status')
+      .eq('id', config.automation_id)
+      .eq('workspace_id', context.workspace_id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation: ${error.message}`)
+    }
+
+    if (!target) {
+      return { success: false, error: `Automation not found: ${config.automation_id}` }
+    }
+
+    if (target.status !== 'active') {
+      return { success: true, data: { skipped: true, reason: 'automation_inactive' } }
+    }
+
+    if (context.dry_run) {
+      return { success: true, data: { automation_started: target.id } }
+    }
+
+    const run = await this.executeAutomation(target.id, context.lead.id, {
+      trigger: 'automation',
+      source_automation_id: context.automation.id,
+      source_run_id: context.run?.id,
+      timestamp: new Date().toISOString()
+    })
+
+    return {
+      success: true,
+      data: {
+        automation_started: target.id,
+        started_run_id: run.id,
+        ...(run.execution_data?.skip_reason ? { start_skip_reason: run.execution_data.skip_reason } : {})
+      }
+    }
+  }
+
+  // Cancels the lead's other parked runs; jobs already queued for them find nothing to claim
+  private async exitAutomations(config: AutomationStep['config'], context: ExecutionContext): Promise<StepExecutionResult> {
+    const currentRunId = context.run?.id || ''
+    let exitedRuns = 0
+
+    if (context.dry_run) {
+      const { count, error } = await this.supabase
+        .from('automation_runs')
+        .select('id', { count: 'exact', head: true })
+        .eq('lead_id', context.lead.id)
+        .eq('status', 'pending')
+
+      if (error) {
+        throw new Error(`Error counting automation runs: ${error.message}`)
+      }
+
+      exitedRuns = count || 0
+    } else {
+      const { data, error } = await this.supabase
+        .from('automation_runs')
+        .update({
+          status: 'cancelled',
+          next_execution_at: null,
+          wait_state: null,
+          error_message: `Exited by automation ${context.automation.id}`,
+          completed_at: new Date().toISOString()
+        })
+        .eq('lead_id', context.lead.id)
+        .eq('status', 'pending')
+        .neq('id', currentRunId)
+        .select('id')
+
+      if (error) {
+        throw new Error(`Error exiting automation runs: ${error.message}`)
+      }
+
+      exitedRuns = data?.length || 0
+    }
+
+    return {
+      success: true,
+      shouldStop: !!config.stop_current,
+      data: { exited_runs: exitedRuns }
+    }
+  }
+
+  // Internal email to a workspace member; the message can use the lead's template variables
+  private async notifyMember(config: AutomationStep['config'], context: ExecutionContext): Promise<StepExecutionResult> {
+    const { data: member, error } = await this.supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', context.workspace_id)
+      .eq('user_id', config.member_user_id)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading workspace member: ${error.message}`)
+    }
+
+    const { data: user } = member
+      ? await this.supabase.from('users').select('email').eq('id', member.user_id).maybeSingle()
+      : { data: null }
+
+    if (!member || !user?.email) {
+      return { success: false, error: `Workspace member not found: ${config.member_user_id}` }
+    }
+
+    const rendered = renderEmailContent(
+      { subject: config.subject, html: '', text: config.message },
+      buildLeadTemplateContext(context.lead, { automation_name: context.automation.name })
+    )
+    const text = rendered.text || ''
+    const data = { member_notified: member.user_id, notification_subject: rendered.subject }
+
+    if (context.dry_run) {
+      return { success: true, data }
+    }
+
+    const result = await sendEmail({
+      from: 'MailGenius <noreply@mailgenius.com>',
+      to: [user.email],
+      subject: rendered.subject,
+      html: `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`,
+      text,
+      workspaceId: context.workspace_id
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    return { success: true, data }
+  }
+
+  // Atomic in the database, so parallel flows scoring the same lead don't lose points
+  private async incrementScore(config: AutomationStep['config'], context: ExecutionContext): Promise<StepExecutionResult> {
+    const { lead } = context
+
+    if (context.dry_run) {
+      lead.score = (lead.score || 0) + config.amount
+      return { success: true, data: { score: lead.score, score_change: config.amount } }
+    }
+
+    const { data: score, error } = await this.supabase.rpc('increment_lead_score', {
+      p_lead_id: lead.id,
+      p_amount: config.amount
+    })
+
+    if (error) {
+      return { success: false, error: error.message }
     }
+
+    lead.score = score
+    return { success: true, data: { score, score_change: config.amount } }
   }
 
   // Call webhook
-  private async callWebhook(config: any, lead: any, context: ExecutionContext): Promise<any> {
+  private async callWebhook(config: AutomationStep['config'], lead: ExecutionContext['lead'], context: ExecutionContext): Promise<StepExecutionResult> {
     try {
       const url = config.webhook_url
       const method = config.webhook_method || 'POST'
@@ -584,8 +1357,92 @@ export class AutomationEngine {
     }
   }
 
+  // Start the execution of a step at most once per run, step and visit
+  private async claimStepExecution(
+    runId: string,
+    step: AutomationStep,
+    idempotencyKey: string
+  ): Promise<{ id: string | null; completedResult?: StepExecutionResult }> {
+    const { data, error } = await this.supabase
+      .from('automation_step_executions')
+      .insert({
+        automation_run_id: runId,
+        step_id: step.id,
+        step_type: step.type,
+        idempotency_key: idempotencyKey,
+        executed_at: new Date().toISOString(),
+        status: 'running'
+      })
+      .select('id')
+      .single()
+
+    if (!error && data) {
+      return { id: data.id }
+    }
+
+    // Logging problems must not block the run; only a duplicate key means the step ran before
+    if (error?.code !== '23505') {
+      console.error('Error logging step execution:', error)
+      return { id: null }
+    }
+
+    const { data: existing } = await this.supabase
+      .from('automation_step_executions')
+      .select('id, status, result_data')
+      .eq('idempotency_key', idempotencyKey)
+      .single()
+
+    if (!existing) {
+      return { id: null }
+    }
+
+    if (existing.status === 'completed' || existing.status === 'skipped') {
+      return { id: existing.id, completedResult: existing.result_data }
+    }
+
+    // Waiting, failed or interrupted executions run again
+    await this.supabase
+      .from('automation_step_executions')
+      .update({ status: 'running', executed_at: new Date().toISOString() })
+      .eq('id', existing.id)
+
+    return { id: existing.id }
+  }
+
+  private async finishStepExecution(
+    executionId: string | null,
+    runId: string,
+    step: AutomationStep,
+    result: StepExecutionResult
+  ): Promise<void> {
+    if (!executionId) {
+      await this.logStepExecution(runId, step, result)
+      return
+    }
+
+    try {
+      await this.supabase
+        .from('automation_step_executions')
+        .update({
+          completed_at: new Date().toISOString(),
+          result_data: result,
+          status: this.getStepExecutionStatus(result),
+          error_message: result.error || null
+        })
+        .eq('id', executionId)
+    } catch (error) {
+      console.error('Error logging step execution:', error)
+    }
+  }
+
+  private getStepExecutionStatus(result: StepExecutionResult): string {
+    if (result.waitUntil) return 'waiting'
+    if (result.data?.skipped) return 'skipped'
+    return result.success ? 'completed' : 'failed'
+  }
+
   // Log step execution
-  private async logStepExecution(runId: string, step: AutomationStep, result: any): Promise<void> {
+  private async logStepExecution(runId: string, step: AutomationStep, result: StepExecutionResult): Promise<void> {
     try {
       await this.supabase
         .from('automation_step_executions')
@@ -595,7 +1452,7 @@ export class AutomationEngine {
           step_type: step.type,
           executed_at: new Date().toISOString(),
           result_data: result,
-          status: result.success ? 'completed' : 'failed',
+          status: this.getStepExecutionStatus(result),
           error_message: result.error || null
         })
     } catch (error) {
@@ -603,15 +1460,6 @@ export class AutomationEngine {
     }
   }
 
-  // Replace variables in text
-  private replaceVariables(text: string, variables: Record<string, any>): string {
-    if (!text) return ''
-    
-    return text.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return variables[key] || match
-    })
-  }
-
   // Trigger automation for new leads
   async triggerForNewLead(leadId: string, workspaceId: string): Promise<void> {
     try {
@@ -643,13 +1491,93 @@ export class AutomationEngine {
     }
   }
 
-  // Process scheduled runs
+  // Wake this lead's parked runs when an event matches their wait step or completes a goal
+  async handleLeadEvent(leadId: string, eventType: string, payload: Record<string, unknown> = {}): Promise<number> {
+    const { data: runs, error } = await this.supabase
+      .from('automation_runs')
+      .select(`
+        *,
+        automation_flows (*),
+        automation_flow_versions (*),
+        leads (*)
+      `)
+      .eq('lead_id', leadId)
+      .eq('status', 'pending')
+      .not('next_execution_at', 'is', null)
+
+    if (error) {
+      throw error
+    }
+
+    let resumed = 0
+
+    for (const run of runs || []) {
+      const automation = this.getRunFlow(run)
+      const steps = automation?.flow_definition?.steps || []
+      const state = run.wait_state as WaitState | null
+
+      const waitMatched = state?.kind === 'event' &&
+        state.events.includes(eventType as WaitEventType) &&
+        (!state.email_id || state.email_id === payload.email_id)
+
+      if (waitMatched) {
+        await this.supabase
+          .from('automation_runs')
+          .update({ wait_state: { ...state, matched_event: eventType } })
+          .eq('id', run.id)
+      } else {
+        // Only resume early for a goal; otherwise the run would skip the rest of its delay
+        const goal = await this.findReachedGoal(steps, run.current_step_index, {
+          lead: run.leads,
+          automation,
+          run,
+          variables: run.execution_data || {},
+          workspace_id: automation.workspace_id
+        })
+
+        if (!goal) {
+          continue
+        }
+      }
+
+      try {
+        await this.processAutomationRun(run.id)
+        resumed++
+      } catch (error) {
+        console.error(`Error resuming automation run ${run.id}:`, error)
+      }
+    }
+
+    return resumed
+  }
+
+  // Runs whose worker died mid-step go back to pending so they are picked up again
+  async recoverStalledRuns(): Promise<number> {
+    const now = new Date().toISOString()
+
+    const { data, error } = await this.supabase
+      .from('automation_runs')
+      .update({ status: 'pending', next_execution_at: now, locked_until: null })
+      .eq('status', 'running')
+      .lt('locked_until', now)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    return data?.length || 0
+  }
+
+  // Process scheduled runs; with the step queue this only re-enqueues runs whose job was lost
   async processScheduledRuns(): Promise<void> {
     try {
+      await this.recoverStalledRuns()
+
       // Get all runs that should be executed now
       const { data: runs, error } = await this.supabase
         .from('automation_runs')
-        .select('id')
+        .select('id, current_step_index, next_execution_at')
         .eq('status', 'pending')
         .not('next_execution_at', 'is', null)
         .lte('next_execution_at', new Date().toISOString())
@@ -661,7 +1589,16 @@ export class AutomationEngine {
       // Process each run
       for (const run of runs || []) {
         try {
-          await this.processAutomationRun(run.id)
+          if (this.stepScheduler) {
+            await this.stepScheduler.scheduleStep({
+              runId: run.id,
+              stepIndex: run.current_step_index,
+              runAt: new Date(run.next_execution_at),
+              recovery: true
+            })
+          } else {
+            await this.processAutomationRun(run.id)
+          }
         } catch (error) {
           console.error(`Error processing scheduled run ${run.id}:`, error)
         }
@@ -672,4 +1609,16 @@ export class AutomationEngine {
   }
 }
 
-export const automationEngine = new AutomationEngine()
\ No newline at end of file
+// The automation-steps queue imports the engine, so it is loaded when the first step is scheduled
+const queuedStepScheduler: AutomationStepScheduler = {
+  async scheduleStep(step) {
+    const { automationStepService } = await import('../queue/jobs/automation-steps')
+    await automationStepService.scheduleStep(step)
+  }
+}
+
+export const automationEngine = new AutomationEngine()
+
+// Every process that starts or resumes runs (API routes, cron, trigger dispatch, workers) goes through this
+// instance, so steps always run on the queue instead of inline in whichever process started the run
+automationEngine.setStepScheduler(queuedStepScheduler)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { automationEngine } from './automation-engine'
+import { automationTriggerDispatcher, InboundLeadData } from './trigger-dispatcher'
 
 export class AutomationMiddleware {
   private static instance: AutomationMiddleware
@@ -16,7 +17,8 @@ export class AutomationMiddleware {
 
   // Start background processing
   startBackgroundProcessing(): void {
-    // Process scheduled runs every 30 seconds
+    // Recover stalled runs and runs whose queue job was lost every 30 seconds; without the
+    // automation-steps queue this also executes due runs
     const scheduledInterval = setInterval(async () => {
       try {
         await automationEngine.processScheduledRuns()
@@ -26,6 +28,28 @@ export class AutomationMiddleware {
     }, 30000)
 
     this.processingIntervals.set('scheduled', scheduledInterval)
+
+    // Dispatch queued lead and email trigger events every 30 seconds
+    const triggerInterval = setInterval(async () => {
+      try {
+        await automationTriggerDispatcher.processPendingEvents()
+      } catch (error) {
+        console.error('Error processing automation trigger events:', error)
+      }
+    }, 30000)
+
+    this.processingIntervals.set('triggers', triggerInterval)
+
+    // Date triggers are checked every 5 minutes
+    const dateInterval = setInterval(async () => {
+      try {
+        await automationTriggerDispatcher.processDateTriggers()
+      } catch (error) {
+        console.error('Error processing automation date triggers:', error)
+      }
+    }, 5 * 60 * 1000)
+
+    this.processingIntervals.set('date_triggers', dateInterval)
     
     console.log('Automation background processing started')
   }
@@ -49,12 +73,13 @@ export class AutomationMiddleware {
     }
   }
 
-  // Process webhook triggers
-  async processWebhookTrigger(webhookData: any): Promise<void> {
+  // Process webhook triggers received on an automation's secret URL
+  async processWebhookTrigger(webhookData: { secret: string; lead: InboundLeadData; data?: Record<string, any> }): Promise<void> {
     try {
-      // Implementation depends on webhook structure
-      // This is a placeholder for webhook processing
-      console.log('Webhook trigger received:', webhookData)
+      const result = await automationTriggerDispatcher.handleInboundWebhook(webhookData.secret, webhookData.lead, webhookData.data)
+      if (!result) {
+        console.warn('Webhook trigger received for unknown or inactive automation')
+      }
     } catch (error) {
       console.error('Error processing webhook trigger:', error)
     }
@@ -0,0 +1,292 @@
+import { supabaseAdmin } from '../supabase'
+import { segmentEngine } from '../segments/segment-engine'
+import { automationEngine } from './automation-engine'
+
+export type EnrollmentAction = 'enroll' | 'cancel'
+
+// Leads a bulk operation applies to: a segment, a list, a CSV of emails or a selection of lead ids
+export type EnrollmentSource =
+  | { type: 'segment'; segment_id: string }
+  | { type: 'list'; list_id: string }
+  | { type: 'csv'; csv: string }
+  | { type: 'leads'; lead_ids: string[] }
+
+export interface ResolvedEnrollmentLeads {
+  lead_ids: string[]
+  // CSV emails or selected ids without a lead in the workspace
+  not_found: number
+}
+
+export interface EnrollmentBatchResult {
+  // Runs started, or runs cancelled
+  succeeded: number
+  // Leads turned away by the entry policy, or without an active run to cancel
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+// Keeps .in() filters well under the URL length limit
+const LOOKUP_CHUNK_SIZE = 500
+const PAGE_SIZE = 1000
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/
+
+// Every cell that looks like an address, lower-cased like stored lead emails and de-duplicated
+export function parseEmailList(csv: string): string[] {
+  const emails = csv
+    .split(/[\s,;"']+/)
+    .map(cell => cell.trim().toLowerCase())
+    .filter(cell => EMAIL_PATTERN.test(cell))
+
+  return Array.from(new Set(emails))
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export class AutomationBulkEnrollmentService {
+  private supabase = supabaseAdmin
+
+  // Enrollment needs an active flow; cancelling works on paused flows too
+  async checkAutomation(workspaceId: string, automationId: string, action: EnrollmentAction): Promise<void> {
+    const { data: automation, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, status')
+      .eq('id', automationId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation: ${error.message}`)
+    }
+
+    if (!automation) {
+      throw new Error('Automation not found')
+    }
+
+    if (action === 'enroll' && automation.status !== 'active') {
+      throw new Error('Automation is not active')
+    }
+  }
+
+  async resolveLeads(workspaceId: string, source: EnrollmentSource): Promise<ResolvedEnrollmentLeads> {
+    switch (source.type) {
+      case 'segment': {
+        // Only the ids are kept, one page of lead rows at a time
+        const leadIds: string[] = []
+        for await (const page of segmentEngine.iterateSegmentRecipients(workspaceId, source.segment_id)) {
+          leadIds.push(...page.map(lead => lead.id))
+        }
+        return { lead_ids: leadIds, not_found: 0 }
+      }
+
+      case 'list':
+        return { lead_ids: await this.resolveListLeads(workspaceId, source.list_id), not_found: 0 }
+
+      case 'csv': {
+        const emails = parseEmailList(source.csv)
+        const leadIds = await this.findLeadIds(workspaceId, 'email', emails)
+        return { lead_ids: leadIds, not_found: emails.length - leadIds.length }
+      }
+
+      case 'leads': {
+        const ids = Array.from(new Set(source.lead_ids))
+        const leadIds = await this.findLeadIds(workspaceId, 'id', ids)
+        return { lead_ids: leadIds, not_found: ids.length - leadIds.length }
+      }
+    }
+  }
+
+  // Leads with a pending run in the flow, for cancelling every active run at once
+  async resolveActiveRunLeads(automationId: string): Promise<string[]> {
+    const leadIds = new Set<string>()
+    let offset = 0
+
+    while (true) {
+      const { data, error } = await this.supabase
+        .from('automation_runs')
+        .select('lead_id')
+        .eq('automation_id', automationId)
+        .eq('status', 'pending')
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Error loading automation runs: ${error.message}`)
+      }
+
+      for (const run of data || []) {
+        leadIds.add(run.lead_id)
+      }
+
+      if (!data || data.length < PAGE_SIZE) {
+        break
+      }
+
+      offset += PAGE_SIZE
+    }
+
+    return Array.from(leadIds)
+  }
+
+  // Each lead goes through executeAutomation, so the flow's entry policy still applies. A retried batch counts
+  // the leads its earlier attempt already enrolled instead of enrolling them again
+  async enrollLeads(automationId: string, leadIds: string[], triggerData: Record<string, any> = {}): Promise<EnrollmentBatchResult> {
+    const result: EnrollmentBatchResult = { succeeded: 0, skipped: 0, failed: 0, errors: [] }
+    const existingRuns = triggerData.bulk_enrollment_id
+      ? await this.findBulkRuns(automationId, triggerData.bulk_enrollment_id, leadIds)
+      : new Map<string, boolean>()
+
+    for (const leadId of leadIds) {
+      const wasSkipped = existingRuns.get(leadId)
+
+      if (wasSkipped !== undefined) {
+        if (wasSkipped) {
+          result.skipped++
+        } else {
+          result.succeeded++
+        }
+        continue
+      }
+
+      try {
+        const run = await automationEngine.executeAutomation(automationId, leadId, triggerData)
+
+        if (run.execution_data?.skip_reason) {
+          result.skipped++
+        } else {
+          result.succeeded++
+        }
+      } catch (error) {
+        result.failed++
+        result.errors.push(`${leadId}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return result
+  }
+
+  // Only parked runs are cancelled; a run a worker is executing right now finishes its step first
+  async cancelRuns(automationId: string, leadIds: string[], reason: string): Promise<EnrollmentBatchResult> {
+    const { data, error } = await this.supabase
+      .from('automation_runs')
+      .update({
+        status: 'cancelled',
+        next_execution_at: null,
+        wait_state: null,
+        error_message: reason,
+        completed_at: new Date().toISOString()
+      })
+      .eq('automation_id', automationId)
+      .eq('status', 'pending')
+      .in('lead_id', leadIds)
+      .select('lead_id')
+
+    if (error) {
+      return { succeeded: 0, skipped: 0, failed: leadIds.length, errors: [error.message] }
+    }
+
+    const cancelledLeads = new Set((data || []).map(run => run.lead_id))
+
+    return {
+      succeeded: data?.length || 0,
+      skipped: leadIds.filter(leadId => !cancelledLeads.has(leadId)).length,
+      failed: 0,
+      errors: []
+    }
+  }
+
+  private async resolveListLeads(workspaceId: string, listId: string): Promise<string[]> {
+    const { data: list, error: listError } = await this.supabase
+      .from('lists')
+      .select('id')
+      .eq('id', listId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (listError) {
+      throw new Error(`Error loading list: ${listError.message}`)
+    }
+
+    if (!list) {
+      throw new Error('List not found')
+    }
+
+    const leadIds: string[] = []
+    let offset = 0
+
+    while (true) {
+      const { data, error } = await this.supabase
+        .from('list_leads')
+        .select('lead_id')
+        .eq('list_id', list.id)
+        .order('lead_id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Error loading list leads: ${error.message}`)
+      }
+
+      leadIds.push(...(data || []).map(row => row.lead_id))
+
+      if (!data || data.length < PAGE_SIZE) {
+        break
+      }
+
+      offset += PAGE_SIZE
+    }
+
+    return leadIds
+  }
+
+  // Runs the same bulk operation already created, by lead; true when the entry policy skipped the lead
+  private async findBulkRuns(automationId: string, bulkEnrollmentId: string, leadIds: string[]): Promise<Map<string, boolean>> {
+    const runs = new Map<string, boolean>()
+
+    for (const batch of chunk(leadIds, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from('automation_runs')
+        .select('lead_id, execution_data')
+        .eq('automation_id', automationId)
+        .eq('execution_data->>bulk_enrollment_id', bulkEnrollmentId)
+        .in('lead_id', batch)
+
+      if (error) {
+        throw new Error(`Error loading automation runs: ${error.message}`)
+      }
+
+      for (const run of data || []) {
+        runs.set(run.lead_id, Boolean(run.execution_data?.skip_reason))
+      }
+    }
+
+    return runs
+  }
+
+  private async findLeadIds(workspaceId: string, column: 'id' | 'email', values: string[]): Promise<string[]> {
+    const leadIds: string[] = []
+
+    for (const batch of chunk(values, LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await this.supabase
+        .from('leads')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .in(column, batch)
+
+      if (error) {
+        throw new Error(`Error loading leads: ${error.message}`)
+      }
+
+      leadIds.push(...(data || []).map(lead => lead.id))
+    }
+
+    return leadIds
+  }
+}
+
+export const automationBulkEnrollmentService = new AutomationBulkEnrollmentService()
@@ -0,0 +1,128 @@
+import { getLocalDateTime, shiftDate } from './triggers'
+import { zonedTimeToUtc } from './wait-steps'
+
+// Per-flow entry rules and workspace-wide sending limits for automations
+
+export type ReentryMode = 'never' | 'after_completion' | 'after_days' | 'always'
+
+// Stored on automation_flows.entry_policy
+export interface EntryPolicy {
+  reentry?: ReentryMode
+  // after_days only: days since the lead last entered the flow
+  reentry_days?: number
+  // Runs of this flow a lead may have in progress at once; no limit when null
+  max_concurrent_runs?: number | null
+}
+
+export interface FrequencyCap {
+  max_emails: number
+  period_hours: number
+}
+
+// HH:MM in the lead's timezone; end before start spans midnight (e.g. 22:00-08:00)
+export interface QuietHours {
+  start: string
+  end: string
+  // Used when the lead has no timezone
+  timezone?: string
+}
+
+// Stored on workspaces.settings.delivery
+export interface DeliverySettings {
+  frequency_cap?: FrequencyCap | null
+  quiet_hours?: QuietHours | null
+}
+
+export interface PreviousRun {
+  status: string
+  started_at: string
+}
+
+export type EntryBlockReason = 'reentry_never' | 'reentry_active_run' | 'reentry_too_soon' | 'max_concurrent_runs'
+
+export const DEFAULT_ENTRY_POLICY: EntryPolicy = {
+  reentry: 'after_completion',
+  reentry_days: 30,
+  max_concurrent_runs: 1
+}
+
+export const ACTIVE_RUN_STATUSES = ['pending', 'running']
+
+export function resolveEntryPolicy(policy?: EntryPolicy | null): EntryPolicy {
+  return { ...DEFAULT_ENTRY_POLICY, ...(policy || {}) }
+}
+
+// True when the policy never lets a lead have two active runs, so the database can enforce it
+export function allowsSingleActiveRun(policy?: EntryPolicy | null): boolean {
+  const settings = resolveEntryPolicy(policy)
+  return settings.reentry === 'never' || settings.reentry === 'after_completion' || settings.max_concurrent_runs === 1
+}
+
+// Why a lead may not start the flow again, or null when it may; runs are newest first
+export function getEntryBlockReason(
+  policy: EntryPolicy | null | undefined,
+  runs: PreviousRun[],
+  now: Date = new Date()
+): EntryBlockReason | null {
+  const settings = resolveEntryPolicy(policy)
+  const activeRuns = runs.filter(run => ACTIVE_RUN_STATUSES.includes(run.status)).length
+
+  if (runs.length > 0) {
+    switch (settings.reentry) {
+      case 'never':
+        return 'reentry_never'
+
+      case 'after_completion':
+        if (activeRuns > 0) {
+          return 'reentry_active_run'
+        }
+        break
+
+      case 'after_days': {
+        const lastEntry = new Date(runs[0].started_at).getTime()
+        const waitMs = (settings.reentry_days || 0) * 24 * 60 * 60 * 1000
+        if (now.getTime() - lastEntry < waitMs) {
+          return 'reentry_too_soon'
+        }
+        break
+      }
+    }
+  }
+
+  if (settings.max_concurrent_runs && activeRuns >= settings.max_concurrent_runs) {
+    return 'max_concurrent_runs'
+  }
+
+  return null
+}
+
+// Delivery settings with incomplete rules dropped
+export function getDeliverySettings(workspaceSettings: any): DeliverySettings {
+  const delivery = workspaceSettings?.delivery || {}
+  const cap = delivery.frequency_cap
+  const quiet = delivery.quiet_hours
+
+  return {
+    frequency_cap: cap && cap.max_emails > 0 && cap.period_hours > 0 ? cap : null,
+    quiet_hours: quiet && quiet.start && quiet.end && quiet.start !== quiet.end ? quiet : null
+  }
+}
+
+export function isInQuietHours(localTime: string, quietHours: QuietHours): boolean {
+  if (quietHours.start < quietHours.end) {
+    return localTime >= quietHours.start && localTime < quietHours.end
+  }
+  return localTime >= quietHours.start || localTime < quietHours.end
+}
+
+// When quiet hours end for the lead, or null when sending is allowed now
+export function getQuietHoursEnd(now: Date, quietHours: QuietHours, timezone: string): Date | null {
+  const local = getLocalDateTime(now, timezone)
+
+  if (!isInQuietHours(local.time, quietHours)) {
+    return null
+  }
+
+  const endDate = local.time < quietHours.end ? local.date : shiftDate(local.date, 1)
+  return zonedTimeToUtc(endDate, quietHours.end, timezone)
+}
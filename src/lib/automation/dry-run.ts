@@ -0,0 +1,365 @@
+import { supabaseAdmin } from '../supabase'
+import { segmentEngine } from '../segments/segment-engine'
+import {
+  automationEngine,
+  AutomationFlow,
+  AutomationStep,
+  ExecutionContext,
+  StepExecutionResult
+} from './automation-engine'
+
+// 'event': every wait-for-event step sees the open or click right away; 'timeout': none arrives
+export type DryRunWaitOutcome = 'event' | 'timeout'
+
+export type DryRunOutcome = 'completed' | 'stopped' | 'exited' | 'failed' | 'step_limit'
+
+export interface DryRunOptions {
+  lead_id?: string
+  // Simulate a sample of this segment instead of a single lead
+  segment_id?: string
+  sample_size?: number
+  // Simulate the unpublished draft (default, falls back to the published flow) or the published flow
+  definition?: 'draft' | 'published'
+  // Simulated time the leads enter the flow
+  start_at?: Date
+  wait_outcome?: DryRunWaitOutcome
+  trigger_data?: Record<string, any>
+}
+
+export interface DryRunStepResult {
+  step_id: string
+  step_name: string
+  step_type: string
+  step_index: number
+  // Simulated time the step ran at
+  at: string
+  status: 'completed' | 'skipped' | 'failed' | 'waiting' | 'stopped' | 'goal_reached'
+  data?: Record<string, any>
+  error?: string
+  wait_until?: string
+}
+
+export interface DryRunEmail {
+  step_id: string
+  at: string
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface DryRunLeadResult {
+  lead_id: string
+  lead_email: string
+  outcome: DryRunOutcome
+  path: DryRunStepResult[]
+  emails: DryRunEmail[]
+  started_at: string
+  finished_at: string
+  error?: string
+}
+
+export interface DryRunReport {
+  automation_id: string
+  definition: 'draft' | 'published'
+  leads: DryRunLeadResult[]
+  summary: {
+    leads: number
+    emails: number
+    outcomes: Partial<Record<DryRunOutcome, number>>
+  }
+}
+
+export const DEFAULT_DRY_RUN_SAMPLE_SIZE = 10
+export const MAX_DRY_RUN_SAMPLE_SIZE = 50
+// Guards against jump loops; each executed step (including re-runs after a wait) counts
+const MAX_SIMULATED_STEPS = 200
+
+interface SimulationState {
+  automation: AutomationFlow
+  steps: AutomationStep[]
+  lead: any
+  run: any
+  clock: Date
+  waitOutcome: DryRunWaitOutcome
+  path: DryRunStepResult[]
+  emails: DryRunEmail[]
+  remainingSteps: number
+}
+
+function getStepStatus(result: StepExecutionResult): DryRunStepResult['status'] {
+  if (result.shouldStop) return 'stopped'
+  if (result.waitUntil) return 'waiting'
+  if (result.data?.skipped) return 'skipped'
+  return result.success ? 'completed' : 'failed'
+}
+
+export class AutomationDryRunService {
+  // Called from the API after checking workspace membership
+  private supabase = supabaseAdmin
+
+  async simulate(workspaceId: string, automationId: string, options: DryRunOptions = {}): Promise<DryRunReport> {
+    const { data: automation, error } = await this.supabase
+      .from('automation_flows')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', automationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation: ${error.message}`)
+    }
+
+    if (!automation) {
+      throw new Error('Automation not found')
+    }
+
+    const useDraft = options.definition !== 'published' && !!automation.draft_definition
+    const steps: AutomationStep[] = (useDraft ? automation.draft_definition : automation.flow_definition)?.steps || []
+
+    if (steps.length === 0) {
+      throw new Error('Automation has no steps to simulate')
+    }
+
+    const leads = await this.loadLeads(workspaceId, options)
+    const results: DryRunLeadResult[] = []
+
+    // One lead at a time; conditions and sends read the database and a sample can be large
+    for (const lead of leads) {
+      results.push(await this.simulateLead(automation, steps, lead, options))
+    }
+
+    const outcomes: Partial<Record<DryRunOutcome, number>> = {}
+    for (const result of results) {
+      outcomes[result.outcome] = (outcomes[result.outcome] || 0) + 1
+    }
+
+    return {
+      automation_id: automation.id,
+      definition: useDraft ? 'draft' : 'published',
+      leads: results,
+      summary: {
+        leads: results.length,
+        emails: results.reduce((sum, result) => sum + result.emails.length, 0),
+        outcomes
+      }
+    }
+  }
+
+  // Walk the flow like the engine does, with side effects off and time jumping over every wait
+  async simulateLead(
+    automation: AutomationFlow,
+    steps: AutomationStep[],
+    lead: any,
+    options: DryRunOptions = {}
+  ): Promise<DryRunLeadResult> {
+    const startedAt = options.start_at || new Date()
+    const state: SimulationState = {
+      automation,
+      steps,
+      // Copies, so simulated tag changes never reach the caller's objects
+      lead: { ...lead, tags: [...(lead.tags || [])] },
+      run: {
+        id: `dry-run:${lead.id}`,
+        automation_id: automation.id,
+        lead_id: lead.id,
+        status: 'running',
+        current_step_index: 0,
+        execution_data: {
+          trigger: automation.trigger_type,
+          timestamp: startedAt.toISOString(),
+          ...(options.trigger_data || {})
+        },
+        wait_state: null,
+        retry_count: 0,
+        max_retries: 0
+      },
+      clock: new Date(startedAt),
+      waitOutcome: options.wait_outcome || 'timeout',
+      path: [],
+      emails: [],
+      remainingSteps: MAX_SIMULATED_STEPS
+    }
+
+    let outcome: DryRunOutcome
+    let errorMessage: string | undefined
+
+    try {
+      outcome = await this.simulateFromIndex(state, 0)
+    } catch (error) {
+      // The engine would retry and then fail the run
+      outcome = 'failed'
+      errorMessage = error instanceof Error ? error.message : String(error)
+    }
+
+    return {
+      lead_id: lead.id,
+      lead_email: lead.email,
+      outcome,
+      path: state.path,
+      emails: state.emails,
+      started_at: startedAt.toISOString(),
+      finished_at: state.clock.toISOString(),
+      ...(errorMessage ? { error: errorMessage } : {})
+    }
+  }
+
+  private async simulateFromIndex(state: SimulationState, startIndex: number): Promise<DryRunOutcome> {
+    let stepIndex = startIndex
+
+    while (stepIndex < state.steps.length) {
+      if (state.remainingSteps-- <= 0) {
+        return 'step_limit'
+      }
+
+      const step = state.steps[stepIndex]
+      const context = this.buildContext(state)
+
+      if (stepIndex > 0) {
+        const goal = await automationEngine.findReachedGoal(state.steps, stepIndex, context)
+
+        if (goal) {
+          state.run.wait_state = null
+          state.run.execution_data = { ...state.run.execution_data, goal_reached: goal.step.id }
+          this.recordStep(state, goal.step, {
+            status: 'goal_reached',
+            data: { on_reached: goal.targetIndex === null ? 'exit' : 'jump' }
+          })
+
+          if (goal.targetIndex === null) {
+            return 'exited'
+          }
+
+          stepIndex = goal.targetIndex
+          continue
+        }
+      }
+
+      state.run.current_step_index = stepIndex
+
+      const result = await automationEngine.executeStep(step, context)
+      const { dry_run_email, ...data } = result.data || {}
+
+      if (dry_run_email) {
+        state.emails.push({ step_id: step.id, at: state.clock.toISOString(), ...dry_run_email })
+      }
+
+      this.recordStep(state, step, {
+        status: getStepStatus(result),
+        data: Object.keys(data).length > 0 ? data : undefined,
+        error: result.error,
+        wait_until: result.waitUntil ? new Date(result.waitUntil).toISOString() : undefined
+      })
+
+      if (result.shouldStop) {
+        return 'stopped'
+      }
+
+      if (Object.keys(data).length > 0) {
+        state.run.execution_data = { ...state.run.execution_data, ...data }
+      }
+
+      if (result.waitUntil) {
+        // The same step runs again once the wait is over
+        if (result.waitState && state.waitOutcome === 'event') {
+          state.run.wait_state = { ...result.waitState, matched_event: result.waitState.events[0] }
+        } else {
+          state.run.wait_state = result.waitState || null
+          state.clock = new Date(result.waitUntil)
+        }
+        continue
+      }
+
+      state.run.wait_state = null
+
+      if (result.delay) {
+        state.clock = new Date(state.clock.getTime() + result.delay)
+        stepIndex++
+        continue
+      }
+
+      if (result.jumpTo) {
+        const targetIndex = state.steps.findIndex(s => s.id === result.jumpTo)
+        if (targetIndex !== -1) {
+          stepIndex = targetIndex
+          continue
+        }
+      }
+
+      if (result.nextSteps) {
+        for (const nextStepId of result.nextSteps) {
+          const nextStepIndex = state.steps.findIndex(s => s.id === nextStepId)
+          if (nextStepIndex !== -1) {
+            const outcome = await this.simulateFromIndex(state, nextStepIndex)
+            if (outcome === 'exited' || outcome === 'step_limit') {
+              return outcome
+            }
+          }
+        }
+        return 'completed'
+      }
+
+      stepIndex++
+    }
+
+    return 'completed'
+  }
+
+  private buildContext(state: SimulationState): ExecutionContext {
+    return {
+      lead: state.lead,
+      automation: state.automation,
+      run: state.run,
+      variables: state.run.execution_data,
+      workspace_id: state.automation.workspace_id,
+      dry_run: { now: new Date(state.clock) }
+    }
+  }
+
+  private recordStep(
+    state: SimulationState,
+    step: AutomationStep,
+    result: Pick<DryRunStepResult, 'status' | 'data' | 'error' | 'wait_until'>
+  ): void {
+    state.path.push({
+      step_id: step.id,
+      step_name: step.name,
+      step_type: step.type,
+      step_index: state.steps.indexOf(step),
+      at: state.clock.toISOString(),
+      ...result
+    })
+  }
+
+  private async loadLeads(workspaceId: string, options: DryRunOptions): Promise<any[]> {
+    if (options.lead_id) {
+      const { data: lead, error } = await this.supabase
+        .from('leads')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('id', options.lead_id)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Error loading lead: ${error.message}`)
+      }
+
+      if (!lead) {
+        throw new Error('Lead not found')
+      }
+
+      return [lead]
+    }
+
+    if (!options.segment_id) {
+      throw new Error('A lead or a segment is required')
+    }
+
+    const definition = await segmentEngine.loadSegment(workspaceId, options.segment_id)
+    const sampleSize = Math.min(options.sample_size || DEFAULT_DRY_RUN_SAMPLE_SIZE, MAX_DRY_RUN_SAMPLE_SIZE)
+
+    return segmentEngine.sampleLeads(workspaceId, definition, sampleSize)
+  }
+}
+
+export const automationDryRunService = new AutomationDryRunService()
@@ -0,0 +1,313 @@
+import { supabaseAdmin } from '../supabase'
+import { automationEngine, AutomationStep } from './automation-engine'
+import { getStepTemplateId, getTriggerTypeForStep } from './triggers'
+import { validateFlowDefinition } from './actions'
+import { WaitState } from './wait-steps'
+
+// Rows are frozen on publish; version 1 is created by the automation_flows insert trigger (migration 024)
+export interface AutomationFlowVersion {
+  id: string
+  automation_id: string
+  workspace_id: string
+  version_number: number
+  flow_definition: {
+    steps: AutomationStep[]
+    version: string
+  }
+  trigger_type: string
+  trigger_config: any
+  published_by: string | null
+  published_at: string
+}
+
+export interface AutomationFlowVersionSummary extends Omit<AutomationFlowVersion, 'flow_definition'> {
+  step_count: number
+  // Pending and running runs still on this version
+  active_runs: number
+}
+
+// Moves runs parked on an older version; steps missing from the mapping keep their runs on the old version
+export interface FlowVersionMigration {
+  from_version_id: string
+  step_mapping: Record<string, string>
+}
+
+export interface PublishFlowOptions {
+  userId?: string | null
+  migrations?: FlowVersionMigration[]
+}
+
+export interface PublishFlowResult {
+  version: AutomationFlowVersion
+  migrated_runs: number
+  kept_runs: number
+}
+
+export interface RunPosition {
+  current_step_index: number
+  wait_state?: WaitState | null
+  step_sequence?: number | null
+}
+
+export interface MappedRunPosition {
+  current_step_index: number
+  wait_state: WaitState | null
+  step_sequence: number
+}
+
+const ACTIVE_VERSION_RUN_STATUSES = ['pending', 'running']
+
+// Where a run parked on fromSteps continues in toSteps, or null when its step is not mapped
+export function mapRunPosition(
+  run: RunPosition,
+  fromSteps: AutomationStep[],
+  toSteps: AutomationStep[],
+  stepMapping: Record<string, string>
+): MappedRunPosition | null {
+  const currentStep = fromSteps[run.current_step_index]
+  if (!currentStep) {
+    return null
+  }
+
+  const targetId = stepMapping[currentStep.id]
+  const targetIndex = targetId ? toSteps.findIndex(step => step.id === targetId) : -1
+  if (targetIndex < 0) {
+    return null
+  }
+
+  // An event wait carries over only onto the same kind of step; anything else starts the target step fresh
+  let waitState: WaitState | null = null
+  if (run.wait_state && run.wait_state.step_id === currentStep.id &&
+      getStepTemplateId(currentStep.id) === getStepTemplateId(targetId)) {
+    waitState = { ...run.wait_state, step_id: targetId }
+  }
+
+  return {
+    current_step_index: targetIndex,
+    wait_state: waitState,
+    // A new sequence keeps step idempotency keys from matching executions of the old version
+    step_sequence: (run.step_sequence || 0) + 1
+  }
+}
+
+export class AutomationFlowVersionService {
+  // Called from the API after checking workspace membership; versions are not writable through RLS
+  private supabase = supabaseAdmin
+
+  async listVersions(workspaceId: string, automationId: string): Promise<AutomationFlowVersionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('automation_flow_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('automation_id', automationId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Error loading automation versions: ${error.message}`)
+    }
+
+    const versions = (data || []) as AutomationFlowVersion[]
+
+    return Promise.all(versions.map(async ({ flow_definition, ...version }) => {
+      const { count, error: countError } = await this.supabase
+        .from('automation_runs')
+        .select('id', { count: 'exact', head: true })
+        .eq('flow_version_id', version.id)
+        .in('status', ACTIVE_VERSION_RUN_STATUSES)
+
+      if (countError) {
+        throw new Error(`Error counting automation runs: ${countError.message}`)
+      }
+
+      return {
+        ...version,
+        step_count: flow_definition?.steps?.length || 0,
+        active_runs: count || 0
+      }
+    }))
+  }
+
+  async getVersion(workspaceId: string, versionId: string): Promise<AutomationFlowVersion | null> {
+    const { data, error } = await this.supabase
+      .from('automation_flow_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', versionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Freezes the draft (or the current definition) as the next version; new runs start on it right away
+  async publish(workspaceId: string, automationId: string, options: PublishFlowOptions = {}): Promise<PublishFlowResult> {
+    const { data: automation, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, workspace_id, flow_definition, draft_definition, trigger_type, trigger_config')
+      .eq('workspace_id', workspaceId)
+      .eq('id', automationId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation: ${error.message}`)
+    }
+
+    if (!automation) {
+      throw new Error('Automation not found')
+    }
+
+    const definition = automation.draft_definition || automation.flow_definition
+    const steps: AutomationStep[] = definition?.steps || []
+
+    if (steps.length === 0) {
+      throw new Error('Automation has no steps to publish')
+    }
+
+    const issues = validateFlowDefinition(steps, { automationId })
+    if (issues.length > 0) {
+      const [first] = issues
+      throw new Error(`Invalid flow definition: ${first.step_name ? `${first.step_name}: ` : ''}${first.message}`)
+    }
+
+    const migrations = options.migrations || []
+    for (const migration of migrations) {
+      const unknownStep = Object.values(migration.step_mapping).find(id => !steps.some(step => step.id === id))
+      if (unknownStep) {
+        throw new Error(`Unknown step in mapping: ${unknownStep}`)
+      }
+    }
+
+    const { data: latest, error: latestError } = await this.supabase
+      .from('automation_flow_versions')
+      .select('version_number')
+      .eq('automation_id', automationId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latestError) {
+      throw new Error(`Error loading automation versions: ${latestError.message}`)
+    }
+
+    const versionNumber = (latest?.version_number || 0) + 1
+    const triggerType = getTriggerTypeForStep(steps[0].id)
+    const flowDefinition = { steps, version: String(versionNumber) }
+
+    // The unique (automation_id, version_number) index rejects a concurrent publish of the same number
+    const { data: version, error: versionError } = await this.supabase
+      .from('automation_flow_versions')
+      .insert({
+        automation_id: automationId,
+        workspace_id: workspaceId,
+        version_number: versionNumber,
+        flow_definition: flowDefinition,
+        trigger_type: triggerType || automation.trigger_type,
+        trigger_config: triggerType ? steps[0].config || {} : automation.trigger_config,
+        published_by: options.userId || null
+      })
+      .select()
+      .single()
+
+    if (versionError || !version) {
+      throw new Error(`Error publishing automation version: ${versionError?.message}`)
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('automation_flows')
+      .update({
+        flow_definition: flowDefinition,
+        trigger_type: version.trigger_type,
+        trigger_config: version.trigger_config,
+        current_version_id: version.id,
+        draft_definition: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', automationId)
+
+    if (updateError) {
+      throw new Error(`Error updating automation: ${updateError.message}`)
+    }
+
+    let migratedRuns = 0
+    let keptRuns = 0
+
+    for (const migration of migrations) {
+      const result = await this.migrateRuns(workspaceId, automationId, migration, version)
+      migratedRuns += result.migrated
+      keptRuns += result.kept
+    }
+
+    return { version, migrated_runs: migratedRuns, kept_runs: keptRuns }
+  }
+
+  // Only pending runs move; a run a worker is executing right now stays on its version
+  private async migrateRuns(
+    workspaceId: string,
+    automationId: string,
+    migration: FlowVersionMigration,
+    target: AutomationFlowVersion
+  ): Promise<{ migrated: number; kept: number }> {
+    const source = await this.getVersion(workspaceId, migration.from_version_id)
+
+    if (!source || source.automation_id !== automationId || source.id === target.id) {
+      throw new Error(`Invalid source version: ${migration.from_version_id}`)
+    }
+
+    const { data: runs, error } = await this.supabase
+      .from('automation_runs')
+      .select('id, status, current_step_index, wait_state, step_sequence, next_execution_at')
+      .eq('flow_version_id', source.id)
+      .in('status', ACTIVE_VERSION_RUN_STATUSES)
+
+    if (error) {
+      throw new Error(`Error loading automation runs: ${error.message}`)
+    }
+
+    let migrated = 0
+    let kept = 0
+
+    for (const run of runs || []) {
+      const position = run.status === 'pending'
+        ? mapRunPosition(run, source.flow_definition?.steps || [], target.flow_definition.steps, migration.step_mapping)
+        : null
+
+      if (!position) {
+        kept++
+        continue
+      }
+
+      // Guarded by the old position so a run claimed or moved in the meantime is left alone
+      const { data: updated, error: updateError } = await this.supabase
+        .from('automation_runs')
+        .update({ ...position, flow_version_id: target.id })
+        .eq('id', run.id)
+        .eq('status', 'pending')
+        .eq('flow_version_id', source.id)
+        .eq('current_step_index', run.current_step_index)
+        .select('id')
+
+      if (updateError) {
+        throw new Error(`Error migrating automation run: ${updateError.message}`)
+      }
+
+      if (!updated || updated.length === 0) {
+        kept++
+        continue
+      }
+
+      migrated++
+
+      // Jobs queued for the old step index no longer match the run and are skipped
+      if (run.next_execution_at) {
+        await automationEngine.rescheduleRun(run.id, position.current_step_index, new Date(run.next_execution_at))
+      }
+    }
+
+    return { migrated, kept }
+  }
+}
+
+export const automationFlowVersionService = new AutomationFlowVersionService()
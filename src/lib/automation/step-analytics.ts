@@ -0,0 +1,153 @@
+import { supabaseAdmin } from '../supabase'
+import { AutomationStep } from './automation-engine'
+import { automationFlowVersionService } from './flow-versions'
+
+// One row of get_automation_step_analytics (migration 027)
+export interface StepAnalyticsRow {
+  step_id: string
+  entered: number
+  completed: number
+  failed: number
+  skipped: number
+  waiting: number
+  exited: number
+  conversions: number
+  emails_sent: number
+  emails_opened: number
+  emails_clicked: number
+  // branch id -> runs that took it
+  branches: Record<string, number> | null
+}
+
+export interface BranchAnalytics {
+  branch_id: string
+  name: string
+  entered: number
+}
+
+export interface StepAnalytics {
+  step_id: string
+  name: string
+  type: string
+  position: number
+  // Runs that executed the step at least once
+  entered: number
+  completed: number
+  failed: number
+  skipped: number
+  // Pending runs parked on the step (wait, delay, quiet hours or retry)
+  waiting: number
+  // Finished runs whose last executed step is this one
+  exited: number
+  // Runs through the step that reached a goal afterwards
+  conversions: number
+  emails_sent: number
+  emails_opened: number
+  emails_clicked: number
+  branches: BranchAnalytics[]
+}
+
+export interface AutomationStepAnalytics {
+  automation_id: string
+  flow_version_id: string | null
+  steps: StepAnalytics[]
+}
+
+export interface StepAnalyticsOptions {
+  // Only runs started on this version; otherwise runs of every version are merged by step id
+  flowVersionId?: string | null
+}
+
+// Steps follow the flow definition; executions of steps no longer in it are left out
+export function buildStepAnalytics(steps: AutomationStep[], rows: StepAnalyticsRow[]): StepAnalytics[] {
+  const rowsByStep = new Map(rows.map(row => [row.step_id, row]))
+
+  return steps.map((step, position) => {
+    const row = rowsByStep.get(step.id)
+    const taken = row?.branches || {}
+    const configured: Array<{ id: string; name?: string }> = step.type === 'branching' ? step.config?.branches || [] : []
+
+    // Branches removed from the definition still show up while their runs are counted
+    const branches = [
+      ...configured.map(branch => ({ branch_id: branch.id, name: branch.name || branch.id, entered: Number(taken[branch.id] || 0) })),
+      ...Object.keys(taken)
+        .filter(branchId => !configured.some(branch => branch.id === branchId))
+        .map(branchId => ({ branch_id: branchId, name: branchId, entered: Number(taken[branchId]) }))
+    ]
+
+    return {
+      step_id: step.id,
+      name: step.name,
+      type: step.type,
+      position,
+      entered: Number(row?.entered || 0),
+      completed: Number(row?.completed || 0),
+      failed: Number(row?.failed || 0),
+      skipped: Number(row?.skipped || 0),
+      waiting: Number(row?.waiting || 0),
+      exited: Number(row?.exited || 0),
+      conversions: Number(row?.conversions || 0),
+      emails_sent: Number(row?.emails_sent || 0),
+      emails_opened: Number(row?.emails_opened || 0),
+      emails_clicked: Number(row?.emails_clicked || 0),
+      branches
+    }
+  })
+}
+
+export class AutomationStepAnalyticsService {
+  private supabase = supabaseAdmin
+
+  async getStepAnalytics(
+    workspaceId: string,
+    automationId: string,
+    options: StepAnalyticsOptions = {}
+  ): Promise<AutomationStepAnalytics> {
+    const flowVersionId = options.flowVersionId || null
+    let steps: AutomationStep[]
+
+    if (flowVersionId) {
+      const version = await automationFlowVersionService.getVersion(workspaceId, flowVersionId)
+
+      if (!version || version.automation_id !== automationId) {
+        throw new Error('Automation version not found')
+      }
+
+      steps = version.flow_definition?.steps || []
+    } else {
+      const { data: automation, error } = await this.supabase
+        .from('automation_flows')
+        .select('flow_definition')
+        .eq('id', automationId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Error loading automation: ${error.message}`)
+      }
+
+      if (!automation) {
+        throw new Error('Automation not found')
+      }
+
+      steps = automation.flow_definition?.steps || []
+    }
+
+    const { data: rows, error: analyticsError } = await this.supabase.rpc('get_automation_step_analytics', {
+      p_automation_id: automationId,
+      p_flow_version_id: flowVersionId
+    })
+
+    if (analyticsError) {
+      throw new Error(`Error loading step analytics: ${analyticsError.message}`)
+    }
+
+    return {
+      automation_id: automationId,
+      flow_version_id: flowVersionId,
+      steps: buildStepAnalytics(steps, rows || [])
+    }
+  }
+}
+
+export const automationStepAnalyticsService = new AutomationStepAnalyticsService()
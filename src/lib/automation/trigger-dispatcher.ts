@@ -0,0 +1,514 @@
+import { supabaseAdmin } from '../supabase'
+import { logger } from '../logger'
+import { leadScoringEngine } from '../scoring/lead-scoring'
+import { automationEngine } from './automation-engine'
+import { isValidTimezone } from './wait-steps'
+import {
+  AutomationTriggerType,
+  DateTriggerConfig,
+  getDateTriggerMatch,
+  matchesTriggerConfig
+} from './triggers'
+
+export interface TriggerEvent {
+  // automation_trigger_events row id, set for events dispatched from the outbox
+  id?: string
+  workspace_id: string
+  lead_id: string
+  type: AutomationTriggerType
+  payload?: Record<string, any>
+  occurred_at?: string
+}
+
+// Lead data sent by inbound webhooks and form submissions
+export interface InboundLeadData {
+  email: string
+  name?: string
+  phone?: string
+  company?: string
+  position?: string
+  timezone?: string
+  tags?: string[]
+  custom_fields?: Record<string, any>
+}
+
+export interface FormSubmission {
+  form_id: string
+  lead: InboundLeadData
+  fields?: Record<string, any>
+  source_url?: string
+  referrer?: string
+  user_agent?: string
+  ip_address?: string
+}
+
+export interface FormSubmissionResult {
+  submission_id: string
+  lead_id: string
+  lead_created: boolean
+  automations_started: string[]
+}
+
+export interface InboundWebhookResult {
+  automation_id: string
+  lead_id: string
+  lead_created: boolean
+  run_id: string
+}
+
+export const MAX_TRIGGER_EVENT_ATTEMPTS = 3
+// A claimed event still in 'processing' after this long lost its worker
+const TRIGGER_EVENT_CLAIM_TIMEOUT_MS = 10 * 60 * 1000
+const INTERRUPTED_EVENT_ERROR = 'Trigger event processing was interrupted'
+const DATE_TRIGGER_PAGE_SIZE = 1000
+
+// Custom field keys end up inside PostgREST filters, so only plain identifiers are allowed
+const CUSTOM_FIELD_KEY = /^[A-Za-z0-9_]+$/
+
+// Starts automation runs for trigger events; lead changes and email events arrive through the
+// automation_trigger_events outbox, webhooks and forms are dispatched inline
+export class AutomationTriggerDispatcher {
+  // Triggers run from webhooks and cron jobs without a user session
+  private supabase = supabaseAdmin
+
+  // Start every active flow in the workspace whose trigger matches the event
+  async dispatch(event: TriggerEvent): Promise<string[]> {
+    // Score first, so flows started by this event already see the new score
+    try {
+      await leadScoringEngine.applyEvent(event)
+    } catch (error) {
+      logger.error('Error scoring lead event', {
+        metadata: { lead_id: event.lead_id, trigger: event.type }
+      }, error as Error)
+    }
+
+    const { data: flows, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, trigger_config')
+      .eq('workspace_id', event.workspace_id)
+      .eq('status', 'active')
+      .eq('trigger_type', event.type)
+
+    if (error) {
+      throw new Error(`Error loading automations: ${error.message}`)
+    }
+
+    const payload = event.payload || {}
+    const started: string[] = []
+
+    for (const flow of flows || []) {
+      if (!matchesTriggerConfig(event.type, flow.trigger_config, payload)) {
+        continue
+      }
+
+      try {
+        const run = await automationEngine.executeAutomation(flow.id, event.lead_id, {
+          ...payload,
+          trigger: event.type,
+          timestamp: event.occurred_at || new Date().toISOString()
+        })
+        // Cancelled runs were turned away by the flow's entry policy
+        if (run.status !== 'cancelled') {
+          started.push(flow.id)
+        }
+      } catch (error) {
+        logger.error('Error starting automation from trigger', {
+          metadata: { automation_id: flow.id, lead_id: event.lead_id, trigger: event.type }
+        }, error as Error)
+      }
+    }
+
+    // The same event can release runs parked on a wait step or complete a goal
+    await automationEngine.handleLeadEvent(event.lead_id, event.type, payload)
+
+    return started
+  }
+
+  // Queue an event for the next processPendingEvents pass
+  async enqueue(event: TriggerEvent): Promise<void> {
+    const { error } = await this.supabase
+      .from('automation_trigger_events')
+      .insert({
+        workspace_id: event.workspace_id,
+        lead_id: event.lead_id,
+        event_type: event.type,
+        payload: event.payload || {},
+        created_at: event.occurred_at || new Date().toISOString()
+      })
+
+    if (error) {
+      throw new Error(`Error queuing trigger event: ${error.message}`)
+    }
+  }
+
+  async processPendingEvents(limit: number = 200, now: Date = new Date()): Promise<{ processed: number; failed: number; recovered: number }> {
+    const recovered = await this.recoverStalledEvents(now)
+
+    const { data: events, error } = await this.supabase
+      .from('automation_trigger_events')
+      .select('id, workspace_id, lead_id, event_type, payload, attempts, created_at')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Error loading trigger events: ${error.message}`)
+    }
+
+    let processed = 0
+    let failed = 0
+
+    for (const event of events || []) {
+      const attempts = (event.attempts || 0) + 1
+
+      // Claim the event so an overlapping cron run or worker skips it
+      const { data: claimed } = await this.supabase
+        .from('automation_trigger_events')
+        .update({ status: 'processing', attempts, claimed_at: new Date().toISOString() })
+        .eq('id', event.id)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (!claimed || claimed.length === 0) {
+        continue
+      }
+
+      try {
+        const started = await this.dispatch({
+          id: event.id,
+          workspace_id: event.workspace_id,
+          lead_id: event.lead_id,
+          type: event.event_type as AutomationTriggerType,
+          payload: event.payload,
+          occurred_at: event.created_at
+        })
+
+        await this.supabase
+          .from('automation_trigger_events')
+          .update({
+            status: 'processed',
+            runs_started: started.length,
+            processed_at: new Date().toISOString()
+          })
+          .eq('id', event.id)
+
+        processed++
+      } catch (error) {
+        failed++
+
+        await this.supabase
+          .from('automation_trigger_events')
+          .update({
+            status: attempts >= MAX_TRIGGER_EVENT_ATTEMPTS ? 'failed' : 'pending',
+            error_message: error instanceof Error ? error.message : String(error)
+          })
+          .eq('id', event.id)
+      }
+    }
+
+    return { processed, failed, recovered }
+  }
+
+  // Events whose worker died mid-dispatch go back to 'pending', or to 'failed' once they used up their attempts
+  async recoverStalledEvents(now: Date = new Date()): Promise<number> {
+    const claimedBefore = new Date(now.getTime() - TRIGGER_EVENT_CLAIM_TIMEOUT_MS).toISOString()
+
+    const { data: stalled, error } = await this.supabase
+      .from('automation_trigger_events')
+      .select('id, attempts')
+      .eq('status', 'processing')
+      .lt('claimed_at', claimedBefore)
+
+    if (error) {
+      throw new Error(`Error loading stalled trigger events: ${error.message}`)
+    }
+
+    let recovered = 0
+
+    for (const event of stalled || []) {
+      // Only release the claim we looked at; a worker that finished since keeps its result
+      const { data: released } = await this.supabase
+        .from('automation_trigger_events')
+        .update({
+          status: (event.attempts || 0) >= MAX_TRIGGER_EVENT_ATTEMPTS ? 'failed' : 'pending',
+          claimed_at: null,
+          error_message: INTERRUPTED_EVENT_ERROR
+        })
+        .eq('id', event.id)
+        .eq('status', 'processing')
+        .lt('claimed_at', claimedBefore)
+        .select('id')
+
+      if (released && released.length > 0) {
+        recovered++
+      }
+    }
+
+    return recovered
+  }
+
+  // Fire date triggers that are due; each lead fires once per occurrence
+  async processDateTriggers(now: Date = new Date()): Promise<number> {
+    const { data: flows, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, workspace_id, trigger_config')
+      .eq('status', 'active')
+      .eq('trigger_type', 'date')
+
+    if (error) {
+      throw new Error(`Error loading date automations: ${error.message}`)
+    }
+
+    let started = 0
+
+    for (const flow of flows || []) {
+      try {
+        started += await this.processDateTrigger(flow.id, flow.workspace_id, flow.trigger_config || {}, now)
+      } catch (error) {
+        logger.error('Error processing date trigger', { metadata: { automation_id: flow.id } }, error as Error)
+      }
+    }
+
+    return started
+  }
+
+  private async processDateTrigger(
+    automationId: string,
+    workspaceId: string,
+    config: DateTriggerConfig,
+    now: Date
+  ): Promise<number> {
+    const match = getDateTriggerMatch(config, now)
+    if (!match) {
+      return 0
+    }
+
+    const mode = config.mode || 'anniversary'
+    const column = `custom_fields->>${config.field}`
+
+    if (mode !== 'specific_date' && (!config.field || !CUSTOM_FIELD_KEY.test(config.field))) {
+      throw new Error(`Invalid date field: ${config.field || '(empty)'}`)
+    }
+
+    let started = 0
+
+    for (let offset = 0; ; offset += DATE_TRIGGER_PAGE_SIZE) {
+      let query = this.supabase
+        .from('leads')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+
+      if (mode === 'specific_date') {
+        if (config.tag_name) {
+          query = query.contains('tags', [config.tag_name])
+        }
+      } else if (match.extra_pattern) {
+        query = query.or(`${column}.like.${match.pattern},${column}.like.${match.extra_pattern}`)
+      } else {
+        query = query.like(column, match.pattern)
+      }
+
+      const { data: leads, error } = await query
+        .order('id', { ascending: true })
+        .range(offset, offset + DATE_TRIGGER_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Error loading leads for date trigger: ${error.message}`)
+      }
+
+      if (!leads || leads.length === 0) {
+        break
+      }
+
+      // Only leads without an occurrence row yet come back from the insert
+      const { data: inserted, error: occurrenceError } = await this.supabase
+        .from('automation_trigger_occurrences')
+        .upsert(
+          leads.map(lead => ({ automation_id: automationId, lead_id: lead.id, occurrence_key: match.occurrence_key })),
+          { onConflict: 'automation_id,lead_id,occurrence_key', ignoreDuplicates: true }
+        )
+        .select('lead_id')
+
+      if (occurrenceError) {
+        throw new Error(`Error recording date trigger occurrences: ${occurrenceError.message}`)
+      }
+
+      for (const occurrence of inserted || []) {
+        try {
+          const run = await automationEngine.executeAutomation(automationId, occurrence.lead_id, {
+            trigger: 'date',
+            occurrence_key: match.occurrence_key,
+            timestamp: now.toISOString()
+          })
+          if (run.status !== 'cancelled') {
+            started++
+          }
+        } catch (error) {
+          logger.error('Error starting automation from date trigger', {
+            metadata: { automation_id: automationId, lead_id: occurrence.lead_id }
+          }, error as Error)
+        }
+      }
+
+      if (leads.length < DATE_TRIGGER_PAGE_SIZE) {
+        break
+      }
+    }
+
+    return started
+  }
+
+  // Inbound webhook on an automation's secret URL; returns null for unknown or inactive secrets
+  async handleInboundWebhook(
+    secret: string,
+    lead: InboundLeadData,
+    data: Record<string, any> = {}
+  ): Promise<InboundWebhookResult | null> {
+    const { data: flow, error } = await this.supabase
+      .from('automation_flows')
+      .select('id, workspace_id')
+      .eq('trigger_secret', secret)
+      .eq('trigger_type', 'webhook')
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading automation: ${error.message}`)
+    }
+
+    if (!flow) {
+      return null
+    }
+
+    const { lead: savedLead, created } = await this.upsertLead(flow.workspace_id, lead, 'webhook')
+
+    const run = await automationEngine.executeAutomation(flow.id, savedLead.id, {
+      trigger: 'webhook',
+      data,
+      timestamp: new Date().toISOString()
+    })
+
+    return {
+      automation_id: flow.id,
+      lead_id: savedLead.id,
+      lead_created: created,
+      run_id: run.id
+    }
+  }
+
+  // Record a form submission against its lead and start form_submitted flows
+  async submitForm(workspaceId: string, submission: FormSubmission): Promise<FormSubmissionResult> {
+    const { lead, created } = await this.upsertLead(workspaceId, submission.lead, 'form')
+    const fields = submission.fields || {}
+
+    const { data: saved, error } = await this.supabase
+      .from('form_submissions')
+      .insert({
+        workspace_id: workspaceId,
+        form_data: { form_id: submission.form_id, ...submission.lead, fields },
+        source_url: submission.source_url || null,
+        referrer: submission.referrer || null,
+        user_agent: submission.user_agent || null,
+        ip_address: submission.ip_address || null,
+        processed: true,
+        lead_id: lead.id,
+        processed_at: new Date().toISOString()
+      })
+      .select('id')
+      .single()
+
+    if (error || !saved) {
+      throw new Error(`Error saving form submission: ${error?.message}`)
+    }
+
+    const started = await this.dispatch({
+      workspace_id: workspaceId,
+      lead_id: lead.id,
+      type: 'form_submitted',
+      payload: { form_id: submission.form_id, submission_id: saved.id, fields }
+    })
+
+    return {
+      submission_id: saved.id,
+      lead_id: lead.id,
+      lead_created: created,
+      automations_started: started
+    }
+  }
+
+  // Find the lead by email and merge the incoming data, or create it and fire new_lead flows
+  private async upsertLead(
+    workspaceId: string,
+    data: InboundLeadData,
+    source: string
+  ): Promise<{ lead: any; created: boolean }> {
+    const email = data.email.trim().toLowerCase()
+
+    const { data: existing, error: findError } = await this.supabase
+      .from('leads')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('email', email)
+      .maybeSingle()
+
+    if (findError) {
+      throw new Error(`Error loading lead: ${findError.message}`)
+    }
+
+    if (existing) {
+      const updates: Record<string, any> = {
+        tags: Array.from(new Set([...(existing.tags || []), ...(data.tags || [])])),
+        custom_fields: { ...(existing.custom_fields || {}), ...(data.custom_fields || {}) }
+      }
+      for (const field of ['name', 'phone', 'company', 'position'] as const) {
+        if (data[field]) {
+          updates[field] = data[field]
+        }
+      }
+      if (isValidTimezone(data.timezone)) {
+        updates.timezone = data.timezone
+      }
+
+      const { data: updated, error } = await this.supabase
+        .from('leads')
+        .update(updates)
+        .eq('id', existing.id)
+        .select()
+        .single()
+
+      if (error || !updated) {
+        throw new Error(`Error updating lead: ${error?.message}`)
+      }
+
+      return { lead: updated, created: false }
+    }
+
+    const { data: lead, error } = await this.supabase
+      .from('leads')
+      .insert({
+        workspace_id: workspaceId,
+        email,
+        name: data.name || null,
+        phone: data.phone || null,
+        company: data.company || null,
+        position: data.position || null,
+        timezone: isValidTimezone(data.timezone) ? data.timezone : null,
+        tags: data.tags || [],
+        custom_fields: data.custom_fields || {},
+        status: 'active',
+        source
+      })
+      .select()
+      .single()
+
+    if (error || !lead) {
+      throw new Error(`Error creating lead: ${error?.message}`)
+    }
+
+    await automationEngine.triggerForNewLead(lead.id, workspaceId)
+
+    return { lead, created: true }
+  }
+}
+
+export const automationTriggerDispatcher = new AutomationTriggerDispatcher()
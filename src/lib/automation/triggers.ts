@@ -0,0 +1,180 @@
+// Trigger types and matching rules shared by the builder and the trigger dispatcher
+
+export type AutomationTriggerType =
+  | 'new_lead'
+  | 'tag_added'
+  | 'tag_removed'
+  | 'lead_field_changed'
+  | 'email_opened'
+  | 'email_clicked'
+  | 'email_bounced'
+  | 'campaign_received'
+  | 'form_submitted'
+  | 'webhook'
+  | 'date'
+
+// Builder step templates (availableSteps ids) and the trigger type stored on automation_flows
+export const TRIGGER_STEP_TYPES: Record<string, AutomationTriggerType> = {
+  'trigger-new-lead': 'new_lead',
+  'trigger-tag-added': 'tag_added',
+  'trigger-tag-removed': 'tag_removed',
+  'trigger-field-changed': 'lead_field_changed',
+  'trigger-email-opened': 'email_opened',
+  'trigger-email-clicked': 'email_clicked',
+  'trigger-email-bounced': 'email_bounced',
+  'trigger-campaign-received': 'campaign_received',
+  'trigger-form-submitted': 'form_submitted',
+  'trigger-webhook': 'webhook',
+  'trigger-date': 'date'
+}
+
+export type DateTriggerMode = 'anniversary' | 'relative' | 'specific_date'
+
+export interface DateTriggerConfig {
+  mode?: DateTriggerMode
+  // Custom field holding a YYYY-MM-DD date (anniversary and relative modes)
+  field?: string
+  // Positive runs N days after the date, negative N days before it
+  offset_days?: number
+  // YYYY-MM-DD, specific_date mode only
+  date?: string
+  // HH:MM local time; the trigger fires on the first check at or after it
+  time?: string
+  timezone?: string
+  // Restrict specific_date broadcasts to leads with this tag
+  tag_name?: string
+}
+
+export interface DateTriggerMatch {
+  // Value matched against the lead field with LIKE
+  pattern: string
+  // Extra pattern for Feb 29 dates in non-leap years
+  extra_pattern?: string
+  occurrence_key: string
+}
+
+export const DEFAULT_TRIGGER_TIMEZONE = 'America/Sao_Paulo'
+
+// Step ids are `${template id}_${timestamp}_${random}`; this returns the template id
+export function getStepTemplateId(stepId: string): string {
+  return stepId.split('_')[0]
+}
+
+export function getTriggerTypeForStep(stepId: string): AutomationTriggerType | null {
+  return TRIGGER_STEP_TYPES[getStepTemplateId(stepId)] || null
+}
+
+function normalize(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim().toLowerCase()
+}
+
+// Empty config values act as wildcards
+export function matchesTriggerConfig(
+  type: AutomationTriggerType,
+  config: Record<string, any> | null | undefined,
+  payload: Record<string, any>
+): boolean {
+  const settings = config || {}
+
+  switch (type) {
+    case 'tag_added':
+    case 'tag_removed':
+      return !settings.tag_name || normalize(settings.tag_name) === normalize(payload.tag)
+
+    case 'lead_field_changed': {
+      if (settings.field && settings.field !== payload.field) {
+        return false
+      }
+      if (settings.to_value !== undefined && settings.to_value !== '' && normalize(settings.to_value) !== normalize(payload.new_value)) {
+        return false
+      }
+      return true
+    }
+
+    case 'email_opened':
+    case 'campaign_received':
+      return !settings.campaign_id || settings.campaign_id === payload.campaign_id
+
+    case 'email_clicked':
+      if (settings.campaign_id && settings.campaign_id !== payload.campaign_id) {
+        return false
+      }
+      return !settings.url_contains || normalize(payload.url).includes(normalize(settings.url_contains))
+
+    case 'email_bounced':
+      if (settings.campaign_id && settings.campaign_id !== payload.campaign_id) {
+        return false
+      }
+      return !settings.bounce_type || settings.bounce_type === 'any' || settings.bounce_type === payload.bounce_type
+
+    case 'form_submitted':
+      return !settings.form_id || normalize(settings.form_id) === normalize(payload.form_id)
+
+    case 'new_lead':
+      return !settings.source || settings.source === 'any' || normalize(settings.source) === normalize(payload.source)
+
+    default:
+      return true
+  }
+}
+
+// Local calendar date and time in the trigger timezone
+export function getLocalDateTime(now: Date, timezone: string = DEFAULT_TRIGGER_TIMEZONE): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now)
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00'
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`
+  }
+}
+
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+}
+
+// Which lead dates fire today, or null when the trigger is not due yet
+export function getDateTriggerMatch(config: DateTriggerConfig, now: Date): DateTriggerMatch | null {
+  const local = getLocalDateTime(now, config.timezone || DEFAULT_TRIGGER_TIMEZONE)
+
+  if (config.time && local.time < config.time) {
+    return null
+  }
+
+  const mode = config.mode || 'anniversary'
+
+  if (mode === 'specific_date') {
+    return config.date === local.date ? { pattern: '', occurrence_key: `date:${local.date}` } : null
+  }
+
+  // The lead date that fires today is today minus the offset
+  const target = shiftDate(local.date, -(config.offset_days || 0))
+
+  if (mode === 'relative') {
+    return { pattern: `${target}%`, occurrence_key: `relative:${target}` }
+  }
+
+  const monthDay = target.slice(5)
+  const year = Number(target.slice(0, 4))
+
+  return {
+    pattern: `%-${monthDay}%`,
+    extra_pattern: monthDay === '02-28' && !isLeapYear(year) ? '%-02-29%' : undefined,
+    occurrence_key: `anniversary:${year}`
+  }
+}
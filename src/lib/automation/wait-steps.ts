@@ -0,0 +1,106 @@
+import { DEFAULT_TRIGGER_TIMEZONE, getLocalDateTime, shiftDate } from './triggers'
+
+// Timing helpers for delay, wait-until and time window steps
+
+export type WaitUnit = 'minutes' | 'hours' | 'days' | 'weeks'
+
+export type WaitEventType = 'email_opened' | 'email_clicked'
+
+// Stored on automation_runs.wait_state while a run is parked on a wait step
+export interface WaitState {
+  step_id: string
+  kind: 'event'
+  events: WaitEventType[]
+  started_at: string
+  until: string
+  // Provider message id of the email the wait is scoped to; any email when absent
+  email_id?: string
+  // Set when a matching event wakes the run before the timeout
+  matched_event?: WaitEventType
+}
+
+export interface TimeWindowConfig {
+  // 0 = Sunday ... 6 = Saturday
+  days?: number[]
+  start_time?: string
+  end_time?: string
+  timezone?: string
+}
+
+const UNIT_MS: Record<WaitUnit, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000
+}
+
+export const DEFAULT_WINDOW_DAYS = [1, 2, 3, 4, 5]
+
+// Unknown units fall back to hours, as the original delay step did
+export function durationToMs(amount: number, unit: string): number {
+  return amount * (UNIT_MS[unit as WaitUnit] || UNIT_MS.hours)
+}
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) {
+    return false
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Lead timezone column, then a timezone custom field, then the step fallback
+export function resolveLeadTimezone(lead: any, fallback?: string): string {
+  const candidates = [lead?.timezone, lead?.custom_fields?.timezone, fallback]
+  return candidates.find(isValidTimezone) || DEFAULT_TRIGGER_TIMEZONE
+}
+
+// UTC instant of a wall-clock date and time in the given timezone
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`)
+
+  // Offset of the zone at a given instant, in ms
+  const offsetAt = (instant: number) => {
+    const local = getLocalDateTime(new Date(instant), timezone)
+    return Date.parse(`${local.date}T${local.time}:00Z`) - Math.floor(instant / 60000) * 60000
+  }
+
+  // Second pass settles instants next to a DST change
+  let utc = wallClock - offsetAt(wallClock)
+  utc = wallClock - offsetAt(utc)
+
+  return new Date(utc)
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+// Now when inside the window, otherwise the start of the next allowed window
+export function getNextTimeWindowStart(now: Date, config: TimeWindowConfig, timezone: string): Date {
+  const days = config.days && config.days.length > 0 ? config.days : DEFAULT_WINDOW_DAYS
+  const start = config.start_time || '09:00'
+  const end = config.end_time || '17:00'
+  const local = getLocalDateTime(now, timezone)
+
+  if (days.includes(dayOfWeek(local.date)) && local.time >= start && local.time < end) {
+    return now
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = shiftDate(local.date, offset)
+    if (!days.includes(dayOfWeek(date))) {
+      continue
+    }
+    if (offset === 0 && local.time >= start) {
+      continue
+    }
+    return zonedTimeToUtc(date, start, timezone)
+  }
+
+  return now
+}
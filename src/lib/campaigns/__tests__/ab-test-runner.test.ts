@@ -0,0 +1,474 @@
+// Testes da execução de testes A/B: amostragem, envio das variantes e envio do vencedor
+
+const mockFrom = jest.fn()
+const mockRpc = jest.fn()
+const mockSendCampaignWaves = jest.fn()
+const mockClaimCampaign = jest.fn()
+const mockPrepareDispatch = jest.fn()
+const mockMarkDispatched = jest.fn()
+const mockReleaseClaim = jest.fn()
+const mockMarkQueued = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+jest.mock('../../queue/jobs/email-sending', () => ({
+  emailSendingService: {
+    sendCampaignWaves: (...args: any[]) => mockSendCampaignWaves(...args)
+  }
+}))
+
+jest.mock('../campaign-scheduler', () => ({
+  CAMPAIGN_WITH_TEMPLATE: '*, email_templates(subject, html_content, text_content)',
+  campaignScheduler: {
+    claimCampaign: (...args: any[]) => mockClaimCampaign(...args),
+    prepareDispatch: (...args: any[]) => mockPrepareDispatch(...args),
+    markDispatched: (...args: any[]) => mockMarkDispatched(...args),
+    releaseClaim: (...args: any[]) => mockReleaseClaim(...args),
+    markQueued: (...args: any[]) => mockMarkQueued(...args)
+  }
+}))
+
+import { ABTestRunner, analyzeTest, applyVariant, assignVariant, hashToUnit, toAnalyzerVariant } from '../ab-test-runner'
+
+// Chainable query builder; awaiting it (or maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'update', 'upsert', 'eq', 'is', 'lte', 'order', 'limit', 'range']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+const variants = [
+  { id: 'var-a', name: 'A', content: 'Assunto A', traffic_allocation: 50, created_at: '2026-03-01T00:00:00Z' },
+  { id: 'var-b', name: 'B', content: 'Assunto B', traffic_allocation: 50, created_at: '2026-03-01T00:00:01Z' }
+]
+
+const test = {
+  id: 'test-1',
+  workspace_id: 'ws-1',
+  campaign_id: 'camp-1',
+  test_type: 'subject_line',
+  status: 'draft',
+  test_percentage: 20,
+  test_duration_hours: 4,
+  confidence_level: 95,
+  control_variant_id: null,
+  ab_test_variants: variants
+}
+
+const base = {
+  template: { subject: 'Novidades', html: '<p>Oi {{name}}</p>', text: undefined },
+  sender: { email: 'news@exemplo.com', name: 'Exemplo' }
+}
+
+function buildRecipients(count: number) {
+  return Array.from({ length: count }, (_, i) => ({ id: `lead-${i}`, email: `lead${i}@exemplo.com`, name: `Lead ${i}`, metadata: {} }))
+}
+
+function metricsVariant(id: string, delivered: number, opened: number) {
+  return toAnalyzerVariant('subject_line', {
+    id,
+    name: id,
+    content: id,
+    recipients: delivered,
+    sent: delivered,
+    delivered,
+    opened,
+    clicked: Math.floor(opened / 4)
+  })
+}
+
+describe('assignVariant', () => {
+  it('deve atribuir sempre a mesma variante ao mesmo lead', () => {
+    expect(hashToUnit('test-1', 'lead-1')).toBe(hashToUnit('test-1', 'lead-1'))
+    expect(assignVariant('test-1', 'lead-1', 50, variants)).toBe(assignVariant('test-1', 'lead-1', 50, variants))
+  })
+
+  it('deve amostrar a fração configurada e dividir pela alocação de tráfego', () => {
+    const counts: Record<string, number> = { 'var-a': 0, 'var-b': 0, holdout: 0 }
+    const weighted = [
+      { id: 'var-a', traffic_allocation: 75 },
+      { id: 'var-b', traffic_allocation: 25 }
+    ]
+
+    for (let i = 0; i < 10000; i++) {
+      const variant = assignVariant('test-1', `lead-${i}`, 20, weighted)
+      counts[variant ? variant.id : 'holdout']++
+    }
+
+    expect(counts.holdout / 10000).toBeCloseTo(0.8, 1)
+    expect(counts['var-a'] / (counts['var-a'] + counts['var-b'])).toBeCloseTo(0.75, 1)
+  })
+
+  it('deve incluir todo o público quando a porcentagem é 100', () => {
+    for (let i = 0; i < 100; i++) {
+      expect(assignVariant('test-1', `lead-${i}`, 100, variants)).not.toBeNull()
+    }
+  })
+})
+
+describe('applyVariant', () => {
+  const now = new Date('2026-03-02T12:00:00Z')
+
+  it('deve substituir apenas a parte testada da campanha', () => {
+    const subject = applyVariant('subject_line', { name: 'B', content: 'Oferta' }, base, now, 'UTC')
+    const fromName = applyVariant('from_name', { name: 'B', content: 'Ana da Exemplo' }, base, now, 'UTC')
+
+    expect(subject.template.subject).toBe('Oferta')
+    expect(subject.sender).toEqual(base.sender)
+    expect(fromName.sender).toEqual({ email: 'news@exemplo.com', name: 'Ana da Exemplo' })
+    expect(base.template.subject).toBe('Novidades')
+  })
+
+  it('deve enviar no próximo horário local da variante de horário', () => {
+    const delivery = applyVariant('send_time', { name: 'B', content: '18:30' }, base, now, 'America/Sao_Paulo')
+
+    expect(delivery.sendAt.toISOString()).toBe('2026-03-02T21:30:00.000Z')
+  })
+
+  it('deve rejeitar horário e conteúdo inválidos', () => {
+    expect(() => applyVariant('send_time', { name: 'B', content: 'noite' }, base, now, 'UTC')).toThrow('HH:MM')
+    expect(() => applyVariant('content', { name: 'B', content: '<p>{{#if name}}Oi</p>' }, base, now, 'UTC'))
+      .toThrow('Invalid template for variant B')
+  })
+})
+
+describe('analyzeTest', () => {
+  it('deve escolher o desafiante quando ele vence com significância', () => {
+    const analysis = analyzeTest(
+      { control_variant_id: 'var-a', confidence_level: 95, start_date: '2026-03-01T12:00:00Z' },
+      [metricsVariant('var-a', 8000, 1200), metricsVariant('var-b', 8000, 2000)],
+      new Date('2026-03-05T12:00:00Z')
+    )
+
+    expect(analysis.outcome).toBe('B')
+    expect(analysis.winner.id).toBe('var-b')
+  })
+
+  it('deve manter o controle antes da duração mínima da análise', () => {
+    const analysis = analyzeTest(
+      { control_variant_id: 'var-a', confidence_level: 95, start_date: '2026-03-05T08:00:00Z' },
+      [metricsVariant('var-a', 8000, 1200), metricsVariant('var-b', 8000, 2000)],
+      new Date('2026-03-05T12:00:00Z')
+    )
+
+    expect(analysis.outcome).toBe('inconclusive')
+    expect(analysis.winner.id).toBe('var-a')
+  })
+
+  it('deve usar a duração configurada do teste como mínimo da análise', () => {
+    const analysis = analyzeTest(
+      { control_variant_id: 'var-a', confidence_level: 95, test_duration_hours: 4, start_date: '2026-03-05T08:00:00Z' },
+      [metricsVariant('var-a', 8000, 1200), metricsVariant('var-b', 8000, 2000)],
+      new Date('2026-03-05T12:30:00Z')
+    )
+
+    expect(analysis.outcome).toBe('B')
+    expect(analysis.winner.id).toBe('var-b')
+  })
+
+  it('deve manter o controle quando nenhum desafiante é significativo', () => {
+    const analysis = analyzeTest(
+      { control_variant_id: 'var-b', confidence_level: 95, start_date: '2026-03-01T12:00:00Z' },
+      [metricsVariant('var-a', 8000, 1216), metricsVariant('var-b', 8000, 1200)],
+      new Date('2026-03-05T12:00:00Z')
+    )
+
+    expect(analysis.outcome).toBe('inconclusive')
+    expect(analysis.winner.id).toBe('var-b')
+    expect(analysis.challenger.id).toBe('var-a')
+  })
+})
+
+describe('ABTestRunner', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockRpc.mockReset()
+    mockSendCampaignWaves.mockReset()
+    mockClaimCampaign.mockReset()
+    mockPrepareDispatch.mockReset()
+    mockMarkDispatched.mockReset()
+    mockReleaseClaim.mockReset()
+    mockMarkQueued.mockReset()
+  })
+
+  it('deve enviar cada variante como uma onda retendo o status da campanha', async () => {
+    const recipients = buildRecipients(200)
+    const upsertQuery = createQuery({ data: null, error: null })
+    const testUpdateQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: test, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: { settings: { timezone: 'UTC' } }, error: null }))
+    mockClaimCampaign.mockResolvedValue({ id: 'camp-1' })
+    mockPrepareDispatch.mockResolvedValue({ ...base, userId: 'user-1', leads: recipients, recipients })
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1')
+    // After the test is loaded and claimed, queries are routed by table
+    mockFrom.mockImplementation((table: string) => {
+      if (table === 'ab_test_participants') return upsertQuery
+      if (table === 'ab_tests') return testUpdateQuery
+      return createQuery({ data: null, error: null })
+    })
+
+    const now = new Date('2026-03-02T12:00:00Z')
+    const start = await new ABTestRunner().startTest('ws-1', 'test-1', now)
+
+    const [campaignId, waves, , , userId, metadata] = mockSendCampaignWaves.mock.calls[0]
+    const expectedA = recipients.filter(r => assignVariant('test-1', r.id, 20, variants)?.id === 'var-a')
+    const expectedB = recipients.filter(r => assignVariant('test-1', r.id, 20, variants)?.id === 'var-b')
+
+    expect(campaignId).toBe('camp-1')
+    expect(userId).toBe('user-1')
+    expect(metadata).toEqual({ ab_test_id: 'test-1', hold_campaign_status: true })
+    expect(waves.map((wave: any) => wave.label)).toEqual(['A', 'B'])
+    expect(waves[0].template.subject).toBe('Assunto A')
+    expect(waves[1].template.subject).toBe('Assunto B')
+    expect(waves[0].recipients).toEqual(expectedA)
+    expect(waves[1].recipients).toEqual(expectedB)
+    expect(start).toEqual({
+      test_id: 'test-1',
+      send_id: 'send_camp-1',
+      participants: expectedA.length + expectedB.length,
+      holdout: 200 - expectedA.length - expectedB.length,
+      decision_at: '2026-03-02T16:00:00.000Z'
+    })
+    expect(upsertQuery.upsert).toHaveBeenCalledWith(
+      expect.arrayContaining([{ ab_test_id: 'test-1', variant_id: 'var-a', lead_id: expectedA[0].id }]),
+      { onConflict: 'ab_test_id,lead_id', ignoreDuplicates: true }
+    )
+    expect(testUpdateQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      test_send_id: 'send_camp-1',
+      decision_at: '2026-03-02T16:00:00.000Z',
+      control_variant_id: 'var-a'
+    }))
+    expect(mockMarkDispatched).toHaveBeenCalledWith('camp-1', expect.objectContaining({ userId: 'user-1' }))
+    expect(mockMarkQueued).toHaveBeenCalledWith('camp-1')
+  })
+
+  it('deve voltar o teste para rascunho e liberar a campanha quando nada foi enfileirado', async () => {
+    const revertQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: test, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: { settings: {} }, error: null }))
+      .mockReturnValueOnce(revertQuery)
+    mockClaimCampaign.mockResolvedValue({ id: 'camp-1' })
+    mockPrepareDispatch.mockResolvedValue({ ...base, userId: 'user-1', leads: [], recipients: [] })
+
+    await expect(new ABTestRunner().startTest('ws-1', 'test-1')).rejects.toThrow('No leads were sampled')
+
+    expect(revertQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'draft', start_date: null }))
+    expect(mockReleaseClaim).toHaveBeenCalledWith('camp-1', expect.stringContaining('No leads were sampled'))
+    expect(mockSendCampaignWaves).not.toHaveBeenCalled()
+  })
+
+  it('deve recusar testes que já começaram', async () => {
+    mockFrom.mockReturnValueOnce(createQuery({ data: { ...test, status: 'running' }, error: null }))
+
+    await expect(new ABTestRunner().startTest('ws-1', 'test-1')).rejects.toThrow('A/B test has already started')
+    expect(mockClaimCampaign).not.toHaveBeenCalled()
+  })
+
+  it('deve decidir o vencedor e enviá-lo apenas a quem não participou do teste', async () => {
+    const recipients = buildRecipients(4)
+    const running = { ...test, status: 'running', control_variant_id: 'var-a', start_date: '2026-03-01T12:00:00Z' }
+    const completeQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [running], error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { id: 'camp-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ lead_id: 'lead-0' }, { lead_id: 'lead-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: { settings: {} }, error: null }))
+      .mockReturnValueOnce(completeQuery)
+    mockRpc.mockResolvedValue({
+      data: [
+        { variant_id: 'var-a', recipients: 8000, sent: 8000, delivered: 8000, opened: 1200, clicked: 240, bounced: 0, unsubscribed: 0 },
+        { variant_id: 'var-b', recipients: 8000, sent: 8000, delivered: 8000, opened: 2000, clicked: 480, bounced: 0, unsubscribed: 0 }
+      ],
+      error: null
+    })
+    mockPrepareDispatch.mockResolvedValue({ ...base, userId: 'user-1', leads: recipients, recipients })
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1_rollout')
+
+    const now = new Date('2026-03-05T12:00:00Z')
+    const result = await new ABTestRunner().decideDueTests(now)
+
+    expect(result).toEqual({
+      decided: [{
+        test_id: 'test-1',
+        winner_variant_id: 'var-b',
+        outcome: 'B',
+        status: 'completed',
+        rollout_send_id: 'send_camp-1_rollout',
+        rollout_recipients: 2
+      }],
+      failed: []
+    })
+    expect(mockRpc).toHaveBeenCalledWith('get_ab_test_variant_metrics', { p_ab_test_id: 'test-1' })
+
+    const [, waves, , , , metadata] = mockSendCampaignWaves.mock.calls[0]
+    expect(metadata).toEqual({ ab_test_id: 'test-1' })
+    expect(waves).toHaveLength(1)
+    expect(waves[0].template.subject).toBe('Assunto B')
+    expect(waves[0].recipients.map((r: any) => r.id)).toEqual(['lead-2', 'lead-3'])
+    expect(completeQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'completed',
+      winner_variant_id: 'var-b',
+      rollout_send_id: 'send_camp-1_rollout'
+    }))
+  })
+
+  it('deve pausar o teste inconclusivo sem enviar o controle ao restante do público', async () => {
+    const running = { ...test, status: 'running', control_variant_id: 'var-a', start_date: '2026-03-01T12:00:00Z' }
+    const pauseQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [running], error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(pauseQuery)
+    mockRpc.mockResolvedValue({
+      data: [
+        { variant_id: 'var-a', recipients: 8000, sent: 8000, delivered: 8000, opened: 1200, clicked: 240, bounced: 0, unsubscribed: 0 },
+        { variant_id: 'var-b', recipients: 8000, sent: 8000, delivered: 8000, opened: 1216, clicked: 240, bounced: 0, unsubscribed: 0 }
+      ],
+      error: null
+    })
+
+    const result = await new ABTestRunner().decideDueTests(new Date('2026-03-05T12:00:00Z'))
+
+    expect(result.decided).toEqual([{
+      test_id: 'test-1',
+      winner_variant_id: null,
+      outcome: 'inconclusive',
+      status: 'paused',
+      rollout_send_id: null,
+      rollout_recipients: 0
+    }])
+    expect(pauseQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'paused',
+      execution_error: expect.stringContaining('No variant won'),
+      statistical_significance: expect.objectContaining({ outcome: 'inconclusive' })
+    }))
+    expect(mockPrepareDispatch).not.toHaveBeenCalled()
+    expect(mockSendCampaignWaves).not.toHaveBeenCalled()
+  })
+
+  it('deve enviar o controle no teste inconclusivo quando configurado', async () => {
+    const recipients = buildRecipients(4)
+    const running = {
+      ...test,
+      status: 'running',
+      control_variant_id: 'var-a',
+      inconclusive_action: 'send_control',
+      start_date: '2026-03-01T12:00:00Z'
+    }
+    const completeQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [running], error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { id: 'camp-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ lead_id: 'lead-0' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: { settings: {} }, error: null }))
+      .mockReturnValueOnce(completeQuery)
+    mockRpc.mockResolvedValue({
+      data: [
+        { variant_id: 'var-a', recipients: 8000, sent: 8000, delivered: 8000, opened: 1200, clicked: 240, bounced: 0, unsubscribed: 0 },
+        { variant_id: 'var-b', recipients: 8000, sent: 8000, delivered: 8000, opened: 1216, clicked: 240, bounced: 0, unsubscribed: 0 }
+      ],
+      error: null
+    })
+    mockPrepareDispatch.mockResolvedValue({ ...base, userId: 'user-1', leads: recipients, recipients })
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1_rollout')
+
+    const result = await new ABTestRunner().decideDueTests(new Date('2026-03-05T12:00:00Z'))
+
+    expect(result.decided[0]).toEqual(expect.objectContaining({ winner_variant_id: 'var-a', outcome: 'inconclusive', status: 'completed' }))
+    expect(mockSendCampaignWaves.mock.calls[0][1][0].template.subject).toBe('Assunto A')
+    expect(completeQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed', winner_variant_id: 'var-a' }))
+  })
+
+  it('deve decidir pela receita persistida quando a métrica vencedora é a receita', async () => {
+    const running = {
+      ...test,
+      status: 'running',
+      control_variant_id: 'var-a',
+      winning_metric: 'revenue',
+      start_date: '2026-03-01T12:00:00Z'
+    }
+    const variantUpdateQuery = createQuery({ data: null, error: null })
+    const completeQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [running], error: null }))
+      .mockReturnValueOnce(variantUpdateQuery)
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { id: 'camp-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [], error: null }))
+      .mockReturnValueOnce(createQuery({ data: { settings: {} }, error: null }))
+      .mockReturnValueOnce(completeQuery)
+    // Same open rate; B earns 1.2 per recipient against 1.0
+    mockRpc.mockResolvedValue({
+      data: [
+        { variant_id: 'var-a', recipients: 7000, sent: 7000, delivered: 7000, opened: 1400, clicked: 140, bounced: 0, unsubscribed: 0, revenue: '7000.00', revenue_sum_squares: '35000' },
+        { variant_id: 'var-b', recipients: 7000, sent: 7000, delivered: 7000, opened: 1400, clicked: 140, bounced: 0, unsubscribed: 0, revenue: '8400.00', revenue_sum_squares: '42000' }
+      ],
+      error: null
+    })
+    const recipients = buildRecipients(2)
+    mockPrepareDispatch.mockResolvedValue({ ...base, userId: 'user-1', leads: recipients, recipients })
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1_rollout')
+
+    const result = await new ABTestRunner().decideDueTests(new Date('2026-03-05T12:00:00Z'))
+
+    expect(result.decided[0]).toEqual(expect.objectContaining({ winner_variant_id: 'var-b', outcome: 'B' }))
+    expect(variantUpdateQuery.update).toHaveBeenCalledWith(expect.objectContaining({ revenue: 7000, revenue_sum_squares: 35000 }))
+    expect(completeQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      statistical_significance: expect.objectContaining({ primary_metric: 'revenue', is_significant: true })
+    }))
+  })
+
+  it('deve somar receita apenas a participantes de um teste do workspace', async () => {
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: { id: 'test-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { id: 'test-1' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+    mockRpc
+      .mockResolvedValueOnce({ data: true, error: null })
+      .mockResolvedValueOnce({ data: false, error: null })
+
+    const runner = new ABTestRunner()
+
+    await expect(runner.recordRevenue('ws-1', 'test-1', 'lead-1', 49.9)).resolves.toBe(true)
+    await expect(runner.recordRevenue('ws-1', 'test-1', 'lead-9', 10)).resolves.toBe(false)
+    await expect(runner.recordRevenue('ws-2', 'test-1', 'lead-1', 10)).rejects.toThrow('A/B test not found')
+    expect(mockRpc).toHaveBeenCalledWith('record_ab_test_revenue', { p_ab_test_id: 'test-1', p_lead_id: 'lead-1', p_amount: 49.9 })
+    expect(mockRpc).toHaveBeenCalledTimes(2)
+  })
+
+  it('deve pausar o teste quando a decisão falha', async () => {
+    const pauseQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'test-1' }], error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ ...test, status: 'running' }], error: null }))
+      .mockReturnValueOnce(pauseQuery)
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'timeout' } })
+
+    const result = await new ABTestRunner().decideDueTests(new Date('2026-03-02T12:00:00Z'))
+
+    expect(result).toEqual({ decided: [], failed: [{ test_id: 'test-1', error: 'Error loading A/B test metrics: timeout' }] })
+    expect(pauseQuery.update).toHaveBeenCalledWith({ status: 'paused', execution_error: 'Error loading A/B test metrics: timeout' })
+  })
+})
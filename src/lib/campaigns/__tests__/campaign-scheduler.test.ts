@@ -0,0 +1,291 @@
+// Testes do disparo de campanhas agendadas
+
+const mockFrom = jest.fn()
+const mockSendCampaignEmails = jest.fn()
+const mockSendCampaignWaves = jest.fn()
+const mockPredictSendTimes = jest.fn()
+const mockResolveCampaignVersion = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+jest.mock('../../queue/jobs/email-sending', () => ({
+  emailSendingService: {
+    sendCampaignEmails: (...args: any[]) => mockSendCampaignEmails(...args),
+    sendCampaignWaves: (...args: any[]) => mockSendCampaignWaves(...args)
+  }
+}))
+
+jest.mock('../send-time-optimizer', () => ({
+  ...jest.requireActual('../send-time-optimizer'),
+  sendTimeOptimizer: {
+    predictSendTimes: (...args: any[]) => mockPredictSendTimes(...args)
+  }
+}))
+
+jest.mock('../../subscriptions/subscription-service', () => ({
+  subscriptionService: {
+    filterRecipients: jest.fn((_workspaceId: string, leads: any[]) => Promise.resolve(leads))
+  }
+}))
+
+jest.mock('../../templates/template-versions', () => ({
+  templateVersionService: {
+    resolveCampaignVersion: (...args: any[]) => mockResolveCampaignVersion(...args)
+  }
+}))
+
+import { CampaignScheduler, parseInlineContent } from '../campaign-scheduler'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'update', 'eq', 'in', 'not', 'or', 'gt', 'gte', 'lt', 'lte', 'order', 'limit']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.maybeSingle = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+// Each table hands out its queries in order; the segment engine runs for real on top of them
+function mockTables(tables: Record<string, any[]>) {
+  mockFrom.mockImplementation((table: string) => {
+    const query = tables[table]?.shift()
+    if (!query) {
+      throw new Error(`Unexpected query on ${table}`)
+    }
+    return query
+  })
+}
+
+function emptyQuery() {
+  return createQuery({ data: [], error: null })
+}
+
+const segment = {
+  id: 'seg-1',
+  conditions: { operator: 'and', conditions: [{ id: '1', type: 'simple', field: 'source', comparison: 'equals', value: 'website', case_sensitive: true }] }
+}
+
+const campaign = {
+  id: 'camp-1',
+  workspace_id: 'ws-1',
+  subject: 'Novidades',
+  from_email: 'news@exemplo.com',
+  from_name: 'Exemplo',
+  segment_id: 'seg-1',
+  topic_id: null,
+  created_by: 'user-1',
+  content: null,
+  email_templates: { subject: 'Olá {{name}}', html_content: '<p>Oi {{name}}</p>', text_content: null }
+}
+
+describe('CampaignScheduler', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockSendCampaignEmails.mockReset()
+    mockSendCampaignWaves.mockReset()
+    mockPredictSendTimes.mockReset()
+    mockResolveCampaignVersion.mockReset()
+    mockResolveCampaignVersion.mockResolvedValue(null)
+  })
+
+  it('deve reivindicar a campanha vencida e entregar os destinatários à fila de envio', async () => {
+    const claimQuery = createQuery({ data: [campaign], error: null })
+    const queuedQuery = createQuery({ data: null, error: null })
+    const leadsQuery = createQuery({
+      data: [{ id: 'lead-1', email: 'ana@exemplo.com', name: 'Ana', custom_fields: { plano: 'pro' } }],
+      error: null
+    })
+    mockTables({
+      campaigns: [emptyQuery(), createQuery({ data: [{ id: 'camp-1' }], error: null }), claimQuery, createQuery({ data: null, error: null }), queuedQuery],
+      lead_segments: [createQuery({ data: segment, error: null })],
+      leads: [leadsQuery]
+    })
+    mockSendCampaignEmails.mockResolvedValue('send_camp-1')
+
+    const now = new Date('2026-03-01T12:00:00Z')
+    const result = await new CampaignScheduler().dispatchDueCampaigns(now)
+
+    expect(result).toEqual({
+      dispatched: [{ campaign_id: 'camp-1', send_id: 'send_camp-1', total_recipients: 1, waves: 1 }],
+      failed: [],
+      recovered: 0
+    })
+    expect(claimQuery.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'sending', dispatch_locked_until: expect.any(String) }))
+    expect(claimQuery.eq).toHaveBeenCalledWith('status', 'scheduled')
+    expect(claimQuery.lte).toHaveBeenCalledWith('send_at', now.toISOString())
+    expect(leadsQuery.eq).toHaveBeenCalledWith('workspace_id', 'ws-1')
+    expect(leadsQuery.eq).toHaveBeenCalledWith('status', 'active')
+    expect(leadsQuery.or).toHaveBeenCalledWith('and(source.eq.website)')
+    expect(queuedQuery.update).toHaveBeenCalledWith({ dispatch_locked_until: null })
+    expect(mockSendCampaignEmails).toHaveBeenCalledWith(
+      'camp-1',
+      [{ id: 'lead-1', email: 'ana@exemplo.com', name: 'Ana', metadata: { plano: 'pro' } }],
+      { subject: 'Olá {{name}}', html: '<p>Oi {{name}}</p>', text: undefined },
+      { email: 'news@exemplo.com', name: 'Exemplo' },
+      'user-1'
+    )
+  })
+
+  it('deve enfileirar campanhas otimizadas em ondas no horário previsto de cada lead', async () => {
+    mockTables({
+      campaigns: [
+        emptyQuery(),
+        createQuery({ data: [{ id: 'camp-1' }], error: null }),
+        createQuery({ data: [{ ...campaign, send_mode: 'optimized' }], error: null }),
+        createQuery({ data: null, error: null }),
+        createQuery({ data: null, error: null })
+      ],
+      lead_segments: [createQuery({ data: segment, error: null })],
+      leads: [createQuery({
+        data: [
+          { id: 'lead-1', email: 'ana@exemplo.com', name: 'Ana' },
+          { id: 'lead-2', email: 'bruno@exemplo.com', name: 'Bruno' }
+        ],
+        error: null
+      })]
+    })
+    const morning = new Date('2026-03-01T11:00:00Z')
+    const evening = new Date('2026-03-01T22:00:00Z')
+    mockPredictSendTimes.mockResolvedValue([
+      { lead_id: 'lead-1', send_at: evening, local_hour: 19, timezone: 'America/Sao_Paulo', source: 'lead' },
+      { lead_id: 'lead-2', send_at: morning, local_hour: 8, timezone: 'America/Sao_Paulo', source: 'audience' }
+    ])
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1')
+
+    const now = new Date('2026-03-01T10:00:00Z')
+    const result = await new CampaignScheduler().dispatchDueCampaigns(now)
+
+    expect(result.dispatched).toEqual([{ campaign_id: 'camp-1', send_id: 'send_camp-1', total_recipients: 2, waves: 2 }])
+    expect(mockPredictSendTimes).toHaveBeenCalledWith('ws-1', expect.any(Array), now)
+    expect(mockSendCampaignEmails).not.toHaveBeenCalled()
+    expect(mockSendCampaignWaves.mock.calls[0][1]).toEqual([
+      { sendAt: morning, recipients: [{ id: 'lead-2', email: 'bruno@exemplo.com', name: 'Bruno', metadata: undefined }] },
+      { sendAt: evening, recipients: [{ id: 'lead-1', email: 'ana@exemplo.com', name: 'Ana', metadata: undefined }] }
+    ])
+  })
+
+  it('deve enfileirar uma onda por fuso no horário local da campanha', async () => {
+    mockTables({
+      campaigns: [
+        emptyQuery(),
+        createQuery({ data: [{ id: 'camp-1' }], error: null }),
+        createQuery({ data: [{ ...campaign, send_mode: 'local_time', local_send_time: '09:00' }], error: null }),
+        createQuery({ data: null, error: null }),
+        createQuery({ data: null, error: null })
+      ],
+      lead_segments: [createQuery({ data: segment, error: null })],
+      leads: [createQuery({
+        data: [
+          { id: 'lead-1', email: 'ana@exemplo.com', name: 'Ana', timezone: 'America/Sao_Paulo' },
+          { id: 'lead-2', email: 'bruno@exemplo.com', name: 'Bruno', phone: '+55 92 99999-0000' },
+          { id: 'lead-3', email: 'carla@exemplo.com', name: 'Carla' }
+        ],
+        error: null
+      })],
+      workspaces: [createQuery({ data: { settings: { timezone: 'Europe/Lisbon' } }, error: null })]
+    })
+    mockSendCampaignWaves.mockResolvedValue('send_camp-1')
+
+    const result = await new CampaignScheduler().dispatchDueCampaigns(new Date('2026-03-03T13:00:00Z'))
+
+    expect(result.dispatched).toEqual([{ campaign_id: 'camp-1', send_id: 'send_camp-1', total_recipients: 3, waves: 3 }])
+    expect(mockSendCampaignWaves.mock.calls[0][1].map((wave: any) => ({
+      label: wave.label,
+      sendAt: wave.sendAt.toISOString(),
+      leads: wave.recipients.map((recipient: any) => recipient.id)
+    }))).toEqual([
+      { label: 'America/Manaus', sendAt: '2026-03-03T13:00:00.000Z', leads: ['lead-2'] },
+      { label: 'Europe/Lisbon', sendAt: '2026-03-04T09:00:00.000Z', leads: ['lead-3'] },
+      { label: 'America/Sao_Paulo', sendAt: '2026-03-04T12:00:00.000Z', leads: ['lead-1'] }
+    ])
+  })
+
+  it('deve ignorar campanhas reagendadas ou canceladas depois da busca', async () => {
+    mockTables({
+      campaigns: [emptyQuery(), createQuery({ data: [{ id: 'camp-1' }], error: null }), emptyQuery()]
+    })
+
+    const result = await new CampaignScheduler().dispatchDueCampaigns()
+
+    expect(result).toEqual({ dispatched: [], failed: [], recovered: 0 })
+    expect(mockSendCampaignEmails).not.toHaveBeenCalled()
+  })
+
+  it('deve devolver a campanha para rascunho com o motivo quando o disparo falha', async () => {
+    const revertQuery = createQuery({ data: null, error: null })
+    mockTables({
+      campaigns: [emptyQuery(), createQuery({ data: [{ id: 'camp-1' }], error: null }), createQuery({ data: [campaign], error: null }), revertQuery],
+      lead_segments: [createQuery({ data: segment, error: null })],
+      leads: [emptyQuery()]
+    })
+
+    const result = await new CampaignScheduler().dispatchDueCampaigns()
+
+    expect(result.failed).toEqual([{ campaign_id: 'camp-1', error: 'No leads found for this campaign' }])
+    expect(revertQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'draft',
+      dispatch_error: 'No leads found for this campaign',
+      dispatch_locked_until: null
+    }))
+    expect(revertQuery.eq).toHaveBeenCalledWith('status', 'sending')
+  })
+
+  it('deve devolver ao rascunho a campanha cuja reivindicação expirou sem enfileirar envios', async () => {
+    const stalledQuery = createQuery({ data: [{ id: 'camp-1', dispatch_locked_until: '2026-03-01T12:00:00.000Z' }], error: null })
+    const sendsQuery = emptyQuery()
+    const revertQuery = createQuery({ data: null, error: null })
+    mockTables({ campaigns: [stalledQuery, revertQuery], campaign_sends: [sendsQuery] })
+
+    const recovered = await new CampaignScheduler().recoverStalledDispatches(new Date('2026-03-01T12:05:00Z'))
+
+    expect(recovered).toBe(1)
+    expect(stalledQuery.eq).toHaveBeenCalledWith('status', 'sending')
+    expect(stalledQuery.lt).toHaveBeenCalledWith('dispatch_locked_until', '2026-03-01T12:05:00.000Z')
+    expect(sendsQuery.gte).toHaveBeenCalledWith('created_at', '2026-03-01T11:45:00.000Z')
+    expect(revertQuery.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'draft',
+      dispatch_error: 'Dispatch was interrupted before the campaign was queued',
+      dispatch_locked_until: null
+    }))
+  })
+
+  it('deve manter enviando a campanha expirada que já enfileirou o envio', async () => {
+    const clearQuery = createQuery({ data: null, error: null })
+    mockTables({
+      campaigns: [createQuery({ data: [{ id: 'camp-1', dispatch_locked_until: '2026-03-01T12:00:00.000Z' }], error: null }), clearQuery],
+      campaign_sends: [createQuery({ data: [{ id: 'send_camp-1' }], error: null })]
+    })
+
+    const recovered = await new CampaignScheduler().recoverStalledDispatches(new Date('2026-03-01T12:05:00Z'))
+
+    expect(recovered).toBe(0)
+    expect(clearQuery.update).toHaveBeenCalledWith({ dispatch_locked_until: null })
+  })
+
+  it('deve recusar reagendar ou cancelar uma campanha já disparada', async () => {
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { status: 'sending' }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+      .mockReturnValueOnce(createQuery({ data: { status: 'sent' }, error: null }))
+
+    const scheduler = new CampaignScheduler()
+
+    await expect(scheduler.schedule('ws-1', 'camp-1', new Date('2026-04-01T12:00:00Z')))
+      .rejects.toThrow('Campaign has already been dispatched')
+    await expect(scheduler.cancel('ws-1', 'camp-1')).rejects.toThrow('Campaign has already been dispatched')
+  })
+
+  it('deve ler conteúdo inline salvo como texto ou objeto', () => {
+    expect(parseInlineContent('{"html":"<p>Oi</p>","text":"Oi"}')).toEqual({ html: '<p>Oi</p>', text: 'Oi' })
+    expect(parseInlineContent('<p>Oi</p>')).toEqual({ html: '<p>Oi</p>' })
+    expect(parseInlineContent(null)).toEqual({})
+  })
+})
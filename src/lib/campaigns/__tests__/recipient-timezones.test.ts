@@ -0,0 +1,67 @@
+// Testes do fuso horário dos destinatários para envios no horário local
+
+import {
+  getNextLocalTime,
+  getPhoneTimezone,
+  partitionByTimezone,
+  resolveRecipientTimezone
+} from '../recipient-timezones'
+
+describe('recipient-timezones', () => {
+  it('deve inferir o fuso pelo DDI e pelo DDD brasileiro', () => {
+    expect(getPhoneTimezone('+55 11 99999-0000')).toBe('America/Sao_Paulo')
+    expect(getPhoneTimezone('+55 (92) 99999-0000')).toBe('America/Manaus')
+    expect(getPhoneTimezone('5565999990000')).toBe('America/Cuiaba')
+    expect(getPhoneTimezone('00351 912 345 678')).toBe('Europe/Lisbon')
+    // Numbers without a country code, and countries spanning several timezones, are not guessed
+    expect(getPhoneTimezone('(11) 99999-0000')).toBeNull()
+    expect(getPhoneTimezone('+1 415 555 0100')).toBeNull()
+  })
+
+  it('deve priorizar o fuso do lead, depois cliques, telefone e workspace', () => {
+    expect(resolveRecipientTimezone({ id: 'a', timezone: 'Asia/Tokyo', detected_timezone: 'Europe/Lisbon' }))
+      .toEqual({ timezone: 'Asia/Tokyo', source: 'lead' })
+    expect(resolveRecipientTimezone({ id: 'b', timezone: 'Invalida/Zona', detected_timezone: 'Europe/Lisbon' }))
+      .toEqual({ timezone: 'Europe/Lisbon', source: 'clicks' })
+    expect(resolveRecipientTimezone({ id: 'c', phone: '+55 69 99999-0000' }, 'Europe/Madrid'))
+      .toEqual({ timezone: 'America/Porto_Velho', source: 'phone' })
+    expect(resolveRecipientTimezone({ id: 'd' }, 'Europe/Madrid'))
+      .toEqual({ timezone: 'Europe/Madrid', source: 'workspace' })
+    expect(resolveRecipientTimezone({ id: 'e' }))
+      .toEqual({ timezone: 'America/Sao_Paulo', source: 'default' })
+  })
+
+  it('deve usar o próximo horário local, passando para o dia seguinte quando já passou', () => {
+    // 13:00 UTC is 10:00 in São Paulo and 09:00 in Manaus
+    const now = new Date('2026-03-03T13:00:00Z')
+
+    expect(getNextLocalTime(now, '09:00', 'America/Manaus').toISOString()).toBe('2026-03-03T13:00:00.000Z')
+    expect(getNextLocalTime(now, '09:00', 'America/Sao_Paulo').toISOString()).toBe('2026-03-04T12:00:00.000Z')
+  })
+
+  it('deve separar os leads por fuso em ordem de envio', () => {
+    const partitions = partitionByTimezone(
+      [
+        { id: 'a', timezone: 'Asia/Tokyo' },
+        { id: 'b', phone: '+55 92 99999-0000' },
+        { id: 'c', detected_timezone: 'Europe/Lisbon' },
+        { id: 'd' },
+        { id: 'e', custom_fields: { timezone: 'Asia/Tokyo' } }
+      ],
+      '09:00',
+      new Date('2026-03-03T13:00:00Z'),
+      'America/Sao_Paulo'
+    )
+
+    expect(partitions.map(({ timezone, sendAt, items }) => ({
+      timezone,
+      sendAt: sendAt.toISOString(),
+      leads: items.map(item => item.id)
+    }))).toEqual([
+      { timezone: 'America/Manaus', sendAt: '2026-03-03T13:00:00.000Z', leads: ['b'] },
+      { timezone: 'Asia/Tokyo', sendAt: '2026-03-04T00:00:00.000Z', leads: ['a', 'e'] },
+      { timezone: 'Europe/Lisbon', sendAt: '2026-03-04T09:00:00.000Z', leads: ['c'] },
+      { timezone: 'America/Sao_Paulo', sendAt: '2026-03-04T12:00:00.000Z', leads: ['d'] }
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+// Testes da otimização do horário de envio por destinatário
+
+const mockRpc = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+import {
+  SendTimeOptimizer,
+  addOpens,
+  createOpenTimeProfile,
+  groupBySendTime,
+  pickSendTime
+} from '../send-time-optimizer'
+
+describe('send-time-optimizer', () => {
+  beforeEach(() => {
+    mockRpc.mockReset()
+  })
+
+  it('deve escolher a hora local em que o lead costuma abrir dentro da janela de 24 horas', () => {
+    const profile = createOpenTimeProfile()
+    addOpens(profile, 2, 20, 5)
+    addOpens(profile, 3, 8, 1)
+
+    // 12:00 UTC is 09:00 in São Paulo; 20:00 local is 23:00 UTC the same day
+    const { sendAt, localHour } = pickSendTime(profile, new Date('2026-03-03T12:00:00Z'), 'America/Sao_Paulo')
+
+    expect(localHour).toBe(20)
+    expect(sendAt.toISOString()).toBe('2026-03-03T23:00:00.000Z')
+  })
+
+  it('deve enviar no início da janela quando a melhor hora já começou', () => {
+    const profile = createOpenTimeProfile()
+    addOpens(profile, 2, 9, 4)
+
+    const windowStart = new Date('2026-03-03T12:25:00Z')
+    const { sendAt, localHour } = pickSendTime(profile, windowStart, 'America/Sao_Paulo')
+
+    expect(localHour).toBe(9)
+    expect(sendAt).toEqual(windowStart)
+  })
+
+  it('deve usar o histórico do lead e cair para o agregado da audiência', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { lead_id: 'lead-1', day_of_week: 2, hour: 7, opens: 3 },
+        { lead_id: 'lead-2', day_of_week: 2, hour: 18, opens: 2 },
+        { lead_id: 'lead-3', day_of_week: 2, hour: 18, opens: 19 }
+      ],
+      error: null
+    })
+
+    const predictions = await new SendTimeOptimizer().predictSendTimes(
+      'ws-1',
+      [
+        { id: 'lead-1', timezone: 'America/Sao_Paulo' },
+        { id: 'lead-2', timezone: 'Europe/Lisbon' },
+        { id: 'lead-3', custom_fields: { timezone: 'America/Sao_Paulo' } }
+      ],
+      new Date('2026-03-03T00:00:00Z')
+    )
+
+    expect(predictions.map(({ lead_id, local_hour, timezone, source }) => ({ lead_id, local_hour, timezone, source })))
+      .toEqual([
+        { lead_id: 'lead-1', local_hour: 7, timezone: 'America/Sao_Paulo', source: 'lead' },
+        { lead_id: 'lead-2', local_hour: 18, timezone: 'Europe/Lisbon', source: 'audience' },
+        { lead_id: 'lead-3', local_hour: 18, timezone: 'America/Sao_Paulo', source: 'lead' }
+      ])
+    // The audience had enough opens, so the workspace histogram was never loaded
+    expect(mockRpc).toHaveBeenCalledTimes(1)
+    expect(mockRpc).toHaveBeenCalledWith('get_open_time_histogram', expect.objectContaining({
+      p_workspace_id: 'ws-1',
+      p_lead_ids: ['lead-1', 'lead-2', 'lead-3']
+    }))
+  })
+
+  it('deve usar o horário padrão quando o workspace não tem aberturas', async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null })
+
+    const [prediction] = await new SendTimeOptimizer().predictSendTimes(
+      'ws-1',
+      [{ id: 'lead-1', timezone: 'America/Sao_Paulo' }],
+      new Date('2026-03-03T00:00:00Z')
+    )
+
+    expect(prediction).toMatchObject({ local_hour: 10, source: 'default' })
+    expect(mockRpc).toHaveBeenLastCalledWith('get_open_time_histogram', expect.objectContaining({ p_lead_ids: null }))
+  })
+
+  it('deve agrupar os destinatários por instante de envio em ordem', () => {
+    const first = new Date('2026-03-03T10:00:00Z')
+    const second = new Date('2026-03-03T18:00:00Z')
+
+    const groups = groupBySendTime(
+      [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      [
+        { lead_id: 'a', send_at: second, local_hour: 15, timezone: 'America/Sao_Paulo', source: 'lead' },
+        { lead_id: 'b', send_at: first, local_hour: 7, timezone: 'America/Sao_Paulo', source: 'lead' },
+        { lead_id: 'c', send_at: new Date(second), local_hour: 15, timezone: 'America/Sao_Paulo', source: 'audience' }
+      ]
+    )
+
+    expect(groups).toEqual([
+      { sendAt: first, items: [{ id: 'b' }] },
+      { sendAt: second, items: [{ id: 'a' }, { id: 'c' }] }
+    ])
+  })
+})
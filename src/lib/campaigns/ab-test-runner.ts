@@ -0,0 +1,660 @@
+import { createHash } from 'crypto'
+import { supabaseAdmin } from '../supabase'
+import { logger } from '../logger'
+import { ABTest, ABTestAnalyzer, ABTestPrimaryMetric, ABTestResult, ABTestVariant, MultiVariantTestResult, SIGNIFICANCE_KEYS } from '../ab-testing'
+import { emailSendingService, EmailSendJobData } from '../queue/jobs/email-sending'
+import { validateEmailTemplate, formatTemplateErrors } from '../templates/email-template'
+import { DEFAULT_TRIGGER_TIMEZONE } from '../automation/triggers'
+import { campaignScheduler, CAMPAIGN_WITH_TEMPLATE, CampaignRecord, PreparedDispatch } from './campaign-scheduler'
+import { getNextLocalTime, getWorkspaceTimezone } from './recipient-timezones'
+
+export type ABTestType = ABTestVariant['type']
+
+// ab_test_variants row; the counters are written by refreshVariantMetrics and NUMERIC revenue arrives as a string
+export interface ABTestVariantRecord {
+  id: string
+  name: string
+  content: string
+  traffic_allocation: number
+  created_at?: string
+  recipients?: number
+  sent?: number
+  delivered?: number
+  opened?: number
+  clicked?: number
+  unsubscribed?: number
+  bounced?: number
+  revenue?: number | string | null
+  revenue_sum_squares?: number | string | null
+}
+
+// ab_tests row loaded with its variants
+export interface ABTestRecord {
+  id: string
+  workspace_id: string
+  name: string
+  campaign_id: string | null
+  test_type: ABTestType
+  status: ABTest['status']
+  control_variant_id: string | null
+  confidence_level: number
+  test_percentage: number | null
+  test_duration_hours: number | null
+  test_duration_days: number | null
+  winning_metric: ABTestPrimaryMetric | null
+  inconclusive_action: 'pause' | 'send_control'
+  start_date: string | null
+  end_date: string | null
+  decision_at: string | null
+  decided_at: string | null
+  winner_variant_id: string | null
+  ab_test_variants: ABTestVariantRecord[]
+}
+
+// The settings of a test that its analysis reads
+export type ABTestAnalysisSettings = Partial<Pick<ABTestRecord,
+  'control_variant_id' | 'confidence_level' | 'start_date' | 'winning_metric' | 'test_duration_hours' | 'test_duration_days'>>
+
+export interface ABTestStart {
+  test_id: string
+  send_id: string
+  participants: number
+  // Leads left for the winner
+  holdout: number
+  decision_at: string
+}
+
+export interface ABTestDecision {
+  test_id: string
+  // null when an inconclusive test was paused
+  winner_variant_id: string | null
+  outcome: 'A' | 'B' | 'inconclusive'
+  status: 'completed' | 'paused'
+  rollout_send_id: string | null
+  rollout_recipients: number
+}
+
+export interface ABTestDecisionResult {
+  decided: ABTestDecision[]
+  failed: Array<{ test_id: string; error: string }>
+}
+
+export interface ABTestAnalysis {
+  control: ABTestVariant
+  // The winner, or the leading challenger when none won
+  challenger: ABTestVariant
+  // The control against challenger
+  result: ABTestResult
+  multivariate: MultiVariantTestResult
+  winner: ABTestVariant
+  outcome: 'A' | 'B' | 'inconclusive'
+}
+
+// A row of get_ab_test_variant_metrics; counts are BIGINT and revenue NUMERIC, so they may arrive as strings
+interface VariantMetricsRow {
+  variant_id: string
+  recipients: number | string
+  sent: number | string
+  delivered: number | string
+  opened: number | string
+  clicked: number | string
+  bounced: number | string
+  unsubscribed: number | string
+  revenue: number | string
+  revenue_sum_squares: number | string
+}
+
+interface VariantDelivery {
+  template: EmailSendJobData['template']
+  sender: EmailSendJobData['sender']
+  sendAt: Date
+}
+
+const DECISION_LIMIT = 20
+const PARTICIPANT_CHUNK_SIZE = 500
+const PARTICIPANT_PAGE_SIZE = 1000
+const HOUR_MS = 60 * 60 * 1000
+const SEND_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Time between the last variant going out and the decision
+export function getTestDurationHours(test: ABTestAnalysisSettings): number {
+  return test.test_duration_hours || (test.test_duration_days || 1) * 24
+}
+
+// Stable position of a lead in [0, 1) for a test, so re-running an assignment gives the same split
+export function hashToUnit(testId: string, leadId: string): number {
+  const hex = createHash('sha256').update(`${testId}:${leadId}`).digest('hex').slice(0, 12)
+  return parseInt(hex, 16) / 2 ** 48
+}
+
+// Leads below testPercentage take part; their position within the sample picks a variant by traffic_allocation
+export function assignVariant<T extends { id: string; traffic_allocation: number }>(
+  testId: string,
+  leadId: string,
+  testPercentage: number,
+  variants: T[]
+): T | null {
+  const fraction = testPercentage / 100
+  const position = hashToUnit(testId, leadId)
+
+  if (variants.length === 0 || position >= fraction) {
+    return null
+  }
+
+  const totalAllocation = variants.reduce((sum, variant) => sum + variant.traffic_allocation, 0)
+  let target = (position / fraction) * totalAllocation
+
+  for (const variant of variants) {
+    if (target < variant.traffic_allocation) return variant
+    target -= variant.traffic_allocation
+  }
+
+  return variants[variants.length - 1]
+}
+
+// The variant's content replaces the part of the campaign under test
+export function applyVariant(
+  testType: ABTestType,
+  variant: { name: string; content: string },
+  base: { template: EmailSendJobData['template']; sender: EmailSendJobData['sender'] },
+  now: Date,
+  timezone: string
+): VariantDelivery {
+  const delivery: VariantDelivery = { template: { ...base.template }, sender: { ...base.sender }, sendAt: now }
+
+  switch (testType) {
+    case 'subject_line':
+      delivery.template.subject = variant.content
+      break
+    case 'content': {
+      delivery.template.html = variant.content
+      const validation = validateEmailTemplate(delivery.template)
+      if (!validation.valid) {
+        throw new Error(`Invalid template for variant ${variant.name}: ${formatTemplateErrors(validation)}`)
+      }
+      break
+    }
+    case 'from_name':
+      delivery.sender.name = variant.content
+      break
+    case 'send_time':
+      if (!SEND_TIME_PATTERN.test(variant.content)) {
+        throw new Error(`Variant ${variant.name} must have a send time as HH:MM`)
+      }
+      delivery.sendAt = getNextLocalTime(now, variant.content, timezone)
+      break
+  }
+
+  return delivery
+}
+
+// Compares every challenger with the control, corrected for the number of challengers; the control is kept unless one wins.
+// The decision is due once the configured duration has passed, so that duration is the minimum the analysis asks for
+export function analyzeTest(test: ABTestAnalysisSettings, variants: ABTestVariant[], now: Date = new Date()): ABTestAnalysis {
+  const control = variants.find(variant => variant.id === test.control_variant_id) || variants[0]
+  if (variants.length < 2) {
+    throw new Error('A/B test needs at least 2 variants')
+  }
+
+  const analyzer = new ABTestAnalyzer((test.confidence_level || 95) / 100)
+  const durationDays = test.start_date ? Math.max(0, now.getTime() - Date.parse(test.start_date)) / (24 * HOUR_MS) : 0
+  const primaryMetric: ABTestPrimaryMetric = test.winning_metric || 'open_rate'
+  const multivariate = analyzer.analyzeMultiVariantTest(variants, durationDays, {
+    controlId: control.id,
+    primaryMetric,
+    minimumDurationDays: getTestDurationHours(test) / 24
+  })
+
+  const key = SIGNIFICANCE_KEYS[primaryMetric]
+  const leading = [...multivariate.comparisons].sort((a, b) => b[key].improvement - a[key].improvement)[0]
+  const challengerId = multivariate.winner === 'challenger' ? multivariate.winner_variant_id : leading.variant_id
+  const challenger = variants.find(variant => variant.id === challengerId)!
+
+  return {
+    control,
+    challenger,
+    result: analyzer.analyzeABTest(control, challenger, durationDays),
+    multivariate,
+    winner: multivariate.winner === 'challenger' ? challenger : control,
+    outcome: multivariate.winner === 'challenger' ? 'B' : multivariate.winner === 'control' ? 'A' : 'inconclusive'
+  }
+}
+
+// Sorted so assignment does not depend on the order the database returns variants in
+export function sortVariants<T extends { id: string; created_at?: string }>(variants: T[]): T[] {
+  return [...variants].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '') || a.id.localeCompare(b.id))
+}
+
+export function toAnalyzerVariant(testType: ABTestType, variant: Omit<ABTestVariantRecord, 'traffic_allocation'>): ABTestVariant {
+  return {
+    id: variant.id,
+    name: variant.name,
+    type: testType,
+    content: variant.content,
+    recipients: variant.recipients || 0,
+    sent: variant.sent || 0,
+    delivered: variant.delivered || 0,
+    opened: variant.opened || 0,
+    clicked: variant.clicked || 0,
+    unsubscribed: variant.unsubscribed || 0,
+    bounced: variant.bounced || 0,
+    revenue: Number(variant.revenue || 0),
+    revenue_sum_squares: variant.revenue_sum_squares == null ? undefined : Number(variant.revenue_sum_squares)
+  }
+}
+
+// Sends A/B test variants to a sample of a campaign's audience, then the winner to everyone else
+export class ABTestRunner {
+  // Runs from the cron job without a user session
+  private supabase = supabaseAdmin
+
+  async getTest(workspaceId: string, testId: string): Promise<ABTestRecord> {
+    const { data: test, error } = await this.supabase
+      .from('ab_tests')
+      .select('*, ab_test_variants(*)')
+      .eq('id', testId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading A/B test: ${error.message}`)
+    }
+
+    if (!test) {
+      throw new Error('A/B test not found')
+    }
+
+    return { ...test, ab_test_variants: sortVariants(test.ab_test_variants || []) }
+  }
+
+  // Assign the sample to variants and queue each variant as a wave of the campaign
+  async startTest(workspaceId: string, testId: string, now: Date = new Date()): Promise<ABTestStart> {
+    const test = await this.getTest(workspaceId, testId)
+    const variants = test.ab_test_variants
+
+    if (test.status !== 'draft') {
+      throw new Error('A/B test has already started')
+    }
+    if (!test.campaign_id) {
+      throw new Error('A/B test has no campaign')
+    }
+    if (variants.length < 2) {
+      throw new Error('A/B test needs at least 2 variants')
+    }
+
+    const { data: claimed } = await this.supabase
+      .from('ab_tests')
+      .update({ status: 'running', start_date: now.toISOString(), execution_error: null, updated_at: now.toISOString() })
+      .eq('id', testId)
+      .eq('status', 'draft')
+      .select('id')
+
+    if (!claimed || claimed.length === 0) {
+      throw new Error('A/B test has already started')
+    }
+
+    let campaign: CampaignRecord | null = null
+    let queued = false
+
+    try {
+      campaign = await campaignScheduler.claimCampaign(workspaceId, test.campaign_id)
+      const prepared = await campaignScheduler.prepareDispatch(campaign)
+      const timezone = getWorkspaceTimezone(await this.getWorkspaceSettings(workspaceId)) || DEFAULT_TRIGGER_TIMEZONE
+      const deliveries = new Map(variants.map(variant => [
+        variant.id,
+        applyVariant(test.test_type, variant, prepared, now, timezone)
+      ]))
+
+      const groups = new Map<string, PreparedDispatch['recipients']>(variants.map(variant => [variant.id, []]))
+      for (const recipient of prepared.recipients) {
+        const variant = assignVariant(testId, recipient.id, test.test_percentage ?? 20, variants)
+        if (variant) groups.get(variant.id)!.push(recipient)
+      }
+
+      const participants = Array.from(groups.values()).reduce((sum, group) => sum + group.length, 0)
+      if (participants === 0) {
+        throw new Error('No leads were sampled for the test; increase test_percentage')
+      }
+
+      await this.saveParticipants(testId, groups)
+      await campaignScheduler.markDispatched(campaign.id, prepared)
+
+      const waves = variants
+        .filter(variant => groups.get(variant.id)!.length > 0)
+        .map(variant => ({ ...deliveries.get(variant.id)!, label: variant.name, recipients: groups.get(variant.id)! }))
+
+      const sendId = await emailSendingService.sendCampaignWaves(
+        campaign.id,
+        waves,
+        prepared.template,
+        prepared.sender,
+        prepared.userId,
+        { ab_test_id: testId, hold_campaign_status: true }
+      )
+      queued = true
+      await campaignScheduler.markQueued(campaign.id)
+
+      // The decision waits for the last variant to have been out for the whole test duration
+      const lastSendAt = Math.max(...waves.map(wave => wave.sendAt.getTime()))
+      const decisionAt = new Date(lastSendAt + getTestDurationHours(test) * HOUR_MS).toISOString()
+
+      const { error } = await this.supabase
+        .from('ab_tests')
+        .update({
+          test_send_id: sendId,
+          decision_at: decisionAt,
+          total_audience_size: prepared.leads.length,
+          control_variant_id: test.control_variant_id || variants[0].id
+        })
+        .eq('id', testId)
+
+      if (error) {
+        throw new Error(`Error updating A/B test: ${error.message}`)
+      }
+
+      for (const variant of variants) {
+        await this.supabase
+          .from('ab_test_variants')
+          .update({ recipients: groups.get(variant.id)!.length })
+          .eq('id', variant.id)
+      }
+
+      return {
+        test_id: testId,
+        send_id: sendId,
+        participants,
+        holdout: prepared.leads.length - participants,
+        decision_at: decisionAt
+      }
+    } catch (startError) {
+      const message = startError instanceof Error ? startError.message : String(startError)
+
+      // Nothing went out yet: the test and its campaign can be fixed and started again
+      if (!queued) {
+        await this.supabase
+          .from('ab_tests')
+          .update({ status: 'draft', start_date: null, execution_error: message })
+          .eq('id', testId)
+          .eq('status', 'running')
+
+        if (campaign) {
+          await campaignScheduler.releaseClaim(campaign.id, message)
+        }
+      }
+
+      throw startError
+    }
+  }
+
+  // Pick the winner of every running test whose decision time has passed and send it to the rest of the audience
+  async decideDueTests(now: Date = new Date(), limit: number = DECISION_LIMIT): Promise<ABTestDecisionResult> {
+    const { data: due, error } = await this.supabase
+      .from('ab_tests')
+      .select('id')
+      .eq('status', 'running')
+      .is('decided_at', null)
+      .lte('decision_at', now.toISOString())
+      .order('decision_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Error loading due A/B tests: ${error.message}`)
+    }
+
+    const result: ABTestDecisionResult = { decided: [], failed: [] }
+
+    for (const { id } of due || []) {
+      // Claim the decision so overlapping cron runs don't roll the winner out twice
+      const { data: claimed } = await this.supabase
+        .from('ab_tests')
+        .update({ decided_at: now.toISOString() })
+        .eq('id', id)
+        .eq('status', 'running')
+        .is('decided_at', null)
+        .select('*, ab_test_variants(*)')
+
+      if (!claimed || claimed.length === 0) {
+        continue
+      }
+
+      try {
+        result.decided.push(await this.decide(claimed[0], now))
+      } catch (decideError) {
+        const message = decideError instanceof Error ? decideError.message : String(decideError)
+        result.failed.push({ test_id: id, error: message })
+        logger.error('Error deciding A/B test', { metadata: { ab_test_id: id } }, decideError as Error)
+
+        // Paused with the reason; the variants already went out, so the test is not restarted
+        await this.supabase
+          .from('ab_tests')
+          .update({ status: 'paused', execution_error: message })
+          .eq('id', id)
+      }
+    }
+
+    return result
+  }
+
+  // Add revenue to a participant; false when the lead did not take part in the test
+  async recordRevenue(workspaceId: string, testId: string, leadId: string, amount: number): Promise<boolean> {
+    const { data: test, error } = await this.supabase
+      .from('ab_tests')
+      .select('id')
+      .eq('id', testId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading A/B test: ${error.message}`)
+    }
+
+    if (!test) {
+      throw new Error('A/B test not found')
+    }
+
+    const { data: recorded, error: recordError } = await this.supabase.rpc('record_ab_test_revenue', {
+      p_ab_test_id: testId,
+      p_lead_id: leadId,
+      p_amount: amount
+    })
+
+    if (recordError) {
+      throw new Error(`Error recording A/B test revenue: ${recordError.message}`)
+    }
+
+    return Boolean(recorded)
+  }
+
+  // Recount each variant's engagement from email_sends and its revenue, and store them on ab_test_variants
+  async refreshVariantMetrics(testId: string, variants: ABTestVariantRecord[]): Promise<ABTestVariantRecord[]> {
+    const { data: rows, error } = await this.supabase.rpc('get_ab_test_variant_metrics', {
+      p_ab_test_id: testId
+    })
+
+    if (error) {
+      throw new Error(`Error loading A/B test metrics: ${error.message}`)
+    }
+
+    const metricsByVariant = new Map<string, VariantMetricsRow>((rows || []).map((row: VariantMetricsRow) => [row.variant_id, row]))
+    const refreshed = []
+
+    for (const variant of variants) {
+      const row = metricsByVariant.get(variant.id)
+      const metrics = {
+        recipients: Number(row?.recipients || 0),
+        sent: Number(row?.sent || 0),
+        delivered: Number(row?.delivered || 0),
+        opened: Number(row?.opened || 0),
+        clicked: Number(row?.clicked || 0),
+        bounced: Number(row?.bounced || 0),
+        unsubscribed: Number(row?.unsubscribed || 0),
+        revenue: Number(row?.revenue || 0),
+        revenue_sum_squares: Number(row?.revenue_sum_squares || 0)
+      }
+
+      await this.supabase
+        .from('ab_test_variants')
+        .update(metrics)
+        .eq('id', variant.id)
+
+      refreshed.push({ ...variant, ...metrics })
+    }
+
+    return refreshed
+  }
+
+  private async decide(test: ABTestRecord, now: Date): Promise<ABTestDecision> {
+    const variants = await this.refreshVariantMetrics(test.id, sortVariants(test.ab_test_variants || []))
+    const analysis = analyzeTest(test, variants.map(variant => toAnalyzerVariant(test.test_type, variant)), now)
+    const winner = variants.find(variant => variant.id === analysis.winner.id)!
+    const comparison = analysis.multivariate.comparisons.find(c => c.variant_id === analysis.challenger.id)!
+    const significance = comparison[SIGNIFICANCE_KEYS[analysis.multivariate.primary_metric]]
+    const statisticalSignificance = {
+      p_value: significance.adjusted_p_value,
+      confidence_level: test.confidence_level,
+      is_significant: analysis.outcome === 'B',
+      winner_lift: analysis.outcome === 'B' ? significance.improvement_percentage : 0,
+      primary_metric: analysis.multivariate.primary_metric,
+      outcome: analysis.outcome,
+      correction: analysis.multivariate.correction,
+      recommendation: analysis.multivariate.recommendation
+    }
+
+    // Without a winner the rest of the audience gets the control only when the test asks for it
+    if (analysis.outcome === 'inconclusive' && test.inconclusive_action !== 'send_control') {
+      const { error: pauseError } = await this.supabase
+        .from('ab_tests')
+        .update({
+          status: 'paused',
+          execution_error: `No variant won: ${analysis.multivariate.recommendation}`,
+          statistical_significance: statisticalSignificance
+        })
+        .eq('id', test.id)
+
+      if (pauseError) {
+        throw new Error(`Error pausing A/B test: ${pauseError.message}`)
+      }
+
+      return {
+        test_id: test.id,
+        winner_variant_id: null,
+        outcome: analysis.outcome,
+        status: 'paused',
+        rollout_send_id: null,
+        rollout_recipients: 0
+      }
+    }
+
+    const { data: campaign, error } = await this.supabase
+      .from('campaigns')
+      .select(CAMPAIGN_WITH_TEMPLATE)
+      .eq('id', test.campaign_id)
+      .maybeSingle()
+
+    if (error || !campaign) {
+      throw new Error('Campaign of the A/B test was not found')
+    }
+
+    // The audience is resolved again, so leads that joined or opted out during the test are accounted for
+    const prepared = await campaignScheduler.prepareDispatch(campaign)
+    const participantIds = await this.getParticipantLeadIds(test.id)
+    const remaining = prepared.recipients.filter(recipient => !participantIds.has(recipient.id))
+
+    let rolloutSendId: string | null = null
+    if (remaining.length > 0) {
+      const timezone = getWorkspaceTimezone(await this.getWorkspaceSettings(test.workspace_id)) || DEFAULT_TRIGGER_TIMEZONE
+      const delivery = applyVariant(test.test_type, winner, prepared, now, timezone)
+
+      rolloutSendId = await emailSendingService.sendCampaignWaves(
+        campaign.id,
+        [{ ...delivery, label: winner.name, recipients: remaining }],
+        prepared.template,
+        prepared.sender,
+        prepared.userId,
+        { ab_test_id: test.id }
+      )
+    } else {
+      // Everyone took part in the test, so the campaign is done
+      await this.supabase
+        .from('campaigns')
+        .update({ status: 'sent', updated_at: now.toISOString() })
+        .eq('id', campaign.id)
+        .eq('status', 'sending')
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('ab_tests')
+      .update({
+        status: 'completed',
+        winner_variant_id: winner.id,
+        end_date: now.toISOString(),
+        rollout_send_id: rolloutSendId,
+        execution_error: null,
+        statistical_significance: statisticalSignificance
+      })
+      .eq('id', test.id)
+
+    if (updateError) {
+      throw new Error(`Error completing A/B test: ${updateError.message}`)
+    }
+
+    return {
+      test_id: test.id,
+      winner_variant_id: winner.id,
+      outcome: analysis.outcome,
+      status: 'completed',
+      rollout_send_id: rolloutSendId,
+      rollout_recipients: remaining.length
+    }
+  }
+
+  private async saveParticipants(testId: string, groups: Map<string, PreparedDispatch['recipients']>): Promise<void> {
+    const rows = Array.from(groups.entries()).flatMap(([variantId, recipients]) =>
+      recipients.map(recipient => ({ ab_test_id: testId, variant_id: variantId, lead_id: recipient.id }))
+    )
+
+    for (let i = 0; i < rows.length; i += PARTICIPANT_CHUNK_SIZE) {
+      // Assignment is deterministic, so restarting a test after a failure finds the same rows
+      const { error } = await this.supabase
+        .from('ab_test_participants')
+        .upsert(rows.slice(i, i + PARTICIPANT_CHUNK_SIZE), { onConflict: 'ab_test_id,lead_id', ignoreDuplicates: true })
+
+      if (error) {
+        throw new Error(`Error saving A/B test participants: ${error.message}`)
+      }
+    }
+  }
+
+  private async getParticipantLeadIds(testId: string): Promise<Set<string>> {
+    const leadIds = new Set<string>()
+
+    for (let from = 0; ; from += PARTICIPANT_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('ab_test_participants')
+        .select('lead_id')
+        .eq('ab_test_id', testId)
+        .range(from, from + PARTICIPANT_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Error loading A/B test participants: ${error.message}`)
+      }
+
+      for (const row of data || []) leadIds.add(row.lead_id)
+      if (!data || data.length < PARTICIPANT_PAGE_SIZE) break
+    }
+
+    return leadIds
+  }
+
+  private async getWorkspaceSettings(workspaceId: string): Promise<Record<string, unknown>> {
+    const { data: workspace } = await this.supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .maybeSingle()
+
+    return workspace?.settings || {}
+  }
+}
+
+export const abTestRunner = new ABTestRunner()
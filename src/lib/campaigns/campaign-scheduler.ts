@@ -0,0 +1,465 @@
+import { supabaseAdmin } from '../supabase'
+import { logger } from '../logger'
+import { emailSendingService, EmailSendJobData } from '../queue/jobs/email-sending'
+import { segmentEngine, SegmentRecipient } from '../segments/segment-engine'
+import { subscriptionService } from '../subscriptions/subscription-service'
+import { validateEmailTemplate, formatTemplateErrors } from '../templates/email-template'
+import { templateVersionService, CampaignTemplateRef, TemplateVersion } from '../templates/template-versions'
+import { groupBySendTime, sendTimeOptimizer } from './send-time-optimizer'
+import { getWorkspaceTimezone, partitionByTimezone } from './recipient-timezones'
+
+// 'optimized' spreads delivery over 24 hours, sending to each lead at the hour they usually open;
+// 'local_time' sends to each timezone the next time the clock there reads local_send_time
+export type CampaignSendMode = 'immediate' | 'optimized' | 'local_time'
+
+export interface CampaignDispatch {
+  campaign_id: string
+  send_id: string
+  total_recipients: number
+  // Delivery waves queued; 1 for immediate sends
+  waves: number
+}
+
+// Campaign row as loaded with CAMPAIGN_WITH_TEMPLATE; schedule and cancel return it without the template
+export interface CampaignRecord extends CampaignTemplateRef {
+  id: string
+  name: string
+  subject: string
+  content: unknown
+  status: string
+  segment_id: string | null
+  topic_id: string | null
+  from_email: string | null
+  from_name: string | null
+  send_at: string | null
+  send_mode: CampaignSendMode | null
+  local_send_time: string | null
+  created_by: string | null
+  dispatch_locked_until: string | null
+  email_templates?: Pick<TemplateVersion, 'subject' | 'html_content' | 'text_content'> | null
+}
+
+// Everything needed to queue a claimed campaign
+export interface PreparedDispatch {
+  template: EmailSendJobData['template']
+  sender: EmailSendJobData['sender']
+  userId: string
+  templateVersionId: string | null
+  leads: SegmentRecipient[]
+  recipients: EmailSendJobData['recipients']
+}
+
+export interface DispatchResult {
+  dispatched: CampaignDispatch[]
+  failed: Array<{ campaign_id: string; error: string }>
+  // Claims that expired before their emails were queued, returned to draft
+  recovered: number
+}
+
+// Once the dispatcher claims a campaign it is 'sending' and can no longer be rescheduled or cancelled
+export const SCHEDULABLE_CAMPAIGN_STATUSES = ['draft', 'scheduled', 'paused', 'cancelled']
+export const CANCELLABLE_CAMPAIGN_STATUSES = ['scheduled', 'paused']
+
+const DISPATCH_LIMIT = 20
+// How long a claim may take to queue its emails before the cron treats the dispatching worker as dead
+const DISPATCH_LEASE_MS = 15 * 60 * 1000
+const INTERRUPTED_DISPATCH_ERROR = 'Dispatch was interrupted before the campaign was queued'
+export const DEFAULT_LOCAL_SEND_TIME = '09:00'
+const DEFAULT_SENDER_EMAIL = 'noreply@mailgenius.com'
+
+// Campaign row with the fields of its template
+export const CAMPAIGN_WITH_TEMPLATE = `
+  *,
+  email_templates (
+    subject,
+    html_content,
+    text_content
+  )
+`
+
+// Inline content is stored as text; the public API sends it as { html, text }
+export function parseInlineContent(content: unknown): { html?: string; text?: string } {
+  if (!content) return {}
+  if (typeof content === 'object') return content as { html?: string; text?: string }
+
+  try {
+    const parsed = JSON.parse(String(content))
+    if (parsed && typeof parsed === 'object') return parsed
+  } catch {
+    // Plain HTML
+  }
+
+  return { html: String(content) }
+}
+
+// Sends scheduled campaigns when send_at arrives, and reschedules or cancels them until then
+export class CampaignScheduler {
+  // Runs from the cron job without a user session
+  private supabase = supabaseAdmin
+
+  async dispatchDueCampaigns(now: Date = new Date(), limit: number = DISPATCH_LIMIT): Promise<DispatchResult> {
+    const recovered = await this.recoverStalledDispatches(now)
+    const dueAt = now.toISOString()
+
+    const { data: due, error } = await this.supabase
+      .from('campaigns')
+      .select('id')
+      .eq('status', 'scheduled')
+      .lte('send_at', dueAt)
+      .order('send_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Error loading scheduled campaigns: ${error.message}`)
+    }
+
+    const result: DispatchResult = { dispatched: [], failed: [], recovered }
+
+    for (const { id } of due || []) {
+      // Claim the campaign; a reschedule, cancel or overlapping cron run since the select makes this a no-op
+      const { data: claimed } = await this.supabase
+        .from('campaigns')
+        .update({ status: 'sending', dispatch_locked_until: this.leaseExpiry(now), updated_at: now.toISOString() })
+        .eq('id', id)
+        .eq('status', 'scheduled')
+        .lte('send_at', dueAt)
+        .select(CAMPAIGN_WITH_TEMPLATE)
+
+      if (!claimed || claimed.length === 0) {
+        continue
+      }
+
+      try {
+        result.dispatched.push(await this.dispatch(claimed[0], now))
+      } catch (dispatchError) {
+        const message = dispatchError instanceof Error ? dispatchError.message : String(dispatchError)
+        result.failed.push({ campaign_id: id, error: message })
+        logger.error('Error dispatching scheduled campaign', { metadata: { campaign_id: id } }, dispatchError as Error)
+
+        // Back to draft with the reason, instead of retrying a broken campaign every run
+        await this.releaseClaim(id, message)
+      }
+    }
+
+    return result
+  }
+
+  // Send a draft or scheduled campaign right away, through the same path as the cron dispatcher
+  async dispatchCampaign(workspaceId: string, campaignId: string): Promise<CampaignDispatch> {
+    const campaign = await this.claimCampaign(workspaceId, campaignId)
+
+    try {
+      return await this.dispatch(campaign)
+    } catch (dispatchError) {
+      await this.releaseClaim(campaignId, dispatchError instanceof Error ? dispatchError.message : String(dispatchError))
+      throw dispatchError
+    }
+  }
+
+  // Move a draft or scheduled campaign to 'sending'; returns it with its template
+  async claimCampaign(workspaceId: string, campaignId: string): Promise<CampaignRecord> {
+    const { data: claimed, error } = await this.supabase
+      .from('campaigns')
+      .update({ status: 'sending', dispatch_locked_until: this.leaseExpiry(), updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .eq('workspace_id', workspaceId)
+      .in('status', ['draft', 'scheduled'])
+      .select(CAMPAIGN_WITH_TEMPLATE)
+
+    if (error) {
+      throw new Error(`Error claiming campaign: ${error.message}`)
+    }
+
+    if (!claimed || claimed.length === 0) {
+      await this.assertCampaignExists(workspaceId, campaignId)
+      throw new Error('Campaign has already been dispatched')
+    }
+
+    return claimed[0]
+  }
+
+  // Schedule or reschedule a campaign that has not been dispatched yet
+  async schedule(workspaceId: string, campaignId: string, sendAt: Date): Promise<CampaignRecord> {
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .update({
+        status: 'scheduled',
+        send_at: sendAt.toISOString(),
+        dispatch_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', campaignId)
+      .eq('workspace_id', workspaceId)
+      .in('status', SCHEDULABLE_CAMPAIGN_STATUSES)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error scheduling campaign: ${error.message}`)
+    }
+
+    if (!data) {
+      await this.assertCampaignExists(workspaceId, campaignId)
+      throw new Error('Campaign has already been dispatched')
+    }
+
+    return data
+  }
+
+  // Cancel a scheduled campaign; it keeps send_at and can be scheduled again
+  async cancel(workspaceId: string, campaignId: string): Promise<CampaignRecord> {
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .eq('workspace_id', workspaceId)
+      .in('status', CANCELLABLE_CAMPAIGN_STATUSES)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error cancelling campaign: ${error.message}`)
+    }
+
+    if (!data) {
+      const status = await this.assertCampaignExists(workspaceId, campaignId)
+      throw new Error(status === 'sending' || status === 'sent'
+        ? 'Campaign has already been dispatched'
+        : 'Campaign is not scheduled')
+    }
+
+    return data
+  }
+
+  // Resolve the template, audience and sender of a claimed campaign
+  async prepareDispatch(campaign: CampaignRecord): Promise<PreparedDispatch> {
+    // Pin the template version like a manual send, so reports can be reproduced after later edits
+    const templateVersion = await templateVersionService.resolveCampaignVersion(campaign)
+    const template = this.buildTemplate(campaign, templateVersion)
+
+    if (!template.html) {
+      throw new Error('Campaign has no template or content')
+    }
+
+    const validation = validateEmailTemplate(template)
+    if (!validation.valid) {
+      throw new Error(`Invalid template: ${formatTemplateErrors(validation)}`)
+    }
+
+    // Recipients are resolved at send time, so leads added after scheduling are included. Opt-outs are dropped
+    // page by page, so they're never all held at once
+    const leads: SegmentRecipient[] = []
+    for await (const page of segmentEngine.iterateSegmentRecipients(campaign.workspace_id, campaign.segment_id)) {
+      leads.push(...await subscriptionService.filterRecipients(campaign.workspace_id, page, campaign.topic_id))
+    }
+
+    if (leads.length === 0) {
+      throw new Error('No leads found for this campaign')
+    }
+
+    return {
+      template,
+      sender: {
+        email: campaign.from_email || DEFAULT_SENDER_EMAIL,
+        name: campaign.from_name || undefined
+      },
+      userId: await this.getSendOwner(campaign),
+      templateVersionId: templateVersion?.id || null,
+      leads,
+      recipients: leads.map(lead => ({
+        id: lead.id,
+        email: lead.email,
+        name: lead.name || undefined,
+        metadata: lead.custom_fields || undefined
+      }))
+    }
+  }
+
+  // Record the audience size and the pinned template version on a campaign about to be queued
+  async markDispatched(campaignId: string, prepared: PreparedDispatch): Promise<void> {
+    const { error } = await this.supabase
+      .from('campaigns')
+      .update({
+        total_recipients: prepared.leads.length,
+        sent_at: new Date().toISOString(),
+        template_version_id: prepared.templateVersionId,
+        dispatch_error: null
+      })
+      .eq('id', campaignId)
+
+    if (error) {
+      throw new Error(`Error updating campaign: ${error.message}`)
+    }
+  }
+
+  // The emails are queued, so the claim no longer expires
+  async markQueued(campaignId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('campaigns')
+      .update({ dispatch_locked_until: null })
+      .eq('id', campaignId)
+
+    if (error) {
+      // The cron finds the send record once the lease expires and clears it then
+      logger.warn('Error clearing campaign dispatch lease', { metadata: { campaign_id: campaignId, error: error.message } })
+    }
+  }
+
+  // Back to draft with the reason, so a broken campaign can be fixed and sent again
+  async releaseClaim(campaignId: string, reason: string): Promise<void> {
+    await this.supabase
+      .from('campaigns')
+      .update({ status: 'draft', dispatch_error: reason, dispatch_locked_until: null, updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .eq('status', 'sending')
+  }
+
+  // Claims whose worker died before queueing go back to draft; those that queued a send just lose the lease
+  async recoverStalledDispatches(now: Date = new Date()): Promise<number> {
+    const { data: stalled, error } = await this.supabase
+      .from('campaigns')
+      .select('id, dispatch_locked_until')
+      .eq('status', 'sending')
+      .lt('dispatch_locked_until', now.toISOString())
+
+    if (error) {
+      throw new Error(`Error loading stalled campaigns: ${error.message}`)
+    }
+
+    let recovered = 0
+
+    for (const campaign of stalled || []) {
+      const claimedAt = new Date(new Date(campaign.dispatch_locked_until).getTime() - DISPATCH_LEASE_MS)
+      const { data: sends, error: sendsError } = await this.supabase
+        .from('campaign_sends')
+        .select('id')
+        .eq('campaign_id', campaign.id)
+        .gte('created_at', claimedAt.toISOString())
+        .limit(1)
+
+      if (sendsError) {
+        throw new Error(`Error loading campaign sends: ${sendsError.message}`)
+      }
+
+      if (sends && sends.length > 0) {
+        await this.markQueued(campaign.id)
+        continue
+      }
+
+      await this.releaseClaim(campaign.id, INTERRUPTED_DISPATCH_ERROR)
+      recovered++
+    }
+
+    return recovered
+  }
+
+  // Waves are planned from `now`, so the cron's clock decides which local send times are still ahead
+  private async dispatch(campaign: CampaignRecord, now: Date = new Date()): Promise<CampaignDispatch> {
+    const prepared = await this.prepareDispatch(campaign)
+    const { template, sender, userId, leads, recipients } = prepared
+
+    await this.markDispatched(campaign.id, prepared)
+
+    if (campaign.send_mode === 'optimized') {
+      // One wave per predicted send instant over the next 24 hours, as delayed batches
+      const predictions = await sendTimeOptimizer.predictSendTimes(campaign.workspace_id, leads, now)
+      const waves = groupBySendTime(recipients, predictions)
+        .map(group => ({ sendAt: group.sendAt, recipients: group.items }))
+
+      const sendId = await emailSendingService.sendCampaignWaves(campaign.id, waves, template, sender, userId)
+      await this.markQueued(campaign.id)
+      return { campaign_id: campaign.id, send_id: sendId, total_recipients: leads.length, waves: waves.length }
+    }
+
+    if (campaign.send_mode === 'local_time') {
+      // One wave per recipient timezone, labelled with it so progress can be followed per timezone
+      const workspaceTimezone = getWorkspaceTimezone(await this.getWorkspaceSettings(campaign.workspace_id))
+      const recipientsById = new Map(recipients.map(recipient => [recipient.id, recipient]))
+      const waves = partitionByTimezone(leads, campaign.local_send_time || DEFAULT_LOCAL_SEND_TIME, now, workspaceTimezone)
+        .map(partition => ({
+          sendAt: partition.sendAt,
+          label: partition.timezone,
+          recipients: partition.items.map(lead => recipientsById.get(lead.id)!)
+        }))
+
+      const sendId = await emailSendingService.sendCampaignWaves(campaign.id, waves, template, sender, userId)
+      await this.markQueued(campaign.id)
+      return { campaign_id: campaign.id, send_id: sendId, total_recipients: leads.length, waves: waves.length }
+    }
+
+    const sendId = await emailSendingService.sendCampaignEmails(campaign.id, recipients, template, sender, userId)
+    await this.markQueued(campaign.id)
+    return { campaign_id: campaign.id, send_id: sendId, total_recipients: leads.length, waves: 1 }
+  }
+
+  private leaseExpiry(now: Date = new Date()): string {
+    return new Date(now.getTime() + DISPATCH_LEASE_MS).toISOString()
+  }
+
+  private buildTemplate(campaign: CampaignRecord, templateVersion: TemplateVersion | null): { subject: string; html: string; text?: string } {
+    const source = templateVersion || campaign.email_templates
+    const inline = parseInlineContent(campaign.content)
+
+    return {
+      subject: source?.subject || campaign.subject,
+      html: source?.html_content || inline.html || '',
+      text: source?.text_content || inline.text || undefined
+    }
+  }
+
+  // Send records belong to a user: the campaign's creator, or the workspace owner
+  private async getSendOwner(campaign: CampaignRecord): Promise<string> {
+    if (campaign.created_by) {
+      return campaign.created_by
+    }
+
+    const { data: owner } = await this.supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', campaign.workspace_id)
+      .eq('role', 'owner')
+      .limit(1)
+      .maybeSingle()
+
+    if (!owner?.user_id) {
+      throw new Error('Workspace has no owner to send the campaign as')
+    }
+
+    return owner.user_id
+  }
+
+  private async getWorkspaceSettings(workspaceId: string): Promise<Record<string, unknown>> {
+    const { data: workspace, error } = await this.supabase
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading workspace: ${error.message}`)
+    }
+
+    return workspace?.settings || {}
+  }
+
+  private async assertCampaignExists(workspaceId: string, campaignId: string): Promise<string> {
+    const { data: campaign, error } = await this.supabase
+      .from('campaigns')
+      .select('status')
+      .eq('id', campaignId)
+      .eq('workspace_id', workspaceId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading campaign: ${error.message}`)
+    }
+
+    if (!campaign) {
+      throw new Error('Campaign not found')
+    }
+
+    return campaign.status
+  }
+}
+
+export const campaignScheduler = new CampaignScheduler()
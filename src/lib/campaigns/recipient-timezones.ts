@@ -0,0 +1,146 @@
+import { DEFAULT_TRIGGER_TIMEZONE, getLocalDateTime, shiftDate } from '../automation/triggers'
+import { isValidTimezone, zonedTimeToUtc } from '../automation/wait-steps'
+
+// Where a recipient's timezone came from, from most to least reliable
+export type RecipientTimezoneSource = 'lead' | 'clicks' | 'phone' | 'workspace' | 'default'
+
+export interface RecipientTimezoneLead {
+  id: string
+  timezone?: string | null
+  detected_timezone?: string | null
+  phone?: string | null
+  custom_fields?: Record<string, any> | null
+}
+
+export interface ResolvedTimezone {
+  timezone: string
+  source: RecipientTimezoneSource
+}
+
+export interface TimezonePartition<T> {
+  timezone: string
+  sendAt: Date
+  items: T[]
+}
+
+// Calling codes of countries that (mostly) use a single timezone; multi-zone ones like +1 and +7 are left out
+const CALLING_CODE_TIMEZONES: Record<string, string> = {
+  '55': 'America/Sao_Paulo',
+  '351': 'Europe/Lisbon',
+  '54': 'America/Argentina/Buenos_Aires',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '58': 'America/Caracas',
+  '591': 'America/La_Paz',
+  '593': 'America/Guayaquil',
+  '595': 'America/Asuncion',
+  '598': 'America/Montevideo',
+  '244': 'Africa/Luanda',
+  '258': 'Africa/Maputo',
+  '238': 'Atlantic/Cape_Verde',
+  '27': 'Africa/Johannesburg',
+  '44': 'Europe/London',
+  '353': 'Europe/Dublin',
+  '34': 'Europe/Madrid',
+  '33': 'Europe/Paris',
+  '49': 'Europe/Berlin',
+  '39': 'Europe/Rome',
+  '41': 'Europe/Zurich',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '972': 'Asia/Jerusalem',
+  '971': 'Asia/Dubai',
+  '91': 'Asia/Kolkata',
+  '86': 'Asia/Shanghai',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul'
+}
+
+// Brazilian area codes outside Brasília time; every other area code follows America/Sao_Paulo
+const BRAZIL_AREA_CODE_TIMEZONES: Record<string, string> = {
+  '65': 'America/Cuiaba',
+  '66': 'America/Cuiaba',
+  '67': 'America/Campo_Grande',
+  '68': 'America/Rio_Branco',
+  '69': 'America/Porto_Velho',
+  '92': 'America/Manaus',
+  '97': 'America/Manaus',
+  '95': 'America/Boa_Vista'
+}
+
+// Timezone implied by an international phone number (+55 11 ..., 0055..., or 55 followed by a Brazilian number)
+export function getPhoneTimezone(phone?: string | null): string | null {
+  if (!phone) return null
+
+  let digits = phone.replace(/\D/g, '')
+  if (phone.trim().startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2)
+  } else if (!(digits.startsWith('55') && (digits.length === 12 || digits.length === 13))) {
+    // National numbers don't say which country they belong to
+    return null
+  }
+
+  for (const length of [3, 2, 1]) {
+    const timezone = CALLING_CODE_TIMEZONES[digits.slice(0, length)]
+    if (!timezone) continue
+
+    if (digits.slice(0, length) === '55') {
+      return BRAZIL_AREA_CODE_TIMEZONES[digits.slice(2, 4)] || timezone
+    }
+    return timezone
+  }
+
+  return null
+}
+
+// Stored on workspaces.settings.timezone
+export function getWorkspaceTimezone(workspaceSettings: any): string | null {
+  return isValidTimezone(workspaceSettings?.timezone) ? workspaceSettings.timezone : null
+}
+
+// Explicit lead timezone, then where the lead clicks from, then the phone number, then the workspace default
+export function resolveRecipientTimezone(lead: RecipientTimezoneLead, workspaceTimezone?: string | null): ResolvedTimezone {
+  if (isValidTimezone(lead.timezone)) return { timezone: lead.timezone, source: 'lead' }
+  if (isValidTimezone(lead.custom_fields?.timezone)) return { timezone: lead.custom_fields!.timezone, source: 'lead' }
+  if (isValidTimezone(lead.detected_timezone)) return { timezone: lead.detected_timezone, source: 'clicks' }
+
+  const phoneTimezone = getPhoneTimezone(lead.phone)
+  if (phoneTimezone) return { timezone: phoneTimezone, source: 'phone' }
+
+  if (workspaceTimezone && isValidTimezone(workspaceTimezone)) return { timezone: workspaceTimezone, source: 'workspace' }
+
+  return { timezone: DEFAULT_TRIGGER_TIMEZONE, source: 'default' }
+}
+
+// Next time the wall clock reads HH:MM in the timezone, at or after now
+export function getNextLocalTime(now: Date, time: string, timezone: string): Date {
+  const local = getLocalDateTime(now, timezone)
+  const today = zonedTimeToUtc(local.date, time, timezone)
+
+  return today.getTime() >= now.getTime() ? today : zonedTimeToUtc(shiftDate(local.date, 1), time, timezone)
+}
+
+// One partition per timezone, each sent the next time it is `time` there, in send order
+export function partitionByTimezone<T extends RecipientTimezoneLead>(
+  leads: T[],
+  time: string,
+  now: Date,
+  workspaceTimezone?: string | null
+): TimezonePartition<T>[] {
+  const partitions = new Map<string, T[]>()
+
+  for (const lead of leads) {
+    const { timezone } = resolveRecipientTimezone(lead, workspaceTimezone)
+    const items = partitions.get(timezone) || []
+    items.push(lead)
+    partitions.set(timezone, items)
+  }
+
+  return Array.from(partitions.entries())
+    .map(([timezone, items]) => ({ timezone, sendAt: getNextLocalTime(now, time, timezone), items }))
+    .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime() || a.timezone.localeCompare(b.timezone))
+}
@@ -0,0 +1,208 @@
+import { supabaseAdmin } from '../supabase'
+import { DEFAULT_TRIGGER_TIMEZONE, getLocalDateTime } from '../automation/triggers'
+import { resolveLeadTimezone, zonedTimeToUtc } from '../automation/wait-steps'
+
+// Opens by local hour (0-23) and day of week (0 = Sunday)
+export interface OpenTimeProfile {
+  hours: number[]
+  days: number[]
+  total: number
+}
+
+// Where a lead's prediction came from, from most to least specific
+export type SendTimeSource = 'lead' | 'audience' | 'workspace' | 'default'
+
+export interface SendTimePrediction {
+  lead_id: string
+  send_at: Date
+  local_hour: number
+  timezone: string
+  source: SendTimeSource
+}
+
+export interface SendTimeLead {
+  id: string
+  timezone?: string | null
+  custom_fields?: Record<string, any> | null
+}
+
+interface OpenTimeHistogramRow {
+  lead_id: string | null
+  day_of_week: number
+  hour: number
+  opens: number
+}
+
+// A lead needs a few opens before its own pattern beats the aggregates
+export const MIN_LEAD_OPENS = 3
+export const MIN_AGGREGATE_OPENS = 20
+// Used when nobody in the workspace has opened anything yet
+export const DEFAULT_SEND_HOUR = 10
+export const SEND_WINDOW_HOURS = 24
+
+const LOOKBACK_DAYS = 180
+const LEAD_CHUNK_SIZE = 500
+const HOUR_MS = 60 * 60 * 1000
+
+export function createOpenTimeProfile(): OpenTimeProfile {
+  return { hours: new Array(24).fill(0), days: new Array(7).fill(0), total: 0 }
+}
+
+export function addOpens(profile: OpenTimeProfile, dayOfWeek: number, hour: number, opens: number): void {
+  profile.hours[hour] += opens
+  profile.days[dayOfWeek] += opens
+  profile.total += opens
+}
+
+export function mergeOpenTimeProfiles(profiles: Iterable<OpenTimeProfile>): OpenTimeProfile {
+  const merged = createOpenTimeProfile()
+
+  for (const profile of profiles) {
+    for (let hour = 0; hour < 24; hour++) merged.hours[hour] += profile.hours[hour]
+    for (let day = 0; day < 7; day++) merged.days[day] += profile.days[day]
+    merged.total += profile.total
+  }
+
+  return merged
+}
+
+// Best instant in [windowStart, windowStart + 24h). Each local hour occurs once in the window; its score is the
+// opens at that hour, smoothed with the neighbouring hours, weighted by how often the lead opens on that weekday.
+// Sends go out at the top of the hour, or at windowStart for the hour already in progress
+export function pickSendTime(
+  profile: OpenTimeProfile,
+  windowStart: Date,
+  timezone: string
+): { sendAt: Date; localHour: number } {
+  let best: { sendAt: Date; localHour: number; score: number } | null = null
+
+  for (let offset = 0; offset < SEND_WINDOW_HOURS; offset++) {
+    const local = getLocalDateTime(new Date(windowStart.getTime() + offset * HOUR_MS), timezone)
+    const hour = Number(local.time.slice(0, 2))
+    const day = new Date(`${local.date}T00:00:00Z`).getUTCDay()
+
+    let score: number
+    if (profile.total === 0) {
+      score = hour === DEFAULT_SEND_HOUR ? 1 : 0
+    } else {
+      const hourScore = 2 * profile.hours[hour] + profile.hours[(hour + 23) % 24] + profile.hours[(hour + 1) % 24]
+      const dayWeight = (profile.days[day] + 1) / (profile.total + 7)
+      score = hourScore * dayWeight
+    }
+
+    // Earlier slots win ties
+    if (!best || score > best.score) {
+      const topOfHour = zonedTimeToUtc(local.date, `${String(hour).padStart(2, '0')}:00`, timezone)
+      const sendAt = topOfHour.getTime() < windowStart.getTime() ? windowStart : topOfHour
+      best = { sendAt, localHour: hour, score }
+    }
+  }
+
+  return { sendAt: best!.sendAt, localHour: best!.localHour }
+}
+
+// Group items sharing a send instant, in send order
+export function groupBySendTime<T extends { id: string }>(
+  items: T[],
+  predictions: SendTimePrediction[]
+): Array<{ sendAt: Date; items: T[] }> {
+  const sendAtByLead = new Map(predictions.map(prediction => [prediction.lead_id, prediction.send_at.getTime()]))
+  const groups = new Map<number, T[]>()
+
+  for (const item of items) {
+    const sendAt = sendAtByLead.get(item.id)
+    if (sendAt === undefined) continue
+
+    const group = groups.get(sendAt) || []
+    group.push(item)
+    groups.set(sendAt, group)
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([sendAt, groupItems]) => ({ sendAt: new Date(sendAt), items: groupItems }))
+}
+
+// Predicts when each lead is most likely to open, from the local time of their past opens
+export class SendTimeOptimizer {
+  // Runs from the campaign dispatcher without a user session
+  private supabase = supabaseAdmin
+
+  async predictSendTimes(
+    workspaceId: string,
+    leads: SendTimeLead[],
+    windowStart: Date = new Date()
+  ): Promise<SendTimePrediction[]> {
+    const leadProfiles = await this.loadLeadProfiles(workspaceId, leads.map(lead => lead.id))
+
+    // Leads without enough opens of their own follow the audience, then the workspace
+    let fallback: { profile: OpenTimeProfile; source: SendTimeSource } = {
+      profile: mergeOpenTimeProfiles(leadProfiles.values()),
+      source: 'audience'
+    }
+
+    const needsFallback = leads.some(lead => (leadProfiles.get(lead.id)?.total || 0) < MIN_LEAD_OPENS)
+    if (needsFallback && fallback.profile.total < MIN_AGGREGATE_OPENS) {
+      const workspaceProfile = await this.loadWorkspaceProfile(workspaceId)
+      fallback = workspaceProfile.total >= MIN_AGGREGATE_OPENS
+        ? { profile: workspaceProfile, source: 'workspace' }
+        : { profile: createOpenTimeProfile(), source: 'default' }
+    }
+
+    return leads.map(lead => {
+      const own = leadProfiles.get(lead.id)
+      const { profile, source } = own && own.total >= MIN_LEAD_OPENS
+        ? { profile: own, source: 'lead' as SendTimeSource }
+        : fallback
+      const timezone = resolveLeadTimezone(lead)
+      const { sendAt, localHour } = pickSendTime(profile, windowStart, timezone)
+
+      return { lead_id: lead.id, send_at: sendAt, local_hour: localHour, timezone, source }
+    })
+  }
+
+  async loadLeadProfiles(workspaceId: string, leadIds: string[]): Promise<Map<string, OpenTimeProfile>> {
+    const profiles = new Map<string, OpenTimeProfile>()
+
+    for (let i = 0; i < leadIds.length; i += LEAD_CHUNK_SIZE) {
+      const rows = await this.loadHistogram(workspaceId, leadIds.slice(i, i + LEAD_CHUNK_SIZE))
+
+      for (const row of rows) {
+        if (!row.lead_id) continue
+
+        const profile = profiles.get(row.lead_id) || createOpenTimeProfile()
+        addOpens(profile, row.day_of_week, row.hour, Number(row.opens))
+        profiles.set(row.lead_id, profile)
+      }
+    }
+
+    return profiles
+  }
+
+  async loadWorkspaceProfile(workspaceId: string): Promise<OpenTimeProfile> {
+    const profile = createOpenTimeProfile()
+
+    for (const row of await this.loadHistogram(workspaceId, null)) {
+      addOpens(profile, row.day_of_week, row.hour, Number(row.opens))
+    }
+
+    return profile
+  }
+
+  private async loadHistogram(workspaceId: string, leadIds: string[] | null): Promise<OpenTimeHistogramRow[]> {
+    const { data, error } = await this.supabase.rpc('get_open_time_histogram', {
+      p_workspace_id: workspaceId,
+      p_lead_ids: leadIds,
+      p_since: new Date(Date.now() - LOOKBACK_DAYS * 24 * HOUR_MS).toISOString(),
+      p_default_timezone: DEFAULT_TRIGGER_TIMEZONE
+    })
+
+    if (error) {
+      throw new Error(`Error loading open times: ${error.message}`)
+    }
+
+    return (data || []) as OpenTimeHistogramRow[]
+  }
+}
+
+export const sendTimeOptimizer = new SendTimeOptimizer()
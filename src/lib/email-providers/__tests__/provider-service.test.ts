@@ -0,0 +1,171 @@
+// Testes do serviço de provedores de email
+
+const mockFrom = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { EmailProviderService, getWorkspaceProviderConfig, redactProviderConfig } from '../provider-service'
+import { emailProviderSchemas } from '../../validation/email-providers'
+import { SinkProvider } from '../sink-provider'
+import { EmailProvider, EmailProviderType, OutgoingEmail, ProviderSendResult } from '../types'
+
+const email: OutgoingEmail = {
+  from: 'MailGenius <noreply@mailgenius.com>',
+  to: ['joao@exemplo.com'],
+  subject: 'Olá',
+  html: '<p>Olá</p>'
+}
+
+function createFakeProvider(type: EmailProviderType, result: ProviderSendResult): EmailProvider & { send: jest.Mock } {
+  return { type, send: jest.fn().mockResolvedValue(result) }
+}
+
+// Chainable query builder resolving to the given workspace provider rows
+function createProvidersQuery(rows: any[]) {
+  const query: any = {
+    select: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    order: jest.fn(() => Promise.resolve({ data: rows, error: null }))
+  }
+  return query
+}
+
+describe('EmailProviderService', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+  })
+
+  it('deve usar o primeiro provedor quando o envio funciona', async () => {
+    const primary = createFakeProvider('resend', { id: 're_1', success: true })
+    const fallback = createFakeProvider('smtp', { id: 'smtp_1', success: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([primary, fallback])
+
+    const result = await service.send(email)
+
+    expect(result).toMatchObject({ id: 're_1', success: true, provider: 'resend', failovers: [] })
+    expect(fallback.send).not.toHaveBeenCalled()
+  })
+
+  it('deve recorrer ao próximo provedor quando o primeiro está limitado', async () => {
+    const primary = createFakeProvider('resend', { id: '', success: false, error: 'Too many requests', retryable: true })
+    const fallback = createFakeProvider('smtp', { id: '<abc@mailgenius.com>', success: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([primary, fallback])
+
+    const result = await service.send(email)
+
+    expect(result).toMatchObject({ id: '<abc@mailgenius.com>', success: true, provider: 'smtp' })
+    expect(result.failovers).toEqual([{ provider: 'resend', error: 'Too many requests' }])
+  })
+
+  it('não deve recorrer ao próximo provedor em erros permanentes', async () => {
+    const primary = createFakeProvider('resend', { id: '', success: false, error: 'Invalid from address', retryable: false })
+    const fallback = createFakeProvider('smtp', { id: 'smtp_1', success: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([primary, fallback])
+
+    const result = await service.send(email)
+
+    expect(result).toMatchObject({ success: false, provider: 'resend', error: 'Invalid from address' })
+    expect(fallback.send).not.toHaveBeenCalled()
+  })
+
+  it('deve retornar o erro do último provedor quando todos falham', async () => {
+    const primary = createFakeProvider('resend', { id: '', success: false, error: 'Rate limited', retryable: true })
+    const fallback = createFakeProvider('smtp', { id: '', success: false, error: 'SMTP 421: busy', retryable: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([primary, fallback])
+
+    const result = await service.send(email)
+
+    expect(result).toMatchObject({ success: false, provider: 'smtp', error: 'SMTP 421: busy' })
+    expect(result.failovers).toHaveLength(1)
+  })
+
+  it('deve usar os provedores configurados no workspace em ordem de prioridade', async () => {
+    const query = createProvidersQuery([{ provider_type: 'sink', config: {} }])
+    mockFrom.mockReturnValue(query)
+    const fallback = createFakeProvider('resend', { id: 're_1', success: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([fallback])
+
+    const result = await service.send(email, 'ws-1')
+
+    expect(result.provider).toBe('sink')
+    expect(result.id).toMatch(/^sink_/)
+    expect(fallback.send).not.toHaveBeenCalled()
+    expect(query.order).toHaveBeenCalledWith('priority', { ascending: true })
+
+    // Cached for subsequent sends
+    await service.send(email, 'ws-1')
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+  })
+
+  it('deve usar os provedores padrão quando o workspace não tem provedores', async () => {
+    mockFrom.mockReturnValue(createProvidersQuery([]))
+    const fallback = createFakeProvider('resend', { id: 're_1', success: true })
+    const service = new EmailProviderService()
+    service.setDefaultProviders([fallback])
+
+    const result = await service.send(email, 'ws-1')
+
+    expect(result.provider).toBe('resend')
+  })
+})
+
+describe('SinkProvider', () => {
+  it('deve capturar mensagens sem enviá-las', async () => {
+    const sink = new SinkProvider()
+
+    const result = await sink.send(email)
+
+    expect(result.success).toBe(true)
+    expect(sink.messages).toHaveLength(1)
+    expect(sink.messages[0]).toMatchObject({ id: result.id, subject: 'Olá', to: ['joao@exemplo.com'] })
+
+    sink.clear()
+    expect(sink.messages).toHaveLength(0)
+  })
+})
+
+describe('getWorkspaceProviderConfig', () => {
+  const originalSinkDir = process.env.EMAIL_SINK_DIR
+
+  afterEach(() => {
+    process.env.EMAIL_SINK_DIR = originalSinkDir
+  })
+
+  it('deve ignorar o diretório salvo no workspace e usar somente EMAIL_SINK_DIR', () => {
+    process.env.EMAIL_SINK_DIR = '/tmp/mailgenius-sink'
+
+    expect(getWorkspaceProviderConfig('sink', { directory: '/etc/cron.d' })).toEqual({
+      type: 'sink',
+      directory: '/tmp/mailgenius-sink'
+    })
+  })
+
+  it('deve rejeitar o diretório do sink na criação e na atualização', () => {
+    const created = emailProviderSchemas.create.safeParse({
+      name: 'Captura',
+      provider_type: 'sink',
+      config: { directory: '/etc/cron.d' }
+    })
+    const updated = emailProviderSchemas.update.safeParse({ config: { directory: '/etc/cron.d' } })
+
+    expect(created.success).toBe(false)
+    expect(updated.success).toBe(false)
+    expect(emailProviderSchemas.create.safeParse({ name: 'Captura', provider_type: 'sink', config: {} }).success).toBe(true)
+  })
+})
+
+describe('redactProviderConfig', () => {
+  it('deve ocultar credenciais', () => {
+    expect(redactProviderConfig({ host: 'smtp.exemplo.com', username: 'envios', password: 'segredo' }))
+      .toEqual({ host: 'smtp.exemplo.com', username: 'envios', password: '********' })
+  })
+})
@@ -0,0 +1,123 @@
+// Testes do provedor SMTP contra um servidor SMTP local
+
+import net from 'net'
+import { SmtpProvider } from '../smtp-provider'
+
+interface FakeServer {
+  port: number
+  commands: string[]
+  data: string[]
+  close: () => Promise<void>
+}
+
+// Answers a plain SMTP session; `reject` maps a command prefix to a reply that replaces the normal one
+function startFakeServer(reject: Record<string, string> = {}): Promise<FakeServer> {
+  const commands: string[] = []
+  const data: string[] = []
+
+  const server = net.createServer(socket => {
+    let buffer = ''
+    let inData = false
+    let message = ''
+
+    socket.write('220 fake.local ESMTP\r\n')
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            data.push(message)
+            socket.write('250 OK queued\r\n')
+          } else {
+            message += `${line}\r\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        const rejection = Object.keys(reject).find(prefix => line.startsWith(prefix))
+        if (rejection) {
+          socket.write(`${reject[rejection]}\r\n`)
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-fake.local\r\n250-AUTH PLAIN LOGIN\r\n250 SIZE 10240000\r\n')
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 Authenticated\r\n')
+        } else if (line === 'DATA') {
+          inData = true
+          message = ''
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n')
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n')
+        } else {
+          socket.write('250 OK\r\n')
+        }
+      }
+    })
+  })
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        data,
+        close: () => new Promise(done => server.close(() => done()))
+      })
+    })
+  })
+}
+
+describe('SmtpProvider', () => {
+  let server: FakeServer
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('deve autenticar e entregar a mensagem', async () => {
+    server = await startFakeServer()
+    const provider = new SmtpProvider({ host: '127.0.0.1', port: server.port, username: 'envios', password: 'segredo' })
+
+    const result = await provider.send({
+      from: 'MailGenius <noreply@mailgenius.com>',
+      to: ['joao@exemplo.com'],
+      subject: 'Olá',
+      html: '<p>Olá</p>\n.linha com ponto',
+      headers: { 'List-Unsubscribe': '<https://app.mailgenius.com/u/abc>' }
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.id).toMatch(/^<.+@mailgenius\.com>$/)
+    expect(server.commands).toContain(`AUTH PLAIN ${Buffer.from('\u0000envios\u0000segredo').toString('base64')}`)
+    expect(server.commands).toContain('MAIL FROM:<noreply@mailgenius.com>')
+    expect(server.commands).toContain('RCPT TO:<joao@exemplo.com>')
+    expect(server.data[0]).toContain('List-Unsubscribe: <https://app.mailgenius.com/u/abc>')
+    expect(server.data[0]).toContain('Subject: =?UTF-8?B?')
+  })
+
+  it('deve marcar respostas 4xx como temporárias', async () => {
+    server = await startFakeServer({ 'MAIL FROM': '421 Too many connections' })
+    const provider = new SmtpProvider({ host: '127.0.0.1', port: server.port })
+
+    const result = await provider.send({ from: 'noreply@mailgenius.com', to: ['joao@exemplo.com'], subject: 'Oi', html: '<p>Oi</p>' })
+
+    expect(result).toMatchObject({ success: false, retryable: true })
+    expect(result.error).toContain('421')
+  })
+
+  it('deve marcar respostas 5xx como permanentes', async () => {
+    server = await startFakeServer({ 'RCPT TO': '550 No such user' })
+    const provider = new SmtpProvider({ host: '127.0.0.1', port: server.port })
+
+    const result = await provider.send({ from: 'noreply@mailgenius.com', to: ['ninguem@exemplo.com'], subject: 'Oi', html: '<p>Oi</p>' })
+
+    expect(result).toMatchObject({ success: false, retryable: false })
+    expect(result.error).toContain('550')
+  })
+})
@@ -0,0 +1,71 @@
+// Testes da normalização de eventos de webhook dos provedores
+
+import { parseResendWebhook } from '../resend-provider'
+import { parseSesNotification } from '../ses-provider'
+
+describe('parseResendWebhook', () => {
+  it('deve normalizar bounces do Resend', () => {
+    const event = parseResendWebhook({
+      type: 'email.bounced',
+      created_at: '2024-07-16T10:30:00Z',
+      data: { email_id: 're_123', bounce_type: 'hard', reason: 'Mailbox does not exist' }
+    })
+
+    expect(event).toEqual({
+      type: 'bounced',
+      provider: 'resend',
+      messageId: 're_123',
+      occurredAt: '2024-07-16T10:30:00Z',
+      bounceType: 'hard',
+      reason: 'Mailbox does not exist',
+      url: undefined
+    })
+  })
+
+  it('deve ignorar eventos desconhecidos', () => {
+    expect(parseResendWebhook({ type: 'email.delivery_delayed', data: { email_id: 're_123' } })).toBeNull()
+    expect(parseResendWebhook({ type: 'email.sent', data: {} })).toBeNull()
+  })
+})
+
+describe('parseSesNotification', () => {
+  const mail = { messageId: 'ses-123', timestamp: '2024-07-16T10:00:00Z' }
+
+  it('deve mapear bounces permanentes como hard', () => {
+    const event = parseSesNotification({
+      eventType: 'Bounce',
+      mail,
+      bounce: {
+        bounceType: 'Permanent',
+        bounceSubType: 'General',
+        timestamp: '2024-07-16T10:01:00Z',
+        bouncedRecipients: [{ emailAddress: 'joao@exemplo.com', diagnosticCode: 'smtp; 550 5.1.1 user unknown' }]
+      }
+    })
+
+    expect(event).toMatchObject({
+      type: 'bounced',
+      provider: 'ses',
+      messageId: 'ses-123',
+      bounceType: 'hard',
+      reason: 'smtp; 550 5.1.1 user unknown',
+      occurredAt: '2024-07-16T10:01:00Z'
+    })
+  })
+
+  it('deve mapear bounces temporários como soft', () => {
+    const event = parseSesNotification({ notificationType: 'Bounce', mail, bounce: { bounceType: 'Transient', bounceSubType: 'MailboxFull' } })
+
+    expect(event).toMatchObject({ bounceType: 'soft', reason: 'MailboxFull' })
+  })
+
+  it('deve incluir a URL em cliques', () => {
+    const event = parseSesNotification({ eventType: 'Click', mail, click: { link: 'https://exemplo.com/oferta' } })
+
+    expect(event).toMatchObject({ type: 'clicked', url: 'https://exemplo.com/oferta' })
+  })
+
+  it('deve ignorar eventos sem correspondência', () => {
+    expect(parseSesNotification({ eventType: 'Reject', mail })).toBeNull()
+  })
+})
@@ -0,0 +1,338 @@
+import { supabaseAdmin } from '../supabase'
+import { logger } from '../logger'
+import { suppressionList } from '../suppression/suppression-list'
+import { automationTriggerDispatcher, TriggerEvent } from '../automation/trigger-dispatcher'
+import { NormalizedEmailEvent } from './types'
+
+// Applies provider webhook events to email_sends, campaign counters, leads and the suppression list
+export class EmailEventProcessor {
+  // Webhooks carry no user session, so they run with the service role
+  private supabase = supabaseAdmin
+
+  async process(event: NormalizedEmailEvent): Promise<void> {
+    switch (event.type) {
+      case 'sent':
+        return this.handleSent(event)
+      case 'delivered':
+        return this.handleDelivered(event)
+      case 'bounced':
+        return this.handleBounced(event)
+      case 'complained':
+        return this.handleComplained(event)
+      case 'opened':
+        return this.handleOpened(event)
+      case 'clicked':
+        return this.handleClicked(event)
+    }
+  }
+
+  private async handleSent(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      await this.supabase
+        .from('email_sends')
+        .update({
+          status: 'sent',
+          sent_at: event.occurredAt
+        })
+        .eq('resend_id', event.messageId)
+    } catch (error) {
+      logger.error('Error handling email sent', this.errorContext(event), error as Error)
+    }
+  }
+
+  private async handleDelivered(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      // Update email send record
+      await this.supabase
+        .from('email_sends')
+        .update({
+          status: 'delivered',
+          delivered_at: event.occurredAt
+        })
+        .eq('resend_id', event.messageId)
+
+      // Get the email send to update campaign stats
+      const { data: emailSend } = await this.supabase
+        .from('email_sends')
+        .select('workspace_id, campaign_id, lead_id')
+        .eq('resend_id', event.messageId)
+        .single()
+
+      if (emailSend) {
+        // Increment delivered count for campaign
+        await this.supabase.rpc('increment_campaign_delivered', {
+          campaign_id: emailSend.campaign_id
+        })
+
+        if (emailSend.campaign_id) {
+          await this.queueTrigger(emailSend, 'campaign_received', { campaign_id: emailSend.campaign_id }, event)
+        }
+      }
+    } catch (error) {
+      logger.error('Error handling email delivered', this.errorContext(event), error as Error)
+    }
+  }
+
+  private async handleBounced(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      // Update email send record
+      await this.supabase
+        .from('email_sends')
+        .update({
+          status: 'bounced',
+          bounced_at: event.occurredAt,
+          error_message: event.reason || 'Email bounced'
+        })
+        .eq('resend_id', event.messageId)
+
+      // Get the email send to update campaign and lead
+      const { data: emailSend } = await this.supabase
+        .from('email_sends')
+        .select('workspace_id, campaign_id, lead_id, email')
+        .eq('resend_id', event.messageId)
+        .single()
+
+      if (emailSend) {
+        // Increment bounced count for campaign
+        await this.supabase.rpc('increment_campaign_bounced', {
+          campaign_id: emailSend.campaign_id
+        })
+
+        // Update lead status and suppress the address if hard bounce
+        if (event.bounceType === 'hard') {
+          await this.supabase
+            .from('leads')
+            .update({ status: 'bounced' })
+            .eq('id', emailSend.lead_id)
+
+          await suppressionList.suppressEmail(emailSend.workspace_id, emailSend.email, 'hard_bounce', `${event.provider}_webhook`, {
+            email_id: event.messageId,
+            campaign_id: emailSend.campaign_id,
+            reason: event.reason
+          })
+        }
+
+        // Log activity
+        await this.supabase
+          .from('lead_activities')
+          .insert({
+            lead_id: emailSend.lead_id,
+            activity_type: 'email_bounced',
+            activity_data: {
+              email_id: event.messageId,
+              provider: event.provider,
+              bounce_type: event.bounceType,
+              reason: event.reason
+            }
+          })
+
+        await this.queueTrigger(emailSend, 'email_bounced', {
+          campaign_id: emailSend.campaign_id,
+          bounce_type: event.bounceType,
+          reason: event.reason
+        }, event)
+      }
+    } catch (error) {
+      logger.error('Error handling email bounced', this.errorContext(event), error as Error)
+    }
+  }
+
+  private async handleComplained(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      // Update email send record
+      await this.supabase
+        .from('email_sends')
+        .update({
+          status: 'complained',
+          complained_at: event.occurredAt
+        })
+        .eq('resend_id', event.messageId)
+
+      // Get the email send to update campaign and lead
+      const { data: emailSend } = await this.supabase
+        .from('email_sends')
+        .select('workspace_id, campaign_id, lead_id, email')
+        .eq('resend_id', event.messageId)
+        .single()
+
+      if (emailSend) {
+        // Increment complained count for campaign
+        await this.supabase.rpc('increment_campaign_complained', {
+          campaign_id: emailSend.campaign_id
+        })
+
+        // Update lead status
+        await this.supabase
+          .from('leads')
+          .update({ status: 'complained' })
+          .eq('id', emailSend.lead_id)
+
+        await suppressionList.suppressEmail(emailSend.workspace_id, emailSend.email, 'complaint', `${event.provider}_webhook`, {
+          email_id: event.messageId,
+          campaign_id: emailSend.campaign_id
+        })
+
+        // Log activity
+        await this.supabase
+          .from('lead_activities')
+          .insert({
+            lead_id: emailSend.lead_id,
+            activity_type: 'email_complained',
+            activity_data: {
+              email_id: event.messageId,
+              provider: event.provider
+            }
+          })
+      }
+    } catch (error) {
+      logger.error('Error handling email complained', this.errorContext(event), error as Error)
+    }
+  }
+
+  private async handleOpened(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      // Update email send record (only first open)
+      const { data: existingOpen } = await this.supabase
+        .from('email_sends')
+        .select('opened_at')
+        .eq('resend_id', event.messageId)
+        .single()
+
+      if (existingOpen && !existingOpen.opened_at) {
+        await this.supabase
+          .from('email_sends')
+          .update({
+            opened_at: event.occurredAt
+          })
+          .eq('resend_id', event.messageId)
+
+        // Get the email send to update campaign
+        const { data: emailSend } = await this.supabase
+          .from('email_sends')
+          .select('workspace_id, campaign_id, lead_id')
+          .eq('resend_id', event.messageId)
+          .single()
+
+        if (emailSend) {
+          // Increment opened count for campaign
+          await this.supabase.rpc('increment_campaign_opened', {
+            campaign_id: emailSend.campaign_id
+          })
+
+          // Keep engagement dates current for segment conditions
+          await this.supabase
+            .from('leads')
+            .update({
+              last_opened_at: event.occurredAt,
+              last_activity_at: event.occurredAt
+            })
+            .eq('id', emailSend.lead_id)
+
+          // Log activity
+          await this.supabase
+            .from('lead_activities')
+            .insert({
+              lead_id: emailSend.lead_id,
+              activity_type: 'email_opened',
+              activity_data: {
+                email_id: event.messageId,
+                provider: event.provider,
+                opened_at: event.occurredAt
+              }
+            })
+
+          await this.queueTrigger(emailSend, 'email_opened', { campaign_id: emailSend.campaign_id }, event)
+        }
+      }
+    } catch (error) {
+      logger.error('Error handling email opened', this.errorContext(event), error as Error)
+    }
+  }
+
+  private async handleClicked(event: NormalizedEmailEvent): Promise<void> {
+    try {
+      // Update email send record (only first click)
+      const { data: existingClick } = await this.supabase
+        .from('email_sends')
+        .select('clicked_at')
+        .eq('resend_id', event.messageId)
+        .single()
+
+      if (existingClick && !existingClick.clicked_at) {
+        await this.supabase
+          .from('email_sends')
+          .update({
+            clicked_at: event.occurredAt
+          })
+          .eq('resend_id', event.messageId)
+
+        // Get the email send to update campaign
+        const { data: emailSend } = await this.supabase
+          .from('email_sends')
+          .select('workspace_id, campaign_id, lead_id')
+          .eq('resend_id', event.messageId)
+          .single()
+
+        if (emailSend) {
+          // Increment clicked count for campaign
+          await this.supabase.rpc('increment_campaign_clicked', {
+            campaign_id: emailSend.campaign_id
+          })
+
+          // Keep engagement dates current for segment conditions
+          await this.supabase
+            .from('leads')
+            .update({
+              last_clicked_at: event.occurredAt,
+              last_activity_at: event.occurredAt
+            })
+            .eq('id', emailSend.lead_id)
+
+          // Log activity
+          await this.supabase
+            .from('lead_activities')
+            .insert({
+              lead_id: emailSend.lead_id,
+              activity_type: 'email_clicked',
+              activity_data: {
+                email_id: event.messageId,
+                provider: event.provider,
+                url: event.url,
+                clicked_at: event.occurredAt
+              }
+            })
+
+          await this.queueTrigger(emailSend, 'email_clicked', { campaign_id: emailSend.campaign_id, url: event.url }, event)
+        }
+      }
+    } catch (error) {
+      logger.error('Error handling email clicked', this.errorContext(event), error as Error)
+    }
+  }
+
+  // Automation triggers are queued so the webhook response does not wait on flow execution
+  private async queueTrigger(
+    emailSend: { workspace_id: string; lead_id: string },
+    type: TriggerEvent['type'],
+    payload: Record<string, any>,
+    event: NormalizedEmailEvent
+  ): Promise<void> {
+    try {
+      await automationTriggerDispatcher.enqueue({
+        workspace_id: emailSend.workspace_id,
+        lead_id: emailSend.lead_id,
+        type,
+        payload: { ...payload, email_id: event.messageId },
+        occurred_at: event.occurredAt
+      })
+    } catch (error) {
+      logger.error('Error queuing automation trigger', this.errorContext(event), error as Error)
+    }
+  }
+
+  private errorContext(event: NormalizedEmailEvent) {
+    return { metadata: { email_id: event.messageId, provider: event.provider } }
+  }
+}
+
+export const emailEventProcessor = new EmailEventProcessor()
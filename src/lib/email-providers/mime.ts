@@ -0,0 +1,97 @@
+import { randomBytes } from 'crypto'
+import { OutgoingEmail } from './types'
+
+export interface MimeMessage {
+  messageId: string
+  raw: string
+}
+
+const CRLF = '\r\n'
+
+// RFC 2047 encoded-word for non-ASCII header values (subjects and display names)
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x00-\x7F]*$/.test(value)) {
+    return value
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+// Encodes the display name of `Name <address>` while leaving the address untouched
+export function encodeAddress(address: string): string {
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/)
+  if (!match || !match[1]) {
+    return address.trim()
+  }
+  return `${encodeHeaderValue(match[1])} <${match[2]}>`
+}
+
+// Bare address, used for the SMTP envelope
+export function extractAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/)
+  return (match ? match[1] : address).trim()
+}
+
+function encodeBody(content: string): string {
+  const base64 = Buffer.from(content, 'utf8').toString('base64')
+  return base64.match(/.{1,76}/g)?.join(CRLF) || ''
+}
+
+function getDomain(address: string): string {
+  const bare = extractAddress(address)
+  return bare.includes('@') ? bare.slice(bare.indexOf('@') + 1) : 'localhost'
+}
+
+// Builds a multipart/alternative RFC 5322 message for providers that take raw MIME
+export function buildMimeMessage(email: OutgoingEmail, date: Date = new Date()): MimeMessage {
+  const messageId = `<${randomBytes(16).toString('hex')}@${getDomain(email.from)}>`
+  const boundary = `mg_${randomBytes(12).toString('hex')}`
+
+  const headers: string[] = [
+    `From: ${encodeAddress(email.from)}`,
+    `To: ${email.to.map(encodeAddress).join(', ')}`,
+    `Subject: ${encodeHeaderValue(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0'
+  ]
+
+  if (email.replyTo) {
+    headers.push(`Reply-To: ${encodeAddress(email.replyTo)}`)
+  }
+
+  Object.entries(email.headers || {}).forEach(([name, value]) => {
+    // Header injection guard: values must stay on one line
+    headers.push(`${name}: ${value.replace(/[\r\n]+/g, ' ')}`)
+  })
+
+  const parts: string[] = []
+
+  if (email.text) {
+    parts.push([
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(email.text)
+    ].join(CRLF))
+  }
+
+  parts.push([
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(email.html)
+  ].join(CRLF))
+
+  const raw = [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    ...parts,
+    `--${boundary}--`,
+    ''
+  ].join(CRLF)
+
+  return { messageId, raw }
+}
@@ -0,0 +1,271 @@
+import { supabaseAdmin } from '../supabase'
+import { EmailProvider, EmailProviderConfig, EmailProviderType, OutgoingEmail, ProviderSendResult } from './types'
+import { ResendProvider } from './resend-provider'
+import { SmtpProvider } from './smtp-provider'
+import { SesProvider } from './ses-provider'
+import { SinkProvider } from './sink-provider'
+
+export interface ProviderSendOutcome extends ProviderSendResult {
+  // Provider that produced the final result
+  provider: EmailProviderType
+  // Providers that failed with a retryable error before the final result
+  failovers: { provider: EmailProviderType; error?: string }[]
+}
+
+export interface WorkspaceEmailProvider {
+  id: string
+  workspace_id: string
+  provider_type: EmailProviderType
+  name: string
+  config: Record<string, unknown>
+  priority: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type NewWorkspaceEmailProvider = Pick<WorkspaceEmailProvider, 'provider_type' | 'name' | 'config' | 'priority' | 'is_active'>
+
+const PROVIDER_TYPES: EmailProviderType[] = ['resend', 'smtp', 'ses', 'sink']
+
+// Workspace provider settings rarely change; avoid a lookup per email
+const WORKSPACE_CACHE_TTL_MS = 60 * 1000
+
+// Config keys never returned through the API
+const SECRET_CONFIG_KEYS = ['api_key', 'password', 'secret_access_key']
+
+const WORKSPACE_PROVIDER_COLUMNS = 'id, workspace_id, provider_type, name, config, priority, is_active, created_at, updated_at'
+
+export function redactProviderConfig(config: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, SECRET_CONFIG_KEYS.includes(key) && value ? '********' : value])
+  )
+}
+
+function isProviderType(value: string | undefined): value is EmailProviderType {
+  return !!value && PROVIDER_TYPES.includes(value as EmailProviderType)
+}
+
+// Provider config from environment variables, or null when required settings are missing
+export function getEnvProviderConfig(type: EmailProviderType): EmailProviderConfig | null {
+  switch (type) {
+    case 'resend':
+      return { type, api_key: process.env.RESEND_API_KEY || '' }
+    case 'smtp':
+      if (!process.env.SMTP_HOST) return null
+      return {
+        type,
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        username: process.env.SMTP_USERNAME,
+        password: process.env.SMTP_PASSWORD
+      }
+    case 'ses': {
+      const region = process.env.AWS_SES_REGION || process.env.AWS_REGION
+      if (!region || !process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) return null
+      return {
+        type,
+        region,
+        access_key_id: process.env.AWS_ACCESS_KEY_ID,
+        secret_access_key: process.env.AWS_SECRET_ACCESS_KEY,
+        configuration_set: process.env.AWS_SES_CONFIGURATION_SET
+      }
+    }
+    case 'sink':
+      return { type, directory: process.env.EMAIL_SINK_DIR }
+  }
+}
+
+// Stored workspace config, except that a sink always writes to the operator's EMAIL_SINK_DIR
+export function getWorkspaceProviderConfig(type: EmailProviderType, config: Record<string, unknown>): EmailProviderConfig {
+  if (type === 'sink') {
+    return { type, directory: process.env.EMAIL_SINK_DIR }
+  }
+
+  return { ...config, type } as EmailProviderConfig
+}
+
+export function createEmailProvider(config: EmailProviderConfig): EmailProvider {
+  switch (config.type) {
+    case 'resend':
+      return new ResendProvider(config)
+    case 'smtp':
+      return new SmtpProvider(config)
+    case 'ses':
+      return new SesProvider(config)
+    case 'sink':
+      return new SinkProvider(config)
+  }
+}
+
+export class EmailProviderService {
+  private supabase = supabaseAdmin
+  private defaultProviders: EmailProvider[] | null = null
+  private workspaceCache = new Map<string, { providers: EmailProvider[]; expiresAt: number }>()
+
+  // EMAIL_PROVIDER (default resend), then EMAIL_FALLBACK_PROVIDER when configured
+  getDefaultProviders(): EmailProvider[] {
+    if (!this.defaultProviders) {
+      const primary = isProviderType(process.env.EMAIL_PROVIDER) ? process.env.EMAIL_PROVIDER : 'resend'
+      const fallback = isProviderType(process.env.EMAIL_FALLBACK_PROVIDER) ? process.env.EMAIL_FALLBACK_PROVIDER : null
+
+      this.defaultProviders = [primary, fallback]
+        .filter((type, index, types): type is EmailProviderType => !!type && types.indexOf(type) === index)
+        .map(type => getEnvProviderConfig(type))
+        .filter((config): config is EmailProviderConfig => config !== null)
+        .map(createEmailProvider)
+
+      if (this.defaultProviders.length === 0) {
+        throw new Error(`Email provider "${primary}" is not configured`)
+      }
+    }
+    return this.defaultProviders
+  }
+
+  // Replaces the environment defaults, e.g. with a SinkProvider in tests
+  setDefaultProviders(providers: EmailProvider[]): void {
+    this.defaultProviders = providers
+    this.workspaceCache.clear()
+  }
+
+  async getProvidersForWorkspace(workspaceId?: string): Promise<EmailProvider[]> {
+    if (!workspaceId) {
+      return this.getDefaultProviders()
+    }
+
+    const cached = this.workspaceCache.get(workspaceId)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.providers
+    }
+
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .select('provider_type, config')
+      .eq('workspace_id', workspaceId)
+      .eq('is_active', true)
+      .order('priority', { ascending: true })
+
+    if (error) {
+      console.error('Error loading workspace email providers:', error)
+      return this.getDefaultProviders()
+    }
+
+    const providers = (data || []).length > 0
+      ? (data || []).map(row => createEmailProvider(getWorkspaceProviderConfig(row.provider_type, row.config || {})))
+      : this.getDefaultProviders()
+
+    this.workspaceCache.set(workspaceId, { providers, expiresAt: Date.now() + WORKSPACE_CACHE_TTL_MS })
+    return providers
+  }
+
+  invalidateWorkspace(workspaceId: string): void {
+    this.workspaceCache.delete(workspaceId)
+  }
+
+  // Stored provider rows with secrets redacted, in priority order
+  async listWorkspaceProviders(workspaceId: string): Promise<WorkspaceEmailProvider[]> {
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .select(WORKSPACE_PROVIDER_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .order('priority', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to list email providers: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({ ...row, config: redactProviderConfig(row.config || {}) }))
+  }
+
+  // Unredacted row, for merging partial config updates
+  async getWorkspaceProvider(workspaceId: string, providerId: string): Promise<WorkspaceEmailProvider | null> {
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .select(WORKSPACE_PROVIDER_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .eq('id', providerId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load email provider: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async createWorkspaceProvider(workspaceId: string, provider: NewWorkspaceEmailProvider): Promise<WorkspaceEmailProvider> {
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .insert({ ...provider, workspace_id: workspaceId })
+      .select(WORKSPACE_PROVIDER_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create email provider: ${error.message}`)
+    }
+
+    this.invalidateWorkspace(workspaceId)
+    return { ...data, config: redactProviderConfig(data.config || {}) }
+  }
+
+  async updateWorkspaceProvider(
+    workspaceId: string,
+    providerId: string,
+    updates: Partial<Omit<NewWorkspaceEmailProvider, 'provider_type'>>
+  ): Promise<WorkspaceEmailProvider | null> {
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('workspace_id', workspaceId)
+      .eq('id', providerId)
+      .select(WORKSPACE_PROVIDER_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update email provider: ${error.message}`)
+    }
+
+    this.invalidateWorkspace(workspaceId)
+    return data ? { ...data, config: redactProviderConfig(data.config || {}) } : null
+  }
+
+  async deleteWorkspaceProvider(workspaceId: string, providerId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('workspace_email_providers')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', providerId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete email provider: ${error.message}`)
+    }
+
+    this.invalidateWorkspace(workspaceId)
+    return (data || []).length > 0
+  }
+
+  // Tries providers in priority order, moving on only when a provider reports a retryable failure
+  async send(email: OutgoingEmail, workspaceId?: string): Promise<ProviderSendOutcome> {
+    const providers = await this.getProvidersForWorkspace(workspaceId)
+    const failovers: ProviderSendOutcome['failovers'] = []
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i]
+      const result = await provider.send(email)
+
+      if (result.success || !result.retryable || i === providers.length - 1) {
+        return { ...result, provider: provider.type, failovers }
+      }
+
+      console.warn(`Email provider ${provider.type} failed, trying next provider:`, result.error)
+      failovers.push({ provider: provider.type, error: result.error })
+    }
+
+    // Unreachable: getDefaultProviders guarantees at least one provider
+    throw new Error('No email provider available')
+  }
+}
+
+export const emailProviderService = new EmailProviderService()
@@ -0,0 +1,77 @@
+import { Resend } from 'resend'
+import { EmailProvider, OutgoingEmail, ProviderSendResult, ResendProviderConfig, NormalizedEmailEvent, EmailEventType } from './types'
+
+// Resend errors worth retrying on another provider
+const RETRYABLE_ERRORS = ['rate_limit_exceeded', 'daily_quota_exceeded', 'application_error', 'internal_server_error']
+
+const RESEND_EVENT_TYPES: Record<string, EmailEventType> = {
+  'email.sent': 'sent',
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked'
+}
+
+export class ResendProvider implements EmailProvider {
+  readonly type = 'resend' as const
+  private client: Resend
+
+  constructor(config: ResendProviderConfig, client?: Resend) {
+    this.client = client || new Resend(config.api_key)
+  }
+
+  async send(email: OutgoingEmail): Promise<ProviderSendResult> {
+    try {
+      const { data, error } = await this.client.emails.send({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        replyTo: email.replyTo,
+        tags: email.tags,
+        headers: email.headers && Object.keys(email.headers).length > 0 ? email.headers : undefined,
+      })
+
+      if (error) {
+        return {
+          id: '',
+          success: false,
+          error: error.message || 'Failed to send email',
+          retryable: RETRYABLE_ERRORS.includes(error.name)
+        }
+      }
+
+      return { id: data?.id || '', success: true }
+    } catch (error) {
+      // Network failures reaching Resend
+      return {
+        id: '',
+        success: false,
+        error: (error as Error).message || 'Unexpected error occurred',
+        retryable: true
+      }
+    }
+  }
+}
+
+// Maps a Resend webhook body onto the normalized event; unknown event types return null
+export function parseResendWebhook(event: any): NormalizedEmailEvent | null {
+  const type = RESEND_EVENT_TYPES[event?.type]
+  const messageId = event?.data?.email_id
+
+  if (!type || !messageId) {
+    return null
+  }
+
+  return {
+    type,
+    provider: 'resend',
+    messageId,
+    occurredAt: event.created_at || event.data.timestamp || new Date().toISOString(),
+    bounceType: event.data.bounce_type === 'hard' || event.data.bounce_type === 'soft' ? event.data.bounce_type : undefined,
+    reason: event.data.reason,
+    url: event.data.url
+  }
+}
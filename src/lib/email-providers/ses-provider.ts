@@ -0,0 +1,192 @@
+import { createHash, createHmac, createVerify } from 'crypto'
+import { EmailProvider, OutgoingEmail, ProviderSendResult, SesProviderConfig, NormalizedEmailEvent, EmailEventType } from './types'
+import { buildMimeMessage } from './mime'
+
+const SES_SERVICE = 'ses'
+const SEND_EMAIL_PATH = '/v2/email/outbound-emails'
+
+const SES_EVENT_TYPES: Record<string, EmailEventType> = {
+  Send: 'sent',
+  Delivery: 'delivered',
+  Bounce: 'bounced',
+  Complaint: 'complained',
+  Open: 'opened',
+  Click: 'clicked'
+}
+
+// SNS signing certificates must come from an AWS-owned host
+const SNS_CERT_URL_PATTERN = /^https:\/\/sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?\/.+\.pem$/
+
+const certificateCache = new Map<string, string>()
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex')
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value, 'utf8').digest()
+}
+
+// AWS Signature Version 4 headers for a JSON POST
+export function signAwsRequest(params: {
+  method: string
+  host: string
+  path: string
+  body: string
+  region: string
+  service: string
+  accessKeyId: string
+  secretAccessKey: string
+  date?: Date
+}): Record<string, string> {
+  const date = params.date || new Date()
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const dateStamp = amzDate.slice(0, 8)
+  const payloadHash = sha256Hex(params.body)
+
+  const canonicalHeaders = `content-type:application/json\nhost:${params.host}\nx-amz-date:${amzDate}\n`
+  const signedHeaders = 'content-type;host;x-amz-date'
+  const canonicalRequest = [params.method, params.path, '', canonicalHeaders, signedHeaders, payloadHash].join('\n')
+
+  const scope = `${dateStamp}/${params.region}/${params.service}/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${params.secretAccessKey}`, dateStamp), params.region), params.service), 'aws4_request')
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex')
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Amz-Date': amzDate,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  }
+}
+
+// Amazon SES v2 over HTTPS, sending raw MIME so custom headers (List-Unsubscribe) survive
+export class SesProvider implements EmailProvider {
+  readonly type = 'ses' as const
+
+  constructor(private config: SesProviderConfig) {}
+
+  async send(email: OutgoingEmail): Promise<ProviderSendResult> {
+    const host = `email.${this.config.region}.amazonaws.com`
+    const message = buildMimeMessage(email)
+
+    const body = JSON.stringify({
+      FromEmailAddress: email.from,
+      Destination: { ToAddresses: email.to },
+      ReplyToAddresses: email.replyTo ? [email.replyTo] : undefined,
+      Content: { Raw: { Data: Buffer.from(message.raw, 'utf8').toString('base64') } },
+      // SES tag values only allow [A-Za-z0-9_-]
+      EmailTags: email.tags?.map(tag => ({ Name: tag.name, Value: tag.value.replace(/[^A-Za-z0-9_-]/g, '_') })),
+      ConfigurationSetName: this.config.configuration_set
+    })
+
+    try {
+      const response = await fetch(`https://${host}${SEND_EMAIL_PATH}`, {
+        method: 'POST',
+        headers: signAwsRequest({
+          method: 'POST',
+          host,
+          path: SEND_EMAIL_PATH,
+          body,
+          region: this.config.region,
+          service: SES_SERVICE,
+          accessKeyId: this.config.access_key_id,
+          secretAccessKey: this.config.secret_access_key
+        }),
+        body
+      })
+
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        return {
+          id: '',
+          success: false,
+          error: result.message || result.Message || `SES request failed with status ${response.status}`,
+          retryable: response.status === 429 || response.status >= 500
+        }
+      }
+
+      return { id: result.MessageId || '', success: true }
+    } catch (error) {
+      return {
+        id: '',
+        success: false,
+        error: (error as Error).message || 'Unexpected error occurred',
+        retryable: true
+      }
+    }
+  }
+}
+
+// Maps an SES event (SNS `Message` body) onto the normalized event; unknown types return null
+export function parseSesNotification(notification: any): NormalizedEmailEvent | null {
+  const eventType = notification?.eventType || notification?.notificationType
+  const type = SES_EVENT_TYPES[eventType]
+  const messageId = notification?.mail?.messageId
+
+  if (!type || !messageId) {
+    return null
+  }
+
+  const event: NormalizedEmailEvent = {
+    type,
+    provider: 'ses',
+    messageId,
+    occurredAt: notification.mail.timestamp || new Date().toISOString()
+  }
+
+  if (type === 'bounced') {
+    const bounce = notification.bounce || {}
+    event.bounceType = bounce.bounceType === 'Permanent' ? 'hard' : 'soft'
+    event.reason = bounce.bouncedRecipients?.[0]?.diagnosticCode || bounce.bounceSubType
+    event.occurredAt = bounce.timestamp || event.occurredAt
+  }
+
+  if (type === 'complained') {
+    event.reason = notification.complaint?.complaintFeedbackType
+    event.occurredAt = notification.complaint?.timestamp || event.occurredAt
+  }
+
+  if (type === 'clicked') {
+    event.url = notification.click?.link
+  }
+
+  return event
+}
+
+// Fields covered by the SNS signature, in the order AWS signs them
+function buildSnsStringToSign(message: Record<string, string>): string {
+  const fields = message.Type === 'Notification'
+    ? ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+    : ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type']
+
+  return fields
+    .filter(field => message[field] !== undefined)
+    .map(field => `${field}\n${message[field]}\n`)
+    .join('')
+}
+
+export async function verifySnsMessage(message: Record<string, string>): Promise<boolean> {
+  const certUrl = message.SigningCertURL
+  if (!certUrl || !SNS_CERT_URL_PATTERN.test(certUrl) || !message.Signature) {
+    return false
+  }
+
+  try {
+    let certificate = certificateCache.get(certUrl)
+    if (!certificate) {
+      const response = await fetch(certUrl)
+      if (!response.ok) return false
+      certificate = await response.text()
+      certificateCache.set(certUrl, certificate)
+    }
+
+    const verifier = createVerify(message.SignatureVersion === '2' ? 'RSA-SHA256' : 'RSA-SHA1')
+    verifier.update(buildSnsStringToSign(message), 'utf8')
+    return verifier.verify(certificate, message.Signature, 'base64')
+  } catch {
+    return false
+  }
+}
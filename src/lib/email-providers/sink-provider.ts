@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { EmailProvider, OutgoingEmail, ProviderSendResult, SinkProviderConfig } from './types'
+import { buildMimeMessage } from './mime'
+
+export interface SinkMessage extends OutgoingEmail {
+  id: string
+  sentAt: string
+}
+
+// Captures messages instead of delivering them, for offline end-to-end tests and local development
+export class SinkProvider implements EmailProvider {
+  readonly type = 'sink' as const
+  readonly messages: SinkMessage[] = []
+
+  constructor(private config: SinkProviderConfig = {}) {}
+
+  async send(email: OutgoingEmail): Promise<ProviderSendResult> {
+    const message: SinkMessage = {
+      ...email,
+      id: `sink_${randomUUID()}`,
+      sentAt: new Date().toISOString()
+    }
+
+    this.messages.push(message)
+
+    if (this.config.directory) {
+      try {
+        await fs.mkdir(this.config.directory, { recursive: true })
+        await Promise.all([
+          fs.writeFile(path.join(this.config.directory, `${message.id}.eml`), buildMimeMessage(email).raw, 'utf8'),
+          fs.writeFile(path.join(this.config.directory, `${message.id}.json`), JSON.stringify(message, null, 2), 'utf8')
+        ])
+      } catch (error) {
+        return { id: '', success: false, error: (error as Error).message }
+      }
+    }
+
+    return { id: message.id, success: true }
+  }
+
+  clear(): void {
+    this.messages.length = 0
+  }
+}
@@ -0,0 +1,215 @@
+import net from 'net'
+import tls from 'tls'
+import { EmailProvider, OutgoingEmail, ProviderSendResult, SmtpProviderConfig } from './types'
+import { buildMimeMessage, extractAddress } from './mime'
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+
+  // 4xx replies and dropped connections are transient; 5xx replies are permanent
+  get retryable(): boolean {
+    return this.code === undefined || (this.code >= 400 && this.code < 500)
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+
+// Minimal RFC 5321 client: one connection per message, STARTTLS and AUTH PLAIN/LOGIN
+class SmtpConnection {
+  private socket!: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private config: SmtpProviderConfig) {}
+
+  async connect(): Promise<Set<string>> {
+    const timeout = this.config.timeout_ms || DEFAULT_TIMEOUT_MS
+
+    this.attach(await new Promise<net.Socket>((resolve, reject) => {
+      const socket = this.config.secure
+        ? tls.connect({ host: this.config.host, port: this.config.port, servername: this.config.host }, () => resolve(socket))
+        : net.connect({ host: this.config.host, port: this.config.port }, () => resolve(socket))
+      socket.once('error', reject)
+      socket.setTimeout(timeout, () => socket.destroy(new SmtpError('SMTP connection timed out')))
+    }))
+
+    await this.expect(await this.read(), [220])
+    let extensions = await this.ehlo()
+
+    if (!this.config.secure && extensions.has('STARTTLS')) {
+      await this.command('STARTTLS', [220])
+      await this.upgradeToTls()
+      extensions = await this.ehlo()
+    }
+
+    if (this.config.username) {
+      await this.authenticate(extensions)
+    }
+
+    return extensions
+  }
+
+  async sendMessage(from: string, recipients: string[], raw: string): Promise<void> {
+    await this.command(`MAIL FROM:<${from}>`, [250])
+    for (const recipient of recipients) {
+      await this.command(`RCPT TO:<${recipient}>`, [250, 251])
+    }
+    await this.command('DATA', [354])
+
+    // Dot-stuffing: lines starting with "." get an extra "." (RFC 5321 4.5.2)
+    const body = raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+    this.socket.write(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.\r\n`)
+    await this.expect(await this.read(), [250])
+  }
+
+  async quit(): Promise<void> {
+    try {
+      await this.command('QUIT', [221])
+    } catch {
+      // The message was already accepted; a failed QUIT is irrelevant
+    } finally {
+      this.socket.destroy()
+    }
+  }
+
+  destroy(): void {
+    this.socket?.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket
+    this.buffer = ''
+    socket.removeAllListeners('error')
+    socket.on('data', chunk => this.onData(chunk.toString('utf8')))
+    socket.on('error', error => this.fail(error))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')))
+  }
+
+  private async upgradeToTls(): Promise<void> {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('close')
+
+    this.attach(await new Promise<net.Socket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: this.config.host }, () => resolve(secure))
+      secure.once('error', reject)
+    }))
+  }
+
+  private async ehlo(): Promise<Set<string>> {
+    const reply = await this.command(`EHLO ${this.config.client_name || 'localhost'}`, [250])
+    return new Set(reply.lines.slice(1).map(line => line.toUpperCase()).flatMap(line => [line, line.split(' ')[0]]))
+  }
+
+  private async authenticate(extensions: Set<string>): Promise<void> {
+    const username = this.config.username || ''
+    const password = this.config.password || ''
+    const authLine = Array.from(extensions).find(line => line.startsWith('AUTH ')) || ''
+
+    if (authLine.includes('PLAIN') || !authLine.includes('LOGIN')) {
+      const credentials = Buffer.from(`\u0000${username}\u0000${password}`).toString('base64')
+      await this.command(`AUTH PLAIN ${credentials}`, [235])
+      return
+    }
+
+    await this.command('AUTH LOGIN', [334])
+    await this.command(Buffer.from(username).toString('base64'), [334])
+    await this.command(Buffer.from(password).toString('base64'), [235])
+  }
+
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(await this.read(), expected)
+  }
+
+  private async expect(reply: SmtpReply, expected: number[]): Promise<SmtpReply> {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${reply.code}: ${reply.lines.join(' ')}`, reply.code)
+    }
+    return reply
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  private onData(data: string): void {
+    this.buffer += data
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      this.lines.push(this.buffer.slice(0, index))
+      this.buffer = this.buffer.slice(index + 2)
+    }
+    this.flush()
+  }
+
+  // A reply is complete once a line has a space after the code ("250 OK" vs "250-SIZE")
+  private flush(): void {
+    if (!this.waiting) return
+
+    const lastIndex = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line))
+    if (lastIndex < 0) return
+
+    const replyLines = this.lines.splice(0, lastIndex + 1)
+    const waiting = this.waiting
+    this.waiting = null
+    waiting.resolve({
+      code: parseInt(replyLines[lastIndex].slice(0, 3), 10),
+      lines: replyLines.map(line => line.slice(4))
+    })
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    if (this.waiting) {
+      const waiting = this.waiting
+      this.waiting = null
+      waiting.reject(error)
+    }
+  }
+}
+
+export class SmtpProvider implements EmailProvider {
+  readonly type = 'smtp' as const
+
+  constructor(private config: SmtpProviderConfig) {}
+
+  async send(email: OutgoingEmail): Promise<ProviderSendResult> {
+    const message = buildMimeMessage(email)
+    const connection = new SmtpConnection(this.config)
+
+    try {
+      await connection.connect()
+      await connection.sendMessage(extractAddress(email.from), email.to.map(extractAddress), message.raw)
+      await connection.quit()
+
+      return { id: message.messageId, success: true }
+    } catch (error) {
+      connection.destroy()
+      const smtpError = error instanceof SmtpError ? error : new SmtpError((error as Error).message)
+
+      return {
+        id: '',
+        success: false,
+        error: smtpError.message,
+        retryable: smtpError.retryable
+      }
+    }
+  }
+}
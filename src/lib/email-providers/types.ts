@@ -0,0 +1,75 @@
+// Shared contracts for the pluggable email providers
+
+export type EmailProviderType = 'resend' | 'smtp' | 'ses' | 'sink'
+
+export interface OutgoingEmail {
+  from: string
+  to: string[]
+  subject: string
+  html: string
+  text?: string
+  replyTo?: string
+  tags?: { name: string; value: string }[]
+  headers?: Record<string, string>
+}
+
+export interface ProviderSendResult {
+  // Provider message id, stored in email_sends.resend_id for webhook matching
+  id: string
+  success: boolean
+  error?: string
+  // Throttling or provider outages; the next configured provider is tried
+  retryable?: boolean
+}
+
+export type EmailEventType = 'sent' | 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked'
+
+// Provider-agnostic webhook event consumed by EmailEventProcessor
+export interface NormalizedEmailEvent {
+  type: EmailEventType
+  provider: EmailProviderType
+  messageId: string
+  occurredAt: string
+  bounceType?: 'hard' | 'soft'
+  reason?: string
+  url?: string
+}
+
+export interface EmailProvider {
+  readonly type: EmailProviderType
+  send(email: OutgoingEmail): Promise<ProviderSendResult>
+}
+
+export interface ResendProviderConfig {
+  api_key: string
+}
+
+export interface SmtpProviderConfig {
+  host: string
+  port: number
+  // true for implicit TLS (465); otherwise STARTTLS is used when the server offers it
+  secure?: boolean
+  username?: string
+  password?: string
+  // Name announced in EHLO
+  client_name?: string
+  timeout_ms?: number
+}
+
+export interface SesProviderConfig {
+  region: string
+  access_key_id: string
+  secret_access_key: string
+  configuration_set?: string
+}
+
+export interface SinkProviderConfig {
+  // Directory that receives one .eml and one .json file per message; omit to keep messages in memory only
+  directory?: string
+}
+
+export type EmailProviderConfig =
+  | ({ type: 'resend' } & ResendProviderConfig)
+  | ({ type: 'smtp' } & SmtpProviderConfig)
+  | ({ type: 'ses' } & SesProviderConfig)
+  | ({ type: 'sink' } & SinkProviderConfig)
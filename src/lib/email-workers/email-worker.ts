@@ -1,8 +1,14 @@
 // Email Worker Implementation
 
+import { randomUUID } from 'crypto';
 import { createSupabaseServerClient } from '@/lib/supabase';
-import { sendEmail, replaceEmailVariables } from '@/lib/resend';
+import { sendEmail } from '@/lib/resend';
 import { logger } from '@/lib/logger';
+import { subscriptionService } from '@/lib/subscriptions/subscription-service';
+import { suppressionList, normalizeEmail } from '@/lib/suppression/suppression-list';
+import { applyTracking } from '@/lib/tracking/email-tracking';
+import { trackingService } from '@/lib/tracking/tracking-service';
+import { buildLeadTemplateContext, renderEmailContent } from '@/lib/templates/email-template';
 import { emailJobQueue } from './job-queue';
 import { 
   EmailWorker, 
@@ -242,6 +248,7 @@ export class EmailWorkerInstance {
     const startTime = Date.now();
     let successful = 0;
     let failed = 0;
+    let skipped = 0;
     const errors: EmailError[] = [];
 
     // Update batch status to processing
@@ -255,31 +262,78 @@ export class EmailWorkerInstance {
       }
     });
 
+    const workspaceId: string = jobPayload.workspace_id;
+
+    // Without a workspace nothing can be excluded or unsubscribed, so the batch must not send
+    if (!workspaceId) {
+      throw new Error('Job payload has no workspace_id');
+    }
+
+    // Leads may have unsubscribed or changed topic preferences since the job was queued
+    const excludedLeadIds = await subscriptionService.getExcludedLeadIds(
+      workspaceId,
+      batch.leads_data.map(lead => lead.id),
+      jobPayload.topic_id
+    );
+
+    const suppressedEmails = await suppressionList.getSuppressedEmails(
+      workspaceId,
+      batch.leads_data.map(lead => lead.email)
+    );
+
+    let linksRegistered = false;
+
     // Process each lead in the batch
     for (const lead of batch.leads_data) {
+      if (excludedLeadIds.has(lead.id) || suppressedEmails.has(normalizeEmail(lead.email))) {
+        skipped++;
+        continue;
+      }
+
       try {
-        // Prepare email variables
-        const variables = {
-          name: lead.name || 'Cliente',
-          email: lead.email,
-          company: lead.company || '',
-          position: lead.position || '',
-          phone: lead.phone || '',
-          ...lead.custom_fields,
-        };
-
-        // Replace variables in email content
-        const subject = replaceEmailVariables(
-          jobPayload.template_data.subject,
-          variables
-        );
-        const htmlContent = replaceEmailVariables(
-          jobPayload.template_data.html_content,
-          variables
+        const links = subscriptionService.buildLinks({
+          workspaceId,
+          leadId: lead.id,
+          campaignId: jobPayload.campaign_id
+        });
+
+        // Render the template for this lead
+        const rendered = renderEmailContent(
+          {
+            subject: jobPayload.template_data.subject,
+            html: jobPayload.template_data.html_content,
+            text: jobPayload.template_data.text_content
+          },
+          buildLeadTemplateContext(lead, {
+            unsubscribe_url: links.unsubscribe_url,
+            preferences_url: links.preferences_url
+          })
         );
-        const textContent = jobPayload.template_data.text_content
-          ? replaceEmailVariables(jobPayload.template_data.text_content, variables)
-          : undefined;
+        const subject = rendered.subject;
+        const renderedHtml = rendered.html;
+        const unsubscribableHtml = subscriptionService.ensureUnsubscribeLink(renderedHtml, links);
+
+        // The send id is generated up front so tracking tokens can reference the email_sends row
+        const sendId = randomUUID();
+        let htmlContent = unsubscribableHtml;
+
+        if (jobPayload.tracking_config) {
+          const tracked = applyTracking(
+            unsubscribableHtml,
+            { sendId, workspaceId, campaignId: jobPayload.campaign_id, leadId: lead.id },
+            {
+              trackOpens: jobPayload.tracking_config?.track_opens,
+              trackClicks: jobPayload.tracking_config?.track_clicks
+            }
+          );
+          htmlContent = tracked.html;
+
+          if (!linksRegistered) {
+            await trackingService.registerLinks(jobPayload.campaign_id, tracked.links);
+            linksRegistered = true;
+          }
+        }
+        const textContent = rendered.text;
 
         // Send email
         const emailResult = await sendEmail({
@@ -292,19 +346,23 @@ export class EmailWorkerInstance {
           tags: jobPayload.tracking_config ? [
             { name: 'campaign_id', value: jobPayload.tracking_config.campaign_id },
             { name: 'workspace_id', value: jobPayload.tracking_config.workspace_id }
-          ] : undefined
+          ] : undefined,
+          unsubscribeUrl: links.one_click_url,
+          workspaceId
         });
 
         // Record email send status
         await this.supabase
           .from('email_sends')
           .insert({
-            workspace_id: jobPayload.tracking_config?.workspace_id,
+            id: sendId,
+            workspace_id: workspaceId,
             campaign_id: jobPayload.campaign_id,
             lead_id: lead.id,
             email: lead.email,
             status: emailResult.success ? 'sent' : 'failed',
             resend_id: emailResult.id,
+            provider: emailResult.provider,
             sent_at: emailResult.success ? new Date().toISOString() : null,
             error_message: emailResult.error || null
           });
@@ -346,6 +404,7 @@ export class EmailWorkerInstance {
         batchId: batch.id,
         successful,
         failed,
+        skipped,
         processingTime 
       }
     });
@@ -355,6 +414,7 @@ export class EmailWorkerInstance {
       total_emails: batch.leads_data.length,
       successful_emails: successful,
       failed_emails: failed,
+      skipped_emails: skipped,
       processing_time: processingTime,
       errors
     };
@@ -36,6 +36,10 @@ export class EmailJobQueue {
         throw new Error('Job payload must contain at least one lead');
       }
 
+      if (payload.workspace_id !== workspace_id) {
+        throw new Error('Job payload workspace_id must match the job workspace');
+      }
+
       // Create the job
       const { data: job, error } = await this.supabase
         .from('email_jobs')
@@ -2,7 +2,11 @@
 
 import { createSupabaseServerClient } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
-import { sendEmail, replaceEmailVariables } from '@/lib/resend';
+import { sendEmail } from '@/lib/resend';
+import { applyTracking } from '@/lib/tracking/email-tracking';
+import { subscriptionService } from '@/lib/subscriptions/subscription-service';
+import { suppressionList } from '@/lib/suppression/suppression-list';
+import { buildLeadTemplateContext, renderEmailContent } from '@/lib/templates/email-template';
 import { EmailRetryJob, RetryStatus } from './types';
 
 export class EmailRetrySystem {
@@ -185,28 +189,65 @@ export class EmailRetrySystem {
         return;
       }
 
-      // Prepare email variables
-      const variables = {
-        name: lead.name || 'Cliente',
-        email: lead.email,
-        company: lead.company || '',
-        position: lead.position || '',
-        phone: lead.phone || '',
-        ...lead.custom_fields,
-      };
-
-      // Replace variables in email content
-      const subject = replaceEmailVariables(
-        originalJob.payload.template_data.subject,
-        variables
+      // The lead may have opted out or been suppressed since the first attempt
+      const workspaceId = retryJob.email_sends.workspace_id;
+      const excludedLeadIds = await subscriptionService.getExcludedLeadIds(
+        workspaceId,
+        [lead.id],
+        originalJob.payload.topic_id
       );
-      const htmlContent = replaceEmailVariables(
-        originalJob.payload.template_data.html_content,
-        variables
+      const suppressed = await suppressionList.isSuppressed(workspaceId, lead.email);
+
+      if (excludedLeadIds.has(lead.id) || suppressed) {
+        const reason = suppressed ? 'Recipient is suppressed' : 'Recipient has opted out';
+
+        await this.updateRetryJobStatus(retryJob.id, 'abandoned', reason);
+        await this.supabase
+          .from('email_sends')
+          .update({ error_message: `Retry skipped: ${reason}` })
+          .eq('id', retryJob.email_send_id);
+
+        logger.info('Email retry skipped', {
+          metadata: { retryJobId: retryJob.id, leadId: lead.id, reason }
+        });
+        return;
+      }
+
+      // Retries carry the same unsubscribe links as the first attempt
+      const links = subscriptionService.buildLinks({
+        workspaceId,
+        leadId: lead.id,
+        campaignId: originalJob.payload.campaign_id
+      });
+
+      // Render the template for this lead
+      const rendered = renderEmailContent(
+        {
+          subject: originalJob.payload.template_data.subject,
+          html: originalJob.payload.template_data.html_content,
+          text: originalJob.payload.template_data.text_content
+        },
+        buildLeadTemplateContext(lead, {
+          unsubscribe_url: links.unsubscribe_url,
+          preferences_url: links.preferences_url
+        })
       );
-      const textContent = originalJob.payload.template_data.text_content
-        ? replaceEmailVariables(originalJob.payload.template_data.text_content, variables)
-        : undefined;
+      const subject = rendered.subject;
+      const renderedHtml = subscriptionService.ensureUnsubscribeLink(rendered.html, links);
+      const trackingConfig = originalJob.payload.tracking_config;
+      const htmlContent = trackingConfig
+        ? applyTracking(
+            renderedHtml,
+            {
+              sendId: retryJob.email_send_id,
+              workspaceId,
+              campaignId: trackingConfig.campaign_id,
+              leadId: lead.id
+            },
+            { trackOpens: trackingConfig.track_opens, trackClicks: trackingConfig.track_clicks }
+          ).html
+        : renderedHtml;
+      const textContent = rendered.text;
 
       // Attempt to send email
       const emailResult = await sendEmail({
@@ -220,7 +261,9 @@ export class EmailRetrySystem {
           { name: 'campaign_id', value: originalJob.payload.tracking_config.campaign_id },
           { name: 'workspace_id', value: originalJob.payload.tracking_config.workspace_id },
           { name: 'retry_attempt', value: (retryJob.retry_count + 1).toString() }
-        ] : undefined
+        ] : undefined,
+        unsubscribeUrl: links.one_click_url,
+        workspaceId
       });
 
       if (emailResult.success) {
@@ -230,6 +273,7 @@ export class EmailRetrySystem {
           .update({
             status: 'sent',
             resend_id: emailResult.id,
+            provider: emailResult.provider,
             sent_at: new Date().toISOString(),
             error_message: null
           })
@@ -99,7 +99,11 @@ export type RetryStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'a
 
 export interface JobPayload {
   campaign_id: string;
+  // Scopes opt-out exclusion, suppression and unsubscribe links for every send
+  workspace_id: string;
   template_id?: string;
+  // Template version the content below was taken from
+  template_version_id?: string | null;
   leads: Lead[];
   template_data: {
     subject: string;
@@ -114,7 +118,10 @@ export interface JobPayload {
   tracking_config?: {
     campaign_id: string;
     workspace_id: string;
+    track_opens?: boolean;
+    track_clicks?: boolean;
   };
+  topic_id?: string | null;
 }
 
 export interface Lead {
@@ -172,6 +179,7 @@ export interface BatchProcessingResult {
   total_emails: number;
   successful_emails: number;
   failed_emails: number;
+  skipped_emails: number;
   processing_time: number;
   errors: EmailError[];
 }
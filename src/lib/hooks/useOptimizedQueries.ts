@@ -74,6 +74,7 @@ export interface Lead {
   status: string
   tags: string[]
   custom_fields: any
+  score: number | null
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,129 @@
+// Testes da fila de inscrição em massa nas automações
+
+// The service is created on import, so the mocks live inside the factories
+jest.mock('../index', () => {
+  const queue = { addBulk: jest.fn(), process: jest.fn() }
+  return {
+    queueManager: {
+      createQueue: jest.fn(() => queue)
+    }
+  }
+})
+
+jest.mock('../progress-tracker', () => ({
+  progressTracker: {
+    createProgress: jest.fn(),
+    getProgress: jest.fn(),
+    updateProgress: jest.fn(),
+    incrementProgress: jest.fn()
+  }
+}))
+
+jest.mock('../../automation/bulk-enrollment', () => ({
+  automationBulkEnrollmentService: {
+    checkAutomation: jest.fn(),
+    resolveLeads: jest.fn(),
+    resolveActiveRunLeads: jest.fn(),
+    enrollLeads: jest.fn(),
+    cancelRuns: jest.fn()
+  },
+  chunk: <T>(items: T[], size: number) => {
+    const chunks: T[][] = []
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size))
+    }
+    return chunks
+  }
+}))
+
+import { queueManager } from '../index'
+import { progressTracker } from '../progress-tracker'
+import { automationBulkEnrollmentService } from '../../automation/bulk-enrollment'
+import { automationEnrollmentService } from '../jobs/automation-enrollment'
+
+const queue: any = (queueManager.createQueue as jest.Mock).mock.results[0].value
+const mockAddBulk = queue.addBulk as jest.Mock
+// Captured before clearAllMocks wipes the registration
+const processor = (queue.process as jest.Mock).mock.calls[0][1]
+const bulk = automationBulkEnrollmentService as jest.Mocked<typeof automationBulkEnrollmentService>
+const tracker = progressTracker as jest.Mocked<typeof progressTracker>
+
+describe('AutomationEnrollmentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('deve enfileirar os leads em lotes de 500 sob um id de operação', async () => {
+    const leadIds = Array.from({ length: 1200 }, (_, i) => `lead-${i}`)
+    bulk.resolveLeads.mockResolvedValue({ lead_ids: leadIds, not_found: 3 })
+
+    const operation = await automationEnrollmentService.startOperation({
+      userId: 'user-1',
+      workspaceId: 'ws-1',
+      automationId: 'auto-1',
+      action: 'enroll',
+      source: { type: 'segment', segment_id: 'seg-1' },
+      triggerData: { origem: 'painel' }
+    })
+
+    expect(operation).toEqual({ operationId: expect.stringMatching(/^enrollment_/), totalLeads: 1200, notFound: 3 })
+    expect(tracker.createProgress).toHaveBeenCalledWith(
+      operation.operationId,
+      'automation-enrollment',
+      'user-1',
+      1200,
+      expect.objectContaining({ workspace_id: 'ws-1', automation_id: 'auto-1', action: 'enroll', not_found: 3 })
+    )
+
+    const jobs = mockAddBulk.mock.calls[0][0]
+    expect(jobs.map((job: any) => job.data.leadIds.length)).toEqual([500, 500, 200])
+    expect(jobs[2].data).toMatchObject({ currentBatch: 3, totalBatches: 3 })
+    expect(jobs[0].data.triggerData).toEqual({ origem: 'painel', bulk_enrollment_id: operation.operationId })
+  })
+
+  it('deve cancelar todas as execuções ativas quando não há origem', async () => {
+    bulk.resolveActiveRunLeads.mockResolvedValue([])
+
+    await automationEnrollmentService.startOperation({
+      userId: 'user-1',
+      workspaceId: 'ws-1',
+      automationId: 'auto-1',
+      action: 'cancel'
+    })
+
+    expect(bulk.checkAutomation).toHaveBeenCalledWith('ws-1', 'auto-1', 'cancel')
+    expect(bulk.resolveActiveRunLeads).toHaveBeenCalledWith('auto-1')
+    expect(mockAddBulk).not.toHaveBeenCalled()
+    expect(tracker.updateProgress).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ status: 'completed' }))
+  })
+
+  it('deve somar o resultado do lote ao progresso de forma atômica', async () => {
+    tracker.getProgress.mockResolvedValue({
+      id: 'op-1',
+      type: 'automation-enrollment',
+      userId: 'user-1',
+      status: 'processing',
+      progress: 50,
+      totalItems: 4,
+      processedItems: 2,
+      failedItems: 0,
+      message: '',
+      startTime: 0,
+      metadata: { workspace_id: 'ws-1', automation_id: 'auto-1', action: 'enroll', not_found: 0, succeeded: 2, skipped: 0 }
+    })
+    bulk.enrollLeads.mockResolvedValue({ succeeded: 1, skipped: 0, failed: 1, errors: ['lead-4: falhou'] })
+
+    await processor({
+      data: { operationId: 'op-1', action: 'enroll', automationId: 'auto-1', leadIds: ['lead-3', 'lead-4'], currentBatch: 2, totalBatches: 2 }
+    })
+
+    expect(tracker.updateProgress).not.toHaveBeenCalled()
+    expect(tracker.incrementProgress).toHaveBeenCalledWith('op-1', expect.objectContaining({
+      processedItems: 1,
+      failedItems: 1,
+      metadataCounters: { succeeded: 1, skipped: 0 },
+      errors: ['lead-4: falhou'],
+      doneMessage: 'Enrollment finished'
+    }))
+  })
+})
@@ -0,0 +1,67 @@
+// Testes da fila de passos das automações
+
+// The service is created on import, so the mocks live inside the factories
+jest.mock('../index', () => {
+  const queue = { add: jest.fn(), process: jest.fn() }
+  return {
+    queueManager: {
+      createQueue: jest.fn(() => queue)
+    }
+  }
+})
+
+jest.mock('../../automation/automation-engine', () => ({
+  automationEngine: {
+    processAutomationRun: jest.fn()
+  }
+}))
+
+import { queueManager } from '../index'
+import { automationEngine } from '../../automation/automation-engine'
+import { automationStepService } from '../jobs/automation-steps'
+
+const queue: any = (queueManager.createQueue as jest.Mock).mock.results[0].value
+const mockAdd = queue.add as jest.Mock
+const mockProcess = queue.process as jest.Mock
+const mockProcessAutomationRun = automationEngine.processAutomationRun as jest.Mock
+
+describe('AutomationStepService', () => {
+  beforeEach(() => {
+    mockAdd.mockReset()
+    mockProcessAutomationRun.mockReset()
+  })
+
+  it('deve agendar o passo como job atrasado com id por execução e passo', async () => {
+    const runAt = new Date(Date.now() + 60 * 60 * 1000)
+
+    await automationStepService.scheduleStep({ runId: 'run-1', stepIndex: 2, runAt })
+
+    const [data, options] = mockAdd.mock.calls[0]
+    expect(data).toEqual({ runId: 'run-1', stepIndex: 2, runAt: runAt.toISOString() })
+    expect(options.jobId).toBe(`run-1:2:${runAt.getTime()}`)
+    expect(options.delay).toBeGreaterThan(59 * 60 * 1000)
+  })
+
+  it('deve usar outro id para jobs de recuperação e não agendar no passado', async () => {
+    const runAt = new Date(Date.now() - 5000)
+
+    await automationStepService.scheduleStep({ runId: 'run-1', stepIndex: 0, runAt, recovery: true })
+
+    const [, options] = mockAdd.mock.calls[0]
+    expect(options.jobId).toBe(`run-1:0:${runAt.getTime()}:recovery`)
+    expect(options.delay).toBe(0)
+  })
+
+  it('deve executar a automação a partir do passo agendado', async () => {
+    const processor = mockProcess.mock.calls[0][1]
+    mockProcessAutomationRun.mockResolvedValue(undefined)
+
+    const result = await processor({ data: { runId: 'run-1', stepIndex: 3, runAt: '2025-05-05T12:00:00.000Z' } })
+
+    expect(mockProcessAutomationRun).toHaveBeenCalledWith('run-1', {
+      stepIndex: 3,
+      runAt: new Date('2025-05-05T12:00:00.000Z')
+    })
+    expect(result).toEqual({ success: true, data: { runId: 'run-1', stepIndex: 3 } })
+  })
+})
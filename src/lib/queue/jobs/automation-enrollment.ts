@@ -0,0 +1,194 @@
+import Bull from 'bull'
+import { queueManager, JobResult } from '../index'
+import { progressTracker } from '../progress-tracker'
+import {
+  automationBulkEnrollmentService,
+  chunk,
+  EnrollmentAction,
+  EnrollmentSource
+} from '../../automation/bulk-enrollment'
+
+export interface AutomationEnrollmentJobData {
+  operationId: string
+  action: EnrollmentAction
+  automationId: string
+  leadIds: string[]
+  triggerData?: Record<string, any>
+  currentBatch: number
+  totalBatches: number
+}
+
+export interface StartEnrollmentOptions {
+  userId: string
+  workspaceId: string
+  automationId: string
+  action: EnrollmentAction
+  // Cancelling without a source applies to every active run of the flow
+  source?: EnrollmentSource
+  triggerData?: Record<string, any>
+}
+
+export interface StartedEnrollment {
+  operationId: string
+  totalLeads: number
+  notFound: number
+}
+
+// Per-operation counters kept in the progress metadata
+interface EnrollmentProgressMetadata {
+  workspace_id: string
+  automation_id: string
+  action: EnrollmentAction
+  not_found: number
+  succeeded: number
+  skipped: number
+}
+
+// Errors kept on the progress record; the rest are only counted
+const MAX_PROGRESS_ERRORS = 50
+
+export class AutomationEnrollmentService {
+  private static instance: AutomationEnrollmentService
+  private queue: Bull.Queue
+  private readonly QUEUE_NAME = 'automation-enrollment'
+  // Each batch enrolls its leads one by one; one batch per process keeps the load on the run tables even
+  private readonly CONCURRENCY = 1
+  private readonly BATCH_SIZE = 500
+
+  private constructor() {
+    this.queue = queueManager.createQueue({
+      name: this.QUEUE_NAME,
+      concurrency: this.CONCURRENCY,
+      removeOnComplete: 100,
+      removeOnFail: 50,
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    })
+
+    this.setupProcessors()
+  }
+
+  static getInstance(): AutomationEnrollmentService {
+    if (!AutomationEnrollmentService.instance) {
+      AutomationEnrollmentService.instance = new AutomationEnrollmentService()
+    }
+    return AutomationEnrollmentService.instance
+  }
+
+  private setupProcessors(): void {
+    this.queue.process(this.CONCURRENCY, async (job: Bull.Job<AutomationEnrollmentJobData>) => {
+      return this.processBatch(job)
+    })
+  }
+
+  // Resolve the leads up front, then queue them in batches; progress is reported under the operation id
+  async startOperation(options: StartEnrollmentOptions): Promise<StartedEnrollment> {
+    const { userId, workspaceId, automationId, action, source, triggerData } = options
+
+    await automationBulkEnrollmentService.checkAutomation(workspaceId, automationId, action)
+
+    const resolved = source
+      ? await automationBulkEnrollmentService.resolveLeads(workspaceId, source)
+      : { lead_ids: await automationBulkEnrollmentService.resolveActiveRunLeads(automationId), not_found: 0 }
+
+    const operationId = `enrollment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const batches = chunk(resolved.lead_ids, this.BATCH_SIZE)
+
+    const metadata: EnrollmentProgressMetadata = {
+      workspace_id: workspaceId,
+      automation_id: automationId,
+      action,
+      not_found: resolved.not_found,
+      succeeded: 0,
+      skipped: 0,
+    }
+
+    await progressTracker.createProgress(operationId, 'automation-enrollment', userId, resolved.lead_ids.length, metadata)
+
+    if (batches.length === 0) {
+      await progressTracker.updateProgress(operationId, {
+        status: 'completed',
+        progress: 100,
+        message: 'No leads to process',
+      })
+    } else {
+      await this.queue.addBulk(
+        batches.map((leadIds, index) => ({
+          name: `automation-${action}-batch`,
+          data: {
+            operationId,
+            action,
+            automationId,
+            leadIds,
+            // Runs started in bulk can be traced back to the operation
+            triggerData: action === 'enroll' ? { ...triggerData, bulk_enrollment_id: operationId } : undefined,
+            currentBatch: index + 1,
+            totalBatches: batches.length,
+          },
+          opts: {
+            jobId: `${operationId}:${index + 1}`,
+            priority: index + 1, // Earlier batches first
+          },
+        }))
+      )
+    }
+
+    return {
+      operationId,
+      totalLeads: resolved.lead_ids.length,
+      notFound: resolved.not_found,
+    }
+  }
+
+  private async processBatch(job: Bull.Job<AutomationEnrollmentJobData>): Promise<JobResult> {
+    const { operationId, action, automationId, leadIds, triggerData, currentBatch, totalBatches } = job.data
+
+    const progress = await progressTracker.getProgress(operationId)
+    if (progress?.status === 'cancelled') {
+      return { success: true, data: { operationId, skipped: true } }
+    }
+
+    const result = action === 'enroll'
+      ? await automationBulkEnrollmentService.enrollLeads(automationId, leadIds, triggerData)
+      : await automationBulkEnrollmentService.cancelRuns(automationId, leadIds, `Cancelled by bulk operation ${operationId}`)
+
+    if (progress) {
+      await progressTracker.incrementProgress(operationId, {
+        processedItems: result.succeeded + result.skipped,
+        failedItems: result.failed,
+        metadataCounters: { succeeded: result.succeeded, skipped: result.skipped },
+        errors: result.errors,
+        maxErrors: MAX_PROGRESS_ERRORS,
+        message: `Processed batch ${currentBatch} of ${totalBatches}`,
+        doneMessage: `${action === 'enroll' ? 'Enrollment' : 'Cancellation'} finished`,
+      })
+    }
+
+    return {
+      success: true,
+      data: { operationId, currentBatch, ...result },
+    }
+  }
+
+  // The progress record is shared with the queue routes; only the operation's workspace may read it
+  async getOperation(workspaceId: string, operationId: string) {
+    const progress = await progressTracker.getProgress(operationId)
+
+    if (!progress || progress.type !== 'automation-enrollment' || progress.metadata?.workspace_id !== workspaceId) {
+      return null
+    }
+
+    return progress
+  }
+
+  getQueue(): Bull.Queue {
+    return this.queue
+  }
+}
+
+export const automationEnrollmentService = AutomationEnrollmentService.getInstance()
@@ -0,0 +1,88 @@
+import Bull from 'bull'
+import { queueManager, JobResult } from '../index'
+import { automationEngine, AutomationStepScheduler, ScheduledStep } from '../../automation/automation-engine'
+
+export interface AutomationStepJobData {
+  runId: string
+  stepIndex: number
+  // ISO time the step was scheduled for; jobs for a run rescheduled since then are skipped
+  runAt: string
+}
+
+export class AutomationStepService implements AutomationStepScheduler {
+  private static instance: AutomationStepService
+  private queue: Bull.Queue
+  private readonly QUEUE_NAME = 'automation-steps'
+  // Each worker process takes this many runs at once; add processes to scale out
+  private readonly CONCURRENCY = parseInt(process.env.AUTOMATION_WORKER_CONCURRENCY || '5')
+
+  private constructor() {
+    this.queue = queueManager.createQueue({
+      name: this.QUEUE_NAME,
+      concurrency: this.CONCURRENCY,
+      removeOnComplete: 100,
+      removeOnFail: 500,
+      defaultJobOptions: {
+        // Step failures are retried by the engine (AutomationRun.max_retries); these cover lost connections
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+      },
+    })
+
+    this.setupProcessors()
+  }
+
+  static getInstance(): AutomationStepService {
+    if (!AutomationStepService.instance) {
+      AutomationStepService.instance = new AutomationStepService()
+    }
+    return AutomationStepService.instance
+  }
+
+  private setupProcessors(): void {
+    this.queue.process(this.CONCURRENCY, async (job: Bull.Job<AutomationStepJobData>) => {
+      return this.processStepJob(job)
+    })
+  }
+
+  // Job ids are keyed by run, step and schedule time, so scheduling the same step twice adds one job
+  async scheduleStep(step: ScheduledStep): Promise<void> {
+    const runAt = step.runAt.getTime()
+    const jobId = `${step.runId}:${step.stepIndex}:${runAt}${step.recovery ? ':recovery' : ''}`
+
+    await this.queue.add(
+      {
+        runId: step.runId,
+        stepIndex: step.stepIndex,
+        runAt: step.runAt.toISOString(),
+      },
+      {
+        jobId,
+        delay: Math.max(0, runAt - Date.now()),
+      }
+    )
+  }
+
+  private async processStepJob(job: Bull.Job<AutomationStepJobData>): Promise<JobResult> {
+    const { runId, stepIndex, runAt } = job.data
+
+    await automationEngine.processAutomationRun(runId, {
+      stepIndex,
+      runAt: new Date(runAt),
+    })
+
+    return {
+      success: true,
+      data: { runId, stepIndex },
+    }
+  }
+
+  getQueue(): Bull.Queue {
+    return this.queue
+  }
+}
+
+export const automationStepService = AutomationStepService.getInstance()
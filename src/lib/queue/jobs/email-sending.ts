@@ -1,10 +1,18 @@
 import Bull from 'bull'
+import { randomUUID } from 'crypto'
 import { queueManager, JobProgress, JobResult } from '../index'
 import { supabase } from '../../supabase'
-import { resend } from '../../resend'
+import { sendEmail } from '../../resend'
+import { subscriptionService, UnsubscribeLinks } from '../../subscriptions/subscription-service'
+import { suppressionList, normalizeEmail } from '../../suppression/suppression-list'
+import { applyTracking } from '../../tracking/email-tracking'
+import { trackingService } from '../../tracking/tracking-service'
+import { buildLeadTemplateContext, renderEmailContent } from '../../templates/email-template'
 
 export interface EmailSendJobData {
   campaignId: string
+  // campaign_sends row the batch belongs to
+  sendId: string
   recipients: Array<{
     id: string
     email: string
@@ -26,6 +34,36 @@ export interface EmailSendJobData {
   userId: string
 }
 
+// Recipients that start going out at the same instant
+export interface EmailSendWave {
+  sendAt: Date
+  recipients: EmailSendJobData['recipients']
+  // Shown in send progress, e.g. the recipients' timezone
+  label?: string
+  // Override the send's template and sender for this wave, e.g. an A/B test variant
+  template?: EmailSendJobData['template']
+  sender?: EmailSendJobData['sender']
+}
+
+// Wave plan kept on campaign_sends.metadata; batches firstBatch..firstBatch + batches - 1 belong to the wave
+interface EmailSendWavePlan {
+  label: string | null
+  send_at: string
+  recipients: number
+  first_batch: number
+  batches: number
+}
+
+export interface EmailSendWaveProgress {
+  label: string | null
+  sendAt: string
+  status: 'scheduled' | 'processing' | 'completed'
+  totalRecipients: number
+  sentCount: number
+  failedCount: number
+  skippedCount: number
+}
+
 export interface EmailSendProgress extends JobProgress {
   data: {
     sent: number
@@ -97,9 +135,52 @@ export class EmailSendingService {
       name?: string
     },
     userId: string
+  ): Promise<string> {
+    return this.sendCampaignWaves(campaignId, [{ sendAt: new Date(), recipients }], template, sender, userId)
+  }
+
+  // Queue each wave as delayed batches that start at its sendAt, under a single campaign send.
+  // metadata is kept on the campaign_sends row; hold_campaign_status leaves the campaign 'sending' when it finishes
+  async sendCampaignWaves(
+    campaignId: string,
+    waves: EmailSendWave[],
+    template: EmailSendJobData['template'],
+    sender: EmailSendJobData['sender'],
+    userId: string,
+    metadata: Record<string, any> = {}
   ): Promise<string> {
     const sendId = `send_${campaignId}_${Date.now()}`
-    const batches = this.chunkArray(recipients, this.BATCH_SIZE)
+    const now = Date.now()
+
+    // Batches within a wave keep the progressive delay used for rate limiting
+    const batches: Array<{
+      recipients: EmailSendJobData['recipients']
+      template: EmailSendJobData['template']
+      sender: EmailSendJobData['sender']
+      delay: number
+    }> = []
+    const wavePlan: EmailSendWavePlan[] = []
+
+    for (const wave of waves) {
+      const waveBatches = this.chunkArray(wave.recipients, this.BATCH_SIZE)
+
+      wavePlan.push({
+        label: wave.label || null,
+        send_at: wave.sendAt.toISOString(),
+        recipients: wave.recipients.length,
+        first_batch: batches.length + 1,
+        batches: waveBatches.length,
+      })
+      waveBatches.forEach((recipients, index) => {
+        batches.push({
+          recipients,
+          template: wave.template || template,
+          sender: wave.sender || sender,
+          delay: Math.max(0, wave.sendAt.getTime() - now) + index * this.RATE_LIMIT_DELAY,
+        })
+      })
+    }
+    const totalRecipients = waves.reduce((sum, wave) => sum + wave.recipients.length, 0)
     
     // Create campaign send record
     const { error: sendError } = await supabase
@@ -108,10 +189,11 @@ export class EmailSendingService {
         id: sendId,
         campaign_id: campaignId,
         user_id: userId,
-        total_recipients: recipients.length,
+        total_recipients: totalRecipients,
         total_batches: batches.length,
         status: 'processing',
         created_at: new Date().toISOString(),
+        metadata: { ...metadata, waves: wavePlan },
       })
 
     if (sendError) {
@@ -122,9 +204,10 @@ export class EmailSendingService {
     // Create jobs for each batch with rate limiting
     const jobs = batches.map((batch, index) => ({
       campaignId,
-      recipients: batch,
-      template,
-      sender,
+      sendId,
+      recipients: batch.recipients,
+      template: batch.template,
+      sender: batch.sender,
       batchId: `${sendId}_batch_${index + 1}`,
       totalBatches: batches.length,
       currentBatch: index + 1,
@@ -138,7 +221,7 @@ export class EmailSendingService {
         data: jobData,
         opts: {
           priority: -index, // Higher priority for earlier batches
-          delay: index * this.RATE_LIMIT_DELAY, // Rate limiting delay
+          delay: batches[index].delay,
         },
       }))
     )
@@ -147,7 +230,7 @@ export class EmailSendingService {
   }
 
   private async processEmailSendBatch(job: Bull.Job<EmailSendJobData>): Promise<JobResult> {
-    const { campaignId, recipients, template, sender, batchId, totalBatches, currentBatch, userId } = job.data
+    const { campaignId, sendId, recipients, template, sender, batchId, totalBatches, currentBatch, userId } = job.data
     
     try {
       // Update progress
@@ -165,27 +248,78 @@ export class EmailSendingService {
 
       const sentEmails = []
       const failures = []
+      let skipped = 0
+
+      // Re-check opt-outs at send time: leads may unsubscribe while batches wait in the queue
+      const { data: campaign, error: campaignError } = await supabase
+        .from('campaigns')
+        .select('workspace_id, topic_id, track_opens, track_clicks')
+        .eq('id', campaignId)
+        .single()
+
+      if (campaignError || !campaign) {
+        throw new Error(`Campaign ${campaignId} not found`)
+      }
+
+      const excludedLeadIds = await subscriptionService.getExcludedLeadIds(
+        campaign.workspace_id,
+        recipients.map(recipient => recipient.id),
+        campaign.topic_id
+      )
+
+      const suppressedEmails = await suppressionList.getSuppressedEmails(
+        campaign.workspace_id,
+        recipients.map(recipient => recipient.email)
+      )
+
+      let linksRegistered = false
 
       for (let i = 0; i < recipients.length; i++) {
         const recipient = recipients[i]
+
+        if (excludedLeadIds.has(recipient.id) || suppressedEmails.has(normalizeEmail(recipient.email))) {
+          skipped++
+          continue
+        }
         
         try {
+          const links = subscriptionService.buildLinks({
+            workspaceId: campaign.workspace_id,
+            leadId: recipient.id,
+            campaignId
+          })
+
           // Personalize template
-          const personalizedTemplate = this.personalizeTemplate(template, recipient)
+          const personalizedTemplate = this.personalizeTemplate(template, recipient, links)
+
+          // The email_sends id is generated up front so tracking tokens can reference the row
+          const emailSendId = randomUUID()
+          const tracked = applyTracking(
+            subscriptionService.ensureUnsubscribeLink(personalizedTemplate.html, links),
+            { sendId: emailSendId, workspaceId: campaign.workspace_id, campaignId, leadId: recipient.id },
+            { trackOpens: campaign.track_opens !== false, trackClicks: campaign.track_clicks !== false }
+          )
+
+          if (!linksRegistered) {
+            await trackingService.registerLinks(campaignId, tracked.links)
+            linksRegistered = true
+          }
           
-          // Send email using Resend
-          const { data: emailData, error: sendError } = await resend.emails.send({
+          // Send through the workspace's email providers
+          const emailResult = await sendEmail({
             from: sender.name ? `${sender.name} <${sender.email}>` : sender.email,
-            to: recipient.email,
+            to: [recipient.email],
             subject: personalizedTemplate.subject,
-            html: personalizedTemplate.html,
+            html: tracked.html,
             text: personalizedTemplate.text,
+            unsubscribeUrl: links.one_click_url,
+            workspaceId: campaign.workspace_id,
           })
 
-          if (sendError) {
+          if (!emailResult.success) {
             failures.push({
               email: recipient.email,
-              error: sendError.message,
+              error: emailResult.error || 'Failed to send email',
             })
             continue
           }
@@ -194,10 +328,13 @@ export class EmailSendingService {
           await supabase
             .from('email_sends')
             .insert({
+              id: emailSendId,
+              workspace_id: campaign.workspace_id,
               campaign_id: campaignId,
-              recipient_id: recipient.id,
-              recipient_email: recipient.email,
-              email_id: emailData?.id,
+              lead_id: recipient.id,
+              email: recipient.email,
+              resend_id: emailResult.id,
+              provider: emailResult.provider,
               status: 'sent',
               sent_at: new Date().toISOString(),
             })
@@ -236,12 +373,12 @@ export class EmailSendingService {
           await supabase
             .from('email_sends')
             .insert({
+              workspace_id: campaign.workspace_id,
               campaign_id: campaignId,
-              recipient_id: recipient.id,
-              recipient_email: recipient.email,
+              lead_id: recipient.id,
+              email: recipient.email,
               status: 'failed',
-              error: error.message,
-              sent_at: new Date().toISOString(),
+              error_message: error.message,
             })
         }
       }
@@ -251,21 +388,25 @@ export class EmailSendingService {
         .from('campaign_send_batches')
         .upsert({
           id: batchId,
-          send_id: `send_${campaignId}_${Date.now()}`,
+          send_id: sendId,
           batch_number: currentBatch,
           total_recipients: recipients.length,
           sent_count: sentEmails.length,
           failed_count: failures.length,
+          skipped_count: skipped,
           status: 'completed',
           failures: failures.length > 0 ? failures : null,
           completed_at: new Date().toISOString(),
         })
 
+      await this.completeSendIfFinished(sendId, campaignId, totalBatches)
+
       return {
         success: true,
         data: {
           sent: sentEmails.length,
           failed: failures.length,
+          skipped,
           batchId,
           campaignId,
         },
@@ -278,7 +419,7 @@ export class EmailSendingService {
         .from('campaign_send_batches')
         .upsert({
           id: batchId,
-          send_id: `send_${campaignId}_${Date.now()}`,
+          send_id: sendId,
           batch_number: currentBatch,
           total_recipients: recipients.length,
           sent_count: 0,
@@ -288,6 +429,8 @@ export class EmailSendingService {
           completed_at: new Date().toISOString(),
         })
 
+      await this.completeSendIfFinished(sendId, campaignId, totalBatches)
+
       return {
         success: false,
         error: error.message,
@@ -295,41 +438,64 @@ export class EmailSendingService {
     }
   }
 
+  // Once every batch has finished, close the send and move the campaign from 'sending' to 'sent'
+  private async completeSendIfFinished(sendId: string, campaignId: string, totalBatches: number): Promise<void> {
+    try {
+      const { count } = await supabase
+        .from('campaign_send_batches')
+        .select('id', { count: 'exact', head: true })
+        .eq('send_id', sendId)
+        .in('status', ['completed', 'failed'])
+
+      if ((count || 0) < totalBatches) {
+        return
+      }
+
+      // Concurrent last batches may both get here; only the one that closes the send updates the campaign
+      const { data: closed } = await supabase
+        .from('campaign_sends')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', sendId)
+        .eq('status', 'processing')
+        .select('id, metadata')
+
+      if (!closed || closed.length === 0) {
+        return
+      }
+
+      // A/B test variants go out before the winner; the rollout send marks the campaign sent
+      if (closed[0].metadata?.hold_campaign_status) {
+        return
+      }
+
+      await supabase
+        .from('campaigns')
+        .update({
+          status: 'sent',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', campaignId)
+        .eq('status', 'sending')
+    } catch (error) {
+      console.error('Failed to complete campaign send:', error)
+    }
+  }
+
   private personalizeTemplate(
     template: { subject: string; html: string; text?: string },
-    recipient: { name?: string; email: string; metadata?: Record<string, any> }
+    recipient: { name?: string; email: string; metadata?: Record<string, any> },
+    links?: UnsubscribeLinks
   ): { subject: string; html: string; text?: string } {
-    const personalizedSubject = template.subject
-      .replace(/\{\{name\}\}/g, recipient.name || recipient.email)
-      .replace(/\{\{email\}\}/g, recipient.email)
-
-    const personalizedHtml = template.html
-      .replace(/\{\{name\}\}/g, recipient.name || recipient.email)
-      .replace(/\{\{email\}\}/g, recipient.email)
-
-    const personalizedText = template.text
-      ? template.text
-          .replace(/\{\{name\}\}/g, recipient.name || recipient.email)
-          .replace(/\{\{email\}\}/g, recipient.email)
-      : undefined
-
-    // Handle custom metadata
-    if (recipient.metadata) {
-      Object.entries(recipient.metadata).forEach(([key, value]) => {
-        const placeholder = new RegExp(`\\{\\{${key}\\}\\}`, 'g')
-        personalizedSubject.replace(placeholder, String(value))
-        personalizedHtml.replace(placeholder, String(value))
-        if (personalizedText) {
-          personalizedText.replace(placeholder, String(value))
-        }
-      })
-    }
+    // Signed per-send links take precedence over anything in metadata
+    const context = buildLeadTemplateContext(
+      { name: recipient.name, email: recipient.email, custom_fields: recipient.metadata },
+      links ? { unsubscribe_url: links.unsubscribe_url, preferences_url: links.preferences_url } : {}
+    )
 
-    return {
-      subject: personalizedSubject,
-      html: personalizedHtml,
-      text: personalizedText,
-    }
+    return renderEmailContent(template, context)
   }
 
   private chunkArray<T>(array: T[], size: number): T[][] {
@@ -346,13 +512,16 @@ export class EmailSendingService {
     totalRecipients: number
     sentCount: number
     failedCount: number
+    skippedCount: number
     batches: Array<{
       batchNumber: number
       status: string
       sentCount: number
       failedCount: number
+      skippedCount: number
       failures?: Array<{ email: string; error: string }>
     }>
+    waves: EmailSendWaveProgress[]
   }> {
     const { data: sendData } = await supabase
       .from('campaign_sends')
@@ -374,7 +543,8 @@ export class EmailSendingService {
 
     const totalSent = batches?.reduce((sum, batch) => sum + (batch.sent_count || 0), 0) || 0
     const totalFailed = batches?.reduce((sum, batch) => sum + (batch.failed_count || 0), 0) || 0
-    const progress = sendData.total_recipients > 0 ? Math.round(((totalSent + totalFailed) / sendData.total_recipients) * 100) : 0
+    const totalSkipped = batches?.reduce((sum, batch) => sum + (batch.skipped_count || 0), 0) || 0
+    const progress = sendData.total_recipients > 0 ? Math.round(((totalSent + totalFailed + totalSkipped) / sendData.total_recipients) * 100) : 0
 
     return {
       status: sendData.status,
@@ -382,16 +552,47 @@ export class EmailSendingService {
       totalRecipients: sendData.total_recipients,
       sentCount: totalSent,
       failedCount: totalFailed,
+      skippedCount: totalSkipped,
       batches: batches?.map(batch => ({
         batchNumber: batch.batch_number,
         status: batch.status,
         sentCount: batch.sent_count || 0,
         failedCount: batch.failed_count || 0,
+        skippedCount: batch.skipped_count || 0,
         failures: batch.failures,
       })) || [],
+      waves: this.getWaveProgress(sendData.metadata?.waves || [], batches || []),
     }
   }
 
+  // Roll batch counts up into the waves they were queued in
+  private getWaveProgress(plan: EmailSendWavePlan[], batches: any[]): EmailSendWaveProgress[] {
+    const now = Date.now()
+
+    return plan.map(wave => {
+      const lastBatch = wave.first_batch + wave.batches - 1
+      const waveBatches = batches.filter(batch => batch.batch_number >= wave.first_batch && batch.batch_number <= lastBatch)
+      const finished = waveBatches.filter(batch => batch.status === 'completed' || batch.status === 'failed').length
+
+      let status: EmailSendWaveProgress['status'] = 'scheduled'
+      if (finished >= wave.batches) {
+        status = 'completed'
+      } else if (waveBatches.length > 0 || Date.parse(wave.send_at) <= now) {
+        status = 'processing'
+      }
+
+      return {
+        label: wave.label,
+        sendAt: wave.send_at,
+        status,
+        totalRecipients: wave.recipients,
+        sentCount: waveBatches.reduce((sum, batch) => sum + (batch.sent_count || 0), 0),
+        failedCount: waveBatches.reduce((sum, batch) => sum + (batch.failed_count || 0), 0),
+        skippedCount: waveBatches.reduce((sum, batch) => sum + (batch.skipped_count || 0), 0),
+      }
+    })
+  }
+
   async cancelCampaignSend(campaignId: string): Promise<boolean> {
     try {
       // Get all jobs for this campaign
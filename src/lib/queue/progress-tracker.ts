@@ -3,7 +3,7 @@ import { supabase } from '../supabase'
 
 export interface ProgressData {
   id: string
-  type: 'leads-import' | 'email-sending' | 'campaign-processing'
+  type: 'leads-import' | 'email-sending' | 'campaign-processing' | 'automation-enrollment'
   userId: string
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: number // 0-100
@@ -27,6 +27,18 @@ export interface ProgressUpdate {
   errors?: string[]
 }
 
+export interface ProgressIncrement {
+  processedItems: number
+  failedItems: number
+  // Added to numeric metadata fields, e.g. { succeeded: 3 }
+  metadataCounters?: Record<string, number>
+  errors?: string[]
+  maxErrors?: number
+  message?: string
+  // Replaces message once every item is accounted for
+  doneMessage?: string
+}
+
 export class ProgressTracker {
   private static instance: ProgressTracker
   private readonly PROGRESS_TTL = 3600 // 1 hour
@@ -97,6 +109,45 @@ export class ProgressTracker {
     return updatedProgress
   }
 
+  // Adds a batch's results in one database statement, so parallel batches never overwrite each other's counts
+  async incrementProgress(id: string, increment: ProgressIncrement): Promise<ProgressData | null> {
+    const { data, error } = await supabase.rpc('increment_progress', {
+      p_id: id,
+      p_processed: increment.processedItems,
+      p_failed: increment.failedItems,
+      p_metadata_counters: increment.metadataCounters || {},
+      p_errors: increment.errors || [],
+      p_max_errors: increment.maxErrors ?? 50,
+      p_message: increment.message ?? null,
+      p_done_message: increment.doneMessage ?? null,
+    })
+
+    if (error) {
+      throw new Error(`Error updating progress: ${error.message}`)
+    }
+
+    const row = Array.isArray(data) ? data[0] : data
+    if (!row) {
+      return null
+    }
+
+    const updatedProgress = this.fromRow(row)
+
+    // The cached copy is now behind the row; drop it so readers fall back to the database
+    try {
+      const redis = redisManager.getClient()
+      if (redis) {
+        await redis.del(`${this.PROGRESS_KEY_PREFIX}${id}`)
+      }
+    } catch (error) {
+      console.error('Failed to clear cached progress:', error)
+    }
+
+    await this.broadcastProgress(updatedProgress)
+
+    return updatedProgress
+  }
+
   async getProgress(id: string): Promise<ProgressData | null> {
     try {
       const redis = redisManager.getClient()
@@ -130,27 +181,31 @@ export class ProgressTracker {
         return null
       }
 
-      return {
-        id: data.id,
-        type: data.type,
-        userId: data.user_id,
-        status: data.status,
-        progress: data.progress,
-        totalItems: data.total_items,
-        processedItems: data.processed_items,
-        failedItems: data.failed_items,
-        message: data.message,
-        startTime: new Date(data.start_time).getTime(),
-        endTime: data.end_time ? new Date(data.end_time).getTime() : undefined,
-        metadata: data.metadata,
-        errors: data.errors,
-      }
+      return this.fromRow(data)
     } catch (error) {
       console.error('Failed to get progress from database:', error)
       return null
     }
   }
 
+  private fromRow(row: any): ProgressData {
+    return {
+      id: row.id,
+      type: row.type,
+      userId: row.user_id,
+      status: row.status,
+      progress: row.progress,
+      totalItems: row.total_items,
+      processedItems: row.processed_items,
+      failedItems: row.failed_items,
+      message: row.message,
+      startTime: new Date(row.start_time).getTime(),
+      endTime: row.end_time ? new Date(row.end_time).getTime() : undefined,
+      metadata: row.metadata,
+      errors: row.errors,
+    }
+  }
+
   private async saveProgress(progressData: ProgressData): Promise<void> {
     try {
       const redis = redisManager.getClient()
@@ -199,21 +254,7 @@ export class ProgressTracker {
         return []
       }
 
-      return data.map(item => ({
-        id: item.id,
-        type: item.type,
-        userId: item.user_id,
-        status: item.status,
-        progress: item.progress,
-        totalItems: item.total_items,
-        processedItems: item.processed_items,
-        failedItems: item.failed_items,
-        message: item.message,
-        startTime: new Date(item.start_time).getTime(),
-        endTime: item.end_time ? new Date(item.end_time).getTime() : undefined,
-        metadata: item.metadata,
-        errors: item.errors,
-      }))
+      return data.map(item => this.fromRow(item))
     } catch (error) {
       console.error('Failed to get user progress:', error)
       return []
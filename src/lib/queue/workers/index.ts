@@ -1,6 +1,8 @@
 import { queueManager } from '../index'
 import { leadsImportService } from '../jobs/leads-import'
 import { emailSendingService } from '../jobs/email-sending'
+import { automationStepService } from '../jobs/automation-steps'
+import { automationEnrollmentService } from '../jobs/automation-enrollment'
 
 export class WorkerManager {
   private static instance: WorkerManager
@@ -37,6 +39,14 @@ export class WorkerManager {
       const emailSendingQueue = emailSendingService.getQueue()
       this.workers.set('email-sending', emailSendingQueue)
 
+      // Initialize automation step service; every worker process shares the run steps
+      const automationStepsQueue = automationStepService.getQueue()
+      this.workers.set('automation-steps', automationStepsQueue)
+
+      // Initialize bulk enrollment service; batches start and cancel runs in a flow
+      const automationEnrollmentQueue = automationEnrollmentService.getQueue()
+      this.workers.set('automation-enrollment', automationEnrollmentQueue)
+
       this.isRunning = true
       console.log('✅ All queue workers started successfully')
     } catch (error) {
@@ -1,7 +1,5 @@
-import { Resend } from 'resend'
-
-// Initialize Resend client
-export const resend = new Resend(process.env.RESEND_API_KEY)
+import { emailProviderService } from './email-providers/provider-service'
+import { EmailProviderType } from './email-providers/types'
 
 export interface SendEmailParams {
   to: string[]
@@ -11,17 +9,37 @@ export interface SendEmailParams {
   from?: string
   replyTo?: string
   tags?: { name: string; value: string }[]
+  headers?: Record<string, string>
+  // One-click unsubscribe endpoint advertised via List-Unsubscribe (RFC 8058)
+  unsubscribeUrl?: string
+  // Selects the workspace's email providers; the environment defaults are used when omitted
+  workspaceId?: string
 }
 
 export interface EmailResponse {
   id: string
   success: boolean
   error?: string
+  provider?: EmailProviderType
+}
+
+// RFC 8058 headers that let mailbox providers show a native unsubscribe button
+export function buildListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+  }
 }
 
 export async function sendEmail(params: SendEmailParams): Promise<EmailResponse> {
   try {
-    const { data, error } = await resend.emails.send({
+    const headers = {
+      ...params.headers,
+      ...(params.unsubscribeUrl ? buildListUnsubscribeHeaders(params.unsubscribeUrl) : {})
+    }
+
+    // Routed through the workspace's configured providers, failing over on throttling
+    const result = await emailProviderService.send({
       from: params.from || 'noreply@yourapp.com', // Configure this with your domain
       to: params.to,
       subject: params.subject,
@@ -29,20 +47,23 @@ export async function sendEmail(params: SendEmailParams): Promise<EmailResponse>
       text: params.text,
       replyTo: params.replyTo,
       tags: params.tags,
-    })
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+    }, params.workspaceId)
 
-    if (error) {
-      console.error('Resend error:', error)
+    if (!result.success) {
+      console.error(`Email provider error (${result.provider}):`, result.error)
       return {
         id: '',
         success: false,
-        error: error.message || 'Failed to send email'
+        error: result.error || 'Failed to send email',
+        provider: result.provider
       }
     }
 
     return {
-      id: data?.id || '',
-      success: true
+      id: result.id,
+      success: true,
+      provider: result.provider
     }
   } catch (error) {
     console.error('Unexpected error sending email:', error)
@@ -70,32 +91,6 @@ export async function sendBulkEmails(emails: SendEmailParams[]): Promise<EmailRe
   return results
 }
 
-export function replaceEmailVariables(template: string, variables: Record<string, string>): string {
-  let result = template
-
-  Object.entries(variables).forEach(([key, value]) => {
-    const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'g')
-    result = result.replace(regex, value)
-  })
-
-  return result
-}
-
-export function extractEmailVariables(template: string): string[] {
-  const regex = /{{\\s*([^}]+)\\s*}}/g
-  const variables: string[] = []
-  let match
-
-  while ((match = regex.exec(template)) !== null) {
-    const variable = match[1].trim()
-    if (!variables.includes(variable)) {
-      variables.push(variable)
-    }
-  }
-
-  return variables
-}
-
 // Webhook verification for Resend webhooks
 export function verifyWebhookSignature(
   payload: string,
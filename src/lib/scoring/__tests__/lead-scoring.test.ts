@@ -0,0 +1,131 @@
+// Testes da pontuação de leads
+
+const mockFrom = jest.fn()
+const mockRpc = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+import { getMatchingRules, getScoringRuleError, LeadScoringEngine, LeadScoringRule } from '../lead-scoring'
+
+// Chainable query builder; awaiting it resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'upsert', 'eq']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+const rule = (id: string, event_type: string, points: number, config: Record<string, any> = {}): LeadScoringRule => ({
+  id,
+  workspace_id: 'ws-1',
+  name: id,
+  event_type: event_type as LeadScoringRule['event_type'],
+  config,
+  points,
+  status: 'active',
+  created_by: null,
+  created_at: '',
+  updated_at: ''
+})
+
+describe('lead-scoring', () => {
+  it('deve validar regras antes de salvar', () => {
+    expect(getScoringRuleError({ name: 'Clique', event_type: 'email_clicked', points: 10 })).toBeNull()
+    expect(getScoringRuleError({ name: ' ', event_type: 'email_clicked', points: 10 })).toBe('Rule name is required')
+    expect(getScoringRuleError({ name: 'Zero', event_type: 'email_opened', points: 0 })).toMatch(/^Points must be/)
+    expect(getScoringRuleError({ name: 'Bounce', event_type: 'email_bounced' as any, points: -5 })).toBe('Unknown event type: email_bounced')
+    expect(getScoringRuleError({ name: 'Decaimento', event_type: 'decay', points: -5, config: { interval_days: 30 } })).toBeNull()
+    expect(getScoringRuleError({ name: 'Decaimento', event_type: 'decay', points: 5, config: { interval_days: 30 } }))
+      .toBe('Decay rules must remove points')
+    expect(getScoringRuleError({ name: 'Decaimento', event_type: 'decay', points: -5, config: {} }))
+      .toBe('Decay interval must be between 1 and 365 days')
+  })
+
+  it('deve aplicar os filtros das regras como os gatilhos', () => {
+    const rules = [
+      rule('any-click', 'email_clicked', 5),
+      rule('pricing-click', 'email_clicked', 20, { url_contains: '/precos' }),
+      rule('vip-tag', 'tag_added', 50, { tag_name: 'VIP' }),
+      rule('plan-pro', 'lead_field_changed', 30, { field: 'custom_fields.plano', to_value: 'pro' }),
+      { ...rule('paused', 'email_clicked', 100), status: 'inactive' as const },
+      rule('decay', 'decay', -5, { interval_days: 30 })
+    ]
+    const ids = (type: string, payload: Record<string, any>) =>
+      getMatchingRules(rules, { workspace_id: 'ws-1', lead_id: 'lead-1', type, payload }).map(match => match.id)
+
+    expect(ids('email_clicked', { url: 'https://exemplo.com/precos?utm=1' })).toEqual(['any-click', 'pricing-click'])
+    expect(ids('email_clicked', { url: 'https://exemplo.com/blog' })).toEqual(['any-click'])
+    expect(ids('tag_added', { tag: 'vip' })).toEqual(['vip-tag'])
+    expect(ids('lead_field_changed', { field: 'custom_fields.plano', new_value: 'free' })).toEqual([])
+    expect(ids('lead_field_changed', { field: 'custom_fields.plano', new_value: 'pro' })).toEqual(['plan-pro'])
+    // Decaimento nunca vem de um evento
+    expect(ids('decay', {})).toEqual([])
+  })
+
+  describe('LeadScoringEngine', () => {
+    beforeEach(() => {
+      mockFrom.mockReset()
+      mockRpc.mockReset()
+    })
+
+    it('deve somar apenas os pontos ainda não registrados para o evento', async () => {
+      const eventsQuery = createQuery({ data: [{ points: 5 }], error: null })
+      mockFrom
+        .mockReturnValueOnce(createQuery({ data: [rule('open', 'email_opened', 5), rule('open-c1', 'email_opened', 10, { campaign_id: 'c-1' })], error: null }))
+        .mockReturnValueOnce(eventsQuery)
+      mockRpc.mockResolvedValue({ data: 25, error: null })
+
+      const engine = new LeadScoringEngine()
+      const score = await engine.applyEvent({ id: 'evt-1', workspace_id: 'ws-1', lead_id: 'lead-1', type: 'email_opened', payload: { campaign_id: 'c-1' } })
+
+      expect(score).toBe(25)
+      expect(eventsQuery.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ rule_id: 'open', trigger_event_id: 'evt-1', points: 5 }),
+          expect.objectContaining({ rule_id: 'open-c1', trigger_event_id: 'evt-1', points: 10 })
+        ],
+        { onConflict: 'rule_id,trigger_event_id', ignoreDuplicates: true }
+      )
+      // open-c1 já tinha sido registrado numa tentativa anterior
+      expect(mockRpc).toHaveBeenCalledWith('increment_lead_score', { p_lead_id: 'lead-1', p_amount: 5 })
+    })
+
+    it('deve ignorar eventos sem regras correspondentes', async () => {
+      mockFrom.mockReturnValueOnce(createQuery({ data: [rule('vip', 'tag_added', 50, { tag_name: 'vip' })], error: null }))
+
+      const engine = new LeadScoringEngine()
+
+      expect(await engine.applyEvent({ workspace_id: 'ws-1', lead_id: 'lead-1', type: 'tag_added', payload: { tag: 'frio' } })).toBeNull()
+      expect(await engine.applyEvent({ workspace_id: 'ws-1', lead_id: 'lead-1', type: 'email_bounced', payload: {} })).toBeNull()
+      expect(mockFrom).toHaveBeenCalledTimes(1)
+      expect(mockRpc).not.toHaveBeenCalled()
+    })
+
+    it('deve aplicar o decaimento de cada workspace e seguir após falhas', async () => {
+      mockFrom.mockReturnValueOnce(createQuery({
+        data: [
+          { id: 'd-1', workspace_id: 'ws-1', points: -5, config: { interval_days: 30 } },
+          { id: 'd-2', workspace_id: 'ws-2', points: -10, config: { interval_days: 7 } },
+          { id: 'd-3', workspace_id: 'ws-3', points: -1, config: { interval_days: 1 } }
+        ],
+        error: null
+      }))
+      mockRpc
+        .mockResolvedValueOnce({ data: 12, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'timeout' } })
+        .mockResolvedValueOnce({ data: 3, error: null })
+
+      const engine = new LeadScoringEngine()
+
+      expect(await engine.applyDecay()).toBe(15)
+      expect(mockRpc).toHaveBeenCalledWith('decay_lead_scores', { p_workspace_id: 'ws-2', p_points: -10, p_interval_days: 7 })
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { supabaseAdmin } from '../supabase'
+import { logger } from '../logger'
+import { AutomationTriggerType, matchesTriggerConfig } from '../automation/triggers'
+
+// Lead events a rule can score; they reach the scoring engine through the automation trigger outbox
+export const SCORING_EVENT_TYPES = [
+  'email_opened',
+  'email_clicked',
+  'form_submitted',
+  'tag_added',
+  'tag_removed',
+  'lead_field_changed'
+] as const
+
+export type ScoringEventType = typeof SCORING_EVENT_TYPES[number]
+export type ScoringRuleType = ScoringEventType | 'decay'
+export type ScoringRuleStatus = 'active' | 'inactive'
+
+export interface LeadScoringRule {
+  id: string
+  workspace_id: string
+  name: string
+  event_type: ScoringRuleType
+  // Trigger-style filters (tag_name, field/to_value, campaign_id, url_contains, form_id); decay rules hold interval_days
+  config: Record<string, any>
+  points: number
+  status: ScoringRuleStatus
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NewLeadScoringRule {
+  name: string
+  event_type: ScoringRuleType
+  config?: Record<string, any>
+  points: number
+  status?: ScoringRuleStatus
+}
+
+export interface ScoringEvent {
+  // automation_trigger_events row id; lets a retried event skip rules it already scored
+  id?: string
+  workspace_id: string
+  lead_id: string
+  type: string
+  payload?: Record<string, any>
+}
+
+export const MAX_RULE_POINTS = 1000
+export const MAX_DECAY_INTERVAL_DAYS = 365
+
+export function isScoringEventType(type: string): type is ScoringEventType {
+  return (SCORING_EVENT_TYPES as readonly string[]).includes(type)
+}
+
+// First problem with a rule, or null when it can be saved
+export function getScoringRuleError(rule: NewLeadScoringRule): string | null {
+  if (!rule.name || !rule.name.trim()) {
+    return 'Rule name is required'
+  }
+
+  if (rule.event_type !== 'decay' && !isScoringEventType(rule.event_type)) {
+    return `Unknown event type: ${rule.event_type}`
+  }
+
+  if (!Number.isInteger(rule.points) || rule.points === 0 || Math.abs(rule.points) > MAX_RULE_POINTS) {
+    return `Points must be a whole number between -${MAX_RULE_POINTS} and ${MAX_RULE_POINTS}, other than zero`
+  }
+
+  if (rule.event_type === 'decay') {
+    const interval = rule.config?.interval_days
+    if (!Number.isInteger(interval) || interval < 1 || interval > MAX_DECAY_INTERVAL_DAYS) {
+      return `Decay interval must be between 1 and ${MAX_DECAY_INTERVAL_DAYS} days`
+    }
+    if (rule.points > 0) {
+      return 'Decay rules must remove points'
+    }
+  }
+
+  return null
+}
+
+// Active rules of the event's type whose filters accept the event payload
+export function getMatchingRules(rules: LeadScoringRule[], event: ScoringEvent): LeadScoringRule[] {
+  if (!isScoringEventType(event.type)) {
+    return []
+  }
+
+  return rules.filter(rule =>
+    rule.status === 'active' &&
+    rule.event_type === event.type &&
+    matchesTriggerConfig(event.type as AutomationTriggerType, rule.config, event.payload || {})
+  )
+}
+
+// Scores are updated incrementally: each event adds the points of the rules it matches,
+// and the cron applies decay to leads whose score has been idle for too long
+export class LeadScoringEngine {
+  // Events are scored from webhooks and cron jobs without a user session
+  private supabase = supabaseAdmin
+
+  // Returns the lead's new score, or null when no rule gave it points
+  async applyEvent(event: ScoringEvent): Promise<number | null> {
+    if (!isScoringEventType(event.type)) {
+      return null
+    }
+
+    const { data: rules, error } = await this.supabase
+      .from('lead_scoring_rules')
+      .select('*')
+      .eq('workspace_id', event.workspace_id)
+      .eq('event_type', event.type)
+      .eq('status', 'active')
+
+    if (error) {
+      throw new Error(`Error loading scoring rules: ${error.message}`)
+    }
+
+    const matching = getMatchingRules(rules || [], event)
+    if (matching.length === 0) {
+      return null
+    }
+
+    // Rows this event already recorded on an earlier attempt don't come back
+    const { data: recorded, error: recordError } = await this.supabase
+      .from('lead_score_events')
+      .upsert(
+        matching.map(rule => ({
+          workspace_id: event.workspace_id,
+          lead_id: event.lead_id,
+          rule_id: rule.id,
+          trigger_event_id: event.id || null,
+          event_type: event.type,
+          points: rule.points
+        })),
+        { onConflict: 'rule_id,trigger_event_id', ignoreDuplicates: true }
+      )
+      .select('points')
+
+    if (recordError) {
+      throw new Error(`Error recording score events: ${recordError.message}`)
+    }
+
+    const points = (recorded || []).reduce((sum: number, row: { points: number }) => sum + row.points, 0)
+    if (points === 0) {
+      return null
+    }
+
+    const { data: score, error: scoreError } = await this.supabase.rpc('increment_lead_score', {
+      p_lead_id: event.lead_id,
+      p_amount: points
+    })
+
+    if (scoreError) {
+      throw new Error(`Error updating lead score: ${scoreError.message}`)
+    }
+
+    return score
+  }
+
+  // Run every active decay rule; returns how many leads lost points
+  async applyDecay(): Promise<number> {
+    const { data: rules, error } = await this.supabase
+      .from('lead_scoring_rules')
+      .select('id, workspace_id, points, config')
+      .eq('event_type', 'decay')
+      .eq('status', 'active')
+
+    if (error) {
+      throw new Error(`Error loading decay rules: ${error.message}`)
+    }
+
+    let decayed = 0
+
+    for (const rule of rules || []) {
+      const { data, error: decayError } = await this.supabase.rpc('decay_lead_scores', {
+        p_workspace_id: rule.workspace_id,
+        p_points: rule.points,
+        p_interval_days: rule.config?.interval_days
+      })
+
+      if (decayError) {
+        logger.error('Error applying score decay', { metadata: { rule_id: rule.id } }, new Error(decayError.message))
+        continue
+      }
+
+      decayed += data || 0
+    }
+
+    return decayed
+  }
+}
+
+export const leadScoringEngine = new LeadScoringEngine()
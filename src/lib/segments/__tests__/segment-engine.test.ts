@@ -0,0 +1,218 @@
+// Testes do compilador de segmentos (condições -> filtros PostgREST)
+
+const mockFrom = jest.fn()
+
+// The session client has no cookies in jobs; the engine must never reach for it
+jest.mock('../../supabase', () => ({
+  createSupabaseServerClient: jest.fn(() => {
+    throw new Error('cookies() called outside a request')
+  }),
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { SegmentEngine } from '../segment-engine'
+
+// Chainable query builder; awaiting it (or single) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'eq', 'not', 'or', 'gt', 'in', 'order', 'limit', 'range']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+describe('SegmentEngine', () => {
+  const engine = new SegmentEngine()
+
+  describe('normalizeDefinition', () => {
+    it('deve aceitar o formato legado vazio', () => {
+      expect(engine.normalizeDefinition({})).toEqual({ operator: 'and', conditions: [] })
+      expect(engine.normalizeDefinition(null)).toEqual({ operator: 'and', conditions: [] })
+    })
+
+    it('deve envolver uma condição isolada', () => {
+      const condition = { id: '1', type: 'simple', field: 'status', comparison: 'equals', value: 'active' }
+      expect(engine.normalizeDefinition(condition)).toEqual({ operator: 'and', conditions: [condition] })
+    })
+  })
+
+  describe('validateDefinition', () => {
+    it('deve rejeitar campos desconhecidos', () => {
+      const errors = engine.validateDefinition({
+        operator: 'and',
+        conditions: [{ id: '1', type: 'simple', field: 'password', comparison: 'equals', value: 'x' }]
+      })
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toContain('password')
+    })
+
+    it('deve aceitar campos customizados e o prefixo lead.', () => {
+      const errors = engine.validateDefinition({
+        operator: 'and',
+        conditions: [
+          { id: '1', type: 'simple', field: 'lead.source', comparison: 'equals', value: 'website' },
+          { id: '2', type: 'simple', field: 'custom_fields.plan', comparison: 'equals', value: 'pro' }
+        ]
+      })
+
+      expect(errors).toEqual([])
+    })
+  })
+
+  describe('compileFilter', () => {
+    it('deve retornar null quando não há condições', () => {
+      expect(engine.compileFilter({ operator: 'and', conditions: [] })).toBeNull()
+    })
+
+    it('deve compilar comparações simples', () => {
+      const filter = engine.compileFilter({
+        operator: 'and',
+        conditions: [
+          { id: '1', type: 'simple', field: 'source', comparison: 'equals', value: 'website', case_sensitive: true },
+          { id: '2', type: 'simple', field: 'score', comparison: 'greater_than', value: 50 }
+        ]
+      })
+
+      expect(filter).toBe('and(source.eq.website,score.gt.50)')
+    })
+
+    it('deve compilar grupos aninhados e tags', () => {
+      const filter = engine.compileFilter({
+        operator: 'and',
+        conditions: [
+          { id: '1', type: 'simple', field: 'tags', comparison: 'contains', value: 'customer' },
+          {
+            id: '2',
+            type: 'group',
+            operator: 'or',
+            conditions: [
+              { id: '2a', type: 'simple', field: 'status', comparison: 'equals', value: 'active', case_sensitive: true },
+              { id: '2b', type: 'simple', field: 'company', comparison: 'is_empty' }
+            ]
+          }
+        ]
+      })
+
+      expect(filter).toContain('tags.cs.{"customer"}')
+      expect(filter).toContain('or(status.eq.active,')
+    })
+
+    it('deve usar o operador JSON para campos customizados', () => {
+      const filter = engine.compileFilter({
+        operator: 'and',
+        conditions: [
+          { id: '1', type: 'simple', field: 'custom_fields.plan', comparison: 'equals', value: 'pro', case_sensitive: true }
+        ]
+      })
+
+      expect(filter).toBe('and(custom_fields->>plan.eq.pro)')
+    })
+
+    it('deve escapar valores com caracteres reservados', () => {
+      const filter = engine.compileFilter({
+        operator: 'and',
+        conditions: [
+          { id: '1', type: 'simple', field: 'company', comparison: 'equals', value: 'Acme, Inc.', case_sensitive: true }
+        ]
+      })
+
+      expect(filter).toBe('and(company.eq."Acme, Inc.")')
+    })
+
+    it('deve lançar erro para definições inválidas', () => {
+      expect(() => engine.compileFilter({
+        operator: 'and',
+        conditions: [{ id: '1', type: 'simple', field: 'nope', comparison: 'equals', value: 'x' }]
+      })).toThrow('Invalid segment definition')
+    })
+  })
+
+  describe('resolveSegmentRecipients', () => {
+    it('deve ler o segmento e os leads fora de uma sessão, paginando pelo id', async () => {
+      const firstPage = Array.from({ length: 1000 }, (_, i) => ({ id: `lead-${String(i).padStart(4, '0')}` }))
+      const segmentQuery = createQuery({ data: { id: 'seg-1', conditions: { operator: 'and', conditions: [] } }, error: null })
+      const firstQuery = createQuery({ data: firstPage, error: null })
+      const secondQuery = createQuery({ data: [{ id: 'lead-1000' }], error: null })
+      mockFrom
+        .mockReturnValueOnce(segmentQuery)
+        .mockReturnValueOnce(firstQuery)
+        .mockReturnValueOnce(secondQuery)
+
+      const recipients = await engine.resolveSegmentRecipients('ws-1', 'seg-1')
+
+      expect(recipients).toHaveLength(1001)
+      expect(segmentQuery.eq).toHaveBeenCalledWith('workspace_id', 'ws-1')
+      expect(firstQuery.eq).toHaveBeenCalledWith('workspace_id', 'ws-1')
+      expect(firstQuery.select.mock.calls[0][0]).not.toContain('*')
+      expect(firstQuery.gt).not.toHaveBeenCalled()
+      expect(secondQuery.gt).toHaveBeenCalledWith('id', 'lead-0999')
+    })
+  })
+
+  describe('iterateSegmentRecipients', () => {
+    it('deve entregar uma página por vez e remover os leads excluídos sem colocá-los na URL', async () => {
+      const firstPage = Array.from({ length: 1000 }, (_, i) => ({ id: `lead-${String(i).padStart(4, '0')}` }))
+      const firstQuery = createQuery({ data: firstPage, error: null })
+      const secondQuery = createQuery({ data: [{ id: 'lead-1000' }, { id: 'lead-1001' }], error: null })
+      mockFrom
+        .mockReturnValueOnce(firstQuery)
+        .mockReturnValueOnce(secondQuery)
+
+      const pages: string[][] = []
+      for await (const page of engine.iterateSegmentRecipients('ws-1', null, { excludeLeadIds: ['lead-0001', 'lead-1001'] })) {
+        pages.push(page.map(lead => lead.id))
+      }
+
+      expect(pages).toHaveLength(2)
+      expect(pages[0]).toHaveLength(999)
+      expect(pages[0]).not.toContain('lead-0001')
+      expect(pages[1]).toEqual(['lead-1000'])
+      expect(firstQuery.not).not.toHaveBeenCalled()
+      expect(secondQuery.gt).toHaveBeenCalledWith('id', 'lead-0999')
+    })
+  })
+
+  describe('countLeads', () => {
+    it('deve descontar os leads excluídos consultando os ids em blocos', async () => {
+      const excludeLeadIds = Array.from({ length: 250 }, (_, i) => `lead-${i}`)
+      const totalQuery = createQuery({ data: null, error: null })
+      totalQuery.then = (resolve: any) => Promise.resolve({ count: 1000, error: null }).then(resolve)
+      const firstChunk = createQuery({ data: null, error: null })
+      firstChunk.then = (resolve: any) => Promise.resolve({ count: 150, error: null }).then(resolve)
+      const secondChunk = createQuery({ data: null, error: null })
+      secondChunk.then = (resolve: any) => Promise.resolve({ count: 20, error: null }).then(resolve)
+      mockFrom
+        .mockReturnValueOnce(totalQuery)
+        .mockReturnValueOnce(firstChunk)
+        .mockReturnValueOnce(secondChunk)
+
+      const count = await engine.countLeads('ws-1', null, { excludeLeadIds })
+
+      expect(count).toBe(830)
+      expect(firstChunk.in).toHaveBeenCalledWith('id', excludeLeadIds.slice(0, 200))
+      expect(secondChunk.in).toHaveBeenCalledWith('id', excludeLeadIds.slice(200))
+      expect(totalQuery.not).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('previewLeads', () => {
+    it('deve ler a próxima página quando os excluídos deixam a amostra incompleta', async () => {
+      const firstQuery = createQuery({ data: [{ id: 'a' }, { id: 'b' }], error: null })
+      const secondQuery = createQuery({ data: [{ id: 'c' }], error: null })
+      mockFrom
+        .mockReturnValueOnce(firstQuery)
+        .mockReturnValueOnce(secondQuery)
+
+      const leads = await engine.previewLeads('ws-1', null, 2, { excludeLeadIds: ['a'] })
+
+      expect(leads.map(lead => lead.id)).toEqual(['b', 'c'])
+      expect(firstQuery.range).toHaveBeenCalledWith(0, 1)
+      expect(secondQuery.range).toHaveBeenCalledWith(2, 3)
+    })
+  })
+})
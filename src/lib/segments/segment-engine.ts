@@ -0,0 +1,482 @@
+import { supabaseAdmin } from '../supabase'
+import { AdvancedCondition } from '../automation/advanced-conditions'
+
+// Segment definitions are stored in lead_segments.conditions and reuse the
+// AdvancedCondition tree used by automation branching
+export interface SegmentDefinition {
+  operator: 'and' | 'or'
+  conditions: AdvancedCondition[]
+}
+
+export interface SegmentQueryOptions {
+  // Restrict to leads that can receive email (status = active)
+  sendableOnly?: boolean
+  // Lead ids that must be left out of the result (e.g. already assigned). Applied to each page rather than sent in
+  // the query, so the request URL stays the same size however many ids are excluded
+  excludeLeadIds?: string[]
+}
+
+// A leads row as returned to previews and samples; only the id is relied on here
+export type SegmentLead = { id: string } & Record<string, unknown>
+
+// One row of RECIPIENT_COLUMNS
+export interface SegmentRecipient {
+  id: string
+  email: string
+  name: string | null
+  phone: string | null
+  company: string | null
+  position: string | null
+  status: string
+  custom_fields: Record<string, unknown> | null
+  timezone: string | null
+  detected_timezone: string | null
+}
+
+type SegmentFieldType = 'string' | 'array' | 'date' | 'number' | 'json'
+
+interface ResolvedField {
+  column: string
+  type: SegmentFieldType
+}
+
+// Lead columns that can be used in a segment, keyed by the AdvancedCondition field name
+export const SEGMENT_FIELDS: Record<string, SegmentFieldType> = {
+  email: 'string',
+  name: 'string',
+  phone: 'string',
+  company: 'string',
+  position: 'string',
+  source: 'string',
+  status: 'string',
+  tags: 'array',
+  score: 'number',
+  created_at: 'date',
+  updated_at: 'date',
+  last_activity_at: 'date',
+  last_opened_at: 'date',
+  last_clicked_at: 'date',
+  unsubscribed_at: 'date',
+  bounced_at: 'date',
+}
+
+const RECIPIENTS_PAGE_SIZE = 1000
+// What senders need to address, personalize and schedule an email; full rows for millions of leads don't fit in memory
+const RECIPIENT_COLUMNS = 'id, email, name, phone, company, position, status, custom_fields, timezone, detected_timezone'
+// Excluded ids looked up per `in` filter when counting
+const EXCLUDED_ID_CHUNK_SIZE = 200
+const CUSTOM_FIELD_PATTERN = /^[A-Za-z0-9_-]+$/
+
+export class SegmentEngine {
+  // Runs from cron jobs and queue workers without a user session; every query is scoped by workspace_id
+  private supabase = supabaseAdmin
+
+  // Accept both the legacy `{}`/array shapes and the `{ operator, conditions }` shape
+  normalizeDefinition(raw: unknown): SegmentDefinition {
+    if (!raw || typeof raw !== 'object') {
+      return { operator: 'and', conditions: [] }
+    }
+
+    if (Array.isArray(raw)) {
+      return { operator: 'and', conditions: raw }
+    }
+
+    if ('type' in raw && (raw.type === 'group' || raw.type === 'simple')) {
+      return { operator: 'and', conditions: [raw as AdvancedCondition] }
+    }
+
+    return {
+      operator: 'operator' in raw && raw.operator === 'or' ? 'or' : 'and',
+      conditions: 'conditions' in raw && Array.isArray(raw.conditions) ? raw.conditions : []
+    }
+  }
+
+  // Returns a list of human readable problems; empty when the definition can be compiled
+  validateDefinition(definition: SegmentDefinition): string[] {
+    const errors: string[] = []
+
+    const visit = (condition: AdvancedCondition, path: string) => {
+      if (condition.type === 'group') {
+        if (condition.operator && condition.operator !== 'and' && condition.operator !== 'or') {
+          errors.push(`${path}: invalid group operator "${condition.operator}"`)
+        }
+        ;(condition.conditions || []).forEach((child, index) => visit(child, `${path}.conditions[${index}]`))
+        return
+      }
+
+      if (condition.type !== 'simple') {
+        errors.push(`${path}: unknown condition type "${condition.type}"`)
+        return
+      }
+
+      if (!condition.field) {
+        errors.push(`${path}: field is required`)
+      } else if (!this.resolveField(condition.field)) {
+        errors.push(`${path}: field "${condition.field}" cannot be used in a segment`)
+      }
+
+      if (!condition.comparison) {
+        errors.push(`${path}: comparison is required`)
+      }
+    }
+
+    definition.conditions.forEach((condition, index) => visit(condition, `conditions[${index}]`))
+
+    return errors
+  }
+
+  // Compile the definition into a PostgREST logic tree usable with `.or()`
+  compileFilter(definition: SegmentDefinition): string | null {
+    const errors = this.validateDefinition(definition)
+    if (errors.length > 0) {
+      throw new Error(`Invalid segment definition: ${errors.join('; ')}`)
+    }
+
+    const parts = definition.conditions
+      .map(condition => this.compileCondition(condition))
+      .filter((part): part is string => part !== null)
+
+    if (parts.length === 0) {
+      return null
+    }
+
+    return `${definition.operator}(${parts.join(',')})`
+  }
+
+  // Select leads with the workspace scope, sendable filter and segment conditions applied
+  private queryLeads(columns: string, workspaceId: string, definition: SegmentDefinition | null, options: SegmentQueryOptions = {}, selectOptions?: { count: 'exact'; head: boolean }) {
+    const { sendableOnly = true } = options
+
+    let scoped = this.supabase.from('leads').select(columns, selectOptions).eq('workspace_id', workspaceId)
+
+    if (sendableOnly) {
+      scoped = scoped.eq('status', 'active')
+    }
+
+    const filter = definition ? this.compileFilter(definition) : null
+    if (filter) {
+      scoped = scoped.or(filter)
+    }
+
+    return scoped
+  }
+
+  // Load a persisted segment definition
+  async loadSegment(workspaceId: string, segmentId: string): Promise<SegmentDefinition> {
+    const { data: segment, error } = await this.supabase
+      .from('lead_segments')
+      .select('id, conditions')
+      .eq('id', segmentId)
+      .eq('workspace_id', workspaceId)
+      .single()
+
+    if (error || !segment) {
+      throw new Error(`Segment not found: ${segmentId}`)
+    }
+
+    return this.normalizeDefinition(segment.conditions)
+  }
+
+  // Count leads matching the definition
+  async countLeads(workspaceId: string, definition: SegmentDefinition | null, options: SegmentQueryOptions = {}): Promise<number> {
+    const query = this.queryLeads('id', workspaceId, definition, options, { count: 'exact', head: true })
+
+    const { count, error } = await query
+
+    if (error) {
+      throw new Error(`Error counting segment leads: ${error.message}`)
+    }
+
+    // Subtract the excluded leads that match, a chunk of ids at a time
+    const excludeLeadIds = Array.from(new Set(options.excludeLeadIds || []))
+    let excluded = 0
+
+    for (let i = 0; i < excludeLeadIds.length; i += EXCLUDED_ID_CHUNK_SIZE) {
+      const chunk = excludeLeadIds.slice(i, i + EXCLUDED_ID_CHUNK_SIZE)
+      const { count: chunkCount, error: chunkError } = await this.queryLeads('id', workspaceId, definition, options, { count: 'exact', head: true }).in('id', chunk)
+
+      if (chunkError) {
+        throw new Error(`Error counting segment leads: ${chunkError.message}`)
+      }
+
+      excluded += chunkCount || 0
+    }
+
+    return Math.max((count || 0) - excluded, 0)
+  }
+
+  // Return a small sample of matching leads for previews
+  async previewLeads(workspaceId: string, definition: SegmentDefinition | null, limit: number = 10, options: SegmentQueryOptions = {}): Promise<SegmentLead[]> {
+    return this.loadNewest('id, email, name, company, source, status, tags, score, created_at', workspaceId, definition, limit, options, 'previewing')
+  }
+
+  // Full lead rows for a sample of the segment, e.g. to simulate an automation
+  async sampleLeads(workspaceId: string, definition: SegmentDefinition | null, limit: number = 10, options: SegmentQueryOptions = {}): Promise<SegmentLead[]> {
+    return this.loadNewest('*', workspaceId, definition, limit, options, 'sampling')
+  }
+
+  // Yield matching leads a page at a time, paging by id so deep pages stay as cheap as the first
+  async *iterateRecipients(workspaceId: string, definition: SegmentDefinition | null, options: SegmentQueryOptions = {}): AsyncGenerator<SegmentRecipient[]> {
+    const excluded = new Set(options.excludeLeadIds || [])
+    let lastId: string | null = null
+
+    while (true) {
+      let query = this.queryLeads(RECIPIENT_COLUMNS, workspaceId, definition, options)
+
+      if (lastId) {
+        query = query.gt('id', lastId)
+      }
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .limit(RECIPIENTS_PAGE_SIZE)
+
+      if (error) {
+        throw new Error(`Error resolving segment recipients: ${error.message}`)
+      }
+
+      const rows = (data || []) as unknown as SegmentRecipient[]
+      const page = excluded.size > 0 ? rows.filter(lead => !excluded.has(lead.id)) : rows
+
+      if (page.length > 0) {
+        yield page
+      }
+
+      if (rows.length < RECIPIENTS_PAGE_SIZE) {
+        break
+      }
+
+      lastId = rows[rows.length - 1].id
+    }
+  }
+
+  // Pages of recipients for an optional persisted segment
+  async *iterateSegmentRecipients(workspaceId: string, segmentId?: string | null, options: SegmentQueryOptions = {}): AsyncGenerator<SegmentRecipient[]> {
+    const definition = segmentId ? await this.loadSegment(workspaceId, segmentId) : null
+    yield* this.iterateRecipients(workspaceId, definition, options)
+  }
+
+  // Every matching lead at once, for senders that queue the whole audience in one go
+  async resolveRecipients(workspaceId: string, definition: SegmentDefinition | null, options: SegmentQueryOptions = {}): Promise<SegmentRecipient[]> {
+    const recipients: SegmentRecipient[] = []
+
+    for await (const page of this.iterateRecipients(workspaceId, definition, options)) {
+      recipients.push(...page)
+    }
+
+    return recipients
+  }
+
+  // Resolve recipients for an optional persisted segment
+  async resolveSegmentRecipients(workspaceId: string, segmentId?: string | null, options: SegmentQueryOptions = {}): Promise<SegmentRecipient[]> {
+    const definition = segmentId ? await this.loadSegment(workspaceId, segmentId) : null
+    return this.resolveRecipients(workspaceId, definition, options)
+  }
+
+  // Recompute and store lead_segments.lead_count
+  async refreshSegmentCount(workspaceId: string, segmentId: string): Promise<number> {
+    const definition = await this.loadSegment(workspaceId, segmentId)
+    const count = await this.countLeads(workspaceId, definition, { sendableOnly: false })
+
+    await this.supabase
+      .from('lead_segments')
+      .update({
+        lead_count: count,
+        last_evaluated_at: new Date().toISOString()
+      })
+      .eq('id', segmentId)
+      .eq('workspace_id', workspaceId)
+
+    return count
+  }
+
+  // The newest `limit` matching leads. Excluded leads are dropped from each page, so another page is read until
+  // enough are left
+  private async loadNewest(columns: string, workspaceId: string, definition: SegmentDefinition | null, limit: number, options: SegmentQueryOptions, action: string): Promise<SegmentLead[]> {
+    const excluded = new Set(options.excludeLeadIds || [])
+    const leads: SegmentLead[] = []
+
+    for (let offset = 0; leads.length < limit; offset += limit) {
+      const { data, error } = await this.queryLeads(columns, workspaceId, definition, options)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (error) {
+        throw new Error(`Error ${action} segment leads: ${error.message}`)
+      }
+
+      const rows = (data || []) as unknown as SegmentLead[]
+      leads.push(...rows.filter(lead => !excluded.has(lead.id)))
+
+      if (rows.length < limit) {
+        break
+      }
+    }
+
+    return leads.slice(0, limit)
+  }
+
+  private compileCondition(condition: AdvancedCondition): string | null {
+    if (condition.type === 'group') {
+      const children = (condition.conditions || [])
+        .map(child => this.compileCondition(child))
+        .filter((part): part is string => part !== null)
+
+      if (children.length === 0) return null
+
+      return `${condition.operator === 'or' ? 'or' : 'and'}(${children.join(',')})`
+    }
+
+    const field = this.resolveField(condition.field!)!
+    return this.compileSimpleCondition(field, condition)
+  }
+
+  private compileSimpleCondition(field: ResolvedField, condition: AdvancedCondition): string {
+    const { comparison, case_sensitive = false } = condition
+    const value = this.resolveValue(condition.value)
+
+    if (field.type === 'array') {
+      return this.compileArrayCondition(field.column, comparison!, value)
+    }
+
+    const column = field.column
+
+    switch (comparison) {
+      case 'equals':
+        return this.compileEquals(column, value, case_sensitive)
+
+      case 'not_equals':
+        return `or(${column}.is.null,${this.compileEquals(column, value, case_sensitive, true)})`
+
+      case 'contains':
+        return `${column}.${case_sensitive ? 'like' : 'ilike'}.${this.quote(`*${this.escapeLike(String(value))}*`)}`
+
+      case 'not_contains':
+        return `or(${column}.is.null,${column}.not.${case_sensitive ? 'like' : 'ilike'}.${this.quote(`*${this.escapeLike(String(value))}*`)})`
+
+      case 'greater_than':
+        return `${this.comparableColumn(field, value)}.gt.${this.quote(String(value))}`
+
+      case 'less_than':
+        return `${this.comparableColumn(field, value)}.lt.${this.quote(String(value))}`
+
+      case 'is_empty':
+        return field.type === 'string' || field.type === 'json'
+          ? `or(${column}.is.null,${column}.eq."")`
+          : `${column}.is.null`
+
+      case 'is_not_empty':
+        return field.type === 'string' || field.type === 'json'
+          ? `and(${column}.not.is.null,${column}.neq."")`
+          : `${column}.not.is.null`
+
+      case 'in':
+        return `${column}.in.(${this.toList(value).map(v => this.quote(String(v))).join(',')})`
+
+      case 'not_in':
+        return `or(${column}.is.null,${column}.not.in.(${this.toList(value).map(v => this.quote(String(v))).join(',')}))`
+
+      default:
+        throw new Error(`Unsupported segment comparison: ${comparison}`)
+    }
+  }
+
+  private compileArrayCondition(column: string, comparison: string, value: unknown): string {
+    const values = this.toList(value)
+    const literal = `{${values.map(v => this.quoteArrayItem(String(v))).join(',')}}`
+
+    switch (comparison) {
+      case 'equals':
+      case 'contains':
+        return `${column}.cs.${literal}`
+
+      case 'not_equals':
+      case 'not_contains':
+        return `or(${column}.is.null,${column}.not.cs.${literal})`
+
+      case 'in':
+        return `${column}.ov.${literal}`
+
+      case 'not_in':
+        return `or(${column}.is.null,${column}.not.ov.${literal})`
+
+      case 'is_empty':
+        return `or(${column}.is.null,${column}.eq.{})`
+
+      case 'is_not_empty':
+        return `and(${column}.not.is.null,${column}.neq.{})`
+
+      default:
+        throw new Error(`Comparison "${comparison}" is not supported for list fields`)
+    }
+  }
+
+  private compileEquals(column: string, value: unknown, caseSensitive: boolean, negate: boolean = false): string {
+    const prefix = negate ? `${column}.not` : column
+
+    if (value === null || value === undefined) {
+      return `${prefix}.is.null`
+    }
+
+    if (caseSensitive || typeof value !== 'string') {
+      return `${prefix}.eq.${this.quote(String(value))}`
+    }
+
+    return `${prefix}.ilike.${this.quote(this.escapeLike(value))}`
+  }
+
+  // Numeric comparisons on custom fields use the jsonb operator so values compare as numbers
+  private comparableColumn(field: ResolvedField, value: unknown): string {
+    if (field.type === 'json' && typeof value === 'number') {
+      return field.column.replace('->>', '->')
+    }
+    return field.column
+  }
+
+  private resolveField(field: string): ResolvedField | null {
+    const name = field.startsWith('lead.') ? field.slice('lead.'.length) : field
+
+    if (name.startsWith('custom_fields.')) {
+      const key = name.slice('custom_fields.'.length)
+      if (!CUSTOM_FIELD_PATTERN.test(key)) return null
+      return { column: `custom_fields->>${key}`, type: 'json' }
+    }
+
+    const type = SEGMENT_FIELDS[name]
+    return type ? { column: name, type } : null
+  }
+
+  // Relative dates are stored as { days_ago: N } so segments stay current
+  private resolveValue(value: unknown): unknown {
+    if (value && typeof value === 'object' && 'days_ago' in value && typeof value.days_ago === 'number') {
+      return new Date(Date.now() - value.days_ago * 24 * 60 * 60 * 1000).toISOString()
+    }
+    return value
+  }
+
+  private toList(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value
+    if (typeof value === 'string' && value.includes(',')) {
+      return value.split(',').map(v => v.trim()).filter(Boolean)
+    }
+    return [value]
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[%_\\]/g, match => `\\${match}`)
+  }
+
+  // PostgREST needs reserved characters inside logic trees to be double quoted
+  private quote(value: string): string {
+    if (/^[A-Za-z0-9_\-@+*]+$/.test(value)) {
+      return value
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  }
+
+  private quoteArrayItem(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+  }
+}
+
+export const segmentEngine = new SegmentEngine()
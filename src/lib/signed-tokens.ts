@@ -0,0 +1,36 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// URL-safe `<base64url JSON>.<HMAC-SHA256>` tokens; each caller brings its own secret
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+export function createSignedToken(payload: object, secret: string): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+// Returns null for malformed or tampered tokens; callers still check the decoded fields
+export function verifySignedToken<T>(token: string, secret: string): T | null {
+  if (!token || typeof token !== 'string') {
+    return null
+  }
+
+  const [data, signature, ...rest] = token.split('.')
+  if (!data || !signature || rest.length > 0) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(data, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  try {
+    return JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as T
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,58 @@
+// Testes do descadastro global de leads
+
+const mockFrom = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { SubscriptionService } from '../subscription-service'
+
+// Chainable query builder; awaiting it (or single) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {}
+  for (const method of ['select', 'update', 'insert', 'eq']) {
+    query[method] = jest.fn(() => query)
+  }
+  query.single = jest.fn(() => Promise.resolve(result))
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  return query
+}
+
+const payload = { workspaceId: 'ws-1', leadId: 'lead-1' }
+
+describe('SubscriptionService.unsubscribe', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+  })
+
+  it('deve marcar como descadastrado apenas um lead ativo', async () => {
+    const optOutQuery = createQuery({ data: { id: 'lead-1', status: 'active' }, error: null })
+    const statusQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(optOutQuery)
+      .mockReturnValueOnce(statusQuery)
+      .mockReturnValueOnce(createQuery({ data: null, error: null }))
+
+    await expect(new SubscriptionService().unsubscribe(payload, 'link')).resolves.toBe(true)
+
+    expect(optOutQuery.update).toHaveBeenCalledWith({ unsubscribed_at: expect.any(String), updated_at: expect.any(String) })
+    expect(statusQuery.update).toHaveBeenCalledWith({ status: 'unsubscribed' })
+    expect(statusQuery.eq).toHaveBeenCalledWith('status', 'active')
+  })
+
+  it('deve manter o status de um lead que teve bounce ao registrar o descadastro', async () => {
+    const activityQuery = createQuery({ data: null, error: null })
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: { id: 'lead-1', status: 'bounced' }, error: null }))
+      .mockReturnValueOnce(activityQuery)
+
+    await expect(new SubscriptionService().unsubscribe(payload, 'one_click')).resolves.toBe(true)
+
+    expect(mockFrom).toHaveBeenCalledTimes(2)
+    expect(mockFrom).toHaveBeenLastCalledWith('lead_activities')
+    expect(activityQuery.insert).toHaveBeenCalledWith(expect.objectContaining({ activity_type: 'email_unsubscribed' }))
+  })
+})
@@ -0,0 +1,69 @@
+// Testes dos tokens assinados de descadastro
+
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  buildUnsubscribeUrl,
+  buildOneClickUnsubscribeUrl
+} from '../unsubscribe-tokens'
+
+describe('Tokens de descadastro', () => {
+  const payload = {
+    workspaceId: '11111111-1111-1111-1111-111111111111',
+    leadId: '22222222-2222-2222-2222-222222222222',
+    campaignId: '33333333-3333-3333-3333-333333333333'
+  }
+
+  beforeEach(() => {
+    process.env.UNSUBSCRIBE_TOKEN_SECRET = 'test-secret'
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com/'
+  })
+
+  afterEach(() => {
+    delete process.env.UNSUBSCRIBE_TOKEN_SECRET
+    delete process.env.NEXT_PUBLIC_APP_URL
+  })
+
+  it('deve validar um token gerado', () => {
+    const token = createUnsubscribeToken(payload)
+    expect(verifyUnsubscribeToken(token)).toEqual(payload)
+  })
+
+  it('deve aceitar tokens sem campanha', () => {
+    const token = createUnsubscribeToken({ workspaceId: payload.workspaceId, leadId: payload.leadId })
+    expect(verifyUnsubscribeToken(token)).toEqual({
+      workspaceId: payload.workspaceId,
+      leadId: payload.leadId,
+      campaignId: undefined
+    })
+  })
+
+  it('deve rejeitar tokens adulterados', () => {
+    const token = createUnsubscribeToken(payload)
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ w: payload.workspaceId, l: 'outro-lead' })).toString('base64url')
+
+    expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull()
+    expect(verifyUnsubscribeToken('invalido')).toBeNull()
+    expect(verifyUnsubscribeToken('')).toBeNull()
+  })
+
+  it('deve rejeitar tokens assinados com outro segredo', () => {
+    const token = createUnsubscribeToken(payload)
+    process.env.UNSUBSCRIBE_TOKEN_SECRET = 'outro-segredo'
+
+    expect(verifyUnsubscribeToken(token)).toBeNull()
+  })
+
+  it('deve exigir o segredo configurado', () => {
+    delete process.env.UNSUBSCRIBE_TOKEN_SECRET
+    expect(() => createUnsubscribeToken(payload)).toThrow('UNSUBSCRIBE_TOKEN_SECRET')
+  })
+
+  it('deve montar as URLs públicas', () => {
+    const token = createUnsubscribeToken(payload)
+
+    expect(buildUnsubscribeUrl(token)).toBe(`https://app.example.com/u/${token}`)
+    expect(buildOneClickUnsubscribeUrl(token)).toBe(`https://app.example.com/api/unsubscribe/${token}`)
+  })
+})
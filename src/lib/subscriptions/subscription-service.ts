@@ -0,0 +1,318 @@
+import { supabaseAdmin } from '../supabase'
+import {
+  UnsubscribeTokenPayload,
+  createUnsubscribeToken,
+  buildUnsubscribeUrl,
+  buildPreferencesUrl,
+  buildOneClickUnsubscribeUrl
+} from './unsubscribe-tokens'
+
+export interface SubscriptionTopic {
+  id: string
+  workspace_id: string
+  name: string
+  description: string | null
+  is_default: boolean
+}
+
+export interface PreferenceCenterData {
+  workspace_name: string
+  email: string
+  status: string
+  topics: Array<SubscriptionTopic & { subscribed: boolean }>
+}
+
+export interface UnsubscribeLinks {
+  unsubscribe_url: string
+  preferences_url: string
+  one_click_url: string
+}
+
+export type UnsubscribeSource = 'link' | 'one_click' | 'preference_center'
+
+// PostgREST `in` filters travel in the URL, so keep id lists bounded
+const LEAD_ID_CHUNK_SIZE = 200
+
+export class SubscriptionService {
+  // Recipients of the public pages are not authenticated, so this service uses the admin client
+  private supabase = supabaseAdmin
+
+  // Per-recipient links injected into templates and List-Unsubscribe headers
+  buildLinks(payload: UnsubscribeTokenPayload): UnsubscribeLinks {
+    const token = createUnsubscribeToken(payload)
+
+    return {
+      unsubscribe_url: buildUnsubscribeUrl(token),
+      preferences_url: buildPreferencesUrl(token),
+      one_click_url: buildOneClickUnsubscribeUrl(token)
+    }
+  }
+
+  async getPreferenceCenter(payload: UnsubscribeTokenPayload): Promise<PreferenceCenterData | null> {
+    const { data: lead } = await this.supabase
+      .from('leads')
+      .select('id, email, status')
+      .eq('id', payload.leadId)
+      .eq('workspace_id', payload.workspaceId)
+      .single()
+
+    if (!lead) {
+      return null
+    }
+
+    const [{ data: workspace }, topics, { data: preferences }] = await Promise.all([
+      this.supabase.from('workspaces').select('name').eq('id', payload.workspaceId).single(),
+      this.getTopics(payload.workspaceId),
+      this.supabase
+        .from('lead_topic_preferences')
+        .select('topic_id, subscribed')
+        .eq('lead_id', payload.leadId)
+    ])
+
+    const explicit = new Map<string, boolean>(
+      (preferences || []).map(pref => [pref.topic_id, pref.subscribed])
+    )
+
+    return {
+      workspace_name: workspace?.name || '',
+      email: this.maskEmail(lead.email),
+      status: lead.status,
+      topics: topics.map(topic => ({
+        ...topic,
+        subscribed: explicit.has(topic.id) ? explicit.get(topic.id)! : topic.is_default
+      }))
+    }
+  }
+
+  async getTopics(workspaceId: string): Promise<SubscriptionTopic[]> {
+    const { data, error } = await this.supabase
+      .from('subscription_topics')
+      .select('id, workspace_id, name, description, is_default')
+      .eq('workspace_id', workspaceId)
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Error loading subscription topics: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Global opt-out: the lead stops receiving any campaign or automation email
+  async unsubscribe(payload: UnsubscribeTokenPayload, source: UnsubscribeSource): Promise<boolean> {
+    const now = new Date().toISOString()
+
+    const { data: lead, error } = await this.supabase
+      .from('leads')
+      .update({
+        unsubscribed_at: now,
+        updated_at: now
+      })
+      .eq('id', payload.leadId)
+      .eq('workspace_id', payload.workspaceId)
+      .select('id, status')
+      .single()
+
+    if (error || !lead) {
+      return false
+    }
+
+    // Only active leads change status; a bounced or complained lead stays suppressed, so resubscribe can't reactivate it
+    if (lead.status === 'active') {
+      await this.supabase
+        .from('leads')
+        .update({ status: 'unsubscribed' })
+        .eq('id', payload.leadId)
+        .eq('status', 'active')
+    }
+
+    if (payload.campaignId) {
+      await this.supabase
+        .from('email_sends')
+        .update({ unsubscribed_at: now })
+        .eq('campaign_id', payload.campaignId)
+        .eq('lead_id', payload.leadId)
+    }
+
+    await this.supabase
+      .from('lead_activities')
+      .insert({
+        lead_id: payload.leadId,
+        activity_type: 'email_unsubscribed',
+        activity_data: {
+          campaign_id: payload.campaignId || null,
+          source,
+          unsubscribed_at: now
+        }
+      })
+
+    return true
+  }
+
+  // Only undoes an unsubscribe; bounced or complained leads stay suppressed
+  async resubscribe(payload: UnsubscribeTokenPayload): Promise<boolean> {
+    const now = new Date().toISOString()
+
+    const { data: lead, error } = await this.supabase
+      .from('leads')
+      .update({
+        status: 'active',
+        unsubscribed_at: null,
+        updated_at: now
+      })
+      .eq('id', payload.leadId)
+      .eq('workspace_id', payload.workspaceId)
+      .eq('status', 'unsubscribed')
+      .select('id')
+      .single()
+
+    if (error || !lead) {
+      return false
+    }
+
+    await this.supabase
+      .from('lead_activities')
+      .insert({
+        lead_id: payload.leadId,
+        activity_type: 'email_resubscribed',
+        activity_data: { resubscribed_at: now }
+      })
+
+    return true
+  }
+
+  // Stores an explicit choice for every workspace topic
+  async updatePreferences(payload: UnsubscribeTokenPayload, subscribedTopicIds: string[]): Promise<void> {
+    const topics = await this.getTopics(payload.workspaceId)
+    if (topics.length === 0) {
+      return
+    }
+
+    const now = new Date().toISOString()
+    const selected = new Set(subscribedTopicIds)
+
+    const { error } = await this.supabase
+      .from('lead_topic_preferences')
+      .upsert(
+        topics.map(topic => ({
+          lead_id: payload.leadId,
+          topic_id: topic.id,
+          workspace_id: payload.workspaceId,
+          subscribed: selected.has(topic.id),
+          updated_at: now
+        })),
+        { onConflict: 'lead_id,topic_id' }
+      )
+
+    if (error) {
+      throw new Error(`Error saving preferences: ${error.message}`)
+    }
+
+    await this.supabase
+      .from('lead_activities')
+      .insert({
+        lead_id: payload.leadId,
+        activity_type: 'preferences_updated',
+        activity_data: {
+          subscribed_topics: topics.filter(topic => selected.has(topic.id)).map(topic => topic.name),
+          updated_at: now
+        }
+      })
+  }
+
+  // Lead ids that must not be emailed: not active, or opted out of the campaign topic
+  async getExcludedLeadIds(workspaceId: string, leadIds: string[], topicId?: string | null): Promise<Set<string>> {
+    const excluded = new Set<string>()
+    if (leadIds.length === 0) {
+      return excluded
+    }
+
+    let topic: SubscriptionTopic | null = null
+    if (topicId) {
+      const { data } = await this.supabase
+        .from('subscription_topics')
+        .select('id, workspace_id, name, description, is_default')
+        .eq('id', topicId)
+        .eq('workspace_id', workspaceId)
+        .single()
+      topic = data
+    }
+
+    for (let i = 0; i < leadIds.length; i += LEAD_ID_CHUNK_SIZE) {
+      const chunk = leadIds.slice(i, i + LEAD_ID_CHUNK_SIZE)
+
+      const { data: leads, error } = await this.supabase
+        .from('leads')
+        .select('id, status')
+        .eq('workspace_id', workspaceId)
+        .in('id', chunk)
+
+      if (error) {
+        throw new Error(`Error checking lead status: ${error.message}`)
+      }
+
+      // Leads that no longer exist are excluded as well
+      const active = new Set((leads || []).filter(lead => lead.status === 'active').map(lead => lead.id))
+      chunk.forEach(id => {
+        if (!active.has(id)) excluded.add(id)
+      })
+
+      if (!topic) {
+        continue
+      }
+
+      const { data: preferences, error: preferenceError } = await this.supabase
+        .from('lead_topic_preferences')
+        .select('lead_id, subscribed')
+        .eq('topic_id', topic.id)
+        .in('lead_id', chunk)
+
+      if (preferenceError) {
+        throw new Error(`Error checking topic preferences: ${preferenceError.message}`)
+      }
+
+      const explicit = new Map<string, boolean>(
+        (preferences || []).map(pref => [pref.lead_id, pref.subscribed])
+      )
+
+      chunk.forEach(id => {
+        const subscribed = explicit.has(id) ? explicit.get(id) : topic!.is_default
+        if (!subscribed) excluded.add(id)
+      })
+    }
+
+    return excluded
+  }
+
+  async filterRecipients<T extends { id: string }>(workspaceId: string, recipients: T[], topicId?: string | null): Promise<T[]> {
+    const excluded = await this.getExcludedLeadIds(workspaceId, recipients.map(recipient => recipient.id), topicId)
+    return recipients.filter(recipient => !excluded.has(recipient.id))
+  }
+
+  // Templates that do not render {{unsubscribe_url}} get a minimal footer so every email carries an opt-out link
+  ensureUnsubscribeLink(html: string, links: UnsubscribeLinks): string {
+    if (!html || html.includes(links.unsubscribe_url)) {
+      return html
+    }
+
+    const footer = `<p style="font-family: Arial, sans-serif; font-size: 12px; color: #6b7280; text-align: center; margin-top: 24px;">` +
+      `<a href="${links.unsubscribe_url}" style="color: #6b7280;">Descadastrar</a> · ` +
+      `<a href="${links.preferences_url}" style="color: #6b7280;">Gerenciar preferências</a></p>`
+
+    return /<\/body>/i.test(html)
+      ? html.replace(/<\/body>/i, `${footer}</body>`)
+      : `${html}${footer}`
+  }
+
+  private maskEmail(email: string): string {
+    const [local, domain] = email.split('@')
+    if (!domain) {
+      return email
+    }
+
+    const visible = local.slice(0, Math.min(2, local.length))
+    return `${visible}${'*'.repeat(Math.max(local.length - visible.length, 1))}@${domain}`
+  }
+}
+
+export const subscriptionService = new SubscriptionService()
@@ -0,0 +1,62 @@
+import { createSignedToken, verifySignedToken } from '../signed-tokens'
+import { getAppUrl } from '../app-url'
+
+// Identifies the recipient (and optionally the send) behind an unsubscribe link
+export interface UnsubscribeTokenPayload {
+  workspaceId: string
+  leadId: string
+  campaignId?: string
+}
+
+// Compact on-the-wire shape to keep URLs short
+interface EncodedPayload {
+  w: string
+  l: string
+  c?: string
+}
+
+function getSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_TOKEN_SECRET
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_TOKEN_SECRET is not configured')
+  }
+  return secret
+}
+
+// Tokens do not expire: recipients must be able to opt out from old emails
+export function createUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+  const encoded: EncodedPayload = { w: payload.workspaceId, l: payload.leadId }
+  if (payload.campaignId) {
+    encoded.c = payload.campaignId
+  }
+
+  return createSignedToken(encoded, getSecret())
+}
+
+// Returns null for malformed or tampered tokens
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  const decoded = verifySignedToken<EncodedPayload>(token, getSecret())
+  if (!decoded || !decoded.w || !decoded.l) {
+    return null
+  }
+
+  return {
+    workspaceId: decoded.w,
+    leadId: decoded.l,
+    campaignId: decoded.c
+  }
+}
+
+// Hosted page a recipient lands on from the email footer
+export function buildUnsubscribeUrl(token: string): string {
+  return `${getAppUrl()}/u/${encodeURIComponent(token)}`
+}
+
+export function buildPreferencesUrl(token: string): string {
+  return `${getAppUrl()}/u/${encodeURIComponent(token)}/preferences`
+}
+
+// RFC 8058 one-click endpoint; mailbox providers POST `List-Unsubscribe=One-Click` here
+export function buildOneClickUnsubscribeUrl(token: string): string {
+  return `${getAppUrl()}/api/unsubscribe/${encodeURIComponent(token)}`
+}
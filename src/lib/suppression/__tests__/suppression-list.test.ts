@@ -0,0 +1,105 @@
+// Testes da lista de supressão
+
+const mockFrom = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { SuppressionListService, parseSuppressionInput, getEmailDomain } from '../suppression-list'
+
+// Minimal chainable query builder resolving to the rows for the requested entry_type
+function createLookupQuery(rowsByType: Record<string, { value: string }[]>) {
+  const filters: Record<string, any> = {}
+  const query: any = {
+    select: jest.fn(() => query),
+    eq: jest.fn((column: string, value: any) => {
+      filters[column] = value
+      return query
+    }),
+    in: jest.fn((_column: string, values: string[]) => {
+      const rows = (rowsByType[filters.entry_type] || []).filter(row => values.includes(row.value))
+      return Promise.resolve({ data: rows, error: null })
+    })
+  }
+  return query
+}
+
+describe('parseSuppressionInput', () => {
+  it('deve separar emails e domínios', () => {
+    const result = parseSuppressionInput('Joao@Exemplo.com\nconcorrente.com.br, @spam.net; maria@teste.com')
+
+    expect(result.emails).toEqual(['joao@exemplo.com', 'maria@teste.com'])
+    expect(result.domains).toEqual(['concorrente.com.br', 'spam.net'])
+    expect(result.invalid).toEqual([])
+  })
+
+  it('deve remover duplicados e linhas vazias', () => {
+    const result = parseSuppressionInput('a@b.com\n\nA@B.com\n  \nb.com\nB.COM')
+
+    expect(result.emails).toEqual(['a@b.com'])
+    expect(result.domains).toEqual(['b.com'])
+  })
+
+  it('deve reportar entradas inválidas', () => {
+    const result = parseSuppressionInput('nao-e-email\n"ok@ok.com"\nfoo@')
+
+    expect(result.emails).toEqual(['ok@ok.com'])
+    expect(result.invalid).toEqual(['nao-e-email', 'foo@'])
+  })
+})
+
+describe('SuppressionListService', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+  })
+
+  it('deve extrair o domínio do email', () => {
+    expect(getEmailDomain(' Joao@Sub.Exemplo.com ')).toBe('sub.exemplo.com')
+  })
+
+  it('deve retornar emails suprimidos por endereço ou domínio', async () => {
+    mockFrom.mockImplementation(() => createLookupQuery({
+      email: [{ value: 'bounce@exemplo.com' }],
+      domain: [{ value: 'bloqueado.com' }]
+    }))
+
+    const service = new SuppressionListService()
+    const suppressed = await service.getSuppressedEmails('workspace-1', [
+      'Bounce@Exemplo.com',
+      'ok@exemplo.com',
+      'alguem@bloqueado.com'
+    ])
+
+    expect(Array.from(suppressed).sort()).toEqual(['alguem@bloqueado.com', 'bounce@exemplo.com'])
+    expect(mockFrom).toHaveBeenCalledWith('suppression_list')
+  })
+
+  it('não deve consultar o banco sem emails', async () => {
+    const service = new SuppressionListService()
+    const suppressed = await service.getSuppressedEmails('workspace-1', [])
+
+    expect(suppressed.size).toBe(0)
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('deve normalizar e ignorar duplicados ao adicionar', async () => {
+    const upsert = jest.fn(() => ({
+      select: jest.fn(() => Promise.resolve({ data: [{ id: '1' }], error: null }))
+    }))
+    mockFrom.mockReturnValue({ upsert })
+
+    const service = new SuppressionListService()
+    const added = await service.add('workspace-1', [
+      { entry_type: 'email', value: ' Joao@Exemplo.com ', reason: 'manual' }
+    ])
+
+    expect(added).toBe(1)
+    expect(upsert).toHaveBeenCalledWith(
+      [expect.objectContaining({ workspace_id: 'workspace-1', value: 'joao@exemplo.com', reason: 'manual' })],
+      { onConflict: 'workspace_id,entry_type,value', ignoreDuplicates: true }
+    )
+  })
+})
@@ -0,0 +1,232 @@
+import { supabaseAdmin } from '../supabase'
+
+export type SuppressionEntryType = 'email' | 'domain'
+export type SuppressionReason = 'hard_bounce' | 'complaint' | 'manual' | 'import'
+
+export interface SuppressionEntry {
+  id: string
+  workspace_id: string
+  entry_type: SuppressionEntryType
+  value: string
+  reason: SuppressionReason
+  source: string | null
+  metadata: Record<string, any>
+  created_by: string | null
+  created_at: string
+}
+
+export interface NewSuppressionEntry {
+  entry_type: SuppressionEntryType
+  value: string
+  reason: SuppressionReason
+  source?: string
+  metadata?: Record<string, any>
+  created_by?: string | null
+}
+
+export interface SuppressionListFilters {
+  page?: number
+  limit?: number
+  entry_type?: SuppressionEntryType
+  reason?: SuppressionReason
+  search?: string
+}
+
+export interface ParsedSuppressionInput {
+  emails: string[]
+  domains: string[]
+  invalid: string[]
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/
+
+// PostgREST `in` filters travel in the URL, so keep value lists bounded
+const LOOKUP_CHUNK_SIZE = 200
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function getEmailDomain(email: string): string {
+  const normalized = normalizeEmail(email)
+  return normalized.slice(normalized.lastIndexOf('@') + 1)
+}
+
+// Splits pasted or uploaded text (one entry per line, or comma/semicolon separated) into emails and domains
+export function parseSuppressionInput(input: string): ParsedSuppressionInput {
+  const emails = new Set<string>()
+  const domains = new Set<string>()
+  const invalid: string[] = []
+
+  input
+    .split(/[\n,;]+/)
+    .map(entry => entry.trim().replace(/^["']|["']$/g, ''))
+    .filter(entry => entry.length > 0)
+    .forEach(entry => {
+      const value = entry.toLowerCase().replace(/^@/, '')
+
+      if (EMAIL_PATTERN.test(value)) {
+        emails.add(value)
+      } else if (DOMAIN_PATTERN.test(value)) {
+        domains.add(value)
+      } else {
+        invalid.push(entry)
+      }
+    })
+
+  return {
+    emails: Array.from(emails),
+    domains: Array.from(domains),
+    invalid
+  }
+}
+
+export class SuppressionListService {
+  // Used from webhooks and queue workers, which have no user session
+  private supabase = supabaseAdmin
+
+  async list(workspaceId: string, filters: SuppressionListFilters = {}): Promise<{ entries: SuppressionEntry[]; total: number }> {
+    const page = filters.page || 1
+    const limit = filters.limit || 50
+    const offset = (page - 1) * limit
+
+    let query = this.supabase
+      .from('suppression_list')
+      .select('*', { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+
+    if (filters.entry_type) {
+      query = query.eq('entry_type', filters.entry_type)
+    }
+
+    if (filters.reason) {
+      query = query.eq('reason', filters.reason)
+    }
+
+    if (filters.search) {
+      query = query.ilike('value', `%${filters.search.toLowerCase()}%`)
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Error loading suppression list: ${error.message}`)
+    }
+
+    return { entries: data || [], total: count || 0 }
+  }
+
+  // Existing entries are kept as-is so the original reason is not overwritten
+  async add(workspaceId: string, entries: NewSuppressionEntry[]): Promise<number> {
+    if (entries.length === 0) {
+      return 0
+    }
+
+    const rows = entries.map(entry => ({
+      workspace_id: workspaceId,
+      entry_type: entry.entry_type,
+      value: entry.entry_type === 'email' ? normalizeEmail(entry.value) : entry.value.trim().toLowerCase(),
+      reason: entry.reason,
+      source: entry.source || null,
+      metadata: entry.metadata || {},
+      created_by: entry.created_by || null
+    }))
+
+    const { data, error } = await this.supabase
+      .from('suppression_list')
+      .upsert(rows, { onConflict: 'workspace_id,entry_type,value', ignoreDuplicates: true })
+      .select('id')
+
+    if (error) {
+      throw new Error(`Error adding suppression entries: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  async suppressEmail(
+    workspaceId: string,
+    email: string,
+    reason: SuppressionReason,
+    source: string,
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
+    await this.add(workspaceId, [{ entry_type: 'email', value: email, reason, source, metadata }])
+  }
+
+  async remove(workspaceId: string, entryId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('suppression_list')
+      .delete()
+      .eq('id', entryId)
+      .eq('workspace_id', workspaceId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Error removing suppression entry: ${error.message}`)
+    }
+
+    return (data?.length || 0) > 0
+  }
+
+  // Returns the normalized addresses from `emails` that are suppressed by address or domain
+  async getSuppressedEmails(workspaceId: string, emails: string[]): Promise<Set<string>> {
+    const suppressed = new Set<string>()
+    const normalized = Array.from(new Set(emails.map(normalizeEmail)))
+
+    if (normalized.length === 0) {
+      return suppressed
+    }
+
+    const domains = Array.from(new Set(normalized.map(getEmailDomain)))
+    const blockedDomains = new Set<string>()
+
+    for (let i = 0; i < normalized.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('suppression_list')
+        .select('value')
+        .eq('workspace_id', workspaceId)
+        .eq('entry_type', 'email')
+        .in('value', normalized.slice(i, i + LOOKUP_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Error checking suppression list: ${error.message}`)
+      }
+
+      ;(data || []).forEach(entry => suppressed.add(entry.value))
+    }
+
+    for (let i = 0; i < domains.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await this.supabase
+        .from('suppression_list')
+        .select('value')
+        .eq('workspace_id', workspaceId)
+        .eq('entry_type', 'domain')
+        .in('value', domains.slice(i, i + LOOKUP_CHUNK_SIZE))
+
+      if (error) {
+        throw new Error(`Error checking suppression list: ${error.message}`)
+      }
+
+      ;(data || []).forEach(entry => blockedDomains.add(entry.value))
+    }
+
+    if (blockedDomains.size > 0) {
+      normalized.forEach(email => {
+        if (blockedDomains.has(getEmailDomain(email))) suppressed.add(email)
+      })
+    }
+
+    return suppressed
+  }
+
+  async isSuppressed(workspaceId: string, email: string): Promise<boolean> {
+    const suppressed = await this.getSuppressedEmails(workspaceId, [email])
+    return suppressed.size > 0
+  }
+}
+
+export const suppressionList = new SuppressionListService()
@@ -0,0 +1,130 @@
+// Testes dos blocos de conteúdo do editor visual
+
+const mockFrom = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { ContentBlockService, createSyncedBlockComponent } from '../content-blocks'
+import { EmailComponent, expandSyncedBlocks, getSyncedBlockIds, cloneComponents } from '../editor-html'
+import { compileEmail } from '../email-compiler'
+
+const footer: EmailComponent[] = [
+  { id: 'f1', type: 'text', content: { text: 'ACME Ltda · {{company}}', fontSize: 12 } },
+  { id: 'f2', type: 'button', content: { text: 'Descadastrar', href: 'https://acme.com/u' } }
+]
+
+const heading: EmailComponent = { id: 'h1', type: 'heading', content: { text: 'Olá {{name}}', fontSize: 24 } }
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {
+    select: jest.fn(() => query),
+    update: jest.fn(() => query),
+    delete: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    in: jest.fn(() => query),
+    contains: jest.fn(() => query),
+    single: jest.fn(() => Promise.resolve(result)),
+    maybeSingle: jest.fn(() => Promise.resolve(result)),
+    then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  }
+  return query
+}
+
+describe('editor-html', () => {
+  it('deve expandir blocos sincronizados com o conteúdo do bloco original', () => {
+    const components = [heading, createSyncedBlockComponent({ id: 'block-1', name: 'Rodapé' })]
+
+    const expanded = expandSyncedBlocks(components, { 'block-1': footer })
+
+    expect(expanded.map(component => component.id)).toEqual(['h1', 'f1', 'f2'])
+    expect(getSyncedBlockIds(components)).toEqual(['block-1'])
+  })
+
+  it('deve omitir blocos sincronizados inexistentes', () => {
+    const components = [heading, createSyncedBlockComponent({ id: 'removido', name: 'Antigo' })]
+
+    expect(expandSyncedBlocks(components, {})).toEqual([heading])
+  })
+
+  it('deve gerar HTML e texto incluindo o bloco sincronizado', () => {
+    const components = [heading, createSyncedBlockComponent({ id: 'block-1', name: 'Rodapé' })]
+    const blocks = { 'block-1': footer }
+
+    const { html, text } = compileEmail({ components, settings: { backgroundColor: '#fff', maxWidth: '600px', fontFamily: 'Arial' } }, 'Assunto', blocks)
+
+    expect(html).toContain('Olá {{name}}')
+    expect(html).toContain('href="https://acme.com/u"')
+    expect(text).toBe('Olá {{name}}\n\nACME Ltda · {{company}}\n\nDescadastrar: https://acme.com/u')
+  })
+
+  it('deve gerar novos ids ao copiar componentes', () => {
+    const copies = cloneComponents(footer)
+
+    expect(copies).toHaveLength(2)
+    expect(copies[0].id).not.toBe('f1')
+    expect(copies[0].content).toEqual(footer[0].content)
+    expect(copies[0].content).not.toBe(footer[0].content)
+  })
+})
+
+describe('ContentBlockService', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+  })
+
+  it('deve atualizar todos os templates que usam o bloco sincronizado', async () => {
+    const reference = createSyncedBlockComponent({ id: 'block-1', name: 'Rodapé' })
+    const templates = [
+      { id: 'tpl-1', subject: 'Oi {{name}}', wysiwyg_data: { components: [heading, reference], settings: {} } },
+      { id: 'tpl-2', subject: 'Novidades', wysiwyg_data: { components: [reference] } }
+    ]
+    const templatesQuery = createQuery({ data: templates, error: null })
+    const blocksQuery = createQuery({ data: [{ id: 'block-1', components: footer }], error: null })
+    const updates = [createQuery({ data: null, error: null }), createQuery({ data: null, error: null })]
+
+    mockFrom
+      .mockReturnValueOnce(templatesQuery)
+      .mockReturnValueOnce(blocksQuery)
+      .mockReturnValueOnce(updates[0])
+      .mockReturnValueOnce(updates[1])
+
+    const service = new ContentBlockService()
+    const count = await service.syncBlock('ws-1', 'block-1', 'user-1')
+
+    expect(count).toBe(2)
+    expect(templatesQuery.contains).toHaveBeenCalledWith('wysiwyg_data', { components: [{ content: { blockId: 'block-1' } }] })
+    expect(blocksQuery.in).toHaveBeenCalledWith('id', ['block-1'])
+
+    const firstUpdate = updates[0].update.mock.calls[0][0]
+    expect(firstUpdate.html_content).toContain('ACME Ltda')
+    expect(firstUpdate.text_content).toContain('Descadastrar: https://acme.com/u')
+    expect(firstUpdate.variables).toEqual(expect.arrayContaining(['name', 'company']))
+    expect(firstUpdate.updated_by).toBe('user-1')
+    expect(updates[1].eq).toHaveBeenCalledWith('id', 'tpl-2')
+  })
+
+  it('deve impedir excluir bloco sincronizado em uso', async () => {
+    mockFrom
+      .mockReturnValueOnce(createQuery({ data: { id: 'block-1', is_synced: true }, error: null }))
+      .mockReturnValueOnce(createQuery({ data: [{ id: 'tpl-1' }], error: null }))
+
+    const service = new ContentBlockService()
+
+    await expect(service.delete('ws-1', 'block-1')).rejects.toThrow('Content block is used by 1 template(s)')
+  })
+
+  it('deve rejeitar blocos que contêm blocos sincronizados', async () => {
+    const service = new ContentBlockService()
+
+    await expect(service.create('ws-1', {
+      name: 'Aninhado',
+      components: [createSyncedBlockComponent({ id: 'block-1', name: 'Rodapé' })]
+    })).rejects.toThrow('Content blocks cannot contain synced blocks')
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+})
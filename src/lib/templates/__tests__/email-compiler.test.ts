@@ -0,0 +1,124 @@
+// Testes do compilador de HTML de email do editor visual
+
+import { compileEmail, compilePlainText, checkEmailSize, utf8ByteLength, GMAIL_CLIP_LIMIT_BYTES } from '../email-compiler'
+import { EmailComponent, DEFAULT_DESIGN_SETTINGS } from '../editor-html'
+
+const components: EmailComponent[] = [
+  { id: 'h1', type: 'heading', content: { text: 'Olá {{name}}', fontSize: 24, fontWeight: 'bold', color: '#111111', textAlign: 'center' } },
+  { id: 't1', type: 'text', content: { text: 'Confira as novidades da semana.', fontSize: 16 } },
+  { id: 'i1', type: 'image', content: { src: 'https://cdn.acme.com/banner.png', alt: 'Banner', width: '100%' } },
+  { id: 'b1', type: 'button', content: { text: 'Comprar agora', href: 'https://acme.com/loja', backgroundColor: '#2563eb', color: '#ffffff', borderRadius: '6px' } },
+  { id: 'd1', type: 'divider', content: { height: '1px', backgroundColor: '#e5e7eb', margin: '20px 0' } },
+  { id: 's1', type: 'spacer', content: { height: '24px' } }
+]
+
+function compile(list: EmailComponent[], settings = DEFAULT_DESIGN_SETTINGS) {
+  return compileEmail({ components: list, settings }, 'Novidades')
+}
+
+describe('compileEmail', () => {
+  it('deve gerar layout em tabelas com fallback para Outlook', () => {
+    const { html } = compile(components)
+
+    expect(html).toContain('<table class="mg-container" role="presentation"')
+    expect(html).toContain('<!--[if mso | IE]><table role="presentation" border="0" cellpadding="0" cellspacing="0" width="600"')
+    expect(html).toContain('<o:PixelsPerInch>96</o:PixelsPerInch>')
+    expect(html).not.toContain('<div class="email-container">')
+  })
+
+  it('deve fixar o esquema de cores claro e usar bgcolor para o modo escuro', () => {
+    const { html } = compile(components)
+
+    expect(html).toContain('<meta name="color-scheme" content="light">')
+    expect(html).toContain(`bgcolor="${DEFAULT_DESIGN_SETTINGS.backgroundColor}"`)
+    expect(html).toContain('bgcolor="#2563eb"')
+  })
+
+  it('deve gerar botão à prova de falhas com estilos inline', () => {
+    const { html } = compile(components)
+
+    expect(html).toMatch(/<td align="center" bgcolor="#2563eb" role="presentation"[^>]*><a href="https:\/\/acme.com\/loja"/)
+    expect(html).toContain('mso-padding-alt:0px')
+    expect(html).toContain('border-radius:6px')
+  })
+
+  it('deve definir largura explícita nas imagens', () => {
+    const { html } = compile(components)
+
+    expect(html).toContain('<img src="https://cdn.acme.com/banner.png" alt="Banner" width="600"')
+    expect(html).toContain('display:block;width:100%;max-width:600px')
+  })
+
+  it('deve empilhar colunas no mobile e dividir a largura no Outlook', () => {
+    const columns: EmailComponent = {
+      id: 'c1',
+      type: 'columns',
+      content: {
+        columnCount: 2,
+        columns: [
+          [{ id: 'c1t', type: 'text', content: { text: 'Esquerda' } }],
+          [{ id: 'c2t', type: 'text', content: { text: 'Direita' } }]
+        ]
+      }
+    }
+
+    const { html } = compile([columns])
+
+    expect(html.match(/class="mg-column"/g)).toHaveLength(2)
+    expect(html).toContain('max-width:50%')
+    expect(html).toContain('<td style="vertical-align:top;width:300px;">')
+    expect(html).toContain('.mg-column { max-width:100% !important; width:100% !important; }')
+  })
+
+  it('deve bloquear URLs inseguras e injeção de CSS', () => {
+    const { html } = compile([
+      { id: 'b1', type: 'button', content: { text: 'Clique', href: 'javascript:alert(1)' } },
+      { id: 't1', type: 'text', content: { text: '<script>x</script>', color: 'red;" onmouseover="alert(1)' } }
+    ])
+
+    expect(html).toContain('href="#"')
+    expect(html).not.toContain('javascript:')
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('" onmouseover')
+  })
+
+  it('deve preservar tags de template em textos e links', () => {
+    const { html } = compile([
+      { id: 'b1', type: 'button', content: { text: 'Sair', href: '{{unsubscribe_url}}' } },
+      { id: 't1', type: 'text', content: { text: '{% if first_name %}Oi {{first_name}}{% endif %}' } }
+    ])
+
+    expect(html).toContain('href="{{unsubscribe_url}}"')
+    expect(html).toContain('{% if first_name %}Oi {{first_name}}{% endif %}')
+  })
+})
+
+describe('compilePlainText', () => {
+  it('deve gerar a versão em texto a partir dos componentes', () => {
+    expect(compilePlainText(components)).toBe(
+      'Olá {{name}}\n\nConfira as novidades da semana.\n\n[Banner]\n\nComprar agora: https://acme.com/loja\n\n----------'
+    )
+  })
+})
+
+describe('checkEmailSize', () => {
+  it('deve contar bytes em UTF-8', () => {
+    expect(utf8ByteLength('abc')).toBe(3)
+    expect(utf8ByteLength('ção')).toBe(5)
+    expect(utf8ByteLength('🚀')).toBe(4)
+  })
+
+  it('deve avisar perto e acima do limite de corte do Gmail', () => {
+    expect(checkEmailSize(10 * 1024)).toEqual([])
+    expect(checkEmailSize(95 * 1024)[0].code).toBe('gmail_clipping_risk')
+    expect(checkEmailSize(GMAIL_CLIP_LIMIT_BYTES + 1)[0]).toMatchObject({ code: 'gmail_clipping', severity: 'error' })
+  })
+
+  it('deve incluir o aviso no resultado da compilação', () => {
+    const longText = 'x'.repeat(GMAIL_CLIP_LIMIT_BYTES)
+    const result = compile([{ id: 't1', type: 'text', content: { text: longText } }])
+
+    expect(result.size).toBeGreaterThan(GMAIL_CLIP_LIMIT_BYTES)
+    expect(result.warnings.map(warning => warning.code)).toEqual(['gmail_clipping'])
+  })
+})
@@ -0,0 +1,125 @@
+// Testes do motor de templates
+
+import { renderTemplate, validateTemplate, TemplateSyntaxError } from '../template-renderer'
+import { buildLeadTemplateContext, renderEmailContent, validateEmailTemplate } from '../email-template'
+
+const options = { timezone: 'America/Sao_Paulo', locale: 'pt-BR' }
+
+describe('renderTemplate', () => {
+  it('deve substituir variáveis com e sem espaços', () => {
+    expect(renderTemplate('Olá {{name}}, {{ email }}', { name: 'Maria', email: 'maria@exemplo.com' }))
+      .toBe('Olá Maria, maria@exemplo.com')
+  })
+
+  it('deve escapar HTML por padrão e permitir saída crua', () => {
+    const context = { company: '<b>ACME & Cia</b>' }
+
+    expect(renderTemplate('{{ company }}', context)).toBe('&lt;b&gt;ACME &amp; Cia&lt;/b&gt;')
+    expect(renderTemplate('{{ company | raw }}', context)).toBe('<b>ACME & Cia</b>')
+    expect(renderTemplate('{{{ company }}}', context)).toBe('<b>ACME & Cia</b>')
+    expect(renderTemplate('{{ company }}', context, { escape: false })).toBe('<b>ACME & Cia</b>')
+  })
+
+  it('deve avaliar condições com elsif, else e operadores', () => {
+    const template = '{% if plan == "pro" and seats > 5 %}Pro grande{% elsif plan == "pro" %}Pro{% else %}Free{% endif %}'
+
+    expect(renderTemplate(template, { plan: 'pro', seats: '10' })).toBe('Pro grande')
+    expect(renderTemplate(template, { plan: 'pro', seats: 2 })).toBe('Pro')
+    expect(renderTemplate(template, { plan: 'free' })).toBe('Free')
+    expect(renderTemplate('{% unless company %}Sem empresa{% endunless %}', { company: '' })).toBe('Sem empresa')
+    expect(renderTemplate('{% if tags contains "vip" %}VIP{% endif %}', { tags: ['vip', 'beta'] })).toBe('VIP')
+  })
+
+  it('deve percorrer listas e campos personalizados', () => {
+    expect(renderTemplate('{% for item in items %}{{ forloop.index }}.{{ item }}{% unless forloop.last %}, {% endunless %}{% endfor %}', { items: ['a', 'b', 'c'] }))
+      .toBe('1.a, 2.b, 3.c')
+    expect(renderTemplate('{% for field in custom_fields %}{{ field.key }}={{ field.value }};{% endfor %}', { custom_fields: { plano: 'Pro', cidade: 'Recife' } }))
+      .toBe('plano=Pro;cidade=Recife;')
+    expect(renderTemplate('{% for item in items %}{{ item }}{% else %}vazio{% endfor %}', { items: [] })).toBe('vazio')
+  })
+
+  it('deve aceitar blocos no estilo Handlebars', () => {
+    const template = '{{#if vip}}VIP{{else}}Normal{{/if}} {{#each items}}[{{@index}}:{{this}}]{{/each}}'
+
+    expect(renderTemplate(template, { vip: true, items: ['x', 'y'] })).toBe('VIP [0:x][1:y]')
+  })
+
+  it('deve aplicar filtros de valor padrão, texto, data e moeda', () => {
+    expect(renderTemplate('{{ name | default: "Cliente" }}', { name: '' })).toBe('Cliente')
+    expect(renderTemplate('{{ name | upcase | truncate: 6 }}', { name: 'Mariana' })).toBe('MAR...')
+    expect(renderTemplate('{{ created_at | date: "%d/%m/%Y %H:%M" }}', { created_at: '2024-07-16T13:30:00Z' }, options))
+      .toBe('16/07/2024 10:30')
+    expect(renderTemplate('{{ total | currency }}', { total: 1234.5 }, options).replace(/\s/g, ' ')).toBe('R$ 1.234,50')
+    expect(renderTemplate('{{ total | currency: "USD" }}', { total: 10 }, { locale: 'en-US' })).toBe('$10.00')
+  })
+
+  it('deve manter atribuições entre blocos', () => {
+    expect(renderTemplate('{% assign greeting = name | prepend: "Oi " %}{% if true %}{{ greeting }}{% endif %}', { name: 'Ana' }))
+      .toBe('Oi Ana')
+  })
+
+  it('deve ignorar comentários e preservar blocos raw', () => {
+    expect(renderTemplate('a{% comment %}{{ x }}{% endcomment %}b{{! nota }}c', {})).toBe('abc')
+    expect(renderTemplate('{% raw %}{{ name }}{% endraw %}', { name: 'Ana' })).toBe('{{ name }}')
+  })
+
+  it('deve lançar erro de sintaxe com a linha', () => {
+    expect(() => renderTemplate('linha 1\n{% if name %}\nsem fechamento', {})).toThrow(TemplateSyntaxError)
+    expect(() => renderTemplate('{{ name | inexistente }}', {})).toThrow('Unknown filter "inexistente"')
+    expect(() => renderTemplate('{% endif %}', {})).toThrow('Unknown tag "endif"')
+  })
+})
+
+describe('validateTemplate', () => {
+  it('deve listar variáveis desconhecidas ignorando variáveis locais', () => {
+    const result = validateTemplate(
+      '{% assign x = 1 %}{{ name }} {{ plano }} {% for item in pedidos %}{{ item.id }}{% endfor %}{{ x }}',
+      ['name']
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.variables.sort()).toEqual(['name', 'pedidos', 'plano'])
+    expect(result.unknownVariables.sort()).toEqual(['pedidos', 'plano'])
+  })
+
+  it('deve reportar erros de sintaxe', () => {
+    const result = validateTemplate('Olá\n{% for item in %}{% endfor %}')
+
+    expect(result.valid).toBe(false)
+    expect(result.errors[0].line).toBe(2)
+  })
+})
+
+describe('email-template', () => {
+  it('deve montar o contexto do lead com campos personalizados', () => {
+    const context = buildLeadTemplateContext(
+      { id: 'lead-1', name: 'Maria Silva', email: 'maria@exemplo.com', custom_fields: { plano: 'Pro' } },
+      { unsubscribe_url: 'https://app/u/abc' }
+    )
+
+    expect(context).toMatchObject({
+      name: 'Maria Silva',
+      first_name: 'Maria',
+      plano: 'Pro',
+      custom_fields: { plano: 'Pro' },
+      unsubscribe_url: 'https://app/u/abc'
+    })
+    expect(buildLeadTemplateContext({ email: 'x@y.com' }).name).toBe('Cliente')
+  })
+
+  it('deve escapar apenas o HTML', () => {
+    const rendered = renderEmailContent(
+      { subject: 'Oferta para {{ company }}', html: '<p>{{ company }}</p>', text: '{{ company }}' },
+      { company: 'A&B' }
+    )
+
+    expect(rendered).toEqual({ subject: 'Oferta para A&B', html: '<p>A&amp;B</p>', text: 'A&B' })
+  })
+
+  it('deve indicar o campo com erro', () => {
+    const validation = validateEmailTemplate({ subject: '{% if x %}', html: '<p>ok</p>' })
+
+    expect(validation.valid).toBe(false)
+    expect(validation.errors[0].field).toBe('subject')
+  })
+})
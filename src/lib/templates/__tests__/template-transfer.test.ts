@@ -0,0 +1,289 @@
+// Testes de importação e exportação de templates (HTML, MJML e ZIP)
+
+const mockFrom = jest.fn()
+const mockUpload = jest.fn()
+const mockDownload = jest.fn()
+const mockRemove = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    storage: {
+      from: () => ({
+        upload: (...args: any[]) => mockUpload(...args),
+        download: (...args: any[]) => mockDownload(...args),
+        remove: (...args: any[]) => mockRemove(...args),
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.test/storage/v1/object/public/template-assets/${path}` } })
+      })
+    }
+  }
+}))
+
+import { Buffer } from 'buffer'
+import { createZip, readZip } from '../zip-archive'
+import { parseMjml, designToMjml } from '../mjml'
+import { TemplateTransferService, resolveBundlePath, rewriteAssetReferences, detectImportFormat } from '../template-transfer'
+
+// Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+function createQuery(result: { data: any; error: any }) {
+  const query: any = {
+    select: jest.fn(() => query),
+    insert: jest.fn(() => query),
+    update: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    order: jest.fn(() => query),
+    limit: jest.fn(() => query),
+    single: jest.fn(() => Promise.resolve(result)),
+    maybeSingle: jest.fn(() => Promise.resolve(result)),
+    then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+  }
+  return query
+}
+
+const MJML_SOURCE = `
+<mjml>
+  <mj-head>
+    <mj-title>Novidades de {{month}}</mj-title>
+    <mj-attributes><mj-all font-family="Helvetica, sans-serif" /></mj-attributes>
+  </mj-head>
+  <mj-body background-color="#eeeeee" width="640px">
+    <mj-section>
+      <mj-column>
+        <mj-text font-size="20px" color="#333333"><h1>Olá {{name}}</h1></mj-text>
+        <mj-image src="images/banner.png" alt="Banner" width="640px" />
+        <mj-button href="https://acme.com" background-color="#ff6600">Ver ofertas</mj-button>
+      </mj-column>
+    </mj-section>
+    <mj-section>
+      <mj-column><mj-text>Esquerda<br/>linha 2</mj-text></mj-column>
+      <mj-column><mj-divider border-color="#cccccc" /></mj-column>
+    </mj-section>
+    <mj-section><mj-column><mj-social /></mj-column></mj-section>
+  </mj-body>
+</mjml>`
+
+describe('zip-archive', () => {
+  it('deve ler o arquivo que escreveu', () => {
+    const entries = [
+      { name: 'index.html', data: Buffer.from('<p>Olá</p>'.repeat(50), 'utf8') },
+      { name: 'images/logo.png', data: Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]) }
+    ]
+
+    const read = readZip(createZip(entries))
+
+    expect(read.map(entry => entry.name)).toEqual(['index.html', 'images/logo.png'])
+    expect(read[0].data.toString('utf8')).toBe(entries[0].data.toString('utf8'))
+    expect(Array.from(read[1].data)).toEqual(Array.from(entries[1].data))
+  })
+
+  it('deve rejeitar arquivos que não são ZIP', () => {
+    expect(() => readZip(Buffer.from('not a zip file at all, just text'))).toThrow('Invalid ZIP file')
+  })
+})
+
+describe('mjml', () => {
+  it('deve converter MJML em componentes do editor', () => {
+    const { design, subject, warnings } = parseMjml(MJML_SOURCE)
+
+    expect(subject).toBe('Novidades de {{month}}')
+    expect(design.settings).toEqual({ backgroundColor: '#eeeeee', maxWidth: '640px', fontFamily: 'Helvetica, sans-serif' })
+    expect(design.components.map(component => component.type)).toEqual(['heading', 'image', 'button', 'columns'])
+    expect(design.components[0].content).toMatchObject({ text: 'Olá {{name}}', fontSize: 20, color: '#333333' })
+    expect(design.components[2].content).toMatchObject({ text: 'Ver ofertas', href: 'https://acme.com', backgroundColor: '#ff6600' })
+    expect(design.components[3].content.columns?.[0][0].content.text).toBe('Esquerda\nlinha 2')
+    expect(warnings).toEqual(['<mj-social> is not supported by the visual editor and was skipped'])
+  })
+
+  it('deve exportar e reimportar o mesmo layout', () => {
+    const { design, subject } = parseMjml(MJML_SOURCE)
+
+    const mjml = designToMjml(design, subject || '')
+    const reimported = parseMjml(mjml)
+
+    expect(mjml).toContain('<mj-button href="https://acme.com"')
+    expect(reimported.subject).toBe(subject)
+    expect(reimported.design.components.map(component => component.type)).toEqual(['heading', 'image', 'button', 'columns'])
+    expect(reimported.design.components[3].content.columns?.[0][0].content.text).toBe('Esquerda\nlinha 2')
+  })
+
+  it('deve rejeitar MJML sem mj-body', () => {
+    expect(() => parseMjml('<mjml><mj-head></mj-head></mjml>')).toThrow('expected <mjml> with an <mj-body>')
+  })
+})
+
+describe('template-transfer helpers', () => {
+  it('deve resolver caminhos relativos do pacote', () => {
+    expect(resolveBundlePath('email', 'images/a.png')).toBe('email/images/a.png')
+    expect(resolveBundlePath('email/parts', '../img/a%20b.png?v=2')).toBe('email/img/a b.png')
+    expect(resolveBundlePath('', '/logo.png')).toBe('logo.png')
+    expect(resolveBundlePath('', 'https://cdn.com/a.png')).toBeNull()
+    expect(resolveBundlePath('', '{{logo_url}}')).toBeNull()
+    expect(resolveBundlePath('', '../fora.png')).toBeNull()
+  })
+
+  it('deve reescrever atributos e url() do CSS', () => {
+    const html = '<img src="a.png"><td background=\'b.png\' style="background:url(b.png)"><a href="https://x.com">x</a>'
+    const rewritten = rewriteAssetReferences(html, reference => (reference.endsWith('.png') ? `https://cdn/${reference}` : null))
+
+    expect(rewritten).toBe('<img src="https://cdn/a.png"><td background=\'https://cdn/b.png\' style="background:url(https://cdn/b.png)"><a href="https://x.com">x</a>')
+  })
+
+  it('deve detectar o formato pela extensão', () => {
+    expect(detectImportFormat('Newsletter.HTM')).toBe('html')
+    expect(detectImportFormat('promo.mjml')).toBe('mjml')
+    expect(detectImportFormat('pacote.zip')).toBe('zip')
+    expect(detectImportFormat('imagem.png')).toBeNull()
+  })
+})
+
+describe('TemplateTransferService', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockUpload.mockReset()
+    mockDownload.mockReset()
+    mockRemove.mockReset()
+  })
+
+  it('deve importar ZIP enviando as imagens e reescrevendo os links', async () => {
+    const insertQuery = createQuery({ data: { id: 'tpl-1', name: 'promo', subject: 'Promoção', template_type: 'campaign' }, error: null })
+    mockFrom.mockReturnValueOnce(insertQuery)
+    mockUpload.mockResolvedValue({ data: {}, error: null })
+
+    const zip = createZip([
+      { name: 'promo/index.html', data: Buffer.from('<html><head><title>Promoção</title></head><body><img src="img/Logo Final.png"><p>Oi {{name}}</p></body></html>') },
+      { name: 'promo/img/Logo Final.png', data: Buffer.from([1, 2, 3]) },
+      { name: 'promo/notes.txt', data: Buffer.from('ignorar') }
+    ])
+
+    const service = new TemplateTransferService()
+    const result = await service.importTemplate('ws-1', { name: 'promo.zip', data: zip }, { userId: 'user-1' })
+
+    expect(result.assets_uploaded).toBe(1)
+    expect(result.warnings).toEqual(['Skipped unsupported files: promo/notes.txt'])
+
+    const [path, , options] = mockUpload.mock.calls[0]
+    expect(path).toMatch(/^ws-1\/[0-9a-f-]+\/promo\/img\/logo-final\.png$/)
+    expect(options.contentType).toBe('image/png')
+
+    const inserted = insertQuery.insert.mock.calls[0][0]
+    expect(inserted).toMatchObject({ name: 'promo', subject: 'Promoção', workspace_id: 'ws-1', created_by: 'user-1', variables: ['name'] })
+    expect(inserted.html_content).toContain(`src="https://cdn.test/storage/v1/object/public/template-assets/${path}"`)
+  })
+
+  it('deve importar MJML como template do editor visual', async () => {
+    const insertQuery = createQuery({ data: { id: 'tpl-2' }, error: null })
+    mockFrom.mockReturnValueOnce(insertQuery)
+
+    const service = new TemplateTransferService()
+    await service.importTemplate('ws-1', { name: 'novidades.mjml', data: Buffer.from(MJML_SOURCE) })
+
+    const inserted = insertQuery.insert.mock.calls[0][0]
+    expect(inserted.template_type).toBe('wysiwyg')
+    expect(inserted.subject).toBe('Novidades de {{month}}')
+    expect(inserted.wysiwyg_data.components).toHaveLength(4)
+    expect(inserted.html_content).toContain('class="mg-container"')
+    expect(inserted.text_content).toContain('Ver ofertas: https://acme.com')
+  })
+
+  it('deve substituir template com o mesmo nome quando solicitado', async () => {
+    const findQuery = createQuery({ data: { id: 'tpl-old' }, error: null })
+    const updateQuery = createQuery({ data: { id: 'tpl-old' }, error: null })
+    mockFrom.mockReturnValueOnce(findQuery).mockReturnValueOnce(updateQuery)
+
+    const service = new TemplateTransferService()
+    const result = await service.importTemplate(
+      'ws-1',
+      { name: 'boas-vindas.html', data: Buffer.from('<p>Bem-vindo {{name}}</p>') },
+      { overwrite_existing: true, subject: 'Bem-vindo' }
+    )
+
+    expect(result.overwritten).toBe(true)
+    expect(findQuery.eq).toHaveBeenCalledWith('name', 'boas-vindas')
+    expect(updateQuery.eq).toHaveBeenCalledWith('id', 'tpl-old')
+  })
+
+  it('deve rejeitar HTML com scripts', async () => {
+    const service = new TemplateTransferService()
+
+    await expect(service.importTemplate('ws-1', {
+      name: 'x.html',
+      data: Buffer.from('<p>Oi</p><script>alert(1)</script>')
+    })).rejects.toThrow('Imported HTML is unsafe')
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('deve validar o ZIP antes de enviar as imagens', async () => {
+    const zip = createZip([
+      { name: 'index.html', data: Buffer.from('<img src="logo.png"><script>alert(1)</script>') },
+      { name: 'logo.png', data: Buffer.from([1, 2, 3]) }
+    ])
+
+    const service = new TemplateTransferService()
+
+    await expect(service.importTemplate('ws-1', { name: 'x.zip', data: zip })).rejects.toThrow('Imported HTML is unsafe')
+    expect(mockUpload).not.toHaveBeenCalled()
+    expect(mockFrom).not.toHaveBeenCalled()
+  })
+
+  it('deve remover as imagens enviadas quando o template não é salvo', async () => {
+    mockFrom.mockReturnValueOnce(createQuery({ data: null, error: { message: 'duplicate key' } }))
+    mockUpload.mockResolvedValueOnce({ data: {}, error: null }).mockResolvedValueOnce({ data: null, error: { message: 'quota' } })
+    mockRemove.mockResolvedValue({ data: [], error: null })
+
+    const zip = createZip([
+      { name: 'index.html', data: Buffer.from('<img src="a.png"><img src="b.png"><p>Oi</p>') },
+      { name: 'a.png', data: Buffer.from([1]) },
+      { name: 'b.png', data: Buffer.from([2]) }
+    ])
+    const single = createZip([
+      { name: 'index.html', data: Buffer.from('<img src="a.png"><p>Oi</p>') },
+      { name: 'a.png', data: Buffer.from([1]) }
+    ])
+
+    const service = new TemplateTransferService()
+
+    // Second upload fails: the first image is removed
+    await expect(service.importTemplate('ws-1', { name: 'x.zip', data: zip })).rejects.toThrow('Error uploading b.png')
+    const [firstPath] = mockUpload.mock.calls[0]
+    expect(mockRemove).toHaveBeenCalledWith([firstPath])
+    expect(mockFrom).not.toHaveBeenCalled()
+
+    // Upload succeeds but the insert fails: the uploaded image is removed
+    mockUpload.mockResolvedValueOnce({ data: {}, error: null })
+    await expect(service.importTemplate('ws-1', { name: 'x.zip', data: single })).rejects.toThrow('Error saving imported template')
+    const [savedPath] = mockUpload.mock.calls[2]
+    expect(mockRemove).toHaveBeenLastCalledWith([savedPath])
+  })
+
+  it('deve exportar ZIP com as imagens do workspace', async () => {
+    const assetUrl = 'https://cdn.test/storage/v1/object/public/template-assets/ws-1/imp/logo.png'
+    mockFrom.mockReturnValueOnce(createQuery({
+      data: {
+        id: 'tpl-1',
+        name: 'Promoção de Verão',
+        subject: 'Verão',
+        html_content: `<html><body><img src="${assetUrl}"><img src="https://outro.com/x.png"></body></html>`,
+        text_content: 'Verão',
+        wysiwyg_data: null
+      },
+      error: null
+    }))
+    mockDownload.mockResolvedValue({
+      data: { arrayBuffer: () => Promise.resolve(new Uint8Array([9, 8, 7]).buffer) },
+      error: null
+    })
+
+    const service = new TemplateTransferService()
+    const file = await service.exportTemplate('ws-1', 'tpl-1', 'zip')
+
+    expect(file.fileName).toBe('promocao-de-verao.zip')
+    expect(mockDownload).toHaveBeenCalledWith('ws-1/imp/logo.png')
+
+    const entries = readZip(file.data)
+    expect(entries.map(entry => entry.name)).toEqual(['index.html', 'index.mjml', 'index.txt', 'images/logo.png'])
+    const html = entries[0].data.toString('utf8')
+    expect(html).toContain('<img src="images/logo.png">')
+    expect(html).toContain('<img src="https://outro.com/x.png">')
+    expect(entries[1].data.toString('utf8')).toContain('<mj-raw>')
+  })
+})
@@ -0,0 +1,158 @@
+// Testes do histórico de versões de templates
+
+const mockFrom = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args)
+  }
+}))
+
+import { TemplateVersionService, TemplateVersion, buildTemplateRestoreUpdate } from '../template-versions'
+import { diffLines, splitHtmlLines, diffTemplateVersions } from '../template-diff'
+
+function createVersion(overrides: Partial<TemplateVersion>): TemplateVersion {
+  return {
+    id: 'v1',
+    template_id: 'tpl-1',
+    workspace_id: 'ws-1',
+    version_number: 1,
+    name: 'Boas-vindas',
+    subject: 'Olá {{name}}',
+    html_content: '<div><p>Olá</p></div>',
+    text_content: null,
+    wysiwyg_data: null,
+    variables: ['name'],
+    created_by: 'user-1',
+    restored_from_version_id: null,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+// Chainable query builder; maybeSingle/single resolve to the given row
+function createQuery(row: any) {
+  const query: any = {
+    select: jest.fn(() => query),
+    update: jest.fn(() => query),
+    eq: jest.fn(() => query),
+    order: jest.fn(() => query),
+    limit: jest.fn(() => query),
+    maybeSingle: jest.fn(() => Promise.resolve({ data: row, error: null })),
+    single: jest.fn(() => Promise.resolve({ data: row, error: null }))
+  }
+  return query
+}
+
+describe('diffLines', () => {
+  it('deve marcar linhas adicionadas, removidas e iguais', () => {
+    const diff = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd'])
+
+    expect(diff.map(line => `${line.type}:${line.value}`)).toEqual([
+      'equal:a',
+      'removed:b',
+      'equal:c',
+      'added:x',
+      'equal:d'
+    ])
+  })
+
+  it('deve numerar as linhas de cada lado', () => {
+    const diff = diffLines(['a', 'b'], ['a', 'x', 'b'])
+
+    expect(diff[1]).toEqual({ type: 'added', value: 'x', newLine: 2 })
+    expect(diff[2]).toEqual({ type: 'equal', value: 'b', oldLine: 2, newLine: 3 })
+  })
+
+  it('deve quebrar o HTML entre tags', () => {
+    expect(splitHtmlLines('<div><p>Olá</p>  <p>Tchau</p></div>')).toEqual([
+      '<div>',
+      '<p>Olá</p>',
+      '<p>Tchau</p>',
+      '</div>'
+    ])
+  })
+
+  it('deve comparar assunto e conteúdo de duas versões', () => {
+    const from = createVersion({})
+    const to = createVersion({ subject: 'Bem-vindo {{name}}', html_content: '<div><p>Olá!</p></div>' })
+
+    const diff = diffTemplateVersions(from, to)
+
+    expect(diff.subject).toEqual({ old: 'Olá {{name}}', new: 'Bem-vindo {{name}}', changed: true })
+    expect(diff.summary).toEqual({ added: 1, removed: 1, unchanged: 2 })
+  })
+})
+
+describe('TemplateVersionService', () => {
+  beforeEach(() => {
+    mockFrom.mockReset()
+  })
+
+  it('deve restaurar uma versão gravando seu conteúdo como novo salvamento', async () => {
+    const version = createVersion({ id: 'v2', version_number: 2, wysiwyg_data: { components: [] } })
+    const latest = createVersion({ id: 'v4', version_number: 4, restored_from_version_id: 'v2' })
+    const templateUpdate = createQuery({ id: 'tpl-1', current_version: 4 })
+
+    mockFrom
+      .mockReturnValueOnce(createQuery(version))
+      .mockReturnValueOnce(templateUpdate)
+      .mockReturnValueOnce(createQuery(latest))
+
+    const service = new TemplateVersionService()
+    const result = await service.restoreVersion('ws-1', 'v2', 'user-9')
+
+    expect(mockFrom).toHaveBeenNthCalledWith(2, 'email_templates')
+    expect(templateUpdate.update).toHaveBeenCalledWith(expect.objectContaining({
+      subject: version.subject,
+      html_content: version.html_content,
+      wysiwyg_data: { components: [] },
+      restored_from_version_id: 'v2',
+      updated_by: 'user-9'
+    }))
+    expect(templateUpdate.eq).toHaveBeenCalledWith('workspace_id', 'ws-1')
+    expect(result.version.id).toBe('v4')
+  })
+
+  it('deve falhar ao restaurar versão inexistente', async () => {
+    mockFrom.mockReturnValueOnce(createQuery(null))
+
+    const service = new TemplateVersionService()
+
+    await expect(service.restoreVersion('ws-1', 'missing')).rejects.toThrow('Template version not found')
+  })
+
+  it('deve manter a versão já fixada na campanha', async () => {
+    const pinned = createVersion({ id: 'v1' })
+    mockFrom.mockReturnValueOnce(createQuery(pinned))
+
+    const service = new TemplateVersionService()
+    const result = await service.resolveCampaignVersion({
+      workspace_id: 'ws-1',
+      template_id: 'tpl-1',
+      template_version_id: 'v1'
+    })
+
+    expect(result).toBe(pinned)
+    expect(mockFrom).toHaveBeenCalledTimes(1)
+  })
+
+  it('deve fixar a última versão quando a campanha ainda não tem uma', async () => {
+    const latest = createVersion({ id: 'v3', version_number: 3 })
+    const query = createQuery(latest)
+    mockFrom.mockReturnValueOnce(query)
+
+    const service = new TemplateVersionService()
+    const result = await service.resolveCampaignVersion({ workspace_id: 'ws-1', template_id: 'tpl-1' })
+
+    expect(result?.id).toBe('v3')
+    expect(query.order).toHaveBeenCalledWith('version_number', { ascending: false })
+  })
+
+  it('deve gerar o payload de restauração sem autor quando não há sessão', () => {
+    const update = buildTemplateRestoreUpdate(createVersion({ variables: null }))
+
+    expect(update.updated_by).toBeNull()
+    expect(update.variables).toEqual([])
+  })
+})
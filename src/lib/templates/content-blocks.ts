@@ -0,0 +1,243 @@
+import { supabaseAdmin } from '../supabase'
+import { EmailComponent, SyncedBlockMap, getSyncedBlockIds, DEFAULT_DESIGN_SETTINGS } from './editor-html'
+import { compileEmail } from './email-compiler'
+import { validateEmailTemplate } from './email-template'
+
+export type ContentBlockCategory = 'header' | 'footer' | 'product_card' | 'social_links' | 'custom'
+
+export interface ContentBlock {
+  id: string
+  workspace_id: string
+  name: string
+  category: ContentBlockCategory
+  description: string | null
+  components: EmailComponent[]
+  is_synced: boolean
+  created_by: string | null
+  updated_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface NewContentBlock {
+  name: string
+  category?: ContentBlockCategory
+  description?: string | null
+  components: EmailComponent[]
+  is_synced?: boolean
+  created_by?: string | null
+}
+
+export type ContentBlockChanges = Partial<Pick<ContentBlock, 'name' | 'category' | 'description' | 'components'>>
+
+export const CONTENT_BLOCK_CATEGORIES: Record<ContentBlockCategory, string> = {
+  header: 'Cabeçalho',
+  footer: 'Rodapé',
+  product_card: 'Card de produto',
+  social_links: 'Redes sociais',
+  custom: 'Personalizado'
+}
+
+// Reference inserted into a template for a synced block
+export function createSyncedBlockComponent(block: Pick<ContentBlock, 'id' | 'name'>): EmailComponent {
+  return {
+    id: `synced_block_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: 'synced_block',
+    content: { blockId: block.id, blockName: block.name }
+  }
+}
+
+export class ContentBlockService {
+  // Used from the public API and the sync route, which scope by workspace themselves
+  private supabase = supabaseAdmin
+
+  async list(workspaceId: string, category?: ContentBlockCategory): Promise<ContentBlock[]> {
+    let query = this.supabase
+      .from('content_blocks')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+
+    if (category) {
+      query = query.eq('category', category)
+    }
+
+    const { data, error } = await query.order('name', { ascending: true })
+
+    if (error) {
+      throw new Error(`Error loading content blocks: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async get(workspaceId: string, blockId: string): Promise<ContentBlock | null> {
+    const { data, error } = await this.supabase
+      .from('content_blocks')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', blockId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading content block: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async create(workspaceId: string, input: NewContentBlock): Promise<ContentBlock> {
+    if (input.components.some(component => component.type === 'synced_block')) {
+      throw new Error('Content blocks cannot contain synced blocks')
+    }
+
+    const { data, error } = await this.supabase
+      .from('content_blocks')
+      .insert({
+        workspace_id: workspaceId,
+        name: input.name,
+        category: input.category || 'custom',
+        description: input.description || null,
+        components: input.components,
+        is_synced: input.is_synced || false,
+        created_by: input.created_by || null,
+        updated_by: input.created_by || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Error creating content block: ${error.message}`)
+    }
+
+    return data
+  }
+
+  // Editing a synced block re-renders every template that references it
+  async update(
+    workspaceId: string,
+    blockId: string,
+    changes: ContentBlockChanges,
+    userId?: string | null
+  ): Promise<{ block: ContentBlock; templatesUpdated: number }> {
+    if (changes.components?.some(component => component.type === 'synced_block')) {
+      throw new Error('Content blocks cannot contain synced blocks')
+    }
+
+    const { data: block, error } = await this.supabase
+      .from('content_blocks')
+      .update({ ...changes, updated_by: userId || null })
+      .eq('workspace_id', workspaceId)
+      .eq('id', blockId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Error updating content block: ${error.message}`)
+    }
+
+    const templatesUpdated = block.is_synced && changes.components
+      ? await this.syncBlock(workspaceId, blockId, userId)
+      : 0
+
+    return { block, templatesUpdated }
+  }
+
+  async delete(workspaceId: string, blockId: string): Promise<void> {
+    const block = await this.get(workspaceId, blockId)
+    if (!block) {
+      throw new Error('Content block not found')
+    }
+
+    if (block.is_synced) {
+      const templates = await this.findTemplatesUsingBlock(workspaceId, blockId)
+      if (templates.length > 0) {
+        throw new Error(`Content block is used by ${templates.length} template(s)`)
+      }
+    }
+
+    const { error } = await this.supabase
+      .from('content_blocks')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('id', blockId)
+
+    if (error) {
+      throw new Error(`Error deleting content block: ${error.message}`)
+    }
+  }
+
+  async getBlockMap(workspaceId: string, blockIds: string[]): Promise<SyncedBlockMap> {
+    if (blockIds.length === 0) return {}
+
+    const { data, error } = await this.supabase
+      .from('content_blocks')
+      .select('id, components')
+      .eq('workspace_id', workspaceId)
+      .in('id', blockIds)
+
+    if (error) {
+      throw new Error(`Error loading content blocks: ${error.message}`)
+    }
+
+    return Object.fromEntries((data || []).map(block => [block.id, block.components || []]))
+  }
+
+  async findTemplatesUsingBlock(
+    workspaceId: string,
+    blockId: string
+  ): Promise<{ id: string; subject: string; wysiwyg_data: any }[]> {
+    const { data, error } = await this.supabase
+      .from('email_templates')
+      .select('id, subject, wysiwyg_data')
+      .eq('workspace_id', workspaceId)
+      .contains('wysiwyg_data', { components: [{ content: { blockId } }] })
+
+    if (error) {
+      throw new Error(`Error loading templates using content block: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  // Regenerates the HTML of every template referencing the block; each becomes a new template version
+  async syncBlock(workspaceId: string, blockId: string, userId?: string | null): Promise<number> {
+    const templates = await this.findTemplatesUsingBlock(workspaceId, blockId)
+    if (templates.length === 0) return 0
+
+    const blockIds = new Set<string>()
+    templates.forEach(template => {
+      getSyncedBlockIds(template.wysiwyg_data?.components || []).forEach(id => blockIds.add(id))
+    })
+    const blocks = await this.getBlockMap(workspaceId, Array.from(blockIds))
+
+    for (const template of templates) {
+      const components: EmailComponent[] = template.wysiwyg_data?.components || []
+      const compiled = compileEmail(
+        { components, settings: template.wysiwyg_data?.settings || DEFAULT_DESIGN_SETTINGS },
+        template.subject,
+        blocks
+      )
+      const validation = validateEmailTemplate({ subject: template.subject, html: compiled.text })
+
+      const { error } = await this.supabase
+        .from('email_templates')
+        .update({
+          html_content: compiled.html,
+          text_content: compiled.text,
+          variables: validation.variables,
+          updated_by: userId || null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('workspace_id', workspaceId)
+        .eq('id', template.id)
+
+      if (error) {
+        throw new Error(`Error updating template ${template.id}: ${error.message}`)
+      }
+    }
+
+    return templates.length
+  }
+}
+
+export const contentBlockService = new ContentBlockService()
@@ -0,0 +1,75 @@
+// Block tree saved in email_templates.wysiwyg_data and content_blocks.components
+export interface EmailComponent {
+  id: string
+  type: 'text' | 'heading' | 'image' | 'button' | 'divider' | 'spacer' | 'columns' | 'synced_block'
+  content: {
+    text?: string
+    fontSize?: number
+    fontWeight?: string
+    color?: string
+    textAlign?: string
+    backgroundColor?: string
+    padding?: string
+    margin?: string
+    borderRadius?: string
+    href?: string
+    src?: string
+    alt?: string
+    width?: string
+    height?: string
+    columnCount?: number
+    columns?: EmailComponent[][]
+    // synced_block: renders the current components of this content block
+    blockId?: string
+    blockName?: string
+  }
+}
+
+export interface EmailDesignSettings {
+  backgroundColor: string
+  maxWidth: string
+  fontFamily: string
+}
+
+export interface EmailDesign {
+  components: EmailComponent[]
+  settings: EmailDesignSettings
+}
+
+// Synced block components by block id
+export type SyncedBlockMap = Record<string, EmailComponent[]>
+
+export const DEFAULT_DESIGN_SETTINGS: EmailDesignSettings = {
+  backgroundColor: '#f8fafc',
+  maxWidth: '600px',
+  fontFamily: 'Arial, sans-serif'
+}
+
+export function createComponentId(type: string): string {
+  return `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Fresh ids so inserted copies can be edited and reordered independently
+export function cloneComponents(components: EmailComponent[]): EmailComponent[] {
+  return components.map(component => ({
+    ...component,
+    id: createComponentId(component.type),
+    content: { ...component.content }
+  }))
+}
+
+export function getSyncedBlockIds(components: EmailComponent[]): string[] {
+  const ids = components
+    .filter(component => component.type === 'synced_block' && component.content.blockId)
+    .map(component => component.content.blockId as string)
+  return Array.from(new Set(ids))
+}
+
+// Replaces synced block references with the master components; blocks cannot nest
+export function expandSyncedBlocks(components: EmailComponent[], blocks: SyncedBlockMap): EmailComponent[] {
+  return components.flatMap(component => {
+    if (component.type !== 'synced_block') return [component]
+    const master = blocks[component.content.blockId || ''] || []
+    return master.filter(child => child.type !== 'synced_block')
+  })
+}
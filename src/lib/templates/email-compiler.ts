@@ -0,0 +1,314 @@
+import { EmailComponent, EmailDesign, SyncedBlockMap, DEFAULT_DESIGN_SETTINGS, expandSyncedBlocks } from './editor-html'
+
+export interface EmailCompileWarning {
+  code: 'gmail_clipping' | 'gmail_clipping_risk'
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface CompiledEmail {
+  html: string
+  text: string
+  // UTF-8 bytes of the HTML, which is what Gmail measures
+  size: number
+  warnings: EmailCompileWarning[]
+}
+
+// Gmail hides everything after the first 102KB of HTML behind "[Message clipped]"
+export const GMAIL_CLIP_LIMIT_BYTES = 102 * 1024
+// Personalization and tracking links add to the size, so warn before the hard limit
+const GMAIL_CLIP_WARNING_BYTES = 90 * 1024
+
+// Outlook ignores max-width, so the container needs a fixed pixel width there
+const FALLBACK_CONTAINER_WIDTH = 600
+
+const LINE_HEIGHT = '1.5'
+
+export function utf8ByteLength(value: string): number {
+  let bytes = 0
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte character
+      bytes += 4
+      i++
+    } else bytes += 3
+  }
+  return bytes
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Text keeps template tags intact; only markup characters are removed
+function textContent(text: string | undefined): string {
+  if (!text) return ''
+  return text.replace(/[<>]/g, '').trim()
+}
+
+// Values end up inside style="..." so anything that could close the attribute or the declaration is dropped
+function cssValue(value: string | number | undefined, fallback = ''): string {
+  if (value === undefined || value === null || value === '') return fallback
+  return String(value).replace(/["<>;{}\\]/g, '').trim() || fallback
+}
+
+function safeUrl(url: string | undefined): string {
+  if (!url) return '#'
+  // Template tags such as {{unsubscribe_url}} are resolved at send time
+  if (/^\{\{.*\}\}$/.test(url.trim())) return url.trim()
+  try {
+    const parsed = new URL(url)
+    if (['http:', 'https:', 'mailto:', 'tel:'].includes(parsed.protocol)) {
+      return url
+    }
+  } catch {
+    // Not a valid URL
+  }
+  return '#'
+}
+
+function pixels(value: string | undefined): number | null {
+  const match = /^(\d+(?:\.\d+)?)px$/.exec((value || '').trim())
+  return match ? Math.round(parseFloat(match[1])) : null
+}
+
+function isVisibleColor(color: string | undefined): color is string {
+  return !!color && color !== 'transparent'
+}
+
+// Gmail's dark mode keeps colors set through bgcolor attributes more reliably than CSS alone
+function backgroundAttributes(color: string | undefined): { attr: string; style: string } {
+  if (!isVisibleColor(color)) return { attr: '', style: '' }
+  const value = cssValue(color)
+  return { attr: ` bgcolor="${escapeAttribute(value)}"`, style: `background-color:${value};` }
+}
+
+interface CompileContext {
+  fontFamily: string
+  // Width available to the current component, used for image and column widths in Outlook
+  width: number
+}
+
+function compileText(component: EmailComponent, context: CompileContext): string {
+  const { content } = component
+  const align = cssValue(content.textAlign, 'left')
+  const background = backgroundAttributes(content.backgroundColor)
+
+  return `<tr><td align="${align}"${background.attr} style="padding:${cssValue(content.padding, '0')};${background.style}">` +
+    `<div style="font-family:${cssValue(context.fontFamily)};font-size:${cssValue(content.fontSize, '16')}px;` +
+    `font-weight:${cssValue(content.fontWeight, 'normal')};line-height:${LINE_HEIGHT};color:${cssValue(content.color, '#000000')};` +
+    `text-align:${align};margin:${cssValue(content.margin, '0')};">${textContent(content.text)}</div></td></tr>`
+}
+
+function compileImage(component: EmailComponent, context: CompileContext): string {
+  const { content } = component
+  const explicitWidth = pixels(content.width)
+  const width = explicitWidth ? Math.min(explicitWidth, context.width) : context.width
+  const height = pixels(content.height)
+
+  return `<tr><td align="center" style="padding:${cssValue(content.padding, '0')};">` +
+    `<img src="${escapeAttribute(safeUrl(content.src))}" alt="${escapeAttribute(textContent(content.alt))}" width="${width}"` +
+    `${height ? ` height="${height}"` : ''} style="display:block;width:100%;max-width:${width}px;` +
+    `height:${height ? `${height}px` : 'auto'};border:0;outline:none;text-decoration:none;" /></td></tr>`
+}
+
+// Table-wrapped link: Outlook drops padding on <a> but keeps the cell background, so the button stays visible
+function compileButton(component: EmailComponent, context: CompileContext): string {
+  const { content } = component
+  const align = cssValue(content.textAlign, 'center')
+  const background = cssValue(content.backgroundColor, '#2563eb')
+  const radius = cssValue(content.borderRadius, '0')
+  const font = `font-family:${cssValue(context.fontFamily)};font-size:${cssValue(content.fontSize, '16')}px;` +
+    `font-weight:${cssValue(content.fontWeight, 'normal')};line-height:120%;`
+
+  return `<tr><td align="${align}" style="padding:${cssValue(content.margin, '0')};">` +
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" style="border-collapse:separate;line-height:100%;">` +
+    `<tr><td align="center" bgcolor="${escapeAttribute(background)}" role="presentation" valign="middle" ` +
+    `style="border:none;border-radius:${radius};background:${background};">` +
+    `<a href="${escapeAttribute(safeUrl(content.href))}" target="_blank" style="display:inline-block;background:${background};` +
+    `color:${cssValue(content.color, '#ffffff')};${font}margin:0;text-decoration:none;text-transform:none;` +
+    `padding:${cssValue(content.padding, '12px 24px')};mso-padding-alt:0px;border-radius:${radius};">` +
+    `${textContent(content.text)}</a></td></tr></table></td></tr>`
+}
+
+function compileDivider(component: EmailComponent): string {
+  const { content } = component
+  const thickness = cssValue(content.height, '1px')
+  const color = cssValue(content.backgroundColor, '#e5e7eb')
+  const border = `border-top:solid ${thickness} ${color};`
+
+  return `<tr><td style="padding:${cssValue(content.margin, '0')};font-size:0;line-height:0;">` +
+    `<p style="${border}font-size:1px;margin:0 auto;width:100%;"></p>` +
+    `<!--[if mso | IE]><table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="${border}font-size:1px;margin:0 auto;">` +
+    `<tr><td style="height:0;line-height:0;">&nbsp;</td></tr></table><![endif]--></td></tr>`
+}
+
+function compileSpacer(component: EmailComponent): string {
+  const { content } = component
+  const height = cssValue(content.height, '16px')
+  const background = backgroundAttributes(content.backgroundColor)
+  const heightAttribute = pixels(height)
+
+  return `<tr><td${background.attr}${heightAttribute ? ` height="${heightAttribute}"` : ''} ` +
+    `style="height:${height};line-height:${height};font-size:0;mso-line-height-rule:exactly;${background.style}">&#8202;</td></tr>`
+}
+
+// Columns sit side by side on desktop and stack below 480px; Outlook gets a fixed-width table instead
+function compileColumns(component: EmailComponent, context: CompileContext): string {
+  const { content } = component
+  const columns = content.columns && content.columns.length > 0
+    ? content.columns
+    : Array.from({ length: content.columnCount || 2 }, () => [] as EmailComponent[])
+  const percent = Math.floor((100 / columns.length) * 1000) / 1000
+  const columnWidth = Math.floor(context.width / columns.length)
+  const columnContext = { ...context, width: columnWidth }
+
+  const cells = columns.map(children => {
+    const rows = children.map(child => compileComponent(child, columnContext)).join('')
+    return `<div class="mg-column" style="display:inline-block;vertical-align:top;width:100%;max-width:${percent}%;font-size:0;text-align:left;">` +
+      `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tbody>${rows}</tbody></table></div>`
+  })
+
+  const msoCell = `<td style="vertical-align:top;width:${columnWidth}px;">`
+
+  return `<tr><td style="padding:${cssValue(content.padding, '0')};font-size:0;text-align:center;">` +
+    `<!--[if mso | IE]><table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tr>${msoCell}<![endif]-->` +
+    cells.join(`<!--[if mso | IE]></td>${msoCell}<![endif]-->`) +
+    `<!--[if mso | IE]></td></tr></table><![endif]--></td></tr>`
+}
+
+function compileComponent(component: EmailComponent, context: CompileContext): string {
+  switch (component.type) {
+    case 'heading':
+    case 'text':
+      return compileText(component, context)
+    case 'image':
+      return compileImage(component, context)
+    case 'button':
+      return compileButton(component, context)
+    case 'divider':
+      return compileDivider(component)
+    case 'spacer':
+      return compileSpacer(component)
+    case 'columns':
+      return compileColumns(component, context)
+    default:
+      return ''
+  }
+}
+
+function componentText(component: EmailComponent): string {
+  const { content } = component
+
+  switch (component.type) {
+    case 'heading':
+    case 'text':
+      return textContent(content.text)
+    case 'button': {
+      const href = safeUrl(content.href)
+      const label = textContent(content.text)
+      return href === '#' ? label : `${label}: ${href}`
+    }
+    case 'image':
+      return content.alt ? `[${textContent(content.alt)}]` : ''
+    case 'divider':
+      return '----------'
+    case 'columns':
+      return (content.columns || []).flat().map(componentText).filter(Boolean).join('\n\n')
+    default:
+      return ''
+  }
+}
+
+// Plain-text alternative built from the same component tree, keeping template tags for the renderer
+export function compilePlainText(components: EmailComponent[], blocks: SyncedBlockMap = {}): string {
+  return expandSyncedBlocks(components, blocks)
+    .map(componentText)
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+export function checkEmailSize(size: number): EmailCompileWarning[] {
+  if (size > GMAIL_CLIP_LIMIT_BYTES) {
+    return [{
+      code: 'gmail_clipping',
+      severity: 'error',
+      message: `HTML is ${formatBytes(size)}; Gmail clips messages over ${formatBytes(GMAIL_CLIP_LIMIT_BYTES)}`
+    }]
+  }
+
+  if (size > GMAIL_CLIP_WARNING_BYTES) {
+    return [{
+      code: 'gmail_clipping_risk',
+      severity: 'warning',
+      message: `HTML is ${formatBytes(size)}; personalization and tracking may push it over Gmail's ${formatBytes(GMAIL_CLIP_LIMIT_BYTES)} limit`
+    }]
+  }
+
+  return []
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+// Table-based, inline-styled HTML with Outlook (MSO) fallbacks, equivalent to what MJML produces
+export function compileEmail(design: EmailDesign, subject: string, blocks: SyncedBlockMap = {}): CompiledEmail {
+  const settings = { ...DEFAULT_DESIGN_SETTINGS, ...design.settings }
+  const containerWidth = pixels(settings.maxWidth) || FALLBACK_CONTAINER_WIDTH
+  const maxWidth = pixels(settings.maxWidth) ? `${containerWidth}px` : '100%'
+  const background = cssValue(settings.backgroundColor, '#ffffff')
+  const fontFamily = cssValue(settings.fontFamily, 'Arial, sans-serif')
+
+  const components = expandSyncedBlocks(design.components, blocks)
+  const rows = components.map(component => compileComponent(component, { fontFamily, width: containerWidth })).join('\n')
+
+  const html = `<!doctype html>
+<html lang="pt-BR" xmlns="http://www.w3.org/1999/xhtml" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
+<head>
+<title>${subject.replace(/[<>]/g, '')}</title>
+<!--[if !mso]><!--><meta http-equiv="X-UA-Compatible" content="IE=edge"><!--<![endif]-->
+<meta http-equiv="Content-Type" content="text/html; charset=UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="color-scheme" content="light">
+<meta name="supported-color-schemes" content="light">
+<style type="text/css">
+#outlook a { padding:0; }
+body { margin:0; padding:0; -webkit-text-size-adjust:100%; -ms-text-size-adjust:100%; }
+table, td { border-collapse:collapse; mso-table-lspace:0pt; mso-table-rspace:0pt; }
+img { border:0; height:auto; line-height:100%; outline:none; text-decoration:none; -ms-interpolation-mode:bicubic; }
+:root { color-scheme:light; supported-color-schemes:light; }
+@media only screen and (max-width:480px) {
+  .mg-column { max-width:100% !important; width:100% !important; }
+  .mg-container { width:100% !important; }
+}
+</style>
+<!--[if mso]><noscript><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript><![endif]-->
+</head>
+<body style="margin:0;padding:0;word-spacing:normal;background-color:${background};">
+<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" bgcolor="${escapeAttribute(background)}" style="background-color:${background};">
+<tr><td align="center">
+<!--[if mso | IE]><table role="presentation" border="0" cellpadding="0" cellspacing="0" width="${containerWidth}" align="center" style="width:${containerWidth}px;"><tr><td><![endif]-->
+<table class="mg-container" role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" bgcolor="#ffffff" style="max-width:${maxWidth};margin:0 auto;background-color:#ffffff;font-family:${fontFamily};">
+<tbody>
+${rows}
+</tbody>
+</table>
+<!--[if mso | IE]></td></tr></table><![endif]-->
+</td></tr>
+</table>
+</body>
+</html>`
+
+  const size = utf8ByteLength(html)
+
+  return {
+    html,
+    text: compilePlainText(design.components, blocks),
+    size,
+    warnings: checkEmailSize(size)
+  }
+}
@@ -0,0 +1,129 @@
+import { renderTemplate, validateTemplate, TemplateRenderOptions, TemplateDiagnostic } from './template-renderer'
+
+export interface EmailTemplateContent {
+  subject: string
+  html: string
+  text?: string
+}
+
+export interface TemplateLead {
+  id?: string
+  name?: string | null
+  email: string
+  company?: string | null
+  position?: string | null
+  phone?: string | null
+  custom_fields?: Record<string, any> | null
+  [key: string]: any
+}
+
+export interface EmailTemplateValidation {
+  valid: boolean
+  errors: (TemplateDiagnostic & { field: keyof EmailTemplateContent })[]
+  variables: string[]
+  unknownVariables: string[]
+}
+
+// Shown when a lead has no name, e.g. "Olá {{name}}"
+const DEFAULT_LEAD_NAME = 'Cliente'
+
+// Variables every send path provides; lead custom fields are added on top
+export const STANDARD_TEMPLATE_VARIABLES = [
+  'name',
+  'first_name',
+  'email',
+  'company',
+  'position',
+  'phone',
+  'custom_fields',
+  'lead',
+  'unsubscribe_url',
+  'preferences_url'
+]
+
+// Custom fields are exposed both at the top level ({{plan}}) and as an object to loop over
+export function buildLeadTemplateContext(lead: TemplateLead, extras: Record<string, any> = {}): Record<string, any> {
+  const customFields = lead.custom_fields || {}
+  const name = lead.name || DEFAULT_LEAD_NAME
+
+  return {
+    name,
+    first_name: name.split(/\s+/)[0],
+    email: lead.email,
+    company: lead.company || '',
+    position: lead.position || '',
+    phone: lead.phone || '',
+    ...customFields,
+    custom_fields: customFields,
+    lead,
+    ...extras
+  }
+}
+
+// Subject and text are plain text; only the HTML body is escaped
+export function renderEmailContent(
+  content: EmailTemplateContent,
+  context: Record<string, any>,
+  options: Omit<TemplateRenderOptions, 'escape'> = {}
+): EmailTemplateContent {
+  return {
+    subject: renderTemplate(content.subject, context, { ...options, escape: false }),
+    html: renderTemplate(content.html, context, { ...options, escape: true }),
+    text: content.text ? renderTemplate(content.text, context, { ...options, escape: false }) : undefined
+  }
+}
+
+export function validateEmailTemplate(
+  content: Partial<EmailTemplateContent>,
+  knownVariables: string[] = STANDARD_TEMPLATE_VARIABLES
+): EmailTemplateValidation {
+  const fields: (keyof EmailTemplateContent)[] = ['subject', 'html', 'text']
+  const errors: EmailTemplateValidation['errors'] = []
+  const variables = new Set<string>()
+  const unknownVariables = new Set<string>()
+
+  for (const field of fields) {
+    const source = content[field]
+    if (!source) continue
+
+    const result = validateTemplate(source, knownVariables)
+    result.errors.forEach(error => errors.push({ ...error, field }))
+    result.variables.forEach(variable => variables.add(variable))
+    result.unknownVariables.forEach(variable => unknownVariables.add(variable))
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    variables: Array.from(variables),
+    unknownVariables: Array.from(unknownVariables)
+  }
+}
+
+export function formatTemplateErrors(validation: EmailTemplateValidation): string {
+  return validation.errors.map(error => `${error.field}: ${error.message}`).join(', ')
+}
+
+// Sample lead for editor and template previews
+export const PREVIEW_LEAD: TemplateLead = {
+  name: 'Maria Silva',
+  email: 'maria@exemplo.com',
+  company: 'Empresa Exemplo',
+  position: 'Gerente de Marketing',
+  phone: '(11) 99999-9999',
+  custom_fields: { plano: 'Pro', cidade: 'São Paulo' }
+}
+
+// Renders with sample data; content is returned unrendered when the template has syntax errors
+export function renderTemplatePreview(
+  content: EmailTemplateContent,
+  lead: TemplateLead = PREVIEW_LEAD
+): { content: EmailTemplateContent; validation: EmailTemplateValidation } {
+  const validation = validateEmailTemplate(content, [...STANDARD_TEMPLATE_VARIABLES, ...Object.keys(lead.custom_fields || {})])
+  if (!validation.valid) {
+    return { content, validation }
+  }
+
+  const context = buildLeadTemplateContext(lead, { unsubscribe_url: '#', preferences_url: '#' })
+  return { content: renderEmailContent(content, context), validation }
+}
@@ -0,0 +1,433 @@
+import { EmailComponent, EmailDesign, EmailDesignSettings, SyncedBlockMap, DEFAULT_DESIGN_SETTINGS, createComponentId, expandSyncedBlocks } from './editor-html'
+
+// MJML import/export for the visual editor: maps the MJML body onto editor components and back.
+// Only the layout the editor can represent is kept; everything else is reported as a warning.
+
+export interface MjmlImportResult {
+  design: EmailDesign
+  subject?: string
+  warnings: string[]
+}
+
+interface MjmlNode {
+  tag: string
+  attributes: Record<string, string>
+  children: MjmlNode[]
+  // Raw inner markup of ending tags such as mj-text and mj-button
+  content?: string
+}
+
+// Tags whose content is HTML rather than MJML
+const ENDING_TAGS = ['mj-text', 'mj-button', 'mj-raw', 'mj-table', 'mj-title', 'mj-preview', 'mj-style', 'mj-navbar-link', 'mj-social-element']
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<(\/?)(mj[\w-]*)((?:\s+[\w:-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g
+const ATTRIBUTE_PATTERN = /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+// Defaults from the MJML documentation, applied when an attribute is missing
+const MJML_DEFAULTS = {
+  padding: '10px 25px',
+  fontSize: 13,
+  color: '#000000',
+  buttonBackground: '#414141',
+  buttonInnerPadding: '10px 25px',
+  buttonRadius: '3px',
+  dividerWidth: '4px',
+  dividerColor: '#000000',
+  spacerHeight: '20px'
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+function parseMjmlTree(source: string): MjmlNode {
+  const root: MjmlNode = { tag: '#root', attributes: {}, children: [] }
+  const stack: MjmlNode[] = [root]
+  const pattern = new RegExp(TAG_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(source)) !== null) {
+    const [full, closing, rawTag, rawAttributes, selfClosing] = match
+    if (full.startsWith('<!--')) continue
+
+    const tag = rawTag.toLowerCase()
+    const parent = stack[stack.length - 1]
+
+    if (closing) {
+      const index = stack.map(node => node.tag).lastIndexOf(tag)
+      if (index <= 0) {
+        throw new Error(`Invalid MJML: unexpected </${tag}>`)
+      }
+      stack.length = index
+      continue
+    }
+
+    const node: MjmlNode = { tag, attributes: parseAttributes(rawAttributes || ''), children: [] }
+    parent.children.push(node)
+
+    if (selfClosing) continue
+
+    if (ENDING_TAGS.includes(tag)) {
+      const end = source.toLowerCase().indexOf(`</${tag}>`, pattern.lastIndex)
+      if (end === -1) {
+        throw new Error(`Invalid MJML: <${tag}> is not closed`)
+      }
+      node.content = source.slice(pattern.lastIndex, end)
+      pattern.lastIndex = end + tag.length + 3
+      continue
+    }
+
+    stack.push(node)
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid MJML: <${stack[stack.length - 1].tag}> is not closed`)
+  }
+
+  return root
+}
+
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+// Editor text components are plain text: block tags become line breaks and inline markup is dropped
+export function htmlToPlainText(html: string): string {
+  const text = html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function fontSize(value: string | undefined, fallback: number): number {
+  const size = parseInt(value || '', 10)
+  return Number.isFinite(size) && size > 0 ? size : fallback
+}
+
+function convertText(node: MjmlNode, warnings: Set<string>): EmailComponent {
+  const content = node.content || ''
+  const headingMatch = /^\s*<h([1-6])[^>]*>[\s\S]*<\/h\1>\s*$/i.exec(content)
+
+  if (/<a\s/i.test(content)) {
+    warnings.add('Links inside mj-text were converted to plain text')
+  }
+
+  const type = headingMatch ? 'heading' : 'text'
+  return {
+    id: createComponentId(type),
+    type,
+    content: {
+      text: htmlToPlainText(content),
+      fontSize: fontSize(node.attributes['font-size'], headingMatch ? 24 : MJML_DEFAULTS.fontSize),
+      fontWeight: node.attributes['font-weight'] || (headingMatch ? 'bold' : 'normal'),
+      color: node.attributes.color || MJML_DEFAULTS.color,
+      textAlign: node.attributes.align || 'left',
+      backgroundColor: node.attributes['container-background-color'] || 'transparent',
+      padding: node.attributes.padding || MJML_DEFAULTS.padding,
+      margin: '0'
+    }
+  }
+}
+
+function convertImage(node: MjmlNode, warnings: Set<string>): EmailComponent {
+  if (node.attributes.href) {
+    warnings.add('Image links (mj-image href) are not supported and were removed')
+  }
+
+  return {
+    id: createComponentId('image'),
+    type: 'image',
+    content: {
+      src: node.attributes.src || '',
+      alt: node.attributes.alt || '',
+      width: node.attributes.width || '100%',
+      height: node.attributes.height || 'auto',
+      padding: node.attributes.padding || MJML_DEFAULTS.padding,
+      margin: '0'
+    }
+  }
+}
+
+function convertButton(node: MjmlNode): EmailComponent {
+  return {
+    id: createComponentId('button'),
+    type: 'button',
+    content: {
+      text: htmlToPlainText(node.content || ''),
+      href: node.attributes.href || '#',
+      backgroundColor: node.attributes['background-color'] || MJML_DEFAULTS.buttonBackground,
+      color: node.attributes.color || '#ffffff',
+      fontSize: fontSize(node.attributes['font-size'], MJML_DEFAULTS.fontSize),
+      fontWeight: node.attributes['font-weight'] || 'normal',
+      padding: node.attributes['inner-padding'] || MJML_DEFAULTS.buttonInnerPadding,
+      borderRadius: node.attributes['border-radius'] || MJML_DEFAULTS.buttonRadius,
+      textAlign: node.attributes.align || 'center',
+      margin: node.attributes.padding || MJML_DEFAULTS.padding
+    }
+  }
+}
+
+function convertContent(node: MjmlNode, warnings: Set<string>): EmailComponent | null {
+  switch (node.tag) {
+    case 'mj-text':
+      return convertText(node, warnings)
+    case 'mj-image':
+      return convertImage(node, warnings)
+    case 'mj-button':
+      return convertButton(node)
+    case 'mj-divider':
+      return {
+        id: createComponentId('divider'),
+        type: 'divider',
+        content: {
+          height: node.attributes['border-width'] || MJML_DEFAULTS.dividerWidth,
+          backgroundColor: node.attributes['border-color'] || MJML_DEFAULTS.dividerColor,
+          margin: node.attributes.padding || MJML_DEFAULTS.padding
+        }
+      }
+    case 'mj-spacer':
+      return {
+        id: createComponentId('spacer'),
+        type: 'spacer',
+        content: {
+          height: node.attributes.height || MJML_DEFAULTS.spacerHeight,
+          backgroundColor: node.attributes['container-background-color'] || 'transparent'
+        }
+      }
+    default:
+      warnings.add(`<${node.tag}> is not supported by the visual editor and was skipped`)
+      return null
+  }
+}
+
+function convertColumn(column: MjmlNode, warnings: Set<string>): EmailComponent[] {
+  return column.children
+    .map(child => convertContent(child, warnings))
+    .filter((component): component is EmailComponent => component !== null)
+}
+
+// Sections become a run of components, or a columns component when they hold several columns
+function convertSection(section: MjmlNode, warnings: Set<string>): EmailComponent[] {
+  if (section.attributes['background-color'] || section.attributes['background-url']) {
+    warnings.add('Section backgrounds are not supported and were removed')
+  }
+
+  const columns = section.children.flatMap(child => {
+    if (child.tag === 'mj-column') return [child]
+    if (child.tag === 'mj-group') return child.children.filter(grandchild => grandchild.tag === 'mj-column')
+    warnings.add(`<${child.tag}> is not supported inside <${section.tag}> and was skipped`)
+    return []
+  })
+
+  if (columns.length === 1) {
+    return convertColumn(columns[0], warnings)
+  }
+
+  if (columns.length === 0) return []
+
+  return [{
+    id: createComponentId('columns'),
+    type: 'columns',
+    content: {
+      columnCount: columns.length,
+      columns: columns.map(column => convertColumn(column, warnings)),
+      padding: section.attributes.padding || '0'
+    }
+  }]
+}
+
+function convertBody(body: MjmlNode, warnings: Set<string>): EmailComponent[] {
+  return body.children.flatMap(child => {
+    if (child.tag === 'mj-section') return convertSection(child, warnings)
+    // Wrappers only group sections visually
+    if (child.tag === 'mj-wrapper') return convertBody(child, warnings)
+    const component = convertContent(child, warnings)
+    return component ? [component] : []
+  })
+}
+
+export function parseMjml(source: string): MjmlImportResult {
+  const root = parseMjmlTree(source)
+  const mjml = root.children.find(node => node.tag === 'mjml')
+  const body = mjml?.children.find(node => node.tag === 'mj-body')
+
+  if (!mjml || !body) {
+    throw new Error('Invalid MJML: expected <mjml> with an <mj-body>')
+  }
+
+  const warnings = new Set<string>()
+  const head = mjml.children.find(node => node.tag === 'mj-head')
+  const title = head?.children.find(node => node.tag === 'mj-title')
+
+  const settings: EmailDesignSettings = {
+    backgroundColor: body.attributes['background-color'] || '#ffffff',
+    maxWidth: body.attributes.width || DEFAULT_DESIGN_SETTINGS.maxWidth,
+    fontFamily: DEFAULT_DESIGN_SETTINGS.fontFamily
+  }
+
+  head?.children.forEach(node => {
+    if (node.tag === 'mj-attributes') {
+      const all = node.children.find(child => child.tag === 'mj-all')
+      if (all?.attributes['font-family']) {
+        settings.fontFamily = all.attributes['font-family']
+      }
+      if (node.children.some(child => child.tag !== 'mj-all')) {
+        warnings.add('Only mj-all font-family is read from <mj-attributes>')
+      }
+    } else if (node.tag === 'mj-style' || node.tag === 'mj-font' || node.tag === 'mj-breakpoint') {
+      warnings.add(`<${node.tag}> is not supported and was ignored`)
+    }
+  })
+
+  const subject = title?.content ? htmlToPlainText(title.content) : undefined
+
+  return {
+    design: { components: convertBody(body, warnings), settings },
+    subject: subject || undefined,
+    warnings: Array.from(warnings)
+  }
+}
+
+function escapeMjmlAttribute(value: string | number): string {
+  return String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Template tags are kept as is; only markup characters are escaped
+function escapeMjmlText(value: string | undefined): string {
+  return (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br />')
+}
+
+function mjmlAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '' && value !== 'transparent')
+    .map(([name, value]) => ` ${name}="${escapeMjmlAttribute(value as string | number)}"`)
+    .join('')
+}
+
+function componentToMjml(component: EmailComponent, indent: string): string {
+  const { content } = component
+
+  switch (component.type) {
+    case 'heading':
+    case 'text':
+      return `${indent}<mj-text${mjmlAttributes({
+        'font-size': content.fontSize ? `${content.fontSize}px` : undefined,
+        'font-weight': content.fontWeight,
+        color: content.color,
+        align: content.textAlign,
+        'container-background-color': content.backgroundColor,
+        padding: content.padding
+      })}>${component.type === 'heading'
+        // Headings keep their tag so a re-import maps them back to heading components
+        ? `<h1 style="margin:0;font-size:inherit;font-weight:inherit;">${escapeMjmlText(content.text)}</h1>`
+        : escapeMjmlText(content.text)}</mj-text>`
+    case 'image':
+      return `${indent}<mj-image${mjmlAttributes({
+        src: content.src,
+        alt: content.alt,
+        width: content.width && content.width.endsWith('px') ? content.width : undefined,
+        height: content.height && content.height.endsWith('px') ? content.height : undefined,
+        padding: content.padding
+      })} />`
+    case 'button':
+      return `${indent}<mj-button${mjmlAttributes({
+        href: content.href,
+        'background-color': content.backgroundColor,
+        color: content.color,
+        'font-size': content.fontSize ? `${content.fontSize}px` : undefined,
+        'font-weight': content.fontWeight,
+        'border-radius': content.borderRadius,
+        'inner-padding': content.padding,
+        align: content.textAlign,
+        padding: content.margin
+      })}>${escapeMjmlText(content.text)}</mj-button>`
+    case 'divider':
+      return `${indent}<mj-divider${mjmlAttributes({
+        'border-width': content.height,
+        'border-color': content.backgroundColor,
+        padding: content.margin
+      })} />`
+    case 'spacer':
+      return `${indent}<mj-spacer${mjmlAttributes({
+        height: content.height,
+        'container-background-color': content.backgroundColor
+      })} />`
+    default:
+      return ''
+  }
+}
+
+function sectionToMjml(columns: EmailComponent[][], padding?: string): string {
+  const body = columns.map(children => [
+    '      <mj-column>',
+    ...children.map(child => componentToMjml(child, '        ')).filter(Boolean),
+    '      </mj-column>'
+  ].join('\n'))
+
+  return [`    <mj-section${mjmlAttributes({ padding: padding || '0' })}>`, ...body, '    </mj-section>'].join('\n')
+}
+
+function mjmlDocument(subject: string, settings: Partial<EmailDesignSettings>, sections: string[]): string {
+  return `<mjml>
+  <mj-head>
+    <mj-title>${escapeMjmlText(subject)}</mj-title>
+    <mj-attributes>
+      <mj-all${mjmlAttributes({ 'font-family': settings.fontFamily })} />
+    </mj-attributes>
+  </mj-head>
+  <mj-body${mjmlAttributes({ 'background-color': settings.backgroundColor, width: settings.maxWidth })}>
+${sections.join('\n')}
+  </mj-body>
+</mjml>
+`
+}
+
+// Consecutive components share one full-width section; columns components get their own section
+export function designToMjml(design: EmailDesign, subject: string, blocks: SyncedBlockMap = {}): string {
+  const settings = { ...DEFAULT_DESIGN_SETTINGS, ...design.settings }
+  const sections: string[] = []
+  let run: EmailComponent[] = []
+
+  const flush = () => {
+    if (run.length > 0) sections.push(sectionToMjml([run]))
+    run = []
+  }
+
+  for (const component of expandSyncedBlocks(design.components, blocks)) {
+    if (component.type === 'columns') {
+      flush()
+      sections.push(sectionToMjml(component.content.columns || [], component.content.padding))
+    } else {
+      run.push(component)
+    }
+  }
+  flush()
+
+  return mjmlDocument(subject, settings, sections)
+}
+
+// Templates written in HTML are exported with their body as mj-raw, which MJML passes through untouched
+export function htmlToMjml(html: string, subject: string): string {
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html
+  return mjmlDocument(subject, {}, [`    <mj-raw>\n${body.trim()}\n    </mj-raw>`])
+}
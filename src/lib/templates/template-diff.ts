@@ -0,0 +1,147 @@
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  value: string
+  oldLine?: number
+  newLine?: number
+}
+
+export interface TemplateDiffSummary {
+  added: number
+  removed: number
+  unchanged: number
+}
+
+// LCS table grows with old x new lines; larger inputs fall back to a plain replace
+const MAX_DIFF_CELLS = 4_000_000
+
+// Editor HTML is mostly a single line, so break it between tags before diffing
+export function splitHtmlLines(html: string): string[] {
+  if (!html) return []
+
+  return html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+}
+
+export function splitTextLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n/g, '\n').split('\n')
+}
+
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Common prefix and suffix are trimmed first so small edits to large templates stay cheap
+  let start = 0
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++
+  }
+
+  let oldEnd = oldLines.length
+  let newEnd = newLines.length
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+
+  const result: DiffLine[] = []
+  for (let i = 0; i < start; i++) {
+    result.push({ type: 'equal', value: oldLines[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd)
+  const newMiddle = newLines.slice(start, newEnd)
+  const rows = oldMiddle.length
+  const cols = newMiddle.length
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    oldMiddle.forEach((value, i) => result.push({ type: 'removed', value, oldLine: start + i + 1 }))
+    newMiddle.forEach((value, j) => result.push({ type: 'added', value, newLine: start + j + 1 }))
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths: Uint32Array[] = []
+    for (let i = 0; i <= rows; i++) {
+      lengths.push(new Uint32Array(cols + 1))
+    }
+
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'equal', value: oldMiddle[i], oldLine: start + i + 1, newLine: start + j + 1 })
+        i++
+        j++
+      } else if (j < cols && (i >= rows || lengths[i][j + 1] >= lengths[i + 1][j])) {
+        result.push({ type: 'added', value: newMiddle[j], newLine: start + j + 1 })
+        j++
+      } else {
+        result.push({ type: 'removed', value: oldMiddle[i], oldLine: start + i + 1 })
+        i++
+      }
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({
+      type: 'equal',
+      value: oldLines[oldEnd + k],
+      oldLine: oldEnd + k + 1,
+      newLine: newEnd + k + 1
+    })
+  }
+
+  return result
+}
+
+export function summarizeDiff(diff: DiffLine[]): TemplateDiffSummary {
+  return diff.reduce(
+    (summary, line) => {
+      if (line.type === 'added') summary.added++
+      else if (line.type === 'removed') summary.removed++
+      else summary.unchanged++
+      return summary
+    },
+    { added: 0, removed: 0, unchanged: 0 }
+  )
+}
+
+export interface TemplateVersionContent {
+  subject: string
+  html_content: string | null
+  text_content: string | null
+}
+
+export interface TemplateVersionDiff {
+  subject: { old: string; new: string; changed: boolean }
+  html: DiffLine[]
+  text: DiffLine[]
+  summary: TemplateDiffSummary
+}
+
+export function diffTemplateVersions(from: TemplateVersionContent, to: TemplateVersionContent): TemplateVersionDiff {
+  const html = diffLines(splitHtmlLines(from.html_content || ''), splitHtmlLines(to.html_content || ''))
+  const text = diffLines(splitTextLines(from.text_content || ''), splitTextLines(to.text_content || ''))
+  const htmlSummary = summarizeDiff(html)
+  const textSummary = summarizeDiff(text)
+
+  return {
+    subject: { old: from.subject, new: to.subject, changed: from.subject !== to.subject },
+    html,
+    text,
+    summary: {
+      added: htmlSummary.added + textSummary.added,
+      removed: htmlSummary.removed + textSummary.removed,
+      unchanged: htmlSummary.unchanged + textSummary.unchanged
+    }
+  }
+}
@@ -0,0 +1,981 @@
+// Liquid-compatible template engine shared by every send path and the template editor.
+// Also understands the Handlebars block forms ({{#if}}, {{#unless}}, {{#each}}, {{{raw}}})
+// so templates written for either syntax keep working. Pure module: safe to import client-side.
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+export interface TemplateRenderOptions {
+  // HTML-escape output by default; opt out per value with the `raw` filter or {{{ }}}
+  escape?: boolean
+  locale?: string
+  timezone?: string
+  currency?: string
+}
+
+export interface TemplateDiagnostic {
+  message: string
+  line: number
+}
+
+export interface TemplateValidationResult {
+  valid: boolean
+  errors: TemplateDiagnostic[]
+  // Root variable names the template reads, excluding loop and assign locals
+  variables: string[]
+  // Subset of `variables` missing from the known variable list
+  unknownVariables: string[]
+}
+
+export interface CompiledTemplate {
+  variables: string[]
+  render(context: Record<string, any>, options?: TemplateRenderOptions): string
+}
+
+type Expression =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; segments: (string | number)[] }
+
+interface FilterCall {
+  name: string
+  args: Expression[]
+}
+
+interface FilteredExpression {
+  expression: Expression
+  filters: FilterCall[]
+}
+
+type Condition =
+  | { kind: 'test'; left: Expression; operator?: string; right?: Expression }
+  | { kind: 'logic'; operator: 'and' | 'or'; left: Condition; right: Condition }
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; value: FilteredExpression; raw: boolean }
+  | { type: 'if'; branches: { condition: Condition; negate: boolean; body: Node[] }[]; otherwise: Node[] }
+  | { type: 'for'; variable: string; collection: Expression; body: Node[]; otherwise: Node[]; limit?: number; offset?: number; reversed: boolean }
+  | { type: 'assign'; name: string; value: FilteredExpression }
+
+interface Token {
+  kind: 'text' | 'output' | 'raw_output' | 'tag'
+  value: string
+  line: number
+  // Original markup, re-emitted verbatim inside {% raw %}
+  source: string
+}
+
+const DEFAULT_OPTIONS: Required<TemplateRenderOptions> = {
+  escape: true,
+  locale: 'pt-BR',
+  timezone: 'America/Sao_Paulo',
+  currency: 'BRL'
+}
+
+const COMPARISON_OPERATORS = ['==', '!=', '<>', '>=', '<=', '>', '<', 'contains']
+
+// Marks filter output that must not be escaped again
+class SafeString {
+  constructor(public readonly value: string) {}
+  toString() {
+    return this.value
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+const TOKEN_PATTERN = /\{\{\{([\s\S]*?)\}\}\}|\{\{(-?)([\s\S]*?)(-?)\}\}|\{%(-?)([\s\S]*?)(-?)%\}/g
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let lastIndex = 0
+  let line = 1
+  let trimNextText = false
+  let match: RegExpExecArray | null
+
+  const pushText = (text: string, trimStart: boolean, trimEnd: boolean) => {
+    let value = text
+    if (trimStart) value = value.replace(/^\s+/, '')
+    if (trimEnd) value = value.replace(/\s+$/, '')
+    if (value) tokens.push({ kind: 'text', value, line, source: value })
+  }
+
+  TOKEN_PATTERN.lastIndex = 0
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    const text = source.slice(lastIndex, match.index)
+    const trimBefore = match[2] === '-' || match[5] === '-'
+    pushText(text, trimNextText, trimBefore)
+    line += countNewlines(text)
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'raw_output', value: match[1].trim(), line, source: match[0] })
+      trimNextText = false
+    } else if (match[3] !== undefined) {
+      tokens.push({ kind: 'output', value: match[3].trim(), line, source: match[0] })
+      trimNextText = match[4] === '-'
+    } else {
+      tokens.push({ kind: 'tag', value: match[6].trim(), line, source: match[0] })
+      trimNextText = match[7] === '-'
+    }
+
+    line += countNewlines(match[0])
+    lastIndex = TOKEN_PATTERN.lastIndex
+  }
+
+  pushText(source.slice(lastIndex), trimNextText, false)
+  return tokens
+}
+
+function countNewlines(value: string): number {
+  let count = 0
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\n') count++
+  }
+  return count
+}
+
+// Rewrites Handlebars blocks into their Liquid tag equivalents
+function normalizeHandlebars(token: Token): Token {
+  if (token.kind !== 'output') return token
+
+  const value = token.value
+  if (value.startsWith('!')) return { ...token, kind: 'tag', value: 'comment_inline' }
+  if (value === 'else') return { ...token, kind: 'tag', value: 'else' }
+
+  const block = value.match(/^([#/])(if|unless|each)\b\s*([\s\S]*)$/)
+  if (!block) return token
+
+  const [, marker, name, rest] = block
+  if (marker === '/') {
+    return { ...token, kind: 'tag', value: name === 'each' ? 'endfor' : `end${name}` }
+  }
+  if (name === 'each') {
+    return { ...token, kind: 'tag', value: `for this in ${rest}` }
+  }
+  return { ...token, kind: 'tag', value: `${name} ${rest}` }
+}
+
+// ---------------------------------------------------------------------------
+// Expression parsing
+// ---------------------------------------------------------------------------
+
+const EXPRESSION_TOKEN_PATTERN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)(?![\w.])|(==|!=|<>|>=|<=|>|<|\||:|,)|([A-Za-z_@][\w-]*(?:\.[A-Za-z_@][\w-]*|\[(?:\d+|"[^"]*"|'[^']*')\])*))/y
+
+interface ExpressionToken {
+  type: 'string' | 'number' | 'operator' | 'word'
+  value: string
+}
+
+function tokenizeExpression(source: string, line: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = []
+  EXPRESSION_TOKEN_PATTERN.lastIndex = 0
+  let position = 0
+
+  while (position < source.length) {
+    if (/^\s*$/.test(source.slice(position))) break
+
+    EXPRESSION_TOKEN_PATTERN.lastIndex = position
+    const match = EXPRESSION_TOKEN_PATTERN.exec(source)
+    if (!match) {
+      throw new TemplateSyntaxError(`Unexpected "${source.slice(position).trim()}" in "${source.trim()}"`, line)
+    }
+
+    if (match[1] !== undefined) tokens.push({ type: 'string', value: match[1] })
+    else if (match[2] !== undefined) tokens.push({ type: 'number', value: match[2] })
+    else if (match[3] !== undefined) tokens.push({ type: 'operator', value: match[3] })
+    else tokens.push({ type: 'word', value: match[4] })
+
+    position = EXPRESSION_TOKEN_PATTERN.lastIndex
+  }
+
+  return tokens
+}
+
+class ExpressionParser {
+  private index = 0
+
+  constructor(private tokens: ExpressionToken[], private line: number, private source: string) {}
+
+  get done(): boolean {
+    return this.index >= this.tokens.length
+  }
+
+  peek(): ExpressionToken | undefined {
+    return this.tokens[this.index]
+  }
+
+  next(): ExpressionToken {
+    const token = this.tokens[this.index++]
+    if (!token) {
+      throw new TemplateSyntaxError(`Unexpected end of expression "${this.source}"`, this.line)
+    }
+    return token
+  }
+
+  acceptOperator(value: string): boolean {
+    const token = this.peek()
+    if (token && token.type === 'operator' && token.value === value) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  expectEnd(): void {
+    if (!this.done) {
+      throw new TemplateSyntaxError(`Unexpected "${this.peek()!.value}" in "${this.source}"`, this.line)
+    }
+  }
+
+  parseValue(): Expression {
+    const token = this.next()
+
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.value.slice(1, -1).replace(/\\(["'\\])/g, '$1') }
+    }
+    if (token.type === 'number') {
+      return { kind: 'literal', value: parseFloat(token.value) }
+    }
+    if (token.type === 'word') {
+      switch (token.value) {
+        case 'true': return { kind: 'literal', value: true }
+        case 'false': return { kind: 'literal', value: false }
+        case 'nil':
+        case 'null': return { kind: 'literal', value: null }
+        case 'empty':
+        case 'blank': return { kind: 'literal', value: EMPTY }
+      }
+      return { kind: 'path', segments: parsePath(token.value) }
+    }
+
+    throw new TemplateSyntaxError(`Unexpected "${token.value}" in "${this.source}"`, this.line)
+  }
+
+  parseFiltered(): FilteredExpression {
+    const expression = this.parseValue()
+    const filters: FilterCall[] = []
+
+    while (this.acceptOperator('|')) {
+      const name = this.next()
+      if (name.type !== 'word') {
+        throw new TemplateSyntaxError(`Expected filter name in "${this.source}"`, this.line)
+      }
+      if (!FILTERS[name.value]) {
+        throw new TemplateSyntaxError(`Unknown filter "${name.value}"`, this.line)
+      }
+
+      const args: Expression[] = []
+      if (this.acceptOperator(':')) {
+        do {
+          args.push(this.parseValue())
+        } while (this.acceptOperator(','))
+      }
+      filters.push({ name: name.value, args })
+    }
+
+    return { expression, filters }
+  }
+
+  // Liquid evaluates and/or right to left without precedence
+  parseCondition(): Condition {
+    const left = this.parseComparison()
+
+    const token = this.peek()
+    if (token && token.type === 'word' && (token.value === 'and' || token.value === 'or')) {
+      this.index++
+      return { kind: 'logic', operator: token.value, left, right: this.parseCondition() }
+    }
+
+    return left
+  }
+
+  private parseComparison(): Condition {
+    const left = this.parseValue()
+    const token = this.peek()
+
+    if (token && COMPARISON_OPERATORS.includes(token.value) && (token.type === 'operator' || token.value === 'contains')) {
+      this.index++
+      return { kind: 'test', left, operator: token.value, right: this.parseValue() }
+    }
+
+    return { kind: 'test', left }
+  }
+}
+
+// Sentinel for Liquid's `empty` / `blank` comparisons
+const EMPTY = Symbol('empty')
+
+function parsePath(value: string): (string | number)[] {
+  const segments: (string | number)[] = []
+  const pattern = /([A-Za-z_@][\w-]*)|\[(\d+)\]|\["([^"]*)"\]|\['([^']*)'\]/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(value)) !== null) {
+    if (match[1] !== undefined) segments.push(match[1])
+    else if (match[2] !== undefined) segments.push(parseInt(match[2], 10))
+    else segments.push(match[3] ?? match[4])
+  }
+
+  // Handlebars loop variables live on the Liquid forloop object
+  if (typeof segments[0] === 'string' && segments[0].startsWith('@')) {
+    const name = segments[0].slice(1)
+    return ['forloop', name === 'index' ? 'index0' : name, ...segments.slice(1)]
+  }
+
+  return segments
+}
+
+function createParser(source: string, line: number): ExpressionParser {
+  return new ExpressionParser(tokenizeExpression(source, line), line, source.trim())
+}
+
+// ---------------------------------------------------------------------------
+// Block parser
+// ---------------------------------------------------------------------------
+
+function parseTemplate(source: string): Node[] {
+  const tokens = tokenize(source).map(normalizeHandlebars)
+  let index = 0
+
+  // Parses nodes until one of `terminators` is reached; returns the terminating tag
+  const parseBlock = (terminators: string[]): { nodes: Node[]; terminator?: Token } => {
+    const nodes: Node[] = []
+
+    while (index < tokens.length) {
+      const token = tokens[index++]
+
+      if (token.kind === 'text') {
+        nodes.push({ type: 'text', value: token.value })
+        continue
+      }
+
+      if (token.kind === 'output' || token.kind === 'raw_output') {
+        if (!token.value) {
+          throw new TemplateSyntaxError('Empty output tag', token.line)
+        }
+        const parser = createParser(token.value, token.line)
+        const value = parser.parseFiltered()
+        parser.expectEnd()
+        nodes.push({ type: 'output', value, raw: token.kind === 'raw_output' })
+        continue
+      }
+
+      const name = token.value.split(/\s+/)[0]
+      const args = token.value.slice(name.length).trim()
+
+      if (terminators.includes(name)) {
+        return { nodes, terminator: token }
+      }
+
+      switch (name) {
+        case 'if':
+        case 'unless':
+          nodes.push(parseIf(name, args, token))
+          break
+        case 'for':
+          nodes.push(parseFor(args, token))
+          break
+        case 'assign': {
+          const match = args.match(/^([A-Za-z_][\w-]*)\s*=\s*([\s\S]+)$/)
+          if (!match) {
+            throw new TemplateSyntaxError(`Invalid assign "${token.value}"`, token.line)
+          }
+          const parser = createParser(match[2], token.line)
+          const value = parser.parseFiltered()
+          parser.expectEnd()
+          nodes.push({ type: 'assign', name: match[1], value })
+          break
+        }
+        case 'comment':
+          skipUntil('endcomment', token)
+          break
+        case 'comment_inline':
+          break
+        case 'raw':
+          nodes.push({ type: 'text', value: collectRaw(token) })
+          break
+        default:
+          throw new TemplateSyntaxError(`Unknown tag "${name}"`, token.line)
+      }
+    }
+
+    return { nodes }
+  }
+
+  const parseIf = (name: string, args: string, token: Token): Node => {
+    const branches: { condition: Condition; negate: boolean; body: Node[] }[] = []
+    let otherwise: Node[] = []
+    let condition = parseConditionArgs(args, token)
+    let negate = name === 'unless'
+    const end = `end${name}`
+
+    for (;;) {
+      const { nodes, terminator } = parseBlock(['elsif', 'else', end])
+      if (!terminator) {
+        throw new TemplateSyntaxError(`"${name}" is never closed`, token.line)
+      }
+
+      branches.push({ condition, negate, body: nodes })
+
+      const terminatorName = terminator.value.split(/\s+/)[0]
+      if (terminatorName === end) break
+
+      if (terminatorName === 'elsif') {
+        condition = parseConditionArgs(terminator.value.slice('elsif'.length), terminator)
+        negate = false
+        continue
+      }
+
+      const rest = parseBlock([end])
+      if (!rest.terminator) {
+        throw new TemplateSyntaxError(`"${name}" is never closed`, token.line)
+      }
+      otherwise = rest.nodes
+      break
+    }
+
+    return { type: 'if', branches, otherwise }
+  }
+
+  const parseFor = (args: string, token: Token): Node => {
+    const match = args.match(/^([A-Za-z_][\w-]*)\s+in\s+(\S+)([\s\S]*)$/)
+    if (!match) {
+      throw new TemplateSyntaxError(`Invalid for loop "${token.value}"`, token.line)
+    }
+
+    const parser = createParser(match[2], token.line)
+    const collection = parser.parseValue()
+    parser.expectEnd()
+
+    const modifiers = match[3]
+    const limit = modifiers.match(/\blimit\s*:\s*(\d+)/)
+    const offset = modifiers.match(/\boffset\s*:\s*(\d+)/)
+
+    const body = parseBlock(['else', 'endfor'])
+    if (!body.terminator) {
+      throw new TemplateSyntaxError('"for" is never closed', token.line)
+    }
+
+    let otherwise: Node[] = []
+    if (body.terminator.value === 'else') {
+      const rest = parseBlock(['endfor'])
+      if (!rest.terminator) {
+        throw new TemplateSyntaxError('"for" is never closed', token.line)
+      }
+      otherwise = rest.nodes
+    }
+
+    return {
+      type: 'for',
+      variable: match[1],
+      collection,
+      body: body.nodes,
+      otherwise,
+      limit: limit ? parseInt(limit[1], 10) : undefined,
+      offset: offset ? parseInt(offset[1], 10) : undefined,
+      reversed: /\breversed\b/.test(modifiers)
+    }
+  }
+
+  const parseConditionArgs = (args: string, token: Token): Condition => {
+    if (!args.trim()) {
+      throw new TemplateSyntaxError(`Missing condition in "${token.value}"`, token.line)
+    }
+    const parser = createParser(args, token.line)
+    const condition = parser.parseCondition()
+    parser.expectEnd()
+    return condition
+  }
+
+  const skipUntil = (end: string, start: Token) => {
+    while (index < tokens.length) {
+      const token = tokens[index++]
+      if (token.kind === 'tag' && token.value === end) return
+    }
+    throw new TemplateSyntaxError(`"${start.value}" is never closed`, start.line)
+  }
+
+  // {% raw %} content is emitted verbatim, tags included
+  const collectRaw = (start: Token): string => {
+    let text = ''
+    while (index < tokens.length) {
+      const token = tokens[index++]
+      if (token.kind === 'tag' && token.value === 'endraw') return text
+      text += token.source
+    }
+    throw new TemplateSyntaxError('"raw" is never closed', start.line)
+  }
+
+  // Stray closing tags surface as unknown tags from parseBlock
+  return parseBlock([]).nodes
+}
+
+// ---------------------------------------------------------------------------
+// Variable analysis
+// ---------------------------------------------------------------------------
+
+function collectVariables(nodes: Node[]): Set<string> {
+  const found = new Set<string>()
+
+  const visitExpression = (expression: Expression, scope: Set<string>) => {
+    if (expression.kind !== 'path') return
+    const root = String(expression.segments[0])
+    if (!scope.has(root) && root !== 'forloop') found.add(root)
+  }
+
+  const visitFiltered = (value: FilteredExpression, scope: Set<string>) => {
+    visitExpression(value.expression, scope)
+    value.filters.forEach(filter => filter.args.forEach(arg => visitExpression(arg, scope)))
+  }
+
+  const visitCondition = (condition: Condition, scope: Set<string>) => {
+    if (condition.kind === 'logic') {
+      visitCondition(condition.left, scope)
+      visitCondition(condition.right, scope)
+      return
+    }
+    visitExpression(condition.left, scope)
+    if (condition.right) visitExpression(condition.right, scope)
+  }
+
+  // Assigns are global in Liquid, so they extend the scope of everything that follows
+  const walk = (children: Node[], scope: Set<string>) => {
+    for (const node of children) {
+      switch (node.type) {
+        case 'output':
+          visitFiltered(node.value, scope)
+          break
+        case 'assign':
+          visitFiltered(node.value, scope)
+          scope.add(node.name)
+          break
+        case 'if':
+          node.branches.forEach(branch => {
+            visitCondition(branch.condition, scope)
+            walk(branch.body, scope)
+          })
+          walk(node.otherwise, scope)
+          break
+        case 'for':
+          visitExpression(node.collection, scope)
+          walk(node.body, new Set([...scope, node.variable]))
+          walk(node.otherwise, scope)
+          break
+      }
+    }
+  }
+
+  walk(nodes, new Set())
+  return found
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+class Scope {
+  private frames: Record<string, unknown>[]
+
+  constructor(root: Record<string, unknown>) {
+    this.frames = [root]
+  }
+
+  push(frame: Record<string, unknown>): void {
+    this.frames.push(frame)
+  }
+
+  pop(): void {
+    this.frames.pop()
+  }
+
+  // Assigns are global, even inside loops
+  set(name: string, value: unknown): void {
+    this.frames[0][name] = value
+  }
+
+  lookup(segments: (string | number)[]): unknown {
+    const [root, ...rest] = segments
+    let value: unknown
+
+    for (let i = this.frames.length - 1; i >= 0; i--) {
+      if (Object.prototype.hasOwnProperty.call(this.frames[i], root)) {
+        value = this.frames[i][root as string]
+        break
+      }
+    }
+
+    for (const segment of rest) {
+      value = readProperty(value, segment)
+    }
+    return value
+  }
+}
+
+function readProperty(value: unknown, segment: string | number): unknown {
+  if (value === null || value === undefined) return undefined
+
+  if (Array.isArray(value) || typeof value === 'string') {
+    if (segment === 'size') return value.length
+    if (segment === 'first') return value[0]
+    if (segment === 'last') return value[value.length - 1]
+  }
+
+  if (typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, segment)) {
+    return (value as Record<string | number, unknown>)[segment]
+  }
+
+  if (typeof value === 'object' && segment === 'size') {
+    return Object.keys(value as object).length
+  }
+
+  return undefined
+}
+
+// Blank strings and empty lists count as false so `{% if company %}` works with empty lead fields
+function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false
+  if (typeof value === 'string') return value.trim().length > 0
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true
+  if (typeof value === 'string' || Array.isArray(value)) return value.length === 0
+  if (typeof value === 'object') return Object.keys(value as object).length === 0
+  return false
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  if (left === EMPTY || right === EMPTY) {
+    const empty = isEmpty(left === EMPTY ? right : left)
+    return operator === '==' ? empty : operator === '!=' || operator === '<>' ? !empty : false
+  }
+
+  switch (operator) {
+    case '==':
+      return looseEquals(left, right)
+    case '!=':
+    case '<>':
+      return !looseEquals(left, right)
+    case 'contains':
+      if (typeof left === 'string') return right !== null && right !== undefined && left.includes(String(right))
+      if (Array.isArray(left)) return left.some(item => looseEquals(item, right))
+      return false
+  }
+
+  const a = toNumber(left)
+  const b = toNumber(right)
+  if (a === null || b === null) return false
+
+  switch (operator) {
+    case '>': return a > b
+    case '<': return a < b
+    case '>=': return a >= b
+    case '<=': return a <= b
+  }
+  return false
+}
+
+// Lead custom fields are often stored as strings, so "10" == 10
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left === right) return true
+  if ((left === null || left === undefined) && (right === null || right === undefined)) return true
+  if (typeof left === 'number' || typeof right === 'number') {
+    const a = toNumber(left)
+    const b = toNumber(right)
+    return a !== null && a === b
+  }
+  return false
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value)
+    return isNaN(number) ? null : number
+  }
+  return null
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined || value === EMPTY) return ''
+  if (value instanceof SafeString) return value.value
+  if (Array.isArray(value)) return value.map(toText).join(', ')
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return ''
+  return String(value)
+}
+
+// Iterating an object yields { key, value } pairs, e.g. over lead custom fields
+function toIterable(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([key, entry]) => ({ key, value: entry }))
+  }
+  return []
+}
+
+class Renderer {
+  private scope: Scope
+
+  constructor(context: Record<string, any>, private options: Required<TemplateRenderOptions>) {
+    // Copy so assigns never leak into the caller's context
+    this.scope = new Scope({ ...context })
+  }
+
+  render(nodes: Node[]): string {
+    let output = ''
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value
+          break
+        case 'output': {
+          const value = this.evaluateFiltered(node.value)
+          const text = toText(value)
+          output += this.options.escape && !node.raw && !(value instanceof SafeString) ? escapeHtml(text) : text
+          break
+        }
+        case 'assign':
+          this.scope.set(node.name, this.evaluateFiltered(node.value))
+          break
+        case 'if': {
+          const branch = node.branches.find(candidate => this.evaluateCondition(candidate.condition) !== candidate.negate)
+          output += this.render(branch ? branch.body : node.otherwise)
+          break
+        }
+        case 'for':
+          output += this.renderFor(node)
+          break
+      }
+    }
+
+    return output
+  }
+
+  private renderFor(node: Extract<Node, { type: 'for' }>): string {
+    const collection = this.evaluate(node.collection)
+    const isObject = !Array.isArray(collection)
+    let items = toIterable(collection)
+
+    if (node.offset) items = items.slice(node.offset)
+    if (node.limit !== undefined) items = items.slice(0, node.limit)
+    if (node.reversed) items = [...items].reverse()
+
+    if (items.length === 0) {
+      return this.render(node.otherwise)
+    }
+
+    let output = ''
+    items.forEach((item, index) => {
+      const entry = item as { key: string; value: unknown }
+      this.scope.push({
+        // Handlebars binds `this` to the value and exposes the key as @key
+        [node.variable]: node.variable === 'this' && isObject ? entry.value : item,
+        forloop: {
+          index: index + 1,
+          index0: index,
+          first: index === 0,
+          last: index === items.length - 1,
+          length: items.length,
+          key: isObject ? entry.key : undefined
+        }
+      })
+      output += this.render(node.body)
+      this.scope.pop()
+    })
+    return output
+  }
+
+  private evaluate(expression: Expression): unknown {
+    return expression.kind === 'literal' ? expression.value : this.scope.lookup(expression.segments)
+  }
+
+  private evaluateFiltered(value: FilteredExpression): unknown {
+    return value.filters.reduce(
+      (result, filter) => FILTERS[filter.name](result, filter.args.map(arg => this.evaluate(arg)), this.options),
+      this.evaluate(value.expression)
+    )
+  }
+
+  private evaluateCondition(condition: Condition): boolean {
+    if (condition.kind === 'logic') {
+      return condition.operator === 'and'
+        ? this.evaluateCondition(condition.left) && this.evaluateCondition(condition.right)
+        : this.evaluateCondition(condition.left) || this.evaluateCondition(condition.right)
+    }
+
+    const left = this.evaluate(condition.left)
+    if (!condition.operator) return isTruthy(left)
+    return compare(left, condition.operator, this.evaluate(condition.right!))
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+type Filter = (value: unknown, args: unknown[], options: Required<TemplateRenderOptions>) => unknown
+
+const FILTERS: Record<string, Filter> = {
+  default: (value, [fallback]) => (isTruthy(value) ? value : fallback),
+  upcase: value => toText(value).toUpperCase(),
+  downcase: value => toText(value).toLowerCase(),
+  capitalize: value => {
+    const text = toText(value)
+    return text.charAt(0).toUpperCase() + text.slice(1)
+  },
+  strip: value => toText(value).trim(),
+  truncate: (value, [length = 50, ellipsis = '...']) => {
+    const text = toText(value)
+    const max = Number(length)
+    const suffix = String(ellipsis)
+    return text.length <= max ? text : `${text.slice(0, Math.max(0, max - suffix.length))}${suffix}`
+  },
+  append: (value, [suffix]) => `${toText(value)}${toText(suffix)}`,
+  prepend: (value, [prefix]) => `${toText(prefix)}${toText(value)}`,
+  replace: (value, [search, replacement]) => toText(value).split(toText(search)).join(toText(replacement)),
+  split: (value, [separator]) => toText(value).split(toText(separator)),
+  join: (value, [separator = ' ']) => (Array.isArray(value) ? value.map(toText).join(toText(separator)) : toText(value)),
+  first: value => (Array.isArray(value) ? value[0] : typeof value === 'string' ? value.charAt(0) : undefined),
+  last: value => (Array.isArray(value) ? value[value.length - 1] : typeof value === 'string' ? value.charAt(value.length - 1) : undefined),
+  size: value => (Array.isArray(value) || typeof value === 'string' ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0),
+  plus: (value, [amount]) => (toNumber(value) ?? 0) + (toNumber(amount) ?? 0),
+  minus: (value, [amount]) => (toNumber(value) ?? 0) - (toNumber(amount) ?? 0),
+  escape: value => (value instanceof SafeString ? value : new SafeString(escapeHtml(toText(value)))),
+  url_encode: value => encodeURIComponent(toText(value)),
+  raw: value => new SafeString(toText(value)),
+  date: (value, [format = '%d/%m/%Y'], options) => {
+    const date = toDate(value)
+    return date ? formatDate(date, String(format), options) : value
+  },
+  currency: (value, [currency], options) => {
+    const number = toNumber(value)
+    if (number === null) return value
+    return new Intl.NumberFormat(options.locale, { style: 'currency', currency: String(currency || options.currency) }).format(number)
+  },
+  number: (value, [decimals = 0], options) => {
+    const number = toNumber(value)
+    if (number === null) return value
+    const digits = Number(decimals)
+    return new Intl.NumberFormat(options.locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(number)
+  }
+}
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS)
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (value === 'now' || value === 'today') return new Date()
+  // Liquid treats numbers as Unix timestamps in seconds
+  if (typeof value === 'number') return new Date(value * 1000)
+  if (typeof value === 'string' && value.trim()) {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+// strftime subset: %Y %y %m %d %e %H %I %M %S %p %B %b %A %a %%
+function formatDate(date: Date, format: string, options: Required<TemplateRenderOptions>): string {
+  const parts = (fields: Intl.DateTimeFormatOptions) =>
+    Object.fromEntries(
+      new Intl.DateTimeFormat(options.locale, { timeZone: options.timezone, ...fields })
+        .formatToParts(date)
+        .map(part => [part.type, part.value])
+    )
+
+  const numeric = parts({ year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' })
+  const hour = parseInt(numeric.hour, 10) % 24
+
+  return format.replace(/%([YymdeHIMSpBbAa%])/g, (_, code: string) => {
+    switch (code) {
+      case 'Y': return numeric.year
+      case 'y': return numeric.year.slice(-2)
+      case 'm': return numeric.month
+      case 'd': return numeric.day
+      case 'e': return String(parseInt(numeric.day, 10))
+      case 'H': return String(hour).padStart(2, '0')
+      case 'I': return String(hour % 12 || 12).padStart(2, '0')
+      case 'M': return numeric.minute
+      case 'S': return numeric.second
+      case 'p': return hour < 12 ? 'AM' : 'PM'
+      case 'B': return parts({ month: 'long' }).month
+      case 'b': return parts({ month: 'short' }).month.replace('.', '')
+      case 'A': return parts({ weekday: 'long' }).weekday
+      case 'a': return parts({ weekday: 'short' }).weekday.replace('.', '')
+      default: return '%'
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+// Compiled templates are reused across the recipients of a batch
+const COMPILE_CACHE_LIMIT = 200
+const compileCache = new Map<string, CompiledTemplate>()
+
+export function compileTemplate(source: string): CompiledTemplate {
+  const cached = compileCache.get(source)
+  if (cached) return cached
+
+  const nodes = parseTemplate(source)
+  const compiled: CompiledTemplate = {
+    variables: Array.from(collectVariables(nodes)),
+    render: (context, options) => new Renderer(context, { ...DEFAULT_OPTIONS, ...options }).render(nodes)
+  }
+
+  if (compileCache.size >= COMPILE_CACHE_LIMIT) {
+    compileCache.delete(compileCache.keys().next().value as string)
+  }
+  compileCache.set(source, compiled)
+  return compiled
+}
+
+export function renderTemplate(source: string, context: Record<string, any>, options?: TemplateRenderOptions): string {
+  if (!source) return ''
+  return compileTemplate(source).render(context, options)
+}
+
+// Syntax errors are fatal; unknown variables are reported separately since lead custom fields vary
+export function validateTemplate(source: string, knownVariables?: string[]): TemplateValidationResult {
+  try {
+    const { variables } = compileTemplate(source || '')
+    const known = knownVariables ? new Set(knownVariables) : null
+    return {
+      valid: true,
+      errors: [],
+      variables,
+      unknownVariables: known ? variables.filter(variable => !known.has(variable)) : []
+    }
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return {
+        valid: false,
+        errors: [{ message: error.message, line: error.line }],
+        variables: [],
+        unknownVariables: []
+      }
+    }
+    throw error
+  }
+}
@@ -0,0 +1,490 @@
+import { randomUUID } from 'crypto'
+import { supabaseAdmin } from '../supabase'
+import { validateHtmlSafety } from '../sanitize'
+import { EmailDesign, getSyncedBlockIds } from './editor-html'
+import { compileEmail } from './email-compiler'
+import { validateEmailTemplate, formatTemplateErrors, EmailTemplateValidation } from './email-template'
+import { parseMjml, designToMjml, htmlToMjml, htmlToPlainText } from './mjml'
+import { contentBlockService } from './content-blocks'
+import { readZip, createZip, ZipEntry } from './zip-archive'
+
+export type TemplateTransferFormat = 'html' | 'mjml' | 'zip'
+
+export const TEMPLATE_ASSETS_BUCKET = 'template-assets'
+export const MAX_TEMPLATE_IMPORT_BYTES = 20 * 1024 * 1024
+
+const ASSET_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+}
+
+export interface TemplateImportFile {
+  name: string
+  data: Buffer
+}
+
+export interface TemplateImportOptions {
+  name?: string
+  subject?: string
+  format?: TemplateTransferFormat
+  overwrite_existing?: boolean
+  userId?: string | null
+}
+
+export interface ImportedTemplate {
+  id: string
+  name: string
+  subject: string
+  template_type: string
+  current_version?: number
+}
+
+export interface TemplateImportResult {
+  template: ImportedTemplate
+  format: TemplateTransferFormat
+  // True when an existing template with the same name was updated
+  overwritten: boolean
+  assets_uploaded: number
+  warnings: string[]
+}
+
+export interface TemplateExportFile {
+  fileName: string
+  contentType: string
+  data: Buffer
+}
+
+interface ExportableTemplate {
+  id: string
+  name: string
+  subject: string
+  html_content: string | null
+  text_content: string | null
+  wysiwyg_data: EmailDesign | null
+}
+
+interface ImportedContent {
+  html: string
+  text: string | null
+  subject?: string
+  design?: EmailDesign
+  warnings: string[]
+}
+
+// The template file picked from a ZIP and the images that travel with it
+interface TemplateBundle {
+  source: ZipEntry
+  images: ZipEntry[]
+  warnings: string[]
+}
+
+interface UploadedAssets {
+  // Public URL of each uploaded image keyed by its path inside the bundle
+  urls: Record<string, string>
+  paths: string[]
+}
+
+function extension(fileName: string): string {
+  const match = /\.([a-z0-9]+)$/i.exec(fileName)
+  return match ? match[1].toLowerCase() : ''
+}
+
+export function detectImportFormat(fileName: string): TemplateTransferFormat | null {
+  switch (extension(fileName)) {
+    case 'html':
+    case 'htm':
+      return 'html'
+    case 'mjml':
+      return 'mjml'
+    case 'zip':
+      return 'zip'
+    default:
+      return null
+  }
+}
+
+// Resolves a reference found in a bundle file against that file's folder; null for external URLs
+export function resolveBundlePath(baseDir: string, reference: string): string | null {
+  const ref = reference.trim()
+  if (!ref || /^([a-z][a-z0-9+.-]*:|\/\/|#|\{\{|\{%)/i.test(ref)) return null
+
+  let cleaned = ref.split(/[?#]/)[0]
+  try {
+    cleaned = decodeURIComponent(cleaned)
+  } catch {
+    // Keep the reference undecoded
+  }
+
+  const segments = cleaned.startsWith('/') ? [] : baseDir.split('/').filter(Boolean)
+  for (const segment of cleaned.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (segments.length === 0) return null
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+
+  return segments.join('/')
+}
+
+// Rewrites src/href/background attributes and CSS url() references; unknown references are left alone
+export function rewriteAssetReferences(source: string, replace: (reference: string) => string | null): string {
+  return source
+    .replace(/\b(src|href|background)(\s*=\s*)(["'])(.*?)\3/gi, (full, attribute, equals, quote, reference) => {
+      const url = replace(reference)
+      return url ? `${attribute}${equals}${quote}${url}${quote}` : full
+    })
+    .replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (full, quote, reference) => {
+      const url = replace(reference)
+      return url ? `url(${quote}${url}${quote})` : full
+    })
+}
+
+// A bundle holds one .html or .mjml file (index.* preferred) plus the images it references
+function readBundle(entries: ZipEntry[]): TemplateBundle {
+  const sources = entries
+    .filter(entry => ['html', 'htm', 'mjml'].includes(extension(entry.name)))
+    .sort((a, b) => {
+      const rank = (name: string) => (/^(.*\/)?index\.[a-z]+$/i.test(name) ? 0 : 1) * 100 + name.split('/').length
+      return rank(a.name) - rank(b.name)
+    })
+  const source = sources[0]
+
+  if (!source) {
+    throw new Error('ZIP file must contain an .html or .mjml file')
+  }
+
+  const warnings: string[] = []
+  if (sources.length > 1) {
+    warnings.push(`Imported ${source.name}; other template files in the ZIP were ignored`)
+  }
+
+  const images = entries.filter(entry => ASSET_CONTENT_TYPES[extension(entry.name)])
+  const skipped = entries.filter(entry => entry !== source && !sources.includes(entry) && !images.includes(entry))
+  if (skipped.length > 0) {
+    warnings.push(`Skipped unsupported files: ${skipped.map(entry => entry.name).join(', ')}`)
+  }
+
+  return { source, images, warnings }
+}
+
+// Throws for unsafe or unrenderable content
+function validateImportedContent(subject: string, content: ImportedContent): EmailTemplateValidation {
+  const securityIssues = validateHtmlSafety(content.html)
+  if (securityIssues.length > 0) {
+    throw new Error(`Imported HTML is unsafe: ${securityIssues.join(', ')}`)
+  }
+
+  const validation = validateEmailTemplate({ subject, html: content.html, text: content.text || undefined })
+  if (!validation.valid) {
+    throw new Error(`Invalid template: ${formatTemplateErrors(validation)}`)
+  }
+
+  return validation
+}
+
+function extractHtmlTitle(html: string): string | undefined {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]
+  return title ? htmlToPlainText(title) || undefined : undefined
+}
+
+function safeFileName(name: string): string {
+  const base = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+  return base.replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'file'
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index)
+}
+
+export class TemplateTransferService {
+  private supabase = supabaseAdmin
+
+  async importTemplate(
+    workspaceId: string,
+    file: TemplateImportFile,
+    options: TemplateImportOptions = {}
+  ): Promise<TemplateImportResult> {
+    const format = options.format || detectImportFormat(file.name)
+    if (!format) {
+      throw new Error('Unsupported file type: use .html, .mjml or .zip')
+    }
+    if (file.data.length > MAX_TEMPLATE_IMPORT_BYTES) {
+      throw new Error(`File exceeds ${MAX_TEMPLATE_IMPORT_BYTES / 1024 / 1024}MB`)
+    }
+
+    let bundle: TemplateBundle | null = null
+    let content: ImportedContent
+
+    if (format === 'zip') {
+      bundle = readBundle(readZip(file.data))
+      content = this.parseBundle(bundle, {})
+    } else {
+      content = this.parseSource(format, file.data.toString('utf8'))
+    }
+
+    const name = options.name || file.name.replace(/\.[^.]+$/, '')
+    const subject = options.subject || content.subject || name
+
+    // Images only reach the public assets bucket once the template itself is known to be valid
+    validateImportedContent(subject, content)
+
+    if (!bundle || bundle.images.length === 0) {
+      return this.saveImportedTemplate(workspaceId, name, subject, content, format, 0, options)
+    }
+
+    const uploaded = await this.uploadAssets(workspaceId, bundle.images)
+
+    try {
+      return await this.saveImportedTemplate(
+        workspaceId,
+        name,
+        subject,
+        this.parseBundle(bundle, uploaded.urls),
+        format,
+        bundle.images.length,
+        options
+      )
+    } catch (error) {
+      await this.removeAssets(uploaded.paths)
+      throw error
+    }
+  }
+
+  private async saveImportedTemplate(
+    workspaceId: string,
+    name: string,
+    subject: string,
+    content: ImportedContent,
+    format: TemplateTransferFormat,
+    assetsUploaded: number,
+    options: TemplateImportOptions
+  ): Promise<TemplateImportResult> {
+    const validation = validateImportedContent(subject, content)
+
+    const templateData = {
+      name,
+      subject,
+      html_content: content.html,
+      text_content: content.text,
+      template_type: content.design ? 'wysiwyg' : 'campaign',
+      wysiwyg_data: content.design || null,
+      variables: validation.variables,
+      updated_by: options.userId || null
+    }
+
+    const existing = options.overwrite_existing ? await this.findByName(workspaceId, name) : null
+
+    // Overwriting goes through a normal update, so the previous content stays in version history
+    const query = existing
+      ? this.supabase
+          .from('email_templates')
+          .update({ ...templateData, updated_at: new Date().toISOString() })
+          .eq('workspace_id', workspaceId)
+          .eq('id', existing.id)
+      : this.supabase
+          .from('email_templates')
+          .insert({ ...templateData, workspace_id: workspaceId, created_by: options.userId || null })
+
+    const { data: template, error } = await query.select().single()
+
+    if (error) {
+      throw new Error(`Error saving imported template: ${error.message}`)
+    }
+
+    return {
+      template,
+      format,
+      overwritten: !!existing,
+      assets_uploaded: assetsUploaded,
+      warnings: content.warnings
+    }
+  }
+
+  async exportTemplate(
+    workspaceId: string,
+    templateId: string,
+    format: TemplateTransferFormat,
+    includeAssets = true
+  ): Promise<TemplateExportFile> {
+    const { data: template, error } = await this.supabase
+      .from('email_templates')
+      .select('id, name, subject, html_content, text_content, wysiwyg_data')
+      .eq('workspace_id', workspaceId)
+      .eq('id', templateId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading template: ${error.message}`)
+    }
+    if (!template) {
+      throw new Error('Template not found')
+    }
+
+    const exportable = template as ExportableTemplate
+    const baseName = safeFileName(exportable.name)
+    const html = exportable.html_content || ''
+
+    if (format === 'html') {
+      return { fileName: `${baseName}.html`, contentType: 'text/html; charset=utf-8', data: Buffer.from(html, 'utf8') }
+    }
+
+    const mjml = await this.toMjml(workspaceId, exportable)
+    if (format === 'mjml') {
+      return { fileName: `${baseName}.mjml`, contentType: 'application/xml; charset=utf-8', data: Buffer.from(mjml, 'utf8') }
+    }
+
+    const assets = includeAssets ? await this.downloadAssets(workspaceId, html) : {}
+    const localize = (source: string) =>
+      rewriteAssetReferences(source, reference => assets[reference]?.name || null)
+
+    const entries: ZipEntry[] = [
+      { name: 'index.html', data: Buffer.from(localize(html), 'utf8') },
+      { name: 'index.mjml', data: Buffer.from(localize(mjml), 'utf8') }
+    ]
+    if (exportable.text_content) {
+      entries.push({ name: 'index.txt', data: Buffer.from(exportable.text_content, 'utf8') })
+    }
+    entries.push(...Object.values(assets))
+
+    return { fileName: `${baseName}.zip`, contentType: 'application/zip', data: createZip(entries) }
+  }
+
+  private parseSource(format: 'html' | 'mjml', source: string): ImportedContent {
+    if (format === 'html') {
+      return { html: source, text: null, subject: extractHtmlTitle(source), warnings: [] }
+    }
+
+    const { design, subject, warnings } = parseMjml(source)
+    const compiled = compileEmail(design, subject || '')
+    return {
+      html: compiled.html,
+      text: compiled.text,
+      subject,
+      design,
+      warnings: [...warnings, ...compiled.warnings.map(warning => warning.message)]
+    }
+  }
+
+  // Template content with bundle-relative image references pointing at the uploaded copies
+  private parseBundle(bundle: TemplateBundle, assetUrls: Record<string, string>): ImportedContent {
+    const baseDir = dirname(bundle.source.name)
+    const rewritten = rewriteAssetReferences(bundle.source.data.toString('utf8'), reference => {
+      const path = resolveBundlePath(baseDir, reference)
+      return path ? assetUrls[path] || null : null
+    })
+
+    const content = this.parseSource(extension(bundle.source.name) === 'mjml' ? 'mjml' : 'html', rewritten)
+    return { ...content, warnings: [...bundle.warnings, ...content.warnings] }
+  }
+
+  // A failed upload removes the images already stored for this import
+  private async uploadAssets(workspaceId: string, images: ZipEntry[]): Promise<UploadedAssets> {
+    const importId = randomUUID()
+    const storage = this.supabase.storage.from(TEMPLATE_ASSETS_BUCKET)
+    const uploaded: UploadedAssets = { urls: {}, paths: [] }
+
+    for (const image of images) {
+      const path = `${workspaceId}/${importId}/${image.name.split('/').map(safeFileName).join('/')}`
+
+      const { error } = await storage.upload(path, image.data, {
+        contentType: ASSET_CONTENT_TYPES[extension(image.name)],
+        upsert: false
+      })
+
+      if (error) {
+        await this.removeAssets(uploaded.paths)
+        throw new Error(`Error uploading ${image.name}: ${error.message}`)
+      }
+
+      uploaded.paths.push(path)
+      uploaded.urls[image.name] = storage.getPublicUrl(path).data.publicUrl
+    }
+
+    return uploaded
+  }
+
+  // Best effort: the import error matters more to the caller than a leftover file
+  private async removeAssets(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return
+    }
+
+    const { error } = await this.supabase.storage.from(TEMPLATE_ASSETS_BUCKET).remove(paths)
+    if (error) {
+      console.error('Error removing imported template assets:', error)
+    }
+  }
+
+  // Only images stored in this workspace's assets are bundled; other URLs stay remote
+  private async downloadAssets(workspaceId: string, html: string): Promise<Record<string, ZipEntry>> {
+    const storage = this.supabase.storage.from(TEMPLATE_ASSETS_BUCKET)
+    const prefix = storage.getPublicUrl(`${workspaceId}/`).data.publicUrl
+    const assets: Record<string, ZipEntry> = {}
+    const usedNames = new Set<string>()
+
+    const references = new Set<string>()
+    rewriteAssetReferences(html, reference => {
+      if (reference.startsWith(prefix)) references.add(reference)
+      return null
+    })
+
+    for (const reference of Array.from(references)) {
+      const path = `${workspaceId}/${decodeURI(reference.slice(prefix.length).split(/[?#]/)[0])}`
+      if (path.split('/').includes('..')) continue
+
+      const { data, error } = await storage.download(path)
+
+      if (error || !data) {
+        throw new Error(`Error downloading asset ${path}: ${error?.message || 'not found'}`)
+      }
+
+      let name = `images/${safeFileName(path.split('/').pop() || 'image')}`
+      for (let i = 2; usedNames.has(name); i++) {
+        name = name.replace(/(-\d+)?(\.[^.]+)?$/, `-${i}$2`)
+      }
+      usedNames.add(name)
+
+      assets[reference] = { name, data: Buffer.from(await data.arrayBuffer()) }
+    }
+
+    return assets
+  }
+
+  private async toMjml(workspaceId: string, template: ExportableTemplate): Promise<string> {
+    if (!template.wysiwyg_data?.components) {
+      return htmlToMjml(template.html_content || '', template.subject)
+    }
+
+    const blocks = await contentBlockService.getBlockMap(
+      workspaceId,
+      getSyncedBlockIds(template.wysiwyg_data.components)
+    )
+    return designToMjml(template.wysiwyg_data, template.subject, blocks)
+  }
+
+  private async findByName(workspaceId: string, name: string): Promise<{ id: string } | null> {
+    const { data, error } = await this.supabase
+      .from('email_templates')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('name', name)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading template: ${error.message}`)
+    }
+
+    return data
+  }
+}
+
+export const templateTransferService = new TemplateTransferService()
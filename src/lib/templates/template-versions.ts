@@ -0,0 +1,157 @@
+import { supabaseAdmin } from '../supabase'
+import { diffTemplateVersions, TemplateVersionDiff } from './template-diff'
+
+// Rows are written by the email_templates triggers (migration 017) on every content change
+export interface TemplateVersion {
+  id: string
+  template_id: string
+  workspace_id: string
+  version_number: number
+  name: string
+  subject: string
+  html_content: string | null
+  text_content: string | null
+  wysiwyg_data: any
+  variables: string[] | null
+  created_by: string | null
+  restored_from_version_id: string | null
+  created_at: string
+}
+
+export type TemplateVersionSummary = Omit<TemplateVersion, 'html_content' | 'text_content' | 'wysiwyg_data'>
+
+export interface CampaignTemplateRef {
+  workspace_id: string
+  template_id: string | null
+  template_version_id?: string | null
+}
+
+export const TEMPLATE_VERSION_SUMMARY_COLUMNS =
+  'id, template_id, workspace_id, version_number, name, subject, variables, created_by, restored_from_version_id, created_at'
+
+// Restoring writes the old content back as a new save, so history stays append-only
+export function buildTemplateRestoreUpdate(version: TemplateVersion, userId?: string | null): Record<string, any> {
+  return {
+    subject: version.subject,
+    html_content: version.html_content,
+    text_content: version.text_content,
+    wysiwyg_data: version.wysiwyg_data,
+    variables: version.variables || [],
+    restored_from_version_id: version.id,
+    updated_by: userId || null,
+    updated_at: new Date().toISOString()
+  }
+}
+
+export class TemplateVersionService {
+  // Used from the public API and the campaign sender, which scope by workspace themselves
+  private supabase = supabaseAdmin
+
+  async listVersions(workspaceId: string, templateId: string): Promise<TemplateVersionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .select(TEMPLATE_VERSION_SUMMARY_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .eq('template_id', templateId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Error loading template versions: ${error.message}`)
+    }
+
+    return (data || []) as TemplateVersionSummary[]
+  }
+
+  async getVersion(workspaceId: string, versionId: string): Promise<TemplateVersion | null> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('id', versionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading template version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async getLatestVersion(workspaceId: string, templateId: string): Promise<TemplateVersion | null> {
+    const { data, error } = await this.supabase
+      .from('email_template_versions')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('template_id', templateId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Error loading template version: ${error.message}`)
+    }
+
+    return data
+  }
+
+  async compareVersions(workspaceId: string, fromVersionId: string, toVersionId: string): Promise<TemplateVersionDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersion(workspaceId, fromVersionId),
+      this.getVersion(workspaceId, toVersionId)
+    ])
+
+    if (!from || !to) {
+      throw new Error('Template version not found')
+    }
+
+    if (from.template_id !== to.template_id) {
+      throw new Error('Versions belong to different templates')
+    }
+
+    return diffTemplateVersions(from, to)
+  }
+
+  async restoreVersion(
+    workspaceId: string,
+    versionId: string,
+    userId?: string | null
+  ): Promise<{ template: any; version: TemplateVersion }> {
+    const version = await this.getVersion(workspaceId, versionId)
+    if (!version) {
+      throw new Error('Template version not found')
+    }
+
+    const { data: template, error } = await this.supabase
+      .from('email_templates')
+      .update(buildTemplateRestoreUpdate(version, userId))
+      .eq('workspace_id', workspaceId)
+      .eq('id', version.template_id)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Error restoring template version: ${error.message}`)
+    }
+
+    // Restoring the content that is already current creates no new version
+    const restored = await this.getLatestVersion(workspaceId, version.template_id)
+
+    return { template, version: restored || version }
+  }
+
+  // A campaign keeps the version it was pinned to; otherwise the template's latest version is pinned
+  async resolveCampaignVersion(campaign: CampaignTemplateRef): Promise<TemplateVersion | null> {
+    if (campaign.template_version_id) {
+      const pinned = await this.getVersion(campaign.workspace_id, campaign.template_version_id)
+      if (pinned) return pinned
+    }
+
+    if (!campaign.template_id) {
+      return null
+    }
+
+    return this.getLatestVersion(campaign.workspace_id, campaign.template_id)
+  }
+}
+
+export const templateVersionService = new TemplateVersionService()
@@ -0,0 +1,190 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+// Minimal ZIP reader/writer for template bundles: stored and deflated entries, no ZIP64 or encryption
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+export const MAX_ZIP_ENTRIES = 500
+export const MAX_ZIP_UNCOMPRESSED_BYTES = 50 * 1024 * 1024
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const UTF8_NAME_FLAG = 0x0800
+
+let crcTable: number[] | null = null
+
+export function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      return c >>> 0
+    })
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes followed by a comment of up to 64KB
+  const stop = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset
+    }
+  }
+  throw new Error('Invalid ZIP file: end of central directory not found')
+}
+
+// Skips directories and the metadata folders macOS adds when zipping
+function isIgnoredEntry(name: string): boolean {
+  return name.endsWith('/') || name.startsWith('__MACOSX/') || name.split('/').pop() === '.DS_Store'
+}
+
+export function readZip(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < 22) {
+    throw new Error('Invalid ZIP file')
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer)
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+  if (entryCount > MAX_ZIP_ENTRIES) {
+    throw new Error(`ZIP file has too many entries (maximum ${MAX_ZIP_ENTRIES})`)
+  }
+
+  const entries: ZipEntry[] = []
+  let totalSize = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP file: corrupt central directory')
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const checksum = buffer.readUInt32LE(offset + 16)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const size = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (isIgnoredEntry(name)) continue
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`)
+    }
+
+    totalSize += size
+    if (totalSize > MAX_ZIP_UNCOMPRESSED_BYTES) {
+      throw new Error(`ZIP contents exceed ${MAX_ZIP_UNCOMPRESSED_BYTES / 1024 / 1024}MB`)
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Invalid ZIP file: corrupt entry ${name}`)
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Buffer
+    if (method === 0) {
+      data = Buffer.from(compressed)
+    } else if (method === 8) {
+      // The declared size caps the output, so a forged header cannot inflate past the limit
+      data = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) })
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} in ${name}`)
+    }
+
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new Error(`Invalid ZIP file: checksum mismatch in ${name}`)
+    }
+
+    entries.push({ name, data })
+  }
+
+  return entries
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const deflated = deflateRawSync(entry.data)
+    // Already-compressed files (images) are stored as is
+    const method = deflated.length < entry.data.length ? 8 : 0
+    const data = method === 8 ? deflated : entry.data
+    const checksum = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(UTF8_NAME_FLAG, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(UTF8_NAME_FLAG, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
@@ -0,0 +1,62 @@
+// Testes da detecção de aberturas e cliques automáticos
+
+import { detectMachineOpen, detectMachineClick, getClientIp, getClientTimezone } from '../machine-detection'
+
+const CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'
+
+describe('Detecção de máquinas', () => {
+  const sentAt = '2024-01-01T12:00:00.000Z'
+
+  it('deve identificar o Apple Mail Privacy Protection', () => {
+    expect(detectMachineOpen({ userAgent: 'Mozilla/5.0', ipAddress: '203.0.113.10' }))
+      .toEqual({ isMachine: true, reason: 'apple_mpp' })
+    expect(detectMachineOpen({ userAgent: CHROME_UA, ipAddress: '17.58.100.1' }))
+      .toEqual({ isMachine: true, reason: 'apple_mpp' })
+  })
+
+  it('deve identificar scanners de segurança', () => {
+    expect(detectMachineClick({ userAgent: 'Barracuda Sentinel (EE)', ipAddress: null }).reason)
+      .toBe('security_scanner')
+    expect(detectMachineOpen({ userAgent: 'python-requests/2.31', ipAddress: null }).reason)
+      .toBe('security_scanner')
+  })
+
+  it('deve marcar cliques imediatamente após o envio como prefetch', () => {
+    const result = detectMachineClick({
+      userAgent: CHROME_UA,
+      ipAddress: '203.0.113.10',
+      sentAt,
+      occurredAt: new Date('2024-01-01T12:00:03.000Z')
+    })
+
+    expect(result).toEqual({ isMachine: true, reason: 'prefetch' })
+  })
+
+  it('deve aceitar aberturas e cliques humanos', () => {
+    const info = {
+      userAgent: CHROME_UA,
+      ipAddress: '203.0.113.10',
+      sentAt,
+      occurredAt: new Date('2024-01-01T12:05:00.000Z')
+    }
+
+    expect(detectMachineOpen(info)).toEqual({ isMachine: false, reason: null })
+    expect(detectMachineClick(info)).toEqual({ isMachine: false, reason: null })
+  })
+
+  it('deve tratar requisições sem user agent como automáticas', () => {
+    expect(detectMachineOpen({ userAgent: null, ipAddress: null }).reason).toBe('missing_user_agent')
+  })
+
+  it('deve usar o primeiro IP do X-Forwarded-For', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.7, 10.0.0.1' })
+    expect(getClientIp(headers)).toBe('198.51.100.7')
+    expect(getClientIp(new Headers())).toBeNull()
+  })
+
+  it('deve ler o fuso geolocalizado pela rede de borda', () => {
+    expect(getClientTimezone(new Headers({ 'x-vercel-ip-timezone': 'America/Manaus' }))).toBe('America/Manaus')
+    expect(getClientTimezone(new Headers({ 'cf-timezone': 'Europe/Lisbon' }))).toBe('Europe/Lisbon')
+    expect(getClientTimezone(new Headers())).toBeNull()
+  })
+})
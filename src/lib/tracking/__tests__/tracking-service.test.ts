@@ -0,0 +1,241 @@
+// Testes do rastreamento de aberturas e cliques
+
+const mockFrom = jest.fn()
+const mockRpc = jest.fn()
+const mockEnqueue = jest.fn()
+
+jest.mock('../../supabase', () => ({
+  supabaseAdmin: {
+    from: (...args: any[]) => mockFrom(...args),
+    rpc: (...args: any[]) => mockRpc(...args)
+  }
+}))
+
+jest.mock('../../automation/trigger-dispatcher', () => ({
+  automationTriggerDispatcher: {
+    enqueue: (...args: any[]) => mockEnqueue(...args)
+  }
+}))
+
+import { TrackingService } from '../tracking-service'
+import { applyTracking, getLinkHash } from '../email-tracking'
+import { verifyClickToken, verifyOpenToken } from '../tracking-tokens'
+import { buildLinkReport } from '../link-report'
+
+describe('Rastreamento de emails', () => {
+  const payload = {
+    sendId: '44444444-4444-4444-4444-444444444444',
+    workspaceId: '11111111-1111-1111-1111-111111111111',
+    campaignId: '33333333-3333-3333-3333-333333333333',
+    leadId: '22222222-2222-2222-2222-222222222222'
+  }
+
+  beforeEach(() => {
+    process.env.TRACKING_TOKEN_SECRET = 'test-secret'
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com'
+  })
+
+  afterEach(() => {
+    delete process.env.TRACKING_TOKEN_SECRET
+    delete process.env.NEXT_PUBLIC_APP_URL
+  })
+
+  function extractToken(html: string, route: 'o' | 'c', index = 0): string {
+    const pattern = new RegExp(`https://app\\.example\\.com/t/${route}/([^"']+)`, 'g')
+    const matches = Array.from(html.matchAll(pattern))
+    return decodeURIComponent(matches[index][1])
+  }
+
+  it('deve reescrever links e numerá-los na ordem', () => {
+    const html = '<p><a href="https://example.com/a?x=1&amp;y=2">A</a> <a class="btn" href=\'https://example.com/b\'>B</a></p>'
+    const result = applyTracking(html, payload)
+
+    expect(result.links).toEqual([
+      { position: 1, url: 'https://example.com/a?x=1&y=2' },
+      { position: 2, url: 'https://example.com/b' }
+    ])
+    expect(result.html).not.toContain('href="https://example.com/a')
+    expect(result.html).toContain('class="btn"')
+
+    const click = verifyClickToken(extractToken(result.html, 'c', 1))
+    expect(click).toEqual({ ...payload, position: 2, url: 'https://example.com/b' })
+  })
+
+  it('não deve rastrear descadastro, mailto e links marcados', () => {
+    const html = [
+      '<a href="https://app.example.com/u/token">Sair</a>',
+      '<a href="mailto:contato@example.com">Email</a>',
+      '<a href="#topo">Topo</a>',
+      '<a data-no-track href="https://example.com/privado">Privado</a>'
+    ].join('')
+
+    const result = applyTracking(html, payload, { trackOpens: false })
+
+    expect(result.links).toEqual([])
+    expect(result.html).toBe(html)
+  })
+
+  it('deve inserir o pixel antes do fechamento do body', () => {
+    const result = applyTracking('<html><body><p>Oi</p></body></html>', payload, { trackClicks: false })
+
+    expect(result.html).toMatch(/<img src="https:\/\/app\.example\.com\/t\/o\/[^"]+" width="1" height="1"[^>]*\/><\/body>/)
+    expect(verifyOpenToken(extractToken(result.html, 'o'))).toEqual(payload)
+  })
+
+  it('deve rejeitar tokens de clique adulterados', () => {
+    const result = applyTracking('<a href="https://example.com">A</a>', payload, { trackOpens: false })
+    const token = extractToken(result.html, 'c')
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({
+      s: payload.sendId, w: payload.workspaceId, c: payload.campaignId, l: payload.leadId, p: 1, u: 'https://malicioso.com'
+    })).toString('base64url')
+
+    expect(verifyClickToken(`${forged}.${signature}`)).toBeNull()
+    expect(verifyClickToken(token)?.url).toBe('https://example.com')
+  })
+
+  it('deve gerar o mesmo hash de link para a mesma posição e URL', () => {
+    const url = 'https://example.com/a'
+
+    expect(getLinkHash(payload.campaignId, 1, url)).toBe(getLinkHash(payload.campaignId, 1, url))
+    expect(getLinkHash(payload.campaignId, 1, url)).not.toBe(getLinkHash(payload.campaignId, 2, url))
+    expect(getLinkHash(payload.campaignId, 1, url)).not.toBe(getLinkHash(payload.campaignId, 1, 'https://example.com/b'))
+  })
+
+  it('deve calcular a participação de cada link nos cliques', () => {
+    const report = buildLinkReport([
+      { id: 'a', position: 1, original_url: 'https://example.com/a', click_count: 3, unique_click_count: 2 },
+      { id: 'b', position: 2, original_url: 'https://example.com/b', click_count: 1, unique_click_count: 1 },
+      { id: 'c', position: 3, original_url: 'https://example.com/c', click_count: null, unique_click_count: null }
+    ])
+
+    expect(report.map(link => link.click_share)).toEqual([75, 25, 0])
+    expect(report[2].click_count).toBe(0)
+  })
+})
+
+describe('Gatilhos de automação do rastreamento', () => {
+  const payload = {
+    sendId: 'send-1',
+    workspaceId: 'ws-1',
+    campaignId: 'camp-1',
+    leadId: 'lead-1'
+  }
+  const human = { userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0', ipAddress: '200.10.10.10' }
+  const emailSend = { id: 'send-1', resend_id: 'msg-1', sent_at: '2025-05-01T10:00:00Z', opened_at: null, clicked_at: null, machine_opened_at: null }
+
+  // Chainable query builder; awaiting it (or single/maybeSingle) resolves to the given result
+  function createQuery(result: { data: any; error: any; count?: number }) {
+    const query: any = {}
+    for (const method of ['select', 'insert', 'update', 'upsert', 'eq', 'is']) {
+      query[method] = jest.fn(() => query)
+    }
+    query.single = jest.fn(() => Promise.resolve(result))
+    query.maybeSingle = jest.fn(() => Promise.resolve(result))
+    query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+    return query
+  }
+
+  // Each table answers with its queries in order, then with an empty result
+  function mockTables(tables: Record<string, any[]>) {
+    mockFrom.mockImplementation((table: string) =>
+      tables[table]?.shift() || createQuery({ data: null, error: null }))
+  }
+
+  beforeEach(() => {
+    mockFrom.mockReset()
+    mockRpc.mockReset()
+    mockEnqueue.mockReset()
+    mockRpc.mockResolvedValue({ data: null, error: null })
+    mockEnqueue.mockResolvedValue(undefined)
+  })
+
+  it('deve enfileirar email_opened na primeira abertura humana', async () => {
+    mockTables({
+      email_sends: [
+        createQuery({ data: emailSend, error: null }),
+        createQuery({ data: [{ id: 'send-1' }], error: null })
+      ]
+    })
+
+    await new TrackingService().recordOpen(payload, human)
+
+    expect(mockEnqueue).toHaveBeenCalledWith({
+      workspace_id: 'ws-1',
+      lead_id: 'lead-1',
+      type: 'email_opened',
+      payload: { campaign_id: 'camp-1', email_id: 'msg-1' },
+      occurred_at: expect.any(String)
+    })
+  })
+
+  it('não deve enfileirar gatilhos para aberturas de máquina ou repetidas', async () => {
+    mockTables({ email_sends: [createQuery({ data: emailSend, error: null })] })
+    await new TrackingService().recordOpen(payload, { userAgent: 'Mozilla/5.0', ipAddress: '17.58.0.1' })
+
+    // Outra requisição marcou opened_at entre a leitura e a atualização
+    mockTables({
+      email_sends: [
+        createQuery({ data: emailSend, error: null }),
+        createQuery({ data: [], error: null })
+      ]
+    })
+    await new TrackingService().recordOpen(payload, human)
+
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it('deve enfileirar abertura e clique no primeiro clique humano', async () => {
+    mockTables({
+      email_sends: [
+        createQuery({ data: emailSend, error: null }),
+        createQuery({ data: [{ id: 'send-1' }], error: null }),
+        createQuery({ data: [{ id: 'send-1' }], error: null })
+      ],
+      email_links: [createQuery({ data: { id: 'link-1' }, error: null })],
+      link_clicks: [createQuery({ data: null, error: null, count: 0 })]
+    })
+
+    await new TrackingService().recordClick({ ...payload, position: 1, url: 'https://loja.com/checkout' }, human)
+
+    expect(mockEnqueue.mock.calls.map(([event]: any[]) => event.type)).toEqual(['email_opened', 'email_clicked'])
+    expect(mockEnqueue).toHaveBeenLastCalledWith(expect.objectContaining({
+      payload: { campaign_id: 'camp-1', url: 'https://loja.com/checkout', email_id: 'msg-1' }
+    }))
+  })
+
+  it('deve contar cliques de emails de automação apenas no envio', async () => {
+    mockTables({
+      email_sends: [
+        createQuery({ data: { ...emailSend, opened_at: '2025-05-01T11:00:00Z' }, error: null }),
+        createQuery({ data: [{ id: 'send-1' }], error: null })
+      ]
+    })
+    await new TrackingService().recordClick(
+      { sendId: 'send-1', workspaceId: 'ws-1', leadId: 'lead-1', position: 1, url: 'https://loja.com' },
+      human
+    )
+
+    expect(mockFrom).not.toHaveBeenCalledWith('email_links')
+    expect(mockFrom).not.toHaveBeenCalledWith('link_clicks')
+    expect(mockRpc.mock.calls.map(([name]: any[]) => name)).toEqual(['increment_email_send_engagement'])
+    expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'email_clicked',
+      payload: { campaign_id: undefined, url: 'https://loja.com', email_id: 'msg-1' }
+    }))
+  })
+
+  it('não deve enfileirar cliques de scanners', async () => {
+    mockTables({
+      email_sends: [createQuery({ data: emailSend, error: null })],
+      email_links: [createQuery({ data: { id: 'link-1' }, error: null })]
+    })
+
+    await new TrackingService().recordClick(
+      { ...payload, position: 1, url: 'https://loja.com' },
+      { userAgent: 'Barracuda Sentinel', ipAddress: '200.10.10.10' }
+    )
+
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+})
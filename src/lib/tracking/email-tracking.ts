@@ -0,0 +1,97 @@
+// Rewrites outgoing email HTML so opens and clicks reach the tracking routes
+
+import { createHash } from 'crypto'
+import { getAppUrl } from '../app-url'
+import {
+  OpenTrackingPayload,
+  createOpenToken,
+  createClickToken,
+  buildOpenTrackingUrl,
+  buildClickTrackingUrl
+} from './tracking-tokens'
+
+export interface TrackingOptions {
+  trackOpens?: boolean
+  trackClicks?: boolean
+}
+
+export interface TrackedLink {
+  position: number
+  url: string
+}
+
+export interface TrackedEmail {
+  html: string
+  links: TrackedLink[]
+}
+
+const ANCHOR_HREF_PATTERN = /<a\b([^>]*?)\bhref\s*=\s*(["'])(.*?)\2([^>]*)>/gi
+const UNTRACKED_SCHEMES = /^(mailto:|tel:|sms:|javascript:|#)/i
+
+// Opt-out marker for individual links, e.g. <a href="..." data-no-track>
+const NO_TRACK_ATTRIBUTE = /\bdata-no-track\b/i
+
+function decodeHref(href: string): string {
+  return href.trim().replace(/&amp;/g, '&')
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+// Unsubscribe/preference links and our own redirects must keep working without a tracking hop
+function isTrackableUrl(url: string): boolean {
+  if (!url || UNTRACKED_SCHEMES.test(url) || url.includes('{{')) {
+    return false
+  }
+
+  if (!/^https?:\/\//i.test(url)) {
+    return false
+  }
+
+  const appUrl = getAppUrl()
+  return ![`${appUrl}/u/`, `${appUrl}/api/unsubscribe/`, `${appUrl}/t/`].some(prefix => url.startsWith(prefix))
+}
+
+// Stable per campaign, position and destination so every recipient's click lands on the same email_links row,
+// while a different URL at the same position (A/B content, per-lead links) gets a row of its own
+export function getLinkHash(campaignId: string, position: number, url: string): string {
+  return createHash('sha256').update(`${campaignId}:${position}:${url}`).digest('hex').slice(0, 32)
+}
+
+// Rewrites links to signed redirects and appends the open pixel for one recipient
+export function applyTracking(
+  html: string,
+  payload: OpenTrackingPayload,
+  options: TrackingOptions = {}
+): TrackedEmail {
+  const trackOpens = options.trackOpens !== false
+  const trackClicks = options.trackClicks !== false
+  const links: TrackedLink[] = []
+  let trackedHtml = html
+
+  if (trackClicks) {
+    trackedHtml = trackedHtml.replace(ANCHOR_HREF_PATTERN, (match, before, quote, href, after) => {
+      const url = decodeHref(href)
+
+      if (NO_TRACK_ATTRIBUTE.test(before) || NO_TRACK_ATTRIBUTE.test(after) || !isTrackableUrl(url)) {
+        return match
+      }
+
+      const position = links.length + 1
+      links.push({ position, url })
+
+      const trackingUrl = buildClickTrackingUrl(createClickToken({ ...payload, position, url }))
+      return `<a${before}href=${quote}${escapeAttribute(trackingUrl)}${quote}${after}>`
+    })
+  }
+
+  if (trackOpens) {
+    const pixel = `<img src="${escapeAttribute(buildOpenTrackingUrl(createOpenToken(payload)))}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`
+    trackedHtml = /<\/body>/i.test(trackedHtml)
+      ? trackedHtml.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${trackedHtml}${pixel}`
+  }
+
+  return { html: trackedHtml, links }
+}
@@ -0,0 +1,26 @@
+// Campaign link heatmap data; kept free of server imports so dashboard pages can use it
+
+export interface LinkReportEntry {
+  id: string
+  position: number | null
+  original_url: string
+  click_count: number
+  unique_click_count: number
+  // Share of all human clicks in the campaign, 0-100
+  click_share: number
+}
+
+export function buildLinkReport(
+  links: Array<{ id: string; position: number | null; original_url: string; click_count: number | null; unique_click_count: number | null }>
+): LinkReportEntry[] {
+  const totalClicks = links.reduce((sum, link) => sum + (link.click_count || 0), 0)
+
+  return links.map(link => ({
+    id: link.id,
+    position: link.position,
+    original_url: link.original_url,
+    click_count: link.click_count || 0,
+    unique_click_count: link.unique_click_count || 0,
+    click_share: totalClicks > 0 ? Math.round(((link.click_count || 0) / totalClicks) * 1000) / 10 : 0
+  }))
+}
@@ -0,0 +1,114 @@
+// Classifies tracking hits that were made by software rather than the recipient
+
+export type MachineReason = 'apple_mpp' | 'security_scanner' | 'prefetch' | 'missing_user_agent'
+
+export interface TrackingRequestInfo {
+  userAgent: string | null
+  ipAddress: string | null
+  // When the email was handed to the provider, used to spot instant scanner hits
+  sentAt?: string | null
+  occurredAt?: Date
+}
+
+export interface MachineDetectionResult {
+  isMachine: boolean
+  reason: MachineReason | null
+}
+
+// Apple Mail Privacy Protection fetches images from Apple-owned addresses with a bare UA
+const APPLE_MPP_USER_AGENT = 'Mozilla/5.0'
+const APPLE_IPV4_PREFIX = '17.'
+
+// Link scanners from mail security gateways and generic HTTP clients
+const SCANNER_USER_AGENT_PATTERNS = [
+  /barracuda/i,
+  /proofpoint/i,
+  /mimecast/i,
+  /symantec|messagelabs/i,
+  /trendmicro|trend micro/i,
+  /fortinet|fortiguard/i,
+  /sophos/i,
+  /cisco|ironport/i,
+  /microsoft office|ms-office|safelinks/i,
+  /headlesschrome|phantomjs|puppeteer/i,
+  /python-requests|python-urllib|go-http-client|java\/|okhttp|curl\/|wget\/|libwww/i,
+  /bot\b|crawler|spider|scanner|preview/i
+]
+
+// Hits this soon after the send are made before a person could plausibly have read the email
+const OPEN_PREFETCH_WINDOW_MS = 2 * 1000
+const CLICK_PREFETCH_WINDOW_MS = 10 * 1000
+
+const HUMAN: MachineDetectionResult = { isMachine: false, reason: null }
+
+function isAppleIp(ipAddress: string | null): boolean {
+  return !!ipAddress && ipAddress.startsWith(APPLE_IPV4_PREFIX)
+}
+
+function matchesScanner(userAgent: string): boolean {
+  return SCANNER_USER_AGENT_PATTERNS.some(pattern => pattern.test(userAgent))
+}
+
+function isWithinWindow(info: TrackingRequestInfo, windowMs: number): boolean {
+  if (!info.sentAt) {
+    return false
+  }
+
+  const sentAt = new Date(info.sentAt).getTime()
+  const occurredAt = (info.occurredAt || new Date()).getTime()
+  return !Number.isNaN(sentAt) && occurredAt - sentAt >= 0 && occurredAt - sentAt < windowMs
+}
+
+export function detectMachineOpen(info: TrackingRequestInfo): MachineDetectionResult {
+  const userAgent = info.userAgent?.trim() || ''
+
+  if (!userAgent) {
+    return { isMachine: true, reason: 'missing_user_agent' }
+  }
+
+  if (userAgent === APPLE_MPP_USER_AGENT || isAppleIp(info.ipAddress)) {
+    return { isMachine: true, reason: 'apple_mpp' }
+  }
+
+  if (matchesScanner(userAgent)) {
+    return { isMachine: true, reason: 'security_scanner' }
+  }
+
+  if (isWithinWindow(info, OPEN_PREFETCH_WINDOW_MS)) {
+    return { isMachine: true, reason: 'prefetch' }
+  }
+
+  return HUMAN
+}
+
+export function detectMachineClick(info: TrackingRequestInfo): MachineDetectionResult {
+  const userAgent = info.userAgent?.trim() || ''
+
+  if (!userAgent) {
+    return { isMachine: true, reason: 'missing_user_agent' }
+  }
+
+  if (matchesScanner(userAgent)) {
+    return { isMachine: true, reason: 'security_scanner' }
+  }
+
+  if (isWithinWindow(info, CLICK_PREFETCH_WINDOW_MS)) {
+    return { isMachine: true, reason: 'prefetch' }
+  }
+
+  return HUMAN
+}
+
+// First address in X-Forwarded-For is the client; proxies append their own
+export function getClientIp(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim() || null
+  }
+  return headers.get('x-real-ip')
+}
+
+// IANA timezone the edge network geolocated the client IP to (Vercel, then Cloudflare)
+export function getClientTimezone(headers: Headers): string | null {
+  return headers.get('x-vercel-ip-timezone') || headers.get('cf-timezone') || null
+}
@@ -0,0 +1,360 @@
+import { supabaseAdmin } from '../supabase'
+import { getAppUrl } from '../app-url'
+import { logger } from '../logger'
+import { OpenTrackingPayload, ClickTrackingPayload } from './tracking-tokens'
+import { getLinkHash, TrackedLink } from './email-tracking'
+import { detectMachineOpen, detectMachineClick, MachineDetectionResult } from './machine-detection'
+import { buildLinkReport, LinkReportEntry } from './link-report'
+import { isValidTimezone } from '../automation/wait-steps'
+import { automationTriggerDispatcher, TriggerEvent } from '../automation/trigger-dispatcher'
+
+export interface TrackingRequestMeta {
+  userAgent: string | null
+  ipAddress: string | null
+  referer?: string | null
+  // Geolocated from the client IP by the edge network
+  timezone?: string | null
+}
+
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+export class TrackingService {
+  // Tracking routes are hit anonymously by mail clients, so they run with the service role
+  private supabase = supabaseAdmin
+
+  getPixel(): Buffer {
+    return TRACKING_PIXEL
+  }
+
+  // Creates the email_links rows used by the link report; existing rows are left untouched
+  async registerLinks(campaignId: string, links: TrackedLink[]): Promise<void> {
+    if (links.length === 0) {
+      return
+    }
+
+    const rows = links.map(link => ({
+      campaign_id: campaignId,
+      original_url: link.url,
+      tracking_url: `${getAppUrl()}/t/c`,
+      link_hash: getLinkHash(campaignId, link.position, link.url),
+      position: link.position
+    }))
+
+    const { error } = await this.supabase
+      .from('email_links')
+      .upsert(rows, { onConflict: 'link_hash', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Error registering tracked links: ${error.message}`)
+    }
+  }
+
+  async recordOpen(payload: OpenTrackingPayload, meta: TrackingRequestMeta): Promise<MachineDetectionResult> {
+    const { data: emailSend } = await this.supabase
+      .from('email_sends')
+      .select('id, resend_id, sent_at, opened_at, machine_opened_at')
+      .eq('id', payload.sendId)
+      .single()
+
+    if (!emailSend) {
+      return { isMachine: false, reason: null }
+    }
+
+    const detection = detectMachineOpen({
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      sentAt: emailSend.sent_at
+    })
+
+    if (detection.isMachine) {
+      if (!emailSend.machine_opened_at) {
+        await this.supabase
+          .from('email_sends')
+          .update({ machine_opened_at: new Date().toISOString() })
+          .eq('id', payload.sendId)
+
+        if (payload.campaignId) {
+          await this.supabase.rpc('increment_campaign_machine_opened', {
+            campaign_id: payload.campaignId
+          })
+        }
+      }
+      return detection
+    }
+
+    await this.supabase.rpc('increment_email_send_engagement', {
+      p_send_id: payload.sendId,
+      p_opens: 1,
+      p_clicks: 0
+    })
+
+    if (!emailSend.opened_at) {
+      await this.markFirstOpen(payload, 'pixel', emailSend.resend_id)
+    }
+
+    return detection
+  }
+
+  // Machine clicks are stored for auditing but never counted as engagement
+  async recordClick(payload: ClickTrackingPayload, meta: TrackingRequestMeta): Promise<MachineDetectionResult> {
+    const { data: emailSend } = await this.supabase
+      .from('email_sends')
+      .select('id, resend_id, sent_at, opened_at, clicked_at')
+      .eq('id', payload.sendId)
+      .single()
+
+    if (!emailSend) {
+      return { isMachine: false, reason: null }
+    }
+
+    const detection = detectMachineClick({
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      sentAt: emailSend.sent_at
+    })
+
+    // Link rows belong to a campaign; automation emails only count clicks on the send
+    if (payload.campaignId) {
+      await this.recordLinkClick(payload.campaignId, payload, meta, detection)
+    }
+
+    if (detection.isMachine) {
+      return detection
+    }
+
+    await this.supabase.rpc('increment_email_send_engagement', {
+      p_send_id: payload.sendId,
+      p_opens: 0,
+      p_clicks: 1
+    })
+
+    // A human click proves the email was opened, even when images were blocked
+    if (!emailSend.opened_at) {
+      await this.markFirstOpen(payload, 'click', emailSend.resend_id)
+    }
+
+    // Where the lead clicks from locates them for local-time campaigns when no timezone was set explicitly
+    if (isValidTimezone(meta.timezone)) {
+      await this.supabase
+        .from('leads')
+        .update({ detected_timezone: meta.timezone })
+        .eq('id', payload.leadId)
+    }
+
+    if (!emailSend.clicked_at) {
+      await this.markFirstClick(payload, emailSend.resend_id)
+    }
+
+    await this.supabase
+      .from('lead_activities')
+      .insert({
+        lead_id: payload.leadId,
+        activity_type: 'email_clicked',
+        activity_data: {
+          campaign_id: payload.campaignId,
+          email_send_id: payload.sendId,
+          url: payload.url,
+          position: payload.position,
+          clicked_at: new Date().toISOString()
+        }
+      })
+
+    return detection
+  }
+
+  // Per-link click totals for the campaign report heatmap, in template order
+  async getLinkReport(campaignId: string): Promise<LinkReportEntry[]> {
+    const { data, error } = await this.supabase
+      .from('email_links')
+      .select('id, position, original_url, click_count, unique_click_count')
+      .eq('campaign_id', campaignId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      throw new Error(`Error loading link report: ${error.message}`)
+    }
+
+    return buildLinkReport(data || [])
+  }
+
+  private async markFirstOpen(
+    payload: OpenTrackingPayload,
+    source: 'pixel' | 'click',
+    messageId: string | null
+  ): Promise<void> {
+    const openedAt = new Date().toISOString()
+
+    // Only the request that sets opened_at bumps the campaign counter
+    const { data: updated } = await this.supabase
+      .from('email_sends')
+      .update({ opened_at: openedAt })
+      .eq('id', payload.sendId)
+      .is('opened_at', null)
+      .select('id')
+
+    if (!updated || updated.length === 0) {
+      return
+    }
+
+    if (payload.campaignId) {
+      await this.supabase.rpc('increment_campaign_opened', {
+        campaign_id: payload.campaignId
+      })
+    }
+
+    await this.supabase
+      .from('leads')
+      .update({
+        last_opened_at: openedAt,
+        last_activity_at: openedAt
+      })
+      .eq('id', payload.leadId)
+
+    await this.supabase
+      .from('lead_activities')
+      .insert({
+        lead_id: payload.leadId,
+        activity_type: 'email_opened',
+        activity_data: {
+          campaign_id: payload.campaignId,
+          email_send_id: payload.sendId,
+          source,
+          opened_at: openedAt
+        }
+      })
+
+    await this.queueTrigger(payload, 'email_opened', { campaign_id: payload.campaignId }, messageId, openedAt)
+  }
+
+  // Same claim as markFirstOpen, so concurrent clicks count and trigger flows once
+  private async markFirstClick(payload: ClickTrackingPayload, messageId: string | null): Promise<void> {
+    const clickedAt = new Date().toISOString()
+
+    const { data: updated } = await this.supabase
+      .from('email_sends')
+      .update({ clicked_at: clickedAt })
+      .eq('id', payload.sendId)
+      .is('clicked_at', null)
+      .select('id')
+
+    if (!updated || updated.length === 0) {
+      return
+    }
+
+    if (payload.campaignId) {
+      await this.supabase.rpc('increment_campaign_clicked', {
+        campaign_id: payload.campaignId
+      })
+    }
+
+    await this.supabase
+      .from('leads')
+      .update({
+        last_clicked_at: clickedAt,
+        last_activity_at: clickedAt
+      })
+      .eq('id', payload.leadId)
+
+    await this.queueTrigger(payload, 'email_clicked', { campaign_id: payload.campaignId, url: payload.url }, messageId, clickedAt)
+  }
+
+  // Same event shape as the provider webhooks; email_id is the provider message id wait steps match on.
+  // A failed enqueue must not break the pixel or the redirect
+  private async queueTrigger(
+    payload: OpenTrackingPayload,
+    type: TriggerEvent['type'],
+    eventPayload: TriggerEvent['payload'],
+    messageId: string | null,
+    occurredAt: string
+  ): Promise<void> {
+    try {
+      await automationTriggerDispatcher.enqueue({
+        workspace_id: payload.workspaceId,
+        lead_id: payload.leadId,
+        type,
+        payload: { ...eventPayload, email_id: messageId || undefined },
+        occurred_at: occurredAt
+      })
+    } catch (error) {
+      logger.error('Error queuing automation trigger', { metadata: { email_send_id: payload.sendId } }, error as Error)
+    }
+  }
+
+  private async recordLinkClick(
+    campaignId: string,
+    payload: ClickTrackingPayload,
+    meta: TrackingRequestMeta,
+    detection: MachineDetectionResult
+  ): Promise<void> {
+    const linkId = await this.resolveLinkId(campaignId, payload)
+
+    let isUniqueClick = false
+    if (!detection.isMachine) {
+      const { count } = await this.supabase
+        .from('link_clicks')
+        .select('id', { count: 'exact', head: true })
+        .eq('link_id', linkId)
+        .eq('lead_id', payload.leadId)
+        .eq('is_machine', false)
+
+      isUniqueClick = (count || 0) === 0
+    }
+
+    await this.supabase
+      .from('link_clicks')
+      .insert({
+        link_id: linkId,
+        lead_id: payload.leadId,
+        email_send_id: payload.sendId,
+        user_agent: meta.userAgent,
+        ip_address: meta.ipAddress,
+        referer: meta.referer || null,
+        is_machine: detection.isMachine,
+        machine_reason: detection.reason
+      })
+
+    if (detection.isMachine) {
+      await this.supabase.rpc('increment_campaign_machine_clicked', {
+        campaign_id: campaignId
+      })
+      return
+    }
+
+    await this.supabase.rpc('increment_link_clicks', {
+      p_link_id: linkId,
+      p_unique: isUniqueClick
+    })
+  }
+
+  // Links are registered per batch, but fall back to creating the row if the click arrives first
+  private async resolveLinkId(campaignId: string, payload: ClickTrackingPayload): Promise<string> {
+    const linkHash = getLinkHash(campaignId, payload.position, payload.url)
+
+    const { data: existing } = await this.supabase
+      .from('email_links')
+      .select('id')
+      .eq('link_hash', linkHash)
+      .maybeSingle()
+
+    if (existing) {
+      return existing.id
+    }
+
+    await this.registerLinks(campaignId, [{ position: payload.position, url: payload.url }])
+
+    const { data: created, error } = await this.supabase
+      .from('email_links')
+      .select('id')
+      .eq('link_hash', linkHash)
+      .single()
+
+    if (error || !created) {
+      throw new Error(`Error resolving tracked link for campaign ${campaignId}`)
+    }
+
+    return created.id
+  }
+}
+
+export const trackingService = new TrackingService()
@@ -0,0 +1,102 @@
+import { createSignedToken, verifySignedToken } from '../signed-tokens'
+import { getAppUrl } from '../app-url'
+
+// Identifies the email_sends row behind a tracking pixel
+export interface OpenTrackingPayload {
+  sendId: string
+  workspaceId: string
+  // Unset for automation emails, which have no campaign
+  campaignId?: string
+  leadId: string
+}
+
+// Clicks also carry the link position and the recipient's final destination URL
+export interface ClickTrackingPayload extends OpenTrackingPayload {
+  position: number
+  url: string
+}
+
+// Compact on-the-wire shape to keep URLs short
+interface EncodedPayload {
+  s: string
+  w: string
+  c?: string
+  l: string
+  p?: number
+  u?: string
+}
+
+function getSecret(): string {
+  const secret = process.env.TRACKING_TOKEN_SECRET
+  if (!secret) {
+    throw new Error('TRACKING_TOKEN_SECRET is not configured')
+  }
+  return secret
+}
+
+function encode(encoded: EncodedPayload): string {
+  return createSignedToken(encoded, getSecret())
+}
+
+function decode(token: string): EncodedPayload | null {
+  const decoded = verifySignedToken<EncodedPayload>(token, getSecret())
+  if (!decoded || !decoded.s || !decoded.w || !decoded.l) {
+    return null
+  }
+  return decoded
+}
+
+export function createOpenToken(payload: OpenTrackingPayload): string {
+  return encode({ s: payload.sendId, w: payload.workspaceId, c: payload.campaignId, l: payload.leadId })
+}
+
+// The destination is signed into the token, so the redirect route cannot be used as an open redirect
+export function createClickToken(payload: ClickTrackingPayload): string {
+  return encode({
+    s: payload.sendId,
+    w: payload.workspaceId,
+    c: payload.campaignId,
+    l: payload.leadId,
+    p: payload.position,
+    u: payload.url
+  })
+}
+
+// Returns null for malformed or tampered tokens
+export function verifyOpenToken(token: string): OpenTrackingPayload | null {
+  const decoded = decode(token)
+  if (!decoded) {
+    return null
+  }
+
+  return {
+    sendId: decoded.s,
+    workspaceId: decoded.w,
+    campaignId: decoded.c,
+    leadId: decoded.l
+  }
+}
+
+export function verifyClickToken(token: string): ClickTrackingPayload | null {
+  const decoded = decode(token)
+  if (!decoded || typeof decoded.p !== 'number' || !decoded.u) {
+    return null
+  }
+
+  return {
+    sendId: decoded.s,
+    workspaceId: decoded.w,
+    campaignId: decoded.c,
+    leadId: decoded.l,
+    position: decoded.p,
+    url: decoded.u
+  }
+}
+
+export function buildOpenTrackingUrl(token: string): string {
+  return `${getAppUrl()}/t/o/${encodeURIComponent(token)}`
+}
+
+export function buildClickTrackingUrl(token: string): string {
+  return `${getAppUrl()}/t/c/${encodeURIComponent(token)}`
+}
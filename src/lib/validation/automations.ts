@@ -0,0 +1,95 @@
+import { z } from 'zod'
+
+// Lead fields accepted by inbound triggers
+const inboundLeadShape = {
+  email: z.string().email('Invalid email format').max(255),
+  name: z.string().min(1, 'Name must not be empty').max(255, 'Name too long').optional(),
+  phone: z.string().max(50, 'Phone too long').optional(),
+  company: z.string().max(255, 'Company name too long').optional(),
+  position: z.string().max(255, 'Position too long').optional(),
+  timezone: z.string().max(64, 'Timezone too long').optional(),
+  tags: z.array(z.string().min(1).max(100)).max(50, 'Too many tags').optional(),
+  custom_fields: z.record(z.any()).optional(),
+}
+
+// Leads a bulk enrollment or cancellation applies to
+const enrollmentSource = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('segment'), segment_id: z.string().uuid('Invalid segment ID') }),
+  z.object({ type: z.literal('list'), list_id: z.string().uuid('Invalid list ID') }),
+  z.object({ type: z.literal('csv'), csv: z.string().min(1, 'CSV is empty').max(5 * 1024 * 1024, 'CSV too large') }),
+  z.object({ type: z.literal('leads'), lead_ids: z.array(z.string().uuid('Invalid lead ID')).min(1).max(10000, 'Too many leads') }),
+])
+
+const bulkEnrollShape = {
+  source: enrollmentSource,
+  trigger_data: z.record(z.any()).optional(),
+}
+
+// Without a source every active run of the flow is cancelled
+const bulkCancelShape = {
+  source: enrollmentSource.optional(),
+}
+
+// Automation trigger validation schemas
+export const automationSchemas = {
+  // POST /api/automation/hooks/[secret] body
+  inboundWebhook: z.object({
+    ...inboundLeadShape,
+    data: z.record(z.any()).default({}),
+  }),
+
+  // POST /api/public/v1/forms/submissions body
+  formSubmission: z.object({
+    form_id: z.string().min(1, 'Form ID is required').max(100, 'Form ID too long'),
+    ...inboundLeadShape,
+    fields: z.record(z.any()).default({}),
+    source_url: z.string().url('Invalid URL format').max(2048).optional(),
+    referrer: z.string().max(2048).optional(),
+  }),
+
+  // POST /api/automation/flows/[id]/versions body
+  publishFlow: z.object({
+    migrations: z.array(z.object({
+      from_version_id: z.string().uuid('Invalid version ID'),
+      step_mapping: z.record(z.string().min(1).max(255)),
+    })).max(50, 'Too many migrations').default([]),
+  }),
+
+  // POST /api/automation/flows/[id]/enrollments body
+  bulkEnroll: z.object(bulkEnrollShape),
+
+  // DELETE /api/automation/flows/[id]/enrollments body
+  bulkCancel: z.object(bulkCancelShape),
+
+  // POST /api/public/v1/automations/enrollments body
+  publicBulkEnroll: z.object({
+    automation_id: z.string().uuid('Invalid automation ID'),
+    ...bulkEnrollShape,
+  }),
+
+  // DELETE /api/public/v1/automations/enrollments body
+  publicBulkCancel: z.object({
+    automation_id: z.string().uuid('Invalid automation ID'),
+    ...bulkCancelShape,
+  }),
+
+  // GET /api/automation/flows/[id]/analytics query
+  stepAnalytics: z.object({
+    version_id: z.string().uuid('Invalid version ID').optional(),
+  }),
+
+  // POST /api/automation/dry-run body
+  dryRun: z.object({
+    automation_id: z.string().uuid('Invalid automation ID'),
+    lead_id: z.string().uuid('Invalid lead ID').optional(),
+    segment_id: z.string().uuid('Invalid segment ID').optional(),
+    sample_size: z.number().int().min(1).max(50, 'Sample size must be at most 50').default(10),
+    definition: z.enum(['draft', 'published']).default('draft'),
+    start_at: z.string().datetime('Invalid start date').optional(),
+    wait_outcome: z.enum(['event', 'timeout']).default('timeout'),
+    trigger_data: z.record(z.any()).optional(),
+  }).refine(data => !!data.lead_id !== !!data.segment_id, {
+    message: 'Provide either lead_id or segment_id',
+    path: ['lead_id'],
+  }),
+}
@@ -13,6 +13,13 @@ const paginationSchema = z.object({
 
 const campaignStatusEnum = z.enum(['draft', 'scheduled', 'sending', 'sent', 'paused', 'cancelled'])
 
+// 'optimized' sends to each lead at the hour they usually open, within 24 hours;
+// 'local_time' sends to each lead at local_send_time in their own timezone
+export const campaignSendModeEnum = z.enum(['immediate', 'optimized', 'local_time'])
+
+// Wall-clock HH:MM, e.g. 09:00
+export const localSendTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'local_send_time must be HH:MM')
+
 // Campaign validation schemas
 export const campaignSchemas = {
   // GET /api/public/v1/campaigns query parameters
@@ -28,6 +35,7 @@ export const campaignSchemas = {
     subject: z.string().min(1, 'Subject is required').max(255, 'Subject too long'),
     template_id: commonSchemas.uuid.optional(),
     segment_id: commonSchemas.uuid.optional(),
+    topic_id: commonSchemas.uuid.optional(),
     send_at: z.string().datetime('Invalid send_at date format').optional(),
     content: z.object({
       html: z.string().optional(),
@@ -35,6 +43,8 @@ export const campaignSchemas = {
       variables: z.record(z.any()).optional(),
     }).optional(),
     status: campaignStatusEnum.default('draft'),
+    send_mode: campaignSendModeEnum.default('immediate'),
+    local_send_time: localSendTimeSchema.optional(),
   }).refine(
     (data) => data.template_id || data.content,
     {
@@ -55,6 +65,7 @@ export const campaignSchemas = {
     subject: z.string().min(1, 'Subject is required').max(255, 'Subject too long').optional(),
     template_id: commonSchemas.uuid.optional(),
     segment_id: commonSchemas.uuid.optional(),
+    topic_id: commonSchemas.uuid.optional(),
     send_at: z.string().datetime('Invalid send_at date format').optional(),
     content: z.object({
       html: z.string().optional(),
@@ -62,6 +73,8 @@ export const campaignSchemas = {
       variables: z.record(z.any()).optional(),
     }).optional(),
     status: campaignStatusEnum.optional(),
+    send_mode: campaignSendModeEnum.optional(),
+    local_send_time: localSendTimeSchema.nullable().optional(),
   }).refine(
     (data) => !data.send_at || new Date(data.send_at) > new Date(),
     {
@@ -0,0 +1,35 @@
+import { z } from 'zod'
+
+const categorySchema = z.enum(['header', 'footer', 'product_card', 'social_links', 'custom'])
+
+// Same shape as the visual editor components; blocks cannot contain synced blocks
+const componentSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: z.enum(['text', 'heading', 'image', 'button', 'divider', 'spacer', 'columns']),
+  content: z.record(z.any()),
+})
+
+// Content block validation schemas
+export const contentBlockSchemas = {
+  // GET /api/public/v1/templates/blocks query
+  listQuery: z.object({
+    category: categorySchema.optional(),
+  }),
+
+  // POST /api/public/v1/templates/blocks body
+  create: z.object({
+    name: z.string().min(1, 'Name is required').max(255),
+    category: categorySchema.default('custom'),
+    description: z.string().max(1000).optional(),
+    components: z.array(componentSchema).min(1, 'At least one component is required').max(50),
+    is_synced: z.boolean().default(false),
+  }),
+
+  // PUT /api/public/v1/templates/blocks?id= body; a block cannot switch between synced and copied
+  update: z.object({
+    name: z.string().min(1, 'Name is required').max(255).optional(),
+    category: categorySchema.optional(),
+    description: z.string().max(1000).nullable().optional(),
+    components: z.array(componentSchema).min(1, 'At least one component is required').max(50).optional(),
+  }),
+}
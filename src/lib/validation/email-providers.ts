@@ -0,0 +1,54 @@
+import { z } from 'zod'
+
+const resendConfig = z.object({
+  api_key: z.string().min(1, 'API key is required').max(255),
+})
+
+const smtpConfig = z.object({
+  host: z.string().min(1, 'Host is required').max(255),
+  port: z.coerce.number().int().min(1).max(65535).default(587),
+  secure: z.boolean().default(false),
+  username: z.string().max(255).optional(),
+  password: z.string().max(255).optional(),
+  client_name: z.string().max(255).optional(),
+  timeout_ms: z.number().int().min(1000).max(120000).optional(),
+})
+
+const sesConfig = z.object({
+  region: z.string().regex(/^[a-z]{2}(-[a-z]+)+-\d$/, 'Invalid AWS region'),
+  access_key_id: z.string().min(1, 'Access key ID is required').max(128),
+  secret_access_key: z.string().min(1, 'Secret access key is required').max(128),
+  configuration_set: z.string().max(64).optional(),
+})
+
+// The capture directory is a server path, so only EMAIL_SINK_DIR sets it
+const SINK_DIRECTORY_MESSAGE = 'The sink directory can only be set with EMAIL_SINK_DIR'
+
+const sinkConfig = z.object({}).strict(SINK_DIRECTORY_MESSAGE)
+
+const providerBase = {
+  name: z.string().min(1, 'Name is required').max(255),
+  priority: z.number().int().min(0).max(100).default(0),
+  is_active: z.boolean().default(true),
+}
+
+// Email provider validation schemas
+export const emailProviderSchemas = {
+  // POST /api/public/v1/email-providers body
+  create: z.discriminatedUnion('provider_type', [
+    z.object({ ...providerBase, provider_type: z.literal('resend'), config: resendConfig }),
+    z.object({ ...providerBase, provider_type: z.literal('smtp'), config: smtpConfig }),
+    z.object({ ...providerBase, provider_type: z.literal('ses'), config: sesConfig }),
+    z.object({ ...providerBase, provider_type: z.literal('sink'), config: sinkConfig }),
+  ]),
+
+  // PUT /api/public/v1/email-providers body; config keys are merged into the stored config
+  update: z.object({
+    name: providerBase.name.optional(),
+    priority: z.number().int().min(0).max(100).optional(),
+    is_active: z.boolean().optional(),
+    config: z.record(z.union([z.string().max(500), z.number(), z.boolean()]))
+      .refine(config => !('directory' in config), SINK_DIRECTORY_MESSAGE)
+      .optional(),
+  }),
+}
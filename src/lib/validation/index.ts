@@ -33,4 +33,10 @@ export { webhookSchemas } from './webhooks'
 export { authSchemas } from './auth'
 export { templateSchemas } from './templates'
 export { analyticsSchemas } from './analytics'
-export { abTestSchemas } from './ab-tests'
\ No newline at end of file
+export { abTestSchemas } from './ab-tests'
+export { segmentSchemas } from './segments'
+export { subscriptionSchemas } from './subscriptions'
+export { suppressionSchemas } from './suppressions'
+export { emailProviderSchemas } from './email-providers'
+export { contentBlockSchemas } from './content-blocks'
+export { automationSchemas } from './automations'
\ No newline at end of file
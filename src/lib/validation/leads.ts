@@ -36,6 +36,7 @@ export const leadSchemas = {
     source: z.string().max(100, 'Source too long').default('api'),
     tags: commonSchemas.tags,
     custom_fields: commonSchemas.customFields,
+    timezone: z.string().max(64, 'Timezone too long').optional(),
   }),
 
   // PUT /api/public/v1/leads body
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+
+// Import common schemas to avoid circular dependency
+const commonSchemas = {
+  uuid: z.string().uuid('Invalid UUID format'),
+}
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1, 'Page must be at least 1').default(1),
+  limit: z.coerce.number().min(1, 'Limit must be at least 1').max(100, 'Limit cannot exceed 100').default(50),
+})
+
+const comparisonEnum = z.enum([
+  'equals', 'not_equals', 'contains', 'not_contains', 'greater_than',
+  'less_than', 'is_empty', 'is_not_empty', 'in', 'not_in'
+])
+
+// Recursive AdvancedCondition tree (see src/lib/automation/advanced-conditions.ts)
+const conditionSchema: z.ZodType<any> = z.lazy(() =>
+  z.object({
+    id: z.string().min(1, 'Condition id is required'),
+    type: z.enum(['simple', 'group']),
+    operator: z.enum(['and', 'or']).optional(),
+    conditions: z.array(conditionSchema).optional(),
+    field: z.string().optional(),
+    comparison: comparisonEnum.optional(),
+    value: z.any().optional(),
+    case_sensitive: z.boolean().optional(),
+  })
+)
+
+const segmentDefinitionSchema = z.object({
+  operator: z.enum(['and', 'or']).default('and'),
+  conditions: z.array(conditionSchema).max(50, 'Too many conditions'),
+})
+
+// Segment validation schemas
+export const segmentSchemas = {
+  definition: segmentDefinitionSchema,
+
+  // GET /api/public/v1/segments query parameters
+  getSegments: z.object({
+    ...paginationSchema.shape,
+    refresh_counts: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  }),
+
+  // POST /api/public/v1/segments body
+  createSegment: z.object({
+    name: z.string().min(1, 'Segment name is required').max(255, 'Segment name too long'),
+    description: z.string().max(1000, 'Description too long').optional(),
+    conditions: segmentDefinitionSchema,
+    auto_update: z.boolean().default(true),
+  }),
+
+  // PUT /api/public/v1/segments body
+  updateSegment: z.object({
+    name: z.string().min(1, 'Segment name is required').max(255, 'Segment name too long').optional(),
+    description: z.string().max(1000, 'Description too long').optional(),
+    conditions: segmentDefinitionSchema.optional(),
+    auto_update: z.boolean().optional(),
+  }),
+
+  // POST /api/public/v1/segments/preview body
+  previewSegment: z.object({
+    segment_id: commonSchemas.uuid.optional(),
+    conditions: segmentDefinitionSchema.optional(),
+    sample_size: z.number().min(0).max(50).default(10),
+    sendable_only: z.boolean().default(false),
+  }).refine(
+    (data) => data.segment_id || data.conditions,
+    {
+      message: 'Either segment_id or conditions is required',
+      path: ['segment_id'],
+    }
+  ),
+}
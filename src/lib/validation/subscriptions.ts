@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+// Import common schemas to avoid circular dependency
+const commonSchemas = {
+  uuid: z.string().uuid('Invalid UUID format'),
+}
+
+// Subscription topic validation schemas
+export const subscriptionSchemas = {
+  // POST /api/public/v1/topics body
+  createTopic: z.object({
+    name: z.string().min(1, 'Topic name is required').max(255, 'Topic name too long'),
+    description: z.string().max(1000, 'Description too long').optional(),
+    is_default: z.boolean().default(true),
+  }),
+
+  // PUT /api/public/v1/topics body
+  updateTopic: z.object({
+    name: z.string().min(1, 'Topic name is required').max(255, 'Topic name too long').optional(),
+    description: z.string().max(1000, 'Description too long').optional(),
+    is_default: z.boolean().optional(),
+  }),
+
+  // Topic ids chosen in the preference center
+  topicIds: z.array(commonSchemas.uuid).max(100, 'Too many topics'),
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+// Suppression list validation schemas
+export const suppressionSchemas = {
+  // GET /api/public/v1/suppressions query
+  listQuery: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    entry_type: z.enum(['email', 'domain']).optional(),
+    reason: z.enum(['hard_bounce', 'complaint', 'manual', 'import']).optional(),
+    search: z.string().max(255).optional(),
+  }),
+
+  // POST /api/public/v1/suppressions body
+  addEntries: z.object({
+    emails: z.array(z.string().email('Invalid email format').max(255)).max(1000, 'Too many emails').default([]),
+    domains: z.array(
+      z.string()
+        .max(255)
+        .regex(/^(?!-)[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*\.[a-zA-Z]{2,}$/, 'Invalid domain format')
+    ).max(1000, 'Too many domains').default([]),
+    reason: z.enum(['manual', 'import']).default('manual'),
+  }).refine(data => data.emails.length + data.domains.length > 0, {
+    message: 'At least one email or domain is required',
+  }),
+}
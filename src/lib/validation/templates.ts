@@ -101,20 +101,20 @@ export const templateSchemas = {
     check_spam: z.boolean().default(true),
   }),
 
-  // Template export
+  // Template export (query parameters)
   exportTemplate: z.object({
     template_id: commonSchemas.uuid,
-    format: z.enum(['html', 'json', 'zip']).default('html'),
-    include_assets: z.boolean().default(false),
+    format: z.enum(['html', 'mjml', 'zip']).default('html'),
+    // Bundles images hosted in the workspace's template assets into the ZIP
+    include_assets: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
   }),
 
-  // Template import
+  // Template import (multipart fields next to the uploaded file)
   importTemplate: z.object({
-    name: z.string().min(1, 'Template name is required').max(255, 'Template name too long'),
-    source: z.enum(['html', 'json', 'url', 'file']),
-    data: z.string().min(1, 'Template data is required'),
-    url: z.string().url('Invalid URL').optional(),
-    overwrite_existing: z.boolean().default(false),
+    name: z.string().min(1, 'Template name is required').max(255, 'Template name too long').optional(),
+    subject: z.string().min(1, 'Subject is required').max(500, 'Subject too long').optional(),
+    format: z.enum(['html', 'mjml', 'zip']).optional(),
+    overwrite_existing: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
   }),
 
   // Template folder operations
@@ -147,6 +147,15 @@ export const templateSchemas = {
     version_id: commonSchemas.uuid,
   }),
 
+  // GET /api/public/v1/templates/versions query; id returns one version, compare_to diffs against it
+  getTemplateVersions: z.object({
+    template_id: commonSchemas.uuid.optional(),
+    id: commonSchemas.uuid.optional(),
+    compare_to: commonSchemas.uuid.optional(),
+  }).refine(data => data.template_id || data.id, {
+    message: 'template_id or id is required',
+  }),
+
   // Template analytics
   getTemplateAnalytics: z.object({
     template_id: commonSchemas.uuid,